@@ -21,6 +21,7 @@ import {
   autoMatchTransactions,
   matchToPayment,
   matchToExpense,
+  matchToTransfer,
   unmatchTransaction,
   ignoreTransaction,
   markStatementReconciled,
@@ -734,7 +735,7 @@ export const agentTools: ChatCompletionTool[] = [
     type: "function",
     function: {
       name: "match_transaction",
-      description: "Manually match a bank transaction to a payment or expense",
+      description: "Manually match a bank transaction to a payment, expense or transfer between bank accounts",
       parameters: {
         type: "object",
         properties: {
@@ -744,12 +745,12 @@ export const agentTools: ChatCompletionTool[] = [
           },
           match_type: {
             type: "string",
-            enum: ["payment", "expense"],
+            enum: ["payment", "expense", "transfer"],
             description: "Type of record to match to",
           },
           match_id: {
             type: "number",
-            description: "ID of the payment or expense to match",
+            description: "ID of the payment, expense or transfer to match",
           },
         },
         required: ["transaction_id", "match_type", "match_id"],
@@ -951,7 +952,7 @@ export async function executeTool(
 
         return {
           success: true,
-          result: `Created invoice ${invoice.number} for ${customer.name}. Total: $${invoice.total.toFixed(2)}`,
+          result: `Created draft invoice ${invoice.number} for ${customer.name}. Total: $${invoice.total.toFixed(2)}. It is posted once sent.`,
           data: { invoice_number: invoice.number, total: invoice.total },
         };
       }
@@ -961,11 +962,11 @@ export async function executeTool(
         if (!invoice) {
           return { success: false, result: `Invoice ${args.invoice_number} not found` };
         }
-        updateInvoiceStatus(invoice.id, "sent");
+        const sent = updateInvoiceStatus(invoice.id, "sent")!;
         return {
           success: true,
-          result: `Invoice ${args.invoice_number} marked as sent`,
-          data: { invoice_number: args.invoice_number },
+          result: `Invoice ${sent.number} marked as sent`,
+          data: { invoice_number: sent.number },
         };
       }
 
@@ -1839,6 +1840,8 @@ Statement ID: ${statement.id}`,
 
         if (args.match_type === "payment") {
           success = matchToPayment(args.transaction_id, args.match_id);
+        } else if (args.match_type === "transfer") {
+          success = matchToTransfer(args.transaction_id, args.match_id);
         } else {
           success = matchToExpense(args.transaction_id, args.match_id);
         }
@@ -1846,7 +1849,9 @@ Statement ID: ${statement.id}`,
         if (!success) {
           return {
             success: false,
-            result: `Transaction ${args.transaction_id} not found.`,
+            result: args.match_type === "transfer"
+              ? `Transaction ${args.transaction_id} not found, or transfer ${args.match_id} does not move money in that direction through its statement's account.`
+              : `Transaction ${args.transaction_id} not found.`,
           };
         }
 
@@ -302,7 +302,7 @@ export async function executeQuickAction(input: string): Promise<QuickActionResu
       return {
         matched: true,
         action: "create_invoice",
-        result: `Created invoice ${result.number} for ${invoice.customerName}: ${formatCurrency(invoice.amount)}`,
+        result: `Created draft invoice ${result.number} for ${invoice.customerName}: ${formatCurrency(invoice.amount)}`,
         data: result,
       };
     } catch (err) {
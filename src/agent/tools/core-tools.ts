@@ -2,7 +2,7 @@
  * Core Tools
  *
  * Core business operation tools for the AI Accounting Agent.
- * Covers customers, vendors, invoices, payments, and expenses.
+ * Covers customers, vendors, the item catalog, invoices, bad debts, dunning, quotes, purchase orders, time tracking, withholding tax, payroll, payments, customer credits, bank transfers, loans, expenses and expense claims.
  */
 
 import {
@@ -11,12 +11,39 @@ import {
   listInvoices,
   updateInvoiceStatus,
 } from "../../domain/invoices.js";
+import { writeOffInvoice, claimBadDebtRelief, recoverBadDebt, listBadDebts } from "../../domain/bad-debts.js";
+import { getDunningQueue } from "../../domain/dunning.js";
+import { createQuote, convertQuoteToInvoice, type CreateQuoteData } from "../../domain/quotes.js";
+import {
+  createPurchaseOrder,
+  listPurchaseOrders,
+  convertPurchaseOrderToBill,
+  type CreatePurchaseOrderData,
+  type PurchaseOrderStatus,
+} from "../../domain/purchase-orders.js";
+import { logTime, getUnbilledTime, billUnbilledTime } from "../../domain/time-entries.js";
+import { getWhtTracker, getWhtSummary } from "../../domain/withholding-tax.js";
+import { createPayrollRun, listStatutoryRemittances, STATUTORY_SCHEMES } from "../../domain/payroll.js";
 import { createCustomer, getCustomer, listCustomers } from "../../domain/customers.js";
+import { getCustomerStatement } from "../../domain/statements.js";
 import { createVendor, getVendor, listVendors } from "../../domain/vendors.js";
-import { recordPayment, recordExpense, listPayments } from "../../domain/payments.js";
+import {
+  recordPayment,
+  recordExpense,
+  listPayments,
+  applyCredit,
+  applyCustomerCredits,
+  refundCredit,
+  getCustomerCredits,
+} from "../../domain/payments.js";
+import { listBankAccounts, createTransfer } from "../../domain/bank-accounts.js";
+import { listLoans, recordLoanRepayment } from "../../domain/loans.js";
+import { listItems, itemLine } from "../../domain/items.js";
 import { listExpenses, getExpense, updateExpense, deleteExpense, getExpenseCategories } from "../../domain/expenses.js";
 import { matchExpense } from "../../domain/categorization-rules.js";
 import { linkDocumentToExpense, getUnlinkedDocuments } from "../../domain/documents.js";
+import { getEmployee } from "../../domain/employees.js";
+import { createExpenseClaim, submitExpenseClaim, type ClaimItemData } from "../../domain/expense-claims.js";
 import { defineTool, type AgentTool } from "./tool-registry.js";
 
 // ============================================================================
@@ -96,6 +123,44 @@ Address: ${customer.address || "N/A"}`,
   }
 );
 
+export const getCustomerStatementTool = defineTool(
+  "get_customer_statement",
+  "Get a customer's statement of account: opening balance, invoices, credit notes, payments and write-offs with a running balance, and aging",
+  "customer",
+  {
+    type: "object",
+    properties: {
+      customer_name: { type: "string", description: "Customer name or ID" },
+      from_date: { type: "string", description: "Start date (YYYY-MM-DD), defaults to three months back" },
+      to_date: { type: "string", description: "End date (YYYY-MM-DD), defaults to today" },
+    },
+    required: ["customer_name"],
+  },
+  async (args) => {
+    try {
+      const statement = getCustomerStatement(args.customer_name as string, {
+        from_date: args.from_date as string | undefined,
+        to_date: args.to_date as string | undefined,
+      });
+      const lines = statement.lines
+        .map((l) => `${l.date} ${l.reference} ${l.description}: ${l.debit ? l.debit.toFixed(2) : `-${l.credit.toFixed(2)}`} (balance ${l.balance.toFixed(2)})`)
+        .join("\n");
+      const { aging } = statement;
+      return {
+        success: true,
+        result: `Statement for ${statement.customer.name}, ${statement.from_date} to ${statement.to_date} (${statement.currency_code})
+Opening balance: ${statement.opening_balance.toFixed(2)}
+${lines || "No activity in this period"}
+Balance due: ${statement.closing_balance.toFixed(2)}
+Aging: current ${aging.current.toFixed(2)}, 1-30 ${aging.days_1_30.toFixed(2)}, 31-60 ${aging.days_31_60.toFixed(2)}, 61-90 ${aging.days_61_90.toFixed(2)}, 90+ ${aging.days_90_plus.toFixed(2)}`,
+        data: statement,
+      };
+    } catch (err) {
+      return { success: false, result: (err as Error).message };
+    }
+  }
+);
+
 export const listCustomersTool = defineTool(
   "list_customers",
   "List all customers, optionally with outstanding balance",
@@ -234,13 +299,17 @@ export const createInvoiceTool = defineTool(
         items: {
           type: "object",
           properties: {
-            description: { type: "string", description: "Item description" },
+            sku: { type: "string", description: "Catalog item SKU (see list_items); fills in the description, price, account, tax and LHDN codes" },
+            description: { type: "string", description: "Item description (required without a SKU)" },
             quantity: { type: "number", description: "Quantity (default 1)" },
-            unit_price: { type: "number", description: "Price per unit" },
+            unit_price: { type: "number", description: "Price per unit (required without a SKU)" },
+            account_code: { type: "string", description: "Income account code (default 4000 Sales Revenue)" },
+            tax_code: { type: "string", description: "Tax code for the line, e.g. SV8 or ST10 (default: invoice tax rate)" },
+            discount_percent: { type: "number", description: "Line discount in percent" },
           },
-          required: ["description", "unit_price"],
         },
       },
+      discount_percent: { type: "number", description: "Discount on the whole invoice in percent" },
       notes: { type: "string", description: "Additional notes for the invoice" },
       due_days: { type: "number", description: "Days until due (default 30)" },
     },
@@ -262,29 +331,73 @@ export const createInvoiceTool = defineTool(
     dueDate.setDate(dueDate.getDate() + dueDays);
 
     // Create invoice
-    const items = (args.items as Array<{ description: string; quantity?: number; unit_price: number }>).map(
-      (item) => ({
-        description: item.description,
-        quantity: item.quantity || 1,
-        unit_price: item.unit_price,
-      })
-    );
+    const items = (args.items as Array<{
+      sku?: string;
+      description?: string;
+      quantity?: number;
+      unit_price?: number;
+      account_code?: string;
+      tax_code?: string;
+      discount_percent?: number;
+    }>).map((item) => {
+      if (!item.sku && (!item.description || item.unit_price === undefined)) {
+        throw new Error("Each item needs a sku, or a description and unit_price");
+      }
+      const line = item.sku
+        ? itemLine(item.sku, { quantity: item.quantity, unit_price: item.unit_price, description: item.description })
+        : { description: item.description!, quantity: item.quantity || 1, unit_price: item.unit_price! };
+      return {
+        ...line,
+        account_code: item.account_code,
+        tax_code: item.tax_code,
+        discount_percent: item.discount_percent,
+      };
+    });
 
     const invoice = createInvoice({
       customer_id: customer.id,
       items,
+      discount_percent: args.discount_percent as number | undefined,
       notes: args.notes as string | undefined,
       due_date: dueDate.toISOString().split("T")[0],
     });
 
     return {
       success: true,
-      result: `Created invoice ${invoice.number} for ${customer.name}. Total: $${invoice.total.toFixed(2)}`,
+      result: `Created draft invoice ${invoice.number} for ${customer.name}. Total: $${invoice.total.toFixed(2)}. It is posted once sent.`,
       data: { invoice_number: invoice.number, total: invoice.total, customer_id: customer.id },
     };
   }
 );
 
+export const listItemsTool = defineTool(
+  "list_items",
+  "List products and services in the item catalog with SKU, price, tax code and stock on hand",
+  "invoice",
+  {
+    type: "object",
+    properties: {
+      search: { type: "string", description: "Filter by SKU, name or description" },
+      type: { type: "string", enum: ["service", "non_inventory", "inventory"], description: "Filter by item type" },
+    },
+  },
+  async (args) => {
+    const items = listItems({
+      search: args.search as string | undefined,
+      type: args.type as "service" | "non_inventory" | "inventory" | undefined,
+    });
+    const lines = items.map((i) =>
+      `${i.sku}: ${i.name} $${i.unit_price.toFixed(2)}${i.tax_code ? ` (${i.tax_code})` : ""}` +
+      (i.type === "inventory" ? `, ${i.quantity_on_hand} on hand at $${(i.average_cost || 0).toFixed(2)}` : "")
+    );
+    return {
+      success: true,
+      result: items.length > 0 ? lines.join("\n") : "No items in the catalog",
+      data: items,
+    };
+  }
+);
+
 export const getInvoiceTool = defineTool(
   "get_invoice",
   "Get details of a specific invoice by number or ID",
@@ -294,14 +407,14 @@ export const getInvoiceTool = defineTool(
     properties: {
       identifier: {
         type: "string",
-        description: "Invoice number (e.g., INV-0001) or ID",
+        description: "Invoice number (e.g., INV-0001, or DRAFT-0001 before it is issued) or ID",
       },
     },
     required: ["identifier"],
   },
   async (args) => {
     const identifier = args.identifier as string;
-    const invoice = getInvoice(identifier.startsWith("INV") ? identifier : parseInt(identifier));
+    const invoice = getInvoice(/^\d+$/.test(identifier) ? parseInt(identifier) : identifier);
 
     if (!invoice) {
       return {
@@ -386,14 +499,14 @@ export const listInvoicesTool = defineTool(
 
 export const sendInvoiceTool = defineTool(
   "send_invoice",
-  "Mark an invoice as sent",
+  "Issue a draft invoice (assigning its number and posting it to the ledger) and mark it as sent",
   "invoice",
   {
     type: "object",
     properties: {
       invoice_number: {
         type: "string",
-        description: "Invoice number (e.g., INV-0001)",
+        description: "Invoice number (e.g., INV-0001 or DRAFT-0001)",
       },
     },
     required: ["invoice_number"],
@@ -404,11 +517,13 @@ export const sendInvoiceTool = defineTool(
       return { success: false, result: `Invoice ${args.invoice_number} not found` };
     }
 
-    updateInvoiceStatus(invoice.id, "sent");
+    const sent = updateInvoiceStatus(invoice.id, "sent")!;
     return {
       success: true,
-      result: `Invoice ${args.invoice_number} marked as sent`,
-      data: { invoice_number: args.invoice_number },
+      result: invoice.status === "draft"
+        ? `Draft ${invoice.number} issued as invoice ${sent.number} and marked as sent`
+        : `Invoice ${sent.number} marked as sent`,
+      data: { invoice_number: sent.number },
     };
   }
 );
@@ -442,184 +557,1072 @@ export const markInvoicePaidTool = defineTool(
   }
 );
 
-// ============================================================================
-// Payment Tools
-// ============================================================================
-
-export const recordPaymentTool = defineTool(
-  "record_payment",
-  "Record a payment received from a customer",
-  "payment",
+export const writeOffInvoiceTool = defineTool(
+  "write_off_invoice",
+  "Write off an invoice's outstanding balance as a bad debt (Dr Bad Debts / Cr Accounts Receivable)",
+  "invoice",
   {
     type: "object",
     properties: {
-      invoice_number: {
-        type: "string",
-        description: "Invoice number being paid (optional)",
-      },
-      amount: {
-        type: "number",
-        description: "Payment amount",
-      },
-      date: {
-        type: "string",
-        description: "Payment date (YYYY-MM-DD). Defaults to today.",
-      },
-      method: {
-        type: "string",
-        enum: ["cash", "bank", "card", "check", "other"],
-        description: "Payment method",
-      },
-      reference: {
-        type: "string",
-        description: "Payment reference (check number, transaction ID, etc.)",
-      },
-      notes: {
-        type: "string",
-        description: "Additional notes",
+      invoice_number: { type: "string", description: "Invoice number (e.g., INV-0001)" },
+      reason: { type: "string", description: "Why the debt is uncollectible" },
+      date: { type: "string", description: "Write-off date (YYYY-MM-DD). Defaults to today" },
+      claim_relief: {
+        type: "boolean",
+        description: "Also claim SST bad debt relief if 12 months have passed since the invoice date",
       },
     },
-    required: ["amount"],
+    required: ["invoice_number", "reason"],
   },
   async (args) => {
-    let invoiceId: number | undefined;
-    let customerId: number | undefined;
+    const badDebt = writeOffInvoice(args.invoice_number as string, {
+      reason: args.reason as string,
+      date: args.date as string | undefined,
+      claim_relief: args.claim_relief as boolean | undefined,
+    });
 
-    if (args.invoice_number) {
-      const invoice = getInvoice(args.invoice_number as string);
-      if (!invoice) {
-        return { success: false, result: `Invoice ${args.invoice_number} not found` };
-      }
-      invoiceId = invoice.id;
-      customerId = invoice.customer_id;
+    const relief = badDebt.relief_date
+      ? ` SST relief of $${badDebt.relief_amount.toFixed(2)} claimed.`
+      : ` SST relief can be claimed from ${badDebt.relief_eligible_from}.`;
+    return {
+      success: true,
+      result: `Wrote off $${badDebt.amount.toFixed(2)} on ${badDebt.invoice_number}.${relief}`,
+      data: { bad_debt_id: badDebt.id },
+    };
+  }
+);
+
+export const claimBadDebtReliefTool = defineTool(
+  "claim_bad_debt_relief",
+  "Claim SST bad debt relief on a written-off invoice once the 12-month qualifying period has passed",
+  "invoice",
+  {
+    type: "object",
+    properties: {
+      invoice_number: { type: "string", description: "Written-off invoice number" },
+      date: { type: "string", description: "Claim date (YYYY-MM-DD). Defaults to today" },
+    },
+    required: ["invoice_number"],
+  },
+  async (args) => {
+    const invoice = getInvoice(args.invoice_number as string);
+    const badDebt = invoice ? listBadDebts({ invoice_id: invoice.id }).find((b) => !b.relief_date) : undefined;
+    if (!badDebt) {
+      return { success: false, result: `No written-off balance awaiting relief on ${args.invoice_number}` };
     }
 
-    const payment = recordPayment({
-      invoice_id: invoiceId,
-      customer_id: customerId,
+    const claimed = claimBadDebtRelief(badDebt.id, args.date as string | undefined);
+    return {
+      success: true,
+      result: `Claimed $${claimed.relief_amount.toFixed(2)} SST bad debt relief on ${claimed.invoice_number}`,
+      data: { bad_debt_id: claimed.id },
+    };
+  }
+);
+
+export const recoverBadDebtTool = defineTool(
+  "recover_bad_debt",
+  "Record a payment received on an invoice that was written off as a bad debt",
+  "payment",
+  {
+    type: "object",
+    properties: {
+      invoice_number: { type: "string", description: "Written-off invoice number" },
+      amount: { type: "number", description: "Amount received" },
+      date: { type: "string", description: "Date received (YYYY-MM-DD). Defaults to today" },
+      reference: { type: "string", description: "Payment reference" },
+      bank_account: { type: "string", description: "Bank or cash account code or name. Defaults to the default bank account" },
+    },
+    required: ["invoice_number", "amount"],
+  },
+  async (args) => {
+    const recovery = recoverBadDebt(args.invoice_number as string, {
       amount: args.amount as number,
       date: args.date as string | undefined,
-      method: args.method as "cash" | "bank" | "card" | "check" | "other" | undefined,
       reference: args.reference as string | undefined,
-      notes: args.notes as string | undefined,
+      bank_account: args.bank_account as string | undefined,
     });
 
+    const tax = recovery.tax_repaid > 0 ? ` ($${recovery.tax_repaid.toFixed(2)} SST relief repaid)` : "";
     return {
       success: true,
-      result: `Recorded payment of $${(args.amount as number).toFixed(2)}${args.invoice_number ? ` for invoice ${args.invoice_number}` : ""}`,
-      data: { payment_id: payment.id },
+      result: `Recovered $${recovery.amount.toFixed(2)} on ${args.invoice_number}${tax}`,
+      data: { payment_id: recovery.payment_id },
     };
   }
 );
 
-export const listPaymentsTool = defineTool(
-  "list_payments",
-  "List payments received or sent",
-  "payment",
+export const getDunningQueueTool = defineTool(
+  "get_dunning_queue",
+  "List invoices due a payment reminder, the dunning level each has reached and any late fee it would charge",
+  "invoice",
   {
     type: "object",
     properties: {
-      type: {
-        type: "string",
-        enum: ["received", "sent"],
-        description: "Filter by payment type",
-      },
-      from_date: {
-        type: "string",
-        description: "Filter from this date (YYYY-MM-DD)",
-      },
-      to_date: {
-        type: "string",
-        description: "Filter to this date (YYYY-MM-DD)",
-      },
+      date: { type: "string", description: "As of date (YYYY-MM-DD). Defaults to today" },
     },
   },
   async (args) => {
-    const payments = listPayments({
-      type: args.type as "received" | "sent" | undefined,
-      from_date: args.from_date as string | undefined,
-      to_date: args.to_date as string | undefined,
-    });
-
-    if (payments.length === 0) {
-      return {
-        success: true,
-        result: "No payments found",
-        data: { count: 0, payments: [] },
-      };
+    const queue = getDunningQueue(args.date as string | undefined);
+    if (queue.length === 0) {
+      return { success: true, result: "No payment reminders are due", data: { queue: [] } };
     }
 
-    const total = payments.reduce((sum, p) => sum + p.amount, 0);
-    const summary = payments
-      .slice(0, 20)
-      .map((p) => `${p.date}: ${p.customer_name || p.vendor_name || "N/A"} - $${p.amount.toFixed(2)} (${p.type})`)
+    const list = queue
+      .map((q) => `${q.invoice_number} (${q.customer_name}): ${q.level.name}, ${q.days_overdue} days overdue, $${q.outstanding.toFixed(2)} outstanding${q.fee > 0 ? `, $${q.fee.toFixed(2)} late fee` : ""}`)
       .join("\n");
-
     return {
       success: true,
-      result: `Payments (${payments.length}, total: $${total.toFixed(2)}):\n${summary}`,
-      data: { count: payments.length, total, payments },
+      result: `${queue.length} reminder(s) due:\n${list}\n\nSend them with: oa dunning run`,
+      data: { queue },
     };
   }
 );
 
 // ============================================================================
-// Expense Tools
+// Quote Tools
 // ============================================================================
 
-export const recordExpenseTool = defineTool(
-  "record_expense",
-  "Record a business expense",
-  "expense",
+export const createQuoteTool = defineTool(
+  "create_quote",
+  "Create a quotation for a customer. Quotes do not post to the ledger until converted into an invoice",
+  "invoice",
   {
     type: "object",
     properties: {
-      description: {
+      customer_name: {
         type: "string",
-        description: "What the expense was for",
-      },
-      amount: {
-        type: "number",
-        description: "Expense amount",
+        description: "Name of the customer (will create if doesn't exist)",
       },
-      category: {
-        type: "string",
-        description: "Expense category (e.g., office, travel, utilities)",
+      items: {
+        type: "array",
+        description: "Line items on the quote",
+        items: {
+          type: "object",
+          properties: {
+            description: { type: "string", description: "Item description" },
+            quantity: { type: "number", description: "Quantity (default 1)" },
+            unit_price: { type: "number", description: "Price per unit" },
+            classification_code: { type: "string", description: "LHDN classification code (default 002)" },
+            tax_type: { type: "string", description: "LHDN tax type (default E)" },
+          },
+          required: ["description", "unit_price"],
+        },
       },
-      date: {
+      expiry_date: { type: "string", description: "Valid until (YYYY-MM-DD, default 30 days)" },
+      notes: { type: "string", description: "Additional notes for the quote" },
+    },
+    required: ["customer_name", "items"],
+  },
+  async (args) => {
+    let customer = getCustomer(args.customer_name as string);
+    if (!customer) {
+      customer = createCustomer({ name: args.customer_name as string });
+    }
+
+    const quote = createQuote({
+      customer_id: customer.id,
+      items: args.items as CreateQuoteData["items"],
+      expiry_date: args.expiry_date as string | undefined,
+      notes: args.notes as string | undefined,
+    });
+
+    return {
+      success: true,
+      result: `Created quote ${quote.number} for ${customer.name}. Total: $${quote.total.toFixed(2)}, valid until ${quote.expiry_date}`,
+      data: { quote_number: quote.number, total: quote.total, customer_id: customer.id },
+    };
+  }
+);
+
+export const convertQuoteToInvoiceTool = defineTool(
+  "convert_quote_to_invoice",
+  "Convert an accepted quote into a draft invoice, carrying over its line items",
+  "invoice",
+  {
+    type: "object",
+    properties: {
+      quote_number: {
         type: "string",
-        description: "Expense date (YYYY-MM-DD). Defaults to today.",
+        description: "Quote number (e.g., QT-0001)",
       },
+    },
+    required: ["quote_number"],
+  },
+  async (args) => {
+    const { quote, invoice } = convertQuoteToInvoice(args.quote_number as string);
+    return {
+      success: true,
+      result: `Quote ${quote.number} converted to invoice ${invoice.number}. Total: $${invoice.total.toFixed(2)}`,
+      data: { quote_number: quote.number, invoice_number: invoice.number, total: invoice.total },
+    };
+  }
+);
+
+// ============================================================================
+// Purchase Order Tools
+// ============================================================================
+
+export const createPurchaseOrderTool = defineTool(
+  "create_purchase_order",
+  "Raise a purchase order with a vendor. Orders do not post to the ledger until they are billed",
+  "vendor",
+  {
+    type: "object",
+    properties: {
       vendor_name: {
         type: "string",
-        description: "Vendor/supplier name",
-      },
-      reference: {
-        type: "string",
-        description: "Receipt or reference number",
+        description: "Name of the vendor (will create if doesn't exist)",
       },
-      notes: {
-        type: "string",
-        description: "Additional notes",
+      items: {
+        type: "array",
+        description: "Lines on the order",
+        items: {
+          type: "object",
+          properties: {
+            description: { type: "string", description: "Item description" },
+            quantity: { type: "number", description: "Quantity (default 1)" },
+            unit_price: { type: "number", description: "Agreed price per unit, before tax" },
+            sku: { type: "string", description: "Catalog item SKU; fills in the description and purchase price" },
+            account: { type: "string", description: "Expense account code or name" },
+            tax_code: { type: "string", description: "Tax charged by the vendor, e.g. ST10" },
+          },
+        },
       },
+      expected_date: { type: "string", description: "Expected delivery date (YYYY-MM-DD)" },
+      notes: { type: "string", description: "Notes printed on the order" },
     },
-    required: ["description", "amount"],
+    required: ["vendor_name", "items"],
   },
   async (args) => {
-    const expense = recordExpense({
-      description: args.description as string,
-      amount: args.amount as number,
-      category: (args.category as string) || "Other Expenses",
-      date: args.date as string | undefined,
-      vendor_name: args.vendor_name as string | undefined,
-      reference: args.reference as string | undefined,
+    let vendor = getVendor(args.vendor_name as string);
+    if (!vendor) {
+      vendor = createVendor({ name: args.vendor_name as string });
+    }
+
+    const lines = args.items as Array<CreatePurchaseOrderData["items"][number] & { sku?: string }>;
+    const order = createPurchaseOrder({
+      vendor_id: vendor.id,
+      items: lines.map(({ sku, ...line }) => ({ ...line, item: sku })),
+      expected_date: args.expected_date as string | undefined,
       notes: args.notes as string | undefined,
     });
 
     return {
       success: true,
-      result: `Recorded expense: ${args.description} - $${(args.amount as number).toFixed(2)}`,
-      data: { expense_id: expense.id },
+      result: `Created purchase order ${order.number} for ${vendor.name}. Total: $${order.total.toFixed(2)}`,
+      data: { purchase_order_number: order.number, total: order.total, vendor_id: vendor.id },
+    };
+  }
+);
+
+export const listPurchaseOrdersTool = defineTool(
+  "list_purchase_orders",
+  "List purchase orders with what is still to be billed on each",
+  "vendor",
+  {
+    type: "object",
+    properties: {
+      status: {
+        type: "string",
+        enum: ["open", "partial", "closed", "cancelled"],
+        description: "Filter by status (partial means partly received or billed)",
+      },
+      vendor_name: { type: "string", description: "Only this vendor's orders" },
+    },
+  },
+  async (args) => {
+    const vendor = args.vendor_name ? getVendor(args.vendor_name as string) : undefined;
+    if (args.vendor_name && !vendor) {
+      return { success: false, result: `Vendor not found: ${args.vendor_name}` };
+    }
+    const orders = listPurchaseOrders({ status: args.status as PurchaseOrderStatus | undefined, vendor_id: vendor?.id });
+
+    return {
+      success: true,
+      result: orders.length === 0
+        ? "No purchase orders found"
+        : orders.map((o) => `${o.number} ${o.vendor_name}: ${o.total.toFixed(2)}, ${(o.committed || 0).toFixed(2)} to bill (${o.status})`).join("\n"),
+      data: orders.map((o) => ({ number: o.number, vendor: o.vendor_name, total: o.total, committed: o.committed, status: o.status })),
+    };
+  }
+);
+
+export const convertPurchaseOrderToBillTool = defineTool(
+  "convert_purchase_order_to_bill",
+  "Turn a purchase order into a draft bill and report any lines that deviate from the order or goods received",
+  "vendor",
+  {
+    type: "object",
+    properties: {
+      purchase_order_number: { type: "string", description: "Purchase order number (e.g., PO-0001)" },
+      vendor_reference: { type: "string", description: "The vendor's invoice number" },
+    },
+    required: ["purchase_order_number"],
+  },
+  async (args) => {
+    const { purchase_order, bill, match } = convertPurchaseOrderToBill(args.purchase_order_number as string, {
+      vendor_reference: args.vendor_reference as string | undefined,
+    });
+    const exceptions = match.exceptions.map((e) => e.message);
+
+    return {
+      success: true,
+      result: `Purchase order ${purchase_order.number} converted to draft bill ${bill.number}. Total: $${bill.total.toFixed(2)}` +
+        (exceptions.length > 0 ? `. Match exceptions: ${exceptions.join("; ")}` : ""),
+      data: { purchase_order_number: purchase_order.number, bill_number: bill.number, total: bill.total, exceptions },
+    };
+  }
+);
+
+// ============================================================================
+// Time Tracking Tools
+// ============================================================================
+
+export const logTimeTool = defineTool(
+  "log_time",
+  "Record hours worked for a customer, billable by default",
+  "invoice",
+  {
+    type: "object",
+    properties: {
+      customer_name: { type: "string", description: "Customer the work was for" },
+      hours: { type: "number", description: "Hours worked" },
+      rate: { type: "number", description: "Hourly rate (defaults to the hourly_rate setting)" },
+      date: { type: "string", description: "Date worked (YYYY-MM-DD, default today)" },
+      description: { type: "string", description: "What was done" },
+      project: { type: "string", description: "Project name, or Dimension:Value" },
+      billable: { type: "boolean", description: "Whether the time can be billed (default true)" },
+    },
+    required: ["customer_name", "hours"],
+  },
+  async (args) => {
+    const customer = getCustomer(args.customer_name as string);
+    if (!customer) {
+      return { success: false, result: `Customer not found: ${args.customer_name}` };
+    }
+
+    const entry = logTime({
+      customer_id: customer.id,
+      hours: args.hours as number,
+      rate: args.rate as number | undefined,
+      date: args.date as string | undefined,
+      description: args.description as string | undefined,
+      project: args.project as string | undefined,
+      billable: args.billable as boolean | undefined,
+    });
+
+    return {
+      success: true,
+      result: `Logged ${entry.hours}h for ${customer.name} on ${entry.date} at ${entry.rate.toFixed(2)}/h (${entry.amount.toFixed(2)})`,
+      data: { id: entry.id, hours: entry.hours, amount: entry.amount },
+    };
+  }
+);
+
+export const getUnbilledTimeTool = defineTool(
+  "get_unbilled_time",
+  "Show billable hours not yet invoiced (work in progress) per customer",
+  "invoice",
+  {
+    type: "object",
+    properties: {},
+  },
+  async () => {
+    const wip = getUnbilledTime();
+    return {
+      success: true,
+      result: wip.customers.length === 0
+        ? "No unbilled time"
+        : wip.customers.map((c) => `${c.customer_name}: ${c.hours}h, $${c.amount.toFixed(2)} since ${c.oldest_date}`).join("\n") +
+          `\nTotal: ${wip.hours}h, $${wip.amount.toFixed(2)}`,
+      data: wip,
+    };
+  }
+);
+
+export const billUnbilledTimeTool = defineTool(
+  "bill_unbilled_time",
+  "Put a customer's unbilled hours on a draft invoice, one line per project and rate",
+  "invoice",
+  {
+    type: "object",
+    properties: {
+      customer_name: { type: "string", description: "Customer to bill" },
+      through: { type: "string", description: "Only bill time up to this date (YYYY-MM-DD)" },
+    },
+    required: ["customer_name"],
+  },
+  async (args) => {
+    const customer = getCustomer(args.customer_name as string);
+    if (!customer) {
+      return { success: false, result: `Customer not found: ${args.customer_name}` };
+    }
+
+    const { invoice, entries } = billUnbilledTime(customer.id, { through: args.through as string | undefined });
+    return {
+      success: true,
+      result: `Billed ${entries.length} time entries to draft invoice ${invoice.number}. Total: $${invoice.total.toFixed(2)}`,
+      data: { invoice_number: invoice.number, total: invoice.total, entries: entries.length },
+    };
+  }
+);
+
+// ============================================================================
+// Withholding Tax Tools
+// ============================================================================
+
+export const getWithholdingTaxDueTool = defineTool(
+  "get_withholding_tax_due",
+  "Show tax withheld from non-resident vendors that has not been remitted to LHDN, by form, with days left before each one-month deadline",
+  "vendor",
+  {
+    type: "object",
+    properties: {
+      as_of: { type: "string", description: "Date to check deadlines against (YYYY-MM-DD). Defaults to today" },
+    },
+  },
+  async (args) => {
+    const tracker = getWhtTracker(args.as_of as string | undefined);
+    if (tracker.outstanding.length === 0) {
+      return { success: true, result: "No withholding tax outstanding", data: tracker };
+    }
+    const lines = tracker.outstanding.map((d) =>
+      `${d.vendor_name} ${d.date}: ${d.form} $${d.wht_amount.toFixed(2)} (${d.rate}% of $${d.gross_amount.toFixed(2)}), ` +
+      (d.days_left < 0 ? `${-d.days_left} days overdue` : `due ${d.due_date}`)
+    );
+    return {
+      success: true,
+      result: `${lines.join("\n")}\nOutstanding: $${tracker.total.toFixed(2)}${tracker.overdue > 0 ? `, overdue: $${tracker.overdue.toFixed(2)}` : ""}`,
+      data: tracker,
+    };
+  }
+);
+
+export const getWithholdingTaxSummaryTool = defineTool(
+  "get_withholding_tax_summary",
+  "CP37-style summary of tax withheld from non-resident vendors in a period, per remittance form",
+  "report",
+  {
+    type: "object",
+    properties: {
+      from_date: { type: "string", description: "Start date (YYYY-MM-DD)" },
+      to_date: { type: "string", description: "End date (YYYY-MM-DD)" },
+    },
+    required: ["from_date", "to_date"],
+  },
+  async (args) => {
+    const summary = getWhtSummary(args.from_date as string, args.to_date as string);
+    return {
+      success: true,
+      result: summary.forms.length === 0
+        ? "No tax withheld in this period"
+        : summary.forms.map((f) => `${f.form}: ${f.deductions.length} payments, gross $${f.gross.toFixed(2)}, withheld $${f.wht.toFixed(2)}, remitted $${f.remitted.toFixed(2)}`).join("\n") +
+          `\nOutstanding: $${summary.outstanding.toFixed(2)}`,
+      data: summary,
+    };
+  }
+);
+
+// ============================================================================
+// Payroll Tools
+// ============================================================================
+
+export const runPayrollTool = defineTool(
+  "run_payroll",
+  "Work out a month's payroll as a draft: gross pay, EPF, SOCSO, EIS and PCB per employee from their monthly salaries. The user posts it with oa payroll post",
+  "expense",
+  {
+    type: "object",
+    properties: {
+      period: { type: "string", description: "Month to pay (YYYY-MM)" },
+      allowances: {
+        type: "array",
+        description: "Allowances on top of salary this month",
+        items: {
+          type: "object",
+          properties: {
+            employee_name: { type: "string" },
+            amount: { type: "number" },
+          },
+          required: ["employee_name", "amount"],
+        },
+      },
+    },
+    required: ["period"],
+  },
+  async (args) => {
+    const allowances = (args.allowances as Array<{ employee_name: string; amount: number }> | undefined) || [];
+    const run = createPayrollRun(args.period as string, {
+      employees: allowances.map((a) => ({ employee: a.employee_name, allowances: a.amount })),
+    });
+    const lines = run.lines!.map((l) =>
+      `${l.employee_name}: gross $${l.gross.toFixed(2)}, EPF $${l.epf_employee.toFixed(2)}, SOCSO $${l.socso_employee.toFixed(2)}, EIS $${l.eis_employee.toFixed(2)}, PCB $${l.pcb.toFixed(2)}, net $${l.net.toFixed(2)}`
+    );
+    return {
+      success: true,
+      result: `Draft payroll for ${run.period}:\n${lines.join("\n")}\nNet salaries: $${run.totals.net.toFixed(2)}, cost to employer: $${run.totals.employer_cost.toFixed(2)}`,
+      data: { period: run.period, totals: run.totals },
+    };
+  }
+);
+
+export const getStatutoryPaymentsDueTool = defineTool(
+  "get_statutory_payments_due",
+  "Show EPF, SOCSO, EIS and PCB from posted payrolls not yet paid to the agencies, with their deadlines",
+  "expense",
+  {
+    type: "object",
+    properties: {},
+  },
+  async () => {
+    const due = listStatutoryRemittances({ status: "outstanding" });
+    return {
+      success: true,
+      result: due.length === 0
+        ? "No statutory payments outstanding"
+        : due.map((r) => `${r.period} ${STATUTORY_SCHEMES[r.scheme].label}: $${r.amount.toFixed(2)} due ${r.due_date}${r.days_left! < 0 ? " (overdue)" : ""}`).join("\n"),
+      data: due,
+    };
+  }
+);
+
+// ============================================================================
+// Payment Tools
+// ============================================================================
+
+export const recordPaymentTool = defineTool(
+  "record_payment",
+  "Record a payment received from a customer",
+  "payment",
+  {
+    type: "object",
+    properties: {
+      invoice_number: {
+        type: "string",
+        description: "Invoice number being paid (optional). Any overpayment is held as customer credit",
+      },
+      customer_name: {
+        type: "string",
+        description: "Paying customer, for payments not tied to one invoice",
+      },
+      allocations: {
+        type: "array",
+        description: "Split one payment over several invoices; anything left over is held as customer credit",
+        items: {
+          type: "object",
+          properties: {
+            invoice_number: { type: "string" },
+            amount: { type: "number" },
+          },
+          required: ["invoice_number", "amount"],
+        },
+      },
+      amount: {
+        type: "number",
+        description: "Payment amount",
+      },
+      date: {
+        type: "string",
+        description: "Payment date (YYYY-MM-DD). Defaults to today.",
+      },
+      method: {
+        type: "string",
+        enum: ["cash", "bank", "card", "check", "other"],
+        description: "Payment method",
+      },
+      reference: {
+        type: "string",
+        description: "Payment reference (check number, transaction ID, etc.)",
+      },
+      bank_account: {
+        type: "string",
+        description: "Bank or cash account the money went into (code or name). Defaults to the default bank account",
+      },
+      notes: {
+        type: "string",
+        description: "Additional notes",
+      },
+    },
+    required: ["amount"],
+  },
+  async (args) => {
+    let invoiceId: number | undefined;
+    let customerId: number | undefined;
+
+    if (args.invoice_number) {
+      const invoice = getInvoice(args.invoice_number as string);
+      if (!invoice) {
+        return { success: false, result: `Invoice ${args.invoice_number} not found` };
+      }
+      invoiceId = invoice.id;
+      customerId = invoice.customer_id;
+    }
+    if (args.customer_name) {
+      const customer = getCustomer(args.customer_name as string);
+      if (!customer) {
+        return { success: false, result: `Customer ${args.customer_name} not found` };
+      }
+      customerId = customer.id;
+    }
+
+    let allocations: Array<{ invoice_id: number; amount: number }> | undefined;
+    if (args.allocations) {
+      allocations = [];
+      for (const allocation of args.allocations as Array<{ invoice_number: string; amount: number }>) {
+        const invoice = getInvoice(allocation.invoice_number);
+        if (!invoice) {
+          return { success: false, result: `Invoice ${allocation.invoice_number} not found` };
+        }
+        allocations.push({ invoice_id: invoice.id, amount: allocation.amount });
+      }
+    }
+
+    const payment = recordPayment({
+      invoice_id: invoiceId,
+      customer_id: customerId,
+      allocations,
+      amount: args.amount as number,
+      date: args.date as string | undefined,
+      method: args.method as "cash" | "bank" | "card" | "check" | "other" | undefined,
+      reference: args.reference as string | undefined,
+      bank_account: args.bank_account as string | undefined,
+      notes: args.notes as string | undefined,
+    });
+
+    return {
+      success: true,
+      result: `Recorded payment of $${(args.amount as number).toFixed(2)}${args.invoice_number ? ` for invoice ${args.invoice_number}` : ""}` +
+        (payment.unapplied_amount ? `. $${payment.unapplied_amount.toFixed(2)} held as customer credit` : ""),
+      data: { payment_id: payment.id, unapplied_amount: payment.unapplied_amount },
+    };
+  }
+);
+
+export const listCustomerCreditsTool = defineTool(
+  "list_customer_credits",
+  "List a customer's unapplied payments and credit notes",
+  "payment",
+  {
+    type: "object",
+    properties: {
+      customer_name: { type: "string", description: "Customer name" },
+    },
+    required: ["customer_name"],
+  },
+  async (args) => {
+    const customer = getCustomer(args.customer_name as string);
+    if (!customer) {
+      return { success: false, result: `Customer ${args.customer_name} not found` };
+    }
+    const credits = getCustomerCredits(customer.id);
+    if (credits.length === 0) {
+      return { success: true, result: `${customer.name} has no credit`, data: { credits: [] } };
+    }
+
+    const list = credits
+      .map((c) => `${c.date}: ${c.type === "payment" ? `Payment #${c.id}` : c.reference} - ${c.available.toFixed(2)} ${c.currency_code} available`)
+      .join("\n");
+    return {
+      success: true,
+      result: `Credit for ${customer.name}:\n${list}`,
+      data: { credits },
+    };
+  }
+);
+
+export const applyCustomerCreditTool = defineTool(
+  "apply_customer_credit",
+  "Apply a customer's unapplied payments or credit notes to an invoice",
+  "payment",
+  {
+    type: "object",
+    properties: {
+      invoice_number: { type: "string", description: "Invoice to settle" },
+      credit_note_number: { type: "string", description: "Credit note to use (optional)" },
+      payment_id: { type: "number", description: "Payment holding the credit (optional)" },
+      amount: { type: "number", description: "Amount to apply. Defaults to as much as the credit covers" },
+    },
+    required: ["invoice_number"],
+  },
+  async (args) => {
+    const invoice = getInvoice(args.invoice_number as string);
+    if (!invoice) {
+      return { success: false, result: `Invoice ${args.invoice_number} not found` };
+    }
+
+    let applied = 0;
+    if (args.credit_note_number || args.payment_id) {
+      let creditNoteId: number | undefined;
+      if (args.credit_note_number) {
+        const note = getInvoice(args.credit_note_number as string);
+        if (!note) {
+          return { success: false, result: `Credit note ${args.credit_note_number} not found` };
+        }
+        creditNoteId = note.id;
+      }
+      applied = applyCredit({
+        invoice_id: invoice.id,
+        credit_note_id: creditNoteId,
+        payment_id: creditNoteId ? undefined : args.payment_id as number,
+        amount: args.amount as number | undefined,
+      }).amount;
+    } else {
+      // Without a named source, use the customer's credits oldest first
+      const allocations = applyCustomerCredits(invoice.id, { amount: args.amount as number | undefined });
+      if (allocations.length === 0) {
+        return { success: false, result: `${invoice.customer_name} has no credit to apply` };
+      }
+      applied = allocations.reduce((sum, a) => sum + a.amount, 0);
+    }
+
+    const updated = getInvoice(invoice.id)!;
+    return {
+      success: true,
+      result: `Applied $${applied.toFixed(2)} of credit to ${updated.number}. Balance: $${(updated.total - updated.amount_paid).toFixed(2)}`,
+      data: { invoice_number: updated.number, applied, status: updated.status },
+    };
+  }
+);
+
+export const refundCustomerCreditTool = defineTool(
+  "refund_customer_credit",
+  "Refund a customer's unapplied payment or credit note",
+  "payment",
+  {
+    type: "object",
+    properties: {
+      credit_note_number: { type: "string", description: "Credit note to refund" },
+      payment_id: { type: "number", description: "Payment holding the credit to refund" },
+      amount: { type: "number", description: "Amount to refund. Defaults to all the credit left" },
+      method: {
+        type: "string",
+        enum: ["cash", "bank", "card", "check", "other"],
+        description: "Refund method",
+      },
+      reference: { type: "string", description: "Refund reference" },
+      bank_account: { type: "string", description: "Bank or cash account code or name. Defaults to the default bank account" },
+    },
+  },
+  async (args) => {
+    let creditNoteId: number | undefined;
+    if (args.credit_note_number) {
+      const note = getInvoice(args.credit_note_number as string);
+      if (!note) {
+        return { success: false, result: `Credit note ${args.credit_note_number} not found` };
+      }
+      creditNoteId = note.id;
+    }
+
+    const refund = refundCredit({
+      credit_note_id: creditNoteId,
+      payment_id: args.payment_id as number | undefined,
+      amount: args.amount as number | undefined,
+      method: args.method as "cash" | "bank" | "card" | "check" | "other" | undefined,
+      reference: args.reference as string | undefined,
+      bank_account: args.bank_account as string | undefined,
+    });
+
+    return {
+      success: true,
+      result: `Refunded $${refund.amount.toFixed(2)} to ${refund.customer_name || "customer"}`,
+      data: { payment_id: refund.id },
+    };
+  }
+);
+
+export const listBankAccountsTool = defineTool(
+  "list_bank_accounts",
+  "List bank and cash accounts with their balances",
+  "payment",
+  {
+    type: "object",
+    properties: {},
+  },
+  async () => {
+    const accounts = listBankAccounts();
+    const lines = accounts.map((a) =>
+      `${a.code} ${a.name}: $${a.balance.toFixed(2)}${a.is_default ? " (default)" : ""}${a.unreconciled ? `, ${a.unreconciled} unreconciled` : ""}`
+    );
+    return {
+      success: true,
+      result: accounts.length > 0 ? lines.join("\n") : "No bank or cash accounts",
+      data: accounts,
+    };
+  }
+);
+
+export const transferBetweenAccountsTool = defineTool(
+  "transfer_between_accounts",
+  "Move money between two bank or cash accounts, e.g. current account to savings or a cash withdrawal",
+  "payment",
+  {
+    type: "object",
+    properties: {
+      from_account: { type: "string", description: "Account the money leaves (code or name)" },
+      to_account: { type: "string", description: "Account the money arrives in (code or name)" },
+      amount: { type: "number", description: "Amount arriving in the receiving account" },
+      fee: { type: "number", description: "Fee charged on top by the sending bank" },
+      date: { type: "string", description: "Transfer date (YYYY-MM-DD). Defaults to today" },
+      reference: { type: "string", description: "Transfer reference" },
+    },
+    required: ["from_account", "to_account", "amount"],
+  },
+  async (args) => {
+    const transfer = createTransfer({
+      from_account: args.from_account as string,
+      to_account: args.to_account as string,
+      amount: args.amount as number,
+      fee: args.fee as number | undefined,
+      date: args.date as string | undefined,
+      reference: args.reference as string | undefined,
+    });
+
+    const fee = transfer.fee > 0 ? ` (fee $${transfer.fee.toFixed(2)})` : "";
+    return {
+      success: true,
+      result: `Transferred $${transfer.amount.toFixed(2)} from ${transfer.from_account_name} to ${transfer.to_account_name}${fee}`,
+      data: { transfer_id: transfer.id },
+    };
+  }
+);
+
+export const listLoansTool = defineTool(
+  "list_loans",
+  "List loans and hire purchase agreements with installments paid and principal outstanding",
+  "payment",
+  {
+    type: "object",
+    properties: {
+      include_repaid: { type: "boolean", description: "Include loans already repaid" },
+    },
+  },
+  async (args) => {
+    const loans = listLoans(args.include_repaid ? {} : { status: "active" });
+    const lines = loans.map((l) =>
+      `${l.name} (${l.type === "hire_purchase" ? "hire purchase" : "loan"}, ${l.annual_rate}%): $${(l.installment || 0).toFixed(2)}/month, ` +
+      `${l.installments_paid}/${l.term_months} paid, $${(l.outstanding || 0).toFixed(2)} outstanding${l.next_due_date ? `, next due ${l.next_due_date}` : ""}`
+    );
+    return {
+      success: true,
+      result: loans.length > 0 ? lines.join("\n") : "No loans",
+      data: loans,
+    };
+  }
+);
+
+export const recordLoanRepaymentTool = defineTool(
+  "record_loan_repayment",
+  "Pay the next installment on a loan or hire purchase, split into principal and interest. Use instead of record_expense for loan repayments",
+  "payment",
+  {
+    type: "object",
+    properties: {
+      loan_name: { type: "string", description: "Loan name" },
+      date: { type: "string", description: "Payment date (YYYY-MM-DD). Defaults to today" },
+      bank_account: { type: "string", description: "Bank account paid from (code or name). Defaults to the default bank account" },
+      reference: { type: "string", description: "Payment reference" },
+    },
+    required: ["loan_name"],
+  },
+  async (args) => {
+    const paid = recordLoanRepayment(args.loan_name as string, {
+      date: args.date as string | undefined,
+      bank_account: args.bank_account as string | undefined,
+      reference: args.reference as string | undefined,
+    });
+
+    return {
+      success: true,
+      result: `Paid installment ${paid.number} of ${args.loan_name}: $${paid.payment.toFixed(2)} ` +
+        `($${paid.principal.toFixed(2)} principal, $${paid.interest.toFixed(2)} interest), $${paid.balance.toFixed(2)} left`,
+      data: { installment: paid.number, payment_id: paid.payment_id },
+    };
+  }
+);
+
+export const listPaymentsTool = defineTool(
+  "list_payments",
+  "List payments received or sent",
+  "payment",
+  {
+    type: "object",
+    properties: {
+      type: {
+        type: "string",
+        enum: ["received", "sent"],
+        description: "Filter by payment type",
+      },
+      from_date: {
+        type: "string",
+        description: "Filter from this date (YYYY-MM-DD)",
+      },
+      to_date: {
+        type: "string",
+        description: "Filter to this date (YYYY-MM-DD)",
+      },
+    },
+  },
+  async (args) => {
+    const payments = listPayments({
+      type: args.type as "received" | "sent" | undefined,
+      from_date: args.from_date as string | undefined,
+      to_date: args.to_date as string | undefined,
+    });
+
+    if (payments.length === 0) {
+      return {
+        success: true,
+        result: "No payments found",
+        data: { count: 0, payments: [] },
+      };
+    }
+
+    const total = payments.reduce((sum, p) => sum + p.amount, 0);
+    const summary = payments
+      .slice(0, 20)
+      .map((p) => `${p.date}: ${p.customer_name || p.vendor_name || "N/A"} - $${p.amount.toFixed(2)} (${p.type})`)
+      .join("\n");
+
+    return {
+      success: true,
+      result: `Payments (${payments.length}, total: $${total.toFixed(2)}):\n${summary}`,
+      data: { count: payments.length, total, payments },
+    };
+  }
+);
+
+// ============================================================================
+// Expense Tools
+// ============================================================================
+
+export const recordExpenseTool = defineTool(
+  "record_expense",
+  "Record a business expense",
+  "expense",
+  {
+    type: "object",
+    properties: {
+      description: {
+        type: "string",
+        description: "What the expense was for",
+      },
+      amount: {
+        type: "number",
+        description: "Expense amount",
+      },
+      category: {
+        type: "string",
+        description: "Expense category (e.g., office, travel, utilities)",
+      },
+      date: {
+        type: "string",
+        description: "Expense date (YYYY-MM-DD). Defaults to today.",
+      },
+      vendor_name: {
+        type: "string",
+        description: "Vendor/supplier name",
+      },
+      reference: {
+        type: "string",
+        description: "Receipt or reference number",
+      },
+      notes: {
+        type: "string",
+        description: "Additional notes",
+      },
+      tax_code: {
+        type: "string",
+        description: "Tax code included in the amount, e.g. SV. Recoverable tax is posted to its own account",
+      },
+      bank_account: {
+        type: "string",
+        description: "Bank or cash account it was paid from (code or name). Defaults to the default bank account",
+      },
+    },
+    required: ["description", "amount"],
+  },
+  async (args) => {
+    const expense = recordExpense({
+      description: args.description as string,
+      amount: args.amount as number,
+      category: (args.category as string) || "Other Expenses",
+      date: args.date as string | undefined,
+      vendor_name: args.vendor_name as string | undefined,
+      reference: args.reference as string | undefined,
+      notes: args.notes as string | undefined,
+      tax_code: args.tax_code as string | undefined,
+      bank_account: args.bank_account as string | undefined,
+    });
+
+    return {
+      success: true,
+      result: `Recorded expense: ${args.description} - $${(args.amount as number).toFixed(2)}`,
+      data: { expense_id: expense.id },
+    };
+  }
+);
+
+export const recordExpenseClaimTool = defineTool(
+  "record_expense_claim",
+  "Record expenses an employee paid for personally as an expense claim and submit it for approval. Use instead of record_expense when the business did not pay",
+  "expense",
+  {
+    type: "object",
+    properties: {
+      employee_name: {
+        type: "string",
+        description: "Employee who paid (must already be set up with oa employee add)",
+      },
+      description: {
+        type: "string",
+        description: "What the claim is for, e.g. 'KL client trip'",
+      },
+      items: {
+        type: "array",
+        description: "Receipts and trips on the claim",
+        items: {
+          type: "object",
+          properties: {
+            description: { type: "string", description: "What was bought, or the trip" },
+            amount: { type: "number", description: "Receipt amount including tax. Omit for mileage" },
+            distance_km: { type: "number", description: "Kilometres driven, for mileage at the configured rate" },
+            category: { type: "string", description: "Expense account code or name" },
+            date: { type: "string", description: "Receipt date (YYYY-MM-DD)" },
+            tax_code: { type: "string", description: "Tax code included in the amount" },
+            document_id: { type: "number", description: "Receipt document ID from the vault" },
+          },
+          required: ["description"],
+        },
+      },
+    },
+    required: ["employee_name", "items"],
+  },
+  async (args) => {
+    const employee = getEmployee(args.employee_name as string);
+    if (!employee) {
+      return { success: false, result: `Employee not found: ${args.employee_name}. Add them with: oa employee add "${args.employee_name}"` };
+    }
+
+    const items = (args.items as Array<Record<string, unknown>>).map((item): ClaimItemData => ({
+      description: item.description as string,
+      amount: item.amount as number | undefined,
+      distance_km: item.distance_km as number | undefined,
+      account: item.category as string | undefined,
+      date: item.date as string | undefined,
+      tax_code: item.tax_code as string | undefined,
+      document_id: item.document_id as number | undefined,
+    }));
+    const claim = submitExpenseClaim(createExpenseClaim({
+      employee_id: employee.id,
+      description: args.description as string | undefined,
+      items,
+    }).id);
+
+    return {
+      success: true,
+      result: `Expense claim ${claim.number} for ${employee.name}: $${claim.total.toFixed(2)}, submitted for approval (oa claim approve ${claim.number})`,
+      data: { claim_id: claim.id, number: claim.number, total: claim.total },
     };
   }
 );
@@ -995,21 +1998,54 @@ export const coreTools: AgentTool[] = [
   // Customers
   createCustomerTool,
   getCustomerTool,
+  getCustomerStatementTool,
   listCustomersTool,
   // Vendors
   createVendorTool,
   listVendorsTool,
   // Invoices
   createInvoiceTool,
+  listItemsTool,
   getInvoiceTool,
   listInvoicesTool,
   sendInvoiceTool,
   markInvoicePaidTool,
+  writeOffInvoiceTool,
+  claimBadDebtReliefTool,
+  recoverBadDebtTool,
+  getDunningQueueTool,
+  // Quotes
+  createQuoteTool,
+  convertQuoteToInvoiceTool,
+  // Purchase orders
+  createPurchaseOrderTool,
+  listPurchaseOrdersTool,
+  convertPurchaseOrderToBillTool,
+  // Time tracking
+  logTimeTool,
+  getUnbilledTimeTool,
+  billUnbilledTimeTool,
+  // Withholding tax
+  getWithholdingTaxDueTool,
+  getWithholdingTaxSummaryTool,
+  // Payroll
+  runPayrollTool,
+  getStatutoryPaymentsDueTool,
   // Payments
   recordPaymentTool,
   listPaymentsTool,
+  listCustomerCreditsTool,
+  applyCustomerCreditTool,
+  refundCustomerCreditTool,
+  // Bank accounts
+  listBankAccountsTool,
+  transferBetweenAccountsTool,
+  // Loans
+  listLoansTool,
+  recordLoanRepaymentTool,
   // Expenses
   recordExpenseTool,
+  recordExpenseClaimTool,
   listExpensesTool,
   getExpenseTool,
   updateExpenseTool,
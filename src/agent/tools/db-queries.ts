@@ -134,7 +134,7 @@ export function getDatabaseContext(): DatabaseContext {
 
   // Get total invoiced with efficient aggregate query
   const totalInvoicedResult = db.prepare(
-    "SELECT COALESCE(SUM(total), 0) as total FROM invoices WHERE status != 'cancelled'"
+    "SELECT COALESCE(SUM(total), 0) as total FROM invoices WHERE status NOT IN ('draft', 'cancelled')"
   ).get() as { total: number };
   const totalInvoiced = totalInvoicedResult.total;
 
@@ -11,10 +11,14 @@ import {
   getReceivablesAging,
   getCashFlow,
   getExpensesByCategory,
+  getBudgetVsActual,
 } from "../../domain/reports.js";
 import { getInvoiceSummary, listInvoices, getOverdueInvoices } from "../../domain/invoices.js";
 import { getPaymentSummary, listPayments } from "../../domain/payments.js";
 import { listCustomers } from "../../domain/customers.js";
+import { getTrackingDimension, resolveTrackingRefs } from "../../domain/tracking.js";
+import { getAssetSchedule } from "../../domain/fixed-assets.js";
+import { listAmortizationSchedules } from "../../domain/amortization.js";
 import { defineTool, type AgentTool } from "./tool-registry.js";
 
 /**
@@ -46,6 +50,8 @@ ASSETS
 
 LIABILITIES
   Accounts Payable: $${report.liabilities.payables.toFixed(2)}
+  Loans due within 12 months: $${report.liabilities.loans.current.toFixed(2)}
+  Loans due after 12 months: $${report.liabilities.loans.non_current.toFixed(2)}
   Total Liabilities: $${report.liabilities.total.toFixed(2)}
 
 EQUITY
@@ -78,6 +84,14 @@ export const getProfitLossTool = defineTool(
         type: "string",
         description: "End date (YYYY-MM-DD). Defaults to today.",
       },
+      tracking: {
+        type: "string",
+        description: "Optional tracking value to filter by, as Dimension:Value (e.g. Project:Website)",
+      },
+      group_by_dimension: {
+        type: "string",
+        description: "Optional tracking dimension to break net income down by (e.g. Project)",
+      },
     },
   },
   async (args) => {
@@ -86,7 +100,18 @@ export const getProfitLossTool = defineTool(
       (args.from_date as string) || `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-01`;
     const toDate = (args.to_date as string) || now.toISOString().split("T")[0];
 
-    const report = getProfitLoss(fromDate, toDate);
+    const dimension = args.group_by_dimension ? getTrackingDimension(args.group_by_dimension as string) : undefined;
+    if (args.group_by_dimension && !dimension) {
+      return {
+        success: false,
+        result: `Tracking dimension "${args.group_by_dimension}" not found`,
+      };
+    }
+
+    const report = getProfitLoss(fromDate, toDate, {
+      tracking_value_id: args.tracking ? resolveTrackingRefs([args.tracking as string])[0] : undefined,
+      group_by_dimension_id: dimension?.id,
+    });
 
     let summary = `Profit & Loss: ${report.from_date} to ${report.to_date}\n\nREVENUE\n`;
     for (const item of report.revenue.items) {
@@ -98,6 +123,12 @@ export const getProfitLossTool = defineTool(
     }
     summary += `  Total Expenses: $${report.expenses.total.toFixed(2)}\n\n`;
     summary += `NET INCOME: $${report.net_income.toFixed(2)}`;
+    if (dimension && report.by_tracking) {
+      summary += `\n\nBY ${dimension.name.toUpperCase()}\n`;
+      for (const row of report.by_tracking) {
+        summary += `  ${row.value_name}: revenue $${row.revenue.toFixed(2)}, expenses $${row.expenses.toFixed(2)}, net $${row.net_income.toFixed(2)}\n`;
+      }
+    }
 
     return {
       success: true,
@@ -239,6 +270,138 @@ export const getExpensesByCategoryTool = defineTool(
   }
 );
 
+/**
+ * Get budget vs actual
+ */
+export const getBudgetVsActualTool = defineTool(
+  "get_budget_vs_actual",
+  "Compare budgets with actual income and expenses per account and month, with variance and variance %",
+  "report",
+  {
+    type: "object",
+    properties: {
+      from_date: {
+        type: "string",
+        description: "Start date (YYYY-MM-DD). Defaults to first of current month.",
+      },
+      to_date: {
+        type: "string",
+        description: "End date (YYYY-MM-DD). Defaults to today.",
+      },
+    },
+  },
+  async (args) => {
+    const now = new Date();
+    const fromDate =
+      (args.from_date as string) || `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-01`;
+    const toDate = (args.to_date as string) || now.toISOString().split("T")[0];
+
+    const report = getBudgetVsActual(fromDate, toDate);
+    const pct = (p: number | null) => (p === null ? "no budget" : `${p.toFixed(1)}%`);
+
+    let summary = `Budget vs Actual: ${report.from_date} to ${report.to_date}\n`;
+    for (const [label, section] of [["REVENUE", report.revenue], ["EXPENSES", report.expenses]] as const) {
+      summary += `\n${label}\n`;
+      for (const item of section.items) {
+        summary += `  ${item.code} ${item.name}: budget $${item.budget.toFixed(2)}, actual $${item.actual.toFixed(2)}, ` +
+          `variance $${item.variance.toFixed(2)} (${pct(item.variance_percent)}, ${item.favorable ? "favorable" : "unfavorable"})\n`;
+      }
+      summary += `  Total: budget $${section.total.budget.toFixed(2)}, actual $${section.total.actual.toFixed(2)}, ` +
+        `variance $${section.total.variance.toFixed(2)}\n`;
+    }
+    summary += `\nNET INCOME: budget $${report.net_income.budget.toFixed(2)}, actual $${report.net_income.actual.toFixed(2)}, ` +
+      `variance $${report.net_income.variance.toFixed(2)}`;
+
+    return {
+      success: true,
+      result: summary,
+      data: report,
+    };
+  }
+);
+
+/**
+ * Get fixed asset schedule
+ */
+export const getFixedAssetScheduleTool = defineTool(
+  "get_fixed_asset_schedule",
+  "Get the fixed asset movement schedule: cost and accumulated depreciation brought forward, additions, depreciation charge, disposals and net book value",
+  "report",
+  {
+    type: "object",
+    properties: {
+      from_date: {
+        type: "string",
+        description: "Start date (YYYY-MM-DD). Defaults to January 1 of the current year.",
+      },
+      to_date: {
+        type: "string",
+        description: "End date (YYYY-MM-DD). Defaults to today.",
+      },
+    },
+  },
+  async (args) => {
+    const now = new Date();
+    const fromDate = (args.from_date as string) || `${now.getFullYear()}-01-01`;
+    const toDate = (args.to_date as string) || now.toISOString().split("T")[0];
+
+    const report = getAssetSchedule(fromDate, toDate);
+
+    let summary = `Fixed Asset Schedule: ${report.from_date} to ${report.to_date}\n\n`;
+    for (const item of report.items) {
+      summary += `  ${item.name}${item.status === "disposed" ? " (disposed)" : ""}: cost $${item.cost_closing.toFixed(2)}, ` +
+        `depreciation charge $${item.depreciation_charge.toFixed(2)}, NBV $${item.net_book_value.toFixed(2)}\n`;
+    }
+    summary += `\nAdditions: $${report.totals.additions.toFixed(2)}\n`;
+    summary += `Disposals (cost): $${report.totals.disposals.toFixed(2)}\n`;
+    summary += `Depreciation charge: $${report.totals.depreciation_charge.toFixed(2)}\n`;
+    summary += `NET BOOK VALUE: $${report.totals.net_book_value.toFixed(2)}`;
+
+    return {
+      success: true,
+      result: summary,
+      data: report,
+    };
+  }
+);
+
+/**
+ * Get amortization schedules
+ */
+export const getAmortizationSchedulesTool = defineTool(
+  "get_amortization_schedules",
+  "List prepayment, deferred revenue and accrual schedules with the amount still held on the balance sheet",
+  "report",
+  {
+    type: "object",
+    properties: {
+      include_finished: {
+        type: "boolean",
+        description: "Include completed and cancelled schedules",
+      },
+    },
+  },
+  async (args) => {
+    const schedules = listAmortizationSchedules(args.include_finished ? {} : { status: "active" });
+    if (schedules.length === 0) {
+      return { success: true, result: "No amortization schedules", data: { schedules: [] } };
+    }
+
+    let summary = "Amortization Schedules\n\n";
+    for (const s of schedules) {
+      summary += `  #${s.id} ${s.name} (${s.type.replace("_", " ")}${s.status === "active" ? "" : `, ${s.status}`}): ` +
+        `$${s.total.toFixed(2)} over ${s.months} months from ${s.start_month}, $${(s.recognized || 0).toFixed(2)} recognized, ` +
+        `$${(s.remaining || 0).toFixed(2)} to go (${s.balance_account_code} -> ${s.target_account_code})\n`;
+    }
+
+    return {
+      success: true,
+      result: summary,
+      data: { schedules },
+    };
+  }
+);
+
 /**
  * Get invoice summary
  */
@@ -485,6 +648,9 @@ export const reportingTools: AgentTool[] = [
   getReceivablesAgingTool,
   getCashFlowTool,
   getExpensesByCategoryTool,
+  getBudgetVsActualTool,
+  getFixedAssetScheduleTool,
+  getAmortizationSchedulesTool,
   getInvoiceSummaryTool,
   getOverdueInvoicesTool,
   getPaymentSummaryTool,
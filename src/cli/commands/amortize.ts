@@ -0,0 +1,252 @@
+import {
+  createAmortizationSchedule,
+  getAmortizationSchedule,
+  getAmortizationLines,
+  listAmortizationSchedules,
+  runAmortization,
+  cancelAmortizationSchedule,
+  deleteAmortizationSchedule,
+  type AmortizationRunResult,
+  type AmortizationType,
+} from "../../domain/amortization.js";
+import { getInvoice } from "../../domain/invoices.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+import { today } from "../../core/dates.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2).padStart(12);
+}
+
+const TYPE_LABELS: Record<AmortizationType, string> = {
+  prepayment: "Prepayment",
+  deferred_revenue: "Deferred revenue",
+  accrual: "Accrual",
+};
+
+// Print the entries made by a run
+export function printAmortizationRun(result: AmortizationRunResult): void {
+  for (const entry of result.entries) {
+    console.log(`  ${entry.month}  ${amount(entry.total)}  (${entry.schedules.length} schedule${entry.schedules.length === 1 ? "" : "s"})`);
+  }
+}
+
+// List schedules with what is still to recognize
+export function listSchedules(args: string[]): void {
+  const parsed = parseArgs(args);
+  const schedules = listAmortizationSchedules(parsed.all === "true" ? {} : { status: "active" });
+
+  if (schedules.length === 0) {
+    printDim("No amortization schedules");
+    printDim("Spread an expense with: oa amortize add --expense <id> --start 2025-01-01 --months 12");
+    return;
+  }
+
+  printTitle("Amortization Schedules");
+  console.log();
+  console.log(`  ${"#".padEnd(4)} ${"Type".padEnd(17)} ${"Name".padEnd(28)} ${"Start".padEnd(8)} ${"Months".padStart(6)} ${"Total".padStart(12)} ${"Remaining".padStart(12)}`);
+  for (const s of schedules) {
+    const status = s.status === "active" ? "" : `  ${s.status}`;
+    console.log(
+      `  ${String(s.id).padEnd(4)} ${TYPE_LABELS[s.type].padEnd(17)} ${s.name.slice(0, 28).padEnd(28)} ${s.start_month.padEnd(8)} ${String(s.months).padStart(6)} ${amount(s.total)} ${amount(s.remaining || 0)}${status}`
+    );
+  }
+
+  // What the balance sheet should be carrying for the active schedules
+  const byAccount = new Map<string, number>();
+  for (const s of schedules.filter((s) => s.status === "active")) {
+    const key = `${s.balance_account_code} ${s.balance_account_name}`;
+    const held = s.type === "accrual" ? s.recognized || 0 : s.remaining || 0;
+    byAccount.set(key, (byAccount.get(key) || 0) + held);
+  }
+  if (byAccount.size > 0) {
+    console.log();
+    for (const [account, held] of byAccount) {
+      printKeyValue(account, held.toFixed(2));
+    }
+  }
+}
+
+// Create a schedule from an expense, an invoice line, or as an accrual
+export function addSchedule(args: string[]): void {
+  const parsed = parseArgs(args);
+  const months = parseInt(parsed.months || "");
+  if (isNaN(months) || !parsed.start) {
+    printError("Missing required: --start and --months");
+    printDim("Usage: oa amortize add --expense <id> --start 2025-01-01 --months 12 [--account 6100] [--balance-account 1300]");
+    printDim("       oa amortize add --invoice INV-0001 [--line 1] --start 2025-01-01 --months 12");
+    printDim("       oa amortize add --accrual --amount 6000 --account 6400 --start 2025-01-01 --months 12");
+    return;
+  }
+
+  let invoiceItemId: number | undefined;
+  if (parsed.invoice) {
+    const invoice = getInvoice(parsed.invoice);
+    if (!invoice) {
+      printError(`Invoice not found: ${parsed.invoice}`);
+      return;
+    }
+    const line = invoice.items?.[parseInt(parsed.line || "1") - 1];
+    if (!line?.id) {
+      printError(`${invoice.number} has no line ${parsed.line || 1}`);
+      return;
+    }
+    invoiceItemId = line.id;
+  }
+
+  const schedule = createAmortizationSchedule({
+    name: parsed.name,
+    type: parsed.accrual === "true" ? "accrual" : parsed.type as AmortizationType | undefined,
+    expense_id: parsed.expense ? parseInt(parsed.expense) : undefined,
+    invoice_item_id: invoiceItemId,
+    amount: parsed.amount ? parseFloat(parsed.amount) : undefined,
+    start_date: parsed.start.length === 7 ? `${parsed.start}-01` : parsed.start,
+    months,
+    target_account: parsed.account,
+    balance_account: parsed["balance-account"],
+    notes: parsed.notes,
+  });
+
+  printSuccess(`Schedule #${schedule.id}: ${schedule.name}`);
+  printKeyValue("Type", TYPE_LABELS[schedule.type]);
+  printKeyValue("Per month", (schedule.total / schedule.months).toFixed(2));
+  printKeyValue("Accounts", `${schedule.balance_account_code} ${schedule.balance_account_name} → ${schedule.target_account_code} ${schedule.target_account_name}`);
+}
+
+// Month-by-month view of a schedule
+export function showSchedule(args: string[]): void {
+  const id = parseInt(args[0] || "");
+  const schedule = isNaN(id) ? undefined : getAmortizationSchedule(id);
+  if (!schedule) {
+    printError(isNaN(id) ? "Usage: oa amortize show <id>" : `Schedule not found: ${args[0]}`);
+    return;
+  }
+
+  printTitle(`${schedule.name} (${TYPE_LABELS[schedule.type]})`);
+  console.log();
+  printKeyValue("Total", schedule.total.toFixed(2));
+  printKeyValue("Balance account", `${schedule.balance_account_code} ${schedule.balance_account_name}`);
+  printKeyValue("Recognized in", `${schedule.target_account_code} ${schedule.target_account_name}`);
+  printKeyValue("Status", schedule.status);
+  if (schedule.cancelled_date) {
+    printKeyValue("Cancelled", `${schedule.cancelled_date}, catch-up ${schedule.cancel_amount.toFixed(2)}`);
+  }
+  console.log();
+
+  console.log(`  ${"Month".padEnd(8)} ${"Amount".padStart(12)} ${"Balance".padStart(12)}`);
+  for (const line of getAmortizationLines(schedule.id)) {
+    const mark = line.posted ? "posted" : schedule.status === "active" ? "" : "-";
+    console.log(`  ${line.month.padEnd(8)} ${amount(line.amount)} ${amount(line.balance)}  ${mark}`);
+  }
+}
+
+// Post (or preview) monthly entries through a month
+export function run(args: string[]): void {
+  const parsed = parseArgs(args);
+  const month = args.find((a) => /^\d{4}-\d{2}$/.test(a)) || today().slice(0, 7);
+  const result = runAmortization(month, { dry_run: parsed["dry-run"] === "true" });
+
+  if (result.entries.length === 0) {
+    printDim(`Amortization is up to date through ${month}`);
+    return;
+  }
+
+  printAmortizationRun(result);
+  if (result.dry_run) {
+    printDim(`Preview only: ${result.total.toFixed(2)} would be posted. Run without --dry-run to post.`);
+  } else {
+    printSuccess(`Posted ${result.total.toFixed(2)} amortization through ${month}`);
+  }
+}
+
+// Stop a schedule with a catch-up entry
+export function cancel(args: string[]): void {
+  const parsed = parseArgs(args);
+  const id = parseInt(args[0] || "");
+  if (isNaN(id)) {
+    printError("Usage: oa amortize cancel <id> [--date YYYY-MM-DD] [--reason <text>]");
+    return;
+  }
+
+  const result = cancelAmortizationSchedule(id, { date: parsed.date || today(), reason: parsed.reason });
+  if (result.success) {
+    printSuccess(`Schedule #${id} cancelled${result.catch_up ? `, ${result.catch_up.toFixed(2)} recognized by catch-up entry` : ""}`);
+  } else {
+    printError(result.error || "Could not cancel schedule");
+  }
+}
+
+// Main amortize command router
+export function amortizeCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "list":
+      case "ls":
+        listSchedules(subArgs);
+        break;
+      case "add":
+      case "create":
+        addSchedule(subArgs);
+        break;
+      case "show":
+      case "view":
+        showSchedule(subArgs);
+        break;
+      case "run":
+        run(subArgs);
+        break;
+      case "cancel":
+        cancel(subArgs);
+        break;
+      case "rm":
+      case "delete": {
+        const id = parseInt(subArgs[0] || "");
+        const result = deleteAmortizationSchedule(id);
+        if (result.success) {
+          printSuccess(`Deleted schedule #${id}`);
+        } else {
+          printError(result.error || "Could not delete schedule");
+        }
+        break;
+      }
+      default:
+        printError(`Unknown amortize command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list [--all]               - Schedules and remaining balances");
+        printBullet("add --expense <id>         - Spread a prepaid expense (--start, --months, --account)");
+        printBullet("add --invoice <inv> --line - Defer revenue from an invoice line");
+        printBullet("add --accrual --amount     - Accrue an expense ahead of the bill (--account)");
+        printBullet("show <id>                  - Month-by-month schedule");
+        printBullet("run [YYYY-MM]              - Post monthly entries (--dry-run)");
+        printBullet("cancel <id> --date         - Stop a schedule with a catch-up entry");
+        printBullet("rm <id>                    - Delete a schedule with nothing posted");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
@@ -0,0 +1,288 @@
+import {
+  CAPITAL_ALLOWANCE_CLASSES,
+  createFixedAsset,
+  getFixedAsset,
+  listFixedAssets,
+  deleteFixedAsset,
+  runDepreciation,
+  disposeAsset,
+  getAssetSchedule,
+  getCapitalAllowanceSchedule,
+  getCapitalAllowanceSummary,
+  type CapitalAllowanceClass,
+  type DepreciationMethod,
+} from "../../domain/fixed-assets.js";
+import { getFiscalYearForDate } from "../../domain/periods.js";
+import { getFiscalYearRange } from "../../core/localization.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+import { today } from "../../core/dates.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2).padStart(12);
+}
+
+// List the asset register
+export function listAssets(args: string[]): void {
+  const parsed = parseArgs(args);
+  const assets = listFixedAssets(parsed.all === "true" ? {} : { status: "active" });
+
+  if (assets.length === 0) {
+    printDim("No fixed assets registered");
+    printDim("Add one with: oa asset add \"Laptop\" --cost 5000 --date 2025-01-15 --life 36 --ca computer");
+    return;
+  }
+
+  printTitle("Fixed Assets");
+  console.log();
+  console.log(`  ${"#".padStart(4)}  ${"Asset".padEnd(24)} ${"Acquired".padEnd(10)} ${"Cost".padStart(12)} ${"Acc. dep.".padStart(12)} ${"NBV".padStart(12)}`);
+  for (const a of assets) {
+    const status = a.status === "disposed" ? "  (disposed)" : "";
+    console.log(
+      `  ${String(a.id).padStart(4)}  ${a.name.slice(0, 24).padEnd(24)} ${a.acquisition_date} ${amount(a.cost)} ${amount(a.accumulated_depreciation || 0)} ${amount(a.net_book_value || 0)}${status}`
+    );
+  }
+}
+
+// Register a new asset
+export function addAsset(args: string[]): void {
+  const parsed = parseArgs(args);
+  const name = args.filter((a, i) => !a.startsWith("--") && (i === 0 || !args[i - 1].startsWith("--"))).join(" ");
+  const cost = parseFloat(parsed.cost || "");
+
+  if (!name || isNaN(cost)) {
+    printError("Usage: oa asset add <name> --cost <amount> [--date YYYY-MM-DD] [--life months | --years n]");
+    printDim("  --method straight_line|declining_balance|capital_allowance  --residual 500  --rate 40");
+    printDim("  --ca <class>  --ca-cost <qualifying cost>  --account 1620  --paid-from 1100");
+    return;
+  }
+
+  const asset = createFixedAsset({
+    name,
+    cost,
+    acquisition_date: parsed.date || today(),
+    useful_life_months: parsed.life ? parseInt(parsed.life) : undefined,
+    useful_life_years: parsed.years ? parseFloat(parsed.years) : undefined,
+    residual_value: parsed.residual ? parseFloat(parsed.residual) : undefined,
+    method: parsed.method as DepreciationMethod | undefined,
+    declining_rate: parsed.rate ? parseFloat(parsed.rate) : undefined,
+    asset_account: parsed.account,
+    ca_class: parsed.ca as CapitalAllowanceClass | undefined,
+    ca_qualifying_cost: parsed["ca-cost"] ? parseFloat(parsed["ca-cost"]) : undefined,
+    paid_from_account: parsed["paid-from"],
+  });
+
+  printSuccess(`Registered asset #${asset.id}: ${asset.name}`);
+  printKeyValue("Cost", asset.cost.toFixed(2));
+  printKeyValue("Method", `${asset.method} over ${asset.useful_life_months} months`);
+  if (asset.ca_class) {
+    printKeyValue("Capital allowance", `${asset.ca_class} (IA ${asset.ca_initial_rate}%, AA ${asset.ca_annual_rate}%)`);
+  }
+}
+
+// Show one asset with its tax capital allowance schedule
+export function showAsset(args: string[]): void {
+  const asset = getFixedAsset(parseInt(args[0] || ""));
+  if (!asset) {
+    printError("Usage: oa asset show <id>");
+    return;
+  }
+
+  printTitle(`#${asset.id} ${asset.name}`);
+  printKeyValue("Acquired", asset.acquisition_date);
+  printKeyValue("Cost", asset.cost.toFixed(2));
+  printKeyValue("Residual value", asset.residual_value.toFixed(2));
+  printKeyValue("Method", `${asset.method} over ${asset.useful_life_months} months`);
+  printKeyValue("Accumulated dep.", (asset.accumulated_depreciation || 0).toFixed(2));
+  printKeyValue("Net book value", (asset.net_book_value || 0).toFixed(2));
+  printKeyValue("Depreciated to", asset.last_depreciated_month || "not yet");
+  if (asset.status === "disposed") {
+    printKeyValue("Disposed", `${asset.disposal_date} for ${(asset.disposal_proceeds || 0).toFixed(2)}`);
+  }
+
+  const schedule = getCapitalAllowanceSchedule(asset);
+  if (schedule.length > 0) {
+    console.log();
+    printTitle(`Capital Allowances (${asset.ca_class || "custom"})`);
+    console.log(`  ${"Year".padEnd(6)} ${"IA".padStart(12)} ${"AA".padStart(12)} ${"BA / (BC)".padStart(12)} ${"Residual".padStart(12)}`);
+    for (const row of schedule) {
+      const balancing = row.balancing_charge > 0 ? -row.balancing_charge : row.balancing_allowance;
+      console.log(`  ${String(row.fiscal_year).padEnd(6)} ${amount(row.initial_allowance)} ${amount(row.annual_allowance)} ${amount(balancing)} ${amount(row.residual_expenditure)}`);
+    }
+  }
+}
+
+// Post (or preview) depreciation through a month
+export function depreciate(args: string[]): void {
+  const parsed = parseArgs(args);
+  const month = args.find((a) => /^\d{4}-\d{2}$/.test(a)) || today().slice(0, 7);
+  const result = runDepreciation(month, { dry_run: parsed["dry-run"] === "true" });
+
+  if (result.entries.length === 0) {
+    printDim(`Depreciation is up to date through ${month}`);
+    return;
+  }
+
+  for (const entry of result.entries) {
+    console.log(`  ${entry.month}  ${amount(entry.total)}  (${entry.assets.length} asset${entry.assets.length === 1 ? "" : "s"})`);
+  }
+  if (result.dry_run) {
+    printDim(`Preview only: ${result.total.toFixed(2)} would be posted. Run without --dry-run to post.`);
+  } else {
+    printSuccess(`Posted ${result.total.toFixed(2)} depreciation through ${month}`);
+  }
+}
+
+// Sell or scrap an asset
+export function dispose(args: string[]): void {
+  const parsed = parseArgs(args);
+  const id = parseInt(args[0] || "");
+  if (isNaN(id)) {
+    printError("Usage: oa asset dispose <id> [--date YYYY-MM-DD] [--proceeds 1200] [--account 1100]");
+    return;
+  }
+
+  const result = disposeAsset(id, {
+    date: parsed.date || today(),
+    proceeds: parsed.proceeds ? parseFloat(parsed.proceeds) : 0,
+    proceeds_account: parsed.account,
+  });
+
+  printSuccess(`Disposed of ${result.asset.name}`);
+  printKeyValue("Net book value", result.net_book_value.toFixed(2));
+  printKeyValue("Proceeds", result.proceeds.toFixed(2));
+  printKeyValue(result.gain_loss >= 0 ? "Gain" : "Loss", Math.abs(result.gain_loss).toFixed(2));
+}
+
+// Fixed asset movement schedule
+export function schedule(args: string[]): void {
+  const parsed = parseArgs(args);
+  const range = getFiscalYearRange(getFiscalYearForDate(today()));
+  const report = getAssetSchedule(parsed.from || range.start, parsed.to || today());
+
+  printTitle(`Fixed Asset Schedule ${report.from_date} to ${report.to_date}`);
+  console.log();
+  if (report.items.length === 0) {
+    printDim("No assets in this period");
+    return;
+  }
+
+  console.log(`  ${"Asset".padEnd(20)} ${"Cost b/f".padStart(12)} ${"Additions".padStart(12)} ${"Disposals".padStart(12)} ${"Dep b/f".padStart(12)} ${"Charge".padStart(12)} ${"NBV c/f".padStart(12)}`);
+  for (const line of [...report.items, { ...report.totals, name: "Total" }]) {
+    console.log(
+      `  ${line.name.slice(0, 20).padEnd(20)} ${amount(line.cost_opening)} ${amount(line.additions)} ${amount(line.disposals)} ${amount(line.depreciation_opening)} ${amount(line.depreciation_charge)} ${amount(line.net_book_value)}`
+    );
+  }
+}
+
+// Capital allowances vs book depreciation for a year
+export function capitalAllowances(args: string[]): void {
+  const year = args[0] ? parseInt(args[0]) : getFiscalYearForDate(today());
+  if (isNaN(year)) {
+    printError("Usage: oa asset ca [fiscal-year]");
+    return;
+  }
+
+  const summary = getCapitalAllowanceSummary(year);
+  printTitle(`Capital Allowances FY${year}`);
+  console.log();
+  for (const item of summary.items) {
+    console.log(`  ${item.name.slice(0, 24).padEnd(24)} IA ${amount(item.initial_allowance)}  AA ${amount(item.annual_allowance)}  Book ${amount(item.book_depreciation)}`);
+  }
+  console.log();
+  printKeyValue("Initial allowance", summary.totals.initial_allowance.toFixed(2));
+  printKeyValue("Annual allowance", summary.totals.annual_allowance.toFixed(2));
+  printKeyValue("Balancing allowance", summary.totals.balancing_allowance.toFixed(2));
+  printKeyValue("Balancing charge", summary.totals.balancing_charge.toFixed(2));
+  printKeyValue("Total allowances", summary.totals.total_allowances.toFixed(2));
+  printKeyValue("Book depreciation", summary.totals.book_depreciation.toFixed(2));
+  printKeyValue("Tax adjustment", summary.totals.tax_adjustment.toFixed(2));
+  printDim("Add back book depreciation and deduct capital allowances in the tax computation.");
+}
+
+// Main asset command router
+export function assetCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case "list":
+      case "ls":
+      case undefined:
+        listAssets(subArgs);
+        break;
+      case "add":
+        addAsset(subArgs);
+        break;
+      case "show":
+      case "view":
+        showAsset(subArgs);
+        break;
+      case "depreciate":
+      case "run":
+        depreciate(subArgs);
+        break;
+      case "dispose":
+      case "sell":
+        dispose(subArgs);
+        break;
+      case "schedule":
+        schedule(subArgs);
+        break;
+      case "ca":
+        capitalAllowances(subArgs);
+        break;
+      case "classes":
+        printTitle("Capital Allowance Classes");
+        for (const [key, c] of Object.entries(CAPITAL_ALLOWANCE_CLASSES)) {
+          printBullet(`${key.padEnd(18)} IA ${String(c.initial_rate).padStart(3)}%  AA ${String(c.annual_rate).padStart(3)}%  ${c.name}`);
+        }
+        break;
+      case "delete":
+      case "rm": {
+        const result = deleteFixedAsset(parseInt(subArgs[0] || ""));
+        if (result.success) {
+          printSuccess(`Deleted asset #${subArgs[0]}`);
+        } else {
+          printError(result.error || "Could not delete asset");
+        }
+        break;
+      }
+      default:
+        printError(`Unknown asset command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list [--all]               - Show the asset register");
+        printBullet("add <name> --cost --life   - Register an asset");
+        printBullet("show <id>                  - Asset details and capital allowances");
+        printBullet("depreciate [YYYY-MM]       - Post monthly depreciation (--dry-run)");
+        printBullet("dispose <id> --proceeds    - Sell or scrap an asset");
+        printBullet("schedule [--from --to]     - Fixed asset movement schedule");
+        printBullet("ca [year]                  - Capital allowances vs book depreciation");
+        printBullet("classes                    - Capital allowance classes and rates");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
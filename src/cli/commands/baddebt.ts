@@ -0,0 +1,152 @@
+import { getInvoice } from "../../domain/invoices.js";
+import {
+  writeOffInvoice,
+  claimBadDebtRelief,
+  recoverBadDebt,
+  listBadDebts,
+} from "../../domain/bad-debts.js";
+import type { Payment } from "../../domain/payments.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+// List written-off invoices
+export function listWriteOffs(args: string[]): void {
+  const parsed = parseArgs(args);
+  // --relief-due on its own means as of today
+  const reliefDue = parsed["relief-due"] === "true" ? new Date().toISOString().split("T")[0] : parsed["relief-due"];
+  const badDebts = listBadDebts(reliefDue ? { relief_due: reliefDue } : {});
+  if (badDebts.length === 0) {
+    printDim(reliefDue ? "No bad debt relief to claim" : "No bad debts written off");
+    return;
+  }
+
+  printTitle(reliefDue ? "Bad Debt Relief Due" : "Bad Debts");
+  console.log();
+  for (const b of badDebts) {
+    const relief = b.relief_date
+      ? `relief ${b.relief_amount.toFixed(2)} on ${b.relief_date}`
+      : `relief from ${b.relief_eligible_from}`;
+    const recovered = b.recovered_amount > 0 ? `, recovered ${b.recovered_amount.toFixed(2)}` : "";
+    console.log(`  #${String(b.id).padEnd(4)} ${b.date}  ${(b.invoice_number || "").padEnd(14)} ${(b.customer_name || "").slice(0, 18).padEnd(18)} ${b.amount.toFixed(2).padStart(12)}  ${relief}${recovered}`);
+  }
+  console.log();
+}
+
+// Write off an invoice's outstanding balance
+export function writeOff(args: string[]): void {
+  const parsed = parseArgs(args);
+  const number = args.find((a) => !a.startsWith("--"));
+  if (!number || !parsed.reason || parsed.reason === "true") {
+    printError("Usage: oa baddebt writeoff <invoice> --reason \"Customer in liquidation\" [--date 2025-06-30] [--relief]");
+    return;
+  }
+
+  const badDebt = writeOffInvoice(number, { reason: parsed.reason, date: parsed.date, claim_relief: parsed.relief === "true" });
+  printSuccess(`Wrote off ${badDebt.amount.toFixed(2)} on ${badDebt.invoice_number}`);
+  if (badDebt.relief_date) {
+    printKeyValue("SST relief", badDebt.relief_amount.toFixed(2));
+  } else {
+    printDim(`SST bad debt relief can be claimed from ${badDebt.relief_eligible_from}: oa baddebt relief ${badDebt.id}`);
+  }
+}
+
+// Claim SST bad debt relief
+export function claimRelief(args: string[]): void {
+  const parsed = parseArgs(args);
+  const target = args.find((a) => !a.startsWith("--"));
+  if (!target) {
+    printError("Usage: oa baddebt relief <id | invoice> [--date 2025-12-31]");
+    return;
+  }
+
+  let id = parseInt(target);
+  if (isNaN(id)) {
+    const invoice = getInvoice(target);
+    const badDebt = invoice ? listBadDebts({ invoice_id: invoice.id }).find((b) => !b.relief_date) : undefined;
+    if (!badDebt) {
+      printError(`No written-off balance awaiting relief on ${target}`);
+      return;
+    }
+    id = badDebt.id;
+  }
+
+  const badDebt = claimBadDebtRelief(id, parsed.date);
+  printSuccess(`Claimed ${badDebt.relief_amount.toFixed(2)} SST bad debt relief on ${badDebt.invoice_number}`);
+}
+
+// Record money received on a written-off invoice
+export function recover(args: string[]): void {
+  const parsed = parseArgs(args);
+  const number = args.find((a) => !a.startsWith("--"));
+  if (!number || !parsed.amount) {
+    printError("Usage: oa baddebt recover <invoice> --amount 500 [--date] [--method bank] [--reference] [--bank <account>]");
+    return;
+  }
+
+  const recovery = recoverBadDebt(number, {
+    amount: parseFloat(parsed.amount),
+    date: parsed.date,
+    method: parsed.method as Payment["method"] | undefined,
+    reference: parsed.reference,
+    bank_account: parsed.bank,
+  });
+  printSuccess(`Recovered ${recovery.amount.toFixed(2)} on ${number}`);
+  if (recovery.tax_repaid > 0) {
+    printKeyValue("SST relief repaid", recovery.tax_repaid.toFixed(2));
+  }
+}
+
+// Main bad debt command router
+export function badDebtCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case "list":
+      case "ls":
+        listWriteOffs(subArgs);
+        break;
+      case "writeoff":
+      case "write-off":
+        writeOff(subArgs);
+        break;
+      case "relief":
+        claimRelief(subArgs);
+        break;
+      case "recover":
+        recover(subArgs);
+        break;
+      default:
+        printError(`Unknown baddebt command: ${subcommand || ""}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list                   - Written-off invoices (--relief-due for relief to claim)");
+        printBullet("writeoff <invoice>     - Write off the balance (--reason required, --relief)");
+        printBullet("relief <id | invoice>  - Claim SST bad debt relief after the qualifying period");
+        printBullet("recover <invoice>      - Record payment on a written-off invoice (--amount)");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
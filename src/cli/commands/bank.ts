@@ -0,0 +1,179 @@
+import { getAccountByCode, updateAccount } from "../../domain/accounts.js";
+import {
+  listBankAccounts,
+  resolveBankAccount,
+  setDefaultBankAccount,
+  createTransfer,
+  listTransfers,
+  deleteTransfer,
+} from "../../domain/bank-accounts.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2).padStart(12);
+}
+
+// Bank and cash accounts with their balances
+export function listAccounts(): void {
+  const accounts = listBankAccounts();
+  if (accounts.length === 0) {
+    printDim("No bank or cash accounts");
+    printDim("Mark an asset account as one with: oa bank flag <code>");
+    return;
+  }
+
+  printTitle("Bank & Cash Accounts");
+  console.log();
+  console.log(`  ${"Code".padEnd(6)} ${"Name".padEnd(28)} ${"Balance".padStart(12)} ${"Unreconciled".padStart(13)}`);
+  for (const account of accounts) {
+    const marker = account.is_default ? "  (default)" : "";
+    console.log(
+      `  ${account.code.padEnd(6)} ${account.name.slice(0, 28).padEnd(28)} ${amount(account.balance)} ${String(account.unreconciled).padStart(13)}${marker}`
+    );
+  }
+  console.log(`  ${"".padEnd(6)} ${"Total".padEnd(28)} ${amount(accounts.reduce((sum, a) => sum + a.balance, 0))}`);
+}
+
+// Mark an asset account as a bank or cash account, or clear the mark
+export function flagAccount(code: string | undefined, isBank: boolean): void {
+  if (!code) {
+    printError(`Usage: oa bank ${isBank ? "flag" : "unflag"} <account code>`);
+    return;
+  }
+  const account = getAccountByCode(code);
+  if (!account) {
+    printError(`Account not found: ${code}`);
+    return;
+  }
+  updateAccount(account.id, { is_bank: isBank });
+  printSuccess(`${account.code} ${account.name} ${isBank ? "is now" : "is no longer"} a bank or cash account`);
+}
+
+// Move money between two bank or cash accounts
+export function transfer(args: string[]): void {
+  const parsed = parseArgs(args);
+  if (!parsed.from || !parsed.to || !parsed.amount) {
+    printError("Missing required: --from, --to and --amount");
+    printDim("Usage: oa bank transfer --from 1100 --to 1110 --amount 5000 [--fee 1.50] [--fee-account 5200] [--date] [--reference]");
+    return;
+  }
+
+  const result = createTransfer({
+    from_account: parsed.from,
+    to_account: parsed.to,
+    amount: parseFloat(parsed.amount),
+    fee: parsed.fee ? parseFloat(parsed.fee) : undefined,
+    fee_account: parsed["fee-account"],
+    date: parsed.date,
+    reference: parsed.reference,
+    notes: parsed.notes,
+  });
+  printSuccess(`Transferred ${result.amount.toFixed(2)} from ${result.from_account_name} to ${result.to_account_name} (#${result.id})`);
+  if (result.fee > 0) {
+    printDim(`Fee of ${result.fee.toFixed(2)} charged to ${result.from_account_name}`);
+  }
+}
+
+// Transfers, optionally for one account
+export function showTransfers(args: string[]): void {
+  const parsed = parseArgs(args);
+  const ref = args.find((a) => !a.startsWith("--")) || parsed.account;
+  const account = ref ? resolveBankAccount(ref) : undefined;
+  const transfers = listTransfers({ account_id: account?.id, from_date: parsed.from, to_date: parsed.to });
+
+  if (transfers.length === 0) {
+    printDim("No transfers");
+    return;
+  }
+
+  printTitle(account ? `Transfers - ${account.name}` : "Transfers");
+  console.log();
+  for (const t of transfers.slice(0, 50)) {
+    const fee = t.fee > 0 ? `  fee ${t.fee.toFixed(2)}` : "";
+    const reconciled = t.from_reconciled && t.to_reconciled ? "  reconciled" : "";
+    console.log(
+      `  ${String(t.id).padEnd(4)} ${t.date}  ${(t.from_account_name || "").slice(0, 20).padEnd(20)} -> ${(t.to_account_name || "").slice(0, 20).padEnd(20)} ${amount(t.amount)}${fee}${reconciled}`
+    );
+  }
+}
+
+// Main bank command router
+export function bankCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "list":
+      case "ls":
+        listAccounts();
+        break;
+      case "flag":
+        flagAccount(subArgs[0], true);
+        break;
+      case "unflag":
+        flagAccount(subArgs[0], false);
+        break;
+      case "default": {
+        if (!subArgs[0]) {
+          const current = listBankAccounts().find((a) => a.is_default);
+          printDim(current ? `Default: ${current.code} ${current.name}` : "No default bank account");
+          break;
+        }
+        const account = setDefaultBankAccount(subArgs[0]);
+        printSuccess(`Payments and expenses now default to ${account.code} ${account.name}`);
+        break;
+      }
+      case "transfer":
+        transfer(subArgs);
+        break;
+      case "transfers":
+        showTransfers(subArgs);
+        break;
+      case "rm-transfer":
+      case "delete-transfer": {
+        const result = deleteTransfer(parseInt(subArgs[0], 10));
+        if (!result.success) {
+          printError(result.error || "Could not delete transfer");
+          break;
+        }
+        printSuccess(`Transfer #${subArgs[0]} deleted`);
+        break;
+      }
+      default:
+        printError(`Unknown bank command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list                  - Bank and cash accounts with balances");
+        printBullet("flag <code>           - Mark an asset account as a bank or cash account");
+        printBullet("unflag <code>         - Clear the mark");
+        printBullet("default <code>        - Account used when --bank is not given");
+        printBullet("transfer --from --to  - Move money between accounts (--amount, --fee, --date, --reference)");
+        printBullet("transfers [account]   - List transfers (--from, --to dates)");
+        printBullet("rm-transfer <id>      - Delete an unreconciled transfer");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
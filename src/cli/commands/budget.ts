@@ -0,0 +1,152 @@
+import { readFileSync, existsSync } from "fs";
+import {
+  getBudgets,
+  setBudget,
+  clearBudgets,
+  importBudgetsCsv,
+  seedBudgetsFromActuals,
+} from "../../domain/budgets.js";
+import { getFiscalYearForDate } from "../../domain/periods.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+// List budgets for a month range
+export function listBudgets(args: string[]): void {
+  const parsed = parseArgs(args);
+  const budgets = getBudgets({ from_month: parsed.from, to_month: parsed.to });
+
+  if (budgets.length === 0) {
+    printDim("No budgets entered");
+    printDim("Add one with: oa budget set 5100 2025-01 3000");
+    return;
+  }
+
+  printTitle("Budgets");
+  console.log();
+
+  let currentAccount = "";
+  for (const b of budgets) {
+    if (b.account_code !== currentAccount) {
+      currentAccount = b.account_code || "";
+      console.log(`  ${b.account_code} ${b.account_name}`);
+    }
+    console.log(`      ${b.month}  ${b.amount.toFixed(2).padStart(12)}`);
+  }
+}
+
+// Set one month's budget for an account
+export function setAccountBudget(args: string[]): void {
+  const [account, month, amountArg] = args.filter((a) => !a.startsWith("--"));
+  const amount = parseFloat(amountArg || "");
+
+  if (!account || !month || isNaN(amount)) {
+    printError("Usage: oa budget set <account-code> <YYYY-MM> <amount>");
+    return;
+  }
+
+  const saved = setBudget(account, month, amount);
+  printSuccess(`Budget for ${saved.account_code} ${saved.account_name} in ${saved.month}: ${saved.amount.toFixed(2)}`);
+}
+
+// Import budgets from a CSV file
+export function importBudgets(args: string[]): void {
+  const file = args[0];
+  if (!file || !existsSync(file)) {
+    printError("Usage: oa budget import <budgets.csv>");
+    printDim("CSV header: account,month,amount  or  account,2025-01,2025-02,...");
+    return;
+  }
+
+  const result = importBudgetsCsv(readFileSync(file, "utf-8"));
+  printSuccess(`Imported ${result.imported} budget amount(s)`);
+  for (const error of result.errors) {
+    printError(error);
+  }
+}
+
+// Seed a fiscal year from the previous year's actuals
+export function seedBudgets(args: string[]): void {
+  const parsed = parseArgs(args);
+  const yearArg = args.find((a) => !a.startsWith("--") && a !== parsed.growth);
+  const year = yearArg ? parseInt(yearArg) : getFiscalYearForDate(new Date().toISOString().split("T")[0]);
+  const growth = parsed.growth ? parseFloat(parsed.growth) : 0;
+
+  if (isNaN(year) || isNaN(growth)) {
+    printError("Usage: oa budget seed [fiscal-year] [--growth 5] [--overwrite]");
+    return;
+  }
+
+  const result = seedBudgetsFromActuals(year, { growth_percent: growth, overwrite: parsed.overwrite === "true" });
+  printSuccess(`Seeded FY${year} budgets from FY${year - 1} actuals`);
+  printKeyValue("Amounts set", String(result.created));
+  if (result.skipped > 0) {
+    printKeyValue("Kept existing", String(result.skipped));
+    printDim("Add --overwrite to replace existing budgets.");
+  }
+}
+
+// Main budget command router
+export function budgetCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case "list":
+      case "ls":
+      case undefined:
+        listBudgets(subArgs);
+        break;
+      case "set":
+        setAccountBudget(subArgs);
+        break;
+      case "import":
+        importBudgets(subArgs);
+        break;
+      case "seed":
+        seedBudgets(subArgs);
+        break;
+      case "clear": {
+        const [fromMonth, toMonth] = subArgs;
+        if (!fromMonth) {
+          printError("Usage: oa budget clear <YYYY-MM> [YYYY-MM]");
+          return;
+        }
+        const removed = clearBudgets(fromMonth, toMonth || fromMonth);
+        printSuccess(`Removed ${removed} budget amount(s)`);
+        break;
+      }
+      default:
+        printError(`Unknown budget command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list [--from --to]          - Show budgets (YYYY-MM range)");
+        printBullet("set <account> <month> <amt> - Budget an account for a month");
+        printBullet("import <file.csv>           - Import account,month,amount rows");
+        printBullet("seed [year]                 - Copy last year's actuals (--growth, --overwrite)");
+        printBullet("clear <from> [to]           - Remove budgets for a month range");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
@@ -0,0 +1,324 @@
+import { getEmployee } from "../../domain/employees.js";
+import {
+  createExpenseClaim,
+  getExpenseClaim,
+  listExpenseClaims,
+  addExpenseClaimItem,
+  removeExpenseClaimItem,
+  submitExpenseClaim,
+  approveExpenseClaim,
+  rejectExpenseClaim,
+  reopenExpenseClaim,
+  reimburseExpenseClaim,
+  deleteExpenseClaim,
+  getMileageRate,
+  setMileageRate,
+  type ClaimItemData,
+  type ExpenseClaim,
+} from "../../domain/expense-claims.js";
+import type { Payment } from "../../domain/payments.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function requireClaim(number: string | undefined, usage: string): ExpenseClaim | undefined {
+  if (!number || number.startsWith("--")) {
+    printError(`Usage: oa claim ${usage}`);
+    return undefined;
+  }
+  const claim = getExpenseClaim(number.toUpperCase());
+  if (!claim) {
+    printError(`Expense claim not found: ${number}`);
+  }
+  return claim;
+}
+
+function printTotals(claim: ExpenseClaim): void {
+  printDim(`${claim.number}: ${claim.items?.length || 0} item(s), total ${claim.total.toFixed(2)}`);
+}
+
+// List expense claims
+export function listClaims(args: string[]): void {
+  const parsed = parseArgs(args);
+  const employee = parsed.employee ? getEmployee(parsed.employee) : undefined;
+  if (parsed.employee && !employee) {
+    printError(`Employee not found: ${parsed.employee}`);
+    return;
+  }
+
+  const claims = listExpenseClaims({
+    status: parsed.status,
+    employee_id: employee?.id,
+    unpaid: parsed.unpaid === "true",
+  });
+  if (claims.length === 0) {
+    printDim("No expense claims. Start one with: oa claim create --employee <name>");
+    return;
+  }
+
+  printTitle("Expense Claims");
+  console.log();
+  for (const c of claims) {
+    const owed = c.status === "approved" || c.status === "partial" ? `  owed ${(c.total - c.amount_paid).toFixed(2)}` : "";
+    console.log(
+      `  ${c.number.padEnd(10)} ${c.date}  ${(c.employee_name || "").slice(0, 20).padEnd(20)} ${c.status.padEnd(10)} ${c.total.toFixed(2).padStart(10)}${owed}`
+    );
+  }
+  console.log();
+}
+
+// Start a claim for an employee
+export function createClaim(args: string[]): void {
+  const parsed = parseArgs(args);
+  const employee = parsed.employee ? getEmployee(parsed.employee) : undefined;
+  if (!employee) {
+    printError(parsed.employee ? `Employee not found: ${parsed.employee}` : "Missing required: --employee");
+    printDim("Usage: oa claim create --employee <name> [--description <text>] [--date YYYY-MM-DD]");
+    return;
+  }
+
+  const claim = createExpenseClaim({
+    employee_id: employee.id,
+    date: parsed.date,
+    description: parsed.description,
+    notes: parsed.notes,
+  });
+  printSuccess(`Expense claim ${claim.number} started for ${employee.name}`);
+  printDim(`Add receipts with: oa claim add ${claim.number} --amount <amount> --description <text>`);
+}
+
+// Add a receipt line
+export function addItem(args: string[]): void {
+  const claim = requireClaim(args[0], "add <claim> --amount <amount> --description <text> [--account] [--tax] [--receipt <doc id>] [--date]");
+  if (!claim) return;
+  const parsed = parseArgs(args.slice(1));
+
+  const amount = parseFloat(parsed.amount);
+  if (isNaN(amount) || !parsed.description) {
+    printError("Missing required: --amount and --description");
+    return;
+  }
+
+  const item: ClaimItemData = {
+    description: parsed.description,
+    amount,
+    date: parsed.date,
+    account: parsed.account,
+    tax_code: parsed.tax,
+    document_id: parsed.receipt ? parseInt(parsed.receipt) : undefined,
+  };
+  printTotals(addExpenseClaimItem(claim.id, item));
+}
+
+// Add a mileage line at the per-km rate
+export function addMileage(args: string[]): void {
+  const claim = requireClaim(args[0], "mileage <claim> --km <distance> --description <trip> [--rate <per km>] [--date]");
+  if (!claim) return;
+  const parsed = parseArgs(args.slice(1));
+
+  const km = parseFloat(parsed.km);
+  if (isNaN(km) || !parsed.description) {
+    printError("Missing required: --km and --description");
+    return;
+  }
+
+  const updated = addExpenseClaimItem(claim.id, {
+    description: parsed.description,
+    distance_km: km,
+    rate_per_km: parsed.rate ? parseFloat(parsed.rate) : undefined,
+    date: parsed.date,
+    account: parsed.account,
+  });
+  const line = updated.items![updated.items!.length - 1];
+  printSuccess(`${km} km at ${line.rate_per_km} = ${line.amount.toFixed(2)}`);
+  printTotals(updated);
+}
+
+// Show a claim and its lines
+export function viewClaim(args: string[]): void {
+  const claim = requireClaim(args[0], "view <claim>");
+  if (!claim) return;
+
+  printTitle(`${claim.number} - ${claim.employee_name}`);
+  console.log();
+  printKeyValue("Date", claim.date);
+  printKeyValue("Status", claim.status);
+  if (claim.description) printKeyValue("Description", claim.description);
+  if (claim.rejected_reason) printKeyValue("Rejected", claim.rejected_reason);
+  console.log();
+
+  for (const item of claim.items || []) {
+    const mileage = item.distance_km ? ` (${item.distance_km} km @ ${item.rate_per_km})` : "";
+    const tax = item.tax_code ? `  ${item.tax_code} ${item.tax_amount.toFixed(2)}` : "";
+    const receipt = item.document_id ? `  receipt #${item.document_id}` : "";
+    console.log(
+      `  #${String(item.id).padEnd(4)} ${item.date}  ${(item.description + mileage).slice(0, 36).padEnd(36)} ${(item.account_name || "").slice(0, 18).padEnd(18)} ${item.amount.toFixed(2).padStart(10)}${tax}${receipt}`
+    );
+  }
+  console.log();
+  printKeyValue("Total", claim.total.toFixed(2));
+  if (claim.amount_paid > 0) {
+    printKeyValue("Reimbursed", claim.amount_paid.toFixed(2));
+    printKeyValue("Owed", (claim.total - claim.amount_paid).toFixed(2));
+  }
+}
+
+// Reimburse an approved claim
+export function payClaim(args: string[]): void {
+  const claim = requireClaim(args[0], "pay <claim> [--amount <amount>] [--date] [--method] [--reference] [--bank <account>]");
+  if (!claim) return;
+  const parsed = parseArgs(args.slice(1));
+
+  const payment = reimburseExpenseClaim({
+    claim_id: claim.id,
+    amount: parsed.amount ? parseFloat(parsed.amount) : undefined,
+    date: parsed.date,
+    method: parsed.method as Payment["method"] | undefined,
+    reference: parsed.reference,
+    bank_account: parsed.bank,
+  });
+  printSuccess(`Reimbursed ${claim.employee_name} ${payment.amount.toFixed(2)} for ${claim.number}`);
+}
+
+// Show or set the mileage rate
+export function mileageRate(args: string[]): void {
+  if (args[0]) {
+    const rate = parseFloat(args[0]);
+    if (isNaN(rate)) {
+      printError("Usage: oa claim rate <amount per km>");
+      return;
+    }
+    setMileageRate(rate);
+    printSuccess(`Mileage rate set to ${rate} per km`);
+    return;
+  }
+
+  const rate = getMileageRate();
+  if (rate === undefined) {
+    printDim("No mileage rate set. Set one with: oa claim rate <amount per km>");
+  } else {
+    printKeyValue("Mileage rate", `${rate} per km`);
+  }
+}
+
+// Main claim command router
+export function claimCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "list":
+      case "ls":
+        listClaims(subArgs);
+        break;
+      case "create":
+      case "new":
+        createClaim(subArgs);
+        break;
+      case "add":
+        addItem(subArgs);
+        break;
+      case "mileage":
+        addMileage(subArgs);
+        break;
+      case "remove-item": {
+        const itemId = parseInt(subArgs[0]);
+        if (isNaN(itemId)) {
+          printError("Usage: oa claim remove-item <item id>");
+          break;
+        }
+        printTotals(removeExpenseClaimItem(itemId));
+        break;
+      }
+      case "view":
+      case "show":
+        viewClaim(subArgs);
+        break;
+      case "submit": {
+        const claim = requireClaim(subArgs[0], "submit <claim>");
+        if (claim) printSuccess(`${submitExpenseClaim(claim.id).number} submitted for approval`);
+        break;
+      }
+      case "approve": {
+        const claim = requireClaim(subArgs[0], "approve <claim>");
+        if (!claim) break;
+        const approved = approveExpenseClaim(claim.id);
+        printSuccess(`${approved.number} approved: ${approved.total.toFixed(2)} owed to ${approved.employee_name}`);
+        break;
+      }
+      case "reject": {
+        const claim = requireClaim(subArgs[0], "reject <claim> --reason <text>");
+        if (!claim) break;
+        const result = rejectExpenseClaim(claim.id, parseArgs(subArgs.slice(1)).reason || "");
+        if (result.success) {
+          printSuccess(`${claim.number} rejected`);
+        } else {
+          printError(result.error || "Could not reject claim");
+        }
+        break;
+      }
+      case "reopen": {
+        const claim = requireClaim(subArgs[0], "reopen <claim>");
+        if (claim) printSuccess(`${reopenExpenseClaim(claim.id).number} is a draft again`);
+        break;
+      }
+      case "pay":
+      case "reimburse":
+        payClaim(subArgs);
+        break;
+      case "rm":
+      case "delete": {
+        const claim = requireClaim(subArgs[0], "rm <claim>");
+        if (!claim) break;
+        const result = deleteExpenseClaim(claim.id);
+        if (result.success) {
+          printSuccess(`${claim.number} deleted`);
+        } else {
+          printError(result.error || "Could not delete claim");
+        }
+        break;
+      }
+      case "rate":
+        mileageRate(subArgs);
+        break;
+      default:
+        printError(`Unknown claim command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list                   - Expense claims (--status, --employee, --unpaid)");
+        printBullet("create --employee <name> - Start a claim (--description, --date)");
+        printBullet("add <claim>            - Add a receipt (--amount, --description, --account, --tax, --receipt <doc id>)");
+        printBullet("mileage <claim>        - Add a trip (--km, --description, --rate)");
+        printBullet("remove-item <item id>  - Remove a line from a draft claim");
+        printBullet("view <claim>           - Lines, status and amount owed");
+        printBullet("submit|approve <claim> - Move a claim through approval");
+        printBullet("reject <claim> --reason <text> - Send a claim back (reopen to edit it again)");
+        printBullet("pay <claim>            - Reimburse the employee (--amount, --date, --method)");
+        printBullet("rm <claim>             - Delete an unapproved claim");
+        printBullet("rate [amount]          - Show or set the mileage rate per km");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
@@ -0,0 +1,148 @@
+import { getCustomer } from "../../domain/customers.js";
+import { getInvoice } from "../../domain/invoices.js";
+import {
+  applyCredit,
+  applyCustomerCredits,
+  refundCredit,
+  getCustomerCredits,
+  type Payment,
+} from "../../domain/payments.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+// The credit named by --credit-note or --payment
+function namedSource(parsed: Record<string, string>): { payment_id?: number; credit_note_id?: number } | undefined {
+  if (parsed["credit-note"]) {
+    const note = getInvoice(parsed["credit-note"]);
+    if (!note) {
+      throw new Error(`Credit note not found: ${parsed["credit-note"]}`);
+    }
+    return { credit_note_id: note.id };
+  }
+  if (parsed.payment) {
+    return { payment_id: parseInt(parsed.payment) };
+  }
+  return undefined;
+}
+
+// List a customer's unapplied payments and credit notes
+export function listCredits(args: string[]): void {
+  const name = args.filter((a) => !a.startsWith("--")).join(" ");
+  const customer = name ? getCustomer(name) : undefined;
+  if (!customer) {
+    printError(name ? `Customer not found: ${name}` : "Usage: oa credit list <customer>");
+    return;
+  }
+
+  const credits = getCustomerCredits(customer.id);
+  if (credits.length === 0) {
+    printDim(`${customer.name} has no credit`);
+    return;
+  }
+
+  printTitle(`Credit for ${customer.name}`);
+  console.log();
+  for (const c of credits) {
+    const source = c.type === "payment" ? `Payment #${c.id}${c.reference ? ` (${c.reference})` : ""}` : c.reference || "";
+    console.log(`  ${c.date}  ${source.padEnd(28)} ${c.available.toFixed(2).padStart(12)} ${c.currency_code}`);
+  }
+  console.log();
+  printDim("Apply with: oa credit apply <invoice> [--credit-note CN-0001 | --payment <id>]");
+}
+
+// Apply credit to an invoice
+export function applyToInvoice(args: string[]): void {
+  const parsed = parseArgs(args);
+  const number = args.find((a) => !a.startsWith("--"));
+  const invoice = number ? getInvoice(number) : undefined;
+  if (!invoice) {
+    printError(number ? `Invoice not found: ${number}` : "Usage: oa credit apply <invoice> [--credit-note CN-0001 | --payment <id>] [--amount 100]");
+    return;
+  }
+
+  const amount = parsed.amount ? parseFloat(parsed.amount) : undefined;
+  const source = namedSource(parsed);
+  const allocations = source
+    ? [applyCredit({ invoice_id: invoice.id, amount, date: parsed.date, ...source })]
+    : applyCustomerCredits(invoice.id, { amount, date: parsed.date });
+
+  if (allocations.length === 0) {
+    printDim(`${invoice.customer_name} has no credit to apply`);
+    return;
+  }
+
+  const updated = getInvoice(invoice.id)!;
+  const applied = allocations.reduce((sum, a) => sum + a.amount, 0);
+  printSuccess(`Applied ${applied.toFixed(2)} to ${updated.number}`);
+  printKeyValue("Balance", (updated.total - updated.amount_paid).toFixed(2));
+}
+
+// Refund a credit
+export function refund(args: string[]): void {
+  const parsed = parseArgs(args);
+  const source = namedSource(parsed);
+  if (!source) {
+    printError("Usage: oa credit refund --credit-note CN-0001 | --payment <id> [--amount 100] [--method bank] [--bank <account>]");
+    return;
+  }
+
+  const payment = refundCredit({
+    ...source,
+    amount: parsed.amount ? parseFloat(parsed.amount) : undefined,
+    date: parsed.date,
+    method: parsed.method as Payment["method"] | undefined,
+    reference: parsed.reference,
+    bank_account: parsed.bank,
+  });
+  printSuccess(`Refunded ${payment.amount.toFixed(2)} to ${payment.customer_name || "customer"}`);
+}
+
+// Main credit command router
+export function creditCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case "list":
+      case "ls":
+        listCredits(subArgs);
+        break;
+      case "apply":
+        applyToInvoice(subArgs);
+        break;
+      case "refund":
+        refund(subArgs);
+        break;
+      default:
+        printError(`Unknown credit command: ${subcommand || ""}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list <customer>        - Unapplied payments and credit notes");
+        printBullet("apply <invoice>        - Use credit on an invoice (--credit-note, --payment, --amount)");
+        printBullet("refund                 - Pay credit back (--credit-note or --payment, --amount)");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
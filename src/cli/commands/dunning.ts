@@ -0,0 +1,265 @@
+import { getInvoice } from "../../domain/invoices.js";
+import { getCustomer, updateCustomer } from "../../domain/customers.js";
+import {
+  getDunningQueue,
+  runDunning,
+  listDunningLevels,
+  createDunningLevel,
+  updateDunningLevel,
+  deleteDunningLevel,
+  listDunningHistory,
+  type CreateDunningLevelData,
+  type DunningSender,
+} from "../../domain/dunning.js";
+import { isEmailConfigured, sendDunningEmail } from "../../services/email.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function invoiceId(number: string | undefined): number | undefined {
+  if (!number || number === "true") return undefined;
+  const invoice = getInvoice(number);
+  if (!invoice) {
+    throw new Error(`Invoice not found: ${number}`);
+  }
+  return invoice.id;
+}
+
+// Sends reminders through Resend
+export const emailDunningSender: DunningSender = (item, message) =>
+  sendDunningEmail(item.customer_email!, item.customer_name, message.subject, message.body);
+
+// Invoices due a reminder and the level each has reached
+export function showQueue(args: string[]): void {
+  const parsed = parseArgs(args);
+  const queue = getDunningQueue(parsed.date, { invoice_id: invoiceId(parsed.invoice) });
+  if (queue.length === 0) {
+    printDim("No reminders due");
+    return;
+  }
+
+  printTitle("Dunning Queue");
+  console.log();
+  for (const item of queue) {
+    const days = item.days_overdue < 0 ? `due in ${-item.days_overdue}d` : `${item.days_overdue}d overdue`;
+    const fee = item.fee > 0 ? `  +${item.fee.toFixed(2)} fee` : item.fee_waived ? `  (no fee: ${item.fee_waived})` : "";
+    const email = item.customer_email ? "" : "  (no email)";
+    console.log(
+      `  ${item.invoice_number.padEnd(12)} ${item.customer_name.slice(0, 18).padEnd(18)} ${item.outstanding.toFixed(2).padStart(12)}  ${days.padEnd(14)} ${item.level.name}${fee}${email}`
+    );
+  }
+  console.log();
+  printDim("Send with: oa dunning run");
+}
+
+// Send every reminder that is due
+export async function run(args: string[]): Promise<void> {
+  const parsed = parseArgs(args);
+  const noEmail = parsed["no-email"] === "true";
+  if (!noEmail && !isEmailConfigured()) {
+    printError("Email not configured. Set resend_api_key and from_email, or use --no-email to record reminders without sending.");
+    return;
+  }
+
+  const summary = await runDunning({
+    as_of: parsed.date,
+    invoice_id: invoiceId(parsed.invoice),
+    send: noEmail ? undefined : emailDunningSender,
+  });
+
+  for (const notice of summary.notices) {
+    const how = notice.status === "sent" ? `emailed ${notice.sent_to}` : "recorded";
+    const fee = notice.debit_note_number ? `, ${notice.fee_amount.toFixed(2)} fee on ${notice.debit_note_number}` : "";
+    printSuccess(`${notice.invoice_number}  ${notice.level_name}: ${how}${fee}`);
+  }
+  for (const error of summary.errors) {
+    printError(`${error.invoice_number}  ${error.level_name}: ${error.error}`);
+  }
+  if (summary.notices.length === 0 && summary.errors.length === 0) {
+    printDim("No reminders due");
+  }
+}
+
+// List dunning levels
+export function listLevels(): void {
+  const levels = listDunningLevels();
+  if (levels.length === 0) {
+    printDim("No dunning levels. Add one with: oa dunning level add --name \"First reminder\" --days 7 --subject ... --body ...");
+    return;
+  }
+
+  printTitle("Dunning Levels");
+  console.log();
+  for (const l of levels) {
+    const when = l.days_overdue < 0 ? `${-l.days_overdue}d before due` : l.days_overdue === 0 ? "on due date" : `${l.days_overdue}d overdue`;
+    const charges = [
+      l.late_fee > 0 ? `fee ${l.late_fee.toFixed(2)}` : "",
+      l.interest_rate > 0 ? `interest ${l.interest_rate}% p.a.` : "",
+    ].filter(Boolean).join(", ");
+    console.log(`  #${String(l.id).padEnd(3)} ${l.name.padEnd(18)} ${when.padEnd(16)} ${charges}${l.is_active ? "" : "  (inactive)"}`);
+    printDim(`       ${l.subject}`);
+  }
+  console.log();
+}
+
+function levelData(parsed: Record<string, string>): Partial<CreateDunningLevelData> {
+  const data: Partial<CreateDunningLevelData> = {};
+  if (parsed.name) data.name = parsed.name;
+  if (parsed.days) data.days_overdue = parseInt(parsed.days);
+  if (parsed.subject) data.subject = parsed.subject;
+  if (parsed.body) data.body = parsed.body;
+  if (parsed.fee) data.late_fee = parseFloat(parsed.fee);
+  if (parsed.interest) data.interest_rate = parseFloat(parsed.interest);
+  if (parsed.active) data.is_active = parsed.active !== "false";
+  return data;
+}
+
+// Add, change or remove a dunning level
+export function level(args: string[]): void {
+  const action = args[0];
+  const parsed = parseArgs(args.slice(1));
+
+  switch (action) {
+    case "add": {
+      const data = levelData(parsed);
+      if (!data.name || data.days_overdue === undefined || !data.subject || !data.body) {
+        printError("Usage: oa dunning level add --name \"Final notice\" --days 30 --subject \"...\" --body \"...\" [--fee 50] [--interest 8]");
+        return;
+      }
+      const created = createDunningLevel(data as CreateDunningLevelData);
+      printSuccess(`Added dunning level #${created.id} ${created.name}`);
+      break;
+    }
+    case "set":
+    case "edit": {
+      const id = parseInt(args[1]);
+      if (isNaN(id)) {
+        printError("Usage: oa dunning level set <id> [--name] [--days] [--subject] [--body] [--fee] [--interest] [--active false]");
+        return;
+      }
+      const updated = updateDunningLevel(id, levelData(parseArgs(args.slice(2))));
+      printSuccess(`Updated dunning level #${updated.id} ${updated.name}`);
+      break;
+    }
+    case "rm":
+    case "delete": {
+      const id = parseInt(args[1]);
+      const result = deleteDunningLevel(id);
+      if (result.success) {
+        printSuccess(`Deleted dunning level #${id}`);
+      } else {
+        printError(result.error || "Could not delete dunning level");
+      }
+      break;
+    }
+    default:
+      listLevels();
+  }
+}
+
+// Reminders already sent
+export function history(args: string[]): void {
+  const target = args.filter((a) => !a.startsWith("--")).join(" ");
+  let filters: { invoice_id?: number; customer_id?: number } = {};
+  if (target) {
+    const invoice = getInvoice(target);
+    const customer = invoice ? undefined : getCustomer(target);
+    if (!invoice && !customer) {
+      printError(`No invoice or customer named ${target}`);
+      return;
+    }
+    filters = invoice ? { invoice_id: invoice.id } : { customer_id: customer!.id };
+  }
+
+  const notices = listDunningHistory({ ...filters, limit: 50 });
+  if (notices.length === 0) {
+    printDim("No reminders sent");
+    return;
+  }
+
+  printTitle("Dunning History");
+  console.log();
+  for (const n of notices) {
+    const how = n.status === "sent" ? n.sent_to : n.status === "failed" ? `FAILED ${n.error || ""}` : "recorded";
+    const fee = n.debit_note_number ? `  ${n.debit_note_number} ${n.fee_amount.toFixed(2)}` : "";
+    console.log(`  ${n.date}  ${(n.invoice_number || "").padEnd(12)} ${(n.customer_name || "").slice(0, 18).padEnd(18)} ${(n.level_name || "").padEnd(16)} ${how}${fee}`);
+  }
+  console.log();
+}
+
+// Stop or resume reminders for a customer
+export function optOut(args: string[], optedOut: boolean): void {
+  const name = args.filter((a) => !a.startsWith("--")).join(" ");
+  const customer = name ? getCustomer(name) : undefined;
+  if (!customer) {
+    printError(name ? `Customer not found: ${name}` : `Usage: oa dunning ${optedOut ? "optout" : "optin"} <customer>`);
+    return;
+  }
+  updateCustomer(customer.id, { dunning_opt_out: optedOut });
+  printSuccess(optedOut ? `${customer.name} will not get payment reminders` : `${customer.name} will get payment reminders again`);
+}
+
+// Main dunning command router
+export async function dunningCommand(args: string[]): Promise<void> {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "queue":
+      case "list":
+      case "ls":
+        showQueue(subArgs);
+        break;
+      case "run":
+        await run(subArgs);
+        break;
+      case "levels":
+        listLevels();
+        break;
+      case "level":
+        level(subArgs);
+        break;
+      case "history":
+        history(subArgs);
+        break;
+      case "optout":
+        optOut(subArgs, true);
+        break;
+      case "optin":
+        optOut(subArgs, false);
+        break;
+      default:
+        printError(`Unknown dunning command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("queue                  - Invoices due a reminder and at which level (--date)");
+        printBullet("run                    - Send due reminders and charge late fees (--date, --invoice, --no-email)");
+        printBullet("levels                 - Dunning levels and their templates");
+        printBullet("level add|set|rm       - Manage levels (--name, --days, --subject, --body, --fee, --interest)");
+        printBullet("history [invoice|customer] - Reminders already sent");
+        printBullet("optout|optin <customer> - Stop or resume reminders for a customer");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
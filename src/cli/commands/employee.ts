@@ -0,0 +1,218 @@
+import {
+  createEmployee,
+  getEmployee,
+  listEmployees,
+  updateEmployee,
+  deleteEmployee,
+} from "../../domain/employees.js";
+import { listExpenseClaims } from "../../domain/expense-claims.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+// Leading words up to the first flag
+function nameArg(args: string[]): string {
+  const end = args.findIndex((a) => a.startsWith("--"));
+  return (end === -1 ? args : args.slice(0, end)).join(" ");
+}
+
+// Payroll details given as flags
+function payrollFields(parsed: Record<string, string>) {
+  return {
+    monthly_salary: parsed.salary !== undefined ? parseFloat(parsed.salary) : undefined,
+    ic_number: parsed.ic,
+    date_of_birth: parsed.dob,
+    epf_number: parsed.epf,
+    socso_number: parsed.socso,
+    tax_number: parsed["tax-number"],
+    pcb_category: parsed["pcb-category"] !== undefined ? parseInt(parsed["pcb-category"], 10) : undefined,
+    children: parsed.children !== undefined ? parseInt(parsed.children, 10) : undefined,
+  };
+}
+
+// Add an employee
+export function addEmployee(args: string[]): void {
+  const name = nameArg(args);
+  const parsed = parseArgs(args);
+
+  if (!name) {
+    printError("Missing employee name");
+    printDim("Usage: oa employee add <name> [--email <email>] [--phone <phone>] [--number <staff no>] [--department <dept>] [--salary <monthly>]");
+    return;
+  }
+
+  const employee = createEmployee({
+    name,
+    email: parsed.email,
+    phone: parsed.phone,
+    employee_number: parsed.number,
+    department: parsed.department,
+    notes: parsed.notes,
+    ...payrollFields(parsed),
+  });
+  printSuccess(`Employee added: ${employee.name}`);
+}
+
+// List employees and what they are owed
+export function showEmployees(args: string[]): void {
+  const parsed = parseArgs(args);
+  const employees = listEmployees({ include_inactive: parsed.all === "true" });
+
+  if (employees.length === 0) {
+    printDim("No employees found. Add one with: oa employee add <name>");
+    return;
+  }
+
+  printTitle("Employees");
+  console.log();
+  for (const e of employees) {
+    const owed = e.claims_outstanding > 0 ? `  owed ${e.claims_outstanding.toFixed(2)}` : "";
+    const inactive = e.is_active ? "" : "  (inactive)";
+    console.log(`  ${(e.employee_number || "").padEnd(8)} ${e.name.padEnd(24)} ${(e.department || "").padEnd(14)}${owed}${inactive}`);
+  }
+  console.log();
+  printDim(`${employees.length} employee(s)`);
+}
+
+// View an employee and their claims
+export function viewEmployee(args: string[]): void {
+  const name = nameArg(args);
+  const employee = name ? getEmployee(name) : undefined;
+
+  if (!employee) {
+    printError(name ? `Employee not found: ${name}` : "Usage: oa employee view <name>");
+    return;
+  }
+
+  printTitle(employee.name);
+  console.log();
+  if (employee.employee_number) printKeyValue("Staff no", employee.employee_number);
+  if (employee.department) printKeyValue("Department", employee.department);
+  if (employee.email) printKeyValue("Email", employee.email);
+  if (employee.phone) printKeyValue("Phone", employee.phone);
+  if (employee.notes) printKeyValue("Notes", employee.notes);
+  if (!employee.is_active) printKeyValue("Status", "Inactive");
+  if (employee.monthly_salary > 0) {
+    printKeyValue("Salary", `${employee.monthly_salary.toFixed(2)} a month`);
+    printKeyValue("PCB", `Category ${employee.pcb_category}, ${employee.children} child${employee.children === 1 ? "" : "ren"}`);
+    if (employee.ic_number) printKeyValue("IC no", employee.ic_number);
+    if (employee.date_of_birth) printKeyValue("Born", employee.date_of_birth);
+    if (employee.epf_number) printKeyValue("EPF no", employee.epf_number);
+    if (employee.socso_number) printKeyValue("SOCSO no", employee.socso_number);
+    if (employee.tax_number) printKeyValue("Tax no", employee.tax_number);
+  }
+
+  const claims = listExpenseClaims({ employee_id: employee.id, limit: 10 });
+  if (claims.length > 0) {
+    console.log();
+    printDim("Recent claims");
+    for (const c of claims) {
+      console.log(`  ${c.number.padEnd(10)} ${c.date}  ${c.status.padEnd(10)} ${c.total.toFixed(2).padStart(10)}`);
+    }
+  }
+}
+
+// Change an employee's details, or deactivate them
+export function editEmployee(args: string[]): void {
+  const name = nameArg(args);
+  const parsed = parseArgs(args);
+  const employee = name ? getEmployee(name) : undefined;
+
+  if (!employee) {
+    printError(name ? `Employee not found: ${name}` : "Usage: oa employee edit <name> [--email] [--phone] [--number] [--department] [--salary] [--active false]");
+    return;
+  }
+
+  updateEmployee(employee.id, {
+    name: parsed.name,
+    email: parsed.email,
+    phone: parsed.phone,
+    employee_number: parsed.number,
+    department: parsed.department,
+    notes: parsed.notes,
+    is_active: parsed.active !== undefined ? parsed.active !== "false" : undefined,
+    ...payrollFields(parsed),
+  });
+  printSuccess(`Employee updated: ${parsed.name || employee.name}`);
+}
+
+// Remove an employee with no claims
+export function removeEmployee(args: string[]): void {
+  const name = nameArg(args);
+  const employee = name ? getEmployee(name) : undefined;
+
+  if (!employee) {
+    printError(name ? `Employee not found: ${name}` : "Usage: oa employee rm <name>");
+    return;
+  }
+
+  const result = deleteEmployee(employee.id);
+  if (result.success) {
+    printSuccess(`Employee removed: ${employee.name}`);
+  } else {
+    printError(result.error || "Could not remove employee");
+  }
+}
+
+// Main employee command router
+export function employeeCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "list":
+      case "ls":
+        showEmployees(subArgs);
+        break;
+      case "add":
+      case "new":
+        addEmployee(subArgs);
+        break;
+      case "view":
+      case "show":
+        viewEmployee(subArgs);
+        break;
+      case "edit":
+      case "set":
+        editEmployee(subArgs);
+        break;
+      case "rm":
+      case "delete":
+        removeEmployee(subArgs);
+        break;
+      default:
+        printError(`Unknown employee command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list [--all]           - Employees and unreimbursed claims");
+        printBullet("add <name>             - Add an employee (--email, --phone, --number, --department)");
+        printBullet("view <name>            - Details and recent claims");
+        printBullet("edit <name>            - Change details (--active false to deactivate)");
+        printDim("Payroll details: --salary, --ic, --dob YYYY-MM-DD, --epf, --socso, --tax-number, --pcb-category 1|2|3, --children");
+        printBullet("rm <name>              - Remove an employee with no claims");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
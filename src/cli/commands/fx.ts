@@ -0,0 +1,169 @@
+import { readFileSync, existsSync } from "fs";
+import {
+  getBaseCurrency,
+  listExchangeRates,
+  setExchangeRate,
+  deleteExchangeRate,
+  importExchangeRatesCsv,
+  revalueOpenBalances,
+} from "../../domain/exchange-rates.js";
+import {
+  printTitle,
+  printSection,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+import { today } from "../../core/dates.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+// List stored rates
+export function listRates(args: string[]): void {
+  const currency = args.find((a) => !a.startsWith("--"));
+  const rates = listExchangeRates({ currency_code: currency, limit: 30 });
+  const base = getBaseCurrency();
+
+  if (rates.length === 0) {
+    printDim("No exchange rates entered");
+    printDim("Add one with: oa fx set USD 4.72 --date 2024-01-31");
+    return;
+  }
+
+  printTitle(`Exchange Rates (base ${base})`);
+  console.log();
+
+  for (const r of rates) {
+    console.log(
+      `  #${String(r.id).padEnd(5)} ${r.rate_date}  1 ${r.currency_code} = ${r.rate.toFixed(6).padStart(12)} ${base}  ${r.source}`
+    );
+  }
+}
+
+// Set a rate manually
+export function setRate(args: string[]): void {
+  const parsed = parseArgs(args);
+  const [currency, rateArg] = args.filter((a) => !a.startsWith("--"));
+  const rate = parseFloat(rateArg || "");
+
+  if (!currency || isNaN(rate)) {
+    printError("Usage: oa fx set <CURRENCY> <rate> [--date YYYY-MM-DD]");
+    return;
+  }
+
+  const saved = setExchangeRate(currency, parsed.date || today(), rate);
+  printSuccess(`1 ${saved.currency_code} = ${saved.rate} ${getBaseCurrency()} on ${saved.rate_date}`);
+}
+
+// Import rates from a CSV file
+export function importRates(args: string[]): void {
+  const file = args[0];
+  if (!file || !existsSync(file)) {
+    printError("Usage: oa fx import <rates.csv>");
+    printDim("CSV header must include: date,currency,rate");
+    return;
+  }
+
+  const result = importExchangeRatesCsv(readFileSync(file, "utf-8"));
+  printSuccess(`Imported ${result.imported} rate(s)`);
+  for (const error of result.errors) {
+    printError(error);
+  }
+}
+
+// Revalue open foreign receivables/payables
+export function revalueBalances(args: string[]): void {
+  const parsed = parseArgs(args);
+  const asOfDate = parsed.date || today();
+  const report = revalueOpenBalances(asOfDate, { post: parsed.post === "true" });
+  const base = getBaseCurrency();
+
+  printTitle(`FX Revaluation as of ${asOfDate}`);
+
+  if (report.lines.length === 0) {
+    printDim("No open foreign currency invoices or bills");
+    return;
+  }
+
+  for (const type of ["receivable", "payable"] as const) {
+    const lines = report.lines.filter((l) => l.type === type);
+    if (lines.length === 0) continue;
+
+    printSection(type === "receivable" ? "Receivables" : "Payables");
+    for (const l of lines) {
+      console.log(
+        `  ${l.document.padEnd(12)} ${l.party.slice(0, 20).padEnd(20)} ${l.currency_code} ${l.open_amount.toFixed(2).padStart(10)}` +
+        `  @${l.booked_rate} → @${l.closing_rate}  ${l.gain_loss >= 0 ? "+" : ""}${l.gain_loss.toFixed(2)}`
+      );
+    }
+  }
+
+  console.log();
+  printKeyValue("Unrealized gain/loss", `${report.total_gain_loss.toFixed(2)} ${base}`);
+
+  if (report.journal_entry_id) {
+    printSuccess(`Posted journal entry #${report.journal_entry_id} (reversed in #${report.reversal_entry_id})`);
+  } else if (parsed.post !== "true") {
+    printDim("Preview only. Add --post to book the revaluation.");
+  }
+}
+
+// Main fx command router
+export function fxCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case "list":
+      case "ls":
+      case undefined:
+        listRates(subArgs);
+        break;
+      case "set":
+        setRate(subArgs);
+        break;
+      case "import":
+        importRates(subArgs);
+        break;
+      case "delete":
+      case "rm": {
+        const id = parseInt(subArgs[0] || "");
+        if (isNaN(id) || !deleteExchangeRate(id)) {
+          printError("Usage: oa fx delete <id>");
+          return;
+        }
+        printSuccess(`Deleted rate #${id}`);
+        break;
+      }
+      case "revalue":
+        revalueBalances(subArgs);
+        break;
+      default:
+        printError(`Unknown fx command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list [CUR]             - Show stored rates");
+        printBullet("set <CUR> <rate>       - Enter a rate (--date YYYY-MM-DD)");
+        printBullet("import <file.csv>      - Import date,currency,rate rows");
+        printBullet("delete <id>            - Remove a rate");
+        printBullet("revalue                - Unrealized gain/loss on open items (--date, --post)");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
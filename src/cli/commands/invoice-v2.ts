@@ -5,9 +5,12 @@ import {
   getInvoice,
   listInvoices,
   updateInvoiceStatus,
+  issueInvoice,
+  deleteInvoice,
   getInvoiceSummary,
 } from "../../domain/invoices.js";
 import { getCustomer, createCustomer, listCustomers, searchCustomers } from "../../domain/customers.js";
+import { listItems, itemLine } from "../../domain/items.js";
 import { symbols, formatCurrency, printTable, statusBadge, type TableColumn } from "../theme.js";
 import { suggestNextAction } from "../session.js";
 import "../types/global.js";
@@ -36,7 +39,7 @@ export async function createInvoiceCommand(args: string[]): Promise<void> {
   const parsed = parseArgs(args);
 
   let customerId: number | undefined;
-  let items: Array<{ description: string; quantity: number; unit_price: number }> = [];
+  let items: Array<{ description: string; quantity: number; unit_price: number; account_code?: string; tax_code?: string; item_id?: number }> = [];
   let taxRate = 0;
   let notes: string | undefined;
 
@@ -111,40 +114,78 @@ export async function createInvoiceCommand(args: string[]): Promise<void> {
   }
 
   // Get items
-  if (parsed.amount) {
+  const quick = parsed.amount || parsed.item;
+  if (parsed.item) {
+    try {
+      items.push({
+        ...itemLine(parsed.item, {
+          quantity: parsed.qty ? parseFloat(parsed.qty) : undefined,
+          unit_price: parsed.amount ? parseFloat(parsed.amount) : undefined,
+          description: parsed.description,
+        }),
+        account_code: parsed.account,
+        tax_code: parsed["tax-code"],
+      });
+    } catch (err) {
+      p.log.error((err as Error).message);
+      return;
+    }
+  } else if (parsed.amount) {
     items.push({
       description: parsed.description || "Services",
       quantity: 1,
       unit_price: parseFloat(parsed.amount),
+      account_code: parsed.account,
+      tax_code: parsed["tax-code"],
     });
   } else {
-    // Interactive item entry
+    // Interactive item entry, from the catalog when there is one
+    const catalog = listItems();
     let addMore = true;
     while (addMore) {
-      const description = await p.text({
-        message: items.length === 0 ? "Item description" : "Next item",
-        placeholder: "e.g., Consulting services",
+      const choice = catalog.length === 0 ? "custom" : await p.select({
+        message: items.length === 0 ? "Item" : "Next item",
+        options: [
+          ...catalog.map((item) => ({ value: String(item.id), label: `${item.sku}  ${item.name}`, hint: formatCurrency(item.unit_price) })),
+          { value: "custom", label: pc.cyan("+ Custom line") },
+        ],
       });
-      if (p.isCancel(description)) return;
+      if (p.isCancel(choice)) return;
 
-      const quantity = await p.text({
-        message: "Quantity",
-        placeholder: "1",
-        defaultValue: "1",
-      });
-      if (p.isCancel(quantity)) return;
+      if (choice !== "custom") {
+        const quantity = await p.text({
+          message: "Quantity",
+          placeholder: "1",
+          defaultValue: "1",
+        });
+        if (p.isCancel(quantity)) return;
+        items.push(itemLine(parseInt(choice as string), { quantity: parseFloat(quantity as string) || 1 }));
+      } else {
+        const description = await p.text({
+          message: items.length === 0 ? "Item description" : "Next item",
+          placeholder: "e.g., Consulting services",
+        });
+        if (p.isCancel(description)) return;
 
-      const unitPrice = await p.text({
-        message: "Unit price ($)",
-        placeholder: "100.00",
-      });
-      if (p.isCancel(unitPrice)) return;
+        const quantity = await p.text({
+          message: "Quantity",
+          placeholder: "1",
+          defaultValue: "1",
+        });
+        if (p.isCancel(quantity)) return;
 
-      items.push({
-        description: description as string,
-        quantity: parseFloat(quantity as string) || 1,
-        unit_price: parseFloat((unitPrice as string).replace(/[$,]/g, "")) || 0,
-      });
+        const unitPrice = await p.text({
+          message: "Unit price ($)",
+          placeholder: "100.00",
+        });
+        if (p.isCancel(unitPrice)) return;
+
+        items.push({
+          description: description as string,
+          quantity: parseFloat(quantity as string) || 1,
+          unit_price: parseFloat((unitPrice as string).replace(/[$,]/g, "")) || 0,
+        });
+      }
 
       // Show running total
       const subtotal = items.reduce((sum, i) => sum + i.quantity * i.unit_price, 0);
@@ -162,7 +203,7 @@ export async function createInvoiceCommand(args: string[]): Promise<void> {
   // Tax and notes
   if (parsed.tax) {
     taxRate = parseFloat(parsed.tax);
-  } else if (!parsed.amount) {
+  } else if (!quick) {
     const tax = await p.text({
       message: "Tax rate (%)",
       placeholder: "0",
@@ -172,7 +213,7 @@ export async function createInvoiceCommand(args: string[]): Promise<void> {
     taxRate = parseFloat(tax as string) || 0;
   }
 
-  if (!parsed.notes && !parsed.amount) {
+  if (!parsed.notes && !quick) {
     const notesInput = await p.text({
       message: "Notes (optional)",
       placeholder: "Payment due within 30 days",
@@ -192,11 +233,12 @@ export async function createInvoiceCommand(args: string[]): Promise<void> {
       customer_id: customerId!,
       items,
       tax_rate: taxRate,
+      discount_percent: parsed.discount ? parseFloat(parsed.discount) : undefined,
       due_date: parsed.due,
       notes,
     });
 
-    s.stop(`Invoice ${pc.bold(invoice.number)} created`);
+    s.stop(`Draft ${pc.bold(invoice.number)} created`);
 
     // Summary
     const summaryLines = [
@@ -206,6 +248,10 @@ export async function createInvoiceCommand(args: string[]): Promise<void> {
       `Total: ${formatCurrency(invoice.total)}`,
     ];
 
+    if (invoice.discount_amount) {
+      summaryLines.splice(3, 0, `Discount: ${formatCurrency(invoice.discount_amount)}`);
+    }
+
     if (invoice.items && invoice.items.length > 1) {
       summaryLines.push("");
       for (const item of invoice.items) {
@@ -217,7 +263,7 @@ export async function createInvoiceCommand(args: string[]): Promise<void> {
 
     // Suggest next action
     const next = await suggestNextAction([
-      { value: `send inv ${invoice.number}`, label: "Send this invoice" },
+      { value: `send inv ${invoice.number}`, label: "Issue and send this invoice" },
       { value: "create inv", label: "Create another invoice" },
       { value: "list inv", label: "View all invoices" },
     ]);
@@ -322,19 +368,25 @@ export async function viewInvoiceCommand(id: string): Promise<void> {
   p.note(lines.join("\n"), `Invoice ${invoice.number}`);
 }
 
-// Send invoice
+// Send invoice; drafts are issued (numbered and posted) first
 export async function sendInvoiceCommand(id: string): Promise<void> {
-  const invoice = updateInvoiceStatus(
-    typeof id === "string" && id.startsWith("INV") ? parseInt(getInvoice(id)?.id.toString() || "0") : parseInt(id),
-    "sent"
-  );
-
-  if (!invoice) {
+  const existing = getInvoice(/^\d+$/.test(id) ? parseInt(id) : id);
+  if (!existing) {
     p.log.error(`Invoice not found: ${id}`);
     return;
   }
 
-  p.log.success(`Invoice ${invoice.number} marked as sent`);
+  try {
+    if (existing.status === "draft") {
+      const issued = issueInvoice(existing.id);
+      p.log.success(`Issued ${existing.number} as invoice ${issued.number}`);
+    } else {
+      const invoice = updateInvoiceStatus(existing.id, "sent");
+      p.log.success(`Invoice ${invoice!.number} marked as sent`);
+    }
+  } catch (err) {
+    p.log.error((err as Error).message);
+  }
 }
 
 // Mark paid
@@ -368,10 +420,12 @@ export async function deleteInvoiceCommand(id: string): Promise<void> {
     return;
   }
 
-  // Delete from database
-  const db = await import("../../db/index.js").then(m => m.getDb());
-  db.prepare("DELETE FROM invoice_items WHERE invoice_id = ?").run(invoice.id);
-  db.prepare("DELETE FROM invoices WHERE id = ?").run(invoice.id);
+  // Only drafts can be deleted; issued invoices are cancelled or credited
+  const result = deleteInvoice(invoice.id);
+  if (!result.success) {
+    p.log.error(result.error || "Could not delete invoice");
+    return;
+  }
 
   p.log.success(`Invoice ${invoice.number} deleted`);
 }
@@ -423,7 +477,7 @@ export async function invoiceCommandV2(args: string[]): Promise<void> {
       await deleteInvoiceCommand(subArgs[0]);
       break;
     default:
-      if (subcommand && subcommand.startsWith("INV")) {
+      if (subcommand && (subcommand.startsWith("INV") || subcommand.startsWith("DRAFT"))) {
         // Direct view
         await viewInvoiceCommand(subcommand);
       } else {
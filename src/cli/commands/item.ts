@@ -0,0 +1,274 @@
+import {
+  createItem,
+  getItem,
+  listItems,
+  updateItem,
+  setItemActive,
+  deleteItem,
+  adjustStock,
+  listStockMovements,
+  getStockValuation,
+  type CreateItemData,
+  type Item,
+  type ItemType,
+} from "../../domain/items.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2).padStart(12);
+}
+
+const TYPE_LABELS: Record<ItemType, string> = {
+  service: "Service",
+  non_inventory: "Product",
+  inventory: "Stock",
+};
+
+function parseType(value: string): ItemType {
+  const type = value.toLowerCase().replace(/[^a-z]/g, "");
+  if (type === "service") return "service";
+  if (type === "inventory" || type === "stock") return "inventory";
+  if (type === "noninventory" || type === "product") return "non_inventory";
+  throw new Error(`Unknown item type "${value}": use service, non-inventory or inventory`);
+}
+
+// Item fields from flags, shared by add and edit
+function itemData(parsed: Record<string, string>): Partial<CreateItemData> {
+  return {
+    sku: parsed.sku,
+    name: parsed.name,
+    description: parsed.description,
+    type: parsed.type ? parseType(parsed.type) : undefined,
+    unit_price: parsed.price !== undefined ? parseFloat(parsed.price) : undefined,
+    purchase_price: parsed.cost !== undefined ? parseFloat(parsed.cost) : undefined,
+    income_account: parsed.income,
+    expense_account: parsed.expense,
+    inventory_account: parsed["inventory-account"],
+    tax_code: parsed.tax,
+    classification_code: parsed.class,
+    unit_code: parsed.unit,
+  };
+}
+
+function requireItem(ref: string | undefined, usage: string): Item | undefined {
+  if (!ref || ref.startsWith("--")) {
+    printError(`Usage: oa item ${usage}`);
+    return undefined;
+  }
+  const item = getItem(ref);
+  if (!item) {
+    printError(`Item not found: ${ref}`);
+  }
+  return item;
+}
+
+// The catalog with prices and stock on hand
+export function showItems(args: string[]): void {
+  const parsed = parseArgs(args);
+  const items = listItems({
+    type: parsed.type ? parseType(parsed.type) : undefined,
+    include_inactive: parsed.all === "true",
+    search: parsed.search,
+  });
+
+  if (items.length === 0) {
+    printDim("No items");
+    printDim("Add one with: oa item add --sku CONSULT --name \"Consulting\" --price 250 --class 022");
+    return;
+  }
+
+  printTitle("Products & Services");
+  console.log();
+  console.log(`  ${"SKU".padEnd(12)} ${"Name".padEnd(26)} ${"Type".padEnd(8)} ${"Price".padStart(12)} ${"On hand".padStart(9)} ${"Avg cost".padStart(12)}  Tax`);
+  for (const item of items) {
+    const stocked = item.type === "inventory";
+    console.log(
+      `  ${item.sku.slice(0, 12).padEnd(12)} ${item.name.slice(0, 26).padEnd(26)} ${TYPE_LABELS[item.type].padEnd(8)} ${amount(item.unit_price)} ${(stocked ? String(item.quantity_on_hand) : "").padStart(9)} ${stocked ? amount(item.average_cost || 0) : "".padStart(12)}  ${item.tax_code || ""}${item.is_active ? "" : " (inactive)"}`
+    );
+  }
+}
+
+export function addItem(args: string[]): void {
+  const parsed = parseArgs(args);
+  if (!parsed.sku || !parsed.name) {
+    printError("Missing required: --sku and --name");
+    printDim("Usage: oa item add --sku <sku> --name <name> [--price] [--type service|non-inventory|inventory] [--cost]");
+    printDim("       [--income 4000] [--expense 5000] [--inventory-account 1400] [--tax SV8] [--class 022] [--unit EA] [--description]");
+    return;
+  }
+
+  const item = createItem(itemData(parsed) as CreateItemData);
+  printSuccess(`Item ${item.sku} added: ${item.name}`);
+  printKeyValue("Type", TYPE_LABELS[item.type]);
+  printKeyValue("Price", item.unit_price.toFixed(2));
+  if (item.type === "inventory") {
+    printDim(`Bring in opening stock with: oa item adjust ${item.sku} --qty 10 --cost 12.50 --account 3900`);
+  }
+}
+
+export function showItem(args: string[]): void {
+  const item = requireItem(args[0], "show <sku>");
+  if (!item) return;
+
+  printTitle(`${item.sku} - ${item.name}`);
+  printKeyValue("Type", `${TYPE_LABELS[item.type]}${item.is_active ? "" : " (inactive)"}`);
+  printKeyValue("Price", item.unit_price.toFixed(2));
+  if (item.purchase_price != null) printKeyValue("Cost", item.purchase_price.toFixed(2));
+  if (item.description) printKeyValue("Description", item.description);
+  printKeyValue("Income account", item.income_account_code || "4000");
+  if (item.expense_account_code) printKeyValue(item.type === "inventory" ? "COGS account" : "Expense account", item.expense_account_code);
+  if (item.tax_code) printKeyValue("Tax code", item.tax_code);
+  if (item.classification_code || item.unit_code) {
+    printKeyValue("LHDN", `classification ${item.classification_code || "-"}, unit ${item.unit_code || "-"}`);
+  }
+
+  if (item.type !== "inventory") return;
+  printKeyValue("Inventory account", item.inventory_account_code || "");
+  printKeyValue("On hand", `${item.quantity_on_hand} at ${(item.average_cost || 0).toFixed(4)} = ${(item.stock_value || 0).toFixed(2)}`);
+
+  const movements = listStockMovements({ item_id: item.id });
+  if (movements.length === 0) return;
+  console.log();
+  console.log(`  ${"Date".padEnd(10)} ${"Source".padEnd(10)} ${"Qty".padStart(9)} ${"Value".padStart(12)}  Description`);
+  for (const movement of movements.slice(-20)) {
+    console.log(
+      `  ${movement.date} ${movement.source_type.padEnd(10)} ${String(movement.quantity).padStart(9)} ${amount(movement.value)}  ${movement.description || ""}`
+    );
+  }
+}
+
+export function editItem(args: string[]): void {
+  const item = requireItem(args[0], "edit <sku> [--name] [--price] [--tax] ...");
+  if (!item) return;
+  const parsed = parseArgs(args.slice(1));
+  const updated = updateItem(item.id, { ...itemData(parsed), sku: parsed["new-sku"] });
+  printSuccess(`Item ${updated.sku} updated`);
+}
+
+export function adjustItemStock(args: string[]): void {
+  const item = requireItem(args[0], "adjust <sku> --qty <+/-n> [--cost] [--date] [--account] [--reason]");
+  if (!item) return;
+  const parsed = parseArgs(args.slice(1));
+  if (!parsed.qty) {
+    printError("Missing required: --qty");
+    return;
+  }
+
+  const movement = adjustStock(item.id, {
+    quantity: parseFloat(parsed.qty),
+    unit_cost: parsed.cost !== undefined ? parseFloat(parsed.cost) : undefined,
+    date: parsed.date,
+    account: parsed.account,
+    description: parsed.reason,
+  });
+  const after = getItem(item.id)!;
+  printSuccess(`${item.sku} ${movement.quantity > 0 ? "+" : ""}${movement.quantity} (${movement.value.toFixed(2)})`);
+  printDim(`${after.quantity_on_hand} on hand at ${(after.average_cost || 0).toFixed(4)}`);
+}
+
+// Stock on hand at average cost
+export function showStock(): void {
+  const valuation = getStockValuation();
+  if (valuation.items.length === 0) {
+    printDim("No inventory items");
+    return;
+  }
+
+  printTitle("Stock on Hand");
+  console.log();
+  console.log(`  ${"SKU".padEnd(12)} ${"Name".padEnd(26)} ${"On hand".padStart(9)} ${"Avg cost".padStart(12)} ${"Value".padStart(12)}`);
+  for (const item of valuation.items) {
+    console.log(
+      `  ${item.sku.slice(0, 12).padEnd(12)} ${item.name.slice(0, 26).padEnd(26)} ${String(item.quantity_on_hand).padStart(9)} ${amount(item.average_cost || 0)} ${amount(item.stock_value || 0)}`
+    );
+  }
+  console.log();
+  printKeyValue("Total", valuation.total.toFixed(2));
+}
+
+// Main item command router
+export function itemCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "list":
+      case "ls":
+        showItems(subArgs);
+        break;
+      case "add":
+      case "create":
+        addItem(subArgs);
+        break;
+      case "show":
+        showItem(subArgs);
+        break;
+      case "edit":
+        editItem(subArgs);
+        break;
+      case "adjust":
+        adjustItemStock(subArgs);
+        break;
+      case "stock":
+        showStock();
+        break;
+      case "activate":
+      case "deactivate": {
+        const item = requireItem(subArgs[0], `${subcommand} <sku>`);
+        if (!item) break;
+        setItemActive(item.id, subcommand === "activate");
+        printSuccess(`Item ${item.sku} ${subcommand}d`);
+        break;
+      }
+      case "delete":
+      case "rm": {
+        const item = requireItem(subArgs[0], "rm <sku>");
+        if (!item) break;
+        const result = deleteItem(item.id);
+        if (!result.success) {
+          printError(result.error || "Could not delete item");
+          break;
+        }
+        printSuccess(`Item ${item.sku} deleted`);
+        break;
+      }
+      default:
+        printError(`Unknown item command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list                  - Products and services with prices and stock (--all, --type, --search)");
+        printBullet("add --sku --name      - Add an item (--price, --type inventory, --tax, --class, --unit)");
+        printBullet("show <sku>            - Item details and stock movements");
+        printBullet("edit <sku>            - Change prices, accounts or codes (--new-sku to rename)");
+        printBullet("adjust <sku> --qty    - Add or remove stock (--cost, --account, --reason)");
+        printBullet("stock                 - Stock on hand at average cost");
+        printBullet("deactivate <sku>      - Hide an item from new documents (activate to undo)");
+        printBullet("rm <sku>              - Delete an item that has never been used");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
@@ -0,0 +1,213 @@
+import {
+  createLoan,
+  getLoan,
+  listLoans,
+  getLoanSchedule,
+  recordLoanRepayment,
+  recordDueRepayments,
+  deleteLoan,
+  type Loan,
+  type LoanMethod,
+  type LoanType,
+} from "../../domain/loans.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+import { today } from "../../core/dates.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2).padStart(12);
+}
+
+const TYPE_LABELS: Record<LoanType, string> = {
+  loan: "Loan",
+  hire_purchase: "Hire purchase",
+};
+
+const METHOD_LABELS: Record<LoanMethod, string> = {
+  annuity: "Annuity",
+  rule_of_78: "Rule of 78",
+};
+
+// A loan by id or name, or an error and usage line
+function requireLoan(ref: string | undefined, usage: string): Loan | undefined {
+  if (!ref || ref.startsWith("--")) {
+    printError(`Usage: oa loan ${usage}`);
+    return undefined;
+  }
+  const loan = getLoan(/^\d+$/.test(ref) ? parseInt(ref, 10) : ref);
+  if (!loan) {
+    printError(`Loan not found: ${ref}`);
+  }
+  return loan;
+}
+
+// Loans with what is still owed
+export function showLoans(args: string[]): void {
+  const parsed = parseArgs(args);
+  const loans = listLoans(parsed.all === "true" ? {} : { status: "active" });
+
+  if (loans.length === 0) {
+    printDim("No loans");
+    printDim("Add one with: oa loan add --name \"Hilux\" --principal 120000 --rate 2.8 --term 84 --start 2025-01-15 --hp");
+    return;
+  }
+
+  printTitle("Loans & Hire Purchase");
+  console.log();
+  console.log(`  ${"#".padEnd(4)} ${"Name".padEnd(24)} ${"Type".padEnd(14)} ${"Rate".padStart(6)} ${"Paid".padStart(7)} ${"Installment".padStart(12)} ${"Outstanding".padStart(12)}  Next due`);
+  for (const loan of loans) {
+    console.log(
+      `  ${String(loan.id).padEnd(4)} ${loan.name.slice(0, 24).padEnd(24)} ${TYPE_LABELS[loan.type].padEnd(14)} ${`${loan.annual_rate}%`.padStart(6)} ${`${loan.installments_paid}/${loan.term_months}`.padStart(7)} ${amount(loan.installment || 0)} ${amount(loan.outstanding || 0)}  ${loan.next_due_date || "repaid"}`
+    );
+  }
+}
+
+// Add a loan or hire purchase
+export function addLoan(args: string[]): void {
+  const parsed = parseArgs(args);
+  if (!parsed.name || !parsed.principal || !parsed.rate || !parsed.term || !parsed.start) {
+    printError("Missing required: --name, --principal, --rate, --term and --start");
+    printDim("Usage: oa loan add --name <name> --principal 120000 --rate 2.8 --term 84 --start 2025-01-15 [--hp] [--method annuity|rule78]");
+    printDim("       [--lender] [--first 2025-02-15] [--account 2800] [--interest-account 5810] [--to <bank or asset account>] [--existing]");
+    return;
+  }
+
+  const type: LoanType = parsed.hp === "true" || parsed.type === "hp" || parsed.type === "hire_purchase" ? "hire_purchase" : "loan";
+  const method: LoanMethod | undefined = parsed.method
+    ? parsed.method.replace(/[^a-z0-9]/gi, "").toLowerCase().startsWith("rule") ? "rule_of_78" : "annuity"
+    : undefined;
+
+  const loan = createLoan({
+    name: parsed.name,
+    lender: parsed.lender,
+    type,
+    method,
+    principal: parseFloat(parsed.principal),
+    annual_rate: parseFloat(parsed.rate),
+    term_months: parseInt(parsed.term, 10),
+    start_date: parsed.start,
+    first_payment_date: parsed.first,
+    liability_account: parsed.account,
+    interest_account: parsed["interest-account"],
+    drawdown_account: parsed.to,
+    post_drawdown: parsed.existing !== "true",
+    notes: parsed.notes,
+  });
+
+  printSuccess(`${TYPE_LABELS[loan.type]} #${loan.id} added: ${loan.name}`);
+  printKeyValue("Installment", `${(loan.installment || 0).toFixed(2)} x ${loan.term_months} from ${loan.first_payment_date}`);
+  printKeyValue("Total interest", `${(loan.total_interest || 0).toFixed(2)} (${METHOD_LABELS[loan.method]})`);
+  if (!loan.drawdown_journal_entry_id) {
+    printDim("No drawdown posted: the balance should already be on the books");
+  }
+}
+
+// The amortization table
+export function showSchedule(args: string[]): void {
+  const loan = requireLoan(args[0], "schedule <loan>");
+  if (!loan) return;
+
+  printTitle(`${loan.name} - ${METHOD_LABELS[loan.method]} at ${loan.annual_rate}%`);
+  console.log();
+  console.log(`  ${"#".padStart(3)}  ${"Due".padEnd(10)} ${"Payment".padStart(12)} ${"Principal".padStart(12)} ${"Interest".padStart(12)} ${"Balance".padStart(12)}  Paid`);
+  for (const row of getLoanSchedule(loan.id)) {
+    console.log(
+      `  ${String(row.number).padStart(3)}  ${row.due_date} ${amount(row.payment)} ${amount(row.principal)} ${amount(row.interest)} ${amount(row.balance)}  ${row.paid_date || ""}`
+    );
+  }
+  console.log();
+  printKeyValue("Outstanding", (loan.outstanding || 0).toFixed(2));
+  printKeyValue("Total interest", (loan.total_interest || 0).toFixed(2));
+}
+
+// Pay the next installment
+export function payLoan(args: string[]): void {
+  const loan = requireLoan(args[0], "pay <loan> [--date] [--bank <account>] [--reference]");
+  if (!loan) return;
+  const parsed = parseArgs(args.slice(1));
+
+  const paid = recordLoanRepayment(loan.id, { date: parsed.date, bank_account: parsed.bank, reference: parsed.reference });
+  printSuccess(`${loan.name} installment ${paid.number} of ${loan.term_months} paid: ${paid.payment.toFixed(2)}`);
+  printDim(`Principal ${paid.principal.toFixed(2)}, interest ${paid.interest.toFixed(2)}, ${paid.balance.toFixed(2)} left`);
+}
+
+// Main loan command router
+export function loanCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "list":
+      case "ls":
+        showLoans(subArgs);
+        break;
+      case "add":
+      case "create":
+        addLoan(subArgs);
+        break;
+      case "schedule":
+      case "show":
+        showSchedule(subArgs);
+        break;
+      case "pay":
+        payLoan(subArgs);
+        break;
+      case "pay-due": {
+        const parsed = parseArgs(subArgs);
+        const paid = recordDueRepayments(parsed.through || today(), { bank_account: parsed.bank });
+        if (paid.length === 0) {
+          printDim("No installments due");
+          break;
+        }
+        printSuccess(`Recorded ${paid.length} installment(s), ${paid.reduce((sum, i) => sum + i.payment, 0).toFixed(2)} in total`);
+        break;
+      }
+      case "delete":
+      case "rm": {
+        const loan = requireLoan(subArgs[0], "rm <loan>");
+        if (!loan) break;
+        const result = deleteLoan(loan.id);
+        if (!result.success) {
+          printError(result.error || "Could not delete loan");
+          break;
+        }
+        printSuccess(`Loan ${loan.name} deleted`);
+        break;
+      }
+      default:
+        printError(`Unknown loan command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list                  - Loans with installments paid and outstanding principal (--all)");
+        printBullet("add --name --principal - Add a loan (--rate, --term, --start, --hp for hire purchase, --existing)");
+        printBullet("schedule <loan>       - Amortization table with principal and interest per installment");
+        printBullet("pay <loan>            - Pay the next installment (--date, --bank, --reference)");
+        printBullet("pay-due               - Pay every installment due (--through, --bank)");
+        printBullet("rm <loan>             - Delete a loan with no repayments");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
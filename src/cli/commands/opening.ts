@@ -0,0 +1,320 @@
+import { readFileSync, existsSync } from "fs";
+import { withTransaction } from "../../db/index.js";
+import { getCustomer, createCustomer } from "../../domain/customers.js";
+import { getVendor, createVendor } from "../../domain/vendors.js";
+import {
+  getConversionDate,
+  setConversionDate,
+  addOpeningInvoice,
+  addOpeningBill,
+  enterOpeningBalances,
+  getOpeningBalanceStatus,
+  type OpeningBalanceLine,
+} from "../../domain/opening-balances.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function parseCSVLine(line: string): string[] {
+  const result: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === "," && !inQuotes) {
+      result.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  result.push(current.trim());
+  return result;
+}
+
+// Rows keyed by lower-cased header
+function readCsv(path: string): Array<Record<string, string>> {
+  if (!existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
+  }
+  const lines = readFileSync(path, "utf-8").split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) {
+    throw new Error(`${path} has no rows below the header`);
+  }
+  const headers = parseCSVLine(lines[0]).map((h) => h.toLowerCase().replace(/\s+/g, "_"));
+  return lines.slice(1).map((line) => {
+    const cells = parseCSVLine(line);
+    return Object.fromEntries(headers.map((h, i) => [h, cells[i] || ""]));
+  });
+}
+
+function parseAmount(value: string | undefined): number {
+  return parseFloat((value || "").replace(/,/g, "")) || 0;
+}
+
+/**
+ * Import open invoices from a CSV with columns customer, number, date,
+ * due_date and amount. Customers not on file yet are created. The whole file
+ * goes in or none of it does.
+ */
+export function importOpeningInvoices(path: string): { count: number; total: number; new_customers: number } {
+  const rows = readCsv(path);
+  return withTransaction(() => {
+    let total = 0;
+    let newCustomers = 0;
+    rows.forEach((row, index) => {
+      if (!row.customer) {
+        throw new Error(`Row ${index + 2}: customer is required`);
+      }
+      let customer = getCustomer(row.customer);
+      if (!customer) {
+        customer = createCustomer({ name: row.customer });
+        newCustomers++;
+      }
+      try {
+        const invoice = addOpeningInvoice({
+          customer_id: customer.id,
+          number: row.number || row.invoice,
+          date: row.date,
+          due_date: row.due_date || undefined,
+          amount: parseAmount(row.amount || row.balance),
+          description: row.description || undefined,
+        });
+        total += invoice.total;
+      } catch (err) {
+        throw new Error(`Row ${index + 2}: ${(err as Error).message}`);
+      }
+    });
+    return { count: rows.length, total, new_customers: newCustomers };
+  });
+}
+
+/**
+ * Import open bills from a CSV with columns vendor, reference, date, due_date
+ * and amount. Vendors not on file yet are created.
+ */
+export function importOpeningBills(path: string): { count: number; total: number; new_vendors: number } {
+  const rows = readCsv(path);
+  return withTransaction(() => {
+    let total = 0;
+    let newVendors = 0;
+    rows.forEach((row, index) => {
+      if (!row.vendor) {
+        throw new Error(`Row ${index + 2}: vendor is required`);
+      }
+      let vendor = getVendor(row.vendor);
+      if (!vendor) {
+        vendor = createVendor({ name: row.vendor });
+        newVendors++;
+      }
+      try {
+        const bill = addOpeningBill({
+          vendor_id: vendor.id,
+          reference: row.reference || row.number || undefined,
+          date: row.date,
+          due_date: row.due_date || undefined,
+          amount: parseAmount(row.amount || row.balance),
+          description: row.description || undefined,
+        });
+        total += bill.total;
+      } catch (err) {
+        throw new Error(`Row ${index + 2}: ${(err as Error).message}`);
+      }
+    });
+    return { count: rows.length, total, new_vendors: newVendors };
+  });
+}
+
+// Trial balance lines from a CSV with columns account (code or name), debit and credit
+export function readTrialBalance(path: string): OpeningBalanceLine[] {
+  return readCsv(path)
+    .filter((row) => row.account && (parseAmount(row.debit) || parseAmount(row.credit)))
+    .map((row) => ({ account: row.account, debit: parseAmount(row.debit), credit: parseAmount(row.credit) }));
+}
+
+// Where the conversion stands
+export function showStatus(): void {
+  const status = getOpeningBalanceStatus();
+
+  printTitle("Opening Balances");
+  console.log();
+  if (!status.conversion_date) {
+    printDim("No conversion date set. Start with: oa opening date 2024-12-31");
+    printDim("or walk through it with: oa opening wizard");
+    return;
+  }
+
+  printKeyValue("Conversion date", status.conversion_date);
+  printKeyValue("Open invoices", `${status.invoices}  (${status.receivables.toFixed(2)})`);
+  printKeyValue("Open bills", `${status.bills}  (${status.payables.toFixed(2)})`);
+  printKeyValue("Trial balance", status.journal_entry_id ? `Posted, entry #${status.journal_entry_id} (locked)` : "Not entered");
+  printKeyValue("Opening Balance Equity", status.equity_balance.toFixed(2));
+  console.log();
+
+  if (!status.journal_entry_id) {
+    printDim("Enter the trial balance with: oa opening balances <file.csv>");
+  } else if (Math.abs(status.equity_balance) >= 0.01) {
+    printDim("Opening Balance Equity should be zero. Re-enter the trial balance to match the invoices and bills brought over.");
+  }
+}
+
+// Add one open invoice by hand
+export function addInvoice(args: string[]): void {
+  const parsed = parseArgs(args);
+  const amount = parseAmount(parsed.amount);
+  if (!parsed.customer || !parsed.number || !parsed.date || !amount) {
+    printError("Missing required: --customer, --number, --date and --amount");
+    printDim("Usage: oa opening invoice --customer <name> --number INV-0042 --date 2024-11-15 --amount 1200 [--due 2024-12-15]");
+    return;
+  }
+  const customer = getCustomer(parsed.customer);
+  if (!customer) {
+    printError(`Customer not found: ${parsed.customer}`);
+    return;
+  }
+
+  const invoice = addOpeningInvoice({
+    customer_id: customer.id,
+    number: parsed.number,
+    date: parsed.date,
+    due_date: parsed.due,
+    amount,
+    description: parsed.description,
+  });
+  printSuccess(`${invoice.number} brought over: ${invoice.total.toFixed(2)} from ${customer.name}, due ${invoice.due_date}`);
+}
+
+// Add one open bill by hand
+export function addBill(args: string[]): void {
+  const parsed = parseArgs(args);
+  const amount = parseAmount(parsed.amount);
+  if (!parsed.vendor || !parsed.date || !amount) {
+    printError("Missing required: --vendor, --date and --amount");
+    printDim("Usage: oa opening bill --vendor <name> --date 2024-12-01 --amount 800 [--reference <their invoice no>] [--due]");
+    return;
+  }
+  const vendor = getVendor(parsed.vendor);
+  if (!vendor) {
+    printError(`Vendor not found: ${parsed.vendor}`);
+    return;
+  }
+
+  const bill = addOpeningBill({
+    vendor_id: vendor.id,
+    reference: parsed.reference,
+    date: parsed.date,
+    due_date: parsed.due,
+    amount,
+    description: parsed.description,
+  });
+  printSuccess(`${bill.number} brought over: ${bill.total.toFixed(2)} owed to ${vendor.name}, due ${bill.due_date}`);
+}
+
+// Post the trial balance from a CSV
+export function enterBalances(args: string[]): void {
+  if (!args[0]) {
+    printError("Usage: oa opening balances <file.csv>");
+    printDim("Columns: account (code or name), debit, credit");
+    return;
+  }
+
+  const entry = enterOpeningBalances(readTrialBalance(args[0]));
+  printSuccess(`Opening balances posted on ${entry.date} (entry #${entry.id}, locked)`);
+  printDim(`${entry.lines.length} lines, ${(entry.total_debits ?? 0).toFixed(2)} each side`);
+}
+
+// Main opening command router
+export async function openingCommand(args: string[]): Promise<void> {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "status":
+        showStatus();
+        break;
+      case "date":
+        if (!subArgs[0]) {
+          printKeyValue("Conversion date", getConversionDate() || "Not set");
+          break;
+        }
+        setConversionDate(subArgs[0]);
+        printSuccess(`Conversion date set to ${subArgs[0]}`);
+        break;
+      case "invoice":
+        addInvoice(subArgs);
+        break;
+      case "bill":
+        addBill(subArgs);
+        break;
+      case "import-invoices": {
+        if (!subArgs[0]) {
+          printError("Usage: oa opening import-invoices <file.csv>");
+          printDim("Columns: customer, number, date, due_date, amount");
+          break;
+        }
+        const result = importOpeningInvoices(subArgs[0]);
+        printSuccess(`Brought over ${result.count} invoice(s), ${result.total.toFixed(2)} receivable`);
+        if (result.new_customers) printDim(`${result.new_customers} new customer(s) created`);
+        break;
+      }
+      case "import-bills": {
+        if (!subArgs[0]) {
+          printError("Usage: oa opening import-bills <file.csv>");
+          printDim("Columns: vendor, reference, date, due_date, amount");
+          break;
+        }
+        const result = importOpeningBills(subArgs[0]);
+        printSuccess(`Brought over ${result.count} bill(s), ${result.total.toFixed(2)} payable`);
+        if (result.new_vendors) printDim(`${result.new_vendors} new vendor(s) created`);
+        break;
+      }
+      case "balances":
+      case "trial-balance":
+        enterBalances(subArgs);
+        break;
+      case "wizard": {
+        const { runOpeningBalanceWizard } = await import("./setup.js");
+        await runOpeningBalanceWizard();
+        break;
+      }
+      default:
+        printError(`Unknown opening command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("status                     - Conversion date, items brought over, Opening Balance Equity");
+        printBullet("date <YYYY-MM-DD>          - Set the conversion date (balances as at its close)");
+        printBullet("invoice --customer --number - Add an unpaid invoice (--date, --amount, --due)");
+        printBullet("bill --vendor              - Add an unpaid bill (--date, --amount, --reference, --due)");
+        printBullet("import-invoices <csv>      - customer, number, date, due_date, amount");
+        printBullet("import-bills <csv>         - vendor, reference, date, due_date, amount");
+        printBullet("balances <csv>             - Post the trial balance: account, debit, credit");
+        printBullet("wizard                     - Walk through the conversion step by step");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
@@ -0,0 +1,304 @@
+import { writeFileSync } from "fs";
+import { join } from "path";
+import {
+  createPayrollRun,
+  getPayrollRun,
+  listPayrollRuns,
+  postPayrollRun,
+  payPayrollRun,
+  deletePayrollRun,
+  remitStatutory,
+  listStatutoryRemittances,
+  STATUTORY_SCHEMES,
+  type PayrollRun,
+  type StatutoryScheme,
+} from "../../domain/payroll.js";
+import { getPayrollTables, loadPayrollTables, PAYROLL_TABLES_DIR } from "../../domain/payroll-tables.js";
+import { getEmployee } from "../../domain/employees.js";
+import { generatePayslipPDF } from "../../services/pdf.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2).padStart(10);
+}
+
+function requireRun(period: string | undefined, usage: string): PayrollRun | undefined {
+  if (!period || period.startsWith("--")) {
+    printError(`Usage: oa payroll ${usage}`);
+    return undefined;
+  }
+  const run = getPayrollRun(period);
+  if (!run) {
+    printError(`No payroll for ${period}. Work it out with: oa payroll run ${period}`);
+  }
+  return run;
+}
+
+// "Aisyah=300,Ben Tan=150" into per-employee amounts
+function perEmployee(value: string | undefined, flag: string): Array<[string, number]> {
+  if (!value) return [];
+  return value.split(",").map((pair) => {
+    const [name, figure] = pair.split("=");
+    const parsed = parseFloat(figure);
+    if (!name?.trim() || isNaN(parsed)) {
+      throw new Error(`Use --${flag} "Name=amount,Other name=amount"`);
+    }
+    return [name.trim(), parsed];
+  });
+}
+
+function printRun(run: PayrollRun): void {
+  printTitle(`Payroll ${run.period} (${run.status})`);
+  console.log();
+  printKeyValue("Pay date", run.date);
+  printKeyValue("Tables", run.tables);
+  console.log();
+  console.log(`  ${"Employee".padEnd(22)} ${"Gross".padStart(10)} ${"EPF".padStart(10)} ${"SOCSO".padStart(10)} ${"EIS".padStart(10)} ${"PCB".padStart(10)} ${"Net".padStart(10)}`);
+  for (const line of run.lines || []) {
+    console.log(
+      `  ${(line.employee_name || "").slice(0, 22).padEnd(22)} ${amount(line.gross)} ${amount(line.epf_employee)} ${amount(line.socso_employee)} ${amount(line.eis_employee)} ${amount(line.pcb)} ${amount(line.net)}`
+    );
+  }
+  const t = run.totals;
+  console.log(`  ${"Total".padEnd(22)} ${amount(t.gross)} ${amount(t.epf_employee)} ${amount(t.socso_employee)} ${amount(t.eis_employee)} ${amount(t.pcb)} ${amount(t.net)}`);
+  console.log(`  ${"Employer".padEnd(22)} ${"".padStart(10)} ${amount(t.epf_employer)} ${amount(t.socso_employer)} ${amount(t.eis_employer)}`);
+  console.log();
+  printKeyValue("Cost to employer", t.employer_cost.toFixed(2));
+
+  for (const r of run.remittances || []) {
+    printKeyValue(
+      STATUTORY_SCHEMES[r.scheme].label,
+      `${r.amount.toFixed(2)} ${r.paid_date ? `remitted ${r.paid_date}${r.reference ? ` (${r.reference})` : ""}` : `due ${r.due_date}`}`
+    );
+  }
+}
+
+export function showPayrollRuns(): void {
+  const runs = listPayrollRuns();
+  if (runs.length === 0) {
+    printDim("No payroll runs");
+    printDim("Set salaries with: oa employee edit \"Aisyah\" --salary 4500, then: oa payroll run 2025-05");
+    return;
+  }
+
+  printTitle("Payroll");
+  console.log();
+  console.log(`  ${"Period".padEnd(8)} ${"Status".padEnd(7)} ${"Staff".padStart(5)} ${"Gross".padStart(10)} ${"Net".padStart(10)} ${"Cost".padStart(10)}`);
+  for (const run of runs) {
+    const t = run.totals;
+    console.log(`  ${run.period.padEnd(8)} ${run.status.padEnd(7)} ${String(t.employees).padStart(5)} ${amount(t.gross)} ${amount(t.net)} ${amount(t.employer_cost)}`);
+  }
+}
+
+export function runPayrollCommand(args: string[]): void {
+  const period = args[0];
+  const parsed = parseArgs(args);
+  if (!period || period.startsWith("--")) {
+    printError("Usage: oa payroll run <YYYY-MM> [--date <pay date>] [--allowances \"Name=300\"] [--basic \"Name=2500\"]");
+    return;
+  }
+
+  const changes = new Map<string, { employee: string; basic?: number; allowances?: number }>();
+  for (const [name, value] of perEmployee(parsed.basic, "basic")) {
+    changes.set(name, { ...changes.get(name), employee: name, basic: value });
+  }
+  for (const [name, value] of perEmployee(parsed.allowances, "allowances")) {
+    changes.set(name, { ...changes.get(name), employee: name, allowances: value });
+  }
+
+  const run = createPayrollRun(period, { date: parsed.date, employees: [...changes.values()] });
+  printRun(run);
+  console.log();
+  printSuccess(`Draft payroll for ${run.period} worked out`);
+  printDim(`Post it with: oa payroll post ${run.period}`);
+}
+
+export function remitCommand(args: string[]): void {
+  const parsed = parseArgs(args);
+  const run = requireRun(args[0], "remit <YYYY-MM> <epf|socso|eis|pcb|all> [--date] [--from <bank>] [--reference]");
+  if (!run) return;
+
+  const scheme = args[1];
+  const schemes = scheme === "all"
+    ? (run.remittances || []).filter((r) => !r.paid_date).map((r) => r.scheme)
+    : [scheme as StatutoryScheme];
+  if (schemes.length === 0) {
+    printDim(`Everything for ${run.period} has been remitted`);
+    return;
+  }
+  for (const s of schemes) {
+    const remittance = remitStatutory(run.period, s, { date: parsed.date, bank_account: parsed.from, reference: parsed.reference });
+    printSuccess(`${STATUTORY_SCHEMES[s].label} ${run.period}: remitted ${remittance.amount.toFixed(2)} on ${remittance.paid_date}`);
+  }
+}
+
+// Statutory payments still to make, soonest first
+export function showDue(args: string[]): void {
+  const parsed = parseArgs(args);
+  const due = listStatutoryRemittances({ status: "outstanding", as_of: parsed.date });
+  if (due.length === 0) {
+    printDim("No statutory payments outstanding");
+    return;
+  }
+
+  printTitle("Statutory Payments Due");
+  console.log();
+  for (const r of due) {
+    const days = r.days_left! < 0 ? `${-r.days_left!} days overdue` : `${r.days_left} days left`;
+    console.log(`  ${r.period} ${STATUTORY_SCHEMES[r.scheme].label.padEnd(6)} ${amount(r.amount)}  due ${r.due_date} (${days})`);
+  }
+  const overdue = due.filter((r) => r.days_left! < 0);
+  if (overdue.length > 0) {
+    console.log();
+    printError(`${overdue.length} payment(s) overdue - late EPF, SOCSO and EIS contributions attract late payment charges`);
+  }
+}
+
+// Write payslip PDFs for a run, one per employee
+export async function payslipCommand(args: string[]): Promise<void> {
+  const parsed = parseArgs(args);
+  const run = requireRun(args[0], "payslip <YYYY-MM> [--employee <name>] [--out <dir>]");
+  if (!run) return;
+
+  let lines = run.lines || [];
+  if (parsed.employee) {
+    const employee = getEmployee(parsed.employee);
+    lines = lines.filter((l) => l.employee_id === employee?.id);
+    if (lines.length === 0) {
+      printError(`No payslip for ${parsed.employee} in ${run.period}`);
+      return;
+    }
+  }
+
+  for (const line of lines) {
+    const file = join(parsed.out || ".", `payslip-${run.period}-${(line.employee_name || String(line.employee_id)).replace(/[^\w-]+/g, "-")}.pdf`);
+    writeFileSync(file, await generatePayslipPDF(run.id, line.employee_id));
+    printSuccess(`Saved ${file}`);
+  }
+}
+
+// Which contribution tables apply and where they come from
+export function showTables(args: string[]): void {
+  const parsed = parseArgs(args);
+  const date = parsed.date || new Date().toISOString().split("T")[0];
+  const current = getPayrollTables(date);
+
+  printTitle("Payroll Tables");
+  console.log();
+  for (const t of loadPayrollTables()) {
+    const marker = t.effective_from === current.effective_from ? "*" : " ";
+    console.log(`  ${marker} ${t.effective_from}  ${t.name.padEnd(20)} ${t.file || "(bundled)"}`);
+  }
+  console.log();
+  printKeyValue("In force", `${current.name} on ${date}`);
+  for (const scheme of ["epf", "socso", "eis"] as const) {
+    const band = current[scheme].categories[0].bands?.[0];
+    if (band) {
+      printKeyValue(scheme.toUpperCase(), `employee ${band.employee}%, employer ${band.employer}%${current[scheme].ceiling ? ` up to ${current[scheme].ceiling}` : ""}`);
+    }
+  }
+  console.log();
+  printDim(`Add next year's rates as a JSON file in ${PAYROLL_TABLES_DIR}/ with a later effective_from`);
+}
+
+// Main payroll command router
+export async function payrollCommand(args: string[]): Promise<void> {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "list":
+      case "ls":
+        showPayrollRuns();
+        break;
+      case "run":
+        runPayrollCommand(subArgs);
+        break;
+      case "show":
+      case "view": {
+        const run = requireRun(subArgs[0], "show <YYYY-MM>");
+        if (run) printRun(run);
+        break;
+      }
+      case "post": {
+        const run = requireRun(subArgs[0], "post <YYYY-MM>");
+        if (!run) break;
+        const posted = postPayrollRun(run.id);
+        printSuccess(`Payroll ${posted.period} posted: ${posted.totals.net.toFixed(2)} net salaries, ${posted.remittances!.length} statutory payments due ${posted.remittances![0]?.due_date || ""}`);
+        break;
+      }
+      case "pay": {
+        const parsed = parseArgs(subArgs);
+        const run = requireRun(subArgs[0], "pay <YYYY-MM> [--date] [--from <bank>] [--reference]");
+        if (!run) break;
+        const paid = payPayrollRun(run.id, { date: parsed.date, bank_account: parsed.from, reference: parsed.reference });
+        printSuccess(`Salaries for ${paid.period} paid: ${paid.totals.net.toFixed(2)}`);
+        break;
+      }
+      case "remit":
+        remitCommand(subArgs);
+        break;
+      case "due":
+        showDue(subArgs);
+        break;
+      case "payslip":
+      case "payslips":
+        await payslipCommand(subArgs);
+        break;
+      case "tables":
+        showTables(subArgs);
+        break;
+      case "rm":
+      case "delete": {
+        const run = requireRun(subArgs[0], "rm <YYYY-MM>");
+        if (!run) break;
+        const result = deletePayrollRun(run.id);
+        if (!result.success) {
+          printError(result.error || "Could not delete payroll run");
+          break;
+        }
+        printSuccess(`Draft payroll for ${run.period} deleted`);
+        break;
+      }
+      default:
+        printError(`Unknown payroll command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list                  - Payroll runs with gross, net and cost");
+        printBullet("run <YYYY-MM>         - Work out a draft payroll (--date, --allowances \"Name=300\", --basic \"Name=2500\")");
+        printBullet("show <YYYY-MM>        - Pay, deductions and remittances per employee");
+        printBullet("post <YYYY-MM>        - Post the payroll journal");
+        printBullet("pay <YYYY-MM>         - Pay net salaries (--date, --from bank)");
+        printBullet("remit <YYYY-MM> <epf|socso|eis|pcb|all> - Pay statutory deductions (--date, --from, --reference)");
+        printBullet("due                   - Statutory payments outstanding and their deadlines");
+        printBullet("payslip <YYYY-MM>     - Payslip PDFs (--employee, --out dir)");
+        printBullet("tables                - Contribution tables in force (--date)");
+        printBullet("rm <YYYY-MM>          - Delete a draft payroll");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
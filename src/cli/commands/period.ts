@@ -0,0 +1,130 @@
+import {
+  closePeriod,
+  reopenPeriod,
+  closeFiscalYear,
+  ensureFiscalPeriods,
+  getFiscalYearForDate,
+} from "../../domain/periods.js";
+import { getLockDate } from "../../domain/journal.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+// List the periods of a fiscal year
+export function listPeriods(args: string[]): void {
+  const year = args[0] ? parseInt(args[0]) : getFiscalYearForDate(new Date().toISOString().split("T")[0]);
+  if (isNaN(year)) {
+    printError("Usage: oa period list [fiscal-year]");
+    return;
+  }
+
+  const periods = ensureFiscalPeriods(year);
+  const lockDate = getLockDate();
+
+  printTitle(`Fiscal Year ${year}`);
+  printKeyValue("Lock date", lockDate || "none");
+  console.log();
+
+  for (const p of periods) {
+    const marker = p.status === "closed" ? "🔒" : "  ";
+    console.log(`  ${marker} P${String(p.period_number).padStart(2, "0")}  ${p.name}  ${p.start_date} → ${p.end_date}  ${p.status}`);
+  }
+}
+
+// Close the books through a date
+export function closeBooks(args: string[]): void {
+  const date = args[0];
+  if (!date) {
+    printError("Usage: oa period close <YYYY-MM-DD>");
+    return;
+  }
+
+  const result = closePeriod(date);
+  printSuccess(`Books locked through ${result.lock_date}`);
+  printKeyValue("Entries locked", String(result.entries_locked));
+  printKeyValue("Periods closed", String(result.periods_closed));
+}
+
+// Reopen from a date (requires a reason)
+export function reopenBooks(args: string[]): void {
+  const parsed = parseArgs(args);
+  const date = args[0];
+  if (!date || date.startsWith("--") || !parsed.reason || parsed.reason === "true") {
+    printError("Usage: oa period reopen <YYYY-MM-DD> --reason \"...\"");
+    return;
+  }
+
+  const result = reopenPeriod(date, parsed.reason);
+  printSuccess(`Reopened from ${date} (lock date now ${result.lock_date})`);
+  printKeyValue("Entries unlocked", String(result.entries_unlocked));
+}
+
+// Year-end close
+export function yearEnd(args: string[]): void {
+  const year = parseInt(args[0] || "");
+  if (isNaN(year)) {
+    printError("Usage: oa period year-end <fiscal-year>");
+    return;
+  }
+
+  const result = closeFiscalYear(year);
+  printSuccess(`Closed fiscal year ${year} (${result.start_date} → ${result.end_date})`);
+  printKeyValue("Net income", `$${result.net_income.toFixed(2)}`);
+  printKeyValue("Closing entry", result.journal_entry_id ? `#${result.journal_entry_id}` : "none (no income or expenses)");
+  printKeyValue("Lock date", result.lock_date);
+}
+
+// Main period command router
+export function periodCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case "list":
+      case "ls":
+      case undefined:
+        listPeriods(subArgs);
+        break;
+      case "close":
+        closeBooks(subArgs);
+        break;
+      case "reopen":
+        reopenBooks(subArgs);
+        break;
+      case "year-end":
+      case "ye":
+        yearEnd(subArgs);
+        break;
+      default:
+        printError(`Unknown period command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list [year]            - Show fiscal periods and the lock date");
+        printBullet("close <date>           - Lock all entries up to a date");
+        printBullet("reopen <date> --reason - Unlock from a date onwards");
+        printBullet("year-end <year>        - Close income/expenses into retained earnings");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
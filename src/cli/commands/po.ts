@@ -0,0 +1,304 @@
+import { writeFileSync } from "fs";
+import {
+  createPurchaseOrder,
+  getPurchaseOrder,
+  listPurchaseOrders,
+  receivePurchaseOrder,
+  convertPurchaseOrderToBill,
+  convertPurchaseOrderToExpense,
+  matchBill,
+  listMatchExceptions,
+  closePurchaseOrder,
+  cancelPurchaseOrder,
+  type BillMatch,
+  type PurchaseOrder,
+  type PurchaseOrderLineQuantity,
+  type PurchaseOrderStatus,
+} from "../../domain/purchase-orders.js";
+import { getVendor, createVendor } from "../../domain/vendors.js";
+import { generatePurchaseOrderPDF } from "../../services/pdf.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2).padStart(12);
+}
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  open: "open",
+  partial: "partly received",
+  closed: "closed",
+  cancelled: "cancelled",
+};
+
+// Order ids or numbers (PO-0001)
+function orderRef(ref: string): number | string {
+  return /^\d+$/.test(ref) ? parseInt(ref) : ref;
+}
+
+function requireOrder(ref: string | undefined, usage: string): PurchaseOrder | undefined {
+  if (!ref || ref.startsWith("--")) {
+    printError(`Usage: oa po ${usage}`);
+    return undefined;
+  }
+  const order = getPurchaseOrder(orderRef(ref));
+  if (!order) {
+    printError(`Purchase order not found: ${ref}`);
+  }
+  return order;
+}
+
+// A single line from --line and --qty, or every line when --line is not given
+function lineArgs(parsed: Record<string, string>): PurchaseOrderLineQuantity[] | undefined {
+  if (!parsed.line) return undefined;
+  if (!parsed.qty) {
+    throw new Error("--line needs --qty");
+  }
+  return [{
+    line: parseInt(parsed.line, 10),
+    quantity: parseFloat(parsed.qty),
+    unit_price: parsed.price !== undefined ? parseFloat(parsed.price) : undefined,
+  }];
+}
+
+function printMatch(match: BillMatch): void {
+  if (match.exceptions.length === 0) {
+    printDim(`${match.bill_number} matches ${match.purchase_order_number}`);
+    return;
+  }
+  printError(`${match.bill_number} does not match ${match.purchase_order_number}`);
+  for (const exception of match.exceptions) {
+    printBullet(exception.message);
+  }
+}
+
+// List purchase orders
+export function showPurchaseOrders(args: string[]): void {
+  const parsed = parseArgs(args);
+  const vendor = parsed.vendor ? getVendor(parsed.vendor) : undefined;
+  if (parsed.vendor && !vendor) {
+    printError(`Vendor not found: ${parsed.vendor}`);
+    return;
+  }
+  const orders = listPurchaseOrders({ status: parsed.status as PurchaseOrderStatus | undefined, vendor_id: vendor?.id });
+
+  if (orders.length === 0) {
+    printDim("No purchase orders found");
+    printDim("Create one with: oa po create --vendor \"Pembekal Jaya\" --description \"Printer toner\" --qty 4 --price 180");
+    return;
+  }
+
+  printTitle("Purchase Orders");
+  console.log();
+  console.log(`  ${"Number".padEnd(10)} ${"Vendor".padEnd(20)} ${"Expected".padEnd(10)} ${"Total".padStart(12)} ${"To bill".padStart(12)}  Status`);
+  for (const order of orders) {
+    console.log(
+      `  ${order.number.padEnd(10)} ${(order.vendor_name || "").slice(0, 20).padEnd(20)} ${(order.expected_date || "").padEnd(10)} ${amount(order.total)} ${amount(order.committed || 0)}  ${STATUS_LABELS[order.status]}`
+    );
+  }
+}
+
+// Create a single-line purchase order
+export function createPurchaseOrderCommand(args: string[]): void {
+  const parsed = parseArgs(args);
+
+  if (!parsed.vendor || (!parsed.item && (!parsed.description || parsed.price === undefined))) {
+    printError("Usage: oa po create --vendor <name> (--item <sku> | --description <text> --price <unit price>) [--qty 1]");
+    printDim("  --account 5200  --tax ST10  --expected YYYY-MM-DD  --date YYYY-MM-DD  --notes text");
+    return;
+  }
+
+  const vendor = getVendor(parsed.vendor) || createVendor({ name: parsed.vendor });
+  const order = createPurchaseOrder({
+    vendor_id: vendor.id,
+    date: parsed.date,
+    expected_date: parsed.expected,
+    items: [{
+      description: parsed.description,
+      quantity: parsed.qty ? parseFloat(parsed.qty) : 1,
+      unit_price: parsed.price !== undefined ? parseFloat(parsed.price) : undefined,
+      account: parsed.account,
+      item: parsed.item,
+      tax_code: parsed.tax,
+    }],
+    notes: parsed.notes,
+  });
+
+  printSuccess(`Created purchase order ${order.number} for ${vendor.name}`);
+  printKeyValue("Total", order.total.toFixed(2));
+  if (order.expected_date) printKeyValue("Expected", order.expected_date);
+  printDim("Nothing is posted until the order is billed");
+}
+
+// Show an order with what has been received and billed per line
+export function showPurchaseOrder(args: string[]): void {
+  const order = requireOrder(args[0], "show <number>");
+  if (!order) return;
+
+  printTitle(`Purchase Order ${order.number}`);
+  printKeyValue("Vendor", order.vendor_name || "");
+  printKeyValue("Date", order.date);
+  if (order.expected_date) printKeyValue("Expected", order.expected_date);
+  printKeyValue("Status", STATUS_LABELS[order.status]);
+  console.log();
+  console.log(`  ${"#".padStart(2)} ${"Description".padEnd(30)} ${"Ordered".padStart(8)} ${"Received".padStart(8)} ${"Billed".padStart(8)} ${"Price".padStart(10)} ${"Amount".padStart(12)}`);
+  (order.items || []).forEach((item, index) => {
+    console.log(
+      `  ${String(index + 1).padStart(2)} ${item.description.slice(0, 30).padEnd(30)} ${String(item.quantity).padStart(8)} ${String(item.quantity_received).padStart(8)} ${String(item.quantity_billed).padStart(8)} ${item.unit_price.toFixed(2).padStart(10)} ${amount(item.amount)}`
+    );
+  });
+  console.log();
+  printKeyValue("Subtotal", order.subtotal.toFixed(2));
+  if (order.tax_amount > 0) printKeyValue("Tax", order.tax_amount.toFixed(2));
+  printKeyValue("Total", order.total.toFixed(2));
+  if (order.committed) printKeyValue("Still to bill", order.committed.toFixed(2));
+  for (const bill of order.bills || []) {
+    printBullet(`${bill.number}  ${bill.total.toFixed(2)}  ${bill.status}`);
+  }
+}
+
+// Turn an order into a draft bill and check it against the order
+export function billPurchaseOrder(args: string[]): void {
+  const order = requireOrder(args[0], "bill <number> [--line n --qty n --price p] [--date] [--due] [--ref]");
+  if (!order) return;
+  const parsed = parseArgs(args.slice(1));
+
+  const { bill, match } = convertPurchaseOrderToBill(order.id, {
+    date: parsed.date,
+    due_date: parsed.due,
+    vendor_reference: parsed.ref,
+    lines: lineArgs(parsed),
+  });
+  printSuccess(`Converted ${order.number} into draft bill ${bill.number}`);
+  printKeyValue("Total", bill.total.toFixed(2));
+  printMatch(match);
+}
+
+// Write the order PDF to disk
+export async function purchaseOrderPdf(args: string[]): Promise<void> {
+  const parsed = parseArgs(args);
+  const order = requireOrder(args[0], "pdf <number> [--out file.pdf]");
+  if (!order) return;
+
+  const file = parsed.out || `${order.number}.pdf`;
+  writeFileSync(file, await generatePurchaseOrderPDF(order.id));
+  printSuccess(`Saved ${file}`);
+}
+
+// Main purchase order command router
+export async function poCommand(args: string[]): Promise<void> {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "list":
+      case "ls":
+        showPurchaseOrders(subArgs);
+        break;
+      case "create":
+      case "new":
+      case "add":
+        createPurchaseOrderCommand(subArgs);
+        break;
+      case "show":
+      case "view":
+        showPurchaseOrder(subArgs);
+        break;
+      case "receive": {
+        const order = requireOrder(subArgs[0], "receive <number> [--line n --qty n]");
+        if (!order) break;
+        const updated = receivePurchaseOrder(order.id, lineArgs(parseArgs(subArgs.slice(1))));
+        printSuccess(`Received goods on ${updated.number} (${STATUS_LABELS[updated.status]})`);
+        break;
+      }
+      case "bill":
+      case "convert":
+        billPurchaseOrder(subArgs);
+        break;
+      case "expense": {
+        const order = requireOrder(subArgs[0], "expense <number> [--date] [--bank <account>]");
+        if (!order) break;
+        const parsed = parseArgs(subArgs.slice(1));
+        const { payments } = convertPurchaseOrderToExpense(order.id, { date: parsed.date, bank_account: parsed.bank });
+        printSuccess(`Paid ${order.number} as ${payments.length} expense(s), ${payments.reduce((sum, p) => sum + p.amount, 0).toFixed(2)} in total`);
+        break;
+      }
+      case "match": {
+        if (!subArgs[0]) {
+          printError("Usage: oa po match <bill number>");
+          break;
+        }
+        printMatch(matchBill(/^\d+$/.test(subArgs[0]) ? parseInt(subArgs[0]) : subArgs[0]));
+        break;
+      }
+      case "exceptions": {
+        const matches = listMatchExceptions();
+        if (matches.length === 0) {
+          printDim("Every bill matches its purchase order");
+          break;
+        }
+        matches.forEach(printMatch);
+        break;
+      }
+      case "close": {
+        const order = requireOrder(subArgs[0], "close <number>");
+        if (!order) break;
+        closePurchaseOrder(order.id);
+        printSuccess(`Purchase order ${order.number} closed`);
+        break;
+      }
+      case "cancel": {
+        const order = requireOrder(subArgs[0], "cancel <number>");
+        if (!order) break;
+        const result = cancelPurchaseOrder(order.id);
+        if (!result.success) {
+          printError(result.error || "Could not cancel purchase order");
+          break;
+        }
+        printSuccess(`Purchase order ${order.number} cancelled`);
+        break;
+      }
+      case "pdf":
+        await purchaseOrderPdf(subArgs);
+        break;
+      default:
+        printError(`Unknown purchase order command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list [--status open] [--vendor] - Purchase orders with what is left to bill");
+        printBullet("create --vendor --description   - Create an order (--item <sku>, --qty, --price, --tax, --expected)");
+        printBullet("show <number>                   - Ordered, received and billed per line");
+        printBullet("receive <number>                - Record goods received (--line n --qty n, default everything)");
+        printBullet("bill <number>                   - Turn the order into a draft bill (--line n --qty n --price p)");
+        printBullet("expense <number>                - Pay the order as an expense instead (--date, --bank)");
+        printBullet("match <bill>                    - Check a bill against its order and receipts");
+        printBullet("exceptions                      - Bills that deviate from their purchase orders");
+        printBullet("close|cancel <number>           - Close an order by hand, or cancel one not yet billed");
+        printBullet("pdf <number> [--out file]       - Save the order as PDF");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
@@ -0,0 +1,219 @@
+import { writeFileSync } from "fs";
+import {
+  createQuote,
+  getQuote,
+  listQuotes,
+  updateQuoteStatus,
+  convertQuoteToInvoice,
+  deleteQuote,
+  type QuoteStatus,
+} from "../../domain/quotes.js";
+import { getCustomer, createCustomer } from "../../domain/customers.js";
+import { generateQuotePDF } from "../../services/pdf.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2).padStart(12);
+}
+
+// Quote ids or numbers (QT-0001)
+function quoteRef(ref: string): number | string {
+  return /^\d+$/.test(ref) ? parseInt(ref) : ref;
+}
+
+// List quotes
+export function listQuotesCommand(args: string[]): void {
+  const parsed = parseArgs(args);
+  const quotes = listQuotes({ status: parsed.status as QuoteStatus | undefined });
+
+  if (quotes.length === 0) {
+    printDim("No quotes found");
+    printDim("Create one with: oa quote create --customer \"Acme\" --amount 1500 --description \"Website design\"");
+    return;
+  }
+
+  printTitle("Quotes");
+  console.log();
+  console.log(`  ${"Number".padEnd(10)} ${"Customer".padEnd(20)} ${"Expires".padEnd(10)} ${"Total".padStart(12)}  Status`);
+  for (const q of quotes) {
+    const status = q.invoice_number ? `${q.status} → ${q.invoice_number}` : q.status;
+    console.log(`  ${q.number.padEnd(10)} ${(q.customer_name || "").slice(0, 20).padEnd(20)} ${q.expiry_date} ${amount(q.total)}  ${status}`);
+  }
+}
+
+// Create a single-line quote
+export function createQuoteCommand(args: string[]): void {
+  const parsed = parseArgs(args);
+  const unitPrice = parseFloat(parsed.amount || "");
+
+  if (!parsed.customer || isNaN(unitPrice)) {
+    printError("Usage: oa quote create --customer <name> --amount <price> [--description text] [--qty 1]");
+    printDim("  --expires YYYY-MM-DD  --tax 6  --classification 022  --tax-type 01  --notes text");
+    return;
+  }
+
+  const customer = getCustomer(parsed.customer) || createCustomer({ name: parsed.customer });
+  const quote = createQuote({
+    customer_id: customer.id,
+    date: parsed.date,
+    expiry_date: parsed.expires,
+    items: [{
+      description: parsed.description || "Services",
+      quantity: parsed.qty ? parseFloat(parsed.qty) : 1,
+      unit_price: unitPrice,
+      classification_code: parsed.classification,
+      tax_type: parsed["tax-type"],
+    }],
+    tax_rate: parsed.tax ? parseFloat(parsed.tax) : undefined,
+    notes: parsed.notes,
+  });
+
+  printSuccess(`Created quote ${quote.number} for ${customer.name}`);
+  printKeyValue("Total", quote.total.toFixed(2));
+  printKeyValue("Valid until", quote.expiry_date);
+}
+
+// Show a quote with its items
+export function showQuoteCommand(args: string[]): void {
+  const quote = args[0] ? getQuote(quoteRef(args[0])) : undefined;
+  if (!quote) {
+    printError("Usage: oa quote show <number>");
+    return;
+  }
+
+  printTitle(`Quote ${quote.number}`);
+  printKeyValue("Customer", quote.customer_name || "");
+  printKeyValue("Date", quote.date);
+  printKeyValue("Valid until", quote.expiry_date);
+  printKeyValue("Status", quote.status);
+  if (quote.invoice_number) {
+    printKeyValue("Invoice", quote.invoice_number);
+  }
+  console.log();
+  for (const item of quote.items || []) {
+    console.log(`  ${item.description.slice(0, 30).padEnd(30)} ${String(item.quantity).padStart(6)} x ${item.unit_price.toFixed(2).padStart(10)} ${amount(item.amount)}`);
+  }
+  console.log();
+  printKeyValue("Subtotal", quote.subtotal.toFixed(2));
+  if (quote.tax_amount > 0) {
+    printKeyValue(`Tax (${quote.tax_rate}%)`, quote.tax_amount.toFixed(2));
+  }
+  printKeyValue("Total", quote.total.toFixed(2));
+}
+
+// Convert a quote into an invoice
+export function convertQuoteCommand(args: string[]): void {
+  const parsed = parseArgs(args);
+  if (!args[0] || args[0].startsWith("--")) {
+    printError("Usage: oa quote convert <number> [--date YYYY-MM-DD] [--due YYYY-MM-DD]");
+    return;
+  }
+
+  const { quote, invoice } = convertQuoteToInvoice(quoteRef(args[0]), { date: parsed.date, due_date: parsed.due });
+  printSuccess(`Converted ${quote.number} into draft invoice ${invoice.number}`);
+  printKeyValue("Total", invoice.total.toFixed(2));
+  printKeyValue("Due", invoice.due_date);
+  printDim("Review it under Invoices and press s to issue it");
+}
+
+// Write the quote PDF to disk
+export async function quotePdfCommand(args: string[]): Promise<void> {
+  const parsed = parseArgs(args);
+  const quote = args[0] ? getQuote(quoteRef(args[0])) : undefined;
+  if (!quote) {
+    printError("Usage: oa quote pdf <number> [--out file.pdf]");
+    return;
+  }
+
+  const file = parsed.out || `${quote.number}.pdf`;
+  writeFileSync(file, await generateQuotePDF(quote.id));
+  printSuccess(`Saved ${file}`);
+}
+
+// Main quote command router
+export async function quoteCommand(args: string[]): Promise<void> {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case "list":
+      case "ls":
+      case undefined:
+        listQuotesCommand(subArgs);
+        break;
+      case "create":
+      case "new":
+      case "add":
+        createQuoteCommand(subArgs);
+        break;
+      case "show":
+      case "view":
+        showQuoteCommand(subArgs);
+        break;
+      case "send":
+      case "accept":
+      case "decline": {
+        const status: QuoteStatus = subcommand === "send" ? "sent" : subcommand === "accept" ? "accepted" : "declined";
+        if (!subArgs[0]) {
+          printError(`Usage: oa quote ${subcommand} <number>`);
+          break;
+        }
+        const quote = updateQuoteStatus(quoteRef(subArgs[0]), status);
+        printSuccess(`Quote ${quote.number} marked as ${status}`);
+        break;
+      }
+      case "convert":
+      case "invoice":
+        convertQuoteCommand(subArgs);
+        break;
+      case "pdf":
+        await quotePdfCommand(subArgs);
+        break;
+      case "delete":
+      case "rm": {
+        const result = subArgs[0] ? deleteQuote(quoteRef(subArgs[0])) : { success: false, error: "Usage: oa quote delete <number>" };
+        if (result.success) {
+          printSuccess(`Deleted quote ${subArgs[0]}`);
+        } else {
+          printError(result.error || "Could not delete quote");
+        }
+        break;
+      }
+      default:
+        printError(`Unknown quote command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list [--status sent]          - Show quotes");
+        printBullet("create --customer --amount    - Create a quote");
+        printBullet("show <number>                 - Quote details");
+        printBullet("send|accept|decline <number>  - Update quote status");
+        printBullet("convert <number>              - Turn a quote into an invoice");
+        printBullet("pdf <number> [--out file]     - Save the quote as PDF");
+        printBullet("delete <number>               - Delete a quote that was not converted");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
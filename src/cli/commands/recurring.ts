@@ -0,0 +1,218 @@
+import {
+  listRecurringSchedules,
+  getRecurringSchedule,
+  createRecurringScheduleFromInvoice,
+  pauseRecurringSchedule,
+  resumeRecurringSchedule,
+  previewRecurringSchedule,
+  runRecurringSchedules,
+  type RecurringFrequency,
+  type RecurringRunSummary,
+  type RecurringSchedule,
+} from "../../domain/recurring.js";
+import {
+  printTitle,
+  printSection,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function describeFrequency(schedule: RecurringSchedule): string {
+  return schedule.interval_count > 1
+    ? `every ${schedule.interval_count} ${schedule.frequency.replace(/ly$/, "")}s`
+    : schedule.frequency;
+}
+
+function scheduleAmount(schedule: RecurringSchedule): number {
+  if (schedule.type === "expense") {
+    return schedule.template.amount;
+  }
+  return schedule.template.items.reduce((s, i) => s + (i.quantity || 1) * i.unit_price, 0);
+}
+
+function parseScheduleId(value: string | undefined): number | null {
+  const id = parseInt(value || "");
+  return isNaN(id) ? null : id;
+}
+
+// Print what a run generated (shared with the startup catch-up)
+export function printRecurringRunSummary(summary: RecurringRunSummary): void {
+  for (const item of summary.generated) {
+    printSuccess(`${item.date}  ${item.schedule_name}  → ${item.entity_type} ${item.reference || `#${item.entity_id}`}`);
+  }
+  for (const item of summary.errors) {
+    printError(`${item.date}  ${item.schedule_name}: ${item.error}`);
+  }
+}
+
+// List schedules
+export function listRecurring(): void {
+  const schedules = listRecurringSchedules();
+
+  if (schedules.length === 0) {
+    printDim("No recurring schedules");
+    printDim("Create one with: oa recurring create --invoice <number> --every monthly");
+    return;
+  }
+
+  printTitle("Recurring Schedules");
+  console.log();
+
+  for (const s of schedules) {
+    const next = s.status === "active" ? s.next_run_date : s.status;
+    console.log(
+      `  #${String(s.id).padEnd(4)} ${s.type.padEnd(8)} ${s.name.slice(0, 28).padEnd(28)} ` +
+      `${describeFrequency(s).padEnd(16)} $${scheduleAmount(s).toFixed(2).padStart(10)}  next: ${next}`
+    );
+  }
+}
+
+// Run due schedules (all, or a single one)
+export function runRecurring(args: string[]): void {
+  const parsed = parseArgs(args);
+  const scheduleId = parseScheduleId(args.find((a) => !a.startsWith("--")));
+
+  const summary = runRecurringSchedules({
+    asOfDate: parsed.date,
+    scheduleId: scheduleId ?? undefined,
+  });
+
+  if (summary.generated.length === 0 && summary.errors.length === 0) {
+    printDim("Nothing due");
+    return;
+  }
+
+  printRecurringRunSummary(summary);
+}
+
+// Show a schedule with its upcoming occurrences
+export function previewRecurring(args: string[]): void {
+  const parsed = parseArgs(args);
+  const id = parseScheduleId(args[0]);
+  const schedule = id ? getRecurringSchedule(id) : undefined;
+
+  if (!schedule) {
+    printError("Usage: oa recurring preview <id> [--count N]");
+    return;
+  }
+
+  const count = parseInt(parsed.count || "5");
+  const dates = previewRecurringSchedule(schedule.id, count);
+
+  printTitle(`#${schedule.id} ${schedule.name}`);
+  printKeyValue("Type", schedule.type);
+  printKeyValue("Frequency", describeFrequency(schedule));
+  printKeyValue("Amount", `$${scheduleAmount(schedule).toFixed(2)}`);
+  printKeyValue("Status", schedule.status);
+  printKeyValue("Generated", String(schedule.occurrences_count));
+  if (schedule.end_date) printKeyValue("Ends", schedule.end_date);
+  if (schedule.max_occurrences) printKeyValue("Max runs", String(schedule.max_occurrences));
+  console.log();
+
+  printSection(`Next ${dates.length} occurrence(s)`);
+  for (const date of dates) {
+    printBullet(date);
+  }
+  if (dates.length === 0) {
+    printDim("  (no further occurrences)");
+  }
+}
+
+// Create a schedule from an existing invoice
+export function createRecurring(args: string[]): void {
+  const parsed = parseArgs(args);
+
+  if (!parsed.invoice) {
+    printError("Missing source invoice");
+    printDim("Usage: oa recurring create --invoice <number> --every <weekly|monthly|quarterly|yearly>");
+    printDim("       [--interval N] [--start YYYY-MM-DD] [--until YYYY-MM-DD] [--times N] [--send]");
+    return;
+  }
+
+  const schedule = createRecurringScheduleFromInvoice(parsed.invoice, {
+    frequency: (parsed.every || "monthly") as RecurringFrequency,
+    interval_count: parsed.interval ? parseInt(parsed.interval) : undefined,
+    anchor_date: parsed.start,
+    end_date: parsed.until,
+    max_occurrences: parsed.times ? parseInt(parsed.times) : undefined,
+    auto_send: parsed.send === "true",
+  });
+
+  printSuccess(`Created recurring schedule #${schedule.id}: ${schedule.name}`);
+  printKeyValue("First run", schedule.next_run_date || "-");
+}
+
+// Main recurring command router
+export function recurringCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case "list":
+      case "ls":
+      case undefined:
+        listRecurring();
+        break;
+      case "run":
+        runRecurring(subArgs);
+        break;
+      case "preview":
+      case "show":
+        previewRecurring(subArgs);
+        break;
+      case "create":
+        createRecurring(subArgs);
+        break;
+      case "pause": {
+        const id = parseScheduleId(subArgs[0]);
+        if (!id) {
+          printError("Usage: oa recurring pause <id>");
+          return;
+        }
+        const schedule = pauseRecurringSchedule(id);
+        printSuccess(`Paused #${schedule.id} ${schedule.name}`);
+        break;
+      }
+      case "resume": {
+        const id = parseScheduleId(subArgs[0]);
+        if (!id) {
+          printError("Usage: oa recurring resume <id> [--catch-up]");
+          return;
+        }
+        const schedule = resumeRecurringSchedule(id, { catchUp: parseArgs(subArgs)["catch-up"] === "true" });
+        printSuccess(`Resumed #${schedule.id} ${schedule.name} (next: ${schedule.next_run_date || "none"})`);
+        break;
+      }
+      default:
+        printError(`Unknown recurring command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list               - List schedules");
+        printBullet("run [id]           - Generate everything due today");
+        printBullet("preview <id>       - Show the next occurrences (--count N)");
+        printBullet("create --invoice   - Repeat an existing invoice");
+        printBullet("pause <id>         - Stop generating");
+        printBullet("resume <id>        - Start again (--catch-up to backfill)");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
@@ -8,6 +8,13 @@ import { setSetting, getSetting } from "../../db/index.js";
 import { createCustomer } from "../../domain/customers.js";
 import { createInvoice } from "../../domain/invoices.js";
 import { recordExpense } from "../../domain/payments.js";
+import {
+  getConversionDate,
+  setConversionDate,
+  enterOpeningBalances,
+  getOpeningBalanceStatus,
+} from "../../domain/opening-balances.js";
+import { importOpeningInvoices, importOpeningBills, readTrialBalance } from "./opening.js";
 
 // Check if this is first run
 export function isFirstRun(): boolean {
@@ -102,8 +109,19 @@ export async function runSetupWizard(): Promise<void> {
     apiKey = keyInput as string;
   }
 
+  // Moving over from another system: opening balances instead of sample data
+  const isConverting = await p.confirm({
+    message: "Are you moving from another accounting system?",
+    initialValue: false,
+  });
+
+  if (p.isCancel(isConverting)) {
+    p.cancel("Setup cancelled");
+    process.exit(0);
+  }
+
   // Sample data
-  const addSampleData = await p.confirm({
+  const addSampleData = isConverting ? false : await p.confirm({
     message: "Add sample data to get started?",
     initialValue: true,
   });
@@ -162,6 +180,10 @@ export async function runSetupWizard(): Promise<void> {
     "Configuration"
   );
 
+  if (isConverting) {
+    await runOpeningBalanceWizard({ embedded: true });
+  }
+
   // Show next steps
   console.log();
   console.log(pc.bold("  Quick Start:"));
@@ -181,6 +203,119 @@ export async function runSetupWizard(): Promise<void> {
   p.outro(pc.green("You're all set! Run 'oa' to start."));
 }
 
+// Ask for a CSV path; empty skips the step
+async function askForFile(message: string, placeholder: string): Promise<string | null> {
+  const path = await p.text({
+    message,
+    placeholder,
+    validate: (value) => {
+      if (value && !existsSync(value)) return `File not found: ${value}`;
+      return undefined;
+    },
+  });
+
+  if (p.isCancel(path)) {
+    p.cancel("Opening balances cancelled");
+    process.exit(0);
+  }
+  return (path as string) || null;
+}
+
+/**
+ * Bring balances over from another system: the conversion date, then unpaid
+ * invoices and bills (so aging and payments work from day one), then the
+ * trial balance. Each step reads a CSV exported from the old system and can
+ * be skipped and done later with "oa opening".
+ */
+export async function runOpeningBalanceWizard(options: { embedded?: boolean } = {}): Promise<void> {
+  if (!options.embedded) {
+    p.intro(pc.bgCyan(pc.black(" Opening Balances ")));
+  }
+
+  // Conversion date, defaulting to the end of last year
+  const lastYearEnd = `${new Date().getFullYear() - 1}-12-31`;
+  const date = await p.text({
+    message: "Conversion date? (balances as at the close of this day)",
+    placeholder: lastYearEnd,
+    initialValue: getConversionDate() || lastYearEnd,
+    validate: (value) => {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return "Use YYYY-MM-DD";
+      return undefined;
+    },
+  });
+
+  if (p.isCancel(date)) {
+    p.cancel("Opening balances cancelled");
+    process.exit(0);
+  }
+
+  try {
+    setConversionDate(date as string);
+  } catch (err) {
+    p.log.error((err as Error).message);
+    return;
+  }
+
+  // Unpaid customer invoices
+  const invoicesFile = await askForFile(
+    "CSV of unpaid customer invoices? (customer, number, date, due_date, amount; leave empty to skip)",
+    "open-invoices.csv"
+  );
+  if (invoicesFile) {
+    try {
+      const result = importOpeningInvoices(invoicesFile);
+      p.log.success(`${result.count} invoice(s) brought over, ${result.total.toFixed(2)} receivable`);
+    } catch (err) {
+      p.log.error((err as Error).message);
+      p.log.info("Nothing was imported from that file. Fix it and run: oa opening import-invoices <file>");
+    }
+  }
+
+  // Unpaid vendor bills
+  const billsFile = await askForFile(
+    "CSV of unpaid vendor bills? (vendor, reference, date, due_date, amount; leave empty to skip)",
+    "open-bills.csv"
+  );
+  if (billsFile) {
+    try {
+      const result = importOpeningBills(billsFile);
+      p.log.success(`${result.count} bill(s) brought over, ${result.total.toFixed(2)} payable`);
+    } catch (err) {
+      p.log.error((err as Error).message);
+      p.log.info("Nothing was imported from that file. Fix it and run: oa opening import-bills <file>");
+    }
+  }
+
+  // Trial balance
+  const trialBalanceFile = await askForFile(
+    "CSV of the trial balance at the conversion date? (account, debit, credit; leave empty to skip)",
+    "trial-balance.csv"
+  );
+  if (trialBalanceFile) {
+    try {
+      const entry = enterOpeningBalances(readTrialBalance(trialBalanceFile));
+      p.log.success(`Opening balances posted on ${entry.date} and locked (entry #${entry.id})`);
+    } catch (err) {
+      p.log.error((err as Error).message);
+      p.log.info("Fix the file and run: oa opening balances <file>");
+    }
+  }
+
+  const status = getOpeningBalanceStatus();
+  p.note(
+    `Conversion date: ${status.conversion_date}\n` +
+    `Open invoices: ${status.invoices} (${status.receivables.toFixed(2)})\n` +
+    `Open bills: ${status.bills} (${status.payables.toFixed(2)})\n` +
+    `Trial balance: ${status.journal_entry_id ? "Posted and locked" : "Not entered"}\n` +
+    `Opening Balance Equity: ${status.equity_balance.toFixed(2)}`,
+    "Opening balances"
+  );
+
+  if (!options.embedded) {
+    p.outro(status.journal_entry_id ? pc.green("Your books are ready to continue.") : "Finish any time with 'oa opening'.");
+  }
+}
+
 // Create sample data for demo
 async function createSampleData(): Promise<void> {
   // Create sample customers
@@ -1,9 +1,14 @@
+import { writeFileSync } from "fs";
 import {
-  getInvoices,
-  getPayments,
-  getExpenses,
-  getCustomers,
-} from "../../core/storage/index.js";
+  getBalanceSheet,
+  getProfitLoss,
+  getReceivablesAging,
+  getPayablesAging,
+  getCashFlow,
+} from "../../domain/reports.js";
+import { getCustomerStatement } from "../../domain/statements.js";
+import { generateStatementPDF } from "../../services/pdf.js";
+import { isEmailConfigured, sendStatementEmail } from "../../services/email.js";
 import {
   printTitle,
   printSection,
@@ -11,6 +16,7 @@ import {
   printDim,
   printBullet,
   printError,
+  printSuccess,
 } from "../ui.js";
 
 // Parse command line arguments
@@ -27,220 +33,269 @@ function parseArgs(args: string[]): Record<string, string> {
   return result;
 }
 
+// --month YYYY-MM as a date range; all time without it
+function monthRange(month?: string): { from: string; to: string; label: string } {
+  if (!month) {
+    return { from: "1900-01-01", to: new Date().toISOString().split("T")[0], label: "All Time" };
+  }
+  const [year, m] = month.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, "0")}`, label: month };
+}
+
 // Balance Sheet
 export function balanceStatement(): void {
-  const payments = getPayments();
-  const invoices = getInvoices();
-
-  // Calculate totals
-  const received = payments.filter((p) => p.type === "received").reduce((s, p) => s + p.amount, 0);
-  const sent = payments.filter((p) => p.type === "sent").reduce((s, p) => s + p.amount, 0);
-  const cashBalance = received - sent;
-
-  const receivables = invoices
-    .filter((i) => i.status !== "paid" && i.status !== "cancelled")
-    .reduce((s, i) => s + i.total, 0);
+  const report = getBalanceSheet();
 
   printTitle("Balance Sheet");
   console.log();
 
   printSection("Assets");
-  printKeyValue("  Cash", `$${cashBalance.toFixed(2)}`);
-  printKeyValue("  Accounts Receivable", `$${receivables.toFixed(2)}`);
+  printKeyValue("  Cash", `$${report.assets.cash.toFixed(2)}`);
+  printKeyValue("  Accounts Receivable", `$${report.assets.receivables.toFixed(2)}`);
+  printKeyValue("  Other", `$${report.assets.other.toFixed(2)}`);
+  console.log();
+  printKeyValue("  Total Assets", `$${report.assets.total.toFixed(2)}`);
+
   console.log();
-  printKeyValue("  Total Assets", `$${(cashBalance + receivables).toFixed(2)}`);
+  printSection("Liabilities");
+  printKeyValue("  Accounts Payable", `$${report.liabilities.payables.toFixed(2)}`);
+  if (report.liabilities.loans.current || report.liabilities.loans.non_current) {
+    printKeyValue("  Loans (current)", `$${report.liabilities.loans.current.toFixed(2)}`);
+    printKeyValue("  Loans (non-current)", `$${report.liabilities.loans.non_current.toFixed(2)}`);
+  }
+  printKeyValue("  Other", `$${report.liabilities.other.toFixed(2)}`);
 
   console.log();
   printSection("Equity");
-  printKeyValue("  Retained Earnings", `$${(cashBalance + receivables).toFixed(2)}`);
+  printKeyValue("  Retained Earnings", `$${report.equity.retained_earnings.toFixed(2)}`);
+  printKeyValue("  Other", `$${report.equity.other.toFixed(2)}`);
 }
 
 // Income Statement (P&L)
 export function incomeStatement(args: string[]): void {
   const parsed = parseArgs(args);
-  const payments = getPayments();
-  const expenses = getExpenses();
-
-  // Filter by month if specified
-  let filteredPayments = payments;
-  let filteredExpenses = expenses;
-  let periodLabel = "All Time";
-
-  if (parsed.month) {
-    filteredPayments = payments.filter((p) => p.date.startsWith(parsed.month));
-    filteredExpenses = expenses.filter((e) => e.date.startsWith(parsed.month));
-    periodLabel = parsed.month;
-  }
+  const period = monthRange(parsed.month);
+  const report = getProfitLoss(period.from, period.to);
 
-  // Calculate income
-  const income = filteredPayments
-    .filter((p) => p.type === "received")
-    .reduce((s, p) => s + p.amount, 0);
-
-  // Calculate expenses by category
-  const expensesByCategory: Record<string, number> = {};
-  for (const expense of filteredExpenses) {
-    const cat = expense.category || "General";
-    expensesByCategory[cat] = (expensesByCategory[cat] || 0) + expense.amount;
-  }
-
-  const totalExpenses = Object.values(expensesByCategory).reduce((s, v) => s + v, 0);
-  const netIncome = income - totalExpenses;
-
-  printTitle(`Income Statement - ${periodLabel}`);
+  printTitle(`Income Statement - ${period.label}`);
   console.log();
 
   printSection("Revenue");
-  printKeyValue("  Sales/Services", `$${income.toFixed(2)}`);
+  for (const item of report.revenue.items) {
+    printKeyValue(`  ${item.name}`, `$${item.amount.toFixed(2)}`);
+  }
+  printKeyValue("  Total Revenue", `$${report.revenue.total.toFixed(2)}`);
   console.log();
 
   printSection("Expenses");
-  const sortedCategories = Object.entries(expensesByCategory).sort((a, b) => b[1] - a[1]);
-  for (const [cat, amount] of sortedCategories) {
-    printKeyValue(`  ${cat}`, `$${amount.toFixed(2)}`);
+  for (const item of report.expenses.items) {
+    printKeyValue(`  ${item.name}`, `$${item.amount.toFixed(2)}`);
   }
-  if (sortedCategories.length === 0) {
+  if (report.expenses.items.length === 0) {
     printDim("  (no expenses)");
   }
   console.log();
-  printKeyValue("  Total Expenses", `$${totalExpenses.toFixed(2)}`);
+  printKeyValue("  Total Expenses", `$${report.expenses.total.toFixed(2)}`);
 
   console.log();
-  const netColor = netIncome >= 0 ? "\x1b[32m" : "\x1b[31m";
-  console.log(`  Net Income:  ${netColor}$${netIncome.toFixed(2)}\x1b[0m`);
+  const netColor = report.net_income >= 0 ? "\x1b[32m" : "\x1b[31m";
+  console.log(`  Net Income:  ${netColor}$${report.net_income.toFixed(2)}\x1b[0m`);
 }
 
 // Accounts Receivable Aging
 export function receivablesStatement(): void {
-  const invoices = getInvoices();
-  const customers = getCustomers();
+  const report = getReceivablesAging();
 
-  const unpaid = invoices.filter((i) => i.status !== "paid" && i.status !== "cancelled");
-
-  if (unpaid.length === 0) {
+  if (report.totals.total === 0) {
     printDim("No outstanding receivables");
     return;
   }
 
-  const today = new Date();
-
-  // Categorize by aging
-  const current: typeof unpaid = [];
-  const days30: typeof unpaid = [];
-  const days60: typeof unpaid = [];
-  const days90plus: typeof unpaid = [];
-
-  for (const inv of unpaid) {
-    const dueDate = new Date(inv.dueDate);
-    const daysOverdue = Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
-
-    if (daysOverdue <= 0) {
-      current.push(inv);
-    } else if (daysOverdue <= 30) {
-      days30.push(inv);
-    } else if (daysOverdue <= 60) {
-      days60.push(inv);
-    } else {
-      days90plus.push(inv);
-    }
-  }
-
   printTitle("Accounts Receivable Aging");
   console.log();
 
-  const printAging = (label: string, items: typeof unpaid) => {
+  const printAging = (label: string, items: typeof report.current, total: number) => {
     if (items.length === 0) return;
-    const total = items.reduce((s, i) => s + i.total, 0);
     printSection(`${label} ($${total.toFixed(2)})`);
     for (const inv of items) {
-      console.log(`  ${inv.number}  ${inv.customerName.padEnd(20)}  $${inv.total.toFixed(2)}`);
+      console.log(`  ${inv.invoice}  ${inv.customer.padEnd(20)}  $${inv.amount.toFixed(2)}  due ${inv.due_date}`);
     }
     console.log();
   };
 
-  printAging("Current", current);
-  printAging("1-30 Days", days30);
-  printAging("31-60 Days", days60);
-  printAging("90+ Days", days90plus);
+  printAging("Current", report.current, report.totals.current);
+  printAging("1-30 Days", report.days_1_30, report.totals.days_1_30);
+  printAging("31-60 Days", report.days_31_60, report.totals.days_31_60);
+  printAging("61-90 Days", report.days_61_90, report.totals.days_61_90);
+  printAging("90+ Days", report.days_90_plus, report.totals.days_90_plus);
 
-  const total = unpaid.reduce((s, i) => s + i.total, 0);
-  printKeyValue("Total Receivables", `$${total.toFixed(2)}`);
+  printKeyValue("Total Receivables", `$${report.totals.total.toFixed(2)}`);
 }
 
-// Accounts Payable (future - based on bills)
+// Accounts Payable Aging (based on approved vendor bills)
 export function payablesStatement(): void {
-  printDim("Accounts payable tracking coming soon");
-  printDim("Currently tracking expenses only");
+  const report = getPayablesAging();
+
+  if (report.totals.total === 0) {
+    printDim("No outstanding payables");
+    return;
+  }
+
+  printTitle("Accounts Payable Aging");
+  console.log();
+
+  const printAging = (label: string, items: typeof report.current, total: number) => {
+    if (items.length === 0) return;
+    printSection(`${label} ($${total.toFixed(2)})`);
+    for (const bill of items) {
+      console.log(`  ${bill.bill}  ${bill.vendor.padEnd(20)}  $${bill.amount.toFixed(2)}  due ${bill.due_date}`);
+    }
+    console.log();
+  };
+
+  printAging("Current", report.current, report.totals.current);
+  printAging("1-30 Days", report.days_1_30, report.totals.days_1_30);
+  printAging("31-60 Days", report.days_31_60, report.totals.days_31_60);
+  printAging("61-90 Days", report.days_61_90, report.totals.days_61_90);
+  printAging("90+ Days", report.days_90_plus, report.totals.days_90_plus);
+
+  printKeyValue("Total Payables", `$${report.totals.total.toFixed(2)}`);
 }
 
 // Cash Flow Statement
 export function cashFlowStatement(args: string[]): void {
   const parsed = parseArgs(args);
-  const payments = getPayments();
+  const period = monthRange(parsed.month);
+  const report = getCashFlow(period.from, period.to);
 
-  // Filter by month if specified
-  let filtered = payments;
-  let periodLabel = "All Time";
+  printTitle(`Cash Flow - ${period.label}`);
+  console.log();
 
-  if (parsed.month) {
-    filtered = payments.filter((p) => p.date.startsWith(parsed.month));
-    periodLabel = parsed.month;
+  printSection("Cash Inflows");
+  for (const item of report.inflows.items) {
+    printKeyValue(`  ${item.description}`, `$${item.amount.toFixed(2)}`);
   }
+  printKeyValue("  Total Inflows", `$${report.inflows.total.toFixed(2)}`);
+  console.log();
 
-  // Group by week/day
-  const received = filtered.filter((p) => p.type === "received").reduce((s, p) => s + p.amount, 0);
-  const sent = filtered.filter((p) => p.type === "sent").reduce((s, p) => s + p.amount, 0);
-  const netCash = received - sent;
-
-  printTitle(`Cash Flow - ${periodLabel}`);
+  printSection("Cash Outflows");
+  for (const item of report.outflows.items) {
+    printKeyValue(`  ${item.description}`, `$${item.amount.toFixed(2)}`);
+  }
+  printKeyValue("  Total Outflows", `$${report.outflows.total.toFixed(2)}`);
   console.log();
 
-  printSection("Cash Inflows");
-  printKeyValue("  Customer Payments", `$${received.toFixed(2)}`);
+  const netColor = report.net_change >= 0 ? "\x1b[32m" : "\x1b[31m";
+  console.log(`  Net Cash Flow:  ${netColor}$${report.net_change.toFixed(2)}\x1b[0m`);
+}
+
+// Customer statement of account
+export async function customerStatement(args: string[]): Promise<void> {
+  const parsed = parseArgs(args);
+  const name = args.filter((a, i) => !a.startsWith("--") && (i === 0 || !args[i - 1].startsWith("--"))).join(" ");
+  if (!name) {
+    printError("Usage: oa statement customer <name> [--from 2025-01-01] [--to 2025-03-31] [--currency USD] [--pdf [file]] [--email]");
+    return;
+  }
+
+  const options = { from_date: parsed.from, to_date: parsed.to, currency_code: parsed.currency };
+  const statement = getCustomerStatement(name, options);
+  const money = (n: number) => n.toFixed(2).padStart(12);
+
+  printTitle(`Statement - ${statement.customer.name}`);
+  printDim(`${statement.from_date} to ${statement.to_date} (${statement.currency_code})`);
   console.log();
 
-  printSection("Cash Outflows");
-  printKeyValue("  Expenses/Payments", `$${sent.toFixed(2)}`);
+  console.log(`  ${"Date".padEnd(10)}  ${"Reference".padEnd(12)}  ${"Description".padEnd(28)}  ${"Debit".padStart(12)}  ${"Credit".padStart(12)}  ${"Balance".padStart(12)}`);
+  console.log(`  ${statement.from_date}  ${"".padEnd(12)}  ${"Opening balance".padEnd(28)}  ${"".padStart(12)}  ${"".padStart(12)}  ${money(statement.opening_balance)}`);
+  for (const line of statement.lines) {
+    console.log(
+      `  ${line.date}  ${line.reference.slice(0, 12).padEnd(12)}  ${line.description.slice(0, 28).padEnd(28)}  ` +
+      `${line.debit ? money(line.debit) : "".padStart(12)}  ${line.credit ? money(line.credit) : "".padStart(12)}  ${money(line.balance)}`
+    );
+  }
+  console.log();
+  printKeyValue("Balance Due", `$${statement.closing_balance.toFixed(2)}`);
   console.log();
 
-  const netColor = netCash >= 0 ? "\x1b[32m" : "\x1b[31m";
-  console.log(`  Net Cash Flow:  ${netColor}$${netCash.toFixed(2)}\x1b[0m`);
+  const aging = statement.aging;
+  printSection("Aging");
+  console.log(`  Current ${aging.current.toFixed(2)}  •  1-30 ${aging.days_1_30.toFixed(2)}  •  31-60 ${aging.days_31_60.toFixed(2)}  •  61-90 ${aging.days_61_90.toFixed(2)}  •  90+ ${aging.days_90_plus.toFixed(2)}`);
+  if (aging.unapplied_credits) {
+    console.log(`  Unapplied credit ${(-aging.unapplied_credits).toFixed(2)}`);
+  }
+
+  if (parsed.pdf || parsed.email) {
+    const pdf = await generateStatementPDF(statement.customer.id, options);
+    if (parsed.pdf) {
+      const file = parsed.pdf === "true" ? `statement-${statement.customer.name.replace(/[^\w-]+/g, "_")}-${statement.to_date}.pdf` : parsed.pdf;
+      writeFileSync(file, pdf);
+      printSuccess(`Saved ${file}`);
+    }
+    if (parsed.email) {
+      const to = parsed.email === "true" ? statement.customer.email : parsed.email;
+      if (!to) {
+        printError(`${statement.customer.name} has no email address (use --email address@example.com)`);
+        return;
+      }
+      if (!isEmailConfigured()) {
+        printError("Email not configured. Set resend_api_key and from_email.");
+        return;
+      }
+      const result = await sendStatementEmail(to, statement.customer.name, statement.to_date, statement.closing_balance, pdf);
+      if (result.success) {
+        printSuccess(`Statement emailed to ${to}`);
+      } else {
+        printError(`Email failed: ${result.error}`);
+      }
+    }
+  }
 }
 
 // Main statement command router
-export function statementCommand(args: string[]): void {
+export async function statementCommand(args: string[]): Promise<void> {
   const subcommand = args[0];
   const subArgs = args.slice(1);
 
-  switch (subcommand) {
-    case "balance":
-      balanceStatement();
-      break;
-    case "income":
-      incomeStatement(subArgs);
-      break;
-    case "receivables":
-    case "ar":
-      receivablesStatement();
-      break;
-    case "payables":
-    case "ap":
-      payablesStatement();
-      break;
-    case "cashflow":
-    case "cash":
-      cashFlowStatement(subArgs);
-      break;
-    default:
-      printError(`Unknown statement: ${subcommand || "(none)"}`);
-      console.log();
-      printDim("Available statements:");
-      printBullet("balance     - Balance sheet");
-      printBullet("income      - Income statement (P&L)");
-      printBullet("receivables - Accounts receivable aging");
-      printBullet("payables    - Accounts payable");
-      printBullet("cashflow    - Cash flow statement");
-      console.log();
-      printDim("Options: --month <YYYY-MM>");
+  try {
+    switch (subcommand) {
+      case "balance":
+        balanceStatement();
+        break;
+      case "income":
+        incomeStatement(subArgs);
+        break;
+      case "receivables":
+      case "ar":
+        receivablesStatement();
+        break;
+      case "payables":
+      case "ap":
+        payablesStatement();
+        break;
+      case "cashflow":
+      case "cash":
+        cashFlowStatement(subArgs);
+        break;
+      case "customer":
+      case "cust":
+        await customerStatement(subArgs);
+        break;
+      default:
+        printError(`Unknown statement: ${subcommand || "(none)"}`);
+        console.log();
+        printDim("Available statements:");
+        printBullet("balance     - Balance sheet");
+        printBullet("income      - Income statement (P&L)");
+        printBullet("receivables - Accounts receivable aging");
+        printBullet("payables    - Accounts payable aging");
+        printBullet("cashflow    - Cash flow statement");
+        printBullet("customer    - Statement of account for a customer (--from, --to, --pdf, --email)");
+        console.log();
+        printDim("Options: --month <YYYY-MM>");
+    }
+  } catch (err) {
+    printError((err as Error).message);
   }
 }
@@ -0,0 +1,233 @@
+import {
+  logTime,
+  startTimer,
+  stopTimer,
+  getRunningTimer,
+  listTimeEntries,
+  deleteTimeEntry,
+  getUnbilledTime,
+  billUnbilledTime,
+  type TimeEntry,
+} from "../../domain/time-entries.js";
+import { getCustomer, type Customer } from "../../domain/customers.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2).padStart(12);
+}
+
+function requireCustomer(name: string | undefined, usage: string): Customer | undefined {
+  if (!name || name === "true") {
+    printError(`Usage: oa time ${usage}`);
+    return undefined;
+  }
+  const customer = getCustomer(name);
+  if (!customer) {
+    printError(`Customer not found: ${name}`);
+  }
+  return customer;
+}
+
+// Fields shared by log and start
+function entryFields(parsed: Record<string, string>) {
+  return {
+    rate: parsed.rate !== undefined ? parseFloat(parsed.rate) : undefined,
+    description: parsed.description,
+    project: parsed.project,
+    billable: parsed["non-billable"] !== "true",
+  };
+}
+
+function entryLine(entry: TimeEntry): string {
+  const hours = entry.hours === null ? "running" : entry.hours.toFixed(2);
+  const status = entry.invoice_number || (entry.is_billable ? "" : "non-billable");
+  return `  ${String(entry.id).padEnd(5)} ${entry.date} ${(entry.customer_name || "").slice(0, 18).padEnd(18)} ${(entry.project_name || "").slice(0, 12).padEnd(12)} ${hours.padStart(7)} ${amount(entry.amount)}  ${(entry.description || "").slice(0, 28).padEnd(28)} ${status}`;
+}
+
+// Time entries, newest first
+export function showTimeEntries(args: string[]): void {
+  const parsed = parseArgs(args);
+  const customer = parsed.customer ? getCustomer(parsed.customer) : undefined;
+  if (parsed.customer && !customer) {
+    printError(`Customer not found: ${parsed.customer}`);
+    return;
+  }
+
+  const entries = listTimeEntries({
+    customer_id: customer?.id,
+    status: parsed.unbilled === "true" ? "unbilled" : parsed.billed === "true" ? "billed" : undefined,
+    from_date: parsed.from,
+    to_date: parsed.to,
+    limit: parsed.all === "true" ? undefined : 50,
+  });
+
+  if (entries.length === 0) {
+    printDim("No time entries");
+    printDim("Log some with: oa time log --customer \"Acme\" --hours 2.5 --rate 350 --description \"Design review\"");
+    return;
+  }
+
+  printTitle("Time");
+  console.log();
+  console.log(`  ${"#".padEnd(5)} ${"Date".padEnd(10)} ${"Customer".padEnd(18)} ${"Project".padEnd(12)} ${"Hours".padStart(7)} ${"Amount".padStart(12)}  Description`);
+  for (const entry of entries) {
+    console.log(entryLine(entry));
+  }
+}
+
+export function logTimeCommand(args: string[]): void {
+  const parsed = parseArgs(args);
+  const customer = requireCustomer(parsed.customer, "log --customer <name> --hours <n> [--rate] [--date] [--project] [--description] [--non-billable]");
+  if (!customer) return;
+  if (!parsed.hours) {
+    printError("Missing required: --hours");
+    return;
+  }
+
+  const entry = logTime({ customer_id: customer.id, date: parsed.date, hours: parseFloat(parsed.hours), ...entryFields(parsed) });
+  printSuccess(`Logged ${entry.hours!.toFixed(2)}h for ${customer.name} on ${entry.date}`);
+  printDim(`${entry.rate.toFixed(2)}/h = ${entry.amount.toFixed(2)}${entry.is_billable ? "" : " (non-billable)"}`);
+}
+
+export function startTimerCommand(args: string[]): void {
+  const parsed = parseArgs(args);
+  const customer = requireCustomer(parsed.customer, "start --customer <name> [--description] [--project] [--rate] [--non-billable]");
+  if (!customer) return;
+
+  startTimer({ customer_id: customer.id, ...entryFields(parsed) });
+  printSuccess(`Timer started for ${customer.name}`);
+  printDim("Stop it with: oa time stop");
+}
+
+// Unbilled hours per customer
+export function showWip(args: string[]): void {
+  const parsed = parseArgs(args);
+  const wip = getUnbilledTime(parsed.date);
+
+  if (wip.customers.length === 0) {
+    printDim("No unbilled time");
+    return;
+  }
+
+  printTitle("Unbilled Time (WIP)");
+  console.log();
+  console.log(`  ${"Customer".padEnd(24)} ${"Entries".padStart(7)} ${"Hours".padStart(8)} ${"Amount".padStart(12)}  Oldest`);
+  for (const row of wip.customers) {
+    console.log(
+      `  ${row.customer_name.slice(0, 24).padEnd(24)} ${String(row.entries).padStart(7)} ${row.hours.toFixed(2).padStart(8)} ${amount(row.amount)}  ${row.oldest_date}`
+    );
+  }
+  console.log();
+  printKeyValue("Total", `${wip.hours.toFixed(2)}h, ${wip.amount.toFixed(2)}`);
+}
+
+export function billTimeCommand(args: string[]): void {
+  const parsed = parseArgs(args);
+  const customer = requireCustomer(parsed.customer, "bill --customer <name> [--through YYYY-MM-DD] [--date] [--by entry]");
+  if (!customer) return;
+
+  const { invoice, entries } = billUnbilledTime(customer.id, {
+    through: parsed.through,
+    date: parsed.date,
+    group_by: parsed.by === "entry" ? "entry" : "project",
+  });
+  printSuccess(`Billed ${entries.length} time entries to draft invoice ${invoice.number}`);
+  printKeyValue("Total", invoice.total.toFixed(2));
+  printDim("Review it under Invoices and press s to issue it");
+}
+
+// Main time command router
+export function timeCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "list":
+      case "ls":
+        showTimeEntries(subArgs);
+        break;
+      case "log":
+      case "add":
+        logTimeCommand(subArgs);
+        break;
+      case "start":
+        startTimerCommand(subArgs);
+        break;
+      case "stop": {
+        const entry = stopTimer();
+        printSuccess(`Stopped: ${entry.hours!.toFixed(2)}h for ${entry.customer_name} (${entry.amount.toFixed(2)})`);
+        break;
+      }
+      case "status": {
+        const running = getRunningTimer();
+        if (!running) {
+          printDim("No timer running");
+          break;
+        }
+        const minutes = Math.round((Date.now() - new Date(running.started_at!).getTime()) / 60000);
+        printKeyValue("Running", `${running.customer_name}${running.description ? ` - ${running.description}` : ""}`);
+        printKeyValue("Elapsed", `${Math.floor(minutes / 60)}h ${minutes % 60}m`);
+        break;
+      }
+      case "wip":
+        showWip(subArgs);
+        break;
+      case "bill":
+      case "invoice":
+        billTimeCommand(subArgs);
+        break;
+      case "delete":
+      case "rm": {
+        const id = parseInt(subArgs[0] || "", 10);
+        if (isNaN(id)) {
+          printError("Usage: oa time rm <id>");
+          break;
+        }
+        const result = deleteTimeEntry(id);
+        if (!result.success) {
+          printError(result.error || "Could not delete time entry");
+          break;
+        }
+        printSuccess(`Time entry ${id} deleted`);
+        break;
+      }
+      default:
+        printError(`Unknown time command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list                  - Time entries (--customer, --unbilled, --billed, --from, --to, --all)");
+        printBullet("log --customer --hours - Record hours worked (--rate, --date, --project, --description, --non-billable)");
+        printBullet("start --customer      - Start a timer (--description, --project, --rate)");
+        printBullet("stop                  - Stop the running timer and record its hours");
+        printBullet("status                - Show the running timer");
+        printBullet("wip                   - Unbilled hours and their value per customer");
+        printBullet("bill --customer       - Put unbilled hours on a draft invoice (--through, --by entry)");
+        printBullet("rm <id>               - Delete an entry that has not been billed");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  listTrackingDimensions,
+  createTrackingDimension,
+  createTrackingValue,
+  resolveTrackingRefs,
+  archiveTrackingValue,
+  deleteTrackingValue,
+} from "../../domain/tracking.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+// List dimensions and their values
+export function listTracking(args: string[]): void {
+  const parsed = parseArgs(args);
+  const dimensions = listTrackingDimensions({ include_inactive: parsed.all === "true", with_values: true });
+
+  if (dimensions.length === 0) {
+    printDim("No tracking dimensions yet");
+    printDim("Add one with: oa tracking add Project Website");
+    return;
+  }
+
+  printTitle("Tracking");
+  console.log();
+
+  for (const dimension of dimensions) {
+    console.log(`  ${dimension.name}`);
+    if (!dimension.values || dimension.values.length === 0) {
+      printDim("      (no values)");
+    }
+    for (const value of dimension.values || []) {
+      console.log(`      ${String(value.id).padStart(4)}  ${value.name}${value.is_active ? "" : "  (archived)"}`);
+    }
+  }
+}
+
+// Add a dimension, or a value to a dimension (creating the dimension if needed)
+export function addTracking(args: string[]): void {
+  const [dimensionName, ...valueWords] = args.filter((a) => !a.startsWith("--"));
+  if (!dimensionName) {
+    printError("Usage: oa tracking add <dimension> [value]");
+    return;
+  }
+
+  const existing = listTrackingDimensions({ include_inactive: true })
+    .find((d) => d.name.toLowerCase() === dimensionName.toLowerCase());
+  if (!existing) {
+    const dimension = createTrackingDimension(dimensionName);
+    printSuccess(`Created dimension ${dimension.name}`);
+  }
+
+  if (valueWords.length > 0) {
+    const value = createTrackingValue(dimensionName, valueWords.join(" "));
+    printSuccess(`Added ${value.dimension_name}: ${value.name} (#${value.id})`);
+  }
+}
+
+// Archive or delete a value given as Dimension:Value
+function changeValue(action: "archive" | "delete", args: string[]): void {
+  const ref = args.join(" ").trim();
+  if (!ref) {
+    printError(`Usage: oa tracking ${action} <Dimension:Value>`);
+    return;
+  }
+
+  const [id] = resolveTrackingRefs([ref]);
+  const result = action === "archive" ? archiveTrackingValue(id) : deleteTrackingValue(id);
+  if (!result.success) {
+    printError(result.error || `Could not ${action} ${ref}`);
+    return;
+  }
+  printSuccess(action === "archive" ? `Archived ${ref}` : `Deleted ${ref}`);
+}
+
+// Main tracking command router
+export function trackingCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case "list":
+      case "ls":
+      case undefined:
+        listTracking(subArgs);
+        break;
+      case "add":
+        addTracking(subArgs);
+        break;
+      case "archive":
+        changeValue("archive", subArgs);
+        break;
+      case "delete":
+      case "rm":
+        changeValue("delete", subArgs);
+        break;
+      default:
+        printError(`Unknown tracking command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("list [--all]             - Show dimensions and values");
+        printBullet("add <dimension> [value]  - Add a dimension or a value");
+        printBullet("archive <Dim:Value>      - Stop using a value (history kept)");
+        printBullet("delete <Dim:Value>       - Remove a value that was never used");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  listWhtCategories,
+  listWhtDeductions,
+  getWhtTracker,
+  remitWht,
+  listWhtRemittances,
+  getWhtSummary,
+  type WhtDeduction,
+} from "../../domain/withholding-tax.js";
+import { getVendor, updateVendor } from "../../domain/vendors.js";
+import {
+  printTitle,
+  printSuccess,
+  printError,
+  printKeyValue,
+  printDim,
+  printBullet,
+} from "../ui.js";
+
+// Parse command line arguments
+function parseArgs(args: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      const key = args[i].slice(2);
+      const value = args[i + 1] && !args[i + 1].startsWith("--") ? args[i + 1] : "true";
+      result[key] = value;
+      if (value !== "true") i++;
+    }
+  }
+  return result;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2).padStart(12);
+}
+
+function deductionLine(d: WhtDeduction): string {
+  return `  ${String(d.id).padEnd(5)} ${d.date} ${d.vendor_name!.slice(0, 22).padEnd(22)} ${d.form.padEnd(6)} ${`${d.rate}%`.padStart(6)} ${amount(d.gross_amount)} ${amount(d.wht_amount)}  ${d.remitted_date ? `remitted ${d.remitted_date}` : `due ${d.due_date}`}`;
+}
+
+function deductionHeader(): void {
+  console.log(`  ${"#".padEnd(5)} ${"Date".padEnd(10)} ${"Vendor".padEnd(22)} ${"Form".padEnd(6)} ${"Rate".padStart(6)} ${"Gross".padStart(12)} ${"Withheld".padStart(12)}`);
+}
+
+// Withholding tax categories and their rates
+export function showCategories(): void {
+  printTitle("Withholding Tax Categories");
+  console.log();
+  console.log(`  ${"Code".padEnd(10)} ${"Section".padEnd(8)} ${"Form".padEnd(6)} ${"Rate".padStart(5)}  Description`);
+  for (const c of listWhtCategories()) {
+    console.log(`  ${c.code.padEnd(10)} ${c.section.padEnd(8)} ${c.form.padEnd(6)} ${`${c.rate}%`.padStart(5)}  ${c.name}`);
+  }
+}
+
+// Flag a vendor as non-resident with a category, or as resident again
+export function setVendorWht(args: string[]): void {
+  const name = args.find((a) => !a.startsWith("--"));
+  const parsed = parseArgs(args);
+  if (!name) {
+    printError("Usage: oa wht vendor <name> --category <code> [--rate <treaty %>] | --resident");
+    return;
+  }
+  const vendor = getVendor(name);
+  if (!vendor) {
+    printError(`Vendor not found: ${name}`);
+    return;
+  }
+
+  if (parsed.resident === "true") {
+    updateVendor(vendor.id, { is_non_resident: 0, wht_category: "", wht_rate: null });
+    printSuccess(`${vendor.name} is resident; no tax will be withheld`);
+    return;
+  }
+  if (!parsed.category) {
+    printError("Missing required: --category (see oa wht categories)");
+    return;
+  }
+
+  const updated = updateVendor(vendor.id, {
+    is_non_resident: 1,
+    wht_category: parsed.category,
+    wht_rate: parsed.rate !== undefined ? parseFloat(parsed.rate) : null,
+  })!;
+  const category = listWhtCategories().find((c) => c.code === updated.wht_category)!;
+  printSuccess(`${vendor.name} is non-resident: ${category.name}`);
+  printDim(`Withholding ${updated.wht_rate ?? category.rate}% under s${category.section}, remitted on ${category.form}`);
+}
+
+// Tax withheld, with its due date or remittance
+export function showDeductions(args: string[]): void {
+  const parsed = parseArgs(args);
+  const vendor = parsed.vendor ? getVendor(parsed.vendor) : undefined;
+  if (parsed.vendor && !vendor) {
+    printError(`Vendor not found: ${parsed.vendor}`);
+    return;
+  }
+
+  const deductions = listWhtDeductions({
+    status: parsed.outstanding === "true" ? "outstanding" : parsed.remitted === "true" ? "remitted" : undefined,
+    vendor_id: vendor?.id,
+    form: parsed.form,
+    from_date: parsed.from,
+    to_date: parsed.to,
+  });
+  if (deductions.length === 0) {
+    printDim("No withholding tax deductions");
+    printDim("Flag a foreign vendor with: oa wht vendor \"Vendor\" --category royalty");
+    return;
+  }
+
+  printTitle("Withholding Tax");
+  console.log();
+  deductionHeader();
+  for (const d of deductions) {
+    console.log(deductionLine(d));
+  }
+}
+
+// Outstanding tax by form and how long is left to remit it
+export function showTracker(args: string[]): void {
+  const parsed = parseArgs(args);
+  const tracker = getWhtTracker(parsed.date);
+  if (tracker.outstanding.length === 0) {
+    printDim("No withholding tax outstanding");
+    return;
+  }
+
+  printTitle(`Withholding Tax Due (as of ${tracker.as_of})`);
+  console.log();
+  for (const row of tracker.by_form) {
+    const overdue = row.overdue > 0 ? `  OVERDUE ${row.overdue.toFixed(2)}` : "";
+    console.log(`  ${row.form.padEnd(6)} ${amount(row.amount)}  earliest due ${row.earliest_due}${overdue}`);
+  }
+  console.log();
+  deductionHeader();
+  for (const d of tracker.outstanding) {
+    const days = d.days_left < 0 ? `${-d.days_left}d overdue` : `${d.days_left}d left`;
+    console.log(`${deductionLine(d)} (${days})`);
+  }
+  console.log();
+  printKeyValue("Outstanding", tracker.total.toFixed(2));
+  if (tracker.overdue > 0) {
+    printError(`Overdue: ${tracker.overdue.toFixed(2)} - LHDN imposes a 10% penalty on late remittance`);
+  }
+}
+
+export function remitCommand(args: string[]): void {
+  const parsed = parseArgs(args);
+  const remittance = remitWht({
+    form: parsed.form,
+    through: parsed.through,
+    date: parsed.date,
+    bank_account: parsed.from,
+    reference: parsed.reference,
+  });
+  printSuccess(`Remitted ${remittance.amount.toFixed(2)} on ${remittance.form} (${remittance.deductions} deductions)`);
+  printKeyValue("Reference", remittance.reference || "");
+}
+
+export function showRemittances(): void {
+  const remittances = listWhtRemittances();
+  if (remittances.length === 0) {
+    printDim("No remittances yet");
+    return;
+  }
+  printTitle("Withholding Tax Remittances");
+  console.log();
+  for (const r of remittances) {
+    console.log(`  ${r.date} ${r.form.padEnd(6)} ${amount(r.amount)}  ${String(r.deductions).padStart(3)} deductions  ${r.reference || ""}`);
+  }
+}
+
+// CP37-style summary of tax withheld in a period, per form
+export function showSummary(args: string[]): void {
+  const parsed = parseArgs(args);
+  const month = new Date().toISOString().slice(0, 7);
+  const from = parsed.from || `${month}-01`;
+  const to = parsed.to || new Date().toISOString().split("T")[0];
+  const summary = getWhtSummary(from, to);
+
+  printTitle(`Withholding Tax Summary ${from} to ${to}`);
+  if (summary.forms.length === 0) {
+    printDim("No tax withheld in this period");
+    return;
+  }
+  for (const form of summary.forms) {
+    console.log();
+    console.log(`  ${form.form}`);
+    console.log(`  ${"Payee".padEnd(22)} ${"Tax ID".padEnd(14)} ${"Paid".padEnd(10)} ${"Sec".padEnd(5)} ${"Rate".padStart(6)} ${"Gross".padStart(12)} ${"Withheld".padStart(12)}  Remitted`);
+    for (const d of form.deductions) {
+      console.log(
+        `  ${d.vendor_name!.slice(0, 22).padEnd(22)} ${(d.vendor_tax_id || "").slice(0, 14).padEnd(14)} ${d.date} ${d.section.padEnd(5)} ${`${d.rate}%`.padStart(6)} ${amount(d.gross_amount)} ${amount(d.wht_amount)}  ${d.remitted_date ? `${d.remitted_date} ${d.remittance_reference || ""}` : "-"}`
+      );
+    }
+    console.log(`  ${"Total".padEnd(61)} ${amount(form.gross)} ${amount(form.wht)}`);
+  }
+  console.log();
+  printKeyValue("Withheld", summary.wht.toFixed(2));
+  printKeyValue("Remitted", summary.remitted.toFixed(2));
+  printKeyValue("Outstanding", summary.outstanding.toFixed(2));
+}
+
+// Main withholding tax command router
+export function whtCommand(args: string[]): void {
+  const subcommand = args[0];
+  const subArgs = args.slice(1);
+
+  try {
+    switch (subcommand) {
+      case undefined:
+      case "due":
+      case "tracker":
+        showTracker(subArgs);
+        break;
+      case "list":
+      case "ls":
+        showDeductions(subArgs);
+        break;
+      case "categories":
+        showCategories();
+        break;
+      case "vendor":
+        setVendorWht(subArgs);
+        break;
+      case "remit":
+        remitCommand(subArgs);
+        break;
+      case "remittances":
+        showRemittances();
+        break;
+      case "report":
+      case "summary":
+        showSummary(subArgs);
+        break;
+      default:
+        printError(`Unknown wht command: ${subcommand}`);
+        console.log();
+        printDim("Available commands:");
+        printBullet("due                   - Outstanding tax by form with days left to remit (--date)");
+        printBullet("list                  - Tax withheld (--vendor, --form, --outstanding, --remitted, --from, --to)");
+        printBullet("categories            - Categories, sections, forms and rates");
+        printBullet("vendor <name> --category - Flag a non-resident vendor (--rate treaty %, --resident to clear)");
+        printBullet("remit                 - Pay outstanding tax to LHDN (--form, --through, --date, --from bank, --reference)");
+        printBullet("remittances           - Remittances made");
+        printBullet("report                - CP37-style summary per form (--from, --to)");
+    }
+  } catch (err) {
+    printError((err as Error).message);
+  }
+}
@@ -21,9 +21,12 @@ import {
   getBalanceSheet,
   getProfitLoss,
   getReceivablesAging,
+  getPayablesAging,
   getCashFlow,
   getExpensesByCategory,
+  getBudgetVsActual,
 } from "../domain/reports.js";
+import { getTrackingDimension, resolveTrackingRefs } from "../domain/tracking.js";
 import {
   exportInvoices,
   exportJournalEntries,
@@ -52,6 +55,30 @@ import {
 } from "./ui-components.js";
 import { startSession } from "./session.js";
 import { isFirstRun, runSetupWizard, quickInit } from "./commands/setup.js";
+import { recurringCommand, printRecurringRunSummary } from "./commands/recurring.js";
+import { fxCommand } from "./commands/fx.js";
+import { periodCommand } from "./commands/period.js";
+import { budgetCommand } from "./commands/budget.js";
+import { trackingCommand } from "./commands/tracking.js";
+import { assetCommand } from "./commands/asset.js";
+import { amortizeCommand, printAmortizationRun } from "./commands/amortize.js";
+import { quoteCommand } from "./commands/quote.js";
+import { creditCommand } from "./commands/credit.js";
+import { badDebtCommand } from "./commands/baddebt.js";
+import { statementCommand } from "./commands/statement.js";
+import { dunningCommand } from "./commands/dunning.js";
+import { employeeCommand } from "./commands/employee.js";
+import { claimCommand } from "./commands/claim.js";
+import { openingCommand } from "./commands/opening.js";
+import { bankCommand } from "./commands/bank.js";
+import { loanCommand } from "./commands/loan.js";
+import { itemCommand } from "./commands/item.js";
+import { poCommand } from "./commands/po.js";
+import { timeCommand } from "./commands/time.js";
+import { whtCommand } from "./commands/wht.js";
+import { payrollCommand } from "./commands/payroll.js";
+import { runRecurringSchedules } from "../domain/recurring.js";
+import { runDueAmortization } from "../domain/amortization.js";
 
 // Initialize database on startup
 getDb();
@@ -107,11 +134,13 @@ function printHelp(): void {
 
 \x1b[1mInvoicing:\x1b[0m
   create inv           Create invoice (interactive)
+    --customer Acme --amount 500 [--account 4100] [--tax-code SV8] [--discount 10]
+    --customer Acme --item WIDGET [--qty 3] [--amount 40]  Line from the item catalog
   list inv             List invoices
   view inv <num>       View invoice details
-  send inv <num>       Mark as sent
+  send inv <num>       Issue a draft (numbers and posts it) and mark as sent
   paid inv <num>       Mark as paid
-  delete inv <num>     Delete invoice
+  delete inv <num>     Delete a draft invoice
 
 \x1b[1mCustomers:\x1b[0m
   add cust             Add customer (interactive)
@@ -121,16 +150,158 @@ function printHelp(): void {
 
 \x1b[1mPayments & Expenses:\x1b[0m
   record pay           Record payment received
+    --allocate INV-0001:500,INV-0002:300  Split over invoices (rest held as credit)
+    --bank 1110          Received into another bank or cash account
   list pay             List payments
-  add exp              Add expense
+  add exp              Add expense (--bank to pay from another account)
   list exp             List expenses
 
+\x1b[1mBank & Cash:\x1b[0m
+  bank list            Bank and cash accounts with balances
+  bank flag 1120       Mark an asset account as a bank or cash account
+  bank default 1110    Account used when --bank is not given
+  bank transfer --from 1100 --to 1110 --amount 5000  Move money between accounts (--fee 1.50)
+  bank transfers 1110  Transfers in and out of an account
+
+\x1b[1mLoans & Hire Purchase:\x1b[0m
+  loan list            Loans with installments paid and principal outstanding
+  loan add --name Hilux --principal 120000 --rate 2.8 --term 84 --start 2025-01-15 --hp  Add a loan (--existing if already on the books)
+  loan schedule Hilux  Amortization table split into principal and interest
+  loan pay Hilux       Pay the next installment (--date, --bank)
+  loan pay-due         Pay every installment due (--through 2025-06-30)
+
+\x1b[1mProducts & Stock:\x1b[0m
+  item list            Products and services with prices and stock on hand
+  item add --sku WIDGET --name "Widget" --price 45 --type inventory --tax SV8  Add a catalog item
+  item adjust WIDGET --qty 100 --cost 20 --account 3900  Opening stock or stock-take adjustment
+  item stock           Stock on hand at weighted-average cost
+
+\x1b[1mPurchase Orders:\x1b[0m
+  po list              Purchase orders with what is left to bill (--status open, --vendor)
+  po create --vendor "Pembekal Jaya" --item RICE10 --qty 50 --expected 2025-05-01  Raise an order
+  po receive PO-0001   Record goods received (--line 1 --qty 20 for part of a line)
+  po bill PO-0001      Turn the order into a draft bill and check it against the order
+  po exceptions        Bills whose prices or quantities deviate from their orders
+
+\x1b[1mTime Tracking:\x1b[0m
+  time start --customer "Acme" --project Website  Start a timer (time stop to record it)
+  time log --customer "Acme" --hours 2.5 --rate 350  Record hours already worked
+  time wip             Unbilled hours and their value per customer
+  time bill --customer "Acme"  Put unbilled hours on a draft invoice (--by entry for a line each)
+
+\x1b[1mWithholding Tax:\x1b[0m
+  wht vendor "Adobe" --category royalty  Flag a non-resident vendor (--rate for a treaty rate)
+  wht due              Tax withheld and not yet remitted, with days left to the deadline
+  wht remit --form CP37  Pay withheld tax to LHDN
+  wht report --from 2025-01-01 --to 2025-01-31  CP37-style summary per form
+
+\x1b[1mPayroll:\x1b[0m
+  employee edit "Siti Aminah" --salary 4500 --dob 1990-04-02 --pcb-category 2  Payroll details
+  payroll run 2025-05  Work out EPF, SOCSO, EIS and PCB as a draft (--allowances "Siti=300")
+  payroll post 2025-05  Post the payroll journal (payroll pay 2025-05 to pay salaries)
+  payroll payslip 2025-05  Payslip PDFs for everyone paid
+  payroll due          Statutory payments outstanding (payroll remit 2025-05 epf to pay one)
+
 \x1b[1mReports:\x1b[0m
   report balance       Balance sheet
-  report pl            Profit & Loss
+  report pl            Profit & Loss (--tracking Project:Website, --by Project)
   report ar            Accounts receivable aging
+  report ap            Accounts payable aging
   report cashflow      Cash flow statement
   report expenses      Expenses by category
+  report budget        Budget vs actual by account and month
+
+\x1b[1mRecurring:\x1b[0m
+  recurring list       List recurring schedules
+  recurring create     Repeat an invoice (--invoice INV-0001 --every monthly)
+  recurring run        Generate everything due today
+  recurring preview 1  Show next occurrences of schedule #1
+  recurring pause 1    Pause schedule #1 (resume 1 to restart)
+
+\x1b[1mForeign Currency:\x1b[0m
+  fx list              List exchange rates
+  fx set USD 4.72      Enter a rate (--date 2024-01-31)
+  fx import rates.csv  Import date,currency,rate rows
+  fx revalue           Unrealized FX on open items (--date, --post)
+
+\x1b[1mPeriod Close:\x1b[0m
+  period list          Fiscal periods and lock date
+  period close DATE    Lock all entries up to DATE
+  period reopen DATE   Unlock from DATE (--reason required)
+  period year-end 2024 Close income/expenses to retained earnings
+
+\x1b[1mBudgets:\x1b[0m
+  budget list          List budgets (--from 2025-01 --to 2025-12)
+  budget set 5100 2025-01 3000  Budget an account for a month
+  budget import b.csv  Import account,month,amount rows
+  budget seed 2025     Seed from last year's actuals (--growth 5)
+
+\x1b[1mTracking:\x1b[0m
+  tracking list        Dimensions and values (projects, departments...)
+  tracking add Project Website  Add a value (creates the dimension)
+  tracking archive Project:Website  Stop assigning a value
+
+\x1b[1mFixed Assets:\x1b[0m
+  asset list           Asset register with net book values
+  asset add Laptop --cost 5000 --life 36 --ca computer  Register an asset
+  asset depreciate     Post depreciation through this month (--dry-run)
+  asset dispose 1 --proceeds 800  Sell or scrap an asset
+  asset schedule       Movement schedule (--from --to)
+  asset ca 2025        Capital allowances vs book depreciation
+
+\x1b[1mPrepayments & Accruals:\x1b[0m
+  amortize list        Schedules and what is left on the balance sheet
+  amortize add --expense 12 --start 2025-01-01 --months 12  Spread a prepaid expense
+  amortize add --invoice INV-0007 --start 2025-01-01 --months 12  Defer revenue from an invoice line
+  amortize add --accrual --amount 6000 --account 6400 --start 2025-01-01 --months 12  Accrue ahead of the bill
+  amortize run         Post monthly entries through this month (--dry-run)
+  amortize cancel 3 --date 2025-06-30  Stop a schedule with a catch-up entry
+
+\x1b[1mOpening Balances:\x1b[0m
+  opening wizard       Bring balances over from another system step by step
+  opening date 2024-12-31  Set the conversion date
+  opening import-invoices open-invoices.csv  Unpaid invoices (customer, number, date, due_date, amount)
+  opening import-bills open-bills.csv  Unpaid bills (vendor, reference, date, due_date, amount)
+  opening balances trial-balance.csv  Post the trial balance (account, debit, credit)
+  opening status       What has been brought over
+
+\x1b[1mQuotes:\x1b[0m
+  quote list           Quotes and their status (--status sent)
+  quote create --customer "Acme" --amount 1500  Create a quote
+  quote send QT-0001   Mark a quote as sent (also accept, decline)
+  quote convert QT-0001  Turn a quote into an invoice
+  quote pdf QT-0001    Save the quote as PDF
+
+\x1b[1mCustomer Credit:\x1b[0m
+  credit list Acme     Unapplied payments and credit notes
+  credit apply INV-0003  Use credit on an invoice (--credit-note CN-0001, --amount)
+  credit refund --payment 12  Pay credit back (--credit-note, --amount)
+
+\x1b[1mBad Debts:\x1b[0m
+  baddebt list         Written-off invoices (--relief-due for SST relief to claim)
+  baddebt writeoff INV-0003 --reason "Wound up"  Write off the balance (--relief)
+  baddebt relief 1     Claim SST bad debt relief after 12 months
+  baddebt recover INV-0003 --amount 200  Customer paid after all
+
+\x1b[1mStatements:\x1b[0m
+  statement customer Acme  Statement of account (--from, --to, --currency)
+  statement customer Acme --pdf  Save it as PDF (--pdf file.pdf)
+  statement customer Acme --email  Email the PDF to the customer
+
+\x1b[1mPayment Reminders:\x1b[0m
+  dunning              Invoices due a reminder and at which level
+  dunning run          Send due reminders and charge late fees (--no-email to record only)
+  dunning levels       Reminder levels (level add|set|rm to change them)
+  dunning history Acme  Reminders already sent
+  dunning optout Acme  Stop reminders for a customer (optin to resume)
+
+\x1b[1mExpense Claims:\x1b[0m
+  employee add "Siti Aminah" --number E001  Add a claimant (employee list to see all)
+  claim create --employee Siti  Start a claim for staff who paid personally
+  claim add EC-0001 --amount 45.50 --description Taxi --receipt 12  Add a receipt
+  claim mileage EC-0001 --km 120 --description "Client visit"  Trips at the per-km rate (claim rate 0.60)
+  claim submit|approve EC-0001  Approval posts to Employee Reimbursements Payable
+  claim pay EC-0001    Reimburse the employee from the bank
 
 \x1b[1mAI Agent:\x1b[0m
   chat                 Interactive AI chat (can create invoices, expenses)
@@ -326,18 +497,46 @@ async function paymentCommand(args: string[]): Promise<void> {
         }
       }
 
-      const payment = recordPayment({
-        amount: amount!,
-        invoice_id: invoiceId,
-        customer_id: customerId,
-        reference: parsed.reference,
-      });
+      // --allocate INV-0001:500,INV-0002:300 splits one receipt over several invoices
+      let allocations: Array<{ invoice_id: number; amount: number }> | undefined;
+      if (parsed.allocate) {
+        allocations = [];
+        for (const part of parsed.allocate.split(",")) {
+          const [number, value] = part.split(":");
+          const inv = getInvoice(number.trim());
+          if (!inv || isNaN(parseFloat(value))) {
+            printError(`Invalid allocation "${part}" (use INV-0001:500)`);
+            return;
+          }
+          allocations.push({ invoice_id: inv.id, amount: parseFloat(value) });
+          customerId = customerId ?? inv.customer_id;
+        }
+      }
+
+      let payment;
+      try {
+        payment = recordPayment({
+          amount: amount!,
+          invoice_id: invoiceId,
+          customer_id: customerId,
+          allocations,
+          reference: parsed.reference,
+          bank_account: parsed.bank,
+        });
+      } catch (err) {
+        printError((err as Error).message);
+        return;
+      }
 
       printSuccess(`Payment recorded: $${payment.amount.toFixed(2)}`);
-      if (invoiceId) {
-        const inv = getInvoice(invoiceId);
+      const paidIds = allocations ? allocations.map((a) => a.invoice_id) : invoiceId ? [invoiceId] : [];
+      for (const id of paidIds) {
+        const inv = getInvoice(id);
         console.log(`  Invoice ${inv?.number}: ${inv?.status}`);
       }
+      if (payment.unapplied_amount) {
+        console.log(`  Held as customer credit: $${payment.unapplied_amount.toFixed(2)}`);
+      }
       break;
     }
 
@@ -427,6 +626,7 @@ async function expenseCommand(args: string[]): Promise<void> {
         category: category!,
         description: parsed.description,
         vendor_name: parsed.vendor,
+        bank_account: parsed.bank,
       });
 
       printSuccess(`Expense recorded: $${expense.amount.toFixed(2)}`);
@@ -490,6 +690,17 @@ async function reportCommand(args: string[]): Promise<void> {
       printSectionEnd();
       console.log();
 
+      printSection("Liabilities");
+      console.log(`${colors.dim}│${colors.reset}  Accounts Payable       ${formatMoney(report.liabilities.payables)}`);
+      if (report.liabilities.loans.current || report.liabilities.loans.non_current) {
+        console.log(`${colors.dim}│${colors.reset}  Loans - current        ${formatMoney(report.liabilities.loans.current)}`);
+        console.log(`${colors.dim}│${colors.reset}  Loans - non-current    ${formatMoney(report.liabilities.loans.non_current)}`);
+      }
+      console.log(`${colors.dim}│${colors.reset}  Other Liabilities      ${formatMoney(report.liabilities.other)}`);
+      console.log(`${colors.dim}│${colors.reset}  ${colors.bold}Total Liabilities      ${formatMoney(report.liabilities.total)}${colors.reset}`);
+      printSectionEnd();
+      console.log();
+
       printSection("Equity");
       console.log(`${colors.dim}│${colors.reset}  Retained Earnings      ${formatMoney(report.equity.retained_earnings)}`);
       printSectionEnd();
@@ -500,11 +711,20 @@ async function reportCommand(args: string[]): Promise<void> {
     case "pl":
     case "profit-loss":
     case "income": {
-      const report = getProfitLoss(fromDate, toDate);
+      const trackingRef = parsed.tracking && parsed.tracking !== "true" ? parsed.tracking : undefined;
+      const groupBy = parsed.by && parsed.by !== "true" ? getTrackingDimension(parsed.by) : undefined;
+      if (parsed.by && !groupBy) {
+        printError(`Tracking dimension not found: ${parsed.by}`);
+        return;
+      }
+      const report = getProfitLoss(fromDate, toDate, {
+        tracking_value_id: trackingRef ? resolveTrackingRefs([trackingRef])[0] : undefined,
+        group_by_dimension_id: groupBy?.id,
+      });
 
       console.log();
       printHeader("Profit & Loss");
-      console.log(`  ${report.from_date} to ${report.to_date}`);
+      console.log(`  ${report.from_date} to ${report.to_date}${trackingRef ? `  (${trackingRef})` : ""}`);
       console.log();
 
       printSection("Revenue");
@@ -528,6 +748,16 @@ async function reportCommand(args: string[]): Promise<void> {
       const netColor = report.net_income >= 0 ? colors.green : colors.red;
       console.log(`  ${colors.bold}Net Income             ${netColor}${formatMoney(report.net_income)}${colors.reset}`);
       console.log();
+
+      if (groupBy && report.by_tracking) {
+        printSection(`By ${groupBy.name}`);
+        for (const row of report.by_tracking) {
+          const color = row.net_income >= 0 ? colors.green : colors.red;
+          console.log(`${colors.dim}│${colors.reset}  ${row.value_name.slice(0, 22).padEnd(22)}${color}${formatMoney(row.net_income)}${colors.reset}`);
+        }
+        printSectionEnd();
+        console.log();
+      }
       break;
     }
 
@@ -560,6 +790,35 @@ async function reportCommand(args: string[]): Promise<void> {
       break;
     }
 
+    case "ap":
+    case "payables": {
+      const report = getPayablesAging();
+
+      console.log();
+      printHeader("Accounts Payable Aging");
+      console.log();
+
+      const printBucket = (label: string, items: typeof report.current, total: number, color: string = colors.reset) => {
+        if (items.length === 0) return;
+        printSection(`${label} (${formatMoney(total).trim()})`);
+        for (const bill of items) {
+          console.log(`${colors.dim}│${colors.reset}  ${bill.bill}  ${bill.vendor.slice(0, 18).padEnd(18)}  ${color}${formatMoney(bill.amount)}${colors.reset}`);
+        }
+        printSectionEnd();
+        console.log();
+      };
+
+      printBucket("Current", report.current, report.totals.current, colors.green);
+      printBucket("1-30 Days", report.days_1_30, report.totals.days_1_30, colors.yellow);
+      printBucket("31-60 Days", report.days_31_60, report.totals.days_31_60, colors.yellow);
+      printBucket("61-90 Days", report.days_61_90, report.totals.days_61_90, colors.red);
+      printBucket("90+ Days", report.days_90_plus, report.totals.days_90_plus, colors.red);
+
+      console.log(`  ${colors.bold}Total Outstanding:${formatMoney(report.totals.total)}${colors.reset}`);
+      console.log();
+      break;
+    }
+
     case "cashflow":
     case "cash": {
       const report = getCashFlow(fromDate, toDate);
@@ -626,9 +885,79 @@ async function reportCommand(args: string[]): Promise<void> {
       break;
     }
 
+    case "budget":
+    case "bva": {
+      const report = getBudgetVsActual(fromDate, toDate);
+      const pct = (p: number | null) => (p === null ? "—" : `${p > 0 ? "+" : ""}${p.toFixed(1)}%`);
+
+      console.log();
+      printHeader("Budget vs Actual");
+      console.log(`  ${report.from_date} to ${report.to_date}`);
+      console.log();
+
+      if (report.revenue.items.length === 0 && report.expenses.items.length === 0) {
+        printHint("  No budgets or activity for this period");
+        printHint("  Enter budgets with: oa budget set <account> <YYYY-MM> <amount>");
+        console.log();
+        break;
+      }
+
+      const columns = [
+        { header: "Account", width: 24, align: "left" as const },
+        { header: "Budget", width: 12, align: "right" as const },
+        { header: "Actual", width: 12, align: "right" as const },
+        { header: "Variance", width: 12, align: "right" as const },
+        { header: "%", width: 8, align: "right" as const },
+      ];
+
+      const showMonths = report.months.length > 1;
+      for (const [label, section] of [["Revenue", report.revenue], ["Expenses", report.expenses]] as const) {
+        if (section.items.length === 0) continue;
+        const rows: string[][] = [];
+        for (const line of section.items) {
+          rows.push([
+            `${line.code} ${line.name}`,
+            formatMoney(line.budget).trim(),
+            formatMoney(line.actual).trim(),
+            `${line.favorable ? "" : "!"}${formatMoney(line.variance).trim()}`,
+            pct(line.variance_percent),
+          ]);
+          if (showMonths) {
+            for (const m of line.months) {
+              if (m.budget === 0 && m.actual === 0) continue;
+              rows.push([
+                `  ${m.month}`,
+                formatMoney(m.budget).trim(),
+                formatMoney(m.actual).trim(),
+                formatMoney(m.variance).trim(),
+                pct(m.variance_percent),
+              ]);
+            }
+          }
+        }
+        rows.push([
+          `Total ${label}`,
+          formatMoney(section.total.budget).trim(),
+          formatMoney(section.total.actual).trim(),
+          formatMoney(section.total.variance).trim(),
+          pct(section.total.variance_percent),
+        ]);
+
+        console.log(`  ${colors.bold}${label}${colors.reset}`);
+        printTable(columns, rows);
+        console.log();
+      }
+
+      printHint("  ! marks an unfavorable variance");
+      const netColor = report.net_income.favorable ? colors.green : colors.red;
+      console.log(`  ${colors.bold}Net Income   Budget ${formatMoney(report.net_income.budget).trim()}   Actual ${formatMoney(report.net_income.actual).trim()}   ${netColor}Variance ${formatMoney(report.net_income.variance).trim()}${colors.reset}`);
+      console.log();
+      break;
+    }
+
     default:
       printError(`Unknown report: ${sub || ""}`);
-      printDim("Reports: balance, pl, ar, cashflow, expenses");
+      printDim("Reports: balance, pl, ar, ap, cashflow, expenses, budget");
   }
 }
 
@@ -701,8 +1030,13 @@ const ENTITY_ALIASES: Record<string, string> = {
   reports: "report",
 };
 
+// Invoice numbers typed in place of an entity (INV-0001, or DRAFT-0001 before issue)
+function isInvoiceNumber(value?: string): boolean {
+  return !!value && (value.startsWith("INV") || value.startsWith("DRAFT"));
+}
+
 // Valid actions for fuzzy matching
-const VALID_ACTIONS = ["create", "new", "list", "ls", "view", "show", "add", "record", "send", "paid", "delete", "rm", "search", "report", "rep", "help", "dashboard", "dash", "ask", "chat", "init", "config", "backup", "restore", "export"];
+const VALID_ACTIONS = ["create", "new", "list", "ls", "view", "show", "add", "record", "send", "paid", "delete", "rm", "search", "report", "rep", "help", "dashboard", "dash", "ask", "chat", "init", "config", "backup", "restore", "export", "recurring", "fx", "period", "budget", "tracking", "asset", "quote", "credit", "baddebt", "statement", "dunning", "employee", "claim", "amortize", "opening", "bank", "loan", "item", "po", "time", "wht", "payroll"];
 
 // Simple fuzzy match - find closest action
 function fuzzyMatch(input: string): string | null {
@@ -823,8 +1157,8 @@ async function executeCommand(cmdArgs: string[]): Promise<void> {
 
     case "view":
     case "show":
-      if (resolvedEntity === "invoice" || entity?.startsWith("INV")) {
-        const invId = entity?.startsWith("INV") ? entity : restArgs[0];
+      if (resolvedEntity === "invoice" || isInvoiceNumber(entity)) {
+        const invId = isInvoiceNumber(entity) ? entity : restArgs[0];
         await invoiceCommandV2(["view", invId]);
       } else if (resolvedEntity === "customer") {
         await customerCommand(["view", restArgs[0]]);
@@ -857,8 +1191,8 @@ async function executeCommand(cmdArgs: string[]): Promise<void> {
       break;
 
     case "send":
-      if (resolvedEntity === "invoice" || entity?.startsWith("INV")) {
-        const invId = entity?.startsWith("INV") ? entity : restArgs[0];
+      if (resolvedEntity === "invoice" || isInvoiceNumber(entity)) {
+        const invId = isInvoiceNumber(entity) ? entity : restArgs[0];
         await invoiceCommandV2(["send", invId]);
       } else {
         printError("Usage: send inv <number>");
@@ -867,8 +1201,8 @@ async function executeCommand(cmdArgs: string[]): Promise<void> {
 
     case "paid":
     case "mark-paid":
-      if (resolvedEntity === "invoice" || entity?.startsWith("INV")) {
-        const invId = entity?.startsWith("INV") ? entity : restArgs[0];
+      if (resolvedEntity === "invoice" || isInvoiceNumber(entity)) {
+        const invId = isInvoiceNumber(entity) ? entity : restArgs[0];
         await invoiceCommandV2(["paid", invId]);
       } else {
         printError("Usage: paid inv <number>");
@@ -959,6 +1293,7 @@ async function executeCommand(cmdArgs: string[]): Promise<void> {
         console.log(`  currency:         ${getSetting("currency") || "USD"}`);
         console.log(`  invoice_prefix:   ${getSetting("invoice_prefix") || "INV"}`);
         console.log(`  tax_rate:         ${getSetting("tax_rate") || "0"}%`);
+        console.log(`  default_tax_code: ${getSetting("default_tax_code") || "(not set)"}`);
         console.log(`  payment_terms:    ${getSetting("default_payment_terms") || "net_30"}`);
         console.log();
       } else {
@@ -967,6 +1302,116 @@ async function executeCommand(cmdArgs: string[]): Promise<void> {
       break;
     }
 
+    case "recurring":
+      // recurring list, recurring run, recurring pause 3, etc.
+      recurringCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "fx":
+      // fx list, fx set USD 4.72, fx revalue --post
+      fxCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "period":
+      // period list, period close 2024-03-31, period year-end 2024
+      periodCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "budget":
+      // budget list, budget set 5100 2025-01 3000, budget seed 2025
+      budgetCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "tracking":
+      // tracking list, tracking add Project Website, tracking archive Project:Website
+      trackingCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "asset":
+      // asset list, asset add Laptop --cost 5000 --life 36, asset depreciate 2025-03
+      assetCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "quote":
+      // quote list, quote create --customer Acme --amount 1500, quote convert QT-0001
+      await quoteCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "credit":
+      // credit list Acme, credit apply INV-0003, credit refund --credit-note CN-0001
+      creditCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "baddebt":
+      // baddebt writeoff INV-0003 --reason "Wound up", baddebt relief 1, baddebt recover INV-0003 --amount 200
+      badDebtCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "statement":
+      // statement customer Acme --from 2025-01-01 --to 2025-03-31 --pdf, statement income --month 2025-03
+      await statementCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "dunning":
+      // dunning queue, dunning run --no-email, dunning level add --name "Final notice" --days 30 ...
+      await dunningCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "employee":
+      // employee add "Siti Aminah" --email siti@example.com, employee list --all
+      employeeCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "claim":
+      // claim create --employee Siti, claim add EC-0001 --amount 45.50 --description Taxi, claim pay EC-0001
+      claimCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "amortize":
+      // amortize add --expense 12 --start 2025-01-01 --months 12, amortize run 2025-03, amortize cancel 3 --date 2025-06-30
+      amortizeCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "opening":
+      // opening date 2024-12-31, opening import-invoices open.csv, opening balances tb.csv, opening wizard
+      await openingCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "bank":
+      // bank list, bank transfer --from 1100 --to 1110 --amount 5000, bank default 1110
+      bankCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "loan":
+      // loan add --name Hilux --principal 120000 --rate 2.8 --term 84 --start 2025-01-15 --hp, loan pay Hilux, loan pay-due
+      loanCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "item":
+      // item add --sku WIDGET --name "Widget" --price 45 --type inventory, item adjust WIDGET --qty 100 --cost 20, item stock
+      itemCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "po":
+      // po create --vendor "Pembekal Jaya" --item RICE10 --qty 50, po receive PO-0001, po bill PO-0001, po exceptions
+      await poCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "time":
+      // time start --customer Acme, time stop, time log --customer Acme --hours 2.5, time wip, time bill --customer Acme
+      timeCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "wht":
+      // wht vendor Adobe --category royalty, wht due, wht remit --form CP37, wht report --from 2025-01-01
+      whtCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
+    case "payroll":
+      // payroll run 2025-05, payroll post 2025-05, payroll payslip 2025-05, payroll remit 2025-05 epf
+      await payrollCommand([entity, ...restArgs].filter(Boolean));
+      break;
+
     case "backup": {
       // Backup database
       const { copyFileSync, existsSync } = await import("fs");
@@ -1109,6 +1554,16 @@ async function main() {
     // Check for first run
     await checkFirstRun();
 
+    // Catch up on recurring invoices/expenses that fell due since the last session
+    printRecurringRunSummary(runRecurringSchedules());
+
+    // Post amortization for months that have ended
+    try {
+      printAmortizationRun(runDueAmortization());
+    } catch (err) {
+      printError(`Amortization: ${(err as Error).message}`);
+    }
+
     await startSession({
       onCommand: executeCommand,
     });
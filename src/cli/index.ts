@@ -53,6 +53,7 @@ function printHelp(): void {
   statement income      Income statement (P&L)
   statement receivables Accounts receivable aging
   statement cashflow    Cash flow statement
+  statement customer    Customer statement of account (--pdf, --email)
 
 \x1b[1mOther:\x1b[0m
   tui               Launch interactive dashboard
@@ -120,7 +121,7 @@ switch (command) {
     break;
 
   case "statement":
-    statementCommand(subArgs);
+    await statementCommand(subArgs);
     break;
 
   case "tui":
@@ -13,6 +13,7 @@ export interface COAAccount {
   name: string;
   type: "asset" | "liability" | "equity" | "income" | "expense";
   description?: string;
+  is_bank?: boolean; // Bank or cash account payments can be made from
 }
 
 export interface COATemplate {
@@ -41,10 +42,10 @@ export const MALAYSIAN_COA: COATemplate = {
   description: "Standard Chart of Accounts for Malaysian small and medium enterprises",
   accounts: [
     // === ASSETS (1000-1999) ===
-    { code: "1000", name: "Petty Cash", type: "asset", description: "Small cash fund for minor expenses" },
-    { code: "1010", name: "Cash in Hand", type: "asset" },
-    { code: "1100", name: "Bank Account - Current", type: "asset", description: "Main operating bank account" },
-    { code: "1110", name: "Bank Account - Savings", type: "asset" },
+    { code: "1000", name: "Petty Cash", type: "asset", description: "Small cash fund for minor expenses", is_bank: true },
+    { code: "1010", name: "Cash in Hand", type: "asset", is_bank: true },
+    { code: "1100", name: "Bank Account - Current", type: "asset", description: "Main operating bank account", is_bank: true },
+    { code: "1110", name: "Bank Account - Savings", type: "asset", is_bank: true },
     { code: "1120", name: "Fixed Deposit", type: "asset" },
     { code: "1200", name: "Accounts Receivable", type: "asset", description: "Trade debtors" },
     { code: "1210", name: "Allowance for Doubtful Debts", type: "asset", description: "Provision for bad debts" },
@@ -95,6 +96,7 @@ export const MALAYSIAN_COA: COATemplate = {
     { code: "4400", name: "Commission Income", type: "income" },
     { code: "4500", name: "Foreign Exchange Gain", type: "income" },
     { code: "4600", name: "Discount Received", type: "income" },
+    { code: "4700", name: "Gain on Disposal of Assets", type: "income" },
     { code: "4900", name: "Other Income", type: "income" },
 
     // === COST OF SALES (5000-5499) ===
@@ -164,6 +166,7 @@ export const MALAYSIAN_COA: COATemplate = {
     { code: "6220", name: "Insurance - Professional Indemnity", type: "expense" },
     { code: "6300", name: "Depreciation", type: "expense" },
     { code: "6310", name: "Amortization", type: "expense" },
+    { code: "6320", name: "Loss on Disposal of Assets", type: "expense" },
 
     // Regulatory & Compliance
     { code: "6400", name: "License & Permits", type: "expense" },
@@ -195,8 +198,8 @@ export function applyCoaTemplate(template: COATemplate): { added: number; skippe
 
   // Insert missing accounts
   const insertStmt = db.prepare(`
-    INSERT INTO accounts (code, name, type, description, is_active)
-    VALUES (?, ?, ?, ?, 1)
+    INSERT INTO accounts (code, name, type, description, is_active, is_bank)
+    VALUES (?, ?, ?, ?, 1, ?)
   `);
 
   for (const account of template.accounts) {
@@ -205,7 +208,7 @@ export function applyCoaTemplate(template: COATemplate): { added: number; skippe
       continue;
     }
 
-    insertStmt.run(account.code, account.name, account.type, account.description || null);
+    insertStmt.run(account.code, account.name, account.type, account.description || null, account.is_bank ? 1 : 0);
     added++;
   }
 
@@ -0,0 +1,85 @@
+/**
+ * Date Utility Module
+ *
+ * Calendar arithmetic on ISO date strings (YYYY-MM-DD) and months (YYYY-MM).
+ * Everything works in UTC so a date never shifts with the local timezone.
+ *
+ * Usage:
+ *   import { addMonths, daysBetween } from './dates.js';
+ *   addMonths("2025-01-31", 1);              // "2025-02-28"
+ *   daysBetween("2025-01-31", "2025-03-04"); // 32
+ */
+
+/**
+ * Today's date in UTC
+ */
+export function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+/**
+ * Throws unless the value is a real YYYY-MM-DD date
+ */
+export function assertIsoDate(date: string, label: string = "date"): void {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+    throw new Error(`Invalid ${label} "${date}": use YYYY-MM-DD`);
+  }
+}
+
+/**
+ * Throws unless the value is a YYYY-MM month
+ */
+export function assertMonth(month: string): void {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    throw new Error(`Invalid month "${month}": use YYYY-MM`);
+  }
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * Same day of the month, pulled back to the month end when that month is shorter
+ * (Jan 31 plus one month is Feb 28 or 29)
+ */
+export function addMonths(date: string, count: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + count, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().split("T")[0];
+}
+
+/**
+ * Whole days from one date to another; negative when `to` is earlier
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+}
+
+/**
+ * Month (YYYY-MM) a number of months before or after another
+ */
+export function shiftMonth(month: string, count: number): string {
+  return addMonths(`${month}-01`, count).slice(0, 7);
+}
+
+/**
+ * Months from one YYYY-MM month to another
+ */
+export function monthsBetween(from: string, to: string): number {
+  const [fy, fm] = from.split("-").map(Number);
+  const [ty, tm] = to.split("-").map(Number);
+  return (ty - fy) * 12 + (tm - fm);
+}
+
+/**
+ * Last day of a YYYY-MM month
+ */
+export function monthEnd(month: string): string {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(y, m, 0)).toISOString().split("T")[0];
+}
@@ -410,6 +410,1070 @@ function runMigrations(db: Database.Database): void {
       CREATE INDEX IF NOT EXISTS idx_journal_lines_account ON journal_lines(account_id);
     `);
   }
+
+  // Add payment terms to vendors (migration for existing databases)
+  const hasVendorTerms = db.prepare(
+    "SELECT COUNT(*) as count FROM pragma_table_info('vendors') WHERE name='payment_terms'"
+  ).get() as { count: number };
+
+  if (hasVendorTerms.count === 0) {
+    db.exec(`
+      ALTER TABLE vendors ADD COLUMN payment_terms TEXT DEFAULT 'net_30';
+    `);
+  }
+
+  // Create bills and bill_items tables (migration for existing databases)
+  const billsExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='bills'"
+  ).get();
+
+  if (!billsExists) {
+    db.exec(`
+      CREATE TABLE bills (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        number TEXT NOT NULL UNIQUE,
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id),
+        vendor_reference TEXT,
+        date TEXT NOT NULL,
+        due_date TEXT NOT NULL,
+        status TEXT DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'partial', 'paid', 'cancelled')),
+        total REAL NOT NULL DEFAULT 0,
+        amount_paid REAL DEFAULT 0,
+        payment_terms TEXT,
+        notes TEXT,
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        approved_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE bill_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        bill_id INTEGER NOT NULL REFERENCES bills(id) ON DELETE CASCADE,
+        description TEXT NOT NULL,
+        quantity REAL NOT NULL DEFAULT 1 CHECK (quantity > 0),
+        unit_price REAL NOT NULL CHECK (unit_price >= 0),
+        amount REAL NOT NULL CHECK (amount >= 0),
+        account_id INTEGER NOT NULL REFERENCES accounts(id),
+        sort_order INTEGER DEFAULT 0
+      );
+
+      CREATE INDEX idx_bills_vendor ON bills(vendor_id);
+      CREATE INDEX idx_bills_status_due ON bills(status, due_date);
+      CREATE INDEX idx_bill_items_bill ON bill_items(bill_id);
+    `);
+  }
+
+  // Link vendor payments to bills (migration for existing databases)
+  const hasPaymentBill = db.prepare(
+    "SELECT COUNT(*) as count FROM pragma_table_info('payments') WHERE name='bill_id'"
+  ).get() as { count: number };
+
+  if (hasPaymentBill.count === 0) {
+    db.exec(`
+      ALTER TABLE payments ADD COLUMN bill_id INTEGER REFERENCES bills(id);
+    `);
+  }
+
+  // Create recurring_schedules and recurring_runs tables (migration for existing databases)
+  const recurringExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='recurring_schedules'"
+  ).get();
+
+  if (!recurringExists) {
+    db.exec(`
+      CREATE TABLE recurring_schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('invoice', 'expense')),
+        frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+        interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+        anchor_date TEXT NOT NULL,
+        end_date TEXT,
+        max_occurrences INTEGER,
+        occurrences_count INTEGER NOT NULL DEFAULT 0,
+        next_run_date TEXT,
+        status TEXT DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed')),
+        template TEXT NOT NULL,
+        last_run_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE recurring_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        schedule_id INTEGER NOT NULL REFERENCES recurring_schedules(id) ON DELETE CASCADE,
+        occurrence_date TEXT NOT NULL,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('invoice', 'expense')),
+        entity_id INTEGER NOT NULL,
+        reference TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (schedule_id, occurrence_date)
+      );
+
+      CREATE INDEX idx_recurring_schedules_next ON recurring_schedules(status, next_run_date);
+      CREATE INDEX idx_recurring_runs_schedule ON recurring_runs(schedule_id);
+    `);
+  }
+
+  // Create exchange_rates table (migration for existing databases)
+  const exchangeRatesExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='exchange_rates'"
+  ).get();
+
+  if (!exchangeRatesExists) {
+    db.exec(`
+      CREATE TABLE exchange_rates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        currency_code TEXT NOT NULL,
+        rate_date TEXT NOT NULL,
+        rate REAL NOT NULL CHECK (rate > 0),
+        source TEXT DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (currency_code, rate_date)
+      );
+
+      CREATE INDEX idx_exchange_rates_lookup ON exchange_rates(currency_code, rate_date);
+    `);
+  }
+
+  // Add foreign currency amounts to journal lines (migration for existing databases)
+  const hasLineCurrency = db.prepare(
+    "SELECT COUNT(*) as count FROM pragma_table_info('journal_lines') WHERE name='currency_code'"
+  ).get() as { count: number };
+
+  if (hasLineCurrency.count === 0) {
+    db.exec(`
+      ALTER TABLE journal_lines ADD COLUMN currency_code TEXT;
+      ALTER TABLE journal_lines ADD COLUMN exchange_rate REAL;
+      ALTER TABLE journal_lines ADD COLUMN foreign_debit REAL;
+      ALTER TABLE journal_lines ADD COLUMN foreign_credit REAL;
+    `);
+  }
+
+  // Add document exchange rates to invoices, bills and payments (migration for existing databases)
+  const hasInvoiceRate = db.prepare(
+    "SELECT COUNT(*) as count FROM pragma_table_info('invoices') WHERE name='exchange_rate'"
+  ).get() as { count: number };
+
+  if (hasInvoiceRate.count === 0) {
+    db.exec(`
+      ALTER TABLE invoices ADD COLUMN exchange_rate REAL;
+      ALTER TABLE bills ADD COLUMN currency_code TEXT;
+      ALTER TABLE bills ADD COLUMN exchange_rate REAL;
+      ALTER TABLE payments ADD COLUMN currency_code TEXT;
+      ALTER TABLE payments ADD COLUMN exchange_rate REAL;
+      ALTER TABLE payments ADD COLUMN foreign_amount REAL;
+    `);
+  }
+
+  // Add foreign exchange gain/loss accounts (migration for existing databases)
+  const hasFxAccounts = db.prepare(
+    "SELECT COUNT(*) as count FROM accounts WHERE code IN ('4500', '5820')"
+  ).get() as { count: number };
+
+  if (hasFxAccounts.count === 0) {
+    db.exec(`
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('4500', 'Foreign Exchange Gain', 'income');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('5820', 'Foreign Exchange Loss', 'expense');
+    `);
+  }
+
+  // Create fiscal_periods table (migration for existing databases)
+  const fiscalPeriodsExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='fiscal_periods'"
+  ).get();
+
+  if (!fiscalPeriodsExists) {
+    db.exec(`
+      CREATE TABLE fiscal_periods (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        fiscal_year INTEGER NOT NULL,
+        period_number INTEGER NOT NULL CHECK (period_number BETWEEN 1 AND 12),
+        name TEXT NOT NULL,
+        start_date TEXT NOT NULL UNIQUE,
+        end_date TEXT NOT NULL,
+        status TEXT DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+        closed_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (fiscal_year, period_number)
+      );
+
+      CREATE INDEX idx_fiscal_periods_dates ON fiscal_periods(start_date, end_date);
+    `);
+  }
+
+  // Create budgets table (migration for existing databases)
+  const budgetsExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='budgets'"
+  ).get();
+
+  if (!budgetsExists) {
+    db.exec(`
+      CREATE TABLE budgets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_id INTEGER NOT NULL REFERENCES accounts(id),
+        month TEXT NOT NULL,
+        amount REAL NOT NULL DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (account_id, month)
+      );
+
+      CREATE INDEX idx_budgets_month ON budgets(month);
+    `);
+  }
+
+  // Create tracking dimension tables (migration for existing databases)
+  const trackingExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='tracking_dimensions'"
+  ).get();
+
+  if (!trackingExists) {
+    db.exec(`
+      CREATE TABLE tracking_dimensions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE tracking_values (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dimension_id INTEGER NOT NULL REFERENCES tracking_dimensions(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (dimension_id, name)
+      );
+
+      -- One value per dimension on each journal line
+      CREATE TABLE journal_line_tracking (
+        line_id INTEGER NOT NULL REFERENCES journal_lines(id) ON DELETE CASCADE,
+        dimension_id INTEGER NOT NULL REFERENCES tracking_dimensions(id),
+        value_id INTEGER NOT NULL REFERENCES tracking_values(id),
+        PRIMARY KEY (line_id, dimension_id)
+      );
+
+      -- Tracking on source documents (invoice items, expenses)
+      CREATE TABLE tracking_assignments (
+        entity_type TEXT NOT NULL,
+        entity_id INTEGER NOT NULL,
+        dimension_id INTEGER NOT NULL REFERENCES tracking_dimensions(id),
+        value_id INTEGER NOT NULL REFERENCES tracking_values(id),
+        PRIMARY KEY (entity_type, entity_id, dimension_id)
+      );
+
+      CREATE INDEX idx_journal_line_tracking_value ON journal_line_tracking(value_id);
+    `);
+  }
+
+  // Add default tracking value to categorization rules (migration)
+  const hasRuleTracking = db.prepare(
+    "SELECT COUNT(*) as count FROM pragma_table_info('categorization_rules') WHERE name='tracking_value_id'"
+  ).get() as { count: number };
+
+  if (hasRuleTracking.count === 0) {
+    db.exec("ALTER TABLE categorization_rules ADD COLUMN tracking_value_id INTEGER REFERENCES tracking_values(id)");
+  }
+
+  // Create fixed asset register tables (migration for existing databases)
+  const fixedAssetsExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='fixed_assets'"
+  ).get();
+
+  if (!fixedAssetsExists) {
+    db.exec(`
+      CREATE TABLE fixed_assets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        description TEXT,
+        acquisition_date TEXT NOT NULL,
+        cost REAL NOT NULL,
+        residual_value REAL DEFAULT 0,
+        useful_life_months INTEGER NOT NULL,
+        method TEXT NOT NULL DEFAULT 'straight_line' CHECK (method IN ('straight_line', 'declining_balance', 'capital_allowance')),
+        declining_rate REAL, -- Annual % for declining balance; defaults to double the straight-line rate
+        asset_account_id INTEGER NOT NULL REFERENCES accounts(id),
+        accumulated_account_id INTEGER NOT NULL REFERENCES accounts(id),
+        expense_account_id INTEGER NOT NULL REFERENCES accounts(id),
+        -- Tax capital allowances (Schedule 3, Income Tax Act 1967)
+        ca_class TEXT,
+        ca_qualifying_cost REAL,
+        ca_initial_rate REAL DEFAULT 0,
+        ca_annual_rate REAL DEFAULT 0,
+        status TEXT DEFAULT 'active' CHECK (status IN ('active', 'disposed')),
+        disposal_date TEXT,
+        disposal_proceeds REAL,
+        acquisition_journal_entry_id INTEGER REFERENCES journal_entries(id),
+        disposal_journal_entry_id INTEGER REFERENCES journal_entries(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Book depreciation posted per asset per month
+      CREATE TABLE asset_depreciation (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        asset_id INTEGER NOT NULL REFERENCES fixed_assets(id) ON DELETE CASCADE,
+        month TEXT NOT NULL, -- YYYY-MM
+        amount REAL NOT NULL,
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (asset_id, month)
+      );
+
+      CREATE INDEX idx_asset_depreciation_month ON asset_depreciation(month);
+    `);
+  }
+
+  // Add fixed asset accounts (migration for existing databases)
+  const hasAssetAccounts = db.prepare(
+    "SELECT COUNT(*) as count FROM accounts WHERE code IN ('1600', '1650', '4700', '6300', '6320')"
+  ).get() as { count: number };
+
+  if (hasAssetAccounts.count < 5) {
+    db.exec(`
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('1600', 'Property, Plant & Equipment', 'asset');
+      INSERT OR IGNORE INTO accounts (code, name, type, description) VALUES ('1650', 'Accumulated Depreciation', 'asset', 'Contra account');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('4700', 'Gain on Disposal of Assets', 'income');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('6300', 'Depreciation', 'expense');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('6320', 'Loss on Disposal of Assets', 'expense');
+    `);
+  }
+
+  // Create quotes tables (migration for existing databases)
+  const quotesExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='quotes'"
+  ).get();
+
+  if (!quotesExists) {
+    db.exec(`
+      CREATE TABLE quotes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        number TEXT NOT NULL UNIQUE,
+        customer_id INTEGER NOT NULL REFERENCES customers(id),
+        date TEXT NOT NULL,
+        expiry_date TEXT NOT NULL,
+        status TEXT DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'declined', 'expired')),
+        subtotal REAL NOT NULL DEFAULT 0,
+        tax_rate REAL DEFAULT 0,
+        tax_amount REAL DEFAULT 0,
+        total REAL NOT NULL DEFAULT 0,
+        currency_code TEXT,
+        payment_terms TEXT,
+        notes TEXT,
+        invoice_id INTEGER REFERENCES invoices(id),
+        converted_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE quote_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        quote_id INTEGER NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+        description TEXT NOT NULL,
+        quantity REAL NOT NULL DEFAULT 1 CHECK (quantity > 0),
+        unit_price REAL NOT NULL CHECK (unit_price >= 0),
+        amount REAL NOT NULL CHECK (amount >= 0),
+        sort_order INTEGER DEFAULT 0,
+        classification_code TEXT DEFAULT '002',
+        tax_type TEXT DEFAULT 'E',
+        unit_code TEXT DEFAULT 'EA'
+      );
+
+      CREATE INDEX idx_quotes_customer ON quotes(customer_id);
+    `);
+  }
+
+  // Create tax codes table (migration for existing databases)
+  const taxCodesExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='tax_codes'"
+  ).get();
+
+  if (!taxCodesExists) {
+    db.exec(`
+      CREATE TABLE tax_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        code TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        rate REAL NOT NULL DEFAULT 0 CHECK (rate >= 0),
+        tax_type TEXT NOT NULL DEFAULT 'E',
+        sst_category TEXT CHECK (sst_category IN ('sales', 'service')),
+        collected_account_id INTEGER REFERENCES accounts(id),
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      INSERT INTO tax_codes (code, name, rate, tax_type, sst_category, collected_account_id) VALUES
+        ('ST5', 'Sales Tax 5%', 5, '01', 'sales', (SELECT id FROM accounts WHERE code = '2300')),
+        ('ST10', 'Sales Tax 10%', 10, '01', 'sales', (SELECT id FROM accounts WHERE code = '2300')),
+        ('SV6', 'Service Tax 6%', 6, '02', 'service', (SELECT id FROM accounts WHERE code = '2300')),
+        ('SV8', 'Service Tax 8%', 8, '02', 'service', (SELECT id FROM accounts WHERE code = '2300')),
+        ('STE', 'Sales Tax Exempt', 0, 'E', 'sales', NULL),
+        ('SVE', 'Service Tax Exempt', 0, 'E', 'service', NULL),
+        ('NT', 'Not Applicable', 0, '06', NULL, NULL);
+    `);
+  }
+
+  // Add per-line accounts, tax codes and discounts to invoices (migration)
+  const hasItemTaxCode = db.prepare(
+    "SELECT COUNT(*) as count FROM pragma_table_info('invoice_items') WHERE name='tax_code'"
+  ).get() as { count: number };
+
+  if (hasItemTaxCode.count === 0) {
+    db.exec(`
+      ALTER TABLE invoice_items ADD COLUMN tax_code TEXT;
+      ALTER TABLE invoice_items ADD COLUMN tax_rate REAL DEFAULT 0;
+      ALTER TABLE invoice_items ADD COLUMN tax_amount REAL DEFAULT 0;
+      ALTER TABLE invoice_items ADD COLUMN discount_amount REAL DEFAULT 0;
+      ALTER TABLE invoice_items ADD COLUMN taxable_amount REAL;
+      ALTER TABLE invoices ADD COLUMN discount_amount REAL DEFAULT 0;
+    `);
+
+    // Existing lines were taxed at the invoice rate on their full amount
+    db.exec(`
+      UPDATE invoice_items SET
+        taxable_amount = amount,
+        tax_rate = COALESCE((SELECT tax_rate FROM invoices WHERE invoices.id = invoice_items.invoice_id), 0),
+        tax_amount = ROUND(amount * COALESCE((SELECT tax_rate FROM invoices WHERE invoices.id = invoice_items.invoice_id), 0) / 100, 2);
+    `);
+  }
+
+  // Tax code rate history and purchase-side settings (migration)
+  const taxRatesExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='tax_code_rates'"
+  ).get();
+
+  if (!taxRatesExists) {
+    db.exec(`
+      ALTER TABLE tax_codes ADD COLUMN effective_from TEXT;
+      ALTER TABLE tax_codes ADD COLUMN effective_to TEXT;
+      ALTER TABLE tax_codes ADD COLUMN paid_account_id INTEGER REFERENCES accounts(id);
+      ALTER TABLE tax_codes ADD COLUMN recoverable INTEGER DEFAULT 0;
+      ALTER TABLE tax_codes ADD COLUMN compound INTEGER DEFAULT 0;
+
+      CREATE TABLE tax_code_rates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tax_code_id INTEGER NOT NULL REFERENCES tax_codes(id) ON DELETE CASCADE,
+        rate REAL NOT NULL CHECK (rate >= 0),
+        effective_from TEXT NOT NULL,
+        effective_to TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (tax_code_id, effective_from)
+      );
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('1450', 'Input Tax Recoverable', 'asset');
+
+      -- Service tax went from 6% to 8% on 1 March 2024
+      INSERT INTO tax_codes (code, name, rate, tax_type, sst_category, collected_account_id) VALUES
+        ('SV', 'Service Tax', 8, '02', 'service', (SELECT id FROM accounts WHERE code = '2300'));
+      INSERT INTO tax_code_rates (tax_code_id, rate, effective_from, effective_to) VALUES
+        ((SELECT id FROM tax_codes WHERE code = 'SV'), 6, '2018-09-01', '2024-02-29'),
+        ((SELECT id FROM tax_codes WHERE code = 'SV'), 8, '2024-03-01', NULL);
+
+      ALTER TABLE bill_items ADD COLUMN tax_code TEXT;
+      ALTER TABLE bill_items ADD COLUMN tax_rate REAL DEFAULT 0;
+      ALTER TABLE bill_items ADD COLUMN tax_amount REAL DEFAULT 0;
+      ALTER TABLE bills ADD COLUMN tax_amount REAL DEFAULT 0;
+
+      ALTER TABLE expenses ADD COLUMN tax_code TEXT;
+      ALTER TABLE expenses ADD COLUMN tax_amount REAL DEFAULT 0;
+    `);
+  }
+
+  // Payment allocations and customer credit (migration)
+  const allocationsExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='payment_allocations'"
+  ).get();
+
+  if (!allocationsExists) {
+    db.exec(`
+      -- Money from a payment or credit note settling an invoice, or refunded
+      CREATE TABLE payment_allocations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        payment_id INTEGER REFERENCES payments(id),
+        credit_note_id INTEGER REFERENCES invoices(id),
+        invoice_id INTEGER REFERENCES invoices(id),
+        refund_payment_id INTEGER REFERENCES payments(id),
+        amount REAL NOT NULL CHECK (amount > 0),
+        date TEXT NOT NULL,
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        CHECK ((payment_id IS NULL) != (credit_note_id IS NULL)),
+        CHECK ((invoice_id IS NULL) != (refund_payment_id IS NULL))
+      );
+      CREATE INDEX idx_payment_allocations_payment ON payment_allocations(payment_id);
+      CREATE INDEX idx_payment_allocations_credit_note ON payment_allocations(credit_note_id);
+      CREATE INDEX idx_payment_allocations_invoice ON payment_allocations(invoice_id);
+
+      -- Part of a payment held on Customer Deposits until applied or refunded
+      ALTER TABLE payments ADD COLUMN unapplied_amount REAL DEFAULT 0;
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('2400', 'Customer Deposits', 'liability');
+
+      INSERT INTO payment_allocations (payment_id, invoice_id, amount, date, journal_entry_id)
+        SELECT id, invoice_id, COALESCE(foreign_amount, amount), date, journal_entry_id
+        FROM payments WHERE type = 'received' AND invoice_id IS NOT NULL;
+    `);
+  }
+
+  // Bad debt write-offs and SST bad debt relief (migration)
+  const badDebtsExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='bad_debts'"
+  ).get();
+
+  if (!badDebtsExists) {
+    db.exec(`
+      CREATE TABLE bad_debts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoice_id INTEGER NOT NULL REFERENCES invoices(id),
+        date TEXT NOT NULL,
+        amount REAL NOT NULL CHECK (amount > 0),   -- Document currency
+        base_amount REAL NOT NULL,
+        reason TEXT NOT NULL,
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        relief_amount REAL DEFAULT 0,              -- Output tax reclaimed, base currency
+        relief_date TEXT,
+        relief_journal_entry_id INTEGER REFERENCES journal_entries(id),
+        recovered_amount REAL DEFAULT 0,           -- Document currency
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_bad_debts_invoice ON bad_debts(invoice_id);
+
+      CREATE TABLE bad_debt_recoveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        bad_debt_id INTEGER NOT NULL REFERENCES bad_debts(id),
+        payment_id INTEGER REFERENCES payments(id),
+        date TEXT NOT NULL,
+        amount REAL NOT NULL CHECK (amount > 0),   -- Document currency
+        base_amount REAL NOT NULL,
+        tax_repaid REAL DEFAULT 0,                 -- Relief given back, base currency
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_bad_debt_recoveries_bad_debt ON bad_debt_recoveries(bad_debt_id);
+
+      -- Balance settled by write-off rather than payment (included in amount_paid)
+      ALTER TABLE invoices ADD COLUMN written_off_amount REAL DEFAULT 0;
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('5830', 'Bad Debts', 'expense');
+    `);
+  }
+
+  // Dunning levels, reminder history and customer opt-out (migration)
+  const dunningExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='dunning_levels'"
+  ).get();
+
+  if (!dunningExists) {
+    db.exec(`
+      CREATE TABLE dunning_levels (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        days_overdue INTEGER NOT NULL UNIQUE,      -- Negative = days before the due date
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,                        -- {customer} {invoice} {amount} {due_date} {days_overdue} {late_fee} {business}
+        late_fee REAL DEFAULT 0,                   -- Flat fee charged by debit note
+        interest_rate REAL DEFAULT 0,              -- Annual %, on the outstanding amount for the days overdue
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE dunning_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        invoice_id INTEGER NOT NULL REFERENCES invoices(id),
+        level_id INTEGER NOT NULL REFERENCES dunning_levels(id),
+        date TEXT NOT NULL,
+        days_overdue INTEGER NOT NULL,
+        outstanding REAL NOT NULL,
+        sent_to TEXT,
+        status TEXT NOT NULL CHECK (status IN ('sent', 'logged', 'failed')),  -- logged = recorded without email
+        error TEXT,
+        fee_amount REAL DEFAULT 0,
+        debit_note_id INTEGER REFERENCES invoices(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_dunning_history_invoice ON dunning_history(invoice_id);
+
+      ALTER TABLE customers ADD COLUMN dunning_opt_out INTEGER DEFAULT 0;
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('4300', 'Late Payment Charges', 'income');
+
+      INSERT INTO dunning_levels (name, days_overdue, subject, body) VALUES
+        ('Upcoming', -3, 'Invoice {invoice} is due on {due_date}',
+          'This is a friendly note that invoice {invoice} for {amount} is due on {due_date}. If you have already arranged payment, thank you.'),
+        ('First reminder', 7, 'Reminder: invoice {invoice} is overdue',
+          'Invoice {invoice} for {amount} was due on {due_date} and is now {days_overdue} days overdue. Please arrange payment at your earliest convenience. If you have already paid, please disregard this notice.'),
+        ('Second reminder', 14, 'Second reminder: invoice {invoice} is {days_overdue} days overdue',
+          'We have not yet received payment of {amount} for invoice {invoice}, which was due on {due_date}. Please settle the balance or let us know if there is a problem with the invoice.'),
+        ('Final notice', 30, 'FINAL NOTICE: invoice {invoice} is {days_overdue} days overdue',
+          'Invoice {invoice} for {amount} is now {days_overdue} days overdue. Unless payment is received within 7 days we may suspend further work and charge late payment fees.');
+    `);
+  }
+
+  // Employees, expense claims and reimbursements (migration)
+  const expenseClaimsExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='expense_claims'"
+  ).get();
+
+  if (!expenseClaimsExists) {
+    db.exec(`
+      CREATE TABLE employees (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        email TEXT,
+        phone TEXT,
+        employee_number TEXT,
+        department TEXT,
+        is_active INTEGER DEFAULT 1,
+        notes TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE expense_claims (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        number TEXT NOT NULL UNIQUE,
+        employee_id INTEGER NOT NULL REFERENCES employees(id),
+        date TEXT NOT NULL,
+        description TEXT,
+        status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'partial', 'paid', 'rejected')),
+        total REAL DEFAULT 0,                      -- Including tax
+        amount_paid REAL DEFAULT 0,
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        submitted_at TEXT,
+        approved_at TEXT,
+        rejected_reason TEXT,
+        notes TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_expense_claims_employee ON expense_claims(employee_id);
+
+      CREATE TABLE expense_claim_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        claim_id INTEGER NOT NULL REFERENCES expense_claims(id) ON DELETE CASCADE,
+        date TEXT NOT NULL,
+        description TEXT NOT NULL,
+        account_id INTEGER NOT NULL REFERENCES accounts(id),
+        amount REAL NOT NULL CHECK (amount > 0),   -- As on the receipt, tax included
+        tax_code TEXT,
+        tax_amount REAL DEFAULT 0,
+        document_id INTEGER REFERENCES documents(id),
+        expense_id INTEGER REFERENCES expenses(id),  -- Set when the claim is approved
+        distance_km REAL,                          -- Mileage lines: amount = distance_km x rate_per_km
+        rate_per_km REAL,
+        sort_order INTEGER DEFAULT 0
+      );
+      CREATE INDEX idx_expense_claim_items_claim ON expense_claim_items(claim_id);
+
+      ALTER TABLE payments ADD COLUMN expense_claim_id INTEGER REFERENCES expense_claims(id);
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('2150', 'Employee Reimbursements Payable', 'liability');
+    `);
+  }
+
+  // Prepayment, deferred revenue and accrual amortization schedules (migration)
+  const amortizationExists = db.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name='amortization_schedules'"
+  ).get();
+
+  if (!amortizationExists) {
+    db.exec(`
+      CREATE TABLE amortization_schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('prepayment', 'deferred_revenue', 'accrual')),
+        expense_id INTEGER REFERENCES expenses(id),
+        invoice_item_id INTEGER REFERENCES invoice_items(id),
+        total REAL NOT NULL CHECK (total > 0),     -- Base currency
+        start_month TEXT NOT NULL,                 -- YYYY-MM, first month recognized
+        months INTEGER NOT NULL CHECK (months > 0),
+        balance_account_id INTEGER NOT NULL REFERENCES accounts(id),  -- Prepaid, deferred or accrued balance
+        target_account_id INTEGER NOT NULL REFERENCES accounts(id),   -- Expense or income recognized each month
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+        setup_journal_entry_id INTEGER REFERENCES journal_entries(id),  -- Moves the source onto the balance account
+        cancelled_date TEXT,
+        cancel_amount REAL DEFAULT 0,              -- Recognized by the catch-up entry on cancellation
+        cancel_journal_entry_id INTEGER REFERENCES journal_entries(id),
+        notes TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE amortization_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        schedule_id INTEGER NOT NULL REFERENCES amortization_schedules(id) ON DELETE CASCADE,
+        month TEXT NOT NULL, -- YYYY-MM
+        amount REAL NOT NULL,
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (schedule_id, month)
+      );
+      CREATE INDEX idx_amortization_entries_month ON amortization_entries(month);
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('1300', 'Prepaid Expenses', 'asset');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('2350', 'Accrued Expenses', 'liability');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('2450', 'Deferred Revenue', 'liability');
+    `);
+  }
+
+  // Opening balances brought over from another system (migration)
+  const hasOpeningInvoices = db.prepare(
+    "SELECT COUNT(*) as count FROM pragma_table_info('invoices') WHERE name='is_opening'"
+  ).get() as { count: number };
+
+  if (hasOpeningInvoices.count === 0) {
+    db.exec(`
+      ALTER TABLE invoices ADD COLUMN is_opening INTEGER DEFAULT 0; -- Outstanding at conversion, posted against Opening Balance Equity
+      ALTER TABLE bills ADD COLUMN is_opening INTEGER DEFAULT 0;
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('3900', 'Opening Balance Equity', 'equity');
+    `);
+  }
+
+  // Multiple bank and cash accounts, and transfers between them (migration)
+  const hasBankFlag = db.prepare(
+    "SELECT COUNT(*) as count FROM pragma_table_info('accounts') WHERE name='is_bank'"
+  ).get() as { count: number };
+
+  if (hasBankFlag.count === 0) {
+    db.exec(`
+      ALTER TABLE accounts ADD COLUMN is_bank INTEGER DEFAULT 0; -- Payments, expenses and receipts can go through it
+      UPDATE accounts SET is_bank = 1 WHERE type = 'asset' AND code IN ('1000', '1010', '1100', '1110');
+
+      ALTER TABLE payments ADD COLUMN bank_account_id INTEGER REFERENCES accounts(id);
+      UPDATE payments SET bank_account_id = (SELECT id FROM accounts WHERE code = '1100');
+
+      CREATE TABLE bank_transfers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL,
+        from_account_id INTEGER NOT NULL REFERENCES accounts(id),
+        to_account_id INTEGER NOT NULL REFERENCES accounts(id),
+        amount REAL NOT NULL CHECK (amount > 0),  -- Arrives in the receiving account
+        fee REAL DEFAULT 0,                        -- Charged on top by the sending account
+        fee_account_id INTEGER REFERENCES accounts(id),
+        reference TEXT,
+        notes TEXT,
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        from_reconciled INTEGER DEFAULT 0,         -- Matched on each account's statement separately
+        to_reconciled INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_bank_transfers_date ON bank_transfers(date);
+
+      ALTER TABLE bank_transactions ADD COLUMN matched_transfer_id INTEGER REFERENCES bank_transfers(id);
+    `);
+  }
+
+  // Loans and hire purchase with amortization tables (migration)
+  const hasLoans = db.prepare(
+    "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name='loans'"
+  ).get() as { count: number };
+
+  if (hasLoans.count === 0) {
+    db.exec(`
+      CREATE TABLE loans (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        lender TEXT,
+        type TEXT NOT NULL DEFAULT 'loan' CHECK (type IN ('loan', 'hire_purchase')),
+        method TEXT NOT NULL CHECK (method IN ('annuity', 'rule_of_78')),  -- Reducing balance, or flat rate with Rule of 78 interest
+        principal REAL NOT NULL CHECK (principal > 0),  -- Amount financed
+        annual_rate REAL NOT NULL DEFAULT 0,            -- Percent; the flat rate for Rule of 78
+        term_months INTEGER NOT NULL CHECK (term_months > 0),
+        start_date TEXT NOT NULL,                       -- Drawdown
+        first_payment_date TEXT NOT NULL,
+        liability_account_id INTEGER NOT NULL REFERENCES accounts(id),
+        interest_account_id INTEGER NOT NULL REFERENCES accounts(id),
+        drawdown_account_id INTEGER REFERENCES accounts(id),  -- Where the money went: bank, or the asset bought on hire purchase
+        drawdown_journal_entry_id INTEGER REFERENCES journal_entries(id),
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'repaid')),
+        notes TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE loan_installments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        loan_id INTEGER NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+        number INTEGER NOT NULL,
+        due_date TEXT NOT NULL,
+        payment REAL NOT NULL,
+        principal REAL NOT NULL,
+        interest REAL NOT NULL,
+        balance REAL NOT NULL,  -- Principal left after this installment
+        paid_date TEXT,
+        payment_id INTEGER REFERENCES payments(id),
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        UNIQUE (loan_id, number)
+      );
+      CREATE INDEX idx_loan_installments_due ON loan_installments(due_date);
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('2700', 'Long-term Loans', 'liability');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('2800', 'Hire Purchase Payable', 'liability');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('5810', 'Interest Expense', 'expense');
+    `);
+  }
+
+  // Products and services catalog with stock movements (migration)
+  const hasItems = db.prepare(
+    "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name='items'"
+  ).get() as { count: number };
+
+  if (hasItems.count === 0) {
+    db.exec(`
+      CREATE TABLE items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        sku TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        name TEXT NOT NULL,
+        description TEXT,                    -- Invoice line text, defaults to the name
+        type TEXT NOT NULL DEFAULT 'service' CHECK (type IN ('service', 'non_inventory', 'inventory')),
+        unit_price REAL NOT NULL DEFAULT 0,  -- Default selling price
+        purchase_price REAL,                 -- Default cost on bills
+        income_account_id INTEGER REFERENCES accounts(id),
+        expense_account_id INTEGER REFERENCES accounts(id),    -- Purchases, or cost of goods sold for stock
+        inventory_account_id INTEGER REFERENCES accounts(id),  -- Stock on hand, inventory items only
+        tax_code TEXT,
+        classification_code TEXT,            -- LHDN classification, e.g. 022
+        unit_code TEXT,                      -- LHDN unit of measure, e.g. EA
+        is_active INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE stock_movements (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        item_id INTEGER NOT NULL REFERENCES items(id),
+        date TEXT NOT NULL,
+        quantity REAL NOT NULL,   -- Positive in, negative out
+        value REAL NOT NULL,      -- At cost, signed like quantity
+        source_type TEXT NOT NULL CHECK (source_type IN ('bill', 'invoice', 'adjustment')),
+        source_id INTEGER,
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        description TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_stock_movements_item ON stock_movements(item_id, date);
+      CREATE INDEX idx_stock_movements_source ON stock_movements(source_type, source_id);
+
+      ALTER TABLE invoice_items ADD COLUMN item_id INTEGER REFERENCES items(id);
+      ALTER TABLE bill_items ADD COLUMN item_id INTEGER REFERENCES items(id);
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('1400', 'Inventory', 'asset');
+    `);
+  }
+
+  // Purchase orders matched against vendor bills (migration)
+  const hasPurchaseOrders = db.prepare(
+    "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name='purchase_orders'"
+  ).get() as { count: number };
+
+  if (hasPurchaseOrders.count === 0) {
+    db.exec(`
+      CREATE TABLE purchase_orders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        number TEXT NOT NULL UNIQUE,
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id),
+        date TEXT NOT NULL,
+        expected_date TEXT,
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'cancelled')),  -- Partly received is worked out from the lines
+        subtotal REAL NOT NULL DEFAULT 0,
+        tax_amount REAL DEFAULT 0,
+        total REAL NOT NULL DEFAULT 0,
+        currency_code TEXT,
+        notes TEXT,
+        closed_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE purchase_order_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+        description TEXT NOT NULL,
+        quantity REAL NOT NULL CHECK (quantity > 0),
+        unit_price REAL NOT NULL CHECK (unit_price >= 0),
+        amount REAL NOT NULL,
+        account_id INTEGER REFERENCES accounts(id),  -- Left to the bill when not given
+        item_id INTEGER REFERENCES items(id),
+        tax_code TEXT,
+        tax_rate REAL DEFAULT 0,
+        tax_amount REAL DEFAULT 0,
+        quantity_received REAL NOT NULL DEFAULT 0,
+        sort_order INTEGER DEFAULT 0
+      );
+      CREATE INDEX idx_purchase_orders_vendor ON purchase_orders(vendor_id);
+
+      ALTER TABLE bills ADD COLUMN purchase_order_id INTEGER REFERENCES purchase_orders(id);
+      ALTER TABLE bill_items ADD COLUMN po_item_id INTEGER REFERENCES purchase_order_items(id);
+      ALTER TABLE expenses ADD COLUMN purchase_order_id INTEGER REFERENCES purchase_orders(id);
+    `);
+  }
+
+  // Time entries billed to customers by the hour (migration)
+  const hasTimeEntries = db.prepare(
+    "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name='time_entries'"
+  ).get() as { count: number };
+
+  if (hasTimeEntries.count === 0) {
+    db.exec(`
+      CREATE TABLE time_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL,
+        customer_id INTEGER NOT NULL REFERENCES customers(id),
+        tracking_value_id INTEGER REFERENCES tracking_values(id),  -- Project
+        hours REAL CHECK (hours IS NULL OR hours > 0),              -- NULL while the timer runs
+        rate REAL NOT NULL DEFAULT 0 CHECK (rate >= 0),
+        description TEXT,
+        is_billable INTEGER NOT NULL DEFAULT 1,
+        started_at TEXT,
+        invoice_id INTEGER REFERENCES invoices(id),                 -- Set once billed
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_time_entries_customer ON time_entries(customer_id, invoice_id);
+      CREATE INDEX idx_time_entries_date ON time_entries(date);
+    `);
+  }
+
+  // Withholding tax on payments to non-resident vendors (migration)
+  const hasWithholdingTax = db.prepare(
+    "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name='wht_categories'"
+  ).get() as { count: number };
+
+  if (hasWithholdingTax.count === 0) {
+    db.exec(`
+      CREATE TABLE wht_categories (
+        code TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        section TEXT NOT NULL,  -- Income Tax Act 1967
+        form TEXT NOT NULL,     -- Remittance form (CP37, CP37A, ...)
+        rate REAL NOT NULL CHECK (rate >= 0 AND rate <= 100)
+      );
+
+      INSERT INTO wht_categories (code, name, section, form, rate) VALUES
+        ('contract', 'Contract payments (10% + 3%)', '107A', 'CP37A', 13),
+        ('interest', 'Interest', '109', 'CP37', 15),
+        ('royalty', 'Royalties', '109', 'CP37', 10),
+        ('technical', 'Technical advice, assistance or services', '109B', 'CP37D', 10),
+        ('rental', 'Rent or payments for use of movable property', '109B', 'CP37D', 10),
+        ('other', 'Other income (commissions, guarantee fees)', '109F', 'CP37F', 10);
+
+      ALTER TABLE vendors ADD COLUMN is_non_resident INTEGER DEFAULT 0;
+      ALTER TABLE vendors ADD COLUMN wht_category TEXT REFERENCES wht_categories(code);
+      ALTER TABLE vendors ADD COLUMN wht_rate REAL;  -- Treaty rate, overriding the category rate
+
+      ALTER TABLE payments ADD COLUMN wht_amount REAL DEFAULT 0;  -- Withheld; amount is the net paid
+
+      CREATE TABLE wht_remittances (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL,
+        form TEXT NOT NULL,
+        amount REAL NOT NULL,
+        reference TEXT,  -- LHDN receipt number
+        payment_id INTEGER REFERENCES payments(id),
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE wht_deductions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        payment_id INTEGER NOT NULL REFERENCES payments(id),
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id),
+        date TEXT NOT NULL,          -- Paid or credited
+        due_date TEXT NOT NULL,      -- Remit within one month
+        category TEXT NOT NULL REFERENCES wht_categories(code),
+        section TEXT NOT NULL,
+        form TEXT NOT NULL,
+        rate REAL NOT NULL,
+        gross_amount REAL NOT NULL,  -- Base currency
+        wht_amount REAL NOT NULL,
+        remittance_id INTEGER REFERENCES wht_remittances(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_wht_deductions_due ON wht_deductions(remittance_id, due_date);
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('2360', 'Withholding Tax Payable', 'liability');
+    `);
+  }
+
+  // Monthly payroll with statutory deductions (migration)
+  const hasPayroll = db.prepare(
+    "SELECT COUNT(*) as count FROM sqlite_master WHERE type='table' AND name='payroll_runs'"
+  ).get() as { count: number };
+
+  if (hasPayroll.count === 0) {
+    db.exec(`
+      ALTER TABLE employees ADD COLUMN monthly_salary REAL DEFAULT 0;
+      ALTER TABLE employees ADD COLUMN ic_number TEXT;
+      ALTER TABLE employees ADD COLUMN date_of_birth TEXT;        -- Picks the EPF, SOCSO and EIS age category
+      ALTER TABLE employees ADD COLUMN epf_number TEXT;
+      ALTER TABLE employees ADD COLUMN socso_number TEXT;
+      ALTER TABLE employees ADD COLUMN tax_number TEXT;           -- LHDN income tax number
+      ALTER TABLE employees ADD COLUMN pcb_category INTEGER DEFAULT 1 CHECK (pcb_category IN (1, 2, 3));
+      ALTER TABLE employees ADD COLUMN children INTEGER DEFAULT 0;
+
+      CREATE TABLE payroll_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        period TEXT NOT NULL UNIQUE,  -- YYYY-MM
+        date TEXT NOT NULL,           -- Pay date
+        status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'posted', 'paid')),
+        tables TEXT NOT NULL,         -- Name of the contribution tables used
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        payment_id INTEGER REFERENCES payments(id),  -- Net salaries paid
+        paid_date TEXT,
+        posted_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE payroll_lines (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL REFERENCES payroll_runs(id) ON DELETE CASCADE,
+        employee_id INTEGER NOT NULL REFERENCES employees(id),
+        basic REAL NOT NULL,
+        allowances REAL NOT NULL DEFAULT 0,
+        gross REAL NOT NULL,
+        epf_employee REAL NOT NULL DEFAULT 0,
+        epf_employer REAL NOT NULL DEFAULT 0,
+        socso_employee REAL NOT NULL DEFAULT 0,
+        socso_employer REAL NOT NULL DEFAULT 0,
+        eis_employee REAL NOT NULL DEFAULT 0,
+        eis_employer REAL NOT NULL DEFAULT 0,
+        pcb REAL NOT NULL DEFAULT 0,
+        net REAL NOT NULL,
+        UNIQUE (run_id, employee_id)
+      );
+
+      CREATE TABLE payroll_remittances (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL REFERENCES payroll_runs(id),
+        scheme TEXT NOT NULL CHECK (scheme IN ('epf', 'socso', 'eis', 'pcb')),
+        amount REAL NOT NULL,          -- Employee and employer shares
+        due_date TEXT NOT NULL,        -- 15th of the following month
+        paid_date TEXT,
+        reference TEXT,
+        payment_id INTEGER REFERENCES payments(id),
+        journal_entry_id INTEGER REFERENCES journal_entries(id),
+        UNIQUE (run_id, scheme)
+      );
+      CREATE INDEX idx_payroll_remittances_due ON payroll_remittances(paid_date, due_date);
+
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('2210', 'Accrued Salaries', 'liability');
+      INSERT OR IGNORE INTO accounts (code, name, type, description) VALUES ('2220', 'EPF Payable', 'liability', 'Employees Provident Fund');
+      INSERT OR IGNORE INTO accounts (code, name, type, description) VALUES ('2230', 'SOCSO Payable', 'liability', 'Social Security Organisation');
+      INSERT OR IGNORE INTO accounts (code, name, type, description) VALUES ('2240', 'EIS Payable', 'liability', 'Employment Insurance System');
+      INSERT OR IGNORE INTO accounts (code, name, type, description) VALUES ('2250', 'PCB Payable', 'liability', 'Monthly Tax Deduction (MTD/PCB)');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('6400', 'Salaries & Wages', 'expense');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('6410', 'EPF - Employer Contribution', 'expense');
+      INSERT OR IGNORE INTO accounts (code, name, type) VALUES ('6420', 'SOCSO & EIS - Employer Contribution', 'expense');
+    `);
+  }
+
+  // Drafts were posted to the ledger when created until issuing became its own
+  // step; those already carry an invoice number and entry, so they count as sent (migration)
+  db.exec("UPDATE invoices SET status = 'sent' WHERE status = 'draft' AND journal_entry_id IS NOT NULL");
 }
 
 function initSchema(db: Database.Database): void {
@@ -1,5 +1,6 @@
 // Accounts domain logic for Chart of Accounts management
 import { getDb } from "../db/index.js";
+import { today } from "../core/dates.js";
 
 export interface Account {
   id: number;
@@ -9,6 +10,7 @@ export interface Account {
   parent_id: number | null;
   description: string | null;
   is_active: number; // SQLite uses 0/1 for boolean
+  is_bank?: number;  // Bank or cash account money can be paid from or into
   created_at: string;
   balance?: number; // Calculated field
   children?: Account[]; // For hierarchy
@@ -28,6 +30,7 @@ export interface CreateAccountData {
   parent_id?: number | null;
   description?: string;
   opening_balance?: number;
+  is_bank?: boolean;
 }
 
 export interface UpdateAccountData {
@@ -37,6 +40,7 @@ export interface UpdateAccountData {
   parent_id?: number | null;
   description?: string;
   is_active?: boolean;
+  is_bank?: boolean;
 }
 
 // List all accounts with optional filtering
@@ -115,6 +119,28 @@ export function getAccountByCode(code: string): Account | null {
   };
 }
 
+// Get a standard account the chart must have, by code
+export function requireAccount(code: string, name: string): Account {
+  const account = getAccountByCode(code);
+  if (!account) {
+    throw new Error(`${name} account (${code}) not found. Please ensure chart of accounts is set up.`);
+  }
+  return account;
+}
+
+// Get an account by ID or code, falling back to a default code when none is given
+export function resolveAccount(account: number | string | undefined, fallbackCode: string | undefined, label: string): Account {
+  const found = account === undefined
+    ? fallbackCode ? getAccountByCode(fallbackCode) : undefined
+    : typeof account === "number" ? getAccount(account) : getAccountByCode(account.trim());
+  if (!found) {
+    throw new Error(account === undefined && !fallbackCode
+      ? `${label} account is required`
+      : `${label} account not found: ${account ?? fallbackCode}`);
+  }
+  return found;
+}
+
 // Create new account
 export function createAccount(data: CreateAccountData): Account {
   const db = getDb();
@@ -137,18 +163,23 @@ export function createAccount(data: CreateAccountData): Account {
     }
   }
 
+  if (data.is_bank && data.type !== "asset") {
+    throw new Error("Only asset accounts can be bank or cash accounts");
+  }
+
   // Insert account
   const result = db
     .prepare(
-      `INSERT INTO accounts (code, name, type, parent_id, description, is_active)
-       VALUES (?, ?, ?, ?, ?, 1)`
+      `INSERT INTO accounts (code, name, type, parent_id, description, is_active, is_bank)
+       VALUES (?, ?, ?, ?, ?, 1, ?)`
     )
     .run(
       data.code,
       data.name,
       data.type,
       data.parent_id || null,
-      data.description || null
+      data.description || null,
+      data.is_bank ? 1 : 0
     );
 
   const accountId = result.lastInsertRowid as number;
@@ -223,6 +254,13 @@ export function updateAccount(id: number, data: UpdateAccountData): Account {
     updates.push("is_active = ?");
     params.push(data.is_active ? 1 : 0);
   }
+  if (data.is_bank !== undefined) {
+    if (data.is_bank && (data.type ?? account.type) !== "asset") {
+      throw new Error("Only asset accounts can be bank or cash accounts");
+    }
+    updates.push("is_bank = ?");
+    params.push(data.is_bank ? 1 : 0);
+  }
 
   if (updates.length > 0) {
     params.push(id);
@@ -299,11 +337,13 @@ export function getAccountBalance(
 
 /**
  * Batch calculate account balances - fixes N+1 query problem
- * Calculates all account balances in a single query
+ * Calculates all account balances in a single query.
+ * Pass excludeClosing to leave year-end closing entries out (P&L activity).
  */
 export function getAccountBalances(
   accountIds?: number[],
-  asOfDate?: string
+  asOfDate?: string,
+  options: { excludeClosing?: boolean } = {}
 ): Map<number, number> {
   const db = getDb();
 
@@ -331,6 +371,10 @@ export function getAccountBalances(
     params.push(asOfDate);
   }
 
+  if (options.excludeClosing) {
+    conditions.push("(je.entry_type IS NULL OR je.entry_type != 'closing')");
+  }
+
   if (conditions.length > 0) {
     sql += " WHERE " + conditions.join(" AND ");
   }
@@ -561,7 +605,7 @@ function createOpeningBalanceEntry(
        VALUES (?, ?, ?)`
     )
     .run(
-      new Date().toISOString().split("T")[0],
+      today(),
       `Opening balance for ${account.name}`,
       "OPENING"
     );
@@ -0,0 +1,536 @@
+// Amortization schedules: prepaid expenses, deferred revenue and accruals spread over months
+import { getDb, logAudit, withTransaction } from "../db/index.js";
+import {
+  createJournalEntry,
+  deleteJournalEntry,
+  type CreateJournalLineData,
+} from "./journal.js";
+import { getAccount, resolveAccount } from "./accounts.js";
+import { calculateTax } from "./tax-codes.js";
+import { toBase } from "./exchange-rates.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { assertIsoDate, assertMonth, shiftMonth, monthsBetween, monthEnd, today } from "../core/dates.js";
+
+const amortizationLogger = logger.child({ module: "amortization" });
+
+export type AmortizationType = "prepayment" | "deferred_revenue" | "accrual";
+
+export interface AmortizationSchedule {
+  id: number;
+  name: string;
+  type: AmortizationType;
+  expense_id?: number | null;
+  invoice_item_id?: number | null;
+  total: number;
+  start_month: string;
+  months: number;
+  balance_account_id: number;
+  target_account_id: number;
+  status: "active" | "completed" | "cancelled";
+  setup_journal_entry_id?: number | null;
+  cancelled_date?: string | null;
+  cancel_amount: number;
+  cancel_journal_entry_id?: number | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+  // Computed
+  balance_account_code?: string;
+  balance_account_name?: string;
+  target_account_code?: string;
+  target_account_name?: string;
+  recognized?: number; // Monthly entries plus any catch-up on cancellation
+  remaining?: number;  // Still held on the balance account (prepaid or deferred), or still to accrue
+  last_posted_month?: string | null;
+}
+
+export interface AmortizationScheduleLine {
+  month: string;
+  date: string; // Month end, when the entry is dated
+  amount: number;
+  posted: boolean;
+  journal_entry_id: number | null;
+  balance: number; // On the balance account after this month
+}
+
+export interface CreateAmortizationData {
+  name?: string;
+  type?: AmortizationType;        // Implied by expense_id (prepayment) or invoice_item_id (deferred_revenue)
+  expense_id?: number;            // Spread an expense already recorded
+  invoice_item_id?: number;       // Defer revenue from an issued invoice line
+  amount?: number;                // Defaults to the source's net amount; required without one
+  start_date: string;             // First month recognized (full-month convention)
+  months: number;
+  target_account?: number | string;  // Defaults to the source's account; required without one
+  balance_account?: number | string; // Defaults to 1300 Prepaid Expenses, 2450 Deferred Revenue or 2350 Accrued Expenses
+  notes?: string;
+}
+
+export interface AmortizationRunResult {
+  through_month: string;
+  dry_run: boolean;
+  entries: Array<{
+    month: string;
+    journal_entry_id: number | null;
+    total: number;
+    schedules: Array<{ schedule_id: number; name: string; amount: number }>;
+  }>;
+  total: number;
+}
+
+const DEFAULT_BALANCE_ACCOUNTS: Record<AmortizationType, string> = {
+  prepayment: "1300",
+  deferred_revenue: "2450",
+  accrual: "2350",
+};
+
+// Accruals build a balance up rather than running one down
+function accrues(schedule: AmortizationSchedule): boolean {
+  return schedule.type === "accrual";
+}
+
+// Straight line, with the last month taking the rounding
+function monthlyAmount(schedule: Pick<AmortizationSchedule, "total" | "months">, monthIndex: number): number {
+  const regular = money.round2(schedule.total / schedule.months);
+  if (monthIndex < schedule.months - 1) return regular;
+  return money.subtract(schedule.total, money.multiply(regular, schedule.months - 1));
+}
+
+// Recognition lines for one schedule: prepayments and accruals charge the
+// expense, deferred revenue releases income from the liability
+function recognitionLines(schedule: AmortizationSchedule, amount: number, description: string): CreateJournalLineData[] {
+  const [debit, credit] = schedule.type === "deferred_revenue"
+    ? [schedule.balance_account_id, schedule.target_account_id]
+    : [schedule.target_account_id, schedule.balance_account_id];
+  return [
+    { account_id: debit, debit: amount, credit: 0, description },
+    { account_id: credit, debit: 0, credit: amount, description },
+  ];
+}
+
+/**
+ * Create a schedule
+ * An expense or invoice line is moved onto the balance account by a setup
+ * entry on its own date, then released month by month. Without a source the
+ * amount is assumed to be on the balance account already (or, for accruals,
+ * built up there by the monthly entries).
+ */
+export function createAmortizationSchedule(data: CreateAmortizationData): AmortizationSchedule {
+  assertIsoDate(data.start_date);
+  if (!Number.isInteger(data.months) || data.months <= 0) {
+    throw new Error("Months must be a whole number greater than 0");
+  }
+  if (data.expense_id !== undefined && data.invoice_item_id !== undefined) {
+    throw new Error("A schedule can spread an expense or an invoice line, not both");
+  }
+
+  const db = getDb();
+  const type: AmortizationType = data.type
+    ?? (data.expense_id !== undefined ? "prepayment" : data.invoice_item_id !== undefined ? "deferred_revenue" : "accrual");
+
+  // The source's net amount, the account it was posted to, and the setup entry date
+  let source: { amount: number; account_id: number; date: string; name: string; reference?: string } | undefined;
+
+  if (data.expense_id !== undefined) {
+    if (type !== "prepayment") {
+      throw new Error("Expenses can only be spread as prepayments");
+    }
+    const expense = db.prepare("SELECT * FROM expenses WHERE id = ?").get(data.expense_id) as {
+      id: number; date: string; account_id: number; amount: number; description: string | null; reference: string | null; tax_code: string | null;
+    } | undefined;
+    if (!expense) {
+      throw new Error(`Expense #${data.expense_id} not found`);
+    }
+    // Recoverable tax never reached the expense account
+    const recoverable = expense.tax_code
+      ? calculateTax(expense.amount, expense.tax_code, expense.date, { side: "purchases", inclusive: true }).parts
+        .filter((part) => part.account_id && part.amount > 0)
+      : [];
+    source = {
+      amount: money.subtract(expense.amount, money.sum(recoverable.map((part) => part.amount))),
+      account_id: expense.account_id,
+      date: expense.date,
+      name: expense.description || `Expense #${expense.id}`,
+      reference: expense.reference || undefined,
+    };
+  }
+
+  if (data.invoice_item_id !== undefined) {
+    if (type !== "deferred_revenue") {
+      throw new Error("Invoice lines can only be spread as deferred revenue");
+    }
+    const item = db.prepare(`
+      SELECT ii.*, i.number, i.date, i.status, i.document_type, i.exchange_rate, i.journal_entry_id
+      FROM invoice_items ii
+      JOIN invoices i ON ii.invoice_id = i.id
+      WHERE ii.id = ?
+    `).get(data.invoice_item_id) as {
+      id: number; description: string; amount: number; taxable_amount: number | null; account_id: number | null;
+      number: string; date: string; status: string; document_type: string | null; exchange_rate: number | null; journal_entry_id: number | null;
+    } | undefined;
+    if (!item) {
+      throw new Error(`Invoice line #${data.invoice_item_id} not found`);
+    }
+    if (!item.journal_entry_id || item.status === "draft" || item.status === "cancelled") {
+      throw new Error(`Invoice ${item.number} must be issued before its revenue can be deferred`);
+    }
+    if (item.document_type === "02") {
+      throw new Error("Credit note lines cannot be deferred");
+    }
+    source = {
+      amount: toBase(item.taxable_amount ?? item.amount, item.exchange_rate ?? 1),
+      account_id: item.account_id ?? resolveAccount(undefined, "4000", "Sales revenue").id,
+      date: item.date,
+      name: `${item.number} ${item.description}`,
+      reference: item.number,
+    };
+  }
+
+  if (source) {
+    const existing = db.prepare(`
+      SELECT id FROM amortization_schedules
+      WHERE status != 'cancelled' AND (expense_id = ? OR invoice_item_id = ?)
+    `).get(data.expense_id ?? null, data.invoice_item_id ?? null);
+    if (existing) {
+      throw new Error(`Already spread by schedule #${(existing as { id: number }).id}`);
+    }
+  }
+
+  const total = money.round2(data.amount ?? source?.amount ?? 0);
+  if (!(total > 0)) {
+    throw new Error("Amount must be greater than 0");
+  }
+  if (source && total > source.amount) {
+    throw new Error(`Amount (${money.format(total)}) exceeds the ${money.format(source.amount)} posted for ${source.name}`);
+  }
+
+  const balanceAccount = resolveAccount(data.balance_account, DEFAULT_BALANCE_ACCOUNTS[type], "Balance");
+  const targetAccount = data.target_account !== undefined
+    ? resolveAccount(data.target_account, undefined, "Target")
+    : source ? getAccount(source.account_id)! : resolveAccount(undefined, undefined, "Target");
+
+  const expectedBalance = type === "prepayment" ? "asset" : "liability";
+  if (balanceAccount.type !== expectedBalance) {
+    throw new Error(`Account ${balanceAccount.code} is not an ${expectedBalance} account`);
+  }
+  const expectedTarget = type === "deferred_revenue" ? "income" : "expense";
+  if (targetAccount.type !== expectedTarget) {
+    throw new Error(`Account ${targetAccount.code} is not an ${expectedTarget} account`);
+  }
+
+  const name = data.name?.trim() || source?.name || `${targetAccount.name} accrual`;
+
+  return withTransaction(() => {
+    const result = db.prepare(`
+      INSERT INTO amortization_schedules (
+        name, type, expense_id, invoice_item_id, total, start_month, months, balance_account_id, target_account_id, notes
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      name,
+      type,
+      data.expense_id ?? null,
+      data.invoice_item_id ?? null,
+      total,
+      data.start_date.slice(0, 7),
+      data.months,
+      balanceAccount.id,
+      targetAccount.id,
+      data.notes || null
+    );
+    const scheduleId = result.lastInsertRowid as number;
+
+    if (source) {
+      // Prepayments: Dr Prepaid / Cr expense. Deferred revenue: Dr income / Cr Deferred Revenue.
+      const [debit, credit] = type === "prepayment"
+        ? [balanceAccount.id, source.account_id]
+        : [source.account_id, balanceAccount.id];
+      const entry = createJournalEntry({
+        date: source.date,
+        description: `${type === "prepayment" ? "Prepayment" : "Deferred revenue"}: ${name}`,
+        reference: source.reference || `AMORT-${scheduleId}`,
+        lines: [
+          { account_id: debit, debit: total, credit: 0, description: name },
+          { account_id: credit, debit: 0, credit: total, description: name },
+        ],
+      });
+      db.prepare("UPDATE amortization_schedules SET setup_journal_entry_id = ? WHERE id = ?").run(entry.id, scheduleId);
+    }
+
+    const schedule = getAmortizationSchedule(scheduleId)!;
+    logAudit("create", "amortization_schedule", schedule.id, null, schedule);
+    return schedule;
+  });
+}
+
+export function getAmortizationSchedule(id: number): AmortizationSchedule | undefined {
+  const db = getDb();
+  const schedule = db.prepare(`
+    SELECT s.*, b.code as balance_account_code, b.name as balance_account_name, t.code as target_account_code, t.name as target_account_name
+    FROM amortization_schedules s
+    JOIN accounts b ON s.balance_account_id = b.id
+    JOIN accounts t ON s.target_account_id = t.id
+    WHERE s.id = ?
+  `).get(id) as AmortizationSchedule | undefined;
+  if (!schedule) return undefined;
+
+  const posted = db.prepare(
+    "SELECT COALESCE(SUM(amount), 0) as total, MAX(month) as last_month FROM amortization_entries WHERE schedule_id = ?"
+  ).get(id) as { total: number; last_month: string | null };
+
+  schedule.recognized = money.add(posted.total, schedule.cancel_amount || 0);
+  schedule.remaining = schedule.status === "cancelled" ? 0 : money.subtract(schedule.total, schedule.recognized);
+  schedule.last_posted_month = posted.last_month;
+  return schedule;
+}
+
+export function listAmortizationSchedules(options: { status?: AmortizationSchedule["status"]; type?: AmortizationType } = {}): AmortizationSchedule[] {
+  const db = getDb();
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (options.status) {
+    conditions.push("status = ?");
+    params.push(options.status);
+  }
+  if (options.type) {
+    conditions.push("type = ?");
+    params.push(options.type);
+  }
+
+  const rows = db.prepare(`
+    SELECT id FROM amortization_schedules
+    ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY start_month, id
+  `).all(...params) as Array<{ id: number }>;
+  return rows.map((row) => getAmortizationSchedule(row.id)!);
+}
+
+/**
+ * Month-by-month plan for a schedule, marking which months have been posted
+ */
+export function getAmortizationLines(id: number): AmortizationScheduleLine[] {
+  const schedule = getAmortizationSchedule(id);
+  if (!schedule) {
+    throw new Error("Amortization schedule not found");
+  }
+
+  const posted = new Map(
+    (getDb().prepare("SELECT month, amount, journal_entry_id FROM amortization_entries WHERE schedule_id = ?").all(id) as Array<{
+      month: string; amount: number; journal_entry_id: number | null;
+    }>).map((row) => [row.month, row])
+  );
+
+  let remaining = schedule.total;
+  const lines: AmortizationScheduleLine[] = [];
+  for (let i = 0; i < schedule.months; i++) {
+    const month = shiftMonth(schedule.start_month, i);
+    const entry = posted.get(month);
+    const amount = entry?.amount ?? monthlyAmount(schedule, i);
+    remaining = money.subtract(remaining, amount);
+    lines.push({
+      month,
+      date: monthEnd(month),
+      amount,
+      posted: !!entry,
+      journal_entry_id: entry?.journal_entry_id ?? null,
+      balance: accrues(schedule) ? money.subtract(schedule.total, remaining) : remaining,
+    });
+  }
+  return lines;
+}
+
+/**
+ * Post monthly entries for all active schedules up to and including a month
+ * Catches up any months not yet posted; one adjusting entry per month, dated
+ * the last day of the month. With dry_run nothing is posted.
+ */
+export function runAmortization(
+  throughMonth: string,
+  options: { dry_run?: boolean; schedule_id?: number } = {}
+): AmortizationRunResult {
+  assertMonth(throughMonth);
+  const db = getDb();
+
+  const schedules = listAmortizationSchedules({ status: "active" }).filter(
+    (s) => s.start_month <= throughMonth && (options.schedule_id === undefined || s.id === options.schedule_id)
+  );
+
+  // Work out what each schedule still needs, grouped by month
+  const byMonth = new Map<string, Array<{ schedule: AmortizationSchedule; amount: number }>>();
+  const finishing = new Set<number>();
+  for (const schedule of schedules) {
+    let index = schedule.last_posted_month ? monthsBetween(schedule.start_month, schedule.last_posted_month) + 1 : 0;
+    let month = shiftMonth(schedule.start_month, index);
+
+    while (index < schedule.months && month <= throughMonth) {
+      byMonth.set(month, [...(byMonth.get(month) || []), { schedule, amount: monthlyAmount(schedule, index) }]);
+      index++;
+      month = shiftMonth(month, 1);
+    }
+    if (index >= schedule.months) finishing.add(schedule.id);
+  }
+
+  const months = [...byMonth.keys()].sort();
+  const result: AmortizationRunResult = { through_month: throughMonth, dry_run: !!options.dry_run, entries: [], total: 0 };
+
+  const post = () => {
+    const insert = db.prepare(
+      "INSERT INTO amortization_entries (schedule_id, month, amount, journal_entry_id) VALUES (?, ?, ?, ?)"
+    );
+
+    for (const month of months) {
+      const charges = byMonth.get(month)!;
+      const total = charges.reduce((sum, c) => money.add(sum, c.amount), 0);
+      let journalEntryId: number | null = null;
+
+      if (!options.dry_run) {
+        // One line per account and side across all schedules
+        const debits = new Map<number, number>();
+        const credits = new Map<number, number>();
+        for (const { schedule, amount } of charges) {
+          for (const line of recognitionLines(schedule, amount, "")) {
+            const side = line.debit > 0 ? debits : credits;
+            side.set(line.account_id, money.add(side.get(line.account_id) || 0, line.debit || line.credit));
+          }
+        }
+
+        const entry = createJournalEntry({
+          date: monthEnd(month),
+          description: `Amortization for ${month}`,
+          reference: `AMORT-${month}`,
+          entry_type: "adjusting",
+          lines: [
+            ...[...debits].map(([accountId, amount]) => ({ account_id: accountId, debit: amount, credit: 0, description: `Amortization ${month}` })),
+            ...[...credits].map(([accountId, amount]) => ({ account_id: accountId, debit: 0, credit: amount, description: `Amortization ${month}` })),
+          ],
+        });
+        journalEntryId = entry.id;
+
+        for (const { schedule, amount } of charges) {
+          insert.run(schedule.id, month, amount, entry.id);
+        }
+      }
+
+      result.entries.push({
+        month,
+        journal_entry_id: journalEntryId,
+        total,
+        schedules: charges.map((c) => ({ schedule_id: c.schedule.id, name: c.schedule.name, amount: c.amount })),
+      });
+      result.total = money.add(result.total, total);
+    }
+
+    if (!options.dry_run && finishing.size > 0) {
+      const complete = db.prepare("UPDATE amortization_schedules SET status = 'completed', updated_at = CURRENT_TIMESTAMP WHERE id = ?");
+      for (const id of finishing) complete.run(id);
+    }
+  };
+
+  if (options.dry_run) {
+    post();
+  } else {
+    withTransaction(post);
+    if (months.length > 0) {
+      logAudit("create", "amortization_entries", null, null, { through_month: throughMonth, months: months.length, total: result.total });
+      amortizationLogger.info({ throughMonth, months: months.length, total: result.total }, "Amortization posted");
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Post every month that has ended, e.g. when the app starts
+ */
+export function runDueAmortization(asOfDate: string = today()): AmortizationRunResult {
+  return runAmortization(shiftMonth(asOfDate.slice(0, 7), -1));
+}
+
+/**
+ * Stop a schedule partway
+ * One catch-up entry on the cancellation date recognizes what the schedule still
+ * holds: the rest of a prepaid or deferred balance, or for accruals whatever
+ * should have been accrued through that month. Nothing is posted afterwards.
+ */
+export function cancelAmortizationSchedule(
+  id: number,
+  data: { date: string; reason?: string }
+): { success: boolean; error?: string; catch_up?: number } {
+  assertIsoDate(data.date);
+  const schedule = getAmortizationSchedule(id);
+  if (!schedule) {
+    return { success: false, error: "Amortization schedule not found" };
+  }
+  if (schedule.status !== "active") {
+    return { success: false, error: `Schedule is already ${schedule.status}` };
+  }
+  if (schedule.last_posted_month && data.date.slice(0, 7) < schedule.last_posted_month) {
+    return { success: false, error: `Entries are posted through ${schedule.last_posted_month}; cancel on or after that month` };
+  }
+
+  let catchUp = schedule.remaining || 0;
+  if (accrues(schedule)) {
+    const due = getAmortizationLines(id)
+      .filter((line) => line.month <= data.date.slice(0, 7))
+      .reduce((sum, line) => money.add(sum, line.amount), 0);
+    catchUp = money.subtract(due, schedule.recognized || 0);
+  }
+
+  try {
+    withTransaction(() => {
+      const db = getDb();
+      let entryId: number | null = null;
+      if (catchUp > 0) {
+        const entry = createJournalEntry({
+          date: data.date,
+          description: `Amortization catch-up on cancelling ${schedule.name}`,
+          reference: `AMORT-${schedule.id}`,
+          entry_type: "adjusting",
+          lines: recognitionLines(schedule, catchUp, data.reason ? `Cancelled: ${data.reason}` : "Cancelled"),
+        });
+        entryId = entry.id;
+      }
+
+      db.prepare(`
+        UPDATE amortization_schedules
+        SET status = 'cancelled', cancelled_date = ?, cancel_amount = ?, cancel_journal_entry_id = ?,
+            notes = COALESCE(notes || ' | ', '') || ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(data.date, catchUp, entryId, data.reason ? `Cancelled: ${data.reason}` : "Cancelled", id);
+    });
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+
+  logAudit("cancel", "amortization_schedule", id, { status: schedule.status }, { status: "cancelled", catch_up: catchUp });
+  return { success: true, catch_up: catchUp };
+}
+
+/**
+ * Delete a schedule entered by mistake (only before any month is posted)
+ * The setup entry moving the source onto the balance account is removed too.
+ */
+export function deleteAmortizationSchedule(id: number): { success: boolean; error?: string } {
+  const schedule = getAmortizationSchedule(id);
+  if (!schedule) {
+    return { success: false, error: "Amortization schedule not found" };
+  }
+  if (schedule.last_posted_month || schedule.cancel_journal_entry_id) {
+    return { success: false, error: "Schedule has entries posted. Cancel it instead." };
+  }
+
+  try {
+    withTransaction(() => {
+      getDb().prepare("DELETE FROM amortization_schedules WHERE id = ?").run(id);
+      if (schedule.setup_journal_entry_id) {
+        deleteJournalEntry(schedule.setup_journal_entry_id);
+      }
+    });
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+
+  logAudit("delete", "amortization_schedule", id, schedule, null);
+  return { success: true };
+}
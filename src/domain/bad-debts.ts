@@ -0,0 +1,408 @@
+// Bad debt write-offs, SST bad debt relief and recoveries
+import { getDb, getSetting, logAudit, withTransaction } from "../db/index.js";
+import { getInvoice, recordPaymentToInvoice, type Invoice } from "./invoices.js";
+import { createJournalEntry, type CreateJournalLineData } from "./journal.js";
+import { getAccountByCode, requireAccount } from "./accounts.js";
+import { getSSTCategory, getTaxCode, splitStoredTax } from "./tax-codes.js";
+import { resolveBankAccount } from "./bank-accounts.js";
+import type { Payment } from "./payments.js";
+import {
+  getBaseCurrency,
+  isForeignCurrency,
+  resolveDocumentRate,
+  foreignLineFields,
+  toBase,
+} from "./exchange-rates.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { today } from "../core/dates.js";
+
+const badDebtLogger = logger.child({ module: "bad-debts" });
+
+/**
+ * Sales Tax Act 2018 and Service Tax Act 2018: tax can be reclaimed on a debt
+ * written off once no payment has been received for twelve months from the
+ * invoice date. Overridable with the bad_debt_relief_months setting.
+ */
+const DEFAULT_RELIEF_MONTHS = 12;
+
+export interface BadDebt {
+  id: number;
+  invoice_id: number;
+  invoice_number?: string;
+  customer_name?: string;
+  date: string;
+  amount: number;              // Document currency
+  base_amount: number;
+  reason: string;
+  journal_entry_id?: number;
+  relief_amount: number;       // Output tax reclaimed, base currency
+  relief_date?: string | null;
+  relief_journal_entry_id?: number | null;
+  relief_eligible_from?: string;
+  recovered_amount: number;    // Document currency
+  created_at: string;
+}
+
+export interface BadDebtRecovery {
+  id: number;
+  bad_debt_id: number;
+  payment_id?: number;
+  date: string;
+  amount: number;              // Document currency
+  base_amount: number;
+  tax_repaid: number;          // Relief given back, base currency
+  journal_entry_id?: number;
+  created_at: string;
+}
+
+export interface WriteOffData {
+  reason: string;
+  date?: string;
+  claim_relief?: boolean;      // Also reclaim output tax, if the qualifying period has passed
+}
+
+export interface RecoverBadDebtData {
+  amount: number;              // Document currency
+  date?: string;
+  method?: Payment["method"];
+  reference?: string;
+  bank_account?: number | string; // Received into; defaults to the default bank account
+}
+
+function documentCurrency(invoice: Invoice): string {
+  return (invoice.exchange_rate && invoice.currency_code) || getBaseCurrency();
+}
+
+/**
+ * First date SST bad debt relief can be claimed for an invoice
+ */
+export function reliefEligibleFrom(invoiceDate: string): string {
+  const months = parseInt(getSetting("bad_debt_relief_months") || "") || DEFAULT_RELIEF_MONTHS;
+  const d = new Date(`${invoiceDate}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * Output tax on an invoice's SST lines, per tax account, in base currency.
+ * Lines without a code count when their LHDN tax type is sales or service tax;
+ * combined codes count for their SST parts only.
+ */
+function sstOutputTax(invoice: Invoice): Array<{ account_id: number; tax: number }> {
+  const items = getDb().prepare(`
+    SELECT ii.tax_code, ii.tax_type, COALESCE(ii.taxable_amount, ii.amount) as taxable_amount,
+      COALESCE(ii.tax_amount, 0) as tax_amount
+    FROM invoice_items ii
+    WHERE ii.invoice_id = ? AND COALESCE(ii.tax_amount, 0) > 0
+  `).all(invoice.id) as Array<{ tax_code: string | null; tax_type: string | null; taxable_amount: number; tax_amount: number }>;
+
+  const salesTax = getAccountByCode("2300")?.id ?? null;
+  const byAccount = new Map<number, number>();
+  const add = (accountId: number | null, tax: number) => {
+    if (accountId === null) return;
+    byAccount.set(accountId, money.add(byAccount.get(accountId) ?? 0, tax));
+  };
+
+  for (const item of items) {
+    if (!item.tax_code) {
+      if (["01", "02"].includes(item.tax_type ?? "01")) add(salesTax, item.tax_amount);
+      continue;
+    }
+    const parts = item.tax_code.includes("+")
+      ? splitStoredTax(item.taxable_amount, item.tax_code, item.tax_amount, invoice.date, "sales")
+      : [{ code: item.tax_code, amount: item.tax_amount, account_id: getTaxCode(item.tax_code)?.collected_account_id ?? null }];
+    for (const part of parts) {
+      if (getSSTCategory(part.code)) add(part.account_id ?? salesTax, part.amount);
+    }
+  }
+
+  return [...byAccount]
+    .filter(([, tax]) => tax > 0)
+    .map(([account_id, tax]) => ({ account_id, tax: toBase(tax, invoice.exchange_rate ?? 1) }));
+}
+
+/**
+ * Write off the outstanding balance of an invoice as a bad debt
+ * Posts Dr Bad Debts (5830) / Cr Accounts Receivable at the invoice's rate and
+ * marks the invoice settled. With claim_relief, SST output tax is reclaimed in
+ * the same step if the qualifying period has passed; otherwise it can be
+ * claimed later with claimBadDebtRelief.
+ */
+export function writeOffInvoice(invoiceIdOrNumber: number | string, data: WriteOffData): BadDebt {
+  const reason = data.reason?.trim();
+  if (!reason) {
+    throw new Error("A reason is required to write off a bad debt");
+  }
+
+  const badDebt = withTransaction(() => {
+    const db = getDb();
+    const date = data.date || today();
+    const invoice = getInvoice(invoiceIdOrNumber);
+    if (!invoice) {
+      throw new Error(`Invoice not found: ${invoiceIdOrNumber}`);
+    }
+    if (invoice.document_type === "02") {
+      throw new Error("Credit notes cannot be written off");
+    }
+    if (!["sent", "partial", "overdue"].includes(invoice.status)) {
+      throw new Error(`Invoice ${invoice.number} is ${invoice.status}; only unpaid issued invoices can be written off`);
+    }
+    if (date < invoice.date) {
+      throw new Error("Write-off date cannot be before the invoice date");
+    }
+
+    const amount = money.subtract(invoice.total, invoice.amount_paid);
+    const rate = invoice.exchange_rate ?? 1;
+    const currency = documentCurrency(invoice);
+    // Cumulative at the invoice rate so the receivable clears exactly
+    const baseAmount = isForeignCurrency(currency)
+      ? money.subtract(toBase(invoice.total, rate), toBase(invoice.amount_paid, rate))
+      : amount;
+
+    const description = `Bad debt written off - ${invoice.number}`;
+    const entry = createJournalEntry({
+      date,
+      description,
+      reference: invoice.number,
+      entry_type: "adjusting",
+      lines: [
+        { account_id: requireAccount("5830", "Bad Debts").id, debit: baseAmount, credit: 0, description: reason },
+        {
+          account_id: requireAccount("1200", "Accounts Receivable").id, debit: 0, credit: baseAmount, description,
+          ...foreignLineFields(currency, rate, 0, amount),
+        },
+      ],
+    });
+
+    const result = db.prepare(`
+      INSERT INTO bad_debts (invoice_id, date, amount, base_amount, reason, journal_entry_id)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(invoice.id, date, amount, baseAmount, reason, entry.id);
+
+    recordPaymentToInvoice(invoice.id, amount);
+    db.prepare("UPDATE invoices SET written_off_amount = ? WHERE id = ?").run(
+      money.add(invoice.written_off_amount || 0, amount),
+      invoice.id
+    );
+
+    const id = result.lastInsertRowid as number;
+    if (data.claim_relief && date >= reliefEligibleFrom(invoice.date) && sstOutputTax(invoice).length > 0) {
+      claimBadDebtRelief(id, date);
+    }
+    return getBadDebt(id)!;
+  });
+
+  logAudit("write_off", "invoice", badDebt.invoice_id, null, badDebt);
+  badDebtLogger.info({ invoice: badDebt.invoice_number, amount: badDebt.amount }, "Bad debt written off");
+  return badDebt;
+}
+
+/**
+ * Reclaim the SST output tax on a written-off debt
+ * The tax share of the amount written off comes back from Bad Debts to the
+ * tax account, and is reported as bad debt relief on the SST return.
+ */
+export function claimBadDebtRelief(id: number, date?: string): BadDebt {
+  return withTransaction(() => {
+    const claimDate = date || today();
+    const badDebt = getBadDebt(id);
+    if (!badDebt) {
+      throw new Error(`Bad debt not found: ${id}`);
+    }
+    if (badDebt.relief_date) {
+      throw new Error(`Relief for ${badDebt.invoice_number} was already claimed on ${badDebt.relief_date}`);
+    }
+    if (claimDate < badDebt.relief_eligible_from!) {
+      throw new Error(
+        `Bad debt relief for ${badDebt.invoice_number} can be claimed from ${badDebt.relief_eligible_from} (no payment for the qualifying period)`
+      );
+    }
+
+    const invoice = getInvoice(badDebt.invoice_id)!;
+    const outstanding = money.subtract(badDebt.amount, badDebt.recovered_amount);
+    const share = outstanding / invoice.total;
+    const parts = sstOutputTax(invoice)
+      .map((p) => ({ account_id: p.account_id, amount: money.round2(p.tax * share) }))
+      .filter((p) => p.amount > 0);
+    const relief = money.sum(parts.map((p) => p.amount));
+    if (relief <= 0) {
+      throw new Error(`Invoice ${invoice.number} has no SST to reclaim`);
+    }
+
+    const description = `SST bad debt relief - ${invoice.number}`;
+    const lines: CreateJournalLineData[] = [
+      ...parts.map((p) => ({ account_id: p.account_id, debit: p.amount, credit: 0, description })),
+      { account_id: requireAccount("5830", "Bad Debts").id, debit: 0, credit: relief, description },
+    ];
+    const entry = createJournalEntry({
+      date: claimDate,
+      description,
+      reference: invoice.number,
+      entry_type: "adjusting",
+      lines,
+    });
+
+    getDb().prepare(`
+      UPDATE bad_debts SET relief_amount = ?, relief_date = ?, relief_journal_entry_id = ? WHERE id = ?
+    `).run(relief, claimDate, entry.id, id);
+
+    const updated = getBadDebt(id)!;
+    logAudit("claim_relief", "bad_debt", id, badDebt, updated);
+    return updated;
+  });
+}
+
+/**
+ * Record money received on a written-off debt
+ * Posts Dr Bank / Cr Bad Debts; if relief was claimed, the tax share of the
+ * recovery is paid back to the tax account and reported on the SST return.
+ */
+export function recoverBadDebt(invoiceIdOrNumber: number | string, data: RecoverBadDebtData): BadDebtRecovery {
+  if (!(data.amount > 0)) {
+    throw new Error("Recovery amount must be greater than 0");
+  }
+
+  const recovery = withTransaction(() => {
+    const db = getDb();
+    const date = data.date || today();
+    const invoice = getInvoice(invoiceIdOrNumber);
+    if (!invoice) {
+      throw new Error(`Invoice not found: ${invoiceIdOrNumber}`);
+    }
+    const badDebt = listBadDebts({ invoice_id: invoice.id }).find(
+      (b) => money.subtract(b.amount, b.recovered_amount) > 0
+    );
+    if (!badDebt) {
+      throw new Error(`Invoice ${invoice.number} has no written-off balance to recover`);
+    }
+    const outstanding = money.subtract(badDebt.amount, badDebt.recovered_amount);
+    if (data.amount > outstanding) {
+      throw new Error(`Only ${money.format(outstanding)} of ${invoice.number} is written off`);
+    }
+
+    const currency = documentCurrency(invoice);
+    const rate = resolveDocumentRate(currency, date);
+    const baseAmount = toBase(data.amount, rate);
+    // Relief not yet given back, in proportion to what is still written off
+    const reliefLeft = money.subtract(badDebt.relief_amount, money.sum(
+      listBadDebtRecoveries(badDebt.id).map((r) => r.tax_repaid)
+    ));
+    const taxRepaid = reliefLeft > 0 ? money.round2((reliefLeft * data.amount) / outstanding) : 0;
+    const bankAccount = resolveBankAccount(data.bank_account);
+
+    const payment = db.prepare(`
+      INSERT INTO payments (date, type, amount, method, reference, customer_id, invoice_id, notes, currency_code, exchange_rate, foreign_amount, bank_account_id)
+      VALUES (?, 'received', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      date,
+      baseAmount,
+      data.method || "bank",
+      data.reference || null,
+      invoice.customer_id,
+      invoice.id,
+      `Bad debt recovered - ${invoice.number}`,
+      currency,
+      rate,
+      isForeignCurrency(currency) ? data.amount : null,
+      bankAccount.id
+    );
+    const paymentId = payment.lastInsertRowid as number;
+
+    const description = `Bad debt recovered - ${invoice.number}`;
+    const lines: CreateJournalLineData[] = [
+      {
+        account_id: bankAccount.id, debit: baseAmount, credit: 0, description,
+        ...foreignLineFields(currency, rate, data.amount, 0),
+      },
+      { account_id: requireAccount("5830", "Bad Debts").id, debit: 0, credit: money.subtract(baseAmount, taxRepaid), description },
+    ];
+    if (taxRepaid > 0) {
+      // Back to the account the relief came from
+      const reliefLine = db.prepare(`
+        SELECT account_id FROM journal_lines WHERE entry_id = ? AND debit > 0 ORDER BY debit DESC LIMIT 1
+      `).get(badDebt.relief_journal_entry_id) as { account_id: number };
+      lines.push({ account_id: reliefLine.account_id, debit: 0, credit: taxRepaid, description: `SST on ${description.toLowerCase()}` });
+    }
+    const entry = createJournalEntry({ date, description, reference: data.reference || invoice.number, entry_type: "standard", lines });
+    db.prepare("UPDATE payments SET journal_entry_id = ? WHERE id = ?").run(entry.id, paymentId);
+
+    const result = db.prepare(`
+      INSERT INTO bad_debt_recoveries (bad_debt_id, payment_id, date, amount, base_amount, tax_repaid, journal_entry_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(badDebt.id, paymentId, date, data.amount, baseAmount, taxRepaid, entry.id);
+    db.prepare("UPDATE bad_debts SET recovered_amount = ? WHERE id = ?").run(
+      money.add(badDebt.recovered_amount, data.amount),
+      badDebt.id
+    );
+    db.prepare("UPDATE invoices SET written_off_amount = ? WHERE id = ?").run(
+      money.subtract(invoice.written_off_amount || 0, data.amount),
+      invoice.id
+    );
+
+    return db.prepare("SELECT * FROM bad_debt_recoveries WHERE id = ?").get(result.lastInsertRowid) as BadDebtRecovery;
+  });
+
+  logAudit("recover", "bad_debt", recovery.bad_debt_id, null, recovery);
+  badDebtLogger.info({ bad_debt: recovery.bad_debt_id, amount: recovery.amount }, "Bad debt recovered");
+  return recovery;
+}
+
+export function getBadDebt(id: number): BadDebt | undefined {
+  return listBadDebts({ id })[0];
+}
+
+export function listBadDebts(filters: {
+  id?: number;
+  invoice_id?: number;
+  relief_due?: string;         // Unclaimed relief that can be claimed on this date
+} = {}): BadDebt[] {
+  const db = getDb();
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filters.id !== undefined) {
+    conditions.push("bd.id = ?");
+    params.push(filters.id);
+  }
+  if (filters.invoice_id !== undefined) {
+    conditions.push("bd.invoice_id = ?");
+    params.push(filters.invoice_id);
+  }
+  if (filters.relief_due) {
+    conditions.push("bd.relief_date IS NULL AND bd.recovered_amount < bd.amount");
+  }
+
+  const rows = db.prepare(`
+    SELECT bd.*, i.number as invoice_number, i.date as invoice_date, c.name as customer_name
+    FROM bad_debts bd
+    JOIN invoices i ON i.id = bd.invoice_id
+    LEFT JOIN customers c ON c.id = i.customer_id
+    ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY bd.date, bd.id
+  `).all(...params) as Array<BadDebt & { invoice_date: string }>;
+
+  const badDebts = rows.map(({ invoice_date, ...row }) => ({ ...row, relief_eligible_from: reliefEligibleFrom(invoice_date) }));
+  return filters.relief_due
+    ? badDebts.filter((b) => b.relief_eligible_from <= filters.relief_due!)
+    : badDebts;
+}
+
+export function listBadDebtRecoveries(badDebtId: number): BadDebtRecovery[] {
+  return getDb().prepare(
+    "SELECT * FROM bad_debt_recoveries WHERE bad_debt_id = ? ORDER BY date, id"
+  ).all(badDebtId) as BadDebtRecovery[];
+}
+
+/**
+ * SST bad debt relief claimed, and relief repaid on recoveries, in a period
+ */
+export function getBadDebtReliefTotals(fromDate: string, toDate: string): { relief: number; repaid: number } {
+  const db = getDb();
+  const relief = db.prepare(
+    "SELECT COALESCE(SUM(relief_amount), 0) as total FROM bad_debts WHERE relief_date >= ? AND relief_date <= ?"
+  ).get(fromDate, toDate) as { total: number };
+  const repaid = db.prepare(
+    "SELECT COALESCE(SUM(tax_repaid), 0) as total FROM bad_debt_recoveries WHERE date >= ? AND date <= ?"
+  ).get(fromDate, toDate) as { total: number };
+  return { relief: money.round2(relief.total), repaid: money.round2(repaid.total) };
+}
@@ -0,0 +1,260 @@
+// Bank and cash accounts: where money is paid from and into, and transfers between them
+import { getDb, getSetting, setSetting, logAudit, withTransaction } from "../db/index.js";
+import {
+  createJournalEntry,
+  deleteJournalEntry,
+  type CreateJournalLineData,
+} from "./journal.js";
+import { getAccount, getAccountBalance, getAccountByCode, type Account } from "./accounts.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { today } from "../core/dates.js";
+
+const bankLogger = logger.child({ module: "bank-accounts" });
+
+export interface BankAccount extends Account {
+  balance: number;
+  is_default: boolean;
+  unreconciled: number; // Payments and transfers not yet matched to a statement line
+}
+
+export interface BankTransfer {
+  id: number;
+  date: string;
+  from_account_id: number;
+  to_account_id: number;
+  amount: number;        // Arrives in the receiving account
+  fee: number;           // Charged on top by the sending account
+  fee_account_id?: number | null;
+  reference?: string | null;
+  notes?: string | null;
+  journal_entry_id?: number | null;
+  from_reconciled: number;
+  to_reconciled: number;
+  created_at: string;
+  // Joined
+  from_account_code?: string;
+  from_account_name?: string;
+  to_account_code?: string;
+  to_account_name?: string;
+}
+
+export interface CreateTransferData {
+  from_account: number | string; // Id, code or name
+  to_account: number | string;
+  amount: number;
+  date?: string;
+  fee?: number;
+  fee_account?: number | string; // Defaults to 5200 Bank Fees
+  reference?: string;
+  notes?: string;
+}
+
+function findAccount(ref: number | string): Account | undefined {
+  if (typeof ref === "number") return getAccount(ref) ?? undefined;
+  const db = getDb();
+  return db.prepare("SELECT * FROM accounts WHERE code = ? OR LOWER(name) = LOWER(?)").get(ref.trim(), ref.trim()) as Account | undefined;
+}
+
+/**
+ * The bank or cash account money moves through when none is chosen: the
+ * default_bank_account setting, then 1100, then the first bank account.
+ */
+export function getDefaultBankAccount(): Account {
+  const db = getDb();
+  const usable = (account: Account | null | undefined) => account && account.is_bank && account.is_active ? account : undefined;
+  const configured = getSetting("default_bank_account");
+  const account = (configured ? usable(getAccountByCode(configured)) : undefined)
+    || usable(getAccountByCode("1100"))
+    || (db.prepare("SELECT * FROM accounts WHERE is_bank = 1 AND is_active = 1 ORDER BY code LIMIT 1").get() as Account | undefined)
+    || getAccountByCode("1100");
+  if (!account) {
+    throw new Error("Bank Account (1100) not found. Please ensure chart of accounts is set up.");
+  }
+  return account;
+}
+
+export function setDefaultBankAccount(ref: number | string): Account {
+  const account = resolveBankAccount(ref);
+  setSetting("default_bank_account", account.code);
+  return account;
+}
+
+// A bank or cash account by id, code or name; the default when none is given
+export function resolveBankAccount(ref?: number | string | null): Account {
+  if (ref === undefined || ref === null || ref === "") {
+    return getDefaultBankAccount();
+  }
+  const account = findAccount(ref);
+  if (!account) {
+    throw new Error(`Bank account not found: ${ref}`);
+  }
+  if (!account.is_bank) {
+    throw new Error(`${account.code} ${account.name} is not a bank or cash account`);
+  }
+  if (!account.is_active) {
+    throw new Error(`${account.code} ${account.name} is inactive`);
+  }
+  return account;
+}
+
+// Bank and cash accounts with their ledger balances
+export function listBankAccounts(options: { include_inactive?: boolean } = {}): BankAccount[] {
+  const db = getDb();
+  const accounts = db.prepare(`
+    SELECT * FROM accounts WHERE is_bank = 1 ${options.include_inactive ? "" : "AND is_active = 1"} ORDER BY code
+  `).all() as Account[];
+
+  let defaultId: number | undefined;
+  try {
+    defaultId = getDefaultBankAccount().id;
+  } catch {
+    defaultId = undefined;
+  }
+
+  const unreconciled = db.prepare(`
+    SELECT
+      (SELECT COUNT(*) FROM payments WHERE bank_account_id = @id AND reconciled = 0) +
+      (SELECT COUNT(*) FROM bank_transfers WHERE from_account_id = @id AND from_reconciled = 0) +
+      (SELECT COUNT(*) FROM bank_transfers WHERE to_account_id = @id AND to_reconciled = 0) as count
+  `);
+
+  return accounts.map((account) => ({
+    ...account,
+    balance: getAccountBalance(account.id),
+    is_default: account.id === defaultId,
+    unreconciled: (unreconciled.get({ id: account.id }) as { count: number }).count,
+  }));
+}
+
+/**
+ * Move money between two bank or cash accounts. Posts Dr receiving account /
+ * Cr sending account, with any fee charged on top by the sender posted to the
+ * fee account.
+ */
+export function createTransfer(data: CreateTransferData): BankTransfer {
+  if (!(data.amount > 0)) {
+    throw new Error("Transfer amount must be greater than 0");
+  }
+  const fee = money.round2(data.fee || 0);
+  if (fee < 0) {
+    throw new Error("Transfer fee cannot be negative");
+  }
+
+  return withTransaction(() => {
+    const db = getDb();
+    const date = data.date || today();
+    const from = resolveBankAccount(data.from_account);
+    const to = resolveBankAccount(data.to_account);
+    if (from.id === to.id) {
+      throw new Error("Choose two different accounts to transfer between");
+    }
+
+    let feeAccount: Account | undefined;
+    if (fee > 0) {
+      feeAccount = data.fee_account !== undefined ? findAccount(data.fee_account) : getAccountByCode("5200") ?? undefined;
+      if (!feeAccount) {
+        throw new Error(data.fee_account !== undefined
+          ? `Fee account not found: ${data.fee_account}`
+          : "Bank Fees account (5200) not found. Choose a fee account.");
+      }
+    }
+
+    const amount = money.round2(data.amount);
+    const result = db.prepare(`
+      INSERT INTO bank_transfers (date, from_account_id, to_account_id, amount, fee, fee_account_id, reference, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(date, from.id, to.id, amount, fee, feeAccount?.id ?? null, data.reference || null, data.notes || null);
+    const transferId = result.lastInsertRowid as number;
+
+    const description = `Transfer from ${from.name} to ${to.name}`;
+    const lines: CreateJournalLineData[] = [
+      { account_id: to.id, debit: amount, credit: 0, description },
+    ];
+    if (feeAccount) {
+      lines.push({ account_id: feeAccount.id, debit: fee, credit: 0, description: `Transfer fee - ${from.name}` });
+    }
+    lines.push({ account_id: from.id, debit: 0, credit: money.add(amount, fee), description });
+
+    const entry = createJournalEntry({
+      date,
+      description,
+      reference: data.reference || null,
+      entry_type: "standard",
+      lines,
+    });
+    db.prepare("UPDATE bank_transfers SET journal_entry_id = ? WHERE id = ?").run(entry.id, transferId);
+
+    const transfer = getTransfer(transferId)!;
+    logAudit("create", "bank_transfer", transfer.id, null, transfer);
+    bankLogger.info({ from: from.code, to: to.code, amount, fee }, "Transfer recorded");
+
+    return transfer;
+  });
+}
+
+export function getTransfer(id: number): BankTransfer | undefined {
+  return listTransfers({ id })[0];
+}
+
+// Transfers, newest first; with account_id, those in or out of that account
+export function listTransfers(filters: { id?: number; account_id?: number; from_date?: string; to_date?: string } = {}): BankTransfer[] {
+  const db = getDb();
+
+  let sql = `
+    SELECT
+      t.*,
+      fa.code as from_account_code, fa.name as from_account_name,
+      ta.code as to_account_code, ta.name as to_account_name
+    FROM bank_transfers t
+    JOIN accounts fa ON t.from_account_id = fa.id
+    JOIN accounts ta ON t.to_account_id = ta.id
+    WHERE 1=1
+  `;
+  const params: unknown[] = [];
+
+  if (filters.id) {
+    sql += " AND t.id = ?";
+    params.push(filters.id);
+  }
+  if (filters.account_id) {
+    sql += " AND (t.from_account_id = ? OR t.to_account_id = ?)";
+    params.push(filters.account_id, filters.account_id);
+  }
+  if (filters.from_date) {
+    sql += " AND t.date >= ?";
+    params.push(filters.from_date);
+  }
+  if (filters.to_date) {
+    sql += " AND t.date <= ?";
+    params.push(filters.to_date);
+  }
+
+  sql += " ORDER BY t.date DESC, t.id DESC";
+  return db.prepare(sql).all(...params) as BankTransfer[];
+}
+
+// Delete a transfer and its journal entry, unless either side has been reconciled
+export function deleteTransfer(id: number): { success: boolean; error?: string } {
+  const transfer = getTransfer(id);
+  if (!transfer) {
+    return { success: false, error: "Transfer not found" };
+  }
+  if (transfer.from_reconciled || transfer.to_reconciled) {
+    return { success: false, error: "Transfer has been reconciled. Unmatch it from the statement first." };
+  }
+
+  try {
+    withTransaction(() => {
+      getDb().prepare("DELETE FROM bank_transfers WHERE id = ?").run(id);
+      if (transfer.journal_entry_id) {
+        deleteJournalEntry(transfer.journal_entry_id);
+      }
+    });
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+
+  logAudit("delete", "bank_transfer", id, transfer, null);
+  return { success: true };
+}
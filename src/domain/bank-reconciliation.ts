@@ -27,12 +27,14 @@ export interface BankTransaction {
   balance_after?: number;
   matched_payment_id?: number;
   matched_expense_id?: number;
+  matched_transfer_id?: number;
   match_status: "unmatched" | "auto_matched" | "manual_matched" | "ignored";
   match_confidence?: number;
   created_at: string;
   // Joined data
   payment_reference?: string;
   expense_description?: string;
+  transfer_reference?: string;
 }
 
 export interface CreateStatementData {
@@ -55,7 +57,7 @@ export interface CreateTransactionData {
 }
 
 export interface MatchCandidate {
-  type: "payment" | "expense";
+  type: "payment" | "expense" | "transfer";
   id: number;
   date: string;
   amount: number;
@@ -200,10 +202,12 @@ export function getTransaction(id: number): BankTransaction | undefined {
     SELECT
       t.*,
       p.reference as payment_reference,
-      e.description as expense_description
+      e.description as expense_description,
+      tr.reference as transfer_reference
     FROM bank_transactions t
     LEFT JOIN payments p ON t.matched_payment_id = p.id
     LEFT JOIN expenses e ON t.matched_expense_id = e.id
+    LEFT JOIN bank_transfers tr ON t.matched_transfer_id = tr.id
     WHERE t.id = ?
   `).get(id) as BankTransaction | undefined;
 }
@@ -218,10 +222,12 @@ export function listTransactions(statementId?: number, matchStatus?: string): Ba
     SELECT
       t.*,
       p.reference as payment_reference,
-      e.description as expense_description
+      e.description as expense_description,
+      tr.reference as transfer_reference
     FROM bank_transactions t
     LEFT JOIN payments p ON t.matched_payment_id = p.id
     LEFT JOIN expenses e ON t.matched_expense_id = e.id
+    LEFT JOIN bank_transfers tr ON t.matched_transfer_id = tr.id
     WHERE 1=1
   `;
   const params: unknown[] = [];
@@ -241,9 +247,17 @@ export function listTransactions(statementId?: number, matchStatus?: string): Ba
   return db.prepare(sql).all(...params) as BankTransaction[];
 }
 
+// The bank account a transaction's statement belongs to
+function getTransactionAccountId(transaction: BankTransaction): number | undefined {
+  if (!transaction.statement_id) return undefined;
+  const row = getDb().prepare("SELECT account_id FROM bank_statements WHERE id = ?").get(transaction.statement_id) as { account_id: number } | undefined;
+  return row?.account_id;
+}
+
 /**
  * Find potential matches for a bank transaction
- * Uses multi-factor matching: amount, date proximity, reference/description similarity
+ * Uses multi-factor matching: amount, date proximity, reference/description similarity.
+ * Only payments and transfers through the statement's own account are considered.
  */
 export function findMatches(transactionId: number): MatchCandidate[] {
   const db = getDb();
@@ -254,6 +268,7 @@ export function findMatches(transactionId: number): MatchCandidate[] {
   const candidates: MatchCandidate[] = [];
   const descLower = transaction.description.toLowerCase();
   const refLower = transaction.reference?.toLowerCase() || "";
+  const accountId = getTransactionAccountId(transaction);
 
   // Look for matching payments
   const payments = db.prepare(`
@@ -265,9 +280,10 @@ export function findMatches(transactionId: number): MatchCandidate[] {
     LEFT JOIN customers c ON p.customer_id = c.id
     LEFT JOIN vendors v ON p.vendor_id = v.id
     WHERE p.reconciled = 0
+    ${accountId ? "AND p.bank_account_id = ?" : ""}
     ORDER BY p.date DESC
     LIMIT 100
-  `).all() as Array<{
+  `).all(...(accountId ? [accountId] : [])) as Array<{
     id: number;
     date: string;
     amount: number;
@@ -419,6 +435,76 @@ export function findMatches(transactionId: number): MatchCandidate[] {
     }
   }
 
+  // Look for transfers in or out of the statement's account; money out includes the fee
+  if (accountId) {
+    const incoming = transaction.type === "credit";
+    const transfers = db.prepare(`
+      SELECT
+        t.id, t.date, t.amount, t.fee, t.reference,
+        ${incoming ? "fa.name" : "ta.name"} as other_account
+      FROM bank_transfers t
+      JOIN accounts fa ON t.from_account_id = fa.id
+      JOIN accounts ta ON t.to_account_id = ta.id
+      WHERE ${incoming ? "t.to_account_id = ? AND t.to_reconciled = 0" : "t.from_account_id = ? AND t.from_reconciled = 0"}
+      ORDER BY t.date DESC
+      LIMIT 100
+    `).all(accountId) as Array<{
+      id: number;
+      date: string;
+      amount: number;
+      fee: number;
+      reference?: string;
+      other_account: string;
+    }>;
+
+    for (const transfer of transfers) {
+      const amount = incoming ? transfer.amount : transfer.amount + transfer.fee;
+      let confidence = 0;
+      const reasons: string[] = [];
+
+      const amountDiff = Math.abs(amount - transaction.amount);
+      if (amountDiff === 0) {
+        confidence += 0.5;
+        reasons.push("exact amount");
+      } else if (amountDiff <= 0.01) {
+        confidence += 0.4;
+        reasons.push("amount (rounding)");
+      }
+
+      const daysDiff = Math.abs((new Date(transaction.date).getTime() - new Date(transfer.date).getTime()) / (1000 * 60 * 60 * 24));
+      if (daysDiff === 0) {
+        confidence += 0.25;
+        reasons.push("same date");
+      } else if (daysDiff <= 3) {
+        confidence += 0.15;
+        reasons.push(`${daysDiff}d apart`);
+      }
+
+      const transferRefLower = transfer.reference?.toLowerCase() || "";
+      if (transferRefLower && (descLower.includes(transferRefLower) || refLower.includes(transferRefLower))) {
+        confidence += 0.2;
+        reasons.push("reference match");
+      }
+      if (descLower.includes("transfer") || descLower.includes(transfer.other_account.toLowerCase())) {
+        confidence += 0.15;
+        reasons.push("transfer");
+      }
+
+      if (confidence > 0.3) {
+        candidates.push({
+          type: "transfer",
+          id: transfer.id,
+          date: transfer.date,
+          amount,
+          description: `Transfer ${incoming ? "from" : "to"} ${transfer.other_account}`,
+          reference: transfer.reference,
+          confidence: Math.min(confidence, 0.99),
+          reason: reasons.join(", "),
+        });
+      }
+    }
+  }
+
   // Sort by confidence descending
   candidates.sort((a, b) => b.confidence - a.confidence);
 
@@ -433,7 +519,7 @@ export function autoMatchTransactions(statementId: number, minConfidence: number
   skipped: number;
   results: Array<{
     transaction_id: number;
-    matched_type: "payment" | "expense";
+    matched_type: MatchCandidate["type"];
     matched_id: number;
     confidence: number;
   }>;
@@ -441,7 +527,7 @@ export function autoMatchTransactions(statementId: number, minConfidence: number
   const transactions = listTransactions(statementId, "unmatched");
   const results: Array<{
     transaction_id: number;
-    matched_type: "payment" | "expense";
+    matched_type: MatchCandidate["type"];
     matched_id: number;
     confidence: number;
   }> = [];
@@ -457,6 +543,8 @@ export function autoMatchTransactions(statementId: number, minConfidence: number
 
       if (best.type === "payment") {
         matchToPayment(tx.id, best.id, true);
+      } else if (best.type === "transfer") {
+        matchToTransfer(tx.id, best.id, true);
       } else {
         matchToExpense(tx.id, best.id, true);
       }
@@ -487,7 +575,7 @@ export function matchToPayment(transactionId: number, paymentId: number, isAutoM
 
   db.prepare(`
     UPDATE bank_transactions
-    SET matched_payment_id = ?, matched_expense_id = NULL, match_status = ?, match_confidence = NULL
+    SET matched_payment_id = ?, matched_expense_id = NULL, matched_transfer_id = NULL, match_status = ?, match_confidence = NULL
     WHERE id = ?
   `).run(paymentId, isAutoMatch ? "auto_matched" : "manual_matched", transactionId);
 
@@ -510,7 +598,7 @@ export function matchToExpense(transactionId: number, expenseId: number, isAutoM
 
   db.prepare(`
     UPDATE bank_transactions
-    SET matched_expense_id = ?, matched_payment_id = NULL, match_status = ?, match_confidence = NULL
+    SET matched_expense_id = ?, matched_payment_id = NULL, matched_transfer_id = NULL, match_status = ?, match_confidence = NULL
     WHERE id = ?
   `).run(expenseId, isAutoMatch ? "auto_matched" : "manual_matched", transactionId);
 
@@ -519,6 +607,45 @@ export function matchToExpense(transactionId: number, expenseId: number, isAutoM
   return true;
 }
 
+/**
+ * Match a transaction to one side of a transfer between bank accounts
+ * The side is the statement's account: money in for the receiving account, out for the sender.
+ */
+export function matchToTransfer(transactionId: number, transferId: number, isAutoMatch: boolean = false): boolean {
+  const db = getDb();
+
+  const tx = getTransaction(transactionId);
+  if (!tx) return false;
+
+  const side = transferSide(tx, transferId);
+  if (!side) return false;
+
+  db.prepare(`
+    UPDATE bank_transactions
+    SET matched_transfer_id = ?, matched_payment_id = NULL, matched_expense_id = NULL, match_status = ?, match_confidence = NULL
+    WHERE id = ?
+  `).run(transferId, isAutoMatch ? "auto_matched" : "manual_matched", transactionId);
+
+  db.prepare(`UPDATE bank_transfers SET ${side}_reconciled = 1 WHERE id = ?`).run(transferId);
+
+  logAudit("match", "bank_transaction", transactionId, { matched_transfer_id: null }, { matched_transfer_id: transferId });
+
+  return true;
+}
+
+// Which side of a transfer a statement line is on, if the transfer touches its account
+function transferSide(tx: BankTransaction, transferId: number): "from" | "to" | undefined {
+  const accountId = getTransactionAccountId(tx);
+  const transfer = getDb().prepare("SELECT from_account_id, to_account_id FROM bank_transfers WHERE id = ?").get(transferId) as {
+    from_account_id: number;
+    to_account_id: number;
+  } | undefined;
+  if (!accountId || !transfer) return undefined;
+  if (transfer.to_account_id === accountId && tx.type === "credit") return "to";
+  if (transfer.from_account_id === accountId && tx.type === "debit") return "from";
+  return undefined;
+}
+
 /**
  * Unmatch a transaction
  */
@@ -532,14 +659,20 @@ export function unmatchTransaction(transactionId: number): boolean {
   if (tx.matched_payment_id) {
     db.prepare("UPDATE payments SET reconciled = 0 WHERE id = ?").run(tx.matched_payment_id);
   }
+  if (tx.matched_transfer_id) {
+    const side = transferSide(tx, tx.matched_transfer_id);
+    if (side) {
+      db.prepare(`UPDATE bank_transfers SET ${side}_reconciled = 0 WHERE id = ?`).run(tx.matched_transfer_id);
+    }
+  }
 
   db.prepare(`
     UPDATE bank_transactions
-    SET matched_payment_id = NULL, matched_expense_id = NULL, match_status = 'unmatched', match_confidence = NULL
+    SET matched_payment_id = NULL, matched_expense_id = NULL, matched_transfer_id = NULL, match_status = 'unmatched', match_confidence = NULL
     WHERE id = ?
   `).run(transactionId);
 
-  logAudit("unmatch", "bank_transaction", transactionId, { matched_payment_id: tx.matched_payment_id, matched_expense_id: tx.matched_expense_id }, { matched_payment_id: null, matched_expense_id: null });
+  logAudit("unmatch", "bank_transaction", transactionId, { matched_payment_id: tx.matched_payment_id, matched_expense_id: tx.matched_expense_id, matched_transfer_id: tx.matched_transfer_id }, { matched_payment_id: null, matched_expense_id: null, matched_transfer_id: null });
 
   return true;
 }
@@ -552,7 +685,7 @@ export function ignoreTransaction(transactionId: number): boolean {
 
   db.prepare(`
     UPDATE bank_transactions
-    SET match_status = 'ignored', matched_payment_id = NULL, matched_expense_id = NULL
+    SET match_status = 'ignored', matched_payment_id = NULL, matched_expense_id = NULL, matched_transfer_id = NULL
     WHERE id = ?
   `).run(transactionId);
 
@@ -0,0 +1,705 @@
+import { getDb, getSetting, setSetting, logAudit, withTransaction } from "../db/index.js";
+import {
+  createJournalEntry,
+  reverseJournalEntry,
+  assertDateUnlocked,
+  type CreateJournalLineData,
+} from "./journal.js";
+import { getAccountByCode } from "./accounts.js";
+import { resolveBankAccount } from "./bank-accounts.js";
+import { getPayment, type Payment } from "./payments.js";
+import { getWithholding, recordWhtDeduction, whtPayableAccountId } from "./withholding-tax.js";
+import { calculateTax, splitStoredTax, type TaxPart } from "./tax-codes.js";
+import { getItem, requireActiveItem, recordStockMovements, reverseStockMovements } from "./items.js";
+import {
+  getBaseCurrency,
+  isForeignCurrency,
+  resolveDocumentRate,
+  foreignLineFields,
+  fxGainLossLine,
+  toBase,
+} from "./exchange-rates.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { today, addDays } from "../core/dates.js";
+
+const billLogger = logger.child({ module: "bills" });
+
+export interface BillItem {
+  id?: number;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  account_id: number;
+  account_code?: string;
+  account_name?: string;
+  tax_code?: string | null;
+  tax_rate?: number;
+  tax_amount?: number;
+  item_id?: number | null; // Catalog item; inventory items are received into stock on approval
+  po_item_id?: number | null; // Purchase order line this bill line is matched against
+}
+
+export interface Bill {
+  id: number;
+  number: string;
+  vendor_id: number;
+  vendor_name?: string;
+  vendor_reference?: string;
+  date: string;
+  due_date: string;
+  status: "draft" | "approved" | "partial" | "paid" | "cancelled";
+  tax_amount?: number;
+  total: number; // Including tax
+  amount_paid: number;
+  currency_code?: string;
+  exchange_rate?: number;
+  payment_terms?: string;
+  notes?: string;
+  journal_entry_id?: number;
+  approved_at?: string;
+  is_opening?: number; // Brought over from another system as an opening balance
+  purchase_order_id?: number | null;
+  purchase_order_number?: string;
+  items?: BillItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateBillData {
+  vendor_id: number;
+  vendor_reference?: string;
+  date?: string;
+  due_date?: string;
+  items: Array<{
+    description: string;
+    quantity?: number;
+    unit_price: number;
+    account_id?: number;
+    account?: string; // Expense account code or name
+    tax_code?: string; // Tax charged on top of the line, e.g. "SV" or "GST+PST"
+    item?: number | string; // Catalog item id or SKU; inventory items are posted to the inventory account
+    po_item_id?: number; // Purchase order line, for three-way matching
+  }>;
+  purchase_order_id?: number;
+  payment_terms?: string;
+  notes?: string;
+  currency_code?: string;
+  exchange_rate?: number; // Defaults to the stored rate for the bill date
+}
+
+export interface RecordBillPaymentData {
+  bill_id: number;
+  amount: number; // In the bill's currency
+  exchange_rate?: number; // Defaults to the stored rate for the payment date
+  date?: string;
+  method?: Payment["method"];
+  reference?: string;
+  bank_account?: number | string; // Paid from; defaults to the default bank account
+  notes?: string;
+  withhold?: boolean; // Withhold tax for a non-resident vendor; defaults to true when they have a category
+}
+
+// Resolve the expense account for a bill line: explicit id, code/name, vendor default, then "Other Expenses"
+function resolveItemAccount(
+  item: CreateBillData["items"][number],
+  vendorDefault: string | null
+): number {
+  const db = getDb();
+
+  if (item.account_id) {
+    const account = db.prepare("SELECT id FROM accounts WHERE id = ?").get(item.account_id) as { id: number } | undefined;
+    if (!account) {
+      throw new Error(`Account with ID ${item.account_id} not found`);
+    }
+    return account.id;
+  }
+
+  const lookup = item.account || vendorDefault;
+  if (lookup) {
+    const account = db.prepare(
+      "SELECT id FROM accounts WHERE code = ? OR LOWER(name) = LOWER(?)"
+    ).get(lookup, lookup) as { id: number } | undefined;
+    if (account) return account.id;
+    if (item.account) {
+      throw new Error(`Account "${item.account}" not found for bill item "${item.description}"`);
+    }
+  }
+
+  const fallback = db.prepare(
+    "SELECT id FROM accounts WHERE LOWER(name) LIKE '%other%expense%' AND type = 'expense' LIMIT 1"
+  ).get() as { id: number } | undefined;
+  if (!fallback) {
+    throw new Error(`No expense account found for bill item "${item.description}". Please specify an account.`);
+  }
+  return fallback.id;
+}
+
+export function createBill(data: CreateBillData): Bill {
+  return withTransaction(() => {
+    const db = getDb();
+
+    // Verify vendor exists
+    const vendor = db.prepare(
+      "SELECT id, name, payment_terms, default_category FROM vendors WHERE id = ?"
+    ).get(data.vendor_id) as { id: number; name: string; payment_terms: string | null; default_category: string | null } | undefined;
+    if (!vendor) {
+      throw new Error(`Vendor with ID ${data.vendor_id} not found`);
+    }
+
+    // Validate line items
+    if (!data.items || data.items.length === 0) {
+      throw new Error("Bill must have at least one line item");
+    }
+    for (const item of data.items) {
+      if ((item.quantity || 1) <= 0) {
+        throw new Error(`Invalid quantity for item "${item.description}": must be greater than 0`);
+      }
+      if (item.unit_price < 0) {
+        throw new Error(`Invalid unit price for item "${item.description}": cannot be negative`);
+      }
+    }
+
+    // Lines matched against a purchase order must come from that order
+    if (data.purchase_order_id) {
+      const order = db.prepare(
+        "SELECT number, vendor_id, status FROM purchase_orders WHERE id = ?"
+      ).get(data.purchase_order_id) as { number: string; vendor_id: number; status: string } | undefined;
+      if (!order) {
+        throw new Error(`Purchase order with ID ${data.purchase_order_id} not found`);
+      }
+      if (order.vendor_id !== data.vendor_id) {
+        throw new Error(`Purchase order ${order.number} is for a different vendor`);
+      }
+      if (order.status === "cancelled") {
+        throw new Error(`Purchase order ${order.number} has been cancelled`);
+      }
+    }
+    for (const item of data.items) {
+      if (!item.po_item_id) continue;
+      const line = db.prepare(
+        "SELECT purchase_order_id FROM purchase_order_items WHERE id = ?"
+      ).get(item.po_item_id) as { purchase_order_id: number } | undefined;
+      if (!line || line.purchase_order_id !== data.purchase_order_id) {
+        throw new Error(`Bill item "${item.description}" is not a line of the purchase order`);
+      }
+    }
+
+    // Get next bill number
+    const prefix = getSetting("bill_prefix") || "BILL";
+    const nextNum = parseInt(getSetting("next_bill_number") || "1");
+    const number = `${prefix}-${String(nextNum).padStart(4, "0")}`;
+    setSetting("next_bill_number", String(nextNum + 1));
+
+    // Calculate dates from bill terms, vendor terms, then the business default
+    const date = data.date || today();
+    assertDateUnlocked(date, "enter a bill on");
+    const terms = data.payment_terms || vendor.payment_terms || getSetting("default_payment_terms") || "net_30";
+    const daysMatch = terms.match(/net_(\d+)/);
+    const days = daysMatch ? parseInt(daysMatch[1]) : 30;
+    const dueDate = data.due_date || addDays(date, days);
+
+    if (new Date(dueDate) < new Date(date)) {
+      throw new Error("Due date cannot be before bill date");
+    }
+
+    // Calculate totals, taxing each line at its code's rate on the bill date
+    let net = 0;
+    let taxAmount = 0;
+    const items = data.items.map((item) => {
+      const qty = item.quantity || 1;
+      const amount = money.multiply(qty, item.unit_price);
+      const tax = item.tax_code ? calculateTax(amount, item.tax_code, date, { side: "purchases" }) : undefined;
+      const catalog = item.item !== undefined ? requireActiveItem(item.item) : undefined;
+      net = money.add(net, amount);
+      taxAmount = money.add(taxAmount, tax?.tax ?? 0);
+      return {
+        description: item.description,
+        quantity: qty,
+        unit_price: item.unit_price,
+        amount,
+        account_id: catalog?.type === "inventory"
+          ? catalog.inventory_account_id!
+          : resolveItemAccount(item, catalog?.expense_account_code || vendor.default_category),
+        tax_code: tax?.code ?? null,
+        tax_rate: tax?.rate ?? 0,
+        tax_amount: tax?.tax ?? 0,
+        item_id: catalog?.id ?? null,
+        po_item_id: item.po_item_id ?? null,
+      };
+    });
+    const total = money.add(net, taxAmount);
+
+    const currencyCode = (data.currency_code || getBaseCurrency()).toUpperCase();
+    const exchangeRate = resolveDocumentRate(currencyCode, date, data.exchange_rate);
+
+    const result = db.prepare(`
+      INSERT INTO bills (number, vendor_id, vendor_reference, date, due_date, tax_amount, total, payment_terms, notes, currency_code, exchange_rate, purchase_order_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(number, data.vendor_id, data.vendor_reference || null, date, dueDate, taxAmount, total, terms, data.notes || null, currencyCode, exchangeRate, data.purchase_order_id || null);
+
+    const billId = result.lastInsertRowid as number;
+
+    const insertItem = db.prepare(`
+      INSERT INTO bill_items (bill_id, description, quantity, unit_price, amount, account_id, tax_code, tax_rate, tax_amount, sort_order, item_id, po_item_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    items.forEach((item, index) => {
+      insertItem.run(
+        billId, item.description, item.quantity, item.unit_price, item.amount, item.account_id,
+        item.tax_code, item.tax_rate, item.tax_amount, index, item.item_id, item.po_item_id
+      );
+    });
+
+    const bill = getBill(billId)!;
+    logAudit("create", "bill", bill.id, null, bill);
+
+    return bill;
+  });
+}
+
+export function getBill(idOrNumber: number | string): Bill | undefined {
+  const db = getDb();
+
+  const bill = db.prepare(`
+    SELECT b.*, v.name as vendor_name, po.number as purchase_order_number
+    FROM bills b
+    JOIN vendors v ON b.vendor_id = v.id
+    LEFT JOIN purchase_orders po ON b.purchase_order_id = po.id
+    WHERE ${typeof idOrNumber === "number" ? "b.id" : "b.number"} = ?
+  `).get(idOrNumber) as Bill | undefined;
+
+  if (bill) {
+    bill.items = db.prepare(`
+      SELECT bi.*, a.code as account_code, a.name as account_name
+      FROM bill_items bi
+      JOIN accounts a ON bi.account_id = a.id
+      WHERE bi.bill_id = ?
+      ORDER BY bi.sort_order
+    `).all(bill.id) as BillItem[];
+  }
+
+  return bill;
+}
+
+export function listBills(filters?: {
+  status?: string;
+  vendor_id?: number;
+  from_date?: string;
+  to_date?: string;
+  unpaid?: boolean;
+  limit?: number;
+}): Bill[] {
+  const db = getDb();
+
+  let sql = `
+    SELECT b.*, v.name as vendor_name
+    FROM bills b
+    JOIN vendors v ON b.vendor_id = v.id
+    WHERE 1=1
+  `;
+  const params: unknown[] = [];
+
+  if (filters?.status) {
+    sql += " AND b.status = ?";
+    params.push(filters.status);
+  }
+  if (filters?.vendor_id) {
+    sql += " AND b.vendor_id = ?";
+    params.push(filters.vendor_id);
+  }
+  if (filters?.from_date) {
+    sql += " AND b.date >= ?";
+    params.push(filters.from_date);
+  }
+  if (filters?.to_date) {
+    sql += " AND b.date <= ?";
+    params.push(filters.to_date);
+  }
+  if (filters?.unpaid) {
+    sql += " AND b.status IN ('approved', 'partial')";
+  }
+
+  sql += " ORDER BY b.date DESC, b.id DESC";
+
+  if (filters?.limit) {
+    sql += " LIMIT ?";
+    params.push(filters.limit);
+  }
+
+  return db.prepare(sql).all(...params) as Bill[];
+}
+
+/**
+ * Tax shares of a stored bill line, split again at the bill date. The last
+ * code keeps any difference from the stored amount.
+ */
+function billTaxParts(item: BillItem, date: string): TaxPart[] {
+  if (!item.tax_code || money.isZero(item.tax_amount || 0)) return [];
+  return splitStoredTax(item.amount, item.tax_code, item.tax_amount || 0, date, "purchases");
+}
+
+/**
+ * Approve a draft bill
+ * Posts Dr expense (per line account) / Dr recoverable tax / Cr Accounts Payable.
+ * Tax that can't be claimed back is added to the line's expense. Inventory
+ * items are received into stock.
+ */
+export function approveBill(idOrNumber: number | string): Bill {
+  return withTransaction(() => {
+    const db = getDb();
+    const bill = getBill(idOrNumber);
+    if (!bill) {
+      throw new Error("Bill not found");
+    }
+    if (bill.status !== "draft") {
+      throw new Error(`Cannot approve bill with status "${bill.status}". Only draft bills can be approved.`);
+    }
+
+    const apAccount = getAccountByCode("2000");
+    if (!apAccount) {
+      throw new Error("Accounts Payable account (2000) not found. Please ensure chart of accounts is set up.");
+    }
+
+    // Debit: one line per expense account, and per account holding recoverable tax
+    const byAccount = new Map<number, number>();
+    for (const item of bill.items || []) {
+      byAccount.set(item.account_id, money.add(byAccount.get(item.account_id) || 0, item.amount));
+      for (const part of billTaxParts(item, bill.date)) {
+        const accountId = part.account_id ?? item.account_id;
+        byAccount.set(accountId, money.add(byAccount.get(accountId) || 0, part.amount));
+      }
+    }
+
+    // Converted at the bill rate; the last expense line absorbs conversion rounding
+    const rate = bill.exchange_rate ?? 1;
+    const baseTotal = toBase(bill.total, rate);
+    let remainingBase = baseTotal;
+    const expenseLines = [...byAccount].filter(([, amount]) => amount > 0);
+
+    const journalLines: CreateJournalLineData[] = [];
+    expenseLines.forEach(([accountId, amount], index) => {
+      const base = index === expenseLines.length - 1 ? remainingBase : toBase(amount, rate);
+      remainingBase = money.subtract(remainingBase, base);
+      journalLines.push({
+        account_id: accountId,
+        debit: base,
+        credit: 0,
+        description: `Bill ${bill.number} - ${bill.vendor_name}`,
+        ...foreignLineFields(bill.currency_code, rate, amount, 0),
+      });
+    });
+
+    // Credit: Accounts Payable
+    journalLines.push({
+      account_id: apAccount.id,
+      debit: 0,
+      credit: baseTotal,
+      description: `Bill ${bill.number} - ${bill.vendor_name}`,
+      ...foreignLineFields(bill.currency_code, rate, 0, bill.total),
+    });
+
+    const journalEntry = createJournalEntry({
+      date: bill.date,
+      description: `Bill ${bill.number} - ${bill.vendor_name}`,
+      reference: bill.vendor_reference || bill.number,
+      entry_type: "standard",
+      lines: journalLines,
+    });
+
+    // Inventory items go into stock at base-currency cost, with any tax that can't be claimed back
+    const receipts = (bill.items || []).flatMap((item) => {
+      const catalog = item.item_id ? getItem(item.item_id) : undefined;
+      if (catalog?.type !== "inventory") return [];
+      const unclaimed = money.sum(billTaxParts(item, bill.date).filter((part) => part.account_id == null).map((part) => part.amount));
+      return [{
+        item_id: catalog.id,
+        quantity: item.quantity,
+        value: toBase(money.add(item.amount, unclaimed), rate),
+        description: `Bill ${bill.number} - ${bill.vendor_name}`,
+      }];
+    });
+    recordStockMovements(receipts, { type: "bill", id: bill.id, date: bill.date, journal_entry_id: journalEntry.id });
+
+    db.prepare(`
+      UPDATE bills
+      SET status = 'approved', journal_entry_id = ?, approved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(journalEntry.id, bill.id);
+
+    logAudit("approve", "bill", bill.id, { status: bill.status }, { status: "approved" });
+    billLogger.info({ bill: bill.number, total: bill.total }, "Bill approved");
+
+    return getBill(bill.id)!;
+  });
+}
+
+/**
+ * Pay a bill (fully or partially)
+ * Records a sent payment and posts Dr Accounts Payable / Cr Bank. For a
+ * non-resident vendor the tax withheld is credited to Withholding Tax
+ * Payable and only the net leaves the bank; the bill is settled by the gross.
+ */
+export function recordBillPayment(data: RecordBillPaymentData): Payment {
+  if (data.amount <= 0) {
+    throw new Error("Payment amount must be greater than 0");
+  }
+
+  return withTransaction(() => {
+    const db = getDb();
+    const bill = getBill(data.bill_id);
+    if (!bill) {
+      throw new Error("Bill not found");
+    }
+    if (bill.status === "draft") {
+      throw new Error("Cannot record payment for a draft bill. Please approve the bill first.");
+    }
+    if (bill.status === "cancelled") {
+      throw new Error("Cannot record payment for a cancelled bill.");
+    }
+    if (bill.status === "paid") {
+      throw new Error("Bill is already fully paid.");
+    }
+
+    const remainingBalance = money.subtract(bill.total, bill.amount_paid);
+    if (data.amount > remainingBalance) {
+      throw new Error(
+        `Payment amount (${money.format(data.amount)}) exceeds remaining balance (${money.format(remainingBalance)})`
+      );
+    }
+
+    const date = data.date || today();
+    const reference = data.reference || bill.number;
+
+    const apAccount = getAccountByCode("2000");
+    if (!apAccount) {
+      throw new Error("Accounts Payable account (2000) not found. Please ensure chart of accounts is set up.");
+    }
+    const bankAccount = resolveBankAccount(data.bank_account);
+
+    // Foreign bills are paid in their own currency at the payment date rate
+    const currencyCode = bill.exchange_rate && bill.currency_code ? bill.currency_code : getBaseCurrency();
+    const isForeign = isForeignCurrency(currencyCode);
+    const billRate = bill.exchange_rate ?? 1;
+    const paymentRate = resolveDocumentRate(currencyCode, date, data.exchange_rate);
+    const withholding = data.withhold === false ? undefined : getWithholding(bill.vendor_id, data.amount);
+    const netAmount = money.subtract(data.amount, withholding?.amount ?? 0);
+    const grossBase = toBase(data.amount, paymentRate);
+    const baseAmount = toBase(netAmount, paymentRate);
+    const whtBase = money.subtract(grossBase, baseAmount);
+    const apRelief = isForeign
+      ? money.subtract(toBase(money.add(bill.amount_paid, data.amount), billRate), toBase(bill.amount_paid, billRate))
+      : data.amount;
+
+    const result = db.prepare(`
+      INSERT INTO payments (date, type, amount, method, reference, vendor_id, bill_id, account_id, notes, currency_code, exchange_rate, foreign_amount, bank_account_id, wht_amount)
+      VALUES (?, 'sent', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      date,
+      baseAmount,
+      data.method || "bank",
+      reference,
+      bill.vendor_id,
+      bill.id,
+      apAccount.id,
+      data.notes || null,
+      currencyCode,
+      paymentRate,
+      isForeign ? netAmount : null,
+      bankAccount.id,
+      whtBase
+    );
+
+    const paymentId = result.lastInsertRowid as number;
+
+    const journalLines: CreateJournalLineData[] = [
+      {
+        account_id: apAccount.id,
+        debit: apRelief,
+        credit: 0,
+        description: `Bill ${bill.number}`,
+        ...foreignLineFields(currencyCode, billRate, data.amount, 0),
+      },
+      {
+        account_id: bankAccount.id,
+        debit: 0,
+        credit: baseAmount,
+        description: `Payment to ${bill.vendor_name}`,
+        ...foreignLineFields(currencyCode, paymentRate, 0, netAmount),
+      },
+    ];
+    if (withholding) {
+      journalLines.push({
+        account_id: whtPayableAccountId(),
+        debit: 0,
+        credit: whtBase,
+        description: `Withholding tax ${withholding.rate}% (s${withholding.category.section}) - ${bill.vendor_name}`,
+        ...foreignLineFields(currencyCode, paymentRate, 0, withholding.amount),
+      });
+    }
+
+    // Realized exchange difference: paying less base than was booked is a gain
+    const fxLine = fxGainLossLine(
+      money.subtract(apRelief, grossBase),
+      `Realized FX ${apRelief >= grossBase ? "gain" : "loss"} - ${bill.number}`
+    );
+    if (fxLine) journalLines.push(fxLine);
+
+    const journalEntry = createJournalEntry({
+      date,
+      description: `Payment for bill ${bill.number} - ${bill.vendor_name}`,
+      reference,
+      entry_type: "standard",
+      lines: journalLines,
+    });
+
+    db.prepare("UPDATE payments SET journal_entry_id = ? WHERE id = ?").run(journalEntry.id, paymentId);
+    if (withholding) {
+      recordWhtDeduction({
+        payment_id: paymentId,
+        vendor_id: bill.vendor_id,
+        date,
+        withholding,
+        gross_amount: grossBase,
+        wht_amount: whtBase,
+      });
+    }
+
+    const newPaid = money.add(bill.amount_paid, data.amount);
+    const newStatus: Bill["status"] = newPaid >= bill.total ? "paid" : "partial";
+
+    db.prepare(`
+      UPDATE bills
+      SET amount_paid = ?, status = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(newPaid, newStatus, bill.id);
+
+    logAudit("payment", "bill", bill.id, { amount_paid: bill.amount_paid }, { amount_paid: newPaid });
+
+    const payment = getPayment(paymentId)!;
+    logAudit("create", "payment", payment.id, null, payment);
+
+    return payment;
+  });
+}
+
+/**
+ * Delete a bill
+ * Only drafts can be deleted. Approved bills must be cancelled instead.
+ */
+export function deleteBill(idOrNumber: number | string): { success: boolean; error?: string } {
+  const db = getDb();
+  const bill = getBill(idOrNumber);
+
+  if (!bill) {
+    return { success: false, error: "Bill not found" };
+  }
+
+  if (bill.status !== "draft") {
+    return {
+      success: false,
+      error: `Cannot delete bill with status "${bill.status}". Only draft bills can be deleted.`,
+    };
+  }
+
+  db.prepare("DELETE FROM bills WHERE id = ?").run(bill.id);
+  logAudit("delete", "bill", bill.id, bill, null);
+
+  return { success: true };
+}
+
+/**
+ * Cancel a bill
+ * Approved bills have their AP posting reversed. Bills with payments cannot be cancelled.
+ */
+export function cancelBill(idOrNumber: number | string, reason?: string): { success: boolean; error?: string } {
+  const bill = getBill(idOrNumber);
+
+  if (!bill) {
+    return { success: false, error: "Bill not found" };
+  }
+  if (bill.status === "cancelled") {
+    return { success: false, error: "Bill is already cancelled" };
+  }
+  if (bill.amount_paid > 0) {
+    return { success: false, error: "Cannot cancel a bill with payments recorded against it" };
+  }
+
+  try {
+    withTransaction(() => {
+      const db = getDb();
+
+      if (bill.journal_entry_id) {
+        const reversal = reverseJournalEntry(
+          bill.journal_entry_id,
+          undefined,
+          `Cancellation of bill ${bill.number} - ${bill.vendor_name}`
+        );
+        reverseStockMovements("bill", bill.id, reversal.date, reversal.id);
+      }
+
+      db.prepare(`
+        UPDATE bills
+        SET status = 'cancelled', notes = COALESCE(notes || ' | ', '') || ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(reason ? `Cancelled: ${reason}` : "Cancelled", bill.id);
+
+      logAudit("cancel", "bill", bill.id, { status: bill.status }, { status: "cancelled" });
+    });
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+
+  return { success: true };
+}
+
+export function getOverdueBills(): Bill[] {
+  const db = getDb();
+  const asOf = today();
+
+  return db.prepare(`
+    SELECT b.*, v.name as vendor_name
+    FROM bills b
+    JOIN vendors v ON b.vendor_id = v.id
+    WHERE b.status IN ('approved', 'partial')
+    AND b.due_date < ?
+    ORDER BY b.due_date
+  `).all(asOf) as Bill[];
+}
+
+export function getBillSummary(): {
+  total_outstanding: number;
+  total_overdue: number;
+  count_outstanding: number;
+  count_overdue: number;
+  count_draft: number;
+} {
+  const db = getDb();
+  const asOf = today();
+
+  const outstanding = db.prepare(`
+    SELECT COUNT(*) as count, COALESCE(SUM(total - amount_paid), 0) as amount
+    FROM bills
+    WHERE status IN ('approved', 'partial')
+  `).get() as { count: number; amount: number };
+
+  const overdue = db.prepare(`
+    SELECT COUNT(*) as count, COALESCE(SUM(total - amount_paid), 0) as amount
+    FROM bills
+    WHERE status IN ('approved', 'partial')
+    AND due_date < ?
+  `).get(asOf) as { count: number; amount: number };
+
+  const drafts = db.prepare(
+    "SELECT COUNT(*) as count FROM bills WHERE status = 'draft'"
+  ).get() as { count: number };
+
+  return {
+    total_outstanding: outstanding.amount,
+    total_overdue: overdue.amount,
+    count_outstanding: outstanding.count,
+    count_overdue: overdue.count,
+    count_draft: drafts.count,
+  };
+}
@@ -0,0 +1,218 @@
+// Budgets per account per month
+import { getDb, logAudit, withTransaction } from "../db/index.js";
+import { getAccount, getAccountByCode, getAccountBalances, listAccounts, type Account } from "./accounts.js";
+import { ensureFiscalPeriods } from "./periods.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { addDays, assertMonth } from "../core/dates.js";
+
+const budgetLogger = logger.child({ module: "budgets" });
+
+export interface Budget {
+  id: number;
+  account_id: number;
+  month: string; // YYYY-MM
+  amount: number;
+  created_at: string;
+  updated_at: string;
+  // Joined
+  account_code?: string;
+  account_name?: string;
+  account_type?: Account["type"];
+}
+
+export interface BudgetFilters {
+  from_month?: string;
+  to_month?: string;
+  account_id?: number;
+}
+
+export interface SeedBudgetsOptions {
+  growth_percent?: number;
+  overwrite?: boolean;
+}
+
+/**
+ * Resolve an account by id or code; only income and expense accounts can be budgeted
+ */
+function resolveBudgetAccount(account: number | string): Account {
+  const found = typeof account === "number" ? getAccount(account) : getAccountByCode(account.trim());
+
+  if (!found) {
+    throw new Error(`Account not found: ${account}`);
+  }
+  if (found.type !== "income" && found.type !== "expense") {
+    throw new Error(`Account ${found.code} is a ${found.type} account. Budgets are for income and expense accounts.`);
+  }
+  return found;
+}
+
+/**
+ * Set the budget for an account and month (replaces any existing amount)
+ */
+export function setBudget(account: number | string, month: string, amount: number): Budget {
+  assertMonth(month);
+  if (!Number.isFinite(amount)) {
+    throw new Error(`Invalid budget amount for ${month}`);
+  }
+
+  const db = getDb();
+  const acct = resolveBudgetAccount(account);
+
+  db.prepare(`
+    INSERT INTO budgets (account_id, month, amount)
+    VALUES (?, ?, ?)
+    ON CONFLICT (account_id, month) DO UPDATE SET amount = excluded.amount, updated_at = CURRENT_TIMESTAMP
+  `).run(acct.id, month, money.round2(amount));
+
+  return db.prepare(`
+    SELECT b.*, a.code as account_code, a.name as account_name, a.type as account_type
+    FROM budgets b JOIN accounts a ON a.id = b.account_id
+    WHERE b.account_id = ? AND b.month = ?
+  `).get(acct.id, month) as Budget;
+}
+
+export function getBudgets(filters: BudgetFilters = {}): Budget[] {
+  const db = getDb();
+  let sql = `
+    SELECT b.*, a.code as account_code, a.name as account_name, a.type as account_type
+    FROM budgets b
+    JOIN accounts a ON a.id = b.account_id
+    WHERE 1=1
+  `;
+  const params: (string | number)[] = [];
+
+  if (filters.from_month) {
+    sql += " AND b.month >= ?";
+    params.push(filters.from_month);
+  }
+  if (filters.to_month) {
+    sql += " AND b.month <= ?";
+    params.push(filters.to_month);
+  }
+  if (filters.account_id) {
+    sql += " AND b.account_id = ?";
+    params.push(filters.account_id);
+  }
+
+  sql += " ORDER BY a.code, b.month";
+  return db.prepare(sql).all(...params) as Budget[];
+}
+
+/**
+ * Remove budgets for a month range (inclusive)
+ */
+export function clearBudgets(fromMonth: string, toMonth: string): number {
+  assertMonth(fromMonth);
+  assertMonth(toMonth);
+
+  const db = getDb();
+  const result = db.prepare("DELETE FROM budgets WHERE month >= ? AND month <= ?").run(fromMonth, toMonth);
+  logAudit("delete", "budget", null, { from_month: fromMonth, to_month: toMonth, count: result.changes }, null);
+  return result.changes;
+}
+
+/**
+ * Import budgets from CSV
+ * Accepts either long rows (account,month,amount) or a wide layout with one
+ * column per month (account,2025-01,2025-02,...). Accounts are matched by code.
+ */
+export function importBudgetsCsv(content: string): { imported: number; errors: string[] } {
+  const rows = content.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (rows.length === 0) {
+    return { imported: 0, errors: ["File is empty"] };
+  }
+
+  const header = rows[0].split(",").map((h) => h.trim().toLowerCase());
+  const accountCol = header.findIndex((h) => h === "account" || h === "account_code" || h === "code");
+  const monthCol = header.indexOf("month");
+  const amountCol = header.findIndex((h) => h === "amount" || h === "budget");
+  const monthCols = header
+    .map((h, index) => ({ month: h, index }))
+    .filter((c) => /^\d{4}-(0[1-9]|1[0-2])$/.test(c.month));
+
+  if (accountCol < 0 || ((monthCol < 0 || amountCol < 0) && monthCols.length === 0)) {
+    return { imported: 0, errors: ["Header must include account plus month and amount columns, or one YYYY-MM column per month"] };
+  }
+
+  const errors: string[] = [];
+  let imported = 0;
+
+  withTransaction(() => {
+    rows.slice(1).forEach((row, index) => {
+      const cols = row.split(",").map((c) => c.trim());
+      const entries = monthCol >= 0 && amountCol >= 0
+        ? [{ month: cols[monthCol] || "", amount: cols[amountCol] }]
+        : monthCols.map((c) => ({ month: c.month, amount: cols[c.index] }));
+
+      for (const entry of entries) {
+        if (entry.amount === undefined || entry.amount === "") continue;
+        try {
+          setBudget(cols[accountCol] || "", entry.month, parseFloat(entry.amount));
+          imported++;
+        } catch (err) {
+          errors.push(`Line ${index + 2}: ${(err as Error).message}`);
+        }
+      }
+    });
+  });
+
+  budgetLogger.info({ imported, errors: errors.length }, "Budgets imported");
+  return { imported, errors };
+}
+
+/**
+ * Seed a fiscal year's budgets from the previous year's actuals
+ * Each month gets the same month's activity from the prior year (closing
+ * entries excluded), optionally scaled by a growth percentage. Existing
+ * budgets are kept unless overwrite is set.
+ */
+export function seedBudgetsFromActuals(
+  fiscalYear: number,
+  options: SeedBudgetsOptions = {}
+): { created: number; skipped: number } {
+  const growth = 1 + (options.growth_percent || 0) / 100;
+  const sourcePeriods = ensureFiscalPeriods(fiscalYear - 1);
+  const targetPeriods = ensureFiscalPeriods(fiscalYear);
+  const accountIds = listAccounts({ type: "income" })
+    .concat(listAccounts({ type: "expense" }))
+    .map((a) => a.id);
+
+  if (accountIds.length === 0) {
+    return { created: 0, skipped: 0 };
+  }
+
+  const db = getDb();
+  const existing = db.prepare("SELECT 1 FROM budgets WHERE account_id = ? AND month = ?");
+
+  let created = 0;
+  let skipped = 0;
+
+  withTransaction(() => {
+    let previous = getAccountBalances(accountIds, addDays(sourcePeriods[0].start_date, -1), { excludeClosing: true });
+
+    sourcePeriods.forEach((period, i) => {
+      const current = getAccountBalances(accountIds, period.end_date, { excludeClosing: true });
+      const month = targetPeriods[i].name;
+
+      for (const accountId of accountIds) {
+        const actual = money.subtract(current.get(accountId) || 0, previous.get(accountId) || 0);
+        if (money.isZero(actual)) continue;
+
+        if (!options.overwrite && existing.get(accountId, month)) {
+          skipped++;
+          continue;
+        }
+
+        setBudget(accountId, month, money.multiply(actual, growth));
+        created++;
+      }
+
+      previous = current;
+    });
+  });
+
+  logAudit("create", "budget", null, null, { fiscal_year: fiscalYear, source: "actuals", created, skipped });
+  budgetLogger.info({ fiscalYear, created, skipped }, "Budgets seeded from actuals");
+  return { created, skipped };
+}
@@ -7,6 +7,9 @@ export interface CategorizationRule {
   account_id: number;
   account_name?: string;
   account_code?: string;
+  tracking_value_id?: number | null; // Default tracking value for matched expenses
+  tracking_value_name?: string;
+  tracking_dimension_name?: string;
   priority: number;
   match_count: number;
   last_matched_at?: string;
@@ -18,6 +21,27 @@ export interface CreateRuleData {
   vendor_pattern?: string;
   account_id: number;
   priority?: number;
+  tracking_value_id?: number | null;
+}
+
+const RULE_SELECT = `
+  SELECT r.*, a.name as account_name, a.code as account_code,
+    tv.name as tracking_value_name, td.name as tracking_dimension_name
+  FROM categorization_rules r
+  JOIN accounts a ON r.account_id = a.id
+  LEFT JOIN tracking_values tv ON tv.id = r.tracking_value_id
+  LEFT JOIN tracking_dimensions td ON td.id = tv.dimension_id
+`;
+
+function assertTrackingValue(id: number | null | undefined): void {
+  if (id === undefined || id === null) return;
+  const value = getDb().prepare("SELECT is_active FROM tracking_values WHERE id = ?").get(id) as { is_active: number } | undefined;
+  if (!value) {
+    throw new Error(`Tracking value ${id} not found`);
+  }
+  if (!value.is_active) {
+    throw new Error(`Tracking value ${id} is archived`);
+  }
 }
 
 /**
@@ -31,15 +55,17 @@ export function createRule(data: CreateRuleData): CategorizationRule {
   if (!account) {
     throw new Error(`Account with ID ${data.account_id} not found`);
   }
+  assertTrackingValue(data.tracking_value_id);
 
   const result = db.prepare(`
-    INSERT INTO categorization_rules (pattern, vendor_pattern, account_id, priority)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO categorization_rules (pattern, vendor_pattern, account_id, priority, tracking_value_id)
+    VALUES (?, ?, ?, ?, ?)
   `).run(
     data.pattern.toLowerCase(),
     data.vendor_pattern?.toLowerCase() || null,
     data.account_id,
-    data.priority ?? 0
+    data.priority ?? 0,
+    data.tracking_value_id ?? null
   );
 
   const ruleId = result.lastInsertRowid as number;
@@ -56,12 +82,7 @@ export function createRule(data: CreateRuleData): CategorizationRule {
 export function getRule(id: number): CategorizationRule | undefined {
   const db = getDb();
 
-  return db.prepare(`
-    SELECT r.*, a.name as account_name, a.code as account_code
-    FROM categorization_rules r
-    JOIN accounts a ON r.account_id = a.id
-    WHERE r.id = ?
-  `).get(id) as CategorizationRule | undefined;
+  return db.prepare(`${RULE_SELECT} WHERE r.id = ?`).get(id) as CategorizationRule | undefined;
 }
 
 /**
@@ -70,11 +91,7 @@ export function getRule(id: number): CategorizationRule | undefined {
 export function listRules(accountId?: number): CategorizationRule[] {
   const db = getDb();
 
-  let sql = `
-    SELECT r.*, a.name as account_name, a.code as account_code
-    FROM categorization_rules r
-    JOIN accounts a ON r.account_id = a.id
-  `;
+  let sql = RULE_SELECT;
   const params: unknown[] = [];
 
   if (accountId) {
@@ -131,6 +148,11 @@ export function updateRule(id: number, updates: Partial<CreateRuleData>): Catego
     fields.push("priority = ?");
     values.push(updates.priority);
   }
+  if (updates.tracking_value_id !== undefined) {
+    assertTrackingValue(updates.tracking_value_id);
+    fields.push("tracking_value_id = ?");
+    values.push(updates.tracking_value_id);
+  }
 
   if (fields.length === 0) return old;
 
@@ -156,12 +178,7 @@ export interface MatchResult {
 export function matchExpense(description: string, vendorName?: string): MatchResult | null {
   const db = getDb();
 
-  const rules = db.prepare(`
-    SELECT r.*, a.name as account_name, a.code as account_code
-    FROM categorization_rules r
-    JOIN accounts a ON r.account_id = a.id
-    ORDER BY r.priority DESC, r.match_count DESC
-  `).all() as CategorizationRule[];
+  const rules = db.prepare(`${RULE_SELECT} ORDER BY r.priority DESC, r.match_count DESC`).all() as CategorizationRule[];
 
   const descLower = description.toLowerCase();
   const vendorLower = vendorName?.toLowerCase();
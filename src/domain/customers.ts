@@ -16,6 +16,7 @@ export interface Customer {
   id_type?: string;          // NRIC | PASSPORT | BRN | ARMY
   id_number?: string;        // ID value
   sst_registration?: string; // SST Registration Number
+  dunning_opt_out?: boolean; // Never send payment reminders or charge late fees
 }
 
 export interface CustomerWithBalance extends Customer {
@@ -89,7 +90,7 @@ export function listCustomers(): CustomerWithBalance[] {
       COALESCE(SUM(i.amount_paid), 0) as total_paid,
       COALESCE(SUM(i.total - i.amount_paid), 0) as balance
     FROM customers c
-    LEFT JOIN invoices i ON c.id = i.customer_id AND i.status != 'cancelled'
+    LEFT JOIN invoices i ON c.id = i.customer_id AND i.status NOT IN ('draft', 'cancelled')
     GROUP BY c.id
     ORDER BY c.name
   `).all() as CustomerWithBalance[];
@@ -115,6 +116,7 @@ export function updateCustomer(id: number, data: Partial<Customer>): Customer |
   if (data.id_type !== undefined) { fields.push("id_type = ?"); values.push(data.id_type); }
   if (data.id_number !== undefined) { fields.push("id_number = ?"); values.push(data.id_number); }
   if (data.sst_registration !== undefined) { fields.push("sst_registration = ?"); values.push(data.sst_registration); }
+  if (data.dunning_opt_out !== undefined) { fields.push("dunning_opt_out = ?"); values.push(data.dunning_opt_out ? 1 : 0); }
 
   if (fields.length === 0) return old;
 
@@ -0,0 +1,493 @@
+// Dunning: escalating payment reminders per invoice, with optional late fee debit notes
+import { getDb, getSetting, logAudit, withTransaction } from "../db/index.js";
+import { createDebitNote, cancelInvoice, canIssueDebitNote, getInvoice } from "./invoices.js";
+import { getBaseCurrency } from "./exchange-rates.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { daysBetween, today } from "../core/dates.js";
+
+const dunningLogger = logger.child({ module: "dunning" });
+
+export interface DunningLevel {
+  id: number;
+  name: string;
+  days_overdue: number;       // Negative = days before the due date
+  subject: string;
+  body: string;
+  late_fee: number;           // Flat fee, invoice currency
+  interest_rate: number;      // Annual %, charged on the outstanding amount for the days since the last charge
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface CreateDunningLevelData {
+  name: string;
+  days_overdue: number;
+  subject: string;
+  body: string;
+  late_fee?: number;
+  interest_rate?: number;
+  is_active?: boolean;
+}
+
+export interface DunningNotice {
+  id: number;
+  invoice_id: number;
+  level_id: number;
+  date: string;
+  days_overdue: number;
+  outstanding: number;
+  sent_to?: string;
+  status: "sent" | "logged" | "failed"; // logged = recorded without an email going out
+  error?: string;
+  fee_amount: number;
+  debit_note_id?: number;
+  created_at: string;
+  // Joined
+  invoice_number?: string;
+  customer_name?: string;
+  level_name?: string;
+  debit_note_number?: string;
+}
+
+export interface DunningQueueItem {
+  invoice_id: number;
+  invoice_number: string;
+  customer_id: number;
+  customer_name: string;
+  customer_email?: string;
+  currency_code: string;
+  due_date: string;
+  days_overdue: number;
+  outstanding: number;
+  level: DunningLevel;
+  fee: number;                // Late fee and interest this level would charge
+  fee_waived?: string;        // Why a fee the level charges cannot be, e.g. no debit note is allowed
+}
+
+export interface DunningRunSummary {
+  notices: DunningNotice[];
+  errors: Array<{ invoice_id: number; invoice_number: string; level_name: string; error: string }>;
+}
+
+/**
+ * Delivers a reminder; runDunning records a failed notice when this does not succeed
+ */
+export type DunningSender = (
+  item: DunningQueueItem,
+  message: { subject: string; body: string }
+) => Promise<{ success: boolean; error?: string }>;
+
+type DunningLevelRow = Omit<DunningLevel, "is_active"> & { is_active: number };
+
+function toLevel(row: DunningLevelRow): DunningLevel {
+  return { ...row, is_active: row.is_active === 1 };
+}
+
+function validateLevel(data: Partial<CreateDunningLevelData>): void {
+  if (data.name !== undefined && !data.name.trim()) {
+    throw new Error("Dunning level name is required");
+  }
+  if (data.subject !== undefined && !data.subject.trim()) {
+    throw new Error("Dunning level subject is required");
+  }
+  if (data.body !== undefined && !data.body.trim()) {
+    throw new Error("Dunning level body is required");
+  }
+  if (data.days_overdue !== undefined && !Number.isInteger(data.days_overdue)) {
+    throw new Error("Days overdue must be a whole number");
+  }
+  if ((data.late_fee ?? 0) < 0 || (data.interest_rate ?? 0) < 0) {
+    throw new Error("Late fee and interest rate cannot be negative");
+  }
+}
+
+function assertDaysFree(days: number, exceptId?: number): void {
+  const existing = getDb().prepare("SELECT id, name FROM dunning_levels WHERE days_overdue = ?").get(days) as
+    | { id: number; name: string }
+    | undefined;
+  if (existing && existing.id !== exceptId) {
+    throw new Error(`Dunning level "${existing.name}" already runs at ${days} days`);
+  }
+}
+
+export function listDunningLevels(filters?: { active_only?: boolean }): DunningLevel[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT * FROM dunning_levels
+    ${filters?.active_only ? "WHERE is_active = 1" : ""}
+    ORDER BY days_overdue
+  `).all() as DunningLevelRow[];
+  return rows.map(toLevel);
+}
+
+export function getDunningLevel(id: number): DunningLevel | undefined {
+  const row = getDb().prepare("SELECT * FROM dunning_levels WHERE id = ?").get(id) as DunningLevelRow | undefined;
+  return row ? toLevel(row) : undefined;
+}
+
+export function createDunningLevel(data: CreateDunningLevelData): DunningLevel {
+  validateLevel(data);
+  assertDaysFree(data.days_overdue);
+
+  const result = getDb().prepare(`
+    INSERT INTO dunning_levels (name, days_overdue, subject, body, late_fee, interest_rate, is_active)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    data.name.trim(),
+    data.days_overdue,
+    data.subject,
+    data.body,
+    data.late_fee ?? 0,
+    data.interest_rate ?? 0,
+    data.is_active === false ? 0 : 1
+  );
+
+  const level = getDunningLevel(result.lastInsertRowid as number)!;
+  logAudit("create", "dunning_level", level.id, null, level);
+  return level;
+}
+
+export function updateDunningLevel(id: number, data: Partial<CreateDunningLevelData>): DunningLevel {
+  const old = getDunningLevel(id);
+  if (!old) {
+    throw new Error(`Dunning level not found: ${id}`);
+  }
+  validateLevel(data);
+  if (data.days_overdue !== undefined) {
+    assertDaysFree(data.days_overdue, id);
+  }
+
+  const fields: string[] = [];
+  const values: unknown[] = [];
+  if (data.name !== undefined) { fields.push("name = ?"); values.push(data.name.trim()); }
+  if (data.days_overdue !== undefined) { fields.push("days_overdue = ?"); values.push(data.days_overdue); }
+  if (data.subject !== undefined) { fields.push("subject = ?"); values.push(data.subject); }
+  if (data.body !== undefined) { fields.push("body = ?"); values.push(data.body); }
+  if (data.late_fee !== undefined) { fields.push("late_fee = ?"); values.push(data.late_fee); }
+  if (data.interest_rate !== undefined) { fields.push("interest_rate = ?"); values.push(data.interest_rate); }
+  if (data.is_active !== undefined) { fields.push("is_active = ?"); values.push(data.is_active ? 1 : 0); }
+  if (fields.length === 0) return old;
+
+  values.push(id);
+  getDb().prepare(`UPDATE dunning_levels SET ${fields.join(", ")} WHERE id = ?`).run(...values);
+
+  const updated = getDunningLevel(id)!;
+  logAudit("update", "dunning_level", id, old, updated);
+  return updated;
+}
+
+/**
+ * Delete a dunning level that has never been used; used levels can only be deactivated
+ */
+export function deleteDunningLevel(id: number): { success: boolean; error?: string } {
+  const db = getDb();
+  const level = getDunningLevel(id);
+  if (!level) {
+    return { success: false, error: "Dunning level not found" };
+  }
+
+  const used = db.prepare("SELECT COUNT(*) as count FROM dunning_history WHERE level_id = ?").get(id) as { count: number };
+  if (used.count > 0) {
+    return { success: false, error: `"${level.name}" has been sent ${used.count} time(s). Deactivate it instead.` };
+  }
+
+  db.prepare("DELETE FROM dunning_levels WHERE id = ?").run(id);
+  logAudit("delete", "dunning_level", id, level, null);
+  return { success: true };
+}
+
+/**
+ * Late fee and interest a level charges on an outstanding amount
+ * Interest runs from the due date, or from the last notice that charged the
+ * invoice, so no day is charged twice.
+ */
+function lateFee(level: DunningLevel, outstanding: number, daysOverdue: number, interestDays: number): number {
+  if (daysOverdue <= 0) return 0;
+  const interest = money.round2((outstanding * level.interest_rate * Math.max(interestDays, 0)) / 36500);
+  return money.add(level.late_fee, interest);
+}
+
+/**
+ * Open invoices due a reminder as of a date, each at the highest level it has reached.
+ * Levels already sent (or recorded) for an invoice are not repeated, and levels skipped
+ * because dunning started late are not sent separately.
+ */
+export function getDunningQueue(asOfDate?: string, options: { invoice_id?: number } = {}): DunningQueueItem[] {
+  const db = getDb();
+  const asOf = asOfDate || today();
+  const levels = listDunningLevels({ active_only: true });
+  if (levels.length === 0) return [];
+
+  let sql = `
+    SELECT i.id as invoice_id, i.number as invoice_number, i.customer_id, c.name as customer_name,
+      c.email as customer_email, COALESCE(i.currency_code, ?) as currency_code, i.due_date,
+      i.total - i.amount_paid as outstanding,
+      (SELECT MAX(l.days_overdue) FROM dunning_history h
+        JOIN dunning_levels l ON l.id = h.level_id
+        WHERE h.invoice_id = i.id AND h.status != 'failed') as reached_level_days,
+      (SELECT MAX(h.date) FROM dunning_history h
+        WHERE h.invoice_id = i.id AND h.status != 'failed' AND h.fee_amount > 0) as last_charged_date
+    FROM invoices i
+    JOIN customers c ON c.id = i.customer_id
+    WHERE i.status IN ('sent', 'partial', 'overdue')
+      AND COALESCE(i.document_type, '01') != '02'
+      AND COALESCE(c.dunning_opt_out, 0) = 0
+      AND i.total - i.amount_paid > 0.005
+      AND i.id NOT IN (SELECT debit_note_id FROM dunning_history WHERE debit_note_id IS NOT NULL)
+  `;
+  const params: unknown[] = [getBaseCurrency()];
+  if (options.invoice_id) {
+    sql += " AND i.id = ?";
+    params.push(options.invoice_id);
+  }
+  sql += " ORDER BY i.due_date, i.id";
+
+  const rows = db.prepare(sql).all(...params) as Array<{
+    invoice_id: number;
+    invoice_number: string;
+    customer_id: number;
+    customer_name: string;
+    customer_email: string | null;
+    currency_code: string;
+    due_date: string;
+    outstanding: number;
+    reached_level_days: number | null;
+    last_charged_date: string | null;
+  }>;
+
+  const queue: DunningQueueItem[] = [];
+  for (const row of rows) {
+    const daysOverdue = daysBetween(row.due_date, asOf);
+    const reached = [...levels].reverse().find((l) => l.days_overdue <= daysOverdue);
+    if (!reached) continue;
+    if (row.reached_level_days !== null && reached.days_overdue <= row.reached_level_days) continue;
+
+    const outstanding = money.round2(row.outstanding);
+    const interestDays = row.last_charged_date ? daysBetween(row.last_charged_date, asOf) : daysOverdue;
+    let fee = lateFee(reached, outstanding, daysOverdue, interestDays);
+    let feeWaived: string | undefined;
+    if (fee > 0) {
+      // Validated e-invoices only take debit notes for 72 hours, so most overdue ones get no fee
+      const debitNote = canIssueDebitNote(row.invoice_id);
+      if (!debitNote.allowed) {
+        fee = 0;
+        feeWaived = debitNote.reason;
+      }
+    }
+    queue.push({
+      invoice_id: row.invoice_id,
+      invoice_number: row.invoice_number,
+      customer_id: row.customer_id,
+      customer_name: row.customer_name,
+      ...(row.customer_email ? { customer_email: row.customer_email } : {}),
+      currency_code: row.currency_code,
+      due_date: row.due_date,
+      days_overdue: daysOverdue,
+      outstanding,
+      level: reached,
+      fee,
+      ...(feeWaived ? { fee_waived: feeWaived } : {}),
+    });
+  }
+  return queue;
+}
+
+/**
+ * Fill a level's subject and body for one invoice
+ */
+export function renderDunningMessage(item: DunningQueueItem): { subject: string; body: string } {
+  const amount = new Intl.NumberFormat("en-US", { style: "currency", currency: item.currency_code }).format(item.outstanding);
+  const values: Record<string, string> = {
+    customer: item.customer_name,
+    invoice: item.invoice_number,
+    amount,
+    due_date: item.due_date,
+    days_overdue: String(Math.abs(item.days_overdue)),
+    business: getSetting("business_name") || "OpenAccounting",
+    late_fee: item.fee > 0 ? item.fee.toFixed(2) : "",
+  };
+  const fill = (template: string) => template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+  return { subject: fill(item.level.subject), body: fill(item.level.body) };
+}
+
+/**
+ * Record a reminder against an invoice. Unless delivery failed, the level counts as
+ * reached, the invoice's reminder_sent_at is stamped and any late fee is charged by
+ * debit note on the invoice.
+ */
+export function recordDunningNotice(
+  item: DunningQueueItem,
+  result: { status: DunningNotice["status"]; date?: string; sent_to?: string; error?: string }
+): DunningNotice {
+  return withTransaction(() => {
+    const db = getDb();
+    const date = result.date || today();
+    const charged = result.status !== "failed";
+
+    let debitNoteId: number | null = null;
+    if (charged && item.fee > 0) {
+      const note = createDebitNote({
+        original_invoice_id: item.invoice_id,
+        date,
+        reason: `Late payment (${item.level.name})`,
+        items: [{
+          description: `Late payment charge on ${item.invoice_number}, ${item.days_overdue} days overdue`,
+          unit_price: item.fee,
+          account_code: "4300",
+          tax_code: "NT",
+        }],
+      });
+      debitNoteId = note.id;
+    }
+
+    const insert = db.prepare(`
+      INSERT INTO dunning_history (invoice_id, level_id, date, days_overdue, outstanding, sent_to, status, error, fee_amount, debit_note_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      item.invoice_id,
+      item.level.id,
+      date,
+      item.days_overdue,
+      item.outstanding,
+      result.sent_to || null,
+      result.status,
+      result.error || null,
+      charged ? item.fee : 0,
+      debitNoteId
+    );
+
+    if (charged) {
+      db.prepare("UPDATE invoices SET reminder_sent_at = ? WHERE id = ?").run(new Date().toISOString(), item.invoice_id);
+    }
+
+    const notice = getDunningNotice(insert.lastInsertRowid as number)!;
+    logAudit("create", "dunning_notice", notice.id, null, notice);
+    return notice;
+  });
+}
+
+const NOTICE_SELECT = `
+  SELECT h.*, i.number as invoice_number, c.name as customer_name, l.name as level_name, dn.number as debit_note_number
+  FROM dunning_history h
+  JOIN invoices i ON i.id = h.invoice_id
+  JOIN customers c ON c.id = i.customer_id
+  JOIN dunning_levels l ON l.id = h.level_id
+  LEFT JOIN invoices dn ON dn.id = h.debit_note_id
+`;
+
+export function getDunningNotice(id: number): DunningNotice | undefined {
+  return getDb().prepare(`${NOTICE_SELECT} WHERE h.id = ?`).get(id) as DunningNotice | undefined;
+}
+
+export function listDunningHistory(filters?: { invoice_id?: number; customer_id?: number; limit?: number }): DunningNotice[] {
+  let sql = `${NOTICE_SELECT} WHERE 1=1`;
+  const params: unknown[] = [];
+  if (filters?.invoice_id) {
+    sql += " AND h.invoice_id = ?";
+    params.push(filters.invoice_id);
+  }
+  if (filters?.customer_id) {
+    sql += " AND i.customer_id = ?";
+    params.push(filters.customer_id);
+  }
+  sql += " ORDER BY h.date DESC, h.id DESC";
+  if (filters?.limit) {
+    sql += " LIMIT ?";
+    params.push(filters.limit);
+  }
+  return getDb().prepare(sql).all(...params) as DunningNotice[];
+}
+
+/**
+ * Settle a recorded notice with the outcome of sending it. A reminder that did
+ * not go out takes back its late fee and the invoice's reminder stamp, so the
+ * level is tried again on the next run.
+ */
+function settleDunningNotice(
+  notice: DunningNotice,
+  result: { success: boolean; sent_to: string; error?: string; reminder_sent_at?: string }
+): DunningNotice {
+  return withTransaction(() => {
+    const db = getDb();
+    if (result.success) {
+      db.prepare("UPDATE dunning_history SET status = 'sent', sent_to = ? WHERE id = ?").run(result.sent_to, notice.id);
+    } else {
+      if (notice.debit_note_id) {
+        const cancelled = cancelInvoice(notice.debit_note_id, `${notice.level_name} not delivered`);
+        if (!cancelled.success) {
+          throw new Error(`Could not take back the late fee on ${notice.debit_note_number}: ${cancelled.error}`);
+        }
+      }
+      db.prepare(`
+        UPDATE dunning_history SET status = 'failed', sent_to = ?, error = ?, fee_amount = 0, debit_note_id = NULL WHERE id = ?
+      `).run(result.sent_to, result.error || "Email failed", notice.id);
+      db.prepare("UPDATE invoices SET reminder_sent_at = ? WHERE id = ?").run(result.reminder_sent_at ?? null, notice.invoice_id);
+    }
+
+    const settled = getDunningNotice(notice.id)!;
+    logAudit("update", "dunning_notice", notice.id, { status: notice.status }, { status: settled.status });
+    return settled;
+  });
+}
+
+/**
+ * Send every reminder that is due. Each notice, with its late fee debit note, is
+ * recorded before the email goes out and then marked sent or failed, so a reminder
+ * is never sent twice for one charge. Without a sender (or a customer email address)
+ * reminders stay logged, so the level still counts and fees are charged.
+ */
+export async function runDunning(options: {
+  as_of?: string;
+  invoice_id?: number;
+  send?: DunningSender;
+} = {}): Promise<DunningRunSummary> {
+  const date = options.as_of || today();
+  const summary: DunningRunSummary = { notices: [], errors: [] };
+  const fail = (item: DunningQueueItem, error: string) => {
+    summary.errors.push({ invoice_id: item.invoice_id, invoice_number: item.invoice_number, level_name: item.level.name, error });
+  };
+
+  for (const item of getDunningQueue(date, { invoice_id: options.invoice_id })) {
+    if (item.fee_waived) {
+      dunningLogger.info({ invoice: item.invoice_number, reason: item.fee_waived }, "Late fee not charged");
+    }
+
+    const reminderSentAt = getInvoice(item.invoice_id)?.reminder_sent_at;
+    let notice: DunningNotice;
+    try {
+      notice = recordDunningNotice(item, { status: "logged", date });
+    } catch (err) {
+      dunningLogger.error({ invoice: item.invoice_number, err }, "Dunning notice failed");
+      fail(item, err instanceof Error ? err.message : String(err));
+      continue;
+    }
+
+    if (options.send && item.customer_email) {
+      let result: { success: boolean; error?: string };
+      try {
+        result = await options.send(item, renderDunningMessage(item));
+      } catch (err) {
+        result = { success: false, error: err instanceof Error ? err.message : String(err) };
+      }
+
+      try {
+        notice = settleDunningNotice(notice, { ...result, sent_to: item.customer_email, reminder_sent_at: reminderSentAt });
+      } catch (err) {
+        dunningLogger.error({ invoice: item.invoice_number, err }, "Dunning notice failed");
+        fail(item, err instanceof Error ? err.message : String(err));
+        continue;
+      }
+      if (notice.status === "failed") {
+        fail(item, notice.error || "Email failed");
+        continue;
+      }
+    }
+    summary.notices.push(notice);
+  }
+
+  if (summary.notices.length > 0) {
+    dunningLogger.info({ notices: summary.notices.length, date }, "Dunning run");
+  }
+  return summary;
+}
@@ -0,0 +1,195 @@
+import { getDb, logAudit } from "../db/index.js";
+import { assertIsoDate } from "../core/dates.js";
+
+export interface Employee {
+  id: number;
+  name: string;
+  email?: string;
+  phone?: string;
+  employee_number?: string;
+  department?: string;
+  is_active: number; // SQLite uses 0/1 for boolean
+  notes?: string;
+  monthly_salary: number;
+  ic_number?: string;
+  date_of_birth?: string;
+  epf_number?: string;
+  socso_number?: string;
+  tax_number?: string;
+  pcb_category: number; // 1 single, 2 married with a spouse not working, 3 married with a working spouse
+  children: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EmployeeWithBalance extends Employee {
+  claims_outstanding: number; // Approved claims not yet reimbursed
+}
+
+export interface CreateEmployeeData {
+  name: string;
+  email?: string;
+  phone?: string;
+  employee_number?: string;
+  department?: string;
+  notes?: string;
+  monthly_salary?: number;
+  ic_number?: string;
+  date_of_birth?: string;
+  epf_number?: string;
+  socso_number?: string;
+  tax_number?: string;
+  pcb_category?: number;
+  children?: number;
+}
+
+// Payroll details that would give wrong deductions
+function validatePayrollDetails(data: Partial<CreateEmployeeData>): void {
+  if (data.monthly_salary !== undefined && !(data.monthly_salary >= 0)) {
+    throw new Error("Monthly salary cannot be negative");
+  }
+  if (data.pcb_category !== undefined && ![1, 2, 3].includes(data.pcb_category)) {
+    throw new Error("PCB category must be 1 (single), 2 (spouse not working) or 3 (spouse working)");
+  }
+  if (data.children !== undefined && (!Number.isInteger(data.children) || data.children < 0)) {
+    throw new Error("Children must be a whole number");
+  }
+  if (data.date_of_birth) {
+    assertIsoDate(data.date_of_birth, "date of birth");
+  }
+}
+
+export function createEmployee(data: CreateEmployeeData): Employee {
+  const db = getDb();
+
+  if (!data.name?.trim()) {
+    throw new Error("Employee name is required");
+  }
+  if (getEmployee(data.name.trim())) {
+    throw new Error(`Employee already exists: ${data.name.trim()}`);
+  }
+  validatePayrollDetails(data);
+
+  const result = db.prepare(`
+    INSERT INTO employees (name, email, phone, employee_number, department, notes,
+      monthly_salary, ic_number, date_of_birth, epf_number, socso_number, tax_number, pcb_category, children)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    data.name.trim(),
+    data.email || null,
+    data.phone || null,
+    data.employee_number || null,
+    data.department || null,
+    data.notes || null,
+    data.monthly_salary ?? 0,
+    data.ic_number || null,
+    data.date_of_birth || null,
+    data.epf_number || null,
+    data.socso_number || null,
+    data.tax_number || null,
+    data.pcb_category ?? 1,
+    data.children ?? 0
+  );
+
+  const employee = getEmployee(result.lastInsertRowid as number)!;
+  logAudit("create", "employee", employee.id, null, employee);
+
+  return employee;
+}
+
+export function getEmployee(idOrName: number | string): Employee | undefined {
+  const db = getDb();
+
+  if (typeof idOrName === "number") {
+    return db.prepare("SELECT * FROM employees WHERE id = ?").get(idOrName) as Employee | undefined;
+  }
+
+  // Name, then staff number
+  return db.prepare(
+    "SELECT * FROM employees WHERE LOWER(name) = LOWER(?) OR employee_number = ? ORDER BY LOWER(name) = LOWER(?) DESC LIMIT 1"
+  ).get(idOrName, idOrName, idOrName) as Employee | undefined;
+}
+
+export function listEmployees(filters?: { include_inactive?: boolean }): EmployeeWithBalance[] {
+  const db = getDb();
+
+  return db.prepare(`
+    SELECT e.*, COALESCE(c.outstanding, 0) as claims_outstanding
+    FROM employees e
+    LEFT JOIN (
+      SELECT employee_id, SUM(total - amount_paid) as outstanding
+      FROM expense_claims
+      WHERE status IN ('approved', 'partial')
+      GROUP BY employee_id
+    ) c ON e.id = c.employee_id
+    ${filters?.include_inactive ? "" : "WHERE e.is_active = 1"}
+    ORDER BY e.name
+  `).all() as EmployeeWithBalance[];
+}
+
+export function updateEmployee(
+  id: number,
+  data: Partial<CreateEmployeeData> & { is_active?: boolean }
+): Employee | undefined {
+  const db = getDb();
+  const old = getEmployee(id);
+  if (!old) return undefined;
+  validatePayrollDetails(data);
+
+  const fields: string[] = [];
+  const values: unknown[] = [];
+
+  if (data.name !== undefined) { fields.push("name = ?"); values.push(data.name); }
+  if (data.email !== undefined) { fields.push("email = ?"); values.push(data.email); }
+  if (data.phone !== undefined) { fields.push("phone = ?"); values.push(data.phone); }
+  if (data.employee_number !== undefined) { fields.push("employee_number = ?"); values.push(data.employee_number); }
+  if (data.department !== undefined) { fields.push("department = ?"); values.push(data.department); }
+  if (data.notes !== undefined) { fields.push("notes = ?"); values.push(data.notes); }
+  if (data.monthly_salary !== undefined) { fields.push("monthly_salary = ?"); values.push(data.monthly_salary); }
+  if (data.ic_number !== undefined) { fields.push("ic_number = ?"); values.push(data.ic_number); }
+  if (data.date_of_birth !== undefined) { fields.push("date_of_birth = ?"); values.push(data.date_of_birth || null); }
+  if (data.epf_number !== undefined) { fields.push("epf_number = ?"); values.push(data.epf_number); }
+  if (data.socso_number !== undefined) { fields.push("socso_number = ?"); values.push(data.socso_number); }
+  if (data.tax_number !== undefined) { fields.push("tax_number = ?"); values.push(data.tax_number); }
+  if (data.pcb_category !== undefined) { fields.push("pcb_category = ?"); values.push(data.pcb_category); }
+  if (data.children !== undefined) { fields.push("children = ?"); values.push(data.children); }
+  if (data.is_active !== undefined) { fields.push("is_active = ?"); values.push(data.is_active ? 1 : 0); }
+
+  if (fields.length === 0) return old;
+
+  fields.push("updated_at = CURRENT_TIMESTAMP");
+  values.push(id);
+
+  db.prepare(`UPDATE employees SET ${fields.join(", ")} WHERE id = ?`).run(...values);
+
+  const updated = getEmployee(id)!;
+  logAudit("update", "employee", id, old, updated);
+
+  return updated;
+}
+
+/**
+ * Delete an employee
+ * Employees with claims or payslips are kept for the history; deactivate them instead.
+ */
+export function deleteEmployee(id: number): { success: boolean; error?: string } {
+  const db = getDb();
+  const employee = getEmployee(id);
+  if (!employee) {
+    return { success: false, error: "Employee not found" };
+  }
+
+  const claimCount = db.prepare("SELECT COUNT(*) as count FROM expense_claims WHERE employee_id = ?").get(id) as { count: number };
+  if (claimCount.count > 0) {
+    return { success: false, error: `${employee.name} has ${claimCount.count} expense claim(s). Deactivate them instead.` };
+  }
+  const payslipCount = db.prepare("SELECT COUNT(*) as count FROM payroll_lines WHERE employee_id = ?").get(id) as { count: number };
+  if (payslipCount.count > 0) {
+    return { success: false, error: `${employee.name} has ${payslipCount.count} payslip(s). Deactivate them instead.` };
+  }
+
+  db.prepare("DELETE FROM employees WHERE id = ?").run(id);
+  logAudit("delete", "employee", id, employee, null);
+
+  return { success: true };
+}
@@ -0,0 +1,390 @@
+// Exchange rates and foreign currency accounting
+import { getDb, getSetting, logAudit, withTransaction } from "../db/index.js";
+import {
+  createJournalEntry,
+  reverseJournalEntry,
+  getJournalEntriesByReference,
+  type CreateJournalLineData,
+} from "./journal.js";
+import { getAccountByCode } from "./accounts.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { addDays, assertIsoDate } from "../core/dates.js";
+
+const fxLogger = logger.child({ module: "exchange-rates" });
+
+export interface ExchangeRate {
+  id: number;
+  currency_code: string;
+  rate_date: string;
+  rate: number; // Base currency units per 1 unit of currency_code
+  source: "manual" | "csv";
+  created_at: string;
+}
+
+export interface FxRevaluationLine {
+  type: "receivable" | "payable";
+  document_id: number;
+  document: string;
+  party: string;
+  currency_code: string;
+  open_amount: number;   // In document currency
+  booked_rate: number;
+  booked_base: number;
+  closing_rate: number;
+  revalued_base: number;
+  gain_loss: number;     // Positive = gain
+}
+
+export interface FxRevaluationReport {
+  as_of_date: string;
+  lines: FxRevaluationLine[];
+  total_gain_loss: number;
+  journal_entry_id?: number;
+  reversal_entry_id?: number;
+}
+
+export function getBaseCurrency(): string {
+  return (getSetting("currency") || "USD").toUpperCase();
+}
+
+export function isForeignCurrency(currencyCode?: string | null): boolean {
+  return !!currencyCode && currencyCode.toUpperCase() !== getBaseCurrency();
+}
+
+function normalizeCode(currencyCode: string): string {
+  const code = currencyCode.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new Error(`Invalid currency code "${currencyCode}": use a 3-letter ISO 4217 code`);
+  }
+  return code;
+}
+
+/**
+ * Set the rate for a currency on a date (replaces any existing rate for that date)
+ */
+export function setExchangeRate(
+  currencyCode: string,
+  rateDate: string,
+  rate: number,
+  source: ExchangeRate["source"] = "manual"
+): ExchangeRate {
+  const db = getDb();
+  const code = normalizeCode(currencyCode);
+
+  if (code === getBaseCurrency()) {
+    throw new Error(`${code} is the base currency; its rate is always 1`);
+  }
+  assertIsoDate(rateDate, "rate date");
+  if (!(rate > 0)) {
+    throw new Error("Exchange rate must be greater than 0");
+  }
+
+  db.prepare(`
+    INSERT INTO exchange_rates (currency_code, rate_date, rate, source)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT (currency_code, rate_date) DO UPDATE SET rate = excluded.rate, source = excluded.source
+  `).run(code, rateDate, rate, source);
+
+  const saved = db.prepare(
+    "SELECT * FROM exchange_rates WHERE currency_code = ? AND rate_date = ?"
+  ).get(code, rateDate) as ExchangeRate;
+  logAudit("set", "exchange_rate", saved.id, null, saved);
+
+  return saved;
+}
+
+/**
+ * Find the most recent rate on or before a date
+ */
+export function findExchangeRate(currencyCode: string, date: string): ExchangeRate | undefined {
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM exchange_rates
+    WHERE currency_code = ? AND rate_date <= ?
+    ORDER BY rate_date DESC
+    LIMIT 1
+  `).get(currencyCode.toUpperCase(), date) as ExchangeRate | undefined;
+}
+
+/**
+ * Get the rate to convert a currency into base currency on a date
+ * Returns 1 for the base currency; throws when no rate has been entered
+ */
+export function getExchangeRate(currencyCode: string, date: string): number {
+  if (!isForeignCurrency(currencyCode)) return 1;
+
+  const found = findExchangeRate(currencyCode, date);
+  if (!found) {
+    throw new Error(
+      `No exchange rate for ${currencyCode.toUpperCase()} on or before ${date}. ` +
+      `Add one with: oa fx set ${currencyCode.toUpperCase()} <rate> --date ${date}`
+    );
+  }
+  return found.rate;
+}
+
+/**
+ * Rate for a document: explicit rate if given, otherwise the stored rate for its date
+ */
+export function resolveDocumentRate(currencyCode: string, date: string, explicitRate?: number): number {
+  if (!isForeignCurrency(currencyCode)) return 1;
+  if (explicitRate !== undefined) {
+    if (!(explicitRate > 0)) {
+      throw new Error("Exchange rate must be greater than 0");
+    }
+    return explicitRate;
+  }
+  return getExchangeRate(currencyCode, date);
+}
+
+export function listExchangeRates(filters?: { currency_code?: string; limit?: number }): ExchangeRate[] {
+  const db = getDb();
+
+  let sql = "SELECT * FROM exchange_rates WHERE 1=1";
+  const params: unknown[] = [];
+
+  if (filters?.currency_code) {
+    sql += " AND currency_code = ?";
+    params.push(filters.currency_code.toUpperCase());
+  }
+
+  sql += " ORDER BY rate_date DESC, currency_code";
+
+  if (filters?.limit) {
+    sql += " LIMIT ?";
+    params.push(filters.limit);
+  }
+
+  return db.prepare(sql).all(...params) as ExchangeRate[];
+}
+
+export function deleteExchangeRate(id: number): boolean {
+  const db = getDb();
+  const result = db.prepare("DELETE FROM exchange_rates WHERE id = ?").run(id);
+  if (result.changes > 0) {
+    logAudit("delete", "exchange_rate", id);
+  }
+  return result.changes > 0;
+}
+
+/**
+ * Import rates from CSV with a header row containing date, currency and rate columns
+ * e.g. "date,currency,rate\n2024-01-31,USD,4.72"
+ */
+export function importExchangeRatesCsv(content: string): { imported: number; errors: string[] } {
+  const rows = content.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (rows.length === 0) {
+    return { imported: 0, errors: ["File is empty"] };
+  }
+
+  const header = rows[0].split(",").map((h) => h.trim().toLowerCase());
+  const dateCol = header.findIndex((h) => h === "date" || h === "rate_date");
+  const currencyCol = header.findIndex((h) => h === "currency" || h === "currency_code" || h === "code");
+  const rateCol = header.indexOf("rate");
+
+  if (dateCol < 0 || currencyCol < 0 || rateCol < 0) {
+    return { imported: 0, errors: ["Header must include date, currency and rate columns"] };
+  }
+
+  const errors: string[] = [];
+  let imported = 0;
+
+  withTransaction(() => {
+    rows.slice(1).forEach((row, index) => {
+      const cols = row.split(",").map((c) => c.trim());
+      try {
+        setExchangeRate(cols[currencyCol] || "", cols[dateCol] || "", parseFloat(cols[rateCol]), "csv");
+        imported++;
+      } catch (err) {
+        errors.push(`Line ${index + 2}: ${(err as Error).message}`);
+      }
+    });
+  });
+
+  fxLogger.info({ imported, errors: errors.length }, "Exchange rates imported");
+  return { imported, errors };
+}
+
+/**
+ * Convert a document-currency amount to base currency
+ */
+export function toBase(amount: number, rate: number): number {
+  return money.multiply(amount, rate);
+}
+
+/**
+ * Foreign amount columns for a journal line (empty for base currency)
+ */
+export function foreignLineFields(
+  currencyCode: string | null | undefined,
+  rate: number,
+  foreignDebit: number,
+  foreignCredit: number
+): Pick<CreateJournalLineData, "currency_code" | "exchange_rate" | "foreign_debit" | "foreign_credit"> {
+  if (!isForeignCurrency(currencyCode)) return {};
+  return {
+    currency_code: currencyCode!.toUpperCase(),
+    exchange_rate: rate,
+    foreign_debit: foreignDebit,
+    foreign_credit: foreignCredit,
+  };
+}
+
+/**
+ * Journal line booking an exchange difference: positive = gain (4500), negative = loss (5820)
+ */
+export function fxGainLossLine(difference: number, description: string): CreateJournalLineData | null {
+  if (money.isZero(difference)) return null;
+
+  const code = difference > 0 ? "4500" : "5820";
+  const account = getAccountByCode(code);
+  if (!account) {
+    throw new Error(`Foreign exchange ${difference > 0 ? "gain" : "loss"} account (${code}) not found. Please ensure chart of accounts is set up.`);
+  }
+
+  return {
+    account_id: account.id,
+    debit: difference < 0 ? Math.abs(difference) : 0,
+    credit: difference > 0 ? difference : 0,
+    description,
+  };
+}
+
+/**
+ * Revalue open foreign-currency receivables and payables at period-end rates
+ *
+ * Documents are revalued on what was still open on asOfDate, so settlements
+ * recorded after it do not change an earlier revaluation.
+ * With post=true, books an adjusting entry against unrealized FX gain/loss on
+ * asOfDate and reverses it the following day, so realized differences are
+ * still measured from the original document rate when the item is settled.
+ */
+export function revalueOpenBalances(asOfDate: string, options?: { post?: boolean }): FxRevaluationReport {
+  const db = getDb();
+  const base = getBaseCurrency();
+
+  // Settled by then: payments and credits applied, and balances written off
+  const receivables = db.prepare(`
+    SELECT i.id, i.number, c.name as party, i.currency_code, i.exchange_rate,
+           i.total
+             - COALESCE((SELECT SUM(a.amount) FROM payment_allocations a WHERE a.invoice_id = i.id AND a.date <= ?), 0)
+             - COALESCE((SELECT SUM(bd.amount) FROM bad_debts bd WHERE bd.invoice_id = i.id AND bd.date <= ?), 0) as open_amount
+    FROM invoices i
+    JOIN customers c ON i.customer_id = c.id
+    WHERE i.status NOT IN ('draft', 'cancelled')
+      AND i.date <= ?
+      AND i.exchange_rate IS NOT NULL
+      AND i.currency_code IS NOT NULL AND i.currency_code != ?
+      AND COALESCE(i.document_type, '01') != '02'
+  `).all(asOfDate, asOfDate, asOfDate, base) as Array<{ id: number; number: string; party: string; currency_code: string; exchange_rate: number; open_amount: number }>;
+
+  // Bill payments relieve payables by their gross, withholding included, in the bill currency
+  const payables = db.prepare(`
+    SELECT b.id, b.number, v.name as party, b.currency_code, b.exchange_rate,
+           b.total - COALESCE((
+             SELECT SUM(jl.foreign_debit) FROM payments p
+             JOIN journal_lines jl ON jl.entry_id = p.journal_entry_id AND jl.account_id = ?
+             WHERE p.bill_id = b.id AND p.date <= ?
+           ), 0) as open_amount
+    FROM bills b
+    JOIN vendors v ON b.vendor_id = v.id
+    WHERE b.status NOT IN ('draft', 'cancelled')
+      AND b.date <= ?
+      AND b.exchange_rate IS NOT NULL
+      AND b.currency_code IS NOT NULL AND b.currency_code != ?
+  `).all(getAccountByCode("2000")?.id ?? null, asOfDate, asOfDate, base) as Array<{ id: number; number: string; party: string; currency_code: string; exchange_rate: number; open_amount: number }>;
+
+  const lines: FxRevaluationLine[] = [];
+  const revalue = (type: FxRevaluationLine["type"], row: (typeof receivables)[number]) => {
+    const openAmount = money.round2(row.open_amount);
+    if (openAmount <= 0) return;
+    const closingRate = getExchangeRate(row.currency_code, asOfDate);
+    const bookedBase = toBase(openAmount, row.exchange_rate);
+    const revaluedBase = toBase(openAmount, closingRate);
+    const change = money.subtract(revaluedBase, bookedBase);
+    lines.push({
+      type,
+      document_id: row.id,
+      document: row.number,
+      party: row.party,
+      currency_code: row.currency_code,
+      open_amount: openAmount,
+      booked_rate: row.exchange_rate,
+      booked_base: bookedBase,
+      closing_rate: closingRate,
+      revalued_base: revaluedBase,
+      // A stronger foreign currency is a gain on what we are owed, a loss on what we owe
+      gain_loss: type === "receivable" ? change : -change,
+    });
+  };
+  receivables.forEach((row) => revalue("receivable", row));
+  payables.forEach((row) => revalue("payable", row));
+
+  const report: FxRevaluationReport = {
+    as_of_date: asOfDate,
+    lines,
+    total_gain_loss: money.sum(lines.map((l) => l.gain_loss)),
+  };
+
+  if (!options?.post || lines.every((l) => money.isZero(l.gain_loss))) {
+    return report;
+  }
+
+  const reference = `FXREV-${asOfDate}`;
+  if (getJournalEntriesByReference(reference).length > 0) {
+    throw new Error(`Foreign balances have already been revalued as of ${asOfDate}`);
+  }
+
+  return withTransaction(() => {
+    const journalLines: CreateJournalLineData[] = [];
+
+    // One control-account line per type and currency
+    const groups = new Map<string, { type: FxRevaluationLine["type"]; currency: string; change: number }>();
+    for (const line of lines) {
+      const key = `${line.type}:${line.currency_code}`;
+      const group = groups.get(key) || { type: line.type, currency: line.currency_code, change: 0 };
+      group.change = money.add(group.change, money.subtract(line.revalued_base, line.booked_base));
+      groups.set(key, group);
+    }
+
+    for (const group of groups.values()) {
+      if (money.isZero(group.change)) continue;
+      const code = group.type === "receivable" ? "1200" : "2000";
+      const account = getAccountByCode(code);
+      if (!account) {
+        throw new Error(`${group.type === "receivable" ? "Accounts Receivable" : "Accounts Payable"} account (${code}) not found`);
+      }
+      // AR rises with the base value (debit); AP rises with the base value (credit)
+      const increase = Math.abs(group.change);
+      const isDebit = group.type === "receivable" ? group.change > 0 : group.change < 0;
+      journalLines.push({
+        account_id: account.id,
+        debit: isDebit ? increase : 0,
+        credit: isDebit ? 0 : increase,
+        description: `Unrealized FX revaluation - ${group.currency} ${group.type === "receivable" ? "receivables" : "payables"}`,
+      });
+    }
+
+    const fxLine = fxGainLossLine(report.total_gain_loss, `Unrealized FX ${report.total_gain_loss > 0 ? "gain" : "loss"} as of ${asOfDate}`);
+    if (fxLine) journalLines.push(fxLine);
+
+    const entry = createJournalEntry({
+      date: asOfDate,
+      description: `Unrealized FX revaluation as of ${asOfDate}`,
+      reference,
+      entry_type: "adjusting",
+      lines: journalLines,
+    });
+    const reversal = reverseJournalEntry(
+      entry.id,
+      addDays(asOfDate, 1),
+      `Reversal of unrealized FX revaluation as of ${asOfDate}`
+    );
+
+    logAudit("revalue", "exchange_rate", entry.id, null, { as_of_date: asOfDate, total: report.total_gain_loss });
+    fxLogger.info({ asOfDate, total: report.total_gain_loss }, "Foreign balances revalued");
+
+    return { ...report, journal_entry_id: entry.id, reversal_entry_id: reversal.id };
+  });
+}
@@ -0,0 +1,539 @@
+import { getDb, getSetting, setSetting, logAudit, withTransaction } from "../db/index.js";
+import { createJournalEntry, assertDateUnlocked, type CreateJournalLineData } from "./journal.js";
+import { getAccountByCode } from "./accounts.js";
+import { resolveBankAccount } from "./bank-accounts.js";
+import { getPayment, type Payment } from "./payments.js";
+import { getEmployee } from "./employees.js";
+import { getDocument, linkDocumentToExpense } from "./documents.js";
+import { calculateTax } from "./tax-codes.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { today } from "../core/dates.js";
+
+const claimLogger = logger.child({ module: "expense-claims" });
+
+export interface ExpenseClaimItem {
+  id: number;
+  claim_id: number;
+  date: string;
+  description: string;
+  account_id: number;
+  account_code?: string;
+  account_name?: string;
+  amount: number; // As on the receipt, tax included
+  tax_code?: string | null;
+  tax_amount: number;
+  document_id?: number | null;
+  expense_id?: number | null;
+  distance_km?: number | null;
+  rate_per_km?: number | null;
+}
+
+export interface ExpenseClaim {
+  id: number;
+  number: string;
+  employee_id: number;
+  employee_name?: string;
+  date: string;
+  description?: string;
+  status: "draft" | "submitted" | "approved" | "partial" | "paid" | "rejected";
+  total: number;
+  amount_paid: number;
+  journal_entry_id?: number;
+  submitted_at?: string;
+  approved_at?: string;
+  rejected_reason?: string;
+  notes?: string;
+  items?: ExpenseClaimItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClaimItemData {
+  date?: string; // Defaults to the claim date
+  description: string;
+  amount?: number; // Tax included; worked out from distance_km for mileage
+  account?: string; // Expense account code or name
+  tax_code?: string; // Tax included in the amount, e.g. "TX"
+  document_id?: number; // Receipt in the document vault
+  distance_km?: number; // Makes this a mileage line
+  rate_per_km?: number; // Defaults to the mileage_rate setting
+}
+
+export interface CreateExpenseClaimData {
+  employee_id: number;
+  date?: string;
+  description?: string;
+  notes?: string;
+  items?: ClaimItemData[];
+}
+
+export interface ReimburseExpenseClaimData {
+  claim_id: number;
+  amount?: number; // Defaults to the balance owed
+  date?: string;
+  method?: Payment["method"];
+  reference?: string;
+  bank_account?: number | string; // Paid from; defaults to the default bank account
+  notes?: string;
+}
+
+// Per-km rate for mileage lines, from the mileage_rate setting
+export function getMileageRate(): number | undefined {
+  const rate = parseFloat(getSetting("mileage_rate") || "");
+  return isNaN(rate) ? undefined : rate;
+}
+
+export function setMileageRate(rate: number): void {
+  if (!(rate > 0)) {
+    throw new Error("Mileage rate must be greater than 0");
+  }
+  setSetting("mileage_rate", String(rate));
+}
+
+// Resolve the expense account for a claim line: code/name, then Travel for mileage or "Other Expenses"
+function resolveItemAccount(item: ClaimItemData): number {
+  const db = getDb();
+
+  if (item.account) {
+    const account = db.prepare(
+      "SELECT id FROM accounts WHERE code = ? OR LOWER(name) = LOWER(?)"
+    ).get(item.account, item.account) as { id: number } | undefined;
+    if (!account) {
+      throw new Error(`Account "${item.account}" not found for claim item "${item.description}"`);
+    }
+    return account.id;
+  }
+
+  const fallback = (item.distance_km !== undefined
+    ? db.prepare("SELECT id FROM accounts WHERE code = '5800' OR (LOWER(name) = 'travel' AND type = 'expense') LIMIT 1").get()
+    : db.prepare("SELECT id FROM accounts WHERE LOWER(name) LIKE '%other%expense%' AND type = 'expense' LIMIT 1").get()
+  ) as { id: number } | undefined;
+  if (!fallback) {
+    throw new Error(`No expense account found for claim item "${item.description}". Please specify an account.`);
+  }
+  return fallback.id;
+}
+
+function insertItem(claimId: number, claimDate: string, item: ClaimItemData, sortOrder: number): void {
+  const db = getDb();
+  const date = item.date || claimDate;
+
+  let amount = item.amount;
+  let rate: number | null = null;
+  if (item.distance_km !== undefined) {
+    if (!(item.distance_km > 0)) {
+      throw new Error(`Invalid distance for "${item.description}": must be greater than 0`);
+    }
+    rate = item.rate_per_km ?? getMileageRate() ?? null;
+    if (rate === null) {
+      throw new Error("No mileage rate set. Set mileage_rate or give a rate per km.");
+    }
+    amount = money.multiply(item.distance_km, rate);
+  }
+  if (amount === undefined || !(amount > 0)) {
+    throw new Error(`Invalid amount for claim item "${item.description}": must be greater than 0`);
+  }
+  if (item.document_id !== undefined && !getDocument(item.document_id)) {
+    throw new Error(`Document #${item.document_id} not found`);
+  }
+
+  const tax = item.tax_code ? calculateTax(amount, item.tax_code, date, { side: "purchases", inclusive: true }) : undefined;
+
+  db.prepare(`
+    INSERT INTO expense_claim_items (claim_id, date, description, account_id, amount, tax_code, tax_amount, document_id, distance_km, rate_per_km, sort_order)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    claimId, date, item.description, resolveItemAccount(item), amount, tax?.code ?? null, tax?.tax ?? 0,
+    item.document_id ?? null, item.distance_km ?? null, rate, sortOrder
+  );
+}
+
+function refreshTotal(claimId: number): void {
+  getDb().prepare(`
+    UPDATE expense_claims
+    SET total = (SELECT COALESCE(SUM(amount), 0) FROM expense_claim_items WHERE claim_id = ?), updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(claimId, claimId);
+}
+
+function requireDraft(idOrNumber: number | string): ExpenseClaim {
+  const claim = getExpenseClaim(idOrNumber);
+  if (!claim) {
+    throw new Error("Expense claim not found");
+  }
+  if (claim.status !== "draft") {
+    throw new Error(`Cannot change claim with status "${claim.status}". Only draft claims can be edited.`);
+  }
+  return claim;
+}
+
+export function createExpenseClaim(data: CreateExpenseClaimData): ExpenseClaim {
+  return withTransaction(() => {
+    const db = getDb();
+
+    const employee = getEmployee(data.employee_id);
+    if (!employee) {
+      throw new Error(`Employee with ID ${data.employee_id} not found`);
+    }
+    if (!employee.is_active) {
+      throw new Error(`${employee.name} is inactive`);
+    }
+
+    const prefix = getSetting("expense_claim_prefix") || "EC";
+    const nextNum = parseInt(getSetting("next_expense_claim_number") || "1");
+    const number = `${prefix}-${String(nextNum).padStart(4, "0")}`;
+    setSetting("next_expense_claim_number", String(nextNum + 1));
+
+    const date = data.date || today();
+
+    const result = db.prepare(`
+      INSERT INTO expense_claims (number, employee_id, date, description, notes)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(number, employee.id, date, data.description || null, data.notes || null);
+
+    const claimId = result.lastInsertRowid as number;
+    (data.items || []).forEach((item, index) => insertItem(claimId, date, item, index));
+    refreshTotal(claimId);
+
+    const claim = getExpenseClaim(claimId)!;
+    logAudit("create", "expense_claim", claim.id, null, claim);
+
+    return claim;
+  });
+}
+
+export function getExpenseClaim(idOrNumber: number | string): ExpenseClaim | undefined {
+  const db = getDb();
+
+  const claim = db.prepare(`
+    SELECT c.*, e.name as employee_name
+    FROM expense_claims c
+    JOIN employees e ON c.employee_id = e.id
+    WHERE ${typeof idOrNumber === "number" ? "c.id" : "c.number"} = ?
+  `).get(idOrNumber) as ExpenseClaim | undefined;
+
+  if (claim) {
+    claim.items = db.prepare(`
+      SELECT ci.*, a.code as account_code, a.name as account_name
+      FROM expense_claim_items ci
+      JOIN accounts a ON ci.account_id = a.id
+      WHERE ci.claim_id = ?
+      ORDER BY ci.sort_order, ci.id
+    `).all(claim.id) as ExpenseClaimItem[];
+  }
+
+  return claim;
+}
+
+export function listExpenseClaims(filters?: {
+  status?: string;
+  employee_id?: number;
+  unpaid?: boolean;
+  limit?: number;
+}): ExpenseClaim[] {
+  const db = getDb();
+
+  let sql = `
+    SELECT c.*, e.name as employee_name
+    FROM expense_claims c
+    JOIN employees e ON c.employee_id = e.id
+    WHERE 1=1
+  `;
+  const params: unknown[] = [];
+
+  if (filters?.status) {
+    sql += " AND c.status = ?";
+    params.push(filters.status);
+  }
+  if (filters?.employee_id) {
+    sql += " AND c.employee_id = ?";
+    params.push(filters.employee_id);
+  }
+  if (filters?.unpaid) {
+    sql += " AND c.status IN ('approved', 'partial')";
+  }
+
+  sql += " ORDER BY c.date DESC, c.id DESC";
+
+  if (filters?.limit) {
+    sql += " LIMIT ?";
+    params.push(filters.limit);
+  }
+
+  return db.prepare(sql).all(...params) as ExpenseClaim[];
+}
+
+// Add a receipt or mileage line to a draft claim
+export function addExpenseClaimItem(idOrNumber: number | string, item: ClaimItemData): ExpenseClaim {
+  return withTransaction(() => {
+    const claim = requireDraft(idOrNumber);
+    insertItem(claim.id, claim.date, item, claim.items?.length || 0);
+    refreshTotal(claim.id);
+    return getExpenseClaim(claim.id)!;
+  });
+}
+
+export function removeExpenseClaimItem(itemId: number): ExpenseClaim {
+  return withTransaction(() => {
+    const db = getDb();
+    const row = db.prepare("SELECT claim_id FROM expense_claim_items WHERE id = ?").get(itemId) as { claim_id: number } | undefined;
+    if (!row) {
+      throw new Error("Claim item not found");
+    }
+    const claim = requireDraft(row.claim_id);
+    db.prepare("DELETE FROM expense_claim_items WHERE id = ?").run(itemId);
+    refreshTotal(claim.id);
+    return getExpenseClaim(claim.id)!;
+  });
+}
+
+// Hand a draft claim in for approval
+export function submitExpenseClaim(idOrNumber: number | string): ExpenseClaim {
+  const db = getDb();
+  const claim = requireDraft(idOrNumber);
+  if (!claim.items || claim.items.length === 0) {
+    throw new Error("Expense claim must have at least one item");
+  }
+
+  db.prepare(`
+    UPDATE expense_claims
+    SET status = 'submitted', submitted_at = CURRENT_TIMESTAMP, rejected_reason = NULL, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(claim.id);
+
+  logAudit("submit", "expense_claim", claim.id, { status: claim.status }, { status: "submitted" });
+  return getExpenseClaim(claim.id)!;
+}
+
+/**
+ * Approve a submitted claim
+ * Posts Dr expense (per line account) / Dr recoverable tax / Cr Employee Reimbursements Payable,
+ * records each line as an expense and links its receipt to that expense.
+ */
+export function approveExpenseClaim(idOrNumber: number | string): ExpenseClaim {
+  return withTransaction(() => {
+    const db = getDb();
+    const claim = getExpenseClaim(idOrNumber);
+    if (!claim) {
+      throw new Error("Expense claim not found");
+    }
+    if (claim.status !== "submitted") {
+      throw new Error(`Cannot approve claim with status "${claim.status}". Only submitted claims can be approved.`);
+    }
+
+    const payable = getAccountByCode("2150");
+    if (!payable) {
+      throw new Error("Employee Reimbursements Payable account (2150) not found. Please ensure chart of accounts is set up.");
+    }
+
+    const description = `Expense claim ${claim.number} - ${claim.employee_name}`;
+
+    // Debit: one line per expense account, and per account holding recoverable tax
+    const byAccount = new Map<number, number>();
+    for (const item of claim.items || []) {
+      const parts = item.tax_code
+        ? calculateTax(item.amount, item.tax_code, item.date, { side: "purchases", inclusive: true }).parts
+        : [];
+      const recoverable = parts.filter((part) => part.account_id && part.amount > 0);
+      const net = money.subtract(item.amount, money.sum(recoverable.map((part) => part.amount)));
+      byAccount.set(item.account_id, money.add(byAccount.get(item.account_id) || 0, net));
+      for (const part of recoverable) {
+        byAccount.set(part.account_id!, money.add(byAccount.get(part.account_id!) || 0, part.amount));
+      }
+    }
+
+    const journalLines: CreateJournalLineData[] = [...byAccount]
+      .filter(([, amount]) => amount > 0)
+      .map(([accountId, amount]) => ({ account_id: accountId, debit: amount, credit: 0, description }));
+
+    // Credit: owed to the employee until reimbursed
+    journalLines.push({ account_id: payable.id, debit: 0, credit: claim.total, description });
+
+    const journalEntry = createJournalEntry({
+      date: claim.date,
+      description,
+      reference: claim.number,
+      entry_type: "standard",
+      lines: journalLines,
+    });
+
+    const insertExpense = db.prepare(`
+      INSERT INTO expenses (date, account_id, amount, description, reference, notes, tax_code, tax_amount, journal_entry_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const item of claim.items || []) {
+      const expense = insertExpense.run(
+        item.date, item.account_id, item.amount, item.description, claim.number,
+        `Claimed by ${claim.employee_name}`, item.tax_code ?? null, item.tax_amount, journalEntry.id
+      );
+      const expenseId = expense.lastInsertRowid as number;
+      db.prepare("UPDATE expense_claim_items SET expense_id = ? WHERE id = ?").run(expenseId, item.id);
+      if (item.document_id) {
+        linkDocumentToExpense(item.document_id, expenseId);
+      }
+    }
+
+    db.prepare(`
+      UPDATE expense_claims
+      SET status = 'approved', journal_entry_id = ?, approved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(journalEntry.id, claim.id);
+
+    logAudit("approve", "expense_claim", claim.id, { status: claim.status }, { status: "approved" });
+    claimLogger.info({ claim: claim.number, total: claim.total }, "Expense claim approved");
+
+    return getExpenseClaim(claim.id)!;
+  });
+}
+
+/**
+ * Reject a submitted claim
+ * The reason is kept on the claim; reopen it as a draft to correct and resubmit.
+ */
+export function rejectExpenseClaim(idOrNumber: number | string, reason: string): { success: boolean; error?: string } {
+  const claim = getExpenseClaim(idOrNumber);
+
+  if (!claim) {
+    return { success: false, error: "Expense claim not found" };
+  }
+  if (claim.status !== "submitted") {
+    return { success: false, error: `Cannot reject claim with status "${claim.status}". Only submitted claims can be rejected.` };
+  }
+  if (!reason?.trim()) {
+    return { success: false, error: "A reason is required to reject a claim" };
+  }
+
+  getDb().prepare(`
+    UPDATE expense_claims
+    SET status = 'rejected', rejected_reason = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(reason.trim(), claim.id);
+
+  logAudit("reject", "expense_claim", claim.id, { status: claim.status }, { status: "rejected", reason });
+  return { success: true };
+}
+
+// Reopen a rejected claim as a draft so it can be corrected
+export function reopenExpenseClaim(idOrNumber: number | string): ExpenseClaim {
+  const claim = getExpenseClaim(idOrNumber);
+  if (!claim) {
+    throw new Error("Expense claim not found");
+  }
+  if (claim.status !== "rejected") {
+    throw new Error(`Cannot reopen claim with status "${claim.status}". Only rejected claims can be reopened.`);
+  }
+
+  getDb().prepare("UPDATE expense_claims SET status = 'draft', updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(claim.id);
+  logAudit("reopen", "expense_claim", claim.id, { status: claim.status }, { status: "draft" });
+  return getExpenseClaim(claim.id)!;
+}
+
+/**
+ * Reimburse an approved claim (fully or partially)
+ * Records a sent payment and posts Dr Employee Reimbursements Payable / Cr Bank
+ */
+export function reimburseExpenseClaim(data: ReimburseExpenseClaimData): Payment {
+  return withTransaction(() => {
+    const db = getDb();
+    const claim = getExpenseClaim(data.claim_id);
+    if (!claim) {
+      throw new Error("Expense claim not found");
+    }
+    if (claim.status === "paid") {
+      throw new Error("Expense claim is already fully reimbursed.");
+    }
+    if (claim.status !== "approved" && claim.status !== "partial") {
+      throw new Error(`Cannot reimburse a ${claim.status} claim. Please approve the claim first.`);
+    }
+
+    const remainingBalance = money.subtract(claim.total, claim.amount_paid);
+    const amount = data.amount ?? remainingBalance;
+    if (amount <= 0) {
+      throw new Error("Payment amount must be greater than 0");
+    }
+    if (amount > remainingBalance) {
+      throw new Error(
+        `Payment amount (${money.format(amount)}) exceeds remaining balance (${money.format(remainingBalance)})`
+      );
+    }
+
+    const date = data.date || today();
+    assertDateUnlocked(date, "record a payment on");
+    const reference = data.reference || claim.number;
+
+    const payable = getAccountByCode("2150");
+    if (!payable) {
+      throw new Error("Employee Reimbursements Payable account (2150) not found. Please ensure chart of accounts is set up.");
+    }
+    const bankAccount = resolveBankAccount(data.bank_account);
+
+    const result = db.prepare(`
+      INSERT INTO payments (date, type, amount, method, reference, expense_claim_id, account_id, notes, bank_account_id)
+      VALUES (?, 'sent', ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      date,
+      amount,
+      data.method || "bank",
+      reference,
+      claim.id,
+      payable.id,
+      data.notes || `Reimbursement to ${claim.employee_name}`,
+      bankAccount.id
+    );
+
+    const paymentId = result.lastInsertRowid as number;
+
+    const journalEntry = createJournalEntry({
+      date,
+      description: `Reimbursement of ${claim.number} - ${claim.employee_name}`,
+      reference,
+      entry_type: "standard",
+      lines: [
+        { account_id: payable.id, debit: amount, credit: 0, description: `Expense claim ${claim.number}` },
+        { account_id: bankAccount.id, debit: 0, credit: amount, description: `Reimbursement to ${claim.employee_name}` },
+      ],
+    });
+
+    db.prepare("UPDATE payments SET journal_entry_id = ? WHERE id = ?").run(journalEntry.id, paymentId);
+
+    const newPaid = money.add(claim.amount_paid, amount);
+    const newStatus: ExpenseClaim["status"] = newPaid >= claim.total ? "paid" : "partial";
+
+    db.prepare(`
+      UPDATE expense_claims
+      SET amount_paid = ?, status = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(newPaid, newStatus, claim.id);
+
+    logAudit("payment", "expense_claim", claim.id, { amount_paid: claim.amount_paid }, { amount_paid: newPaid });
+
+    const payment = getPayment(paymentId)!;
+    logAudit("create", "payment", payment.id, null, payment);
+
+    return payment;
+  });
+}
+
+/**
+ * Delete an expense claim
+ * Only claims that have not been approved can be deleted.
+ */
+export function deleteExpenseClaim(idOrNumber: number | string): { success: boolean; error?: string } {
+  const claim = getExpenseClaim(idOrNumber);
+
+  if (!claim) {
+    return { success: false, error: "Expense claim not found" };
+  }
+  if (!["draft", "submitted", "rejected"].includes(claim.status)) {
+    return {
+      success: false,
+      error: `Cannot delete claim with status "${claim.status}". Only unapproved claims can be deleted.`,
+    };
+  }
+
+  getDb().prepare("DELETE FROM expense_claims WHERE id = ?").run(claim.id);
+  logAudit("delete", "expense_claim", claim.id, claim, null);
+
+  return { success: true };
+}
@@ -1,4 +1,7 @@
 import { getDb, logAudit } from "../db/index.js";
+import { assertDateUnlocked } from "./journal.js";
+import { setTrackingAssignments, getTrackingAssignments, type TrackingTag } from "./tracking.js";
+import { calculateTax } from "./tax-codes.js";
 
 export interface Expense {
   id: number;
@@ -11,7 +14,10 @@ export interface Expense {
   payment_id?: number;
   is_recurring: number;
   notes?: string;
+  tax_code?: string | null;
+  tax_amount?: number; // Tax included in the amount
   created_at: string;
+  tracking?: TrackingTag[];
 }
 
 export interface ExpenseWithDetails extends Expense {
@@ -29,17 +35,21 @@ export function createExpense(data: {
   reference?: string;
   notes?: string;
   is_recurring?: boolean;
+  tracking?: number[];
+  tax_code?: string; // Tax included in the amount
 }): Expense {
   // Validate amount
   if (data.amount <= 0) {
     throw new Error("Expense amount must be greater than 0");
   }
+  assertDateUnlocked(data.date, "record an expense on");
 
+  const tax = data.tax_code ? calculateTax(data.amount, data.tax_code, data.date, { side: "purchases", inclusive: true }) : undefined;
   const db = getDb();
 
   const result = db.prepare(`
-    INSERT INTO expenses (date, vendor_id, account_id, amount, description, reference, notes, is_recurring)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO expenses (date, vendor_id, account_id, amount, description, reference, notes, is_recurring, tax_code, tax_amount)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     data.date,
     data.vendor_id || null,
@@ -48,9 +58,12 @@ export function createExpense(data: {
     data.description || null,
     data.reference || null,
     data.notes || null,
-    data.is_recurring ? 1 : 0
+    data.is_recurring ? 1 : 0,
+    tax?.code ?? null,
+    tax?.tax ?? 0
   );
 
+  setTrackingAssignments("expense", result.lastInsertRowid as number, data.tracking);
   const expense = getExpense(result.lastInsertRowid as number)!;
   logAudit("create", "expense", expense.id, null, expense);
 
@@ -59,7 +72,11 @@ export function createExpense(data: {
 
 export function getExpense(id: number): Expense | undefined {
   const db = getDb();
-  return db.prepare("SELECT * FROM expenses WHERE id = ?").get(id) as Expense | undefined;
+  const expense = db.prepare("SELECT * FROM expenses WHERE id = ?").get(id) as Expense | undefined;
+  if (expense) {
+    expense.tracking = getTrackingAssignments("expense", [id]).get(id) || [];
+  }
+  return expense;
 }
 
 export function listExpenses(options: {
@@ -119,6 +136,8 @@ export function updateExpense(id: number, data: Partial<Expense>): Expense | und
   const db = getDb();
   const old = getExpense(id);
   if (!old) return undefined;
+  assertDateUnlocked(old.date, "change an expense dated");
+  if (data.date !== undefined) assertDateUnlocked(data.date, "move an expense to");
 
   const fields: string[] = [];
   const values: unknown[] = [];
@@ -147,7 +166,13 @@ export function deleteExpense(id: number): boolean {
   const db = getDb();
   const expense = getExpense(id);
   if (!expense) return false;
+  assertDateUnlocked(expense.date, "delete an expense dated");
+  const schedule = db.prepare("SELECT id FROM amortization_schedules WHERE expense_id = ?").get(id) as { id: number } | undefined;
+  if (schedule) {
+    throw new Error(`Expense #${id} is spread by amortization schedule #${schedule.id}. Delete the schedule first.`);
+  }
 
+  db.prepare("DELETE FROM tracking_assignments WHERE entity_type = 'expense' AND entity_id = ?").run(id);
   db.prepare("DELETE FROM expenses WHERE id = ?").run(id);
   logAudit("delete", "expense", id, expense, null);
 
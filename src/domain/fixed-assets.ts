@@ -0,0 +1,715 @@
+// Fixed asset register: book depreciation, disposals and Malaysian capital allowances
+import { getDb, logAudit, withTransaction } from "../db/index.js";
+import {
+  createJournalEntry,
+  deleteJournalEntry,
+  type CreateJournalLineData,
+} from "./journal.js";
+import { resolveAccount } from "./accounts.js";
+import { getDefaultBankAccount } from "./bank-accounts.js";
+import { getFiscalYearForDate } from "./periods.js";
+import { getFiscalYearRange } from "../core/localization.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { assertIsoDate, assertMonth, shiftMonth, monthsBetween, monthEnd } from "../core/dates.js";
+
+const assetLogger = logger.child({ module: "fixed-assets" });
+
+export type DepreciationMethod = "straight_line" | "declining_balance" | "capital_allowance";
+
+/**
+ * Capital allowance classes under Schedule 3 of the Income Tax Act 1967.
+ * Rates can be overridden per asset (e.g. accelerated allowances, or the
+ * RM100,000 qualifying cost cap on non-commercial vehicles via ca_qualifying_cost).
+ */
+export const CAPITAL_ALLOWANCE_CLASSES = {
+  plant_machinery: { name: "Plant & machinery (general)", initial_rate: 20, annual_rate: 14 },
+  heavy_machinery: { name: "Heavy machinery", initial_rate: 20, annual_rate: 20 },
+  motor_vehicle: { name: "Motor vehicles", initial_rate: 20, annual_rate: 20 },
+  computer: { name: "Computers & ICT equipment", initial_rate: 20, annual_rate: 20 },
+  office_equipment: { name: "Office equipment, furniture & fittings", initial_rate: 20, annual_rate: 10 },
+  small_value: { name: "Small value assets (RM2,000 or less)", initial_rate: 0, annual_rate: 100 },
+} as const;
+
+export type CapitalAllowanceClass = keyof typeof CAPITAL_ALLOWANCE_CLASSES;
+
+export interface FixedAsset {
+  id: number;
+  name: string;
+  description?: string;
+  acquisition_date: string;
+  cost: number;
+  residual_value: number;
+  useful_life_months: number;
+  method: DepreciationMethod;
+  declining_rate?: number | null;
+  asset_account_id: number;
+  accumulated_account_id: number;
+  expense_account_id: number;
+  ca_class?: CapitalAllowanceClass | null;
+  ca_qualifying_cost?: number | null;
+  ca_initial_rate: number;
+  ca_annual_rate: number;
+  status: "active" | "disposed";
+  disposal_date?: string | null;
+  disposal_proceeds?: number | null;
+  acquisition_journal_entry_id?: number | null;
+  disposal_journal_entry_id?: number | null;
+  created_at: string;
+  updated_at: string;
+  // Computed
+  accumulated_depreciation?: number;
+  net_book_value?: number;
+  last_depreciated_month?: string | null;
+}
+
+export interface CreateFixedAssetData {
+  name: string;
+  description?: string;
+  acquisition_date: string;
+  cost: number;
+  residual_value?: number;
+  useful_life_months?: number; // Or useful_life_years; derived from the CA rates for the capital_allowance method
+  useful_life_years?: number;
+  method?: DepreciationMethod;
+  declining_rate?: number;
+  asset_account?: number | string;       // Defaults to 1600 Property, Plant & Equipment
+  accumulated_account?: number | string; // Defaults to 1650 Accumulated Depreciation
+  expense_account?: number | string;     // Defaults to 6300 Depreciation
+  ca_class?: CapitalAllowanceClass;
+  ca_qualifying_cost?: number;
+  ca_initial_rate?: number;
+  ca_annual_rate?: number;
+  paid_from_account?: number | string;   // Post the purchase (Dr asset, Cr this account); omit if already recorded
+}
+
+export interface DepreciationRunResult {
+  through_month: string;
+  dry_run: boolean;
+  entries: Array<{
+    month: string;
+    journal_entry_id: number | null;
+    total: number;
+    assets: Array<{ asset_id: number; name: string; amount: number }>;
+  }>;
+  total: number;
+}
+
+export interface AssetDisposalResult {
+  asset: FixedAsset;
+  net_book_value: number;
+  proceeds: number;
+  gain_loss: number; // Positive = gain
+  journal_entry_id: number;
+}
+
+export interface CapitalAllowanceRow {
+  fiscal_year: number;
+  qualifying_expenditure: number;
+  initial_allowance: number;
+  annual_allowance: number;
+  balancing_allowance: number;
+  balancing_charge: number;
+  residual_expenditure: number;
+}
+
+export interface AssetScheduleLine {
+  asset_id: number;
+  name: string;
+  status: FixedAsset["status"];
+  cost_opening: number;
+  additions: number;
+  disposals: number;
+  cost_closing: number;
+  depreciation_opening: number;
+  depreciation_charge: number;
+  depreciation_disposals: number;
+  depreciation_closing: number;
+  net_book_value: number;
+}
+
+export interface AssetScheduleReport {
+  from_date: string;
+  to_date: string;
+  items: AssetScheduleLine[];
+  totals: Omit<AssetScheduleLine, "asset_id" | "name" | "status">;
+}
+
+export interface CapitalAllowanceSummary {
+  fiscal_year: number;
+  items: Array<CapitalAllowanceRow & {
+    asset_id: number;
+    name: string;
+    ca_class: string | null;
+    book_depreciation: number;
+  }>;
+  totals: {
+    initial_allowance: number;
+    annual_allowance: number;
+    balancing_allowance: number;
+    balancing_charge: number;
+    total_allowances: number; // Net of balancing charges
+    book_depreciation: number;
+    tax_adjustment: number;   // Book depreciation added back less net allowances claimed
+  };
+}
+
+/**
+ * Add an asset to the register
+ * Depreciation starts in the month of acquisition (full-month convention).
+ */
+export function createFixedAsset(data: CreateFixedAssetData): FixedAsset {
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error("Asset name is required");
+  }
+  assertIsoDate(data.acquisition_date);
+  if (!(data.cost > 0)) {
+    throw new Error("Asset cost must be greater than 0");
+  }
+
+  const residual = money.round2(data.residual_value || 0);
+  if (residual < 0 || residual >= data.cost) {
+    throw new Error("Residual value must be at least 0 and less than cost");
+  }
+
+  const method = data.method || "straight_line";
+  const caClass = data.ca_class ? CAPITAL_ALLOWANCE_CLASSES[data.ca_class] : undefined;
+  if (data.ca_class && !caClass) {
+    throw new Error(`Unknown capital allowance class "${data.ca_class}". Use: ${Object.keys(CAPITAL_ALLOWANCE_CLASSES).join(", ")}`);
+  }
+  const caInitialRate = data.ca_initial_rate ?? caClass?.initial_rate ?? 0;
+  const caAnnualRate = data.ca_annual_rate ?? caClass?.annual_rate ?? 0;
+
+  let lifeMonths = data.useful_life_months ?? (data.useful_life_years ? Math.round(data.useful_life_years * 12) : undefined);
+  if (method === "capital_allowance") {
+    if (caAnnualRate <= 0) {
+      throw new Error("The capital_allowance method needs a capital allowance class or annual rate");
+    }
+    lifeMonths ??= Math.ceil(((100 - caInitialRate) / caAnnualRate) * 12);
+  }
+  if (!lifeMonths || lifeMonths <= 0) {
+    throw new Error("Useful life is required (months or years)");
+  }
+
+  const assetAccount = resolveAccount(data.asset_account, "1600", "Asset");
+  const accumulatedAccount = resolveAccount(data.accumulated_account, "1650", "Accumulated depreciation");
+  const expenseAccount = resolveAccount(data.expense_account, "6300", "Depreciation expense");
+  if (assetAccount.type !== "asset" || accumulatedAccount.type !== "asset") {
+    throw new Error("Asset and accumulated depreciation accounts must be asset accounts");
+  }
+  if (expenseAccount.type !== "expense") {
+    throw new Error(`Account ${expenseAccount.code} is not an expense account`);
+  }
+
+  return withTransaction(() => {
+    const db = getDb();
+    const result = db.prepare(`
+      INSERT INTO fixed_assets (
+        name, description, acquisition_date, cost, residual_value, useful_life_months, method, declining_rate,
+        asset_account_id, accumulated_account_id, expense_account_id,
+        ca_class, ca_qualifying_cost, ca_initial_rate, ca_annual_rate
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      name,
+      data.description || null,
+      data.acquisition_date,
+      money.round2(data.cost),
+      residual,
+      lifeMonths,
+      method,
+      data.declining_rate ?? null,
+      assetAccount.id,
+      accumulatedAccount.id,
+      expenseAccount.id,
+      data.ca_class || null,
+      data.ca_qualifying_cost ?? null,
+      caInitialRate,
+      caAnnualRate
+    );
+    const assetId = result.lastInsertRowid as number;
+
+    if (data.paid_from_account !== undefined) {
+      const paidFrom = resolveAccount(data.paid_from_account, "1100", "Payment");
+      const entry = createJournalEntry({
+        date: data.acquisition_date,
+        description: `Purchase of ${name}`,
+        reference: `ASSET-${assetId}`,
+        lines: [
+          { account_id: assetAccount.id, debit: money.round2(data.cost), credit: 0, description: name },
+          { account_id: paidFrom.id, debit: 0, credit: money.round2(data.cost), description: name },
+        ],
+      });
+      db.prepare("UPDATE fixed_assets SET acquisition_journal_entry_id = ? WHERE id = ?").run(entry.id, assetId);
+    }
+
+    const asset = getFixedAsset(assetId)!;
+    logAudit("create", "fixed_asset", asset.id, null, asset);
+    return asset;
+  });
+}
+
+export function getFixedAsset(id: number): FixedAsset | undefined {
+  const db = getDb();
+  const asset = db.prepare("SELECT * FROM fixed_assets WHERE id = ?").get(id) as FixedAsset | undefined;
+  if (!asset) return undefined;
+
+  const posted = db.prepare(
+    "SELECT COALESCE(SUM(amount), 0) as total, MAX(month) as last_month FROM asset_depreciation WHERE asset_id = ?"
+  ).get(id) as { total: number; last_month: string | null };
+
+  asset.accumulated_depreciation = money.round2(posted.total);
+  asset.net_book_value = asset.status === "disposed" ? 0 : money.subtract(asset.cost, posted.total);
+  asset.last_depreciated_month = posted.last_month;
+  return asset;
+}
+
+export function listFixedAssets(options: { status?: FixedAsset["status"] } = {}): FixedAsset[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT id FROM fixed_assets
+    ${options.status ? "WHERE status = ?" : ""}
+    ORDER BY acquisition_date, id
+  `).all(...(options.status ? [options.status] : [])) as Array<{ id: number }>;
+  return rows.map((row) => getFixedAsset(row.id)!);
+}
+
+/**
+ * Delete an asset entered by mistake (only before any depreciation or disposal)
+ */
+export function deleteFixedAsset(id: number): { success: boolean; error?: string } {
+  const asset = getFixedAsset(id);
+  if (!asset) {
+    return { success: false, error: "Asset not found" };
+  }
+  if (asset.status === "disposed" || (asset.accumulated_depreciation || 0) > 0) {
+    return { success: false, error: "Asset has depreciation or a disposal posted. Dispose of it instead." };
+  }
+
+  try {
+    withTransaction(() => {
+      getDb().prepare("DELETE FROM fixed_assets WHERE id = ?").run(id);
+      if (asset.acquisition_journal_entry_id) {
+        deleteJournalEntry(asset.acquisition_journal_entry_id);
+      }
+    });
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+
+  logAudit("delete", "fixed_asset", id, asset, null);
+  return { success: true };
+}
+
+/**
+ * Book depreciation for the asset's nth month of life (0 = acquisition month),
+ * given what has been charged so far. Never takes the asset below residual value.
+ */
+function monthlyDepreciation(asset: FixedAsset, monthIndex: number, accumulated: number): number {
+  const depreciable = money.subtract(asset.cost, asset.residual_value);
+  const remaining = money.subtract(depreciable, accumulated);
+  if (remaining <= 0) return 0;
+
+  let amount: number;
+  switch (asset.method) {
+    case "declining_balance": {
+      // Default: double the straight-line rate
+      const rate = asset.declining_rate || (2 * 100 * 12) / asset.useful_life_months;
+      amount = money.round2((money.subtract(asset.cost, accumulated) * rate) / 100 / 12);
+      if (monthIndex >= asset.useful_life_months - 1) amount = remaining;
+      break;
+    }
+    case "capital_allowance":
+      // Book charge follows the tax rates: the initial allowance in the first month, then the annual rate monthly
+      amount = money.round2((asset.cost * asset.ca_annual_rate) / 100 / 12);
+      if (monthIndex === 0) amount = money.add(amount, money.percent(asset.cost, asset.ca_initial_rate));
+      break;
+    default:
+      amount = money.round2(depreciable / asset.useful_life_months);
+      if (monthIndex >= asset.useful_life_months - 1) amount = remaining;
+  }
+
+  return Math.min(amount, remaining);
+}
+
+/**
+ * Post monthly depreciation for all active assets up to and including a month
+ * Catches up any months not yet posted; one adjusting entry per month, dated
+ * the last day of the month. With dry_run nothing is posted.
+ */
+export function runDepreciation(
+  throughMonth: string,
+  options: { dry_run?: boolean; asset_id?: number } = {}
+): DepreciationRunResult {
+  assertMonth(throughMonth);
+  const db = getDb();
+
+  const assets = listFixedAssets({ status: "active" }).filter(
+    (a) => a.acquisition_date.slice(0, 7) <= throughMonth && (options.asset_id === undefined || a.id === options.asset_id)
+  );
+
+  // Work out what each asset still needs, grouped by month
+  const byMonth = new Map<string, Array<{ asset: FixedAsset; amount: number }>>();
+  for (const asset of assets) {
+    const acquisitionMonth = asset.acquisition_date.slice(0, 7);
+    let accumulated = asset.accumulated_depreciation || 0;
+    let month = asset.last_depreciated_month ? shiftMonth(asset.last_depreciated_month, 1) : acquisitionMonth;
+
+    while (month <= throughMonth) {
+      const amount = monthlyDepreciation(asset, monthsBetween(acquisitionMonth, month), accumulated);
+      if (amount <= 0) break;
+      byMonth.set(month, [...(byMonth.get(month) || []), { asset, amount }]);
+      accumulated = money.add(accumulated, amount);
+      month = shiftMonth(month, 1);
+    }
+  }
+
+  const months = [...byMonth.keys()].sort();
+  const result: DepreciationRunResult = { through_month: throughMonth, dry_run: !!options.dry_run, entries: [], total: 0 };
+
+  const post = () => {
+    const insert = db.prepare(
+      "INSERT INTO asset_depreciation (asset_id, month, amount, journal_entry_id) VALUES (?, ?, ?, ?)"
+    );
+
+    for (const month of months) {
+      const charges = byMonth.get(month)!;
+      const total = charges.reduce((sum, c) => money.add(sum, c.amount), 0);
+      let journalEntryId: number | null = null;
+
+      if (!options.dry_run) {
+        // One line per expense account and per accumulated depreciation account
+        const debits = new Map<number, number>();
+        const credits = new Map<number, number>();
+        for (const { asset, amount } of charges) {
+          debits.set(asset.expense_account_id, money.add(debits.get(asset.expense_account_id) || 0, amount));
+          credits.set(asset.accumulated_account_id, money.add(credits.get(asset.accumulated_account_id) || 0, amount));
+        }
+
+        const lines: CreateJournalLineData[] = [
+          ...[...debits].map(([accountId, amount]) => ({ account_id: accountId, debit: amount, credit: 0, description: `Depreciation ${month}` })),
+          ...[...credits].map(([accountId, amount]) => ({ account_id: accountId, debit: 0, credit: amount, description: `Accumulated depreciation ${month}` })),
+        ];
+
+        const entry = createJournalEntry({
+          date: monthEnd(month),
+          description: `Depreciation for ${month}`,
+          reference: `DEP-${month}`,
+          entry_type: "adjusting",
+          lines,
+        });
+        journalEntryId = entry.id;
+
+        for (const { asset, amount } of charges) {
+          insert.run(asset.id, month, amount, entry.id);
+        }
+      }
+
+      result.entries.push({
+        month,
+        journal_entry_id: journalEntryId,
+        total,
+        assets: charges.map((c) => ({ asset_id: c.asset.id, name: c.asset.name, amount: c.amount })),
+      });
+      result.total = money.add(result.total, total);
+    }
+  };
+
+  if (options.dry_run) {
+    post();
+  } else {
+    withTransaction(post);
+    if (months.length > 0) {
+      logAudit("create", "asset_depreciation", null, null, { through_month: throughMonth, months: months.length, total: result.total });
+      assetLogger.info({ throughMonth, months: months.length, total: result.total }, "Depreciation posted");
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Dispose of (sell or scrap) an asset
+ * Depreciation is brought up to date through the disposal month, then cost and
+ * accumulated depreciation are cleared and the difference between net book
+ * value and proceeds is posted as a gain (4700) or loss (6320).
+ */
+export function disposeAsset(
+  id: number,
+  data: { date: string; proceeds?: number; proceeds_account?: number | string }
+): AssetDisposalResult {
+  assertIsoDate(data.date);
+  const proceeds = money.round2(data.proceeds || 0);
+  if (proceeds < 0) {
+    throw new Error("Disposal proceeds cannot be negative");
+  }
+
+  return withTransaction(() => {
+    const db = getDb();
+    const existing = getFixedAsset(id);
+    if (!existing) {
+      throw new Error("Asset not found");
+    }
+    if (existing.status === "disposed") {
+      throw new Error(`${existing.name} was already disposed of on ${existing.disposal_date}`);
+    }
+    if (data.date < existing.acquisition_date) {
+      throw new Error("Disposal date cannot be before the acquisition date");
+    }
+    if (existing.last_depreciated_month && data.date.slice(0, 7) < existing.last_depreciated_month) {
+      throw new Error(`Depreciation is posted through ${existing.last_depreciated_month}; dispose on or after that month`);
+    }
+
+    runDepreciation(data.date.slice(0, 7), { asset_id: id });
+    const asset = getFixedAsset(id)!;
+    const accumulated = asset.accumulated_depreciation || 0;
+    const netBookValue = money.subtract(asset.cost, accumulated);
+    const gainLoss = money.subtract(proceeds, netBookValue);
+
+    const lines: CreateJournalLineData[] = [];
+    if (accumulated > 0) {
+      lines.push({ account_id: asset.accumulated_account_id, debit: accumulated, credit: 0, description: "Clear accumulated depreciation" });
+    }
+    if (proceeds > 0) {
+      const proceedsAccount = resolveAccount(data.proceeds_account, getDefaultBankAccount().code, "Proceeds");
+      lines.push({ account_id: proceedsAccount.id, debit: proceeds, credit: 0, description: "Disposal proceeds" });
+    }
+    lines.push({ account_id: asset.asset_account_id, debit: 0, credit: asset.cost, description: "Remove asset cost" });
+
+    if (gainLoss > 0) {
+      const gainAccount = resolveAccount(undefined, "4700", "Gain on disposal");
+      lines.push({ account_id: gainAccount.id, debit: 0, credit: gainLoss, description: "Gain on disposal" });
+    } else if (gainLoss < 0) {
+      const lossAccount = resolveAccount(undefined, "6320", "Loss on disposal");
+      lines.push({ account_id: lossAccount.id, debit: Math.abs(gainLoss), credit: 0, description: "Loss on disposal" });
+    }
+
+    const entry = createJournalEntry({
+      date: data.date,
+      description: `Disposal of ${asset.name}`,
+      reference: `ASSET-${asset.id}`,
+      lines,
+    });
+
+    db.prepare(`
+      UPDATE fixed_assets
+      SET status = 'disposed', disposal_date = ?, disposal_proceeds = ?, disposal_journal_entry_id = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(data.date, proceeds, entry.id, id);
+
+    const disposed = getFixedAsset(id)!;
+    logAudit("update", "fixed_asset", id, asset, disposed);
+    assetLogger.info({ assetId: id, proceeds, gainLoss }, "Asset disposed");
+
+    return {
+      asset: disposed,
+      net_book_value: netBookValue,
+      proceeds,
+      gain_loss: gainLoss,
+      journal_entry_id: entry.id,
+    };
+  });
+}
+
+/**
+ * Tax capital allowances for an asset, by fiscal year (year of assessment basis period)
+ * Initial allowance in the year of acquisition; annual allowance every year on
+ * qualifying expenditure until it is fully claimed, but not in the year of disposal,
+ * when a balancing allowance or charge is computed instead.
+ */
+export function getCapitalAllowanceSchedule(assetOrId: number | FixedAsset): CapitalAllowanceRow[] {
+  const asset = typeof assetOrId === "number" ? getFixedAsset(assetOrId) : assetOrId;
+  if (!asset) {
+    throw new Error("Asset not found");
+  }
+  if (asset.ca_initial_rate <= 0 && asset.ca_annual_rate <= 0) {
+    return [];
+  }
+
+  const qualifying = money.round2(asset.ca_qualifying_cost ?? asset.cost);
+  const firstYear = getFiscalYearForDate(asset.acquisition_date);
+  const disposalYear = asset.status === "disposed" && asset.disposal_date ? getFiscalYearForDate(asset.disposal_date) : null;
+
+  const rows: CapitalAllowanceRow[] = [];
+  let residual = qualifying;
+  let claimed = 0;
+
+  for (let year = firstYear; year <= (disposalYear ?? firstYear + 100); year++) {
+    const row: CapitalAllowanceRow = {
+      fiscal_year: year,
+      qualifying_expenditure: qualifying,
+      initial_allowance: 0,
+      annual_allowance: 0,
+      balancing_allowance: 0,
+      balancing_charge: 0,
+      residual_expenditure: residual,
+    };
+
+    if (year === disposalYear) {
+      // Disposal value is restricted in proportion when qualifying cost was capped
+      const disposalValue = money.round2(((asset.disposal_proceeds || 0) * qualifying) / asset.cost);
+      if (disposalValue < residual) {
+        row.balancing_allowance = money.subtract(residual, disposalValue);
+      } else {
+        row.balancing_charge = Math.min(money.subtract(disposalValue, residual), claimed);
+      }
+      if (year === firstYear) {
+        // Bought and sold in the same year: no allowances
+        row.balancing_allowance = money.subtract(qualifying, Math.min(disposalValue, qualifying));
+        row.balancing_charge = 0;
+      }
+      row.residual_expenditure = 0;
+      rows.push(row);
+      break;
+    }
+
+    if (residual <= 0) {
+      if (disposalYear === null) break;
+      continue;
+    }
+
+    if (year === firstYear) {
+      row.initial_allowance = Math.min(money.percent(qualifying, asset.ca_initial_rate), residual);
+    }
+    row.annual_allowance = Math.min(money.percent(qualifying, asset.ca_annual_rate), money.subtract(residual, row.initial_allowance));
+
+    const allowances = money.add(row.initial_allowance, row.annual_allowance);
+    residual = money.subtract(residual, allowances);
+    claimed = money.add(claimed, allowances);
+    row.residual_expenditure = residual;
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Capital allowances for a fiscal year next to book depreciation, for the tax computation
+ */
+export function getCapitalAllowanceSummary(fiscalYear: number): CapitalAllowanceSummary {
+  const db = getDb();
+  const range = getFiscalYearRange(fiscalYear);
+  const bookDepreciation = db.prepare(
+    "SELECT COALESCE(SUM(amount), 0) as total FROM asset_depreciation WHERE asset_id = ? AND month >= ? AND month <= ?"
+  );
+
+  const items: CapitalAllowanceSummary["items"] = [];
+  for (const asset of listFixedAssets()) {
+    const row = getCapitalAllowanceSchedule(asset).find((r) => r.fiscal_year === fiscalYear);
+    const book = money.round2(
+      (bookDepreciation.get(asset.id, range.start.slice(0, 7), range.end.slice(0, 7)) as { total: number }).total
+    );
+    if (!row && book === 0) continue;
+
+    items.push({
+      ...(row || {
+        fiscal_year: fiscalYear,
+        qualifying_expenditure: 0,
+        initial_allowance: 0,
+        annual_allowance: 0,
+        balancing_allowance: 0,
+        balancing_charge: 0,
+        residual_expenditure: 0,
+      }),
+      asset_id: asset.id,
+      name: asset.name,
+      ca_class: asset.ca_class || null,
+      book_depreciation: book,
+    });
+  }
+
+  const sum = (key: "initial_allowance" | "annual_allowance" | "balancing_allowance" | "balancing_charge" | "book_depreciation") =>
+    items.reduce((total, item) => money.add(total, item[key]), 0);
+
+  const initial = sum("initial_allowance");
+  const annual = sum("annual_allowance");
+  const balancingAllowance = sum("balancing_allowance");
+  const balancingCharge = sum("balancing_charge");
+  const totalAllowances = money.subtract(money.add(money.add(initial, annual), balancingAllowance), balancingCharge);
+  const book = sum("book_depreciation");
+
+  return {
+    fiscal_year: fiscalYear,
+    items,
+    totals: {
+      initial_allowance: initial,
+      annual_allowance: annual,
+      balancing_allowance: balancingAllowance,
+      balancing_charge: balancingCharge,
+      total_allowances: totalAllowances,
+      book_depreciation: book,
+      tax_adjustment: money.subtract(book, totalAllowances),
+    },
+  };
+}
+
+/**
+ * Fixed asset movement schedule: cost and accumulated depreciation brought
+ * forward, additions, charge, disposals and carried forward for a date range
+ */
+export function getAssetSchedule(fromDate: string, toDate: string): AssetScheduleReport {
+  assertIsoDate(fromDate);
+  assertIsoDate(toDate);
+  const db = getDb();
+  const fromMonth = fromDate.slice(0, 7);
+  const toMonth = toDate.slice(0, 7);
+
+  const depreciation = db.prepare(`
+    SELECT
+      COALESCE(SUM(CASE WHEN month < ? THEN amount ELSE 0 END), 0) as opening,
+      COALESCE(SUM(CASE WHEN month >= ? AND month <= ? THEN amount ELSE 0 END), 0) as charge
+    FROM asset_depreciation WHERE asset_id = ?
+  `);
+
+  const items: AssetScheduleLine[] = [];
+  for (const asset of listFixedAssets()) {
+    if (asset.acquisition_date > toDate) continue;
+    if (asset.disposal_date && asset.disposal_date < fromDate) continue;
+
+    const dep = depreciation.get(fromMonth, fromMonth, toMonth, asset.id) as { opening: number; charge: number };
+    const costOpening = asset.acquisition_date < fromDate ? asset.cost : 0;
+    const additions = asset.acquisition_date >= fromDate ? asset.cost : 0;
+    const disposedInRange = !!asset.disposal_date && asset.disposal_date <= toDate;
+    const disposals = disposedInRange ? asset.cost : 0;
+    const depOpening = money.round2(dep.opening);
+    const depCharge = money.round2(dep.charge);
+    const depDisposals = disposedInRange ? money.add(depOpening, depCharge) : 0;
+    const costClosing = money.subtract(money.add(costOpening, additions), disposals);
+    const depClosing = money.subtract(money.add(depOpening, depCharge), depDisposals);
+
+    items.push({
+      asset_id: asset.id,
+      name: asset.name,
+      status: disposedInRange ? "disposed" : "active",
+      cost_opening: costOpening,
+      additions,
+      disposals,
+      cost_closing: costClosing,
+      depreciation_opening: depOpening,
+      depreciation_charge: depCharge,
+      depreciation_disposals: depDisposals,
+      depreciation_closing: depClosing,
+      net_book_value: money.subtract(costClosing, depClosing),
+    });
+  }
+
+  const total = (key: keyof AssetScheduleReport["totals"]) => items.reduce((sum, item) => money.add(sum, item[key]), 0);
+
+  return {
+    from_date: fromDate,
+    to_date: toDate,
+    items,
+    totals: {
+      cost_opening: total("cost_opening"),
+      additions: total("additions"),
+      disposals: total("disposals"),
+      cost_closing: total("cost_closing"),
+      depreciation_opening: total("depreciation_opening"),
+      depreciation_charge: total("depreciation_charge"),
+      depreciation_disposals: total("depreciation_disposals"),
+      depreciation_closing: total("depreciation_closing"),
+      net_book_value: total("net_book_value"),
+    },
+  };
+}
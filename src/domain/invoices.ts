@@ -1,11 +1,24 @@
 import { getDb, getSetting, setSetting, logAudit, withTransaction } from "../db/index.js";
 import {
   createJournalEntry,
+  assertDateUnlocked,
+  lockedDateError,
+  reverseJournalEntry,
   type CreateJournalLineData,
 } from "./journal.js";
 import { getAccountByCode } from "./accounts.js";
+import { calculateTax, getDefaultTaxCode, getTaxCode, getTaxRate, splitStoredTax, type TaxCode } from "./tax-codes.js";
+import {
+  setTrackingAssignments,
+  getTrackingAssignments,
+  trackingKey,
+  type TrackingTag,
+} from "./tracking.js";
+import { getBaseCurrency, resolveDocumentRate, foreignLineFields, toBase } from "./exchange-rates.js";
+import { getItem, costOfSales, recordStockMovements, reverseStockMovements } from "./items.js";
 import { logger } from "../core/logger.js";
 import { money } from "../core/currency.js";
+import { today, addDays } from "../core/dates.js";
 
 const invoiceLogger = logger.child({ module: "invoices" });
 
@@ -19,6 +32,15 @@ export interface InvoiceItem {
   classification_code?: string;  // 001-015
   tax_type?: string;             // 01-06, E
   unit_code?: string;            // EA, KGM, etc.
+  tracking?: TrackingTag[];      // Carried onto the revenue posting
+  account_id?: number;           // Income account, defaults to 4000
+  account_code?: string;
+  tax_code?: string | null;      // Lines without a code are taxed at the invoice rate
+  tax_rate?: number;
+  tax_amount?: number;
+  discount_amount?: number;      // Line discount; amount is already net of it
+  taxable_amount?: number;       // Amount less its share of the invoice discount
+  item_id?: number | null;       // Catalog item; inventory items are costed out when issued
 }
 
 // Document types for LHDN e-invoicing
@@ -32,14 +54,17 @@ export interface Invoice {
   date: string;
   due_date: string;
   status: "draft" | "sent" | "partial" | "paid" | "overdue" | "cancelled";
-  subtotal: number;
-  tax_rate: number;
+  subtotal: number;         // Sum of line amounts after line discounts
+  discount_amount?: number; // Invoice-level discount
+  tax_rate: number;         // Default rate for lines without a tax code
   tax_amount: number;
   total: number;
-  amount_paid: number;
+  amount_paid: number;      // Includes any balance written off as a bad debt
+  written_off_amount?: number;
   payment_terms?: string;
   notes?: string;
   items?: InvoiceItem[];
+  journal_entry_id?: number; // Set when the invoice is issued; drafts post nothing
   created_at: string;
   updated_at: string;
   email_sent_at?: string;
@@ -47,8 +72,10 @@ export interface Invoice {
   // Document type (Invoice, Credit Note, Debit Note)
   document_type?: InvoiceDocumentType;
   original_invoice_id?: number;  // Reference to original invoice for credit/debit notes
+  is_opening?: number;           // Brought over from another system as an opening balance
   // LHDN e-Invoice fields (invoice level)
-  currency_code?: string;    // ISO 4217, default MYR
+  currency_code?: string;    // ISO 4217, defaults to the base currency
+  exchange_rate?: number;    // Base currency per 1 unit of currency_code
   payment_mode?: string;     // LHDN payment mode code
   // LHDN e-Invoice submission status
   einvoice_status?: "none" | "pending" | "submitted" | "valid" | "invalid" | "cancelled" | "rejected";
@@ -72,103 +99,496 @@ export interface CreateInvoiceData {
     classification_code?: string;
     tax_type?: string;
     unit_code?: string;
+    tracking?: number[]; // Tracking value ids (project, department...)
+    account_code?: string; // Income account, defaults to 4000
+    tax_code?: string;     // Overrides tax_rate and sets the LHDN tax type
+    discount?: number;     // Line discount as an amount...
+    discount_percent?: number; // ...or a percentage of quantity x price
+    item_id?: number;      // Catalog item; fills in the account, tax and LHDN codes not given
   }>;
   tax_rate?: number;
+  discount?: number;         // Invoice-level discount, spread over the lines
+  discount_percent?: number;
   payment_terms?: string;
   notes?: string;
   // LHDN invoice fields
   currency_code?: string;
+  exchange_rate?: number; // Defaults to the stored rate for the invoice date
   payment_mode?: string;
 }
 
-export function createInvoice(data: CreateInvoiceData): Invoice {
-  return withTransaction(() => {
-    const db = getDb();
+/**
+ * Revenue postings for a document: one line per distinct combination of item
+ * income account and tracking values, so reports see revenue by account and by
+ * project, department... The last line absorbs base-currency rounding so the
+ * lines sum to the subtotal.
+ */
+function revenueLines(
+  items: Array<{ amount: number; account_id?: number | null; tracking?: number[] }>,
+  line: Pick<CreateJournalLineData, "account_id" | "description">,
+  side: "debit" | "credit",
+  currencyCode: string | null | undefined,
+  rate: number,
+  subtotal: number,
+  baseSubtotal: number
+): CreateJournalLineData[] {
+  const groups = new Map<string, { account_id: number; tracking?: number[]; amount: number }>();
+  for (const item of items) {
+    const accountId = item.account_id || line.account_id;
+    const key = `${accountId}:${trackingKey(item.tracking)}`;
+    const group = groups.get(key);
+    if (group) {
+      group.amount = money.add(group.amount, item.amount);
+    } else {
+      groups.set(key, { account_id: accountId, tracking: item.tracking, amount: item.amount });
+    }
+  }
 
-    // Verify customer exists
-    const customer = db.prepare("SELECT id, name FROM customers WHERE id = ?").get(data.customer_id) as { id: number; name: string } | undefined;
-    if (!customer) {
-      throw new Error(`Customer with ID ${data.customer_id} not found`);
+  const entries = [...groups.values()].filter((g) => !money.isZero(g.amount));
+  if (entries.length <= 1) {
+    const only = entries[0] ?? [...groups.values()][0];
+    entries.splice(0, entries.length, { account_id: only?.account_id ?? line.account_id, tracking: only?.tracking, amount: subtotal });
+  }
+
+  let remaining = baseSubtotal;
+  return entries.map((group, index) => {
+    const base = index === entries.length - 1 ? remaining : toBase(group.amount, rate);
+    remaining = money.subtract(remaining, base);
+    return {
+      ...line,
+      account_id: group.account_id,
+      debit: side === "debit" ? base : 0,
+      credit: side === "credit" ? base : 0,
+      ...foreignLineFields(currencyCode, rate, side === "debit" ? group.amount : 0, side === "credit" ? group.amount : 0),
+      tracking: group.tracking,
+    };
+  });
+}
+
+// A line's tax owed to one account; combined codes give a line several
+type TaxShare = { amount: number; account_id: number | null };
+
+/**
+ * Tax postings for a document: one line per tax payable account. The last line
+ * takes any base-currency rounding so the entry balances against the receivable.
+ */
+function taxLines(
+  items: Array<{ tax_parts: TaxShare[] }>,
+  description: string,
+  side: "debit" | "credit",
+  currencyCode: string | null | undefined,
+  rate: number,
+  baseTax: number
+): CreateJournalLineData[] {
+  const groups = new Map<number, number>();
+  for (const part of items.flatMap((item) => item.tax_parts)) {
+    if (money.isZero(part.amount)) continue;
+    if (!part.account_id) {
+      throw new Error("Sales Tax Payable account (2300) not found. Please ensure chart of accounts is set up.");
     }
+    groups.set(part.account_id, money.add(groups.get(part.account_id) || 0, part.amount));
+  }
 
-    // Validate line items
-    if (!data.items || data.items.length === 0) {
-      throw new Error("Invoice must have at least one line item");
+  const entries = [...groups.entries()];
+  let remaining = baseTax;
+  return entries.map(([accountId, amount], index) => {
+    const base = index === entries.length - 1 ? remaining : toBase(amount, rate);
+    remaining = money.subtract(remaining, base);
+    return {
+      account_id: accountId,
+      debit: side === "debit" ? base : 0,
+      credit: side === "credit" ? base : 0,
+      description,
+      ...foreignLineFields(currencyCode, rate, side === "debit" ? amount : 0, side === "credit" ? amount : 0),
+    };
+  });
+}
+
+type ItemInput = CreateInvoiceData["items"][number];
+
+type PreparedItem = Omit<ItemInput, "tax_code"> & {
+  quantity: number;
+  amount: number;
+  discount_amount: number;
+  taxable_amount: number;
+  account_id: number;
+  tax_code: string | null;
+  tax_rate: number;
+  tax_amount: number;
+  tax_parts: TaxShare[];
+};
+
+// Resolve a line's income account code, defaulting to Sales Revenue
+function incomeAccountId(code?: string): number {
+  const account = getAccountByCode(code || "4000");
+  if (!account) {
+    throw new Error(code
+      ? `Account ${code} not found`
+      : "Sales Revenue account (4000) not found. Please ensure chart of accounts is set up.");
+  }
+  if (account.type !== "income") {
+    throw new Error(`Account ${account.code} is not an income account`);
+  }
+  return account.id;
+}
+
+function salesTaxAccountId(): number | null {
+  return getAccountByCode("2300")?.id ?? null;
+}
+
+/**
+ * Tax shares of a stored line. Combined codes are split again at the document
+ * date, with the last code keeping any difference from the stored amount.
+ */
+function storedTaxParts(item: { taxable_amount?: number; amount: number; tax_code?: string | null; tax_amount?: number }, date: string): TaxShare[] {
+  const taxAmount = item.tax_amount || 0;
+  if (money.isZero(taxAmount)) return [];
+  if (!item.tax_code?.includes("+")) {
+    const code = item.tax_code ? getTaxCode(item.tax_code) : undefined;
+    return [{ amount: taxAmount, account_id: code?.collected_account_id ?? salesTaxAccountId() }];
+  }
+
+  return splitStoredTax(item.taxable_amount ?? item.amount, item.tax_code, taxAmount, date, "sales");
+}
+
+/**
+ * Price document lines: apply line discounts, spread any document discount
+ * over the lines in proportion to their amounts, then tax each line with its
+ * tax code at the rate in force on the document date. Lines without a code use
+ * the default code, or else the flat default rate.
+ */
+function priceItems(
+  input: ItemInput[],
+  options: { tax_rate: number; date: string; default_tax_code?: TaxCode; discount?: number; discount_percent?: number }
+): { items: PreparedItem[]; subtotal: number; discountAmount: number; taxAmount: number; total: number } {
+  let subtotal = 0;
+  const lines = input.map((item) => {
+    const qty = item.quantity || 1;
+    const gross = money.multiply(qty, item.unit_price);
+    if ((item.discount_percent ?? 0) < 0 || (item.discount_percent ?? 0) > 100 || (item.discount ?? 0) < 0) {
+      throw new Error(`Invalid discount for item "${item.description}"`);
     }
-    for (const item of data.items) {
-      if ((item.quantity || 1) <= 0) {
-        throw new Error(`Invalid quantity for item "${item.description}": must be greater than 0`);
-      }
-      if (item.unit_price < 0) {
-        throw new Error(`Invalid unit price for item "${item.description}": cannot be negative`);
-      }
+    const discount = item.discount_percent !== undefined ? money.percent(gross, item.discount_percent) : item.discount ?? 0;
+    if (discount > gross) {
+      throw new Error(`Discount for item "${item.description}" is more than its amount`);
     }
+    const amount = money.subtract(gross, discount);
+    subtotal = money.add(subtotal, amount);
+    return { ...item, quantity: qty, amount, discount_amount: discount };
+  });
 
-    // Get next invoice number
-    const prefix = getSetting("invoice_prefix") || "INV";
-    const nextNum = parseInt(getSetting("next_invoice_number") || "1");
-    const number = `${prefix}-${String(nextNum).padStart(4, "0")}`;
-    setSetting("next_invoice_number", String(nextNum + 1));
+  if ((options.discount_percent ?? 0) < 0 || (options.discount_percent ?? 0) > 100 || (options.discount ?? 0) < 0) {
+    throw new Error("Invalid invoice discount");
+  }
+  const discountAmount = options.discount_percent !== undefined
+    ? money.percent(subtotal, options.discount_percent)
+    : options.discount ?? 0;
+  if (discountAmount > subtotal) {
+    throw new Error("Discount cannot be more than the subtotal");
+  }
 
-    // Calculate dates
-    const date = data.date || new Date().toISOString().split("T")[0];
-    const terms = data.payment_terms || getSetting("default_payment_terms") || "net_30";
-    const daysMatch = terms.match(/net_(\d+)/);
-    const days = daysMatch ? parseInt(daysMatch[1]) : 30;
-    const dueDate = data.due_date || new Date(new Date(date).getTime() + days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+  let remainingDiscount = discountAmount;
+  const lastPriced = lines.reduce((last, line, index) => (line.amount > 0 ? index : last), -1);
+  let taxAmount = 0;
+  const items: PreparedItem[] = lines.map((line, index) => {
+    const share = index === lastPriced
+      ? remainingDiscount
+      : subtotal > 0 ? money.round2((discountAmount * line.amount) / subtotal) : 0;
+    remainingDiscount = money.subtract(remainingDiscount, share);
+    const taxable = money.subtract(line.amount, share);
+
+    const codes = line.tax_code || options.default_tax_code?.code;
+    const calculation = codes ? calculateTax(taxable, codes, options.date, { side: "sales" }) : undefined;
+    const rate = calculation ? calculation.rate : options.tax_rate;
+    const tax = calculation ? calculation.tax : money.percent(taxable, rate);
+    taxAmount = money.add(taxAmount, tax);
+
+    return {
+      ...line,
+      tax_type: line.tax_type || calculation?.tax_type,
+      taxable_amount: taxable,
+      account_id: incomeAccountId(line.account_code),
+      tax_code: calculation?.code ?? null,
+      tax_rate: rate,
+      tax_amount: tax,
+      tax_parts: calculation ? calculation.parts : tax > 0 ? [{ amount: tax, account_id: salesTaxAccountId() }] : [],
+    };
+  });
+
+  const total = money.add(money.subtract(subtotal, discountAmount), taxAmount);
+  return { items, subtotal, discountAmount, taxAmount, total };
+}
 
-    // Validate due date is not before invoice date
-    if (new Date(dueDate) < new Date(date)) {
-      throw new Error("Due date cannot be before invoice date");
+// Stored lines as posting amounts: revenue net of all discounts, tax to its accounts
+function postingItems(items: InvoiceItem[], date: string) {
+  return items.map((item) => ({
+    amount: item.taxable_amount ?? item.amount,
+    account_id: item.account_id,
+    tracking: item.tracking?.map((tag) => tag.value_id),
+    tax_parts: storedTaxParts(item, date),
+  }));
+}
+
+// A stored line as input again, for editing drafts and repeating invoices
+export function itemInput(item: InvoiceItem): ItemInput {
+  return {
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    classification_code: item.classification_code,
+    tax_type: item.tax_type,
+    unit_code: item.unit_code,
+    tracking: item.tracking?.map((tag) => tag.value_id),
+    account_code: item.account_code,
+    tax_code: item.tax_code ?? undefined,
+    discount: item.discount_amount || undefined,
+    item_id: item.item_id ?? undefined,
+  };
+}
+
+// Fill a catalog line's income account, tax code and LHDN codes from the item where not given
+function withCatalogDefaults(item: ItemInput): ItemInput {
+  if (!item.item_id) return item;
+  const catalog = getItem(item.item_id);
+  if (!catalog) {
+    throw new Error(`Item not found: ${item.item_id}`);
+  }
+  return {
+    ...item,
+    account_code: item.account_code || catalog.income_account_code || undefined,
+    tax_code: item.tax_code || catalog.tax_code || undefined,
+    classification_code: item.classification_code || catalog.classification_code || undefined,
+    unit_code: item.unit_code || catalog.unit_code || undefined,
+  };
+}
+
+// Validate a draft's data and work out dates, totals and the document rate
+function prepareInvoice(data: CreateInvoiceData) {
+  const db = getDb();
+
+  // Verify customer exists
+  const customer = db.prepare("SELECT id, name FROM customers WHERE id = ?").get(data.customer_id) as { id: number; name: string } | undefined;
+  if (!customer) {
+    throw new Error(`Customer with ID ${data.customer_id} not found`);
+  }
+
+  // Validate line items
+  if (!data.items || data.items.length === 0) {
+    throw new Error("Invoice must have at least one line item");
+  }
+  for (const item of data.items) {
+    if ((item.quantity || 1) <= 0) {
+      throw new Error(`Invalid quantity for item "${item.description}": must be greater than 0`);
     }
+    if (item.unit_price < 0) {
+      throw new Error(`Invalid unit price for item "${item.description}": cannot be negative`);
+    }
+  }
 
-    // Calculate totals
-    let subtotal = 0;
-    const items = data.items.map((item) => {
-      const qty = item.quantity || 1;
-      const amount = money.multiply(qty, item.unit_price);
-      subtotal = money.add(subtotal, amount);
-      return { ...item, quantity: qty, amount };
-    });
+  // Calculate dates
+  const date = data.date || today();
+  const terms = data.payment_terms || getSetting("default_payment_terms") || "net_30";
+  const daysMatch = terms.match(/net_(\d+)/);
+  const days = daysMatch ? parseInt(daysMatch[1]) : 30;
+  const dueDate = data.due_date || addDays(date, days);
 
-    const taxRate = data.tax_rate ?? parseFloat(getSetting("tax_rate") || "0");
-    const taxAmount = money.percent(subtotal, taxRate);
-    const total = money.add(subtotal, taxAmount);
+  // Validate due date is not before invoice date
+  if (new Date(dueDate) < new Date(date)) {
+    throw new Error("Due date cannot be before invoice date");
+  }
 
-    // Insert invoice with LHDN fields
-    const currencyCode = data.currency_code || "MYR";
-    const paymentMode = data.payment_mode || "03"; // Bank Transfer default
+  assertDateUnlocked(date, "date an invoice");
+
+  // Calculate totals
+  const defaultCode = data.tax_rate === undefined ? getDefaultTaxCode() : undefined;
+  const taxRate = data.tax_rate ?? (defaultCode ? getTaxRate(defaultCode, date) : parseFloat(getSetting("tax_rate") || "0"));
+  const { items, subtotal, discountAmount, taxAmount, total } = priceItems(data.items.map(withCatalogDefaults), {
+    tax_rate: taxRate,
+    date,
+    default_tax_code: defaultCode,
+    discount: data.discount,
+    discount_percent: data.discount_percent,
+  });
+
+  const currencyCode = (data.currency_code || getBaseCurrency()).toUpperCase();
+  const exchangeRate = resolveDocumentRate(currencyCode, date, data.exchange_rate);
+  const paymentMode = data.payment_mode || "03"; // Bank Transfer default
+
+  return { date, dueDate, terms, items, subtotal, discountAmount, taxRate, taxAmount, total, currencyCode, exchangeRate, paymentMode };
+}
+
+// Insert line items with LHDN fields, accounts and tax
+function saveInvoiceItems(
+  invoiceId: number,
+  items: Array<Omit<PreparedItem, "tracking" | "tax_parts"> & { tracking?: number[] }>,
+  options: { allow_archived?: boolean } = {}
+): void {
+  const insertItem = getDb().prepare(`
+    INSERT INTO invoice_items (
+      invoice_id, description, quantity, unit_price, amount, sort_order, classification_code, tax_type, unit_code,
+      account_id, tax_code, tax_rate, tax_amount, discount_amount, taxable_amount, item_id
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  items.forEach((item, index) => {
+    const itemResult = insertItem.run(
+      invoiceId,
+      item.description,
+      item.quantity,
+      item.unit_price,
+      item.amount,
+      index,
+      item.classification_code || "002",  // Services default
+      item.tax_type || "E",               // Tax exempt default
+      item.unit_code || "EA",             // Each default
+      item.account_id,
+      item.tax_code,
+      item.tax_rate,
+      item.tax_amount,
+      item.discount_amount,
+      item.taxable_amount,
+      item.item_id ?? null
+    );
+    setTrackingAssignments("invoice_item", itemResult.lastInsertRowid as number, item.tracking, options);
+  });
+}
+
+// Remove a draft's line items and their tracking before they are replaced or deleted
+function clearInvoiceItems(invoiceId: number): void {
+  const db = getDb();
+  db.prepare(`
+    DELETE FROM tracking_assignments
+    WHERE entity_type = 'invoice_item' AND entity_id IN (SELECT id FROM invoice_items WHERE invoice_id = ?)
+  `).run(invoiceId);
+  db.prepare("DELETE FROM invoice_items WHERE invoice_id = ?").run(invoiceId);
+}
+
+/**
+ * Create a draft invoice. Drafts carry a DRAFT-nnnn placeholder number and
+ * post nothing to the ledger; issueInvoice() assigns the invoice number and
+ * posts the journal entry.
+ */
+export function createInvoice(data: CreateInvoiceData): Invoice {
+  return withTransaction(() => {
+    const db = getDb();
+    const prepared = prepareInvoice(data);
+
+    const nextDraft = parseInt(getSetting("next_draft_invoice_number") || "1");
+    const number = `DRAFT-${String(nextDraft).padStart(4, "0")}`;
+    setSetting("next_draft_invoice_number", String(nextDraft + 1));
 
+    // Insert invoice with LHDN fields
     const result = db.prepare(`
-      INSERT INTO invoices (number, customer_id, date, due_date, subtotal, tax_rate, tax_amount, total, payment_terms, notes, currency_code, payment_mode)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).run(number, data.customer_id, date, dueDate, subtotal, taxRate, taxAmount, total, terms, data.notes || null, currencyCode, paymentMode);
+      INSERT INTO invoices (number, customer_id, date, due_date, subtotal, discount_amount, tax_rate, tax_amount, total, payment_terms, notes, currency_code, exchange_rate, payment_mode)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      number, data.customer_id, prepared.date, prepared.dueDate, prepared.subtotal, prepared.discountAmount, prepared.taxRate, prepared.taxAmount,
+      prepared.total, prepared.terms, data.notes || null, prepared.currencyCode, prepared.exchangeRate, prepared.paymentMode
+    );
 
     const invoiceId = result.lastInsertRowid as number;
+    saveInvoiceItems(invoiceId, prepared.items);
+
+    const invoice = getInvoice(invoiceId)!;
+    logAudit("create", "invoice", invoice.id, null, invoice);
+
+    return invoice;
+  });
+}
 
-    // Insert line items with LHDN fields
-    const insertItem = db.prepare(`
-      INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, amount, sort_order, classification_code, tax_type, unit_code)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    items.forEach((item, index) => {
-      const originalItem = data.items[index];
-      insertItem.run(
-        invoiceId,
-        item.description,
-        item.quantity,
-        item.unit_price,
-        item.amount,
-        index,
-        originalItem?.classification_code || "002",  // Services default
-        originalItem?.tax_type || "E",               // Tax exempt default
-        originalItem?.unit_code || "EA"              // Each default
-      );
+/**
+ * Edit a draft invoice. Fields not given keep their current values; items,
+ * when given, replace the existing lines. Issued invoices are corrected with
+ * credit and debit notes instead.
+ */
+export function updateDraftInvoice(idOrNumber: number | string, data: Partial<CreateInvoiceData>): Invoice {
+  return withTransaction(() => {
+    const db = getDb();
+    const old = getInvoice(idOrNumber);
+    if (!old) {
+      throw new Error(`Invoice not found: ${idOrNumber}`);
+    }
+    if (old.status !== "draft") {
+      throw new Error(`Invoice ${old.number} has been issued. Use a credit or debit note to change it.`);
+    }
+
+    const prepared = prepareInvoice({
+      customer_id: data.customer_id ?? old.customer_id,
+      date: data.date ?? old.date,
+      // Keep the due date in step with a new invoice date unless one is given
+      due_date: data.due_date ?? (data.date || data.payment_terms ? undefined : old.due_date),
+      payment_terms: data.payment_terms ?? old.payment_terms,
+      items: data.items ?? (old.items || []).map(itemInput),
+      tax_rate: data.tax_rate ?? old.tax_rate,
+      // A new percentage replaces the stored discount amount
+      discount: data.discount ?? (data.discount_percent !== undefined ? undefined : old.discount_amount || undefined),
+      discount_percent: data.discount_percent,
+      currency_code: data.currency_code ?? old.currency_code,
+      // Re-read the stored rate when the date or currency changes
+      exchange_rate: data.exchange_rate ?? (data.date || data.currency_code ? undefined : old.exchange_rate ?? undefined),
+      payment_mode: data.payment_mode ?? old.payment_mode,
     });
 
-    // Create journal entry for invoice
+    db.prepare(`
+      UPDATE invoices
+      SET customer_id = ?, date = ?, due_date = ?, subtotal = ?, discount_amount = ?, tax_rate = ?, tax_amount = ?, total = ?,
+          payment_terms = ?, notes = ?, currency_code = ?, exchange_rate = ?, payment_mode = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(
+      data.customer_id ?? old.customer_id, prepared.date, prepared.dueDate, prepared.subtotal, prepared.discountAmount, prepared.taxRate,
+      prepared.taxAmount, prepared.total, prepared.terms, data.notes !== undefined ? data.notes || null : old.notes ?? null,
+      prepared.currencyCode, prepared.exchangeRate, prepared.paymentMode, old.id
+    );
+
+    // Lines are re-priced whenever the rate or discount changes, so always rewrite them
+    clearInvoiceItems(old.id);
+    saveInvoiceItems(old.id, prepared.items, { allow_archived: !data.items });
+
+    const updated = getInvoice(old.id)!;
+    logAudit("update", "invoice", old.id, old, updated);
+
+    return updated;
+  });
+}
+
+/**
+ * Issue a draft: assign the next invoice number, post Dr AR / Cr Revenue
+ * (and sales tax) on the invoice date and mark it sent. Inventory items are
+ * taken out of stock at average cost against cost of goods sold.
+ */
+export function issueInvoice(idOrNumber: number | string): Invoice {
+  return withTransaction(() => {
+    const db = getDb();
+    const draft = getInvoice(idOrNumber);
+    if (!draft) {
+      throw new Error(`Invoice not found: ${idOrNumber}`);
+    }
+    if (draft.status !== "draft") {
+      throw new Error(`Invoice ${draft.number} has already been issued`);
+    }
+    // Drafts from before issuing was a separate step were posted when created
+    if (draft.journal_entry_id) {
+      throw new Error(`Invoice ${draft.number} is already posted to the ledger`);
+    }
+
+    // Get next invoice number
+    const prefix = getSetting("invoice_prefix") || "INV";
+    const nextNum = parseInt(getSetting("next_invoice_number") || "1");
+    const number = `${prefix}-${String(nextNum).padStart(4, "0")}`;
+    setSetting("next_invoice_number", String(nextNum + 1));
+
+    const customerName = draft.customer_name || "";
+    const { total } = draft;
+    const netAmount = money.subtract(draft.subtotal, draft.discount_amount || 0);
+    const exchangeRate = draft.exchange_rate ?? 1;
+    const currencyCode = draft.exchange_rate ? draft.currency_code : null;
+    const items = postingItems(draft.items || [], draft.date);
+
+    // Create journal entry for invoice (base currency, with foreign amounts on each line)
     const journalLines: CreateJournalLineData[] = [];
+    const baseTotal = toBase(total, exchangeRate);
+    const baseNet = toBase(netAmount, exchangeRate);
 
     // Debit: Accounts Receivable
     const arAccount = getAccountByCode("1200");
@@ -177,54 +597,54 @@ export function createInvoice(data: CreateInvoiceData): Invoice {
     }
     journalLines.push({
       account_id: arAccount.id,
-      debit: total,
+      debit: baseTotal,
       credit: 0,
-      description: `Invoice ${number} - ${customer.name}`,
+      description: `Invoice ${number} - ${customerName}`,
+      ...foreignLineFields(currencyCode, exchangeRate, total, 0),
     });
 
-    // Credit: Revenue (default to 4000 - Sales Revenue)
-    const revenueAccount = getAccountByCode("4000");
-    if (!revenueAccount) {
-      throw new Error("Sales Revenue account (4000) not found. Please ensure chart of accounts is set up.");
-    }
-    journalLines.push({
-      account_id: revenueAccount.id,
-      debit: 0,
-      credit: subtotal,
-      description: `Revenue - Invoice ${number}`,
-    });
-
-    // Credit: Sales Tax Payable (if applicable)
-    if (taxAmount > 0) {
-      const taxAccount = getAccountByCode("2300");
-      if (!taxAccount) {
-        throw new Error("Sales Tax Payable account (2300) not found. Please ensure chart of accounts is set up.");
-      }
-      journalLines.push({
-        account_id: taxAccount.id,
-        debit: 0,
-        credit: taxAmount,
-        description: `Sales Tax - Invoice ${number}`,
-      });
-    }
+    // Credit: Revenue on each line's income account, net of discounts
+    journalLines.push(...revenueLines(
+      items,
+      { account_id: incomeAccountId(), description: `Revenue - Invoice ${number}` },
+      "credit",
+      currencyCode,
+      exchangeRate,
+      netAmount,
+      baseNet
+    ));
+
+    // Credit: tax payable per tax code account; takes any conversion rounding
+    journalLines.push(...taxLines(
+      items,
+      `Sales Tax - Invoice ${number}`,
+      "credit",
+      currencyCode,
+      exchangeRate,
+      money.subtract(baseTotal, baseNet)
+    ));
+
+    // Debit: cost of sales / credit: stock, for inventory items at average cost
+    const stock = costOfSales(draft.items || [], `Invoice ${number}`);
+    journalLines.push(...stock.lines);
 
     // Create the journal entry
     const journalEntry = createJournalEntry({
-      date,
-      description: `Invoice ${number} - ${customer.name}`,
+      date: draft.date,
+      description: `Invoice ${number} - ${customerName}`,
       reference: number,
       entry_type: "standard",
       lines: journalLines,
     });
+    recordStockMovements(stock.movements, { type: "invoice", id: draft.id, date: draft.date, journal_entry_id: journalEntry.id });
 
     // Link journal entry to invoice
-    db.prepare("UPDATE invoices SET journal_entry_id = ? WHERE id = ?").run(
-      journalEntry.id,
-      invoiceId
-    );
+    db.prepare(`
+      UPDATE invoices SET number = ?, status = 'sent', journal_entry_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(number, journalEntry.id, draft.id);
 
-    const invoice = getInvoice(invoiceId)!;
-    logAudit("create", "invoice", invoice.id, null, invoice);
+    const invoice = getInvoice(draft.id)!;
+    logAudit("issue", "invoice", invoice.id, { number: draft.number, status: "draft" }, { number, status: "sent" });
 
     return invoice;
   });
@@ -252,9 +672,14 @@ export function getInvoice(idOrNumber: number | string): Invoice | undefined {
   }
 
   if (invoice) {
-    invoice.items = db.prepare(`
-      SELECT * FROM invoice_items WHERE invoice_id = ? ORDER BY sort_order
+    const items = db.prepare(`
+      SELECT ii.*, a.code as account_code
+      FROM invoice_items ii
+      LEFT JOIN accounts a ON ii.account_id = a.id
+      WHERE ii.invoice_id = ? ORDER BY ii.sort_order
     `).all(invoice.id) as InvoiceItem[];
+    const tracking = getTrackingAssignments("invoice_item", items.map((item) => item.id!));
+    invoice.items = items.map((item) => ({ ...item, tracking: tracking.get(item.id!) || [] }));
   }
 
   return invoice;
@@ -309,6 +734,14 @@ export function updateInvoiceStatus(id: number, status: Invoice["status"]): Invo
   const old = getInvoice(id);
   if (!old) return undefined;
 
+  if (old.status === "draft" && status !== "draft" && status !== "cancelled") {
+    // Sending (or otherwise moving on from) a draft issues it
+    const issued = issueInvoice(id);
+    if (status === "sent") return issued;
+  } else if (old.status !== "draft" && status === "draft") {
+    throw new Error(`Invoice ${old.number} has been issued and cannot return to draft. Use a credit note instead.`);
+  }
+
   db.prepare("UPDATE invoices SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(status, id);
 
   const updated = getInvoice(id)!;
@@ -363,16 +796,16 @@ export function recordPaymentToInvoice(invoiceId: number, amount: number): Invoi
 
 export function getOverdueInvoices(): Invoice[] {
   const db = getDb();
-  const today = new Date().toISOString().split("T")[0];
+  const asOf = today();
 
   return db.prepare(`
     SELECT i.*, c.name as customer_name
     FROM invoices i
     JOIN customers c ON i.customer_id = c.id
-    WHERE i.status NOT IN ('paid', 'cancelled')
+    WHERE i.status NOT IN ('draft', 'paid', 'cancelled')
     AND i.due_date < ?
     ORDER BY i.due_date
-  `).all(today) as Invoice[];
+  `).all(asOf) as Invoice[];
 }
 
 export function getInvoiceSummary(): {
@@ -382,20 +815,20 @@ export function getInvoiceSummary(): {
   count_overdue: number;
 } {
   const db = getDb();
-  const today = new Date().toISOString().split("T")[0];
+  const asOf = today();
 
   const outstanding = db.prepare(`
     SELECT COUNT(*) as count, COALESCE(SUM(total - amount_paid), 0) as amount
     FROM invoices
-    WHERE status NOT IN ('paid', 'cancelled')
+    WHERE status NOT IN ('draft', 'paid', 'cancelled')
   `).get() as { count: number; amount: number };
 
   const overdue = db.prepare(`
     SELECT COUNT(*) as count, COALESCE(SUM(total - amount_paid), 0) as amount
     FROM invoices
-    WHERE status NOT IN ('paid', 'cancelled')
+    WHERE status NOT IN ('draft', 'paid', 'cancelled')
     AND due_date < ?
-  `).get(today) as { count: number; amount: number };
+  `).get(asOf) as { count: number; amount: number };
 
   return {
     total_outstanding: outstanding.amount,
@@ -474,6 +907,7 @@ export function getInvoicesPendingEInvoice(): Invoice[] {
     JOIN customers c ON i.customer_id = c.id
     WHERE i.status IN ('sent', 'partial', 'paid')
     AND (i.einvoice_status IS NULL OR i.einvoice_status = 'none')
+    AND COALESCE(i.is_opening, 0) = 0
     ORDER BY i.date DESC
   `).all() as Invoice[];
 }
@@ -493,6 +927,9 @@ export interface CreateCreditNoteData {
     classification_code?: string;
     tax_type?: string;
     unit_code?: string;
+    tracking?: number[];
+    account_code?: string;
+    tax_code?: string;
   }>;
   // If items not provided, creates a full credit of the original invoice
   full_credit?: boolean;
@@ -509,6 +946,9 @@ export interface CreateDebitNoteData {
     classification_code?: string;
     tax_type?: string;
     unit_code?: string;
+    tracking?: number[];
+    account_code?: string;
+    tax_code?: string;
   }>;
 }
 
@@ -561,15 +1001,20 @@ export function createCreditNote(data: CreateCreditNoteData): Invoice {
     const number = `${prefix}-${String(nextNum).padStart(4, "0")}`;
     setSetting("next_credit_note_number", String(nextNum + 1));
 
-    const date = data.date || new Date().toISOString().split("T")[0];
+    const date = data.date || today();
 
     // Calculate items and totals
-    let items: Array<{ description: string; quantity: number; unit_price: number; amount: number; classification_code?: string; tax_type?: string; unit_code?: string; }>;
+    const fullCredit = data.full_credit || !data.items || data.items.length === 0;
+    const taxRate = originalInvoice.tax_rate;
+    let items: PreparedItem[];
     let subtotal: number;
+    let discountAmount = 0;
+    let taxAmount: number;
+    let total: number;
 
-    if (data.full_credit || !data.items || data.items.length === 0) {
-      // Full credit of original invoice
-      items = (originalInvoice.items || []).map(item => ({
+    if (fullCredit) {
+      // Full credit of original invoice: same accounts, tax codes and discounts
+      items = (originalInvoice.items || []).map((item) => ({
         description: `Credit: ${item.description}`,
         quantity: item.quantity,
         unit_price: item.unit_price,
@@ -577,77 +1022,62 @@ export function createCreditNote(data: CreateCreditNoteData): Invoice {
         classification_code: item.classification_code,
         tax_type: item.tax_type,
         unit_code: item.unit_code,
+        tracking: item.tracking?.map((tag) => tag.value_id),
+        account_id: item.account_id || incomeAccountId(),
+        tax_code: item.tax_code ?? null,
+        tax_rate: item.tax_rate ?? taxRate,
+        tax_amount: item.tax_amount || 0,
+        tax_parts: storedTaxParts(item, originalInvoice.date),
+        discount_amount: item.discount_amount || 0,
+        taxable_amount: item.taxable_amount ?? item.amount,
       }));
       subtotal = originalInvoice.subtotal;
+      discountAmount = originalInvoice.discount_amount || 0;
+      taxAmount = originalInvoice.tax_amount;
+      total = originalInvoice.total;
     } else {
-      // Partial credit with specified items
-      subtotal = 0;
-      items = data.items.map(item => {
-        const qty = item.quantity || 1;
-        const amount = qty * item.unit_price;
-        subtotal += amount;
-        return {
-          description: item.description,
-          quantity: qty,
-          unit_price: item.unit_price,
-          amount,
-          classification_code: item.classification_code,
-          tax_type: item.tax_type,
-          unit_code: item.unit_code,
-        };
-      });
+      // Partial credit with specified items, taxed at the original invoice's rates
+      ({ items, subtotal, taxAmount, total } = priceItems(data.items!, { tax_rate: taxRate, date: originalInvoice.date }));
     }
 
-    const taxRate = originalInvoice.tax_rate;
-    const taxAmount = money.percent(subtotal, taxRate);
-    const total = money.add(subtotal, taxAmount);
-
-    // Insert credit note
+    // Insert credit note; notes are issued and posted as soon as they are created
     const result = db.prepare(`
       INSERT INTO invoices (
-        number, customer_id, date, due_date, subtotal, tax_rate, tax_amount, total,
-        status, notes, currency_code, payment_mode, document_type, original_invoice_id
+        number, customer_id, date, due_date, subtotal, discount_amount, tax_rate, tax_amount, total,
+        status, notes, currency_code, exchange_rate, payment_mode, document_type, original_invoice_id
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'draft', ?, ?, ?, '02', ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'sent', ?, ?, ?, ?, '02', ?)
     `).run(
       number,
       originalInvoice.customer_id,
       date,
       date, // Credit notes are due immediately
       subtotal,
+      discountAmount,
       taxRate,
       taxAmount,
       total,
       `Credit Note for ${originalInvoice.number}: ${data.reason}`,
-      originalInvoice.currency_code || "MYR",
+      originalInvoice.currency_code || getBaseCurrency(),
+      originalInvoice.exchange_rate ?? null,
       originalInvoice.payment_mode || "03",
       data.original_invoice_id
     );
 
     const creditNoteId = result.lastInsertRowid as number;
 
-    // Insert line items
-    const insertItem = db.prepare(`
-      INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, amount, sort_order, classification_code, tax_type, unit_code)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    items.forEach((item, index) => {
-      insertItem.run(
-        creditNoteId,
-        item.description,
-        item.quantity,
-        item.unit_price,
-        item.amount,
-        index,
-        item.classification_code || "002",
-        item.tax_type || "E",
-        item.unit_code || "EA"
-      );
-    });
+    // A full credit mirrors the original even if a tracking value has since been archived
+    saveInvoiceItems(creditNoteId, items, { allow_archived: fullCredit });
 
     // Create journal entry (reverse of invoice)
+    // Notes follow the original invoice's currency and rate
     const journalLines: CreateJournalLineData[] = [];
+    const rate = originalInvoice.exchange_rate ?? 1;
+    const lineCurrency = originalInvoice.exchange_rate ? originalInvoice.currency_code : null;
+    const netAmount = money.subtract(subtotal, discountAmount);
+    const baseTotal = toBase(total, rate);
+    const baseNet = toBase(netAmount, rate);
+    const postings = items.map((item) => ({ ...item, amount: item.taxable_amount }));
 
     // Credit: Accounts Receivable (reduce receivable)
     const arAccount = getAccountByCode("1200");
@@ -657,35 +1087,31 @@ export function createCreditNote(data: CreateCreditNoteData): Invoice {
     journalLines.push({
       account_id: arAccount.id,
       debit: 0,
-      credit: total,
+      credit: baseTotal,
       description: `Credit Note ${number} - ${customer.name}`,
+      ...foreignLineFields(lineCurrency, rate, 0, total),
     });
 
-    // Debit: Revenue (reduce revenue)
-    const revenueAccount = getAccountByCode("4000");
-    if (!revenueAccount) {
-      throw new Error("Sales Revenue account (4000) not found");
-    }
-    journalLines.push({
-      account_id: revenueAccount.id,
-      debit: subtotal,
-      credit: 0,
-      description: `Revenue Reversal - Credit Note ${number}`,
-    });
-
-    // Debit: Sales Tax Payable (reduce tax liability)
-    if (taxAmount > 0) {
-      const taxAccount = getAccountByCode("2300");
-      if (!taxAccount) {
-        throw new Error("Sales Tax Payable account (2300) not found");
-      }
-      journalLines.push({
-        account_id: taxAccount.id,
-        debit: taxAmount,
-        credit: 0,
-        description: `Sales Tax Reversal - Credit Note ${number}`,
-      });
-    }
+    // Debit: Revenue (reduce revenue on the accounts originally credited)
+    journalLines.push(...revenueLines(
+      postings,
+      { account_id: incomeAccountId(), description: `Revenue Reversal - Credit Note ${number}` },
+      "debit",
+      lineCurrency,
+      rate,
+      netAmount,
+      baseNet
+    ));
+
+    // Debit: tax payable (reduce tax liability)
+    journalLines.push(...taxLines(
+      postings,
+      `Sales Tax Reversal - Credit Note ${number}`,
+      "debit",
+      lineCurrency,
+      rate,
+      money.subtract(baseTotal, baseNet)
+    ));
 
     const journalEntry = createJournalEntry({
       date,
@@ -760,40 +1186,23 @@ export function createDebitNote(data: CreateDebitNoteData): Invoice {
     const number = `${prefix}-${String(nextNum).padStart(4, "0")}`;
     setSetting("next_debit_note_number", String(nextNum + 1));
 
-    const date = data.date || new Date().toISOString().split("T")[0];
+    const date = data.date || today();
     const terms = originalInvoice.payment_terms || "net_30";
     const daysMatch = terms.match(/net_(\d+)/);
     const days = daysMatch ? parseInt(daysMatch[1]) : 30;
-    const dueDate = new Date(new Date(date).getTime() + days * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
-
-    // Calculate items and totals
-    let subtotal = 0;
-    const items = data.items.map(item => {
-      const qty = item.quantity || 1;
-      const amount = qty * item.unit_price;
-      subtotal += amount;
-      return {
-        description: item.description,
-        quantity: qty,
-        unit_price: item.unit_price,
-        amount,
-        classification_code: item.classification_code,
-        tax_type: item.tax_type,
-        unit_code: item.unit_code,
-      };
-    });
+    const dueDate = addDays(date, days);
 
+    // Calculate items and totals, taxed like the original unless a line has its own code
     const taxRate = originalInvoice.tax_rate;
-    const taxAmount = money.percent(subtotal, taxRate);
-    const total = money.add(subtotal, taxAmount);
+    const { items, subtotal, taxAmount, total } = priceItems(data.items, { tax_rate: taxRate, date });
 
-    // Insert debit note
+    // Insert debit note; issued and posted straight away like credit notes
     const result = db.prepare(`
       INSERT INTO invoices (
         number, customer_id, date, due_date, subtotal, tax_rate, tax_amount, total,
-        status, notes, currency_code, payment_mode, document_type, original_invoice_id
+        status, notes, currency_code, exchange_rate, payment_mode, document_type, original_invoice_id
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'draft', ?, ?, ?, '03', ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'sent', ?, ?, ?, ?, '03', ?)
     `).run(
       number,
       originalInvoice.customer_id,
@@ -804,35 +1213,22 @@ export function createDebitNote(data: CreateDebitNoteData): Invoice {
       taxAmount,
       total,
       `Debit Note for ${originalInvoice.number}: ${data.reason}`,
-      originalInvoice.currency_code || "MYR",
+      originalInvoice.currency_code || getBaseCurrency(),
+      originalInvoice.exchange_rate ?? null,
       originalInvoice.payment_mode || "03",
       data.original_invoice_id
     );
 
     const debitNoteId = result.lastInsertRowid as number;
-
-    // Insert line items
-    const insertItem = db.prepare(`
-      INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, amount, sort_order, classification_code, tax_type, unit_code)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    items.forEach((item, index) => {
-      insertItem.run(
-        debitNoteId,
-        item.description,
-        item.quantity,
-        item.unit_price,
-        item.amount,
-        index,
-        item.classification_code || "002",
-        item.tax_type || "E",
-        item.unit_code || "EA"
-      );
-    });
+    saveInvoiceItems(debitNoteId, items);
 
     // Create journal entry (same as invoice - increase receivable)
+    // Notes follow the original invoice's currency and rate
     const journalLines: CreateJournalLineData[] = [];
+    const rate = originalInvoice.exchange_rate ?? 1;
+    const lineCurrency = originalInvoice.exchange_rate ? originalInvoice.currency_code : null;
+    const baseTotal = toBase(total, rate);
+    const baseSubtotal = toBase(subtotal, rate);
 
     // Debit: Accounts Receivable (increase receivable)
     const arAccount = getAccountByCode("1200");
@@ -841,36 +1237,32 @@ export function createDebitNote(data: CreateDebitNoteData): Invoice {
     }
     journalLines.push({
       account_id: arAccount.id,
-      debit: total,
+      debit: baseTotal,
       credit: 0,
       description: `Debit Note ${number} - ${customer.name}`,
+      ...foreignLineFields(lineCurrency, rate, total, 0),
     });
 
     // Credit: Revenue (increase revenue)
-    const revenueAccount = getAccountByCode("4000");
-    if (!revenueAccount) {
-      throw new Error("Sales Revenue account (4000) not found");
-    }
-    journalLines.push({
-      account_id: revenueAccount.id,
-      debit: 0,
-      credit: subtotal,
-      description: `Additional Revenue - Debit Note ${number}`,
-    });
-
-    // Credit: Sales Tax Payable (increase tax liability)
-    if (taxAmount > 0) {
-      const taxAccount = getAccountByCode("2300");
-      if (!taxAccount) {
-        throw new Error("Sales Tax Payable account (2300) not found");
-      }
-      journalLines.push({
-        account_id: taxAccount.id,
-        debit: 0,
-        credit: taxAmount,
-        description: `Sales Tax - Debit Note ${number}`,
-      });
-    }
+    journalLines.push(...revenueLines(
+      items,
+      { account_id: incomeAccountId(), description: `Additional Revenue - Debit Note ${number}` },
+      "credit",
+      lineCurrency,
+      rate,
+      subtotal,
+      baseSubtotal
+    ));
+
+    // Credit: tax payable (increase tax liability)
+    journalLines.push(...taxLines(
+      items,
+      `Sales Tax - Debit Note ${number}`,
+      "credit",
+      lineCurrency,
+      rate,
+      money.subtract(baseTotal, baseSubtotal)
+    ));
 
     const journalEntry = createJournalEntry({
       date,
@@ -942,6 +1334,29 @@ export function canIssueCreditNote(invoiceId: number): { allowed: boolean; reaso
   return { allowed: true };
 }
 
+/**
+ * Check if a debit note can be issued for an invoice
+ */
+export function canIssueDebitNote(invoiceId: number): { allowed: boolean; reason?: string } {
+  const invoice = getInvoice(invoiceId);
+  if (!invoice) {
+    return { allowed: false, reason: "Invoice not found" };
+  }
+  if (invoice.status === "draft" || invoice.status === "cancelled") {
+    return { allowed: false, reason: `Cannot issue debit note for ${invoice.status} invoice` };
+  }
+
+  // Same 72-hour window as createDebitNote
+  if (invoice.einvoice_status === "valid" && invoice.einvoice_validated_at) {
+    const hoursSinceValidation = (Date.now() - new Date(invoice.einvoice_validated_at).getTime()) / (1000 * 60 * 60);
+    if (hoursSinceValidation > 72) {
+      return { allowed: false, reason: "E-invoice validation window (72 hours) has expired" };
+    }
+  }
+
+  return { allowed: true };
+}
+
 // ============================================================================
 // Bulk Operations
 // ============================================================================
@@ -958,6 +1373,11 @@ export function deleteInvoice(invoiceIdOrNumber: number | string): { success: bo
     return { success: false, error: "Invoice not found" };
   }
 
+  const locked = lockedDateError(invoice.date, "delete an invoice dated");
+  if (locked) {
+    return { success: false, error: locked };
+  }
+
   // Only allow deleting draft invoices
   if (invoice.status !== "draft") {
     return {
@@ -974,8 +1394,11 @@ export function deleteInvoice(invoiceIdOrNumber: number | string): { success: bo
     };
   }
 
-  // Delete invoice lines first
-  db.prepare("DELETE FROM invoice_lines WHERE invoice_id = ?").run(invoice.id);
+  // Delete line items first
+  clearInvoiceItems(invoice.id);
+
+  // Time billed on the draft goes back to unbilled
+  db.prepare("UPDATE time_entries SET invoice_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE invoice_id = ?").run(invoice.id);
 
   // Delete the invoice
   db.prepare("DELETE FROM invoices WHERE id = ?").run(invoice.id);
@@ -986,7 +1409,10 @@ export function deleteInvoice(invoiceIdOrNumber: number | string): { success: bo
 }
 
 /**
- * Cancel an invoice (for non-draft invoices)
+ * Cancel an invoice
+ * Issued invoices have their AR/revenue posting reversed and any stock they
+ * took put back. Invoices with payments cannot be cancelled; issue a credit
+ * note instead.
  */
 export function cancelInvoice(invoiceIdOrNumber: number | string, reason?: string): { success: boolean; error?: string } {
   const invoice = getInvoice(invoiceIdOrNumber);
@@ -1007,6 +1433,14 @@ export function cancelInvoice(invoiceIdOrNumber: number | string, reason?: strin
   if (invoice.status === "cancelled") {
     return { success: false, error: "Invoice is already cancelled" };
   }
+  if (invoice.amount_paid > 0) {
+    return { success: false, error: "Cannot cancel an invoice with payments recorded against it. Issue a credit note instead." };
+  }
+
+  const locked = lockedDateError(invoice.date, "cancel an invoice dated");
+  if (locked) {
+    return { success: false, error: locked };
+  }
 
   // For e-invoices, check if cancellation is allowed
   if (invoice.einvoice_status === "valid") {
@@ -1016,14 +1450,47 @@ export function cancelInvoice(invoiceIdOrNumber: number | string, reason?: strin
     };
   }
 
-  const db = getDb();
-  db.prepare(`
-    UPDATE invoices
-    SET status = 'cancelled', notes = COALESCE(notes || ' | ', '') || ?, updated_at = CURRENT_TIMESTAMP
-    WHERE id = ?
-  `).run(reason ? `Cancelled: ${reason}` : "Cancelled", invoice.id);
+  // Reversing the invoice would leave the schedule's deferred balance behind
+  const deferral = getDb().prepare(`
+    SELECT s.id FROM amortization_schedules s
+    JOIN invoice_items ii ON ii.id = s.invoice_item_id
+    WHERE ii.invoice_id = ? AND s.status = 'active'
+  `).get(invoice.id) as { id: number } | undefined;
+  if (deferral) {
+    return {
+      success: false,
+      error: `Revenue on this invoice is deferred by amortization schedule #${deferral.id}. Cancel or delete the schedule first.`,
+    };
+  }
+
+  try {
+    withTransaction(() => {
+      const db = getDb();
 
-  logAudit("cancel", "invoice", invoice.id, { status: invoice.status }, { status: "cancelled" });
+      if (invoice.journal_entry_id) {
+        const reversal = reverseJournalEntry(
+          invoice.journal_entry_id,
+          undefined,
+          `Cancellation of invoice ${invoice.number} - ${invoice.customer_name}`
+        );
+        reverseStockMovements("invoice", invoice.id, reversal.date, reversal.id);
+      }
+
+      db.prepare(`
+        UPDATE invoices
+        SET status = 'cancelled', notes = COALESCE(notes || ' | ', '') || ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(reason ? `Cancelled: ${reason}` : "Cancelled", invoice.id);
+
+      // Billed time goes back to unbilled only with the revenue reversed above,
+      // so billing it again does not count it twice
+      db.prepare("UPDATE time_entries SET invoice_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE invoice_id = ?").run(invoice.id);
+
+      logAudit("cancel", "invoice", invoice.id, { status: invoice.status }, { status: "cancelled" });
+    });
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
 
   return { success: true };
 }
@@ -1103,7 +1570,7 @@ export function bulkUpdateStatus(ids: number[], status: Invoice["status"]): {
 }
 
 /**
- * Bulk mark invoices as sent
+ * Bulk mark invoices as sent, issuing any drafts
  */
 export function bulkMarkAsSent(ids: number[]): {
   success: number;
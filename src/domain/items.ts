@@ -0,0 +1,531 @@
+// Products and services catalog, with stock on hand at weighted-average cost for inventory items
+import { getDb, logAudit, withTransaction } from "../db/index.js";
+import { createJournalEntry, type CreateJournalLineData } from "./journal.js";
+import { getAccount, getAccountByCode, resolveAccount, type Account } from "./accounts.js";
+import { getTaxCode } from "./tax-codes.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { today } from "../core/dates.js";
+
+const itemLogger = logger.child({ module: "items" });
+
+export type ItemType = "service" | "non_inventory" | "inventory";
+
+export interface Item {
+  id: number;
+  sku: string;
+  name: string;
+  description?: string | null;
+  type: ItemType;
+  unit_price: number;
+  purchase_price?: number | null;
+  income_account_id?: number | null;
+  expense_account_id?: number | null;   // Purchases, or cost of goods sold for stock
+  inventory_account_id?: number | null; // Inventory items only
+  tax_code?: string | null;
+  classification_code?: string | null;
+  unit_code?: string | null;
+  is_active: number;
+  created_at: string;
+  updated_at: string;
+  // Computed
+  income_account_code?: string | null;
+  expense_account_code?: string | null;
+  inventory_account_code?: string | null;
+  quantity_on_hand?: number;
+  stock_value?: number;
+  average_cost?: number;
+}
+
+export interface CreateItemData {
+  sku: string;
+  name: string;
+  description?: string;
+  type?: ItemType;
+  unit_price?: number;
+  purchase_price?: number;
+  income_account?: number | string;    // Defaults to 4000 Sales Revenue
+  expense_account?: number | string;   // Defaults to 5000 Cost of Goods Sold for inventory items
+  inventory_account?: number | string; // Defaults to 1400 Inventory
+  tax_code?: string;
+  classification_code?: string;
+  unit_code?: string;
+}
+
+export interface StockMovement {
+  id: number;
+  item_id: number;
+  date: string;
+  quantity: number;
+  value: number;
+  source_type: "bill" | "invoice" | "adjustment";
+  source_id?: number | null;
+  journal_entry_id?: number | null;
+  description?: string | null;
+  created_at: string;
+  item_sku?: string;
+  item_name?: string;
+}
+
+export interface AdjustStockData {
+  quantity: number;              // Positive to add stock, negative to remove it
+  unit_cost?: number;            // For stock added; defaults to the average cost
+  date?: string;
+  account?: number | string;     // Other side of the entry; defaults to the item's cost of goods sold account
+  description?: string;
+}
+
+// Stock leaving or entering on a document, posted with the document's journal entry
+export interface PendingMovement {
+  item_id: number;
+  quantity: number;
+  value: number;
+  description: string;
+}
+
+const ITEM_SELECT = `
+  SELECT i.*, ia.code as income_account_code, ea.code as expense_account_code, va.code as inventory_account_code,
+         COALESCE(s.quantity, 0) as quantity_on_hand, COALESCE(s.value, 0) as stock_value
+  FROM items i
+  LEFT JOIN accounts ia ON i.income_account_id = ia.id
+  LEFT JOIN accounts ea ON i.expense_account_id = ea.id
+  LEFT JOIN accounts va ON i.inventory_account_id = va.id
+  LEFT JOIN (
+    SELECT item_id, ROUND(SUM(quantity), 4) as quantity, ROUND(SUM(value), 2) as value
+    FROM stock_movements GROUP BY item_id
+  ) s ON s.item_id = i.id
+`;
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function withCost(item: Item): Item {
+  const quantity = item.quantity_on_hand || 0;
+  return { ...item, average_cost: quantity > 0 ? roundQuantity((item.stock_value || 0) / quantity) : 0 };
+}
+
+function resolveAccountOfType(account: number | string, type: Account["type"], label: string): Account {
+  const found = resolveAccount(account, undefined, label);
+  if (found.type !== type) {
+    throw new Error(`${found.code} ${found.name} is not an ${type} account`);
+  }
+  return found;
+}
+
+// Accounts for an item type: income for every item, cost and stock accounts for inventory
+function itemAccounts(
+  type: ItemType,
+  data: Pick<CreateItemData, "income_account" | "expense_account" | "inventory_account">
+): { income: number; expense: number | null; inventory: number | null } {
+  const income = resolveAccountOfType(data.income_account ?? "4000", "income", "Income").id;
+  const expenseRef = data.expense_account ?? (type === "inventory" ? "5000" : undefined);
+  const expense = expenseRef === undefined ? null : resolveAccountOfType(expenseRef, "expense", "Expense").id;
+  const inventory = type === "inventory" ? resolveAccountOfType(data.inventory_account ?? "1400", "asset", "Inventory").id : null;
+  return { income, expense, inventory };
+}
+
+function validateItem(data: Partial<CreateItemData>): void {
+  if (data.unit_price !== undefined && !(data.unit_price >= 0)) {
+    throw new Error("Price cannot be negative");
+  }
+  if (data.purchase_price !== undefined && !(data.purchase_price >= 0)) {
+    throw new Error("Purchase price cannot be negative");
+  }
+  if (data.tax_code && !getTaxCode(data.tax_code)) {
+    throw new Error(`Tax code not found: ${data.tax_code}`);
+  }
+}
+
+export function createItem(data: CreateItemData): Item {
+  const sku = data.sku?.trim();
+  const name = data.name?.trim();
+  if (!sku || !name) {
+    throw new Error("SKU and name are required");
+  }
+  validateItem(data);
+
+  return withTransaction(() => {
+    const db = getDb();
+    if (getItem(sku)) {
+      throw new Error(`Item ${sku} already exists`);
+    }
+
+    const type = data.type || "service";
+    const accounts = itemAccounts(type, data);
+    const result = db.prepare(`
+      INSERT INTO items (sku, name, description, type, unit_price, purchase_price, income_account_id, expense_account_id,
+        inventory_account_id, tax_code, classification_code, unit_code)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      sku,
+      name,
+      data.description || null,
+      type,
+      data.unit_price ?? 0,
+      data.purchase_price ?? null,
+      accounts.income,
+      accounts.expense,
+      accounts.inventory,
+      data.tax_code?.toUpperCase() || null,
+      data.classification_code || null,
+      data.unit_code || null
+    );
+
+    const item = getItem(result.lastInsertRowid as number)!;
+    logAudit("create", "item", item.id, null, item);
+    return item;
+  });
+}
+
+// An item by id, SKU or name
+export function getItem(ref: number | string): Item | undefined {
+  const db = getDb();
+  const row = typeof ref === "number"
+    ? db.prepare(`${ITEM_SELECT} WHERE i.id = ?`).get(ref)
+    : db.prepare(`${ITEM_SELECT} WHERE i.sku = ? OR LOWER(i.name) = LOWER(?) ORDER BY i.sku = ? DESC LIMIT 1`).get(ref.trim(), ref.trim(), ref.trim());
+  return row ? withCost(row as Item) : undefined;
+}
+
+export function listItems(filters: { type?: ItemType; include_inactive?: boolean; search?: string } = {}): Item[] {
+  let sql = `${ITEM_SELECT} WHERE 1=1`;
+  const params: unknown[] = [];
+
+  if (filters.type) {
+    sql += " AND i.type = ?";
+    params.push(filters.type);
+  }
+  if (!filters.include_inactive) {
+    sql += " AND i.is_active = 1";
+  }
+  if (filters.search) {
+    sql += " AND (i.sku LIKE ? OR i.name LIKE ? OR i.description LIKE ?)";
+    const like = `%${filters.search}%`;
+    params.push(like, like, like);
+  }
+  sql += " ORDER BY i.sku";
+
+  return (getDb().prepare(sql).all(...params) as Item[]).map(withCost);
+}
+
+/**
+ * Edit an item. Prices and codes only apply to documents created from now on;
+ * an item with stock movements can't stop being an inventory item.
+ */
+export function updateItem(ref: number | string, data: Partial<CreateItemData>): Item {
+  validateItem(data);
+
+  return withTransaction(() => {
+    const db = getDb();
+    const old = getItem(ref);
+    if (!old) {
+      throw new Error(`Item not found: ${ref}`);
+    }
+
+    const type = data.type ?? old.type;
+    if (old.type === "inventory" && type !== "inventory" && hasStockMovements(old.id)) {
+      throw new Error(`${old.sku} has stock movements and must stay an inventory item`);
+    }
+    const sku = data.sku?.trim() || old.sku;
+    const clash = sku.toLowerCase() !== old.sku.toLowerCase() ? getItem(sku) : undefined;
+    if (clash && clash.id !== old.id) {
+      throw new Error(`Item ${sku} already exists`);
+    }
+
+    const accounts = itemAccounts(type, {
+      income_account: data.income_account ?? old.income_account_id ?? undefined,
+      expense_account: data.expense_account ?? old.expense_account_id ?? undefined,
+      inventory_account: data.inventory_account ?? old.inventory_account_id ?? undefined,
+    });
+
+    db.prepare(`
+      UPDATE items
+      SET sku = ?, name = ?, description = ?, type = ?, unit_price = ?, purchase_price = ?, income_account_id = ?,
+          expense_account_id = ?, inventory_account_id = ?, tax_code = ?, classification_code = ?, unit_code = ?,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(
+      sku,
+      data.name?.trim() || old.name,
+      data.description !== undefined ? data.description || null : old.description ?? null,
+      type,
+      data.unit_price ?? old.unit_price,
+      data.purchase_price ?? old.purchase_price ?? null,
+      accounts.income,
+      accounts.expense,
+      accounts.inventory,
+      data.tax_code !== undefined ? data.tax_code.toUpperCase() || null : old.tax_code ?? null,
+      data.classification_code !== undefined ? data.classification_code || null : old.classification_code ?? null,
+      data.unit_code !== undefined ? data.unit_code || null : old.unit_code ?? null,
+      old.id
+    );
+
+    const updated = getItem(old.id)!;
+    logAudit("update", "item", old.id, old, updated);
+    return updated;
+  });
+}
+
+// Inactive items stay on past documents but can't be added to new ones
+export function setItemActive(ref: number | string, active: boolean): Item {
+  const item = getItem(ref);
+  if (!item) {
+    throw new Error(`Item not found: ${ref}`);
+  }
+  getDb().prepare("UPDATE items SET is_active = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(active ? 1 : 0, item.id);
+  logAudit(active ? "activate" : "deactivate", "item", item.id, { is_active: item.is_active }, { is_active: active ? 1 : 0 });
+  return getItem(item.id)!;
+}
+
+export function deleteItem(ref: number | string): { success: boolean; error?: string } {
+  const db = getDb();
+  const item = getItem(ref);
+  if (!item) {
+    return { success: false, error: "Item not found" };
+  }
+
+  const used = db.prepare(`
+    SELECT (SELECT COUNT(*) FROM invoice_items WHERE item_id = ?) + (SELECT COUNT(*) FROM bill_items WHERE item_id = ?)
+      + (SELECT COUNT(*) FROM purchase_order_items WHERE item_id = ?) as count
+  `).get(item.id, item.id, item.id) as { count: number };
+  if (used.count > 0 || hasStockMovements(item.id)) {
+    return { success: false, error: `${item.sku} has been used on documents. Deactivate it instead.` };
+  }
+
+  db.prepare("DELETE FROM items WHERE id = ?").run(item.id);
+  logAudit("delete", "item", item.id, item, null);
+  return { success: true };
+}
+
+function hasStockMovements(itemId: number): boolean {
+  return !!getDb().prepare("SELECT 1 FROM stock_movements WHERE item_id = ? LIMIT 1").get(itemId);
+}
+
+// An active item for a new document line
+export function requireActiveItem(ref: number | string): Item {
+  const item = getItem(ref);
+  if (!item) {
+    throw new Error(`Item not found: ${ref}`);
+  }
+  if (!item.is_active) {
+    throw new Error(`Item ${item.sku} is inactive`);
+  }
+  return item;
+}
+
+/**
+ * An invoice line from the catalog. The price and text can be overridden;
+ * the income account, tax code and LHDN codes are filled in when the
+ * invoice is saved.
+ */
+export function itemLine(
+  ref: number | string,
+  overrides: { quantity?: number; unit_price?: number; description?: string } = {}
+): { item_id: number; description: string; quantity: number; unit_price: number } {
+  const item = requireActiveItem(ref);
+  return {
+    item_id: item.id,
+    description: overrides.description || item.description || item.name,
+    quantity: overrides.quantity ?? 1,
+    unit_price: overrides.unit_price ?? item.unit_price,
+  };
+}
+
+// Value of stock taken out at the current average cost; the last unit takes what is left
+function issueValue(item: Item, quantity: number): number {
+  const onHand = item.quantity_on_hand || 0;
+  if (quantity > onHand + 1e-9) {
+    throw new Error(`Not enough stock of ${item.sku}: ${onHand} on hand, ${quantity} needed`);
+  }
+  return Math.abs(onHand - quantity) < 1e-9
+    ? item.stock_value || 0
+    : money.round2(quantity * (item.average_cost || 0));
+}
+
+/**
+ * Cost of sales for a document's lines: Dr cost of goods sold / Cr inventory
+ * at average cost for each inventory item, and the stock going out. Other
+ * items are ignored.
+ */
+export function costOfSales(
+  lines: Array<{ item_id?: number | null; quantity: number }>,
+  description: string
+): { lines: CreateJournalLineData[]; movements: PendingMovement[] } {
+  const quantities = new Map<number, number>();
+  for (const line of lines) {
+    if (line.item_id) {
+      quantities.set(line.item_id, roundQuantity((quantities.get(line.item_id) || 0) + line.quantity));
+    }
+  }
+
+  const debits = new Map<number, number>();
+  const credits = new Map<number, number>();
+  const movements: PendingMovement[] = [];
+  for (const [itemId, quantity] of quantities) {
+    const item = getItem(itemId);
+    if (!item || item.type !== "inventory") continue;
+    const value = issueValue(item, quantity);
+    movements.push({ item_id: item.id, quantity: -quantity, value: -value, description });
+    debits.set(item.expense_account_id!, money.add(debits.get(item.expense_account_id!) || 0, value));
+    credits.set(item.inventory_account_id!, money.add(credits.get(item.inventory_account_id!) || 0, value));
+  }
+
+  const journalLines: CreateJournalLineData[] = [
+    ...[...debits].map(([account_id, amount]) => ({ account_id, debit: amount, credit: 0, description: `Cost of sales - ${description}` })),
+    ...[...credits].map(([account_id, amount]) => ({ account_id, debit: 0, credit: amount, description: `Stock out - ${description}` })),
+  ].filter((line) => !money.isZero(line.debit + line.credit));
+
+  return { lines: journalLines, movements };
+}
+
+export function recordStockMovements(
+  movements: PendingMovement[],
+  source: { type: StockMovement["source_type"]; id?: number | null; date: string; journal_entry_id?: number | null }
+): void {
+  const insert = getDb().prepare(`
+    INSERT INTO stock_movements (item_id, date, quantity, value, source_type, source_id, journal_entry_id, description)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const movement of movements) {
+    insert.run(
+      movement.item_id, source.date, movement.quantity, movement.value,
+      source.type, source.id ?? null, source.journal_entry_id ?? null, movement.description
+    );
+  }
+}
+
+/**
+ * Take back the stock a document brought in or sent out, e.g. when a bill is
+ * cancelled. Fails if the stock has already been sold on.
+ */
+export function reverseStockMovements(
+  sourceType: StockMovement["source_type"],
+  sourceId: number,
+  date: string,
+  journalEntryId?: number | null
+): void {
+  const net = getDb().prepare(`
+    SELECT item_id, ROUND(SUM(quantity), 4) as quantity, ROUND(SUM(value), 2) as value
+    FROM stock_movements WHERE source_type = ? AND source_id = ?
+    GROUP BY item_id
+  `).all(sourceType, sourceId) as Array<{ item_id: number; quantity: number; value: number }>;
+
+  const reversals = net.filter((row) => row.quantity !== 0 || row.value !== 0).map((row) => {
+    const item = getItem(row.item_id)!;
+    if (row.quantity > 0 && row.quantity > (item.quantity_on_hand || 0) + 1e-9) {
+      throw new Error(`Not enough stock of ${item.sku} left to reverse: ${item.quantity_on_hand} on hand, ${row.quantity} received`);
+    }
+    return { item_id: row.item_id, quantity: -row.quantity, value: -row.value, description: "Reversal" };
+  });
+  recordStockMovements(reversals, { type: sourceType, id: sourceId, date, journal_entry_id: journalEntryId });
+}
+
+/**
+ * Count or write stock up or down outside a document: opening stock, a stock
+ * take, damaged goods. Posts Dr/Cr inventory against the item's cost of goods
+ * sold account unless another account is given.
+ */
+export function adjustStock(ref: number | string, data: AdjustStockData): StockMovement {
+  if (!data.quantity) {
+    throw new Error("Quantity must not be zero");
+  }
+  if (data.unit_cost !== undefined && !(data.unit_cost >= 0)) {
+    throw new Error("Unit cost cannot be negative");
+  }
+
+  return withTransaction(() => {
+    const db = getDb();
+    const item = getItem(ref);
+    if (!item) {
+      throw new Error(`Item not found: ${ref}`);
+    }
+    if (item.type !== "inventory") {
+      throw new Error(`${item.sku} is not an inventory item`);
+    }
+
+    const date = data.date || today();
+    const quantity = roundQuantity(data.quantity);
+    const value = quantity > 0
+      ? money.round2(quantity * (data.unit_cost ?? (item.average_cost || item.purchase_price || 0)))
+      : -issueValue(item, -quantity);
+    const offset = data.account === undefined ? getAccount(item.expense_account_id!) : typeof data.account === "number"
+      ? getAccount(data.account)
+      : getAccountByCode(data.account.trim());
+    if (!offset) {
+      throw new Error(`Account not found: ${data.account}`);
+    }
+
+    const description = data.description || `Stock adjustment - ${item.sku}`;
+    let journalEntryId: number | null = null;
+    if (!money.isZero(value)) {
+      const amount = Math.abs(value);
+      journalEntryId = createJournalEntry({
+        date,
+        description,
+        reference: item.sku,
+        entry_type: "adjusting",
+        lines: [
+          { account_id: item.inventory_account_id!, debit: value > 0 ? amount : 0, credit: value < 0 ? amount : 0, description },
+          { account_id: offset.id, debit: value < 0 ? amount : 0, credit: value > 0 ? amount : 0, description },
+        ],
+      }).id;
+    }
+
+    const result = db.prepare(`
+      INSERT INTO stock_movements (item_id, date, quantity, value, source_type, journal_entry_id, description)
+      VALUES (?, ?, ?, ?, 'adjustment', ?, ?)
+    `).run(item.id, date, quantity, value, journalEntryId, description);
+
+    itemLogger.info({ sku: item.sku, quantity, value }, "Stock adjusted");
+    return getStockMovement(result.lastInsertRowid as number)!;
+  });
+}
+
+function getStockMovement(id: number): StockMovement | undefined {
+  return getDb().prepare(`
+    SELECT m.*, i.sku as item_sku, i.name as item_name
+    FROM stock_movements m JOIN items i ON m.item_id = i.id
+    WHERE m.id = ?
+  `).get(id) as StockMovement | undefined;
+}
+
+export function listStockMovements(filters: {
+  item_id?: number;
+  source_type?: StockMovement["source_type"];
+  from_date?: string;
+  to_date?: string;
+} = {}): StockMovement[] {
+  let sql = `
+    SELECT m.*, i.sku as item_sku, i.name as item_name
+    FROM stock_movements m JOIN items i ON m.item_id = i.id
+    WHERE 1=1
+  `;
+  const params: unknown[] = [];
+
+  if (filters.item_id) {
+    sql += " AND m.item_id = ?";
+    params.push(filters.item_id);
+  }
+  if (filters.source_type) {
+    sql += " AND m.source_type = ?";
+    params.push(filters.source_type);
+  }
+  if (filters.from_date) {
+    sql += " AND m.date >= ?";
+    params.push(filters.from_date);
+  }
+  if (filters.to_date) {
+    sql += " AND m.date <= ?";
+    params.push(filters.to_date);
+  }
+  sql += " ORDER BY m.date, m.id";
+
+  return getDb().prepare(sql).all(...params) as StockMovement[];
+}
+
+// Stock on hand at average cost, per inventory item
+export function getStockValuation(): { items: Item[]; total: number } {
+  const items = listItems({ type: "inventory", include_inactive: true })
+    .filter((item) => item.is_active || (item.quantity_on_hand || 0) !== 0);
+  return { items, total: money.sum(items.map((item) => item.stock_value || 0)) };
+}
@@ -1,6 +1,14 @@
 // Journal entries domain logic for double-entry bookkeeping
-import { getDb } from "../db/index.js";
+import { getDb, getSetting } from "../db/index.js";
 import { getAccount, getAccountByCode, type Account } from "./accounts.js";
+import {
+  normalizeTracking,
+  saveLineTracking,
+  getLineTracking,
+  type TrackingTag,
+  type TrackingFilter,
+} from "./tracking.js";
+import { today } from "../core/dates.js";
 
 export interface JournalEntry {
   id: number;
@@ -22,6 +30,12 @@ export interface JournalLine {
   debit: number;
   credit: number;
   description: string | null;
+  // Foreign currency detail; debit/credit are always in base currency
+  currency_code?: string | null;
+  exchange_rate?: number | null;
+  foreign_debit?: number | null;
+  foreign_credit?: number | null;
+  tracking?: TrackingTag[]; // Project, department, ...
   account?: Pick<Account, "id" | "code" | "name" | "type">; // Populated with account details
 }
 
@@ -38,6 +52,11 @@ export interface CreateJournalLineData {
   debit: number;
   credit: number;
   description?: string | null;
+  currency_code?: string | null;
+  exchange_rate?: number | null;
+  foreign_debit?: number | null;
+  foreign_credit?: number | null;
+  tracking?: number[]; // Tracking value ids, at most one per dimension
 }
 
 export interface UpdateJournalEntryData {
@@ -57,6 +76,24 @@ export interface JournalEntryFilters {
   is_locked?: boolean;
 }
 
+// Lock date: nothing dated on or before it may be posted, changed or deleted
+export function getLockDate(): string | null {
+  return getSetting("lock_date") || null;
+}
+
+// Why a date cannot be touched, or null when it is open; for callers that return errors
+export function lockedDateError(date: string, action: string = "post to"): string | null {
+  const lockDate = getLockDate();
+  return lockDate && date <= lockDate ? `Cannot ${action} ${date}: the books are locked through ${lockDate}` : null;
+}
+
+export function assertDateUnlocked(date: string, action: string = "post to"): void {
+  const error = lockedDateError(date, action);
+  if (error) {
+    throw new Error(error);
+  }
+}
+
 // Validate that debits equal credits
 export function validateBalance(lines: CreateJournalLineData[]): boolean {
   const totalDebits = lines.reduce((sum, line) => sum + line.debit, 0);
@@ -75,6 +112,7 @@ export function validateJournalEntry(data: CreateJournalEntryData): void {
   if (!data.description || data.description.trim().length === 0) {
     throw new Error("Description is required");
   }
+  assertDateUnlocked(data.date);
 
   // Check lines exist
   if (!data.lines || data.lines.length === 0) {
@@ -108,6 +146,12 @@ export function validateJournalEntry(data: CreateJournalEntryData): void {
     if (line.debit < 0 || line.credit < 0) {
       throw new Error(`Line ${index + 1}: Amounts cannot be negative`);
     }
+
+    try {
+      normalizeTracking(line.tracking, { allow_archived: true });
+    } catch (err) {
+      throw new Error(`Line ${index + 1}: ${(err as Error).message}`);
+    }
   });
 
   // Validate balance
@@ -144,18 +188,23 @@ export function createJournalEntry(data: CreateJournalEntryData): JournalEntry {
 
   // Insert journal lines
   const lineStmt = db.prepare(
-    `INSERT INTO journal_lines (entry_id, account_id, debit, credit, description)
-     VALUES (?, ?, ?, ?, ?)`
+    `INSERT INTO journal_lines (entry_id, account_id, debit, credit, description, currency_code, exchange_rate, foreign_debit, foreign_credit)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
   );
 
   data.lines.forEach((line) => {
-    lineStmt.run(
+    const lineResult = lineStmt.run(
       entryId,
       line.account_id,
       line.debit,
       line.credit,
-      line.description || null
+      line.description || null,
+      line.currency_code || null,
+      line.exchange_rate ?? null,
+      line.foreign_debit ?? null,
+      line.foreign_credit ?? null
     );
+    saveLineTracking(lineResult.lastInsertRowid as number, line.tracking);
   });
 
   const entry = getJournalEntry(entryId);
@@ -182,6 +231,10 @@ export function getJournalEntry(id: number): JournalEntry | null {
     debit: number;
     credit: number;
     description: string | null;
+    currency_code: string | null;
+    exchange_rate: number | null;
+    foreign_debit: number | null;
+    foreign_credit: number | null;
     code: string;
     name: string;
     type: Account["type"];
@@ -196,6 +249,7 @@ export function getJournalEntry(id: number): JournalEntry | null {
        ORDER BY jl.id`
     )
     .all(id) as JournalLineWithAccountRow[];
+  const tracking = getLineTracking(lines.map((line) => line.id));
 
   const linesWithAccounts: JournalLine[] = lines.map((line) => ({
     id: line.id,
@@ -204,6 +258,11 @@ export function getJournalEntry(id: number): JournalEntry | null {
     debit: line.debit,
     credit: line.credit,
     description: line.description,
+    currency_code: line.currency_code,
+    exchange_rate: line.exchange_rate,
+    foreign_debit: line.foreign_debit,
+    foreign_credit: line.foreign_credit,
+    tracking: tracking.get(line.id) || [],
     account: {
       id: line.account_id,
       code: line.code,
@@ -297,6 +356,10 @@ export function updateJournalEntry(
   if (entry.is_locked) {
     throw new Error("Cannot update locked journal entry (period is closed)");
   }
+  assertDateUnlocked(entry.date, "change an entry dated");
+  if (data.date) {
+    assertDateUnlocked(data.date);
+  }
 
   // If updating lines, validate the new entry
   if (data.lines) {
@@ -340,18 +403,23 @@ export function updateJournalEntry(
 
     // Insert new lines
     const lineStmt = db.prepare(
-      `INSERT INTO journal_lines (entry_id, account_id, debit, credit, description)
-       VALUES (?, ?, ?, ?, ?)`
+      `INSERT INTO journal_lines (entry_id, account_id, debit, credit, description, currency_code, exchange_rate, foreign_debit, foreign_credit)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
     );
 
     data.lines.forEach((line) => {
-      lineStmt.run(
+      const lineResult = lineStmt.run(
         id,
         line.account_id,
         line.debit,
         line.credit,
-        line.description || null
+        line.description || null,
+        line.currency_code || null,
+        line.exchange_rate ?? null,
+        line.foreign_debit ?? null,
+        line.foreign_credit ?? null
       );
+      saveLineTracking(lineResult.lastInsertRowid as number, line.tracking);
     });
   }
 
@@ -373,6 +441,7 @@ export function deleteJournalEntry(id: number): void {
   if (entry.is_locked) {
     throw new Error("Cannot delete locked journal entry (period is closed)");
   }
+  assertDateUnlocked(entry.date, "delete an entry dated");
 
   // Check if linked to invoices, expenses, or payments
   const linkedInvoices = db
@@ -415,10 +484,15 @@ export function reverseJournalEntry(
     debit: line.credit, // Swap
     credit: line.debit, // Swap
     description: line.description,
+    currency_code: line.currency_code,
+    exchange_rate: line.exchange_rate,
+    foreign_debit: line.foreign_credit,
+    foreign_credit: line.foreign_debit,
+    tracking: line.tracking?.map((tag) => tag.value_id),
   }));
 
   const reverseEntryData: CreateJournalEntryData = {
-    date: reverseDate || new Date().toISOString().split("T")[0],
+    date: reverseDate || today(),
     description: description || `Reversal of: ${originalEntry.description}`,
     reference: originalEntry.reference ? `REV-${originalEntry.reference}` : null,
     entry_type: "reversing",
@@ -434,18 +508,24 @@ export function lockJournalEntry(id: number): void {
   db.prepare("UPDATE journal_entries SET is_locked = 1 WHERE id = ?").run(id);
 }
 
-// Unlock journal entry (requires admin)
+// Unlock journal entry (requires admin; entries inside a closed period stay locked)
 export function unlockJournalEntry(id: number): void {
   const db = getDb();
+  const entry = db.prepare("SELECT date FROM journal_entries WHERE id = ?").get(id) as { date: string } | undefined;
+  if (entry) {
+    assertDateUnlocked(entry.date, "unlock an entry dated");
+  }
   db.prepare("UPDATE journal_entries SET is_locked = 0 WHERE id = ?").run(id);
 }
 
 // Get journal entries for a specific account (general ledger)
+// With group_by_dimension_id, lines are ordered by value and the running balance restarts per value
 export function getGeneralLedger(
   accountId: number,
   startDate?: string,
   endDate?: string,
-  limit: number = 100
+  limit: number = 100,
+  tracking: TrackingFilter = {}
 ): Array<{
   date: string;
   entry_id: number;
@@ -454,8 +534,11 @@ export function getGeneralLedger(
   debit: number;
   credit: number;
   balance: number;
+  tracking_value_id?: number | null;
+  tracking_value_name?: string;
 }> {
   const db = getDb();
+  const grouped = tracking.group_by_dimension_id !== undefined;
 
   let sql = `
     SELECT
@@ -466,12 +549,20 @@ export function getGeneralLedger(
       jl.debit,
       jl.credit,
       jl.description as line_description
+      ${grouped ? ", lt.value_id as tracking_value_id, tv.name as tracking_value_name" : ""}
     FROM journal_lines jl
     JOIN journal_entries je ON jl.entry_id = je.id
+    ${grouped ? `LEFT JOIN journal_line_tracking lt ON lt.line_id = jl.id AND lt.dimension_id = ?
+    LEFT JOIN tracking_values tv ON tv.id = lt.value_id` : ""}
     WHERE jl.account_id = ?
   `;
 
-  const params: (string | number)[] = [accountId];
+  const params: (string | number)[] = grouped ? [tracking.group_by_dimension_id!, accountId] : [accountId];
+
+  if (tracking.tracking_value_id !== undefined) {
+    sql += " AND jl.id IN (SELECT line_id FROM journal_line_tracking WHERE value_id = ?)";
+    params.push(tracking.tracking_value_id);
+  }
 
   if (startDate) {
     sql += " AND je.date >= ?";
@@ -483,7 +574,9 @@ export function getGeneralLedger(
     params.push(endDate);
   }
 
-  sql += " ORDER BY je.date ASC, je.id ASC LIMIT ?";
+  sql += grouped
+    ? " ORDER BY tv.name IS NULL, tv.name, je.date ASC, je.id ASC LIMIT ?"
+    : " ORDER BY je.date ASC, je.id ASC LIMIT ?";
   params.push(limit);
 
   const transactions = db.prepare(sql).all(...params) as Array<{
@@ -494,6 +587,8 @@ export function getGeneralLedger(
     debit: number;
     credit: number;
     line_description: string | null;
+    tracking_value_id?: number | null;
+    tracking_value_name?: string | null;
   }>;
 
   // Calculate running balance
@@ -501,8 +596,14 @@ export function getGeneralLedger(
   if (!account) throw new Error("Account not found");
 
   let runningBalance = 0;
+  let currentGroup: number | null | undefined;
+
+  return transactions.map((tx, index) => {
+    if (grouped && (index === 0 || tx.tracking_value_id !== currentGroup)) {
+      currentGroup = tx.tracking_value_id;
+      runningBalance = 0;
+    }
 
-  return transactions.map((tx) => {
     // Update running balance based on account type
     if (account.type === "asset" || account.type === "expense") {
       runningBalance += tx.debit - tx.credit;
@@ -518,20 +619,28 @@ export function getGeneralLedger(
       debit: tx.debit,
       credit: tx.credit,
       balance: runningBalance,
+      ...(grouped && {
+        tracking_value_id: tx.tracking_value_id ?? null,
+        tracking_value_name: tx.tracking_value_name || "Unassigned",
+      }),
     };
   });
 }
 
 // Get trial balance (all account balances)
-export function getTrialBalance(asOfDate?: string): Array<{
+// With group_by_dimension_id, each account has one row per value of that dimension
+export function getTrialBalance(asOfDate?: string, tracking: TrackingFilter = {}): Array<{
   account_id: number;
   account_code: string;
   account_name: string;
   account_type: Account["type"];
   debit_balance: number;
   credit_balance: number;
+  tracking_value_id?: number | null;
+  tracking_value_name?: string;
 }> {
   const db = getDb();
+  const grouped = tracking.group_by_dimension_id !== undefined;
 
   let sql = `
     SELECT
@@ -541,23 +650,31 @@ export function getTrialBalance(asOfDate?: string): Array<{
       a.type as account_type,
       COALESCE(SUM(jl.debit), 0) as total_debits,
       COALESCE(SUM(jl.credit), 0) as total_credits
+      ${grouped ? ", lt.value_id as tracking_value_id, tv.name as tracking_value_name" : ""}
     FROM accounts a
     LEFT JOIN journal_lines jl ON a.id = jl.account_id
     LEFT JOIN journal_entries je ON jl.entry_id = je.id
+    ${grouped ? `LEFT JOIN journal_line_tracking lt ON lt.line_id = jl.id AND lt.dimension_id = ?
+    LEFT JOIN tracking_values tv ON tv.id = lt.value_id` : ""}
     WHERE a.is_active = 1
   `;
 
-  const params: string[] = [];
+  const params: (string | number)[] = grouped ? [tracking.group_by_dimension_id!] : [];
 
   if (asOfDate) {
     sql += " AND (je.date IS NULL OR je.date <= ?)";
     params.push(asOfDate);
   }
 
+  if (tracking.tracking_value_id !== undefined) {
+    sql += " AND jl.id IN (SELECT line_id FROM journal_line_tracking WHERE value_id = ?)";
+    params.push(tracking.tracking_value_id);
+  }
+
   sql += `
-    GROUP BY a.id, a.code, a.name, a.type
+    GROUP BY a.id, a.code, a.name, a.type${grouped ? ", lt.value_id" : ""}
     HAVING total_debits != 0 OR total_credits != 0
-    ORDER BY a.code
+    ORDER BY a.code${grouped ? ", tv.name IS NULL, tv.name" : ""}
   `;
 
   const results = db.prepare(sql).all(...params) as Array<{
@@ -567,6 +684,8 @@ export function getTrialBalance(asOfDate?: string): Array<{
     account_type: Account["type"];
     total_debits: number;
     total_credits: number;
+    tracking_value_id?: number | null;
+    tracking_value_name?: string | null;
   }>;
 
   return results.map((row) => {
@@ -599,6 +718,10 @@ export function getTrialBalance(asOfDate?: string): Array<{
       account_type: row.account_type,
       debit_balance,
       credit_balance,
+      ...(grouped && {
+        tracking_value_id: row.tracking_value_id ?? null,
+        tracking_value_name: row.tracking_value_name || "Unassigned",
+      }),
     };
   });
 }
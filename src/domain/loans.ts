@@ -0,0 +1,403 @@
+// Loans and hire purchase: amortization tables, and repayments split into principal and interest
+import { getDb, logAudit, withTransaction } from "../db/index.js";
+import {
+  createJournalEntry,
+  deleteJournalEntry,
+  type CreateJournalLineData,
+} from "./journal.js";
+import { resolveAccount } from "./accounts.js";
+import { resolveBankAccount } from "./bank-accounts.js";
+import type { Payment } from "./payments.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { assertIsoDate, addMonths, today } from "../core/dates.js";
+
+const loanLogger = logger.child({ module: "loans" });
+
+export type LoanType = "loan" | "hire_purchase";
+export type LoanMethod = "annuity" | "rule_of_78";
+
+export interface Loan {
+  id: number;
+  name: string;
+  lender?: string | null;
+  type: LoanType;
+  method: LoanMethod;
+  principal: number;
+  annual_rate: number;
+  term_months: number;
+  start_date: string;
+  first_payment_date: string;
+  liability_account_id: number;
+  interest_account_id: number;
+  drawdown_account_id?: number | null;
+  drawdown_journal_entry_id?: number | null;
+  status: "active" | "repaid";
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+  // Computed
+  liability_account_code?: string;
+  liability_account_name?: string;
+  installment?: number;        // Regular monthly payment
+  total_interest?: number;
+  installments_paid?: number;
+  outstanding?: number;        // Principal not yet repaid
+  next_due_date?: string | null;
+}
+
+export interface LoanInstallment {
+  id: number;
+  loan_id: number;
+  number: number;
+  due_date: string;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;             // Principal left after this installment
+  paid_date?: string | null;
+  payment_id?: number | null;
+  journal_entry_id?: number | null;
+}
+
+export type ScheduledInstallment = Pick<LoanInstallment, "number" | "due_date" | "payment" | "principal" | "interest" | "balance">;
+
+export interface CreateLoanData {
+  name: string;
+  lender?: string;
+  type?: LoanType;
+  method?: LoanMethod;                 // Defaults to annuity for a loan, Rule of 78 for hire purchase
+  principal: number;
+  annual_rate: number;                 // Percent a year; for Rule of 78, the flat rate quoted
+  term_months: number;
+  start_date: string;
+  first_payment_date?: string;         // Defaults to a month after the start
+  liability_account?: number | string; // Defaults to 2700 Long-term Loans or 2800 Hire Purchase Payable
+  interest_account?: number | string;  // Defaults to 5810 Interest Expense
+  drawdown_account?: number | string;  // Defaults to the default bank account, or 1600 for hire purchase
+  post_drawdown?: boolean;             // False for a loan already on the books
+  notes?: string;
+}
+
+export interface RecordRepaymentData {
+  date?: string;
+  bank_account?: number | string;
+  method?: Payment["method"];
+  reference?: string;
+}
+
+export interface LoanPortions {
+  current: number;      // Principal due within twelve months
+  non_current: number;
+  loans: Array<{ loan_id: number; name: string; liability_account_id: number; outstanding: number; current: number; non_current: number }>;
+}
+
+const DEFAULT_LIABILITY_ACCOUNTS: Record<LoanType, string> = {
+  loan: "2700",
+  hire_purchase: "2800",
+};
+
+/**
+ * Build the repayment table. Annuity is a reducing-balance loan with a level
+ * payment; Rule of 78 charges flat-rate interest on the amount financed for the
+ * whole term and front-loads it by sum of digits, as Malaysian hire purchase
+ * does. The last installment takes the rounding.
+ */
+export function buildLoanSchedule(data: {
+  principal: number;
+  annual_rate: number;
+  term_months: number;
+  method: LoanMethod;
+  first_payment_date: string;
+}): ScheduledInstallment[] {
+  const n = data.term_months;
+  const rows: ScheduledInstallment[] = [];
+  let balance = money.round2(data.principal);
+
+  if (data.method === "rule_of_78") {
+    const totalInterest = money.round2(data.principal * (data.annual_rate / 100) * (n / 12));
+    const payment = money.round2((data.principal + totalInterest) / n);
+    const digits = (n * (n + 1)) / 2;
+    let interestLeft = totalInterest;
+    for (let k = 1; k <= n; k++) {
+      const last = k === n;
+      const interest = last ? interestLeft : money.round2((totalInterest * (n - k + 1)) / digits);
+      const principal = last ? balance : money.subtract(payment, interest);
+      interestLeft = money.subtract(interestLeft, interest);
+      balance = money.subtract(balance, principal);
+      rows.push({ number: k, due_date: addMonths(data.first_payment_date, k - 1), payment: money.add(principal, interest), principal, interest, balance });
+    }
+    return rows;
+  }
+
+  const r = data.annual_rate / 100 / 12;
+  const payment = r === 0 ? money.round2(data.principal / n) : money.round2((data.principal * r) / (1 - Math.pow(1 + r, -n)));
+  for (let k = 1; k <= n; k++) {
+    const interest = money.round2(balance * r);
+    const principal = k === n ? balance : Math.min(money.subtract(payment, interest), balance);
+    balance = money.subtract(balance, principal);
+    rows.push({ number: k, due_date: addMonths(data.first_payment_date, k - 1), payment: money.add(principal, interest), principal, interest, balance });
+  }
+  return rows;
+}
+
+/**
+ * Take out a loan or hire purchase: stores the repayment table and, unless the
+ * loan is already on the books, posts Dr drawdown account / Cr loan liability.
+ */
+export function createLoan(data: CreateLoanData): Loan {
+  const name = data.name?.trim();
+  if (!name) {
+    throw new Error("Loan name is required");
+  }
+  if (!(data.principal > 0)) {
+    throw new Error("Principal must be greater than 0");
+  }
+  if (!(data.annual_rate >= 0)) {
+    throw new Error("Interest rate cannot be negative");
+  }
+  if (!Number.isInteger(data.term_months) || data.term_months <= 0) {
+    throw new Error("Term must be a whole number of months");
+  }
+  assertIsoDate(data.start_date, "start date");
+  const firstPayment = data.first_payment_date || addMonths(data.start_date, 1);
+  assertIsoDate(firstPayment, "first payment date");
+  if (firstPayment < data.start_date) {
+    throw new Error("First payment cannot be before the loan starts");
+  }
+
+  const type = data.type || "loan";
+  const method = data.method || (type === "hire_purchase" ? "rule_of_78" : "annuity");
+
+  return withTransaction(() => {
+    const db = getDb();
+    const liability = resolveAccount(data.liability_account, DEFAULT_LIABILITY_ACCOUNTS[type], "Loan");
+    if (liability.type !== "liability") {
+      throw new Error(`${liability.code} ${liability.name} is not a liability account`);
+    }
+    const interest = resolveAccount(data.interest_account, "5810", "Interest");
+    const postDrawdown = data.post_drawdown !== false;
+    const drawdown = !postDrawdown
+      ? undefined
+      : type === "hire_purchase"
+        ? resolveAccount(data.drawdown_account, "1600", "Asset")
+        : resolveBankAccount(data.drawdown_account);
+
+    const result = db.prepare(`
+      INSERT INTO loans (name, lender, type, method, principal, annual_rate, term_months, start_date, first_payment_date,
+        liability_account_id, interest_account_id, drawdown_account_id, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      name,
+      data.lender || null,
+      type,
+      method,
+      money.round2(data.principal),
+      data.annual_rate,
+      data.term_months,
+      data.start_date,
+      firstPayment,
+      liability.id,
+      interest.id,
+      drawdown?.id ?? null,
+      data.notes || null
+    );
+    const loanId = result.lastInsertRowid as number;
+
+    const insertInstallment = db.prepare(`
+      INSERT INTO loan_installments (loan_id, number, due_date, payment, principal, interest, balance)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const row of buildLoanSchedule({ ...data, method, first_payment_date: firstPayment })) {
+      insertInstallment.run(loanId, row.number, row.due_date, row.payment, row.principal, row.interest, row.balance);
+    }
+
+    if (drawdown) {
+      const description = `${type === "hire_purchase" ? "Hire purchase" : "Loan"} drawdown - ${name}`;
+      const entry = createJournalEntry({
+        date: data.start_date,
+        description,
+        reference: data.lender || null,
+        entry_type: "standard",
+        lines: [
+          { account_id: drawdown.id, debit: money.round2(data.principal), credit: 0, description },
+          { account_id: liability.id, debit: 0, credit: money.round2(data.principal), description },
+        ],
+      });
+      db.prepare("UPDATE loans SET drawdown_journal_entry_id = ? WHERE id = ?").run(entry.id, loanId);
+    }
+
+    const loan = getLoan(loanId)!;
+    logAudit("create", "loan", loan.id, null, loan);
+    loanLogger.info({ loanId, type, method, principal: loan.principal }, "Loan created");
+
+    return loan;
+  });
+}
+
+export function getLoan(idOrName: number | string): Loan | undefined {
+  const db = getDb();
+  const row = db.prepare(`
+    SELECT l.*, a.code as liability_account_code, a.name as liability_account_name
+    FROM loans l
+    JOIN accounts a ON l.liability_account_id = a.id
+    WHERE ${typeof idOrName === "number" ? "l.id = ?" : "LOWER(l.name) = LOWER(?)"}
+  `).get(idOrName) as Loan | undefined;
+  return row ? withSummary(row) : undefined;
+}
+
+export function listLoans(filters: { status?: Loan["status"] } = {}): Loan[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT l.*, a.code as liability_account_code, a.name as liability_account_name
+    FROM loans l
+    JOIN accounts a ON l.liability_account_id = a.id
+    ${filters.status ? "WHERE l.status = ?" : ""}
+    ORDER BY l.start_date, l.id
+  `).all(...(filters.status ? [filters.status] : [])) as Loan[];
+  return rows.map(withSummary);
+}
+
+function withSummary(loan: Loan): Loan {
+  const installments = getLoanSchedule(loan.id);
+  const paid = installments.filter((i) => i.paid_date);
+  const next = installments.find((i) => !i.paid_date);
+  return {
+    ...loan,
+    installment: installments[0]?.payment ?? 0,
+    total_interest: money.sum(installments.map((i) => i.interest)),
+    installments_paid: paid.length,
+    outstanding: money.subtract(loan.principal, money.sum(paid.map((i) => i.principal))),
+    next_due_date: next?.due_date ?? null,
+  };
+}
+
+export function getLoanSchedule(loanId: number): LoanInstallment[] {
+  return getDb().prepare(
+    "SELECT * FROM loan_installments WHERE loan_id = ? ORDER BY number"
+  ).all(loanId) as LoanInstallment[];
+}
+
+/**
+ * Pay the next installment: Dr loan liability (principal) and Dr interest
+ * expense (interest) / Cr bank for the whole payment.
+ */
+export function recordLoanRepayment(idOrName: number | string, data: RecordRepaymentData = {}): LoanInstallment {
+  return withTransaction(() => {
+    const db = getDb();
+    const loan = getLoan(idOrName);
+    if (!loan) {
+      throw new Error(`Loan not found: ${idOrName}`);
+    }
+    const installment = getLoanSchedule(loan.id).find((i) => !i.paid_date);
+    if (!installment) {
+      throw new Error(`${loan.name} is fully repaid`);
+    }
+
+    const date = data.date || today();
+    if (date < loan.start_date) {
+      throw new Error(`Cannot repay ${loan.name} before it starts on ${loan.start_date}`);
+    }
+    const bank = resolveBankAccount(data.bank_account);
+    const reference = data.reference || `${loan.name} #${installment.number}`;
+    const description = `${loan.type === "hire_purchase" ? "Hire purchase" : "Loan"} repayment - ${loan.name} #${installment.number}`;
+
+    const payment = db.prepare(`
+      INSERT INTO payments (date, type, amount, method, reference, account_id, notes, bank_account_id)
+      VALUES (?, 'sent', ?, ?, ?, ?, ?, ?)
+    `).run(date, installment.payment, data.method || "bank", reference, loan.liability_account_id, loan.lender || null, bank.id);
+    const paymentId = payment.lastInsertRowid as number;
+
+    const lines: CreateJournalLineData[] = [
+      { account_id: loan.liability_account_id, debit: installment.principal, credit: 0, description: `Principal - ${loan.name}` },
+    ];
+    if (installment.interest > 0) {
+      lines.push({ account_id: loan.interest_account_id, debit: installment.interest, credit: 0, description: `Interest - ${loan.name}` });
+    }
+    lines.push({ account_id: bank.id, debit: 0, credit: installment.payment, description });
+
+    const entry = createJournalEntry({ date, description, reference, entry_type: "standard", lines });
+    db.prepare("UPDATE payments SET journal_entry_id = ? WHERE id = ?").run(entry.id, paymentId);
+    db.prepare(`
+      UPDATE loan_installments SET paid_date = ?, payment_id = ?, journal_entry_id = ? WHERE id = ?
+    `).run(date, paymentId, entry.id, installment.id);
+
+    if (installment.number === loan.term_months) {
+      db.prepare("UPDATE loans SET status = 'repaid', updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(loan.id);
+    }
+
+    logAudit("repay", "loan", loan.id, null, { installment: installment.number, principal: installment.principal, interest: installment.interest });
+    return db.prepare("SELECT * FROM loan_installments WHERE id = ?").get(installment.id) as LoanInstallment;
+  });
+}
+
+// Pay every installment due on or before a date, each on its due date
+export function recordDueRepayments(throughDate: string, data: Omit<RecordRepaymentData, "date"> = {}): LoanInstallment[] {
+  assertIsoDate(throughDate, "date");
+  return withTransaction(() => {
+    const due = getDb().prepare(`
+      SELECT i.* FROM loan_installments i
+      JOIN loans l ON i.loan_id = l.id
+      WHERE l.status = 'active' AND i.paid_date IS NULL AND i.due_date <= ?
+      ORDER BY i.due_date, i.loan_id, i.number
+    `).all(throughDate) as LoanInstallment[];
+    return due.map((i) => recordLoanRepayment(i.loan_id, { ...data, date: i.due_date }));
+  });
+}
+
+/**
+ * Principal outstanding at a date, split into what falls due within twelve
+ * months (current) and after (non-current).
+ */
+export function getLoanPortions(asOfDate: string): LoanPortions {
+  const db = getDb();
+  const cutoff = addMonths(asOfDate, 12);
+  const loans = db.prepare("SELECT * FROM loans WHERE start_date <= ?").all(asOfDate) as Loan[];
+
+  const rows = loans.map((loan) => {
+    const unpaid = (db.prepare(`
+      SELECT * FROM loan_installments WHERE loan_id = ? AND (paid_date IS NULL OR paid_date > ?)
+    `).all(loan.id, asOfDate) as LoanInstallment[]);
+    const outstanding = money.sum(unpaid.map((i) => i.principal));
+    const current = money.sum(unpaid.filter((i) => i.due_date <= cutoff).map((i) => i.principal));
+    return {
+      loan_id: loan.id,
+      name: loan.name,
+      liability_account_id: loan.liability_account_id,
+      outstanding,
+      current,
+      non_current: money.subtract(outstanding, current),
+    };
+  });
+
+  return {
+    current: money.sum(rows.map((r) => r.current)),
+    non_current: money.sum(rows.map((r) => r.non_current)),
+    loans: rows,
+  };
+}
+
+// Delete a loan that has no repayments yet, with its drawdown entry
+export function deleteLoan(idOrName: number | string): { success: boolean; error?: string } {
+  const loan = getLoan(idOrName);
+  if (!loan) {
+    return { success: false, error: "Loan not found" };
+  }
+  if (loan.installments_paid) {
+    return { success: false, error: `${loan.name} has ${loan.installments_paid} repayment(s) recorded` };
+  }
+
+  try {
+    withTransaction(() => {
+      getDb().prepare("DELETE FROM loans WHERE id = ?").run(loan.id);
+      if (loan.drawdown_journal_entry_id) {
+        deleteJournalEntry(loan.drawdown_journal_entry_id);
+      }
+    });
+  } catch (err) {
+    return { success: false, error: (err as Error).message };
+  }
+
+  logAudit("delete", "loan", loan.id, loan, null);
+  return { success: true };
+}
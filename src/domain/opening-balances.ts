@@ -0,0 +1,383 @@
+// Opening balances for books converted from another system
+import { getDb, getSetting, setSetting, logAudit, withTransaction } from "../db/index.js";
+import {
+  createJournalEntry,
+  deleteJournalEntry,
+  getJournalEntry,
+  lockJournalEntry,
+  unlockJournalEntry,
+  validateBalance,
+  type CreateJournalLineData,
+  type JournalEntry,
+} from "./journal.js";
+import { getAccount, getAccountByCode, requireAccount, type Account } from "./accounts.js";
+import { getInvoice, type Invoice } from "./invoices.js";
+import { getBill, type Bill } from "./bills.js";
+import { getBaseCurrency } from "./exchange-rates.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { addDays, assertIsoDate } from "../core/dates.js";
+
+const openingLogger = logger.child({ module: "opening-balances" });
+
+export const OPENING_BALANCE_EQUITY_CODE = "3900";
+const RECEIVABLES_CODE = "1200";
+const PAYABLES_CODE = "2000";
+
+export interface OpeningBalanceLine {
+  account: number | string; // Id, code or name
+  debit?: number;
+  credit?: number;
+}
+
+export interface OpeningInvoiceData {
+  customer_id: number;
+  number: string;        // As issued by the old system, so payments can quote it
+  date: string;          // Original invoice date, on or before the conversion date
+  due_date?: string;     // Defaults from the customer's payment terms
+  amount: number;        // Still outstanding at the conversion date
+  description?: string;
+}
+
+export interface OpeningBillData {
+  vendor_id: number;
+  reference?: string;    // The vendor's invoice number
+  date: string;
+  due_date?: string;
+  amount: number;
+  description?: string;
+}
+
+export interface OpeningBalanceStatus {
+  conversion_date: string | null;
+  journal_entry_id: number | null; // The locked trial balance entry
+  invoices: number;
+  receivables: number;
+  bills: number;
+  payables: number;
+  equity_balance: number; // Opening Balance Equity; zero once everything agrees
+}
+
+// Conversion date: opening balances are as at the close of this day
+export function getConversionDate(): string | null {
+  return getSetting("conversion_date") || null;
+}
+
+export function setConversionDate(date: string): void {
+  assertIsoDate(date, "conversion date");
+  const current = getConversionDate();
+  if (current && current !== date && hasOpeningEntries()) {
+    throw new Error(`Opening balances are already posted on ${current}. Remove them before changing the conversion date.`);
+  }
+  setSetting("conversion_date", date);
+}
+
+function requireConversionDate(): string {
+  const date = getConversionDate();
+  if (!date) {
+    throw new Error("Set the conversion date first");
+  }
+  return date;
+}
+
+function hasOpeningEntries(): boolean {
+  const db = getDb();
+  const documents = db.prepare(`
+    SELECT (SELECT COUNT(*) FROM invoices WHERE is_opening = 1) + (SELECT COUNT(*) FROM bills WHERE is_opening = 1) as count
+  `).get() as { count: number };
+  return documents.count > 0 || getOpeningEntryId() !== null;
+}
+
+function getOpeningEntryId(): number | null {
+  const id = parseInt(getSetting("opening_balance_entry_id") || "");
+  return isNaN(id) || !getJournalEntry(id) ? null : id;
+}
+
+function resolveAccount(account: number | string): Account {
+  const db = getDb();
+  const found = typeof account === "number"
+    ? getAccount(account)
+    : db.prepare("SELECT * FROM accounts WHERE code = ? OR LOWER(name) = LOWER(?)").get(account.trim(), account.trim()) as Account | undefined;
+  if (!found) {
+    throw new Error(`Account not found: ${account}`);
+  }
+  return found;
+}
+
+function dueDateFromTerms(date: string, terms: string | null): string {
+  const days = parseInt((terms || getSetting("default_payment_terms") || "net_30").match(/net_(\d+)/)?.[1] || "30");
+  return addDays(date, days);
+}
+
+function checkDocument(kind: string, date: string, dueDate: string, amount: number, conversionDate: string): void {
+  if (!(amount > 0)) {
+    throw new Error(`Opening ${kind} amount must be greater than 0`);
+  }
+  if (date > conversionDate) {
+    throw new Error(`Opening ${kind} is dated ${date}, after the conversion date ${conversionDate}. Enter it as a normal ${kind} instead.`);
+  }
+  if (dueDate < date) {
+    throw new Error(`Due date cannot be before the ${kind} date`);
+  }
+}
+
+// Dr or Cr the control account against Opening Balance Equity, dated the conversion date and locked
+function postAgainstEquity(
+  controlAccount: Account,
+  side: "debit" | "credit",
+  amount: number,
+  date: string,
+  description: string,
+  reference: string
+): JournalEntry {
+  const equity = requireAccount(OPENING_BALANCE_EQUITY_CODE, "Opening Balance Equity");
+  const entry = createJournalEntry({
+    date,
+    description,
+    reference,
+    entry_type: "standard",
+    lines: [
+      { account_id: controlAccount.id, debit: side === "debit" ? amount : 0, credit: side === "credit" ? amount : 0, description },
+      { account_id: equity.id, debit: side === "credit" ? amount : 0, credit: side === "debit" ? amount : 0, description },
+    ],
+  });
+  lockJournalEntry(entry.id);
+  return entry;
+}
+
+/**
+ * Bring over an invoice that was still unpaid at the conversion date. It keeps
+ * its original number, date and due date so aging, statements and payments
+ * work as for any other invoice, and posts Dr Accounts Receivable / Cr Opening
+ * Balance Equity on the conversion date (revenue and tax were reported by the
+ * old system). Amounts are in the base currency.
+ */
+export function addOpeningInvoice(data: OpeningInvoiceData): Invoice {
+  return withTransaction(() => {
+    const db = getDb();
+    const conversionDate = requireConversionDate();
+
+    const customer = db.prepare("SELECT id, name, payment_terms FROM customers WHERE id = ?").get(data.customer_id) as
+      { id: number; name: string; payment_terms: string | null } | undefined;
+    if (!customer) {
+      throw new Error(`Customer with ID ${data.customer_id} not found`);
+    }
+    const number = data.number?.trim();
+    if (!number) {
+      throw new Error("Invoice number is required");
+    }
+    if (getInvoice(number)) {
+      throw new Error(`Invoice ${number} already exists`);
+    }
+
+    const amount = money.round2(data.amount);
+    const dueDate = data.due_date || dueDateFromTerms(data.date, customer.payment_terms);
+    checkDocument("invoice", data.date, dueDate, amount, conversionDate);
+
+    const entry = postAgainstEquity(
+      requireAccount(RECEIVABLES_CODE, "Accounts Receivable"),
+      "debit",
+      amount,
+      conversionDate,
+      `Opening balance - Invoice ${number} - ${customer.name}`,
+      number
+    );
+
+    const result = db.prepare(`
+      INSERT INTO invoices (number, customer_id, date, due_date, status, subtotal, total, payment_terms, notes, currency_code, journal_entry_id, is_opening)
+      VALUES (?, ?, ?, ?, 'sent', ?, ?, ?, ?, ?, ?, 1)
+    `).run(number, customer.id, data.date, dueDate, amount, amount, customer.payment_terms, "Opening balance", getBaseCurrency(), entry.id);
+    const invoiceId = result.lastInsertRowid as number;
+
+    db.prepare(`
+      INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, amount, taxable_amount, account_id, sort_order)
+      VALUES (?, ?, 1, ?, ?, ?, ?, 0)
+    `).run(invoiceId, data.description || "Opening balance", amount, amount, amount, requireAccount(OPENING_BALANCE_EQUITY_CODE, "Opening Balance Equity").id);
+
+    // Keep new invoice numbers clear of the ones brought over
+    const prefix = getSetting("invoice_prefix") || "INV";
+    const sequence = number.match(new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}-(\\d+)$`));
+    if (sequence && parseInt(sequence[1]) >= parseInt(getSetting("next_invoice_number") || "1")) {
+      setSetting("next_invoice_number", String(parseInt(sequence[1]) + 1));
+    }
+
+    const invoice = getInvoice(invoiceId)!;
+    logAudit("create", "invoice", invoice.id, null, invoice);
+    openingLogger.info({ invoice: number, amount }, "Opening invoice added");
+
+    return invoice;
+  });
+}
+
+/**
+ * Bring over a bill that was still unpaid at the conversion date. It takes the
+ * next bill number, keeps the vendor's number as the reference, and posts
+ * Dr Opening Balance Equity / Cr Accounts Payable on the conversion date.
+ */
+export function addOpeningBill(data: OpeningBillData): Bill {
+  return withTransaction(() => {
+    const db = getDb();
+    const conversionDate = requireConversionDate();
+
+    const vendor = db.prepare("SELECT id, name, payment_terms FROM vendors WHERE id = ?").get(data.vendor_id) as
+      { id: number; name: string; payment_terms: string | null } | undefined;
+    if (!vendor) {
+      throw new Error(`Vendor with ID ${data.vendor_id} not found`);
+    }
+
+    const amount = money.round2(data.amount);
+    const dueDate = data.due_date || dueDateFromTerms(data.date, vendor.payment_terms);
+    checkDocument("bill", data.date, dueDate, amount, conversionDate);
+
+    const prefix = getSetting("bill_prefix") || "BILL";
+    const nextNum = parseInt(getSetting("next_bill_number") || "1");
+    const number = `${prefix}-${String(nextNum).padStart(4, "0")}`;
+    setSetting("next_bill_number", String(nextNum + 1));
+
+    const entry = postAgainstEquity(
+      requireAccount(PAYABLES_CODE, "Accounts Payable"),
+      "credit",
+      amount,
+      conversionDate,
+      `Opening balance - Bill ${data.reference || number} - ${vendor.name}`,
+      data.reference || number
+    );
+
+    const result = db.prepare(`
+      INSERT INTO bills (number, vendor_id, vendor_reference, date, due_date, status, total, payment_terms, notes, currency_code, journal_entry_id, approved_at, is_opening)
+      VALUES (?, ?, ?, ?, ?, 'approved', ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, 1)
+    `).run(number, vendor.id, data.reference || null, data.date, dueDate, amount, vendor.payment_terms, "Opening balance", getBaseCurrency(), entry.id);
+    const billId = result.lastInsertRowid as number;
+
+    db.prepare(`
+      INSERT INTO bill_items (bill_id, description, quantity, unit_price, amount, account_id, sort_order)
+      VALUES (?, ?, 1, ?, ?, ?, 0)
+    `).run(billId, data.description || "Opening balance", amount, amount, requireAccount(OPENING_BALANCE_EQUITY_CODE, "Opening Balance Equity").id);
+
+    const bill = getBill(billId)!;
+    logAudit("create", "bill", bill.id, null, bill);
+    openingLogger.info({ bill: number, amount }, "Opening bill added");
+
+    return bill;
+  });
+}
+
+/**
+ * Post the trial balance from the old system as at the conversion date. The
+ * lines must balance on their own. Receivables and payables are not posted
+ * again: they must equal the open invoices and bills already brought over,
+ * which carry those balances. Everything else posts in one locked entry,
+ * with Opening Balance Equity taking the place of the control accounts so it
+ * nets to zero. Entering the trial balance again replaces the earlier entry.
+ */
+export function enterOpeningBalances(lines: OpeningBalanceLine[]): JournalEntry {
+  return withTransaction(() => {
+    const conversionDate = requireConversionDate();
+    const equity = requireAccount(OPENING_BALANCE_EQUITY_CODE, "Opening Balance Equity");
+
+    // One net amount per account
+    const byAccount = new Map<number, { account: Account; debit: number; credit: number }>();
+    for (const line of lines) {
+      const debit = money.round2(line.debit || 0);
+      const credit = money.round2(line.credit || 0);
+      if (debit < 0 || credit < 0) {
+        throw new Error(`Amounts cannot be negative (${line.account})`);
+      }
+      const account = resolveAccount(line.account);
+      if (account.id === equity.id) {
+        throw new Error("Leave Opening Balance Equity out of the trial balance; it is the balancing account");
+      }
+      const current = byAccount.get(account.id) || { account, debit: 0, credit: 0 };
+      current.debit = money.add(current.debit, debit);
+      current.credit = money.add(current.credit, credit);
+      byAccount.set(account.id, current);
+    }
+
+    const journalLines: CreateJournalLineData[] = [...byAccount.values()].map(({ account, debit, credit }) => {
+      const net = money.subtract(debit, credit);
+      return { account_id: account.id, debit: net > 0 ? net : 0, credit: net < 0 ? -net : 0, description: "Opening balance" };
+    });
+    if (!validateBalance(journalLines)) {
+      const debits = money.sum(journalLines.map((l) => l.debit));
+      const credits = money.sum(journalLines.map((l) => l.credit));
+      throw new Error(`Trial balance does not balance. Debits: ${debits.toFixed(2)}, Credits: ${credits.toFixed(2)}`);
+    }
+
+    // Control accounts must agree with the documents brought over
+    const opening = getOpeningBalanceStatus();
+    const controls = [
+      { account: requireAccount(RECEIVABLES_CODE, "Accounts Receivable"), expected: opening.receivables, documents: "open invoices", sign: 1 },
+      { account: requireAccount(PAYABLES_CODE, "Accounts Payable"), expected: opening.payables, documents: "open bills", sign: -1 },
+    ];
+    for (const control of controls) {
+      const line = journalLines.find((l) => l.account_id === control.account.id);
+      const balance = line ? money.multiply(money.subtract(line.debit, line.credit), control.sign) : 0;
+      if (!money.isZero(money.subtract(balance, control.expected))) {
+        throw new Error(
+          `${control.account.name} in the trial balance (${balance.toFixed(2)}) does not match the ${control.documents} ` +
+          `brought over (${control.expected.toFixed(2)}). Add each outstanding item first.`
+        );
+      }
+    }
+
+    const posting = journalLines.filter((l) => !controls.some((c) => c.account.id === l.account_id) && !money.isZero(l.debit - l.credit));
+    if (posting.length === 0) {
+      throw new Error("Nothing to post besides receivables and payables");
+    }
+    const difference = money.subtract(money.sum(posting.map((l) => l.debit)), money.sum(posting.map((l) => l.credit)));
+    if (!money.isZero(difference)) {
+      posting.push({
+        account_id: equity.id,
+        debit: difference < 0 ? -difference : 0,
+        credit: difference > 0 ? difference : 0,
+        description: "Receivables and payables brought over",
+      });
+    }
+
+    const previousId = getOpeningEntryId();
+    if (previousId) {
+      unlockJournalEntry(previousId);
+      deleteJournalEntry(previousId);
+    }
+
+    const entry = createJournalEntry({
+      date: conversionDate,
+      description: "Opening balances",
+      reference: "OPENING",
+      entry_type: "standard",
+      lines: posting,
+    });
+    lockJournalEntry(entry.id);
+    setSetting("opening_balance_entry_id", String(entry.id));
+
+    logAudit(previousId ? "update" : "create", "opening_balances", entry.id, previousId ? { journal_entry_id: previousId } : null, {
+      conversion_date: conversionDate,
+      journal_entry_id: entry.id,
+    });
+    openingLogger.info({ conversion_date: conversionDate, lines: posting.length }, "Opening balances entered");
+
+    return getJournalEntry(entry.id)!;
+  });
+}
+
+// What has been brought over so far, and whether Opening Balance Equity has cleared
+export function getOpeningBalanceStatus(): OpeningBalanceStatus {
+  const db = getDb();
+  const invoices = db.prepare(`
+    SELECT COUNT(*) as count, COALESCE(SUM(total), 0) as total FROM invoices WHERE is_opening = 1 AND status != 'cancelled'
+  `).get() as { count: number; total: number };
+  const bills = db.prepare(`
+    SELECT COUNT(*) as count, COALESCE(SUM(total), 0) as total FROM bills WHERE is_opening = 1 AND status != 'cancelled'
+  `).get() as { count: number; total: number };
+  const equity = getAccountByCode(OPENING_BALANCE_EQUITY_CODE);
+
+  return {
+    conversion_date: getConversionDate(),
+    journal_entry_id: getOpeningEntryId(),
+    invoices: invoices.count,
+    receivables: money.round2(invoices.total),
+    bills: bills.count,
+    payables: money.round2(bills.total),
+    equity_balance: equity?.balance ?? 0,
+  };
+}
@@ -1,12 +1,27 @@
 import { getDb, logAudit, withTransaction } from "../db/index.js";
-import { recordPaymentToInvoice } from "./invoices.js";
+import { getInvoice, recordPaymentToInvoice, type Invoice } from "./invoices.js";
 import {
   createJournalEntry,
+  assertDateUnlocked,
   type CreateJournalLineData,
 } from "./journal.js";
 import { getAccountByCode } from "./accounts.js";
+import { resolveBankAccount } from "./bank-accounts.js";
+import {
+  getBaseCurrency,
+  isForeignCurrency,
+  resolveDocumentRate,
+  foreignLineFields,
+  fxGainLossLine,
+  toBase,
+} from "./exchange-rates.js";
 import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { today } from "../core/dates.js";
 import { matchExpense } from "./categorization-rules.js";
+import { setTrackingAssignments } from "./tracking.js";
+import { calculateTax } from "./tax-codes.js";
+import { getWithholding, recordWhtDeduction, whtPayableAccountId } from "./withholding-tax.js";
 
 const paymentLogger = logger.child({ module: "payments" });
 
@@ -14,7 +29,11 @@ export interface Payment {
   id: number;
   date: string;
   type: "received" | "sent";
-  amount: number;
+  amount: number;              // Base currency; net of any tax withheld
+  wht_amount?: number;         // Withheld from a non-resident vendor and owed to LHDN
+  currency_code?: string;
+  exchange_rate?: number;
+  foreign_amount?: number;     // Document currency, when foreign
   method: "cash" | "bank" | "card" | "check" | "other";
   reference?: string;
   customer_id?: number;
@@ -23,21 +42,76 @@ export interface Payment {
   vendor_name?: string;
   invoice_id?: number;
   invoice_number?: string;
+  bill_id?: number;
+  bill_number?: string;
+  expense_claim_id?: number;   // Reimbursement of an employee's expense claim
   account_id?: number;
+  bank_account_id?: number;    // Bank or cash account the money moved through
+  bank_account_name?: string;
   notes?: string;
   cleared_at?: string;
   bank_reference?: string;
   reconciled: number;
+  unapplied_amount?: number;   // Held on Customer Deposits until applied or refunded
   created_at: string;
 }
 
+// Money from a payment or credit note settling an invoice, or refunded
+export interface PaymentAllocation {
+  id: number;
+  payment_id?: number;
+  credit_note_id?: number;
+  invoice_id?: number;
+  refund_payment_id?: number;
+  amount: number;              // Document currency
+  date: string;
+  journal_entry_id?: number;
+  payment_reference?: string;
+  credit_note_number?: string;
+  invoice_number?: string;
+  created_at: string;
+}
+
+// Credit a customer can apply to later invoices or have refunded
+export interface CustomerCredit {
+  type: "payment" | "credit_note";
+  id: number;
+  date: string;
+  reference?: string;          // Payment reference or credit note number
+  currency_code: string;
+  amount: number;
+  available: number;
+}
+
 export interface RecordPaymentData {
   date?: string;
-  amount: number;
+  amount: number; // In the invoice's currency when linked to an invoice
+  exchange_rate?: number; // Defaults to the stored rate for the payment date
   method?: Payment["method"];
   reference?: string;
   customer_id?: number;
-  invoice_id?: number;
+  invoice_id?: number; // Takes what the invoice still owes; the rest is held as credit
+  allocations?: Array<{ invoice_id: number; amount: number }>; // Anything left over is held as credit
+  bank_account?: number | string; // Id, code or name; defaults to the default bank account
+  notes?: string;
+}
+
+export interface ApplyCreditData {
+  invoice_id: number;
+  payment_id?: number;     // Credit held from an earlier payment
+  credit_note_id?: number; // ...or from a credit note
+  amount?: number;         // Defaults to as much as the credit and invoice allow
+  date?: string;
+}
+
+export interface RefundCreditData {
+  payment_id?: number;
+  credit_note_id?: number;
+  amount?: number;         // Defaults to all the credit left
+  date?: string;
+  method?: Payment["method"];
+  reference?: string;
+  bank_account?: number | string;
   notes?: string;
 }
 
@@ -50,7 +124,32 @@ export interface RecordExpenseData {
   description?: string;
   method?: Payment["method"];
   reference?: string;
+  bank_account?: number | string; // Paid from; defaults to the default bank account
   notes?: string;
+  is_recurring?: boolean;
+  tracking?: number[]; // Defaults to the matched categorization rule's value
+  tax_code?: string; // The amount includes this tax; recoverable tax is taken off the expense
+  purchase_order_id?: number; // Raised against a purchase order instead of a bill
+  withhold?: boolean; // Withhold tax for a non-resident vendor; defaults to true when they have a category
+}
+
+function customerDepositsAccountId(): number {
+  const account = getAccountByCode("2400");
+  if (!account) {
+    throw new Error("Customer Deposits account (2400) not found. Please ensure chart of accounts is set up.");
+  }
+  return account.id;
+}
+
+function documentCurrency(invoice: Invoice): string {
+  return (invoice.exchange_rate && invoice.currency_code) || getBaseCurrency();
+}
+
+// Base amount taken off the receivable; cumulative so the last settlement clears it exactly
+function receivableRelief(invoice: Invoice, amount: number): number {
+  if (!isForeignCurrency(documentCurrency(invoice))) return amount;
+  const rate = invoice.exchange_rate ?? 1;
+  return money.subtract(toBase(money.add(invoice.amount_paid, amount), rate), toBase(invoice.amount_paid, rate));
 }
 
 export function recordPayment(data: RecordPaymentData): Payment {
@@ -61,59 +160,127 @@ export function recordPayment(data: RecordPaymentData): Payment {
 
   return withTransaction(() => {
     const db = getDb();
-    const date = data.date || new Date().toISOString().split("T")[0];
+    const date = data.date || today();
+
+    // A single invoice takes what it still owes; anything over is held as credit
+    let requested = data.allocations;
+    if (!requested && data.invoice_id) {
+      const single = getInvoice(data.invoice_id);
+      const balance = single ? money.subtract(single.total, single.amount_paid) : 0;
+      requested = [{ invoice_id: data.invoice_id, amount: balance > 0 ? Math.min(data.amount, balance) : data.amount }];
+    }
+    const allocations = (requested || []).map((allocation) => {
+      const invoice = getInvoice(allocation.invoice_id);
+      if (!invoice) {
+        throw new Error(`Invoice not found: ${allocation.invoice_id}`);
+      }
+      if (allocation.amount <= 0) {
+        throw new Error(`Allocation to ${invoice.number} must be greater than 0`);
+      }
+      return { invoice, amount: allocation.amount };
+    });
+
+    const customerId = data.customer_id ?? allocations[0]?.invoice.customer_id;
+    if (allocations.some((a) => a.invoice.customer_id !== customerId)) {
+      throw new Error("All invoices a payment is allocated to must belong to the paying customer");
+    }
+    const allocated = money.sum(allocations.map((a) => a.amount));
+    if (allocated > data.amount) {
+      throw new Error(
+        `Allocations (${money.format(allocated)}) are more than the payment (${money.format(data.amount)})`
+      );
+    }
+    const unapplied = money.subtract(data.amount, allocated);
+    if (unapplied > 0 && !customerId) {
+      throw new Error("A payment not allocated in full needs a customer to hold the credit for");
+    }
+
+    // Foreign invoices are paid in their own currency at the payment date rate
+    const currencies = new Set(allocations.map((a) => (a.invoice.exchange_rate && a.invoice.currency_code) || getBaseCurrency()));
+    if (currencies.size > 1) {
+      throw new Error("A payment can only be allocated to invoices in one currency");
+    }
+    const currencyCode = [...currencies][0] || getBaseCurrency();
+    const isForeign = isForeignCurrency(currencyCode);
+    if (isForeign && unapplied > 0) {
+      throw new Error("A foreign currency payment must be allocated to invoices in full");
+    }
+    const paymentRate = resolveDocumentRate(currencyCode, date, data.exchange_rate);
+    const baseAmount = toBase(data.amount, paymentRate);
+    const cashAccount = resolveBankAccount(data.bank_account);
 
     const result = db.prepare(`
-      INSERT INTO payments (date, type, amount, method, reference, customer_id, invoice_id, notes)
-      VALUES (?, 'received', ?, ?, ?, ?, ?, ?)
+      INSERT INTO payments (date, type, amount, method, reference, customer_id, invoice_id, notes, currency_code, exchange_rate, foreign_amount, unapplied_amount, bank_account_id)
+      VALUES (?, 'received', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       date,
-      data.amount,
+      baseAmount,
       data.method || "bank",
       data.reference || null,
-      data.customer_id || null,
-      data.invoice_id || null,
-      data.notes || null
+      customerId || null,
+      allocations.length === 1 ? allocations[0].invoice.id : null,
+      data.notes || null,
+      currencyCode,
+      paymentRate,
+      isForeign ? data.amount : null,
+      unapplied,
+      cashAccount.id
     );
 
     const paymentId = result.lastInsertRowid as number;
-
-    // Update invoice if linked
-    if (data.invoice_id) {
-      recordPaymentToInvoice(data.invoice_id, data.amount);
-    }
+    const description = `Payment received ${data.reference ? `- ${data.reference}` : ""}`;
 
     // Create journal entry for payment received
     const journalLines: CreateJournalLineData[] = [];
 
     // Debit: Cash/Bank
-    const cashAccount = getAccountByCode("1100");
-    if (!cashAccount) {
-      throw new Error("Bank Account (1100) not found. Please ensure chart of accounts is set up.");
-    }
     journalLines.push({
       account_id: cashAccount.id,
-      debit: data.amount,
+      debit: baseAmount,
       credit: 0,
-      description: `Payment received ${data.reference ? `- ${data.reference}` : ""}`,
+      description,
+      ...foreignLineFields(currencyCode, paymentRate, data.amount, 0),
     });
 
-    // Credit: Accounts Receivable
+    // Credit: Accounts Receivable for each invoice, relieved at the invoice's rate
     const arAccount = getAccountByCode("1200");
     if (!arAccount) {
       throw new Error("Accounts Receivable (1200) not found. Please ensure chart of accounts is set up.");
     }
-    journalLines.push({
-      account_id: arAccount.id,
-      debit: 0,
-      credit: data.amount,
-      description: `Payment received ${data.reference ? `- ${data.reference}` : ""}`,
-    });
+    let arRelief = 0;
+    for (const { invoice, amount } of allocations) {
+      const relief = receivableRelief(invoice, amount);
+      arRelief = money.add(arRelief, relief);
+      journalLines.push({
+        account_id: arAccount.id,
+        debit: 0,
+        credit: relief,
+        description: `${description.trim()} - ${invoice.number}`,
+        ...foreignLineFields(currencyCode, invoice.exchange_rate ?? 1, 0, amount),
+      });
+    }
+
+    // Credit: Customer Deposits for the part not allocated
+    if (unapplied > 0) {
+      journalLines.push({
+        account_id: customerDepositsAccountId(),
+        debit: 0,
+        credit: unapplied,
+        description: `Customer credit ${data.reference ? `- ${data.reference}` : ""}`.trim(),
+      });
+    }
+
+    // Realized exchange difference between invoice and payment rates
+    const fxLine = fxGainLossLine(
+      money.subtract(money.subtract(baseAmount, unapplied), arRelief),
+      `Realized FX ${money.subtract(baseAmount, unapplied) >= arRelief ? "gain" : "loss"} - ${allocations.map((a) => a.invoice.number).join(", ") || "payment"}`
+    );
+    if (fxLine) journalLines.push(fxLine);
 
     // Create the journal entry
     const journalEntry = createJournalEntry({
       date,
-      description: `Payment received ${data.reference ? `- ${data.reference}` : ""}`,
+      description,
       reference: data.reference || null,
       entry_type: "standard",
       lines: journalLines,
@@ -125,6 +292,16 @@ export function recordPayment(data: RecordPaymentData): Payment {
       paymentId
     );
 
+    // Settle the invoices
+    const insertAllocation = db.prepare(`
+      INSERT INTO payment_allocations (payment_id, invoice_id, amount, date, journal_entry_id)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    for (const { invoice, amount } of allocations) {
+      recordPaymentToInvoice(invoice.id, amount);
+      insertAllocation.run(paymentId, invoice.id, amount, date, journalEntry.id);
+    }
+
     const payment = getPayment(paymentId)!;
     logAudit("create", "payment", payment.id, null, payment);
 
@@ -132,6 +309,340 @@ export function recordPayment(data: RecordPaymentData): Payment {
   });
 }
 
+// The payment credit or credit note a customer credit comes from
+function creditSource(source: { payment_id?: number; credit_note_id?: number }): {
+  payment?: Payment;
+  note?: Invoice;
+  customer_id?: number;
+  currency_code: string;
+  available: number;
+  label: string;
+} {
+  if (!source.payment_id === !source.credit_note_id) {
+    throw new Error("Choose either a payment or a credit note as the credit");
+  }
+  if (source.payment_id) {
+    const payment = getPayment(source.payment_id);
+    if (!payment || payment.type !== "received") {
+      throw new Error(`Payment not found: ${source.payment_id}`);
+    }
+    return {
+      payment,
+      customer_id: payment.customer_id,
+      currency_code: payment.currency_code || getBaseCurrency(),
+      available: payment.unapplied_amount || 0,
+      label: `Payment ${payment.reference || `#${payment.id}`}`,
+    };
+  }
+
+  const note = getInvoice(source.credit_note_id!);
+  if (!note || note.document_type !== "02") {
+    throw new Error(`Credit note not found: ${source.credit_note_id}`);
+  }
+  if (note.status === "cancelled") {
+    throw new Error(`Credit note ${note.number} is cancelled`);
+  }
+  return {
+    note,
+    customer_id: note.customer_id,
+    currency_code: documentCurrency(note),
+    available: money.subtract(note.total, note.amount_paid),
+    label: `Credit note ${note.number}`,
+  };
+}
+
+/**
+ * Apply a customer's credit to an invoice. Credit from a payment moves from
+ * Customer Deposits to the receivable; a credit note is already in the
+ * receivable, so only an exchange difference between the two rates is posted.
+ */
+export function applyCredit(data: ApplyCreditData): PaymentAllocation {
+  return withTransaction(() => {
+    const db = getDb();
+    const date = data.date || today();
+    assertDateUnlocked(date, "apply a credit on");
+
+    const invoice = getInvoice(data.invoice_id);
+    if (!invoice) {
+      throw new Error(`Invoice not found: ${data.invoice_id}`);
+    }
+    if (invoice.document_type === "02") {
+      throw new Error("Credit can only be applied to invoices and debit notes");
+    }
+    const source = creditSource(data);
+    if (source.customer_id !== invoice.customer_id) {
+      throw new Error(`${source.label} belongs to a different customer`);
+    }
+    if (source.currency_code !== documentCurrency(invoice)) {
+      throw new Error(`${source.label} is in ${source.currency_code}, invoice ${invoice.number} is in ${documentCurrency(invoice)}`);
+    }
+
+    const amount = data.amount ?? Math.min(source.available, money.subtract(invoice.total, invoice.amount_paid));
+    if (amount <= 0) {
+      throw new Error(`Nothing to apply: ${source.label} has ${money.format(source.available)} of credit left`);
+    }
+    if (amount > source.available) {
+      throw new Error(`${source.label} only has ${money.format(source.available)} of credit left`);
+    }
+    if (amount > money.subtract(invoice.total, invoice.amount_paid)) {
+      throw new Error(`Invoice ${invoice.number} only has ${money.format(money.subtract(invoice.total, invoice.amount_paid))} outstanding`);
+    }
+
+    const description = `${source.label} applied to ${invoice.number}`;
+    const arAccount = getAccountByCode("1200");
+    if (!arAccount) {
+      throw new Error("Accounts Receivable (1200) not found. Please ensure chart of accounts is set up.");
+    }
+    const invoiceRelief = receivableRelief(invoice, amount);
+    const journalLines: CreateJournalLineData[] = [];
+
+    if (source.payment) {
+      journalLines.push(
+        { account_id: customerDepositsAccountId(), debit: amount, credit: 0, description },
+        { account_id: arAccount.id, debit: 0, credit: invoiceRelief, description }
+      );
+    } else {
+      const noteRelief = receivableRelief(source.note!, amount);
+      if (!money.isZero(money.subtract(noteRelief, invoiceRelief))) {
+        const currency = documentCurrency(invoice);
+        journalLines.push(
+          {
+            account_id: arAccount.id, debit: noteRelief, credit: 0, description,
+            ...foreignLineFields(currency, source.note!.exchange_rate ?? 1, amount, 0),
+          },
+          {
+            account_id: arAccount.id, debit: 0, credit: invoiceRelief, description,
+            ...foreignLineFields(currency, invoice.exchange_rate ?? 1, 0, amount),
+          }
+        );
+        const fxLine = fxGainLossLine(money.subtract(noteRelief, invoiceRelief), `Realized FX - ${description}`);
+        if (fxLine) journalLines.push(fxLine);
+      }
+    }
+
+    const journalEntry = journalLines.length > 0
+      ? createJournalEntry({ date, description, reference: invoice.number, entry_type: "standard", lines: journalLines })
+      : undefined;
+
+    recordPaymentToInvoice(invoice.id, amount);
+    if (source.payment) {
+      db.prepare("UPDATE payments SET unapplied_amount = ? WHERE id = ?").run(
+        money.subtract(source.available, amount),
+        source.payment.id
+      );
+    } else {
+      recordPaymentToInvoice(source.note!.id, amount);
+    }
+
+    const result = db.prepare(`
+      INSERT INTO payment_allocations (payment_id, credit_note_id, invoice_id, amount, date, journal_entry_id)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(source.payment?.id ?? null, source.note?.id ?? null, invoice.id, amount, date, journalEntry?.id ?? null);
+
+    const allocation = getAllocation(result.lastInsertRowid as number)!;
+    logAudit("apply_credit", "invoice", invoice.id, null, allocation);
+    paymentLogger.info({ invoice: invoice.number, amount, source: source.label }, "Credit applied");
+
+    return allocation;
+  });
+}
+
+/**
+ * Apply a customer's credits to an invoice, oldest first, until the invoice
+ * is settled, the credit runs out, or `amount` has been applied
+ */
+export function applyCustomerCredits(invoiceId: number, options: { amount?: number; date?: string } = {}): PaymentAllocation[] {
+  return withTransaction(() => {
+    const invoice = getInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error(`Invoice not found: ${invoiceId}`);
+    }
+    const currency = documentCurrency(invoice);
+    let remaining = Math.min(options.amount ?? Infinity, money.subtract(invoice.total, invoice.amount_paid));
+
+    const allocations: PaymentAllocation[] = [];
+    for (const credit of getCustomerCredits(invoice.customer_id)) {
+      if (remaining <= 0) break;
+      if (credit.currency_code !== currency) continue;
+      const amount = Math.min(remaining, credit.available);
+      allocations.push(applyCredit({
+        invoice_id: invoice.id,
+        amount,
+        date: options.date,
+        ...(credit.type === "payment" ? { payment_id: credit.id } : { credit_note_id: credit.id }),
+      }));
+      remaining = money.subtract(remaining, amount);
+    }
+    return allocations;
+  });
+}
+
+/**
+ * Pay a customer's credit back to them. Posts Dr Customer Deposits (payment
+ * credit) or Accounts Receivable (credit note) / Cr Bank.
+ */
+export function refundCredit(data: RefundCreditData): Payment {
+  return withTransaction(() => {
+    const db = getDb();
+    const date = data.date || today();
+    const source = creditSource(data);
+
+    const amount = data.amount ?? source.available;
+    if (amount <= 0) {
+      throw new Error(`Nothing to refund: ${source.label} has no credit left`);
+    }
+    if (amount > source.available) {
+      throw new Error(`${source.label} only has ${money.format(source.available)} of credit left`);
+    }
+
+    const isForeign = isForeignCurrency(source.currency_code);
+    const rate = resolveDocumentRate(source.currency_code, date);
+    const baseAmount = toBase(amount, rate);
+    const sourceBase = source.payment ? amount : receivableRelief(source.note!, amount);
+    const cashAccount = resolveBankAccount(data.bank_account);
+
+    const result = db.prepare(`
+      INSERT INTO payments (date, type, amount, method, reference, customer_id, notes, currency_code, exchange_rate, foreign_amount, bank_account_id)
+      VALUES (?, 'sent', ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      date,
+      baseAmount,
+      data.method || "bank",
+      data.reference || null,
+      source.customer_id || null,
+      data.notes || null,
+      source.currency_code,
+      rate,
+      isForeign ? amount : null,
+      cashAccount.id
+    );
+    const refundId = result.lastInsertRowid as number;
+
+    const description = `Refund of ${source.label.charAt(0).toLowerCase()}${source.label.slice(1)}`;
+    const journalLines: CreateJournalLineData[] = [];
+    if (source.payment) {
+      journalLines.push({ account_id: customerDepositsAccountId(), debit: amount, credit: 0, description });
+    } else {
+      const arAccount = getAccountByCode("1200");
+      if (!arAccount) {
+        throw new Error("Accounts Receivable (1200) not found. Please ensure chart of accounts is set up.");
+      }
+      journalLines.push({
+        account_id: arAccount.id, debit: sourceBase, credit: 0, description,
+        ...foreignLineFields(source.currency_code, source.note!.exchange_rate ?? 1, amount, 0),
+      });
+    }
+    journalLines.push({
+      account_id: cashAccount.id, debit: 0, credit: baseAmount, description,
+      ...foreignLineFields(source.currency_code, rate, 0, amount),
+    });
+    const fxLine = fxGainLossLine(money.subtract(sourceBase, baseAmount), `Realized FX - ${description}`);
+    if (fxLine) journalLines.push(fxLine);
+
+    const journalEntry = createJournalEntry({
+      date,
+      description,
+      reference: data.reference || null,
+      entry_type: "standard",
+      lines: journalLines,
+    });
+    db.prepare("UPDATE payments SET journal_entry_id = ? WHERE id = ?").run(journalEntry.id, refundId);
+
+    if (source.payment) {
+      db.prepare("UPDATE payments SET unapplied_amount = ? WHERE id = ?").run(
+        money.subtract(source.available, amount),
+        source.payment.id
+      );
+    } else {
+      recordPaymentToInvoice(source.note!.id, amount);
+    }
+    db.prepare(`
+      INSERT INTO payment_allocations (payment_id, credit_note_id, refund_payment_id, amount, date, journal_entry_id)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(source.payment?.id ?? null, source.note?.id ?? null, refundId, amount, date, journalEntry.id);
+
+    const refund = getPayment(refundId)!;
+    logAudit("refund", "payment", refund.id, null, refund);
+    return refund;
+  });
+}
+
+/**
+ * Unapplied payments and credit notes a customer has to use
+ */
+export function getCustomerCredits(customerId: number): CustomerCredit[] {
+  const db = getDb();
+  const payments = db.prepare(`
+    SELECT id, date, reference, COALESCE(currency_code, ?) as currency_code, amount, unapplied_amount as available
+    FROM payments
+    WHERE customer_id = ? AND type = 'received' AND unapplied_amount > 0
+    ORDER BY date, id
+  `).all(getBaseCurrency(), customerId) as Array<Omit<CustomerCredit, "type">>;
+
+  const notes = db.prepare(`
+    SELECT id, date, number as reference, COALESCE(currency_code, ?) as currency_code, total as amount,
+      ROUND(total - amount_paid, 2) as available
+    FROM invoices
+    WHERE customer_id = ? AND document_type = '02' AND status NOT IN ('draft', 'cancelled') AND total - amount_paid > 0
+    ORDER BY date, id
+  `).all(getBaseCurrency(), customerId) as Array<Omit<CustomerCredit, "type">>;
+
+  return [
+    ...payments.map((p) => ({ ...p, type: "payment" as const })),
+    ...notes.map((n) => ({ ...n, type: "credit_note" as const })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function getAllocation(id: number): PaymentAllocation | undefined {
+  return listAllocations({ id })[0];
+}
+
+/**
+ * Allocations settling an invoice, drawn from a payment, or drawn from a credit note
+ */
+export function listAllocations(filters: {
+  id?: number;
+  invoice_id?: number;
+  payment_id?: number;
+  credit_note_id?: number;
+}): PaymentAllocation[] {
+  const db = getDb();
+
+  let sql = `
+    SELECT
+      pa.*,
+      p.reference as payment_reference,
+      cn.number as credit_note_number,
+      i.number as invoice_number
+    FROM payment_allocations pa
+    LEFT JOIN payments p ON pa.payment_id = p.id
+    LEFT JOIN invoices cn ON pa.credit_note_id = cn.id
+    LEFT JOIN invoices i ON pa.invoice_id = i.id
+    WHERE 1=1
+  `;
+  const params: number[] = [];
+
+  if (filters.id) {
+    sql += " AND pa.id = ?";
+    params.push(filters.id);
+  }
+  if (filters.invoice_id) {
+    sql += " AND pa.invoice_id = ?";
+    params.push(filters.invoice_id);
+  }
+  if (filters.payment_id) {
+    sql += " AND pa.payment_id = ?";
+    params.push(filters.payment_id);
+  }
+  if (filters.credit_note_id) {
+    sql += " AND pa.credit_note_id = ?";
+    params.push(filters.credit_note_id);
+  }
+
+  sql += " ORDER BY pa.date, pa.id";
+  return db.prepare(sql).all(...params) as PaymentAllocation[];
+}
+
 export function recordExpense(data: RecordExpenseData): Payment {
   // Validate amount
   if (data.amount <= 0) {
@@ -140,9 +651,10 @@ export function recordExpense(data: RecordExpenseData): Payment {
 
   return withTransaction(() => {
     const db = getDb();
-    const date = data.date || new Date().toISOString().split("T")[0];
+    const date = data.date || today();
 
     let account: { id: number; code: string; name: string } | undefined;
+    let tracking = data.tracking;
 
     // First, try to find account by provided category
     if (data.category) {
@@ -158,6 +670,10 @@ export function recordExpense(data: RecordExpenseData): Payment {
         account = db.prepare(
           "SELECT id, code, name FROM accounts WHERE id = ?"
         ).get(match.rule.account_id) as { id: number; code: string; name: string } | undefined;
+        if (!tracking && match.rule.tracking_value_id) {
+          const active = db.prepare("SELECT 1 FROM tracking_values WHERE id = ? AND is_active = 1").get(match.rule.tracking_value_id);
+          if (active) tracking = [match.rule.tracking_value_id];
+        }
 
         paymentLogger.info({
           msg: "Auto-categorized expense",
@@ -194,10 +710,12 @@ export function recordExpense(data: RecordExpenseData): Payment {
       throw new Error("No expense account found and auto-categorization failed. Please specify a category.");
     }
 
+    const tax = data.tax_code ? calculateTax(data.amount, data.tax_code, date, { side: "purchases", inclusive: true }) : undefined;
+
     // Create expense record
     const expenseResult = db.prepare(`
-      INSERT INTO expenses (date, vendor_id, account_id, amount, description, reference, notes)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO expenses (date, vendor_id, account_id, amount, description, reference, is_recurring, notes, tax_code, tax_amount, purchase_order_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       date,
       data.vendor_id || null,
@@ -205,23 +723,33 @@ export function recordExpense(data: RecordExpenseData): Payment {
       data.amount,
       data.description || data.category,
       data.reference || null,
-      data.notes || null
+      data.is_recurring ? 1 : 0,
+      data.notes || null,
+      tax?.code ?? null,
+      tax?.tax ?? 0,
+      data.purchase_order_id || null
     );
 
     const expenseId = expenseResult.lastInsertRowid as number;
+    setTrackingAssignments("expense", expenseId, tracking);
 
-    // Create payment record
+    // Create payment record for what leaves the bank, net of tax withheld from a non-resident
+    const withholding = data.withhold === false ? undefined : getWithholding(data.vendor_id, data.amount);
+    const netAmount = money.subtract(data.amount, withholding?.amount ?? 0);
+    const cashAccount = resolveBankAccount(data.bank_account);
     const result = db.prepare(`
-      INSERT INTO payments (date, type, amount, method, reference, vendor_id, account_id, notes)
-      VALUES (?, 'sent', ?, ?, ?, ?, ?, ?)
+      INSERT INTO payments (date, type, amount, method, reference, vendor_id, account_id, notes, bank_account_id, wht_amount)
+      VALUES (?, 'sent', ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       date,
-      data.amount,
+      netAmount,
       data.method || "bank",
       data.reference || null,
       data.vendor_id || null,
       account.id,
-      data.notes || null
+      data.notes || null,
+      cashAccount.id,
+      withholding?.amount ?? 0
     );
 
     const paymentId = result.lastInsertRowid as number;
@@ -229,25 +757,39 @@ export function recordExpense(data: RecordExpenseData): Payment {
     // Create journal entry for expense
     const journalLines: CreateJournalLineData[] = [];
 
-    // Debit: Expense account
+    // Debit: recoverable tax to its account; tax that can't be claimed stays in the expense
+    const recoverable = (tax?.parts || []).filter((part) => part.account_id && part.amount > 0);
     journalLines.push({
       account_id: account.id,
-      debit: data.amount,
+      debit: money.subtract(data.amount, money.sum(recoverable.map((part) => part.amount))),
       credit: 0,
       description: data.description || data.category,
+      tracking,
     });
-
-    // Credit: Cash/Bank
-    const cashAccount = getAccountByCode("1100");
-    if (!cashAccount) {
-      throw new Error("Bank Account (1100) not found. Please ensure chart of accounts is set up.");
+    for (const part of recoverable) {
+      journalLines.push({
+        account_id: part.account_id!,
+        debit: part.amount,
+        credit: 0,
+        description: `${part.code} tax on ${data.description || data.category}`,
+      });
     }
+
+    // Credit: Cash/Bank, and any tax withheld to Withholding Tax Payable
     journalLines.push({
       account_id: cashAccount.id,
       debit: 0,
-      credit: data.amount,
+      credit: netAmount,
       description: `Payment for ${data.description || data.category}`,
     });
+    if (withholding) {
+      journalLines.push({
+        account_id: whtPayableAccountId(),
+        debit: 0,
+        credit: withholding.amount,
+        description: `Withholding tax ${withholding.rate}% (s${withholding.category.section}) on ${data.description || data.category}`,
+      });
+    }
 
     // Create the journal entry
     const journalEntry = createJournalEntry({
@@ -264,6 +806,23 @@ export function recordExpense(data: RecordExpenseData): Payment {
       paymentId
     );
 
+    // Link expense to its payment and journal entry
+    db.prepare("UPDATE expenses SET payment_id = ?, journal_entry_id = ? WHERE id = ?").run(
+      paymentId,
+      journalEntry.id,
+      expenseId
+    );
+    if (withholding) {
+      recordWhtDeduction({
+        payment_id: paymentId,
+        vendor_id: data.vendor_id!,
+        date,
+        withholding,
+        gross_amount: data.amount,
+        wht_amount: withholding.amount,
+      });
+    }
+
     const payment = getPayment(paymentId)!;
     logAudit("create", "expense", payment.id, null, payment);
 
@@ -279,11 +838,15 @@ export function getPayment(id: number): Payment | undefined {
       p.*,
       c.name as customer_name,
       v.name as vendor_name,
-      i.number as invoice_number
+      i.number as invoice_number,
+      b.number as bill_number,
+      ba.name as bank_account_name
     FROM payments p
     LEFT JOIN customers c ON p.customer_id = c.id
     LEFT JOIN vendors v ON p.vendor_id = v.id
     LEFT JOIN invoices i ON p.invoice_id = i.id
+    LEFT JOIN bills b ON p.bill_id = b.id
+    LEFT JOIN accounts ba ON p.bank_account_id = ba.id
     WHERE p.id = ?
   `).get(id) as Payment | undefined;
 }
@@ -294,6 +857,7 @@ export function listPayments(filters?: {
   to_date?: string;
   customer_id?: number;
   vendor_id?: number;
+  bank_account_id?: number;
   limit?: number;
 }): Payment[] {
   const db = getDb();
@@ -303,11 +867,15 @@ export function listPayments(filters?: {
       p.*,
       c.name as customer_name,
       v.name as vendor_name,
-      i.number as invoice_number
+      i.number as invoice_number,
+      b.number as bill_number,
+      ba.name as bank_account_name
     FROM payments p
     LEFT JOIN customers c ON p.customer_id = c.id
     LEFT JOIN vendors v ON p.vendor_id = v.id
     LEFT JOIN invoices i ON p.invoice_id = i.id
+    LEFT JOIN bills b ON p.bill_id = b.id
+    LEFT JOIN accounts ba ON p.bank_account_id = ba.id
     WHERE 1=1
   `;
   const params: unknown[] = [];
@@ -332,6 +900,10 @@ export function listPayments(filters?: {
     sql += " AND p.vendor_id = ?";
     params.push(filters.vendor_id);
   }
+  if (filters?.bank_account_id) {
+    sql += " AND p.bank_account_id = ?";
+    params.push(filters.bank_account_id);
+  }
 
   sql += " ORDER BY p.date DESC, p.id DESC";
 
@@ -0,0 +1,195 @@
+// Statutory contribution and tax tables for payroll (EPF, SOCSO, EIS, PCB).
+// The tables are JSON data files read at runtime: the bundled ones in
+// src/data/payroll, and any in a payroll-tables folder next to the database,
+// which win for the dates they cover. A new year's rates are a new file, not
+// a code change.
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { money } from "../core/currency.js";
+
+export const PAYROLL_TABLES_DIR = "payroll-tables";
+
+const BUNDLED_DIR = fileURLToPath(new URL("../data/payroll", import.meta.url));
+
+export interface ContributionBand {
+  up_to: number | null; // Wage this band applies up to; null for no limit
+  bracket?: number;     // Wages are rounded into brackets of this size; none for the exact wage
+  employee: number;     // Rate (%)
+  employer: number;
+}
+
+export interface ContributionCategory {
+  label: string;
+  min_age?: number;
+  max_age?: number;
+  bands?: ContributionBand[];
+  // Published amounts per wage bracket, used instead of the bands when given
+  table?: Array<{ up_to: number; employee: number; employer: number }>;
+}
+
+export interface ContributionScheme {
+  ceiling?: number; // Wages above this contribute as if they were this
+  basis: "upper" | "midpoint"; // Which point of the wage bracket the rate applies to
+  rounding: "ringgit_up" | "sen_5" | "sen";
+  categories: ContributionCategory[];
+}
+
+export interface PcbSchedule {
+  reliefs: { individual: number; spouse: number; child: number; epf_cap: number };
+  rebate: { up_to: number; individual: number; spouse: number };
+  minimum: number; // Monthly deductions below this are not made
+  brackets: Array<{ from: number; rate: number; tax: number }>; // Tax is due on income up to "from"
+}
+
+export interface PayrollTables {
+  name: string;
+  effective_from: string;
+  source?: string;
+  file?: string; // Where a workspace table was loaded from
+  epf: ContributionScheme;
+  socso: ContributionScheme;
+  eis: ContributionScheme;
+  pcb: PcbSchedule;
+}
+
+export interface Contribution {
+  employee: number;
+  employer: number;
+  category: string;
+}
+
+function validate(tables: PayrollTables, origin: string): PayrollTables {
+  const fail = (message: string) => {
+    throw new Error(`Invalid payroll tables in ${origin}: ${message}`);
+  };
+  if (!tables.name) fail("missing name");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(tables.effective_from || "")) fail("effective_from must be YYYY-MM-DD");
+  for (const scheme of ["epf", "socso", "eis"] as const) {
+    const categories = tables[scheme]?.categories;
+    if (!categories?.length) fail(`${scheme} needs at least one category`);
+    for (const category of categories) {
+      if (!category.bands?.length && !category.table?.length) fail(`${scheme} category "${category.label}" needs bands or a table`);
+    }
+  }
+  if (!tables.pcb?.brackets?.length) fail("pcb needs brackets");
+  return tables;
+}
+
+// Every JSON table in a folder, in file name order
+function readTablesDir(dir: string, origin: (name: string) => string): Array<{ tables: PayrollTables; name: string }> {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir).filter((f) => f.endsWith(".json")).sort().map((name) => {
+    let parsed: PayrollTables;
+    try {
+      parsed = JSON.parse(readFileSync(join(dir, name), "utf-8")) as PayrollTables;
+    } catch (err) {
+      throw new Error(`Invalid payroll tables in ${origin(name)}: ${(err as Error).message}`);
+    }
+    return { tables: validate(parsed, origin(name)), name };
+  });
+}
+
+/**
+ * Every table available, oldest first: the bundled ones and any JSON files
+ * in the workspace payroll-tables folder.
+ */
+export function loadPayrollTables(): PayrollTables[] {
+  const tables = [
+    ...readTablesDir(BUNDLED_DIR, (name) => `bundled ${name}`).map((t) => t.tables),
+    ...readTablesDir(PAYROLL_TABLES_DIR, (name) => join(PAYROLL_TABLES_DIR, name))
+      .map((t) => ({ ...t.tables, file: join(PAYROLL_TABLES_DIR, t.name) })),
+  ];
+
+  // A workspace file with the same start date replaces the bundled one
+  return tables
+    .filter((t, i) => !tables.slice(i + 1).some((later) => later.effective_from === t.effective_from))
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+}
+
+// The tables in force on a date
+export function getPayrollTables(date: string): PayrollTables {
+  const tables = loadPayrollTables().filter((t) => t.effective_from <= date).pop();
+  if (!tables) {
+    throw new Error(`No payroll tables in force on ${date}`);
+  }
+  return tables;
+}
+
+function roundContribution(amount: number, rounding: ContributionScheme["rounding"]): number {
+  const cents = money.round2(amount);
+  if (rounding === "ringgit_up") return Math.ceil(cents);
+  if (rounding === "sen_5") return money.round2(Math.round(cents * 20) / 20);
+  return cents;
+}
+
+/**
+ * Employee and employer contributions on a month's wages. The category is
+ * picked by age (the first one when the age is unknown) and the band by the
+ * actual wage; the rate then applies to the wage bracket, capped at the
+ * ceiling.
+ */
+export function calculateContribution(scheme: ContributionScheme, wage: number, age?: number): Contribution {
+  const category = (age === undefined
+    ? scheme.categories[0]
+    : scheme.categories.find((c) => (c.min_age === undefined || age >= c.min_age) && (c.max_age === undefined || age <= c.max_age))
+  ) ?? scheme.categories[0];
+
+  if (wage <= 0) {
+    return { employee: 0, employer: 0, category: category.label };
+  }
+  const capped = scheme.ceiling !== undefined ? Math.min(wage, scheme.ceiling) : wage;
+
+  if (category.table?.length) {
+    const row = category.table.find((r) => capped <= r.up_to) ?? category.table[category.table.length - 1];
+    return { employee: row.employee, employer: row.employer, category: category.label };
+  }
+
+  const bands = category.bands!;
+  const band = bands.find((b) => b.up_to === null || wage <= b.up_to) ?? bands[bands.length - 1];
+  let basis = capped;
+  if (band.bracket) {
+    const upper = Math.ceil(money.round2(capped) / band.bracket) * band.bracket;
+    basis = scheme.basis === "midpoint" ? upper - band.bracket / 2 : upper;
+  }
+
+  return {
+    employee: roundContribution(basis * band.employee / 100, scheme.rounding),
+    employer: roundContribution(basis * band.employer / 100, scheme.rounding),
+    category: category.label,
+  };
+}
+
+/**
+ * Monthly tax deduction (PCB) for pay that is the same every month: the tax
+ * on a year of it, less reliefs and the EPF relief cap, spread over twelve
+ * months and rounded up to 5 sen. Category 1 is single, 2 married with a
+ * spouse not working, 3 married with a working spouse.
+ */
+export function calculatePcb(
+  schedule: PcbSchedule,
+  data: { monthly_wage: number; epf_employee: number; category: number; children: number }
+): number {
+  const { reliefs, rebate } = schedule;
+  const hasSpouseRelief = data.category === 2;
+  const chargeable = money.subtract(
+    money.multiply(data.monthly_wage, 12),
+    money.sum([
+      Math.min(money.multiply(data.epf_employee, 12), reliefs.epf_cap),
+      reliefs.individual,
+      hasSpouseRelief ? reliefs.spouse : 0,
+      money.multiply(reliefs.child, data.children),
+    ])
+  );
+  if (chargeable <= 0) return 0;
+
+  const bracket = schedule.brackets.filter((b) => chargeable > b.from).pop() ?? schedule.brackets[0];
+  let tax = money.add(bracket.tax, money.percent(chargeable - bracket.from, bracket.rate));
+  if (chargeable <= rebate.up_to) {
+    tax = money.subtract(tax, rebate.individual + (hasSpouseRelief ? rebate.spouse : 0));
+  }
+  if (tax <= 0) return 0;
+
+  const monthly = money.round2(Math.ceil(money.round2(money.round2(tax / 12) * 20)) / 20);
+  return monthly < schedule.minimum ? 0 : monthly;
+}
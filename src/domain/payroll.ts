@@ -0,0 +1,492 @@
+// Monthly payroll: gross pay with EPF, SOCSO, EIS and PCB deductions from the
+// contribution tables, the payroll journal, and paying salaries and the
+// statutory remittances
+import { getDb, logAudit, withTransaction } from "../db/index.js";
+import { createJournalEntry, type CreateJournalLineData } from "./journal.js";
+import { requireAccount } from "./accounts.js";
+import { resolveBankAccount } from "./bank-accounts.js";
+import { getEmployee, type Employee } from "./employees.js";
+import { getPayrollTables, calculateContribution, calculatePcb, type PayrollTables } from "./payroll-tables.js";
+import { money } from "../core/currency.js";
+import { today, assertMonth, daysBetween, monthEnd } from "../core/dates.js";
+
+export type StatutoryScheme = "epf" | "socso" | "eis" | "pcb";
+
+export interface PayrollLine {
+  id: number;
+  run_id: number;
+  employee_id: number;
+  employee_name?: string;
+  employee_number?: string | null;
+  basic: number;
+  allowances: number;
+  gross: number;
+  epf_employee: number;
+  epf_employer: number;
+  socso_employee: number;
+  socso_employer: number;
+  eis_employee: number;
+  eis_employer: number;
+  pcb: number;
+  net: number;
+}
+
+export interface PayrollTotals {
+  employees: number;
+  gross: number;
+  epf_employee: number;
+  epf_employer: number;
+  socso_employee: number;
+  socso_employer: number;
+  eis_employee: number;
+  eis_employer: number;
+  pcb: number;
+  net: number;
+  employer_cost: number; // Gross plus employer contributions
+}
+
+export interface StatutoryRemittance {
+  id: number;
+  run_id: number;
+  period?: string;
+  scheme: StatutoryScheme;
+  amount: number;
+  due_date: string;
+  paid_date?: string | null;
+  reference?: string | null;
+  payment_id?: number | null;
+  journal_entry_id?: number | null;
+  days_left?: number; // Outstanding only; negative once overdue
+}
+
+export interface PayrollRun {
+  id: number;
+  period: string; // YYYY-MM
+  date: string;   // Pay date
+  status: "draft" | "posted" | "paid";
+  tables: string;
+  journal_entry_id?: number | null;
+  payment_id?: number | null;
+  paid_date?: string | null;
+  posted_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  totals: PayrollTotals;
+  lines?: PayrollLine[];
+  remittances?: StatutoryRemittance[];
+}
+
+export interface CreatePayrollRunData {
+  date?: string; // Defaults to the last day of the period
+  // This month's pay where it differs from the monthly salary; everyone else active is paid their salary
+  employees?: Array<{ employee: number | string; basic?: number; allowances?: number }>;
+}
+
+export const STATUTORY_SCHEMES: Record<StatutoryScheme, { label: string; account: string }> = {
+  epf: { label: "EPF", account: "2220" },
+  socso: { label: "SOCSO", account: "2230" },
+  eis: { label: "EIS", account: "2240" },
+  pcb: { label: "PCB", account: "2250" },
+};
+
+const AMOUNT_COLUMNS = [
+  "gross", "epf_employee", "epf_employer", "socso_employee", "socso_employer", "eis_employee", "eis_employer", "pcb", "net",
+] as const;
+
+// Statutory payments are due by the 15th of the month after the wages
+function remittanceDueDate(period: string): string {
+  const [y, m] = period.split("-").map(Number);
+  return new Date(Date.UTC(y, m, 15)).toISOString().split("T")[0];
+}
+
+function ageAt(dateOfBirth: string | undefined, date: string): number | undefined {
+  if (!dateOfBirth) return undefined;
+  const [by, bm, bd] = dateOfBirth.split("-").map(Number);
+  const [y, m, d] = date.split("-").map(Number);
+  return y - by - (m < bm || (m === bm && d < bd) ? 1 : 0);
+}
+
+/**
+ * One employee's pay for a month: contributions on the gross wage by their
+ * age at the end of the month, and PCB on the gross less EPF.
+ */
+export function calculatePayslip(
+  employee: Employee,
+  pay: { basic: number; allowances?: number },
+  tables: PayrollTables,
+  periodEnd: string
+): Omit<PayrollLine, "id" | "run_id" | "employee_name" | "employee_number"> {
+  const basic = money.round2(pay.basic);
+  const allowances = money.round2(pay.allowances ?? 0);
+  if (basic < 0 || allowances < 0) {
+    throw new Error(`Pay for ${employee.name} cannot be negative`);
+  }
+  const gross = money.add(basic, allowances);
+  const age = ageAt(employee.date_of_birth, periodEnd);
+
+  const epf = calculateContribution(tables.epf, gross, age);
+  const socso = calculateContribution(tables.socso, gross, age);
+  const eis = calculateContribution(tables.eis, gross, age);
+  const pcb = calculatePcb(tables.pcb, {
+    monthly_wage: gross,
+    epf_employee: epf.employee,
+    category: employee.pcb_category || 1,
+    children: employee.children || 0,
+  });
+
+  return {
+    employee_id: employee.id,
+    basic,
+    allowances,
+    gross,
+    epf_employee: epf.employee,
+    epf_employer: epf.employer,
+    socso_employee: socso.employee,
+    socso_employer: socso.employer,
+    eis_employee: eis.employee,
+    eis_employer: eis.employer,
+    pcb,
+    net: money.subtract(gross, money.sum([epf.employee, socso.employee, eis.employee, pcb])),
+  };
+}
+
+/**
+ * Work out a month's payroll as a draft: every active employee with a
+ * monthly salary, plus any pay changes for the month. Nothing is posted
+ * until the run is posted.
+ */
+export function createPayrollRun(period: string, data: CreatePayrollRunData = {}): PayrollRun {
+  assertMonth(period);
+
+  return withTransaction(() => {
+    const db = getDb();
+    if (getPayrollRun(period)) {
+      throw new Error(`Payroll for ${period} already exists`);
+    }
+    const periodEnd = monthEnd(period);
+    const date = data.date || periodEnd;
+    const tables = getPayrollTables(periodEnd);
+
+    const pay = new Map<number, { employee: Employee; basic: number; allowances: number }>();
+    const active = db.prepare(
+      "SELECT * FROM employees WHERE is_active = 1 AND monthly_salary > 0 ORDER BY name"
+    ).all() as Employee[];
+    for (const employee of active) {
+      pay.set(employee.id, { employee, basic: employee.monthly_salary, allowances: 0 });
+    }
+    for (const change of data.employees || []) {
+      const employee = getEmployee(change.employee);
+      if (!employee) {
+        throw new Error(`Employee not found: ${change.employee}`);
+      }
+      const current = pay.get(employee.id) || { employee, basic: employee.monthly_salary, allowances: 0 };
+      pay.set(employee.id, {
+        employee,
+        basic: change.basic ?? current.basic,
+        allowances: change.allowances ?? current.allowances,
+      });
+    }
+
+    const slips = [...pay.values()]
+      .map((p) => calculatePayslip(p.employee, p, tables, periodEnd))
+      .filter((slip) => slip.gross > 0);
+    if (slips.length === 0) {
+      throw new Error("No employees to pay: set a monthly salary with oa employee edit <name> --salary <amount>");
+    }
+
+    const result = db.prepare(
+      "INSERT INTO payroll_runs (period, date, tables) VALUES (?, ?, ?)"
+    ).run(period, date, tables.name);
+    const runId = result.lastInsertRowid as number;
+
+    const insertLine = db.prepare(`
+      INSERT INTO payroll_lines (run_id, employee_id, basic, allowances, ${AMOUNT_COLUMNS.join(", ")})
+      VALUES (?, ?, ?, ?, ${AMOUNT_COLUMNS.map(() => "?").join(", ")})
+    `);
+    for (const slip of slips) {
+      insertLine.run(runId, slip.employee_id, slip.basic, slip.allowances, ...AMOUNT_COLUMNS.map((c) => slip[c]));
+    }
+
+    const run = getPayrollRun(runId)!;
+    logAudit("create", "payroll_run", runId, null, { period, date, tables: tables.name, totals: run.totals });
+    return run;
+  });
+}
+
+function totalsFor(runId: number): PayrollTotals {
+  const row = getDb().prepare(`
+    SELECT COUNT(*) as employees, ${AMOUNT_COLUMNS.map((c) => `ROUND(COALESCE(SUM(${c}), 0), 2) as ${c}`).join(", ")}
+    FROM payroll_lines WHERE run_id = ?
+  `).get(runId) as Omit<PayrollTotals, "employer_cost">;
+  return {
+    ...row,
+    employer_cost: money.sum([row.gross, row.epf_employer, row.socso_employer, row.eis_employer]),
+  };
+}
+
+export function getPayrollRun(ref: number | string): PayrollRun | undefined {
+  const db = getDb();
+  const run = (typeof ref === "number"
+    ? db.prepare("SELECT * FROM payroll_runs WHERE id = ?").get(ref)
+    : db.prepare("SELECT * FROM payroll_runs WHERE period = ?").get(ref)) as Omit<PayrollRun, "totals"> | undefined;
+  if (!run) return undefined;
+
+  const lines = db.prepare(`
+    SELECT l.*, e.name as employee_name, e.employee_number
+    FROM payroll_lines l
+    JOIN employees e ON l.employee_id = e.id
+    WHERE l.run_id = ?
+    ORDER BY e.name
+  `).all(run.id) as PayrollLine[];
+
+  return {
+    ...run,
+    totals: totalsFor(run.id),
+    lines,
+    remittances: listStatutoryRemittances({ run_id: run.id }),
+  };
+}
+
+export function listPayrollRuns(): PayrollRun[] {
+  const runs = getDb().prepare("SELECT * FROM payroll_runs ORDER BY period DESC").all() as Array<Omit<PayrollRun, "totals">>;
+  return runs.map((run) => ({ ...run, totals: totalsFor(run.id) }));
+}
+
+function requireRun(ref: number | string): PayrollRun {
+  const run = getPayrollRun(ref);
+  if (!run) {
+    throw new Error(`Payroll run not found: ${ref}`);
+  }
+  return run;
+}
+
+/**
+ * Post a draft run as one journal entry: Dr salaries and employer
+ * contributions / Cr accrued salaries (net pay) and each statutory payable,
+ * and start tracking the remittances due by the 15th of next month.
+ */
+export function postPayrollRun(ref: number | string): PayrollRun {
+  return withTransaction(() => {
+    const db = getDb();
+    const run = requireRun(ref);
+    if (run.status !== "draft") {
+      throw new Error(`Payroll for ${run.period} has already been posted`);
+    }
+    const t = run.totals;
+    const owed: Record<StatutoryScheme, number> = {
+      epf: money.add(t.epf_employee, t.epf_employer),
+      socso: money.add(t.socso_employee, t.socso_employer),
+      eis: money.add(t.eis_employee, t.eis_employer),
+      pcb: t.pcb,
+    };
+
+    const lines: CreateJournalLineData[] = [
+      { account_id: requireAccount("6400", "Salaries & Wages").id, debit: t.gross, credit: 0, description: `Salaries ${run.period}` },
+      { account_id: requireAccount("6410", "EPF - Employer Contribution").id, debit: t.epf_employer, credit: 0, description: `Employer EPF ${run.period}` },
+      {
+        account_id: requireAccount("6420", "SOCSO & EIS - Employer Contribution").id,
+        debit: money.add(t.socso_employer, t.eis_employer),
+        credit: 0,
+        description: `Employer SOCSO and EIS ${run.period}`,
+      },
+      { account_id: requireAccount("2210", "Accrued Salaries").id, debit: 0, credit: t.net, description: `Net salaries ${run.period}` },
+      ...(Object.keys(STATUTORY_SCHEMES) as StatutoryScheme[]).map((scheme) => ({
+        account_id: requireAccount(STATUTORY_SCHEMES[scheme].account, `${STATUTORY_SCHEMES[scheme].label} Payable`).id,
+        debit: 0,
+        credit: owed[scheme],
+        description: `${STATUTORY_SCHEMES[scheme].label} ${run.period}`,
+      })),
+    ].filter((line) => line.debit > 0 || line.credit > 0);
+
+    const entry = createJournalEntry({
+      date: run.date,
+      description: `Payroll ${run.period} (${t.employees} employee${t.employees === 1 ? "" : "s"})`,
+      reference: `PAYROLL-${run.period}`,
+      entry_type: "standard",
+      lines,
+    });
+
+    const dueDate = remittanceDueDate(run.period);
+    const insertRemittance = db.prepare(
+      "INSERT INTO payroll_remittances (run_id, scheme, amount, due_date) VALUES (?, ?, ?, ?)"
+    );
+    for (const scheme of Object.keys(owed) as StatutoryScheme[]) {
+      if (owed[scheme] > 0) insertRemittance.run(run.id, scheme, owed[scheme], dueDate);
+    }
+
+    db.prepare(`
+      UPDATE payroll_runs
+      SET status = 'posted', journal_entry_id = ?, posted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(entry.id, run.id);
+
+    logAudit("post", "payroll_run", run.id, { status: "draft" }, { status: "posted", journal_entry_id: entry.id });
+    return getPayrollRun(run.id)!;
+  });
+}
+
+/**
+ * Delete a draft run, e.g. to run it again after changing salaries.
+ * Posted runs are part of the books and stay.
+ */
+export function deletePayrollRun(ref: number | string): { success: boolean; error?: string } {
+  const run = getPayrollRun(ref);
+  if (!run) {
+    return { success: false, error: "Payroll run not found" };
+  }
+  if (run.status !== "draft") {
+    return { success: false, error: `Payroll for ${run.period} has been posted and cannot be deleted` };
+  }
+
+  getDb().prepare("DELETE FROM payroll_runs WHERE id = ?").run(run.id);
+  logAudit("delete", "payroll_run", run.id, { period: run.period, totals: run.totals }, null);
+  return { success: true };
+}
+
+// Record a bank payment clearing a payroll liability: Dr liability / Cr bank
+function payLiability(data: {
+  liability_id: number;
+  amount: number;
+  date: string;
+  bank_account?: number | string;
+  method?: "cash" | "bank" | "card" | "check" | "other";
+  reference: string;
+  description: string;
+}): { payment_id: number; journal_entry_id: number } {
+  const db = getDb();
+  const bank = resolveBankAccount(data.bank_account);
+  const payment = db.prepare(`
+    INSERT INTO payments (date, type, amount, method, reference, account_id, notes, bank_account_id)
+    VALUES (?, 'sent', ?, ?, ?, ?, ?, ?)
+  `).run(data.date, data.amount, data.method || "bank", data.reference, data.liability_id, data.description, bank.id);
+  const paymentId = payment.lastInsertRowid as number;
+
+  const entry = createJournalEntry({
+    date: data.date,
+    description: data.description,
+    reference: data.reference,
+    entry_type: "standard",
+    lines: [
+      { account_id: data.liability_id, debit: data.amount, credit: 0, description: data.description },
+      { account_id: bank.id, debit: 0, credit: data.amount, description: data.description },
+    ],
+  });
+  db.prepare("UPDATE payments SET journal_entry_id = ? WHERE id = ?").run(entry.id, paymentId);
+  return { payment_id: paymentId, journal_entry_id: entry.id };
+}
+
+// Pay the net salaries of a posted run in one bank payment
+export function payPayrollRun(
+  ref: number | string,
+  data: { date?: string; bank_account?: number | string; method?: "cash" | "bank" | "card" | "check" | "other"; reference?: string } = {}
+): PayrollRun {
+  return withTransaction(() => {
+    const run = requireRun(ref);
+    if (run.status === "draft") {
+      throw new Error(`Post the payroll for ${run.period} before paying it`);
+    }
+    if (run.status === "paid") {
+      throw new Error(`Salaries for ${run.period} have already been paid`);
+    }
+    const date = data.date || run.date;
+
+    const paid = payLiability({
+      liability_id: requireAccount("2210", "Accrued Salaries").id,
+      amount: run.totals.net,
+      date,
+      bank_account: data.bank_account,
+      method: data.method,
+      reference: data.reference || `SALARY-${run.period}`,
+      description: `Salaries paid ${run.period}`,
+    });
+
+    getDb().prepare(`
+      UPDATE payroll_runs SET status = 'paid', paid_date = ?, payment_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(date, paid.payment_id, run.id);
+
+    logAudit("pay", "payroll_run", run.id, { status: run.status }, { status: "paid", amount: run.totals.net });
+    return getPayrollRun(run.id)!;
+  });
+}
+
+/**
+ * Pay one month's EPF, SOCSO, EIS or PCB to the agency, employee and
+ * employer shares together.
+ */
+export function remitStatutory(
+  ref: number | string,
+  scheme: StatutoryScheme,
+  data: { date?: string; bank_account?: number | string; method?: "cash" | "bank" | "card" | "check" | "other"; reference?: string } = {}
+): StatutoryRemittance {
+  if (!STATUTORY_SCHEMES[scheme]) {
+    throw new Error(`Unknown scheme "${scheme}": use epf, socso, eis or pcb`);
+  }
+
+  return withTransaction(() => {
+    const run = requireRun(ref);
+    const remittance = run.remittances!.find((r) => r.scheme === scheme);
+    if (!remittance) {
+      throw new Error(run.status === "draft"
+        ? `Post the payroll for ${run.period} before remitting it`
+        : `Nothing to remit for ${STATUTORY_SCHEMES[scheme].label} in ${run.period}`);
+    }
+    if (remittance.paid_date) {
+      throw new Error(`${STATUTORY_SCHEMES[scheme].label} for ${run.period} was remitted on ${remittance.paid_date}`);
+    }
+    const date = data.date || today();
+    const { label, account } = STATUTORY_SCHEMES[scheme];
+
+    const paid = payLiability({
+      liability_id: requireAccount(account, `${label} Payable`).id,
+      amount: remittance.amount,
+      date,
+      bank_account: data.bank_account,
+      method: data.method,
+      reference: data.reference || `${label}-${run.period}`,
+      description: `${label} remitted for ${run.period}`,
+    });
+
+    getDb().prepare(`
+      UPDATE payroll_remittances SET paid_date = ?, reference = ?, payment_id = ?, journal_entry_id = ? WHERE id = ?
+    `).run(date, data.reference || null, paid.payment_id, paid.journal_entry_id, remittance.id);
+
+    logAudit("remit", "payroll_remittance", remittance.id, null, { period: run.period, scheme, amount: remittance.amount });
+    return listStatutoryRemittances({ run_id: run.id }).find((r) => r.id === remittance.id)!;
+  });
+}
+
+/**
+ * Statutory remittances from posted runs, with the days left before each
+ * is due when still outstanding.
+ */
+export function listStatutoryRemittances(filters: {
+  run_id?: number;
+  status?: "outstanding" | "overdue" | "paid";
+  as_of?: string;
+} = {}): StatutoryRemittance[] {
+  const asOf = filters.as_of || today();
+  let sql = `
+    SELECT r.*, p.period
+    FROM payroll_remittances r
+    JOIN payroll_runs p ON r.run_id = p.id
+    WHERE 1=1
+  `;
+  const params: unknown[] = [];
+
+  if (filters.run_id) {
+    sql += " AND r.run_id = ?";
+    params.push(filters.run_id);
+  }
+  if (filters.status === "outstanding") {
+    sql += " AND r.paid_date IS NULL";
+  } else if (filters.status === "overdue") {
+    sql += " AND r.paid_date IS NULL AND r.due_date < ?";
+    params.push(asOf);
+  } else if (filters.status === "paid") {
+    sql += " AND r.paid_date IS NOT NULL";
+  }
+
+  sql += " ORDER BY r.due_date, r.id";
+  const rows = getDb().prepare(sql).all(...params) as StatutoryRemittance[];
+  return rows.map((r) => (r.paid_date ? r : { ...r, days_left: daysBetween(asOf, r.due_date) }));
+}
@@ -0,0 +1,295 @@
+// Fiscal periods, lock dates and year-end close
+import { getDb, getSetting, setSetting, logAudit, withTransaction } from "../db/index.js";
+import {
+  createJournalEntry,
+  getJournalEntriesByReference,
+  getLockDate,
+  type CreateJournalLineData,
+} from "./journal.js";
+import { getAccountByCode } from "./accounts.js";
+import { getFiscalYearRange } from "../core/localization.js";
+import { logger } from "../core/logger.js";
+import { money } from "../core/currency.js";
+import { today, assertIsoDate, addDays } from "../core/dates.js";
+
+const periodLogger = logger.child({ module: "periods" });
+
+export interface FiscalPeriod {
+  id: number;
+  fiscal_year: number;
+  period_number: number;
+  name: string;
+  start_date: string;
+  end_date: string;
+  status: "open" | "closed";
+  closed_at?: string;
+  created_at: string;
+}
+
+export interface PeriodCloseResult {
+  lock_date: string;
+  previous_lock_date: string | null;
+  entries_locked: number;
+  periods_closed: number;
+}
+
+export interface PeriodReopenResult {
+  lock_date: string;
+  previous_lock_date: string;
+  entries_unlocked: number;
+  periods_reopened: number;
+}
+
+export interface YearEndCloseResult extends PeriodCloseResult {
+  fiscal_year: number;
+  start_date: string;
+  end_date: string;
+  net_income: number;
+  journal_entry_id: number | null;
+}
+
+/**
+ * Fiscal year a date belongs to (named by the calendar year it ends in)
+ */
+export function getFiscalYearForDate(date: string): number {
+  const fiscalYearEnd = parseInt(getSetting("fiscal_year_end") || "12", 10);
+  const year = parseInt(date.slice(0, 4), 10);
+  const month = parseInt(date.slice(5, 7), 10);
+  return month > fiscalYearEnd ? year + 1 : year;
+}
+
+/**
+ * Create the twelve monthly periods of a fiscal year if they don't exist yet
+ */
+export function ensureFiscalPeriods(fiscalYear: number): FiscalPeriod[] {
+  const db = getDb();
+  const range = getFiscalYearRange(fiscalYear);
+
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO fiscal_periods (fiscal_year, period_number, name, start_date, end_date)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const [startYear, startMonth] = range.start.split("-").map((p) => parseInt(p, 10));
+  for (let i = 0; i < 12; i++) {
+    const monthIndex = startMonth - 1 + i;
+    const year = startYear + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const mm = String(month).padStart(2, "0");
+    insert.run(fiscalYear, i + 1, `${year}-${mm}`, `${year}-${mm}-01`, `${year}-${mm}-${String(lastDay).padStart(2, "0")}`);
+  }
+
+  // Periods created after a close inherit the lock
+  const lockDate = getLockDate();
+  if (lockDate) {
+    db.prepare(`
+      UPDATE fiscal_periods SET status = 'closed', closed_at = COALESCE(closed_at, CURRENT_TIMESTAMP)
+      WHERE fiscal_year = ? AND end_date <= ? AND status = 'open'
+    `).run(fiscalYear, lockDate);
+  }
+
+  return listFiscalPeriods(fiscalYear);
+}
+
+export function listFiscalPeriods(fiscalYear?: number): FiscalPeriod[] {
+  const db = getDb();
+
+  if (fiscalYear !== undefined) {
+    return db.prepare(
+      "SELECT * FROM fiscal_periods WHERE fiscal_year = ? ORDER BY period_number"
+    ).all(fiscalYear) as FiscalPeriod[];
+  }
+
+  return db.prepare("SELECT * FROM fiscal_periods ORDER BY start_date").all() as FiscalPeriod[];
+}
+
+export function getFiscalPeriodForDate(date: string): FiscalPeriod | undefined {
+  assertIsoDate(date);
+  ensureFiscalPeriods(getFiscalYearForDate(date));
+
+  const db = getDb();
+  return db.prepare(
+    "SELECT * FROM fiscal_periods WHERE start_date <= ? AND end_date >= ?"
+  ).get(date, date) as FiscalPeriod | undefined;
+}
+
+/**
+ * Close the books through a date
+ * Moves the lock date forward, locks every journal entry on or before it and
+ * marks fully-covered fiscal periods as closed.
+ */
+export function closePeriod(throughDate: string): PeriodCloseResult {
+  assertIsoDate(throughDate);
+
+  if (throughDate > today()) {
+    throw new Error(`Cannot close a period that has not ended yet (${throughDate})`);
+  }
+
+  const previousLock = getLockDate();
+  if (previousLock && throughDate <= previousLock) {
+    throw new Error(`The books are already locked through ${previousLock}`);
+  }
+
+  return withTransaction(() => {
+    const db = getDb();
+
+    // Make sure every fiscal year up to the close date has its periods
+    const firstEntry = db.prepare("SELECT MIN(date) as date FROM journal_entries").get() as { date: string | null };
+    const fromYear = getFiscalYearForDate(firstEntry.date && firstEntry.date < throughDate ? firstEntry.date : throughDate);
+    for (let year = fromYear; year <= getFiscalYearForDate(throughDate); year++) {
+      ensureFiscalPeriods(year);
+    }
+
+    const locked = db.prepare(
+      "UPDATE journal_entries SET is_locked = 1 WHERE date <= ? AND is_locked = 0"
+    ).run(throughDate);
+
+    const closed = db.prepare(`
+      UPDATE fiscal_periods SET status = 'closed', closed_at = CURRENT_TIMESTAMP
+      WHERE end_date <= ? AND status = 'open'
+    `).run(throughDate);
+
+    setSetting("lock_date", throughDate);
+    logAudit("close_period", "fiscal_period", null, { lock_date: previousLock }, { lock_date: throughDate });
+    periodLogger.info({ throughDate, entries: locked.changes }, "Period closed");
+
+    return {
+      lock_date: throughDate,
+      previous_lock_date: previousLock,
+      entries_locked: locked.changes,
+      periods_closed: closed.changes,
+    };
+  });
+}
+
+/**
+ * Reopen the books from a date onwards
+ * Moves the lock date back to the day before and unlocks later entries.
+ * A reason is required and kept in the audit log.
+ */
+export function reopenPeriod(fromDate: string, reason: string): PeriodReopenResult {
+  assertIsoDate(fromDate);
+
+  if (!reason || reason.trim().length === 0) {
+    throw new Error("A reason is required to reopen a closed period");
+  }
+
+  const previousLock = getLockDate();
+  if (!previousLock || fromDate > previousLock) {
+    throw new Error(`${fromDate} is not in a closed period`);
+  }
+
+  return withTransaction(() => {
+    const db = getDb();
+    const newLock = addDays(fromDate, -1);
+
+    const unlocked = db.prepare(
+      "UPDATE journal_entries SET is_locked = 0 WHERE date >= ? AND is_locked = 1"
+    ).run(fromDate);
+
+    const reopened = db.prepare(`
+      UPDATE fiscal_periods SET status = 'open', closed_at = NULL
+      WHERE end_date >= ? AND status = 'closed'
+    `).run(fromDate);
+
+    setSetting("lock_date", newLock);
+    logAudit("reopen_period", "fiscal_period", null, { lock_date: previousLock }, { lock_date: newLock, reason: reason.trim() });
+    periodLogger.warn({ fromDate, reason }, "Period reopened");
+
+    return {
+      lock_date: newLock,
+      previous_lock_date: previousLock,
+      entries_unlocked: unlocked.changes,
+      periods_reopened: reopened.changes,
+    };
+  });
+}
+
+/**
+ * Year-end close
+ * Posts a closing entry on the last day of the fiscal year that zeroes every
+ * income and expense account into Retained Earnings (3100), then closes the
+ * books through that date.
+ */
+export function closeFiscalYear(fiscalYear: number): YearEndCloseResult {
+  const range = getFiscalYearRange(fiscalYear);
+  const reference = `YE-FY${fiscalYear}`;
+
+  if (getJournalEntriesByReference(reference).length > 0) {
+    throw new Error(`Fiscal year ${fiscalYear} already has a closing entry`);
+  }
+
+  const lockDate = getLockDate();
+  if (lockDate && lockDate >= range.end) {
+    throw new Error(`The books are already locked through ${lockDate}. Reopen the year before closing it.`);
+  }
+
+  const retainedEarnings = getAccountByCode("3100");
+  if (!retainedEarnings) {
+    throw new Error("Retained Earnings account (3100) not found. Please ensure chart of accounts is set up.");
+  }
+
+  return withTransaction(() => {
+    const db = getDb();
+
+    const balances = db.prepare(`
+      SELECT a.id, a.type, COALESCE(SUM(jl.debit), 0) - COALESCE(SUM(jl.credit), 0) as net_debit
+      FROM accounts a
+      JOIN journal_lines jl ON jl.account_id = a.id
+      JOIN journal_entries je ON je.id = jl.entry_id
+      WHERE a.type IN ('income', 'expense')
+        AND je.date >= ? AND je.date <= ?
+        AND je.entry_type != 'closing'
+      GROUP BY a.id, a.type
+    `).all(range.start, range.end) as Array<{ id: number; type: string; net_debit: number }>;
+
+    // Reverse each account's balance; the net lands in retained earnings
+    const lines: CreateJournalLineData[] = [];
+    let netIncome = 0;
+    for (const row of balances) {
+      const netDebit = money.round2(row.net_debit);
+      if (money.isZero(netDebit)) continue;
+      netIncome = money.subtract(netIncome, netDebit);
+      lines.push({
+        account_id: row.id,
+        debit: netDebit < 0 ? Math.abs(netDebit) : 0,
+        credit: netDebit > 0 ? netDebit : 0,
+        description: `Close FY${fiscalYear} ${row.type}`,
+      });
+    }
+
+    let journalEntryId: number | null = null;
+    if (lines.length > 0 && !money.isZero(netIncome)) {
+      lines.push({
+        account_id: retainedEarnings.id,
+        debit: netIncome < 0 ? Math.abs(netIncome) : 0,
+        credit: netIncome > 0 ? netIncome : 0,
+        description: `FY${fiscalYear} net ${netIncome >= 0 ? "income" : "loss"}`,
+      });
+    }
+
+    if (lines.length >= 2) {
+      const entry = createJournalEntry({
+        date: range.end,
+        description: `Year-end close FY${fiscalYear}`,
+        reference,
+        entry_type: "closing",
+        lines,
+      });
+      journalEntryId = entry.id;
+    }
+
+    const closed = closePeriod(range.end);
+    logAudit("close_year", "fiscal_period", journalEntryId, null, { fiscal_year: fiscalYear, net_income: netIncome });
+
+    return {
+      ...closed,
+      fiscal_year: fiscalYear,
+      start_date: range.start,
+      end_date: range.end,
+      net_income: netIncome,
+      journal_entry_id: journalEntryId,
+    };
+  });
+}
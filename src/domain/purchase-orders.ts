@@ -0,0 +1,581 @@
+import { getDb, getSetting, setSetting, logAudit, withTransaction } from "../db/index.js";
+import { createBill, getBill, type Bill } from "./bills.js";
+import { recordExpense, type Payment } from "./payments.js";
+import { calculateTax } from "./tax-codes.js";
+import { requireActiveItem, type ItemType } from "./items.js";
+import { getBaseCurrency } from "./exchange-rates.js";
+import { money } from "../core/currency.js";
+import { today } from "../core/dates.js";
+
+export interface PurchaseOrderItem {
+  id: number;
+  purchase_order_id: number;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  account_id?: number | null; // Left to the bill's defaults when not given
+  account_code?: string | null;
+  item_id?: number | null;
+  sku?: string | null;
+  item_type?: ItemType | null;
+  tax_code?: string | null;
+  tax_rate: number;
+  tax_amount: number;
+  quantity_received: number;
+  quantity_billed: number; // On bills that have not been cancelled
+  sort_order: number;
+}
+
+// Open until something is received or billed, closed once fully billed or closed by hand
+export type PurchaseOrderStatus = "open" | "partial" | "closed" | "cancelled";
+
+export interface PurchaseOrder {
+  id: number;
+  number: string;
+  vendor_id: number;
+  vendor_name?: string;
+  date: string;
+  expected_date?: string | null;
+  status: PurchaseOrderStatus;
+  subtotal: number;
+  tax_amount: number;
+  total: number;
+  currency_code?: string;
+  notes?: string | null;
+  closed_at?: string | null;
+  items?: PurchaseOrderItem[];
+  committed?: number; // Ordered but not yet billed, including tax
+  bills?: Array<{ id: number; number: string; status: Bill["status"]; total: number }>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePurchaseOrderData {
+  vendor_id: number;
+  date?: string;
+  expected_date?: string;
+  items: Array<{
+    description?: string; // Defaults to the catalog item's name
+    quantity?: number;
+    unit_price?: number;  // Defaults to the catalog item's purchase price
+    account?: string;     // Expense account code or name
+    item?: number | string; // Catalog item id or SKU
+    tax_code?: string;    // Tax charged on top of the line
+  }>;
+  currency_code?: string;
+  notes?: string;
+}
+
+// Quantities to receive or bill, by line number (1-based) on the order
+export interface PurchaseOrderLineQuantity {
+  line: number;
+  quantity: number;
+  unit_price?: number; // Billing only: the price on the vendor's invoice
+}
+
+export type MatchExceptionKind = "price" | "not_received" | "over_ordered" | "not_on_order";
+
+export interface MatchException {
+  kind: MatchExceptionKind;
+  description: string;
+  message: string;
+}
+
+export interface BillMatch {
+  bill_id: number;
+  bill_number: string;
+  purchase_order_id: number;
+  purchase_order_number: string;
+  exceptions: MatchException[];
+}
+
+// Price deviation in percent and quantity overrun in percent, from settings
+function matchTolerances(): { price: number; quantity: number } {
+  return {
+    price: parseFloat(getSetting("po_price_tolerance") || "5"),
+    quantity: parseFloat(getSetting("po_quantity_tolerance") || "0"),
+  };
+}
+
+function resolveAccountId(account: string, description: string): number {
+  const row = getDb().prepare(
+    "SELECT id FROM accounts WHERE code = ? OR LOWER(name) = LOWER(?)"
+  ).get(account, account) as { id: number } | undefined;
+  if (!row) {
+    throw new Error(`Account "${account}" not found for order line "${description}"`);
+  }
+  return row.id;
+}
+
+// What is left to pay for on the order, tax included
+function committedValue(items: PurchaseOrderItem[]): number {
+  return money.sum(items.map((item) => {
+    const open = Math.max(0, item.quantity - item.quantity_billed);
+    return open === 0 ? 0 : money.multiply(money.add(item.amount, item.tax_amount), open / item.quantity);
+  }));
+}
+
+function deriveStatus(stored: string, items: PurchaseOrderItem[]): PurchaseOrderStatus {
+  if (stored === "cancelled" || stored === "closed") return stored;
+  if (items.every((item) => item.quantity_billed >= item.quantity)) return "closed";
+  if (items.some((item) => item.quantity_received > 0 || item.quantity_billed > 0)) return "partial";
+  return "open";
+}
+
+/**
+ * Create a purchase order. Like quotes, orders are commitments rather than
+ * accounting documents: nothing reaches the ledger until the order is
+ * billed or paid as an expense.
+ */
+export function createPurchaseOrder(data: CreatePurchaseOrderData): PurchaseOrder {
+  return withTransaction(() => {
+    const db = getDb();
+
+    const vendor = db.prepare("SELECT id FROM vendors WHERE id = ?").get(data.vendor_id);
+    if (!vendor) {
+      throw new Error(`Vendor with ID ${data.vendor_id} not found`);
+    }
+    if (!data.items || data.items.length === 0) {
+      throw new Error("Purchase order must have at least one line item");
+    }
+
+    const date = data.date || today();
+    if (data.expected_date && data.expected_date < date) {
+      throw new Error("Expected date cannot be before order date");
+    }
+
+    const items = data.items.map((item) => {
+      const catalog = item.item !== undefined ? requireActiveItem(item.item) : undefined;
+      const description = item.description || catalog?.name;
+      if (!description) {
+        throw new Error("Each order line needs a description or a catalog item");
+      }
+      const quantity = item.quantity ?? 1;
+      const unitPrice = item.unit_price ?? catalog?.purchase_price ?? undefined;
+      if (quantity <= 0) {
+        throw new Error(`Invalid quantity for item "${description}": must be greater than 0`);
+      }
+      if (unitPrice === undefined) {
+        throw new Error(`Missing unit price for item "${description}"`);
+      }
+      if (unitPrice < 0) {
+        throw new Error(`Invalid unit price for item "${description}": cannot be negative`);
+      }
+      const amount = money.multiply(quantity, unitPrice);
+      const tax = item.tax_code ? calculateTax(amount, item.tax_code, date, { side: "purchases" }) : undefined;
+      return {
+        description,
+        quantity,
+        unit_price: unitPrice,
+        amount,
+        account_id: item.account ? resolveAccountId(item.account, description) : null,
+        item_id: catalog?.id ?? null,
+        tax_code: tax?.code ?? null,
+        tax_rate: tax?.rate ?? 0,
+        tax_amount: tax?.tax ?? 0,
+      };
+    });
+
+    // Get next order number
+    const prefix = getSetting("po_prefix") || "PO";
+    const nextNum = parseInt(getSetting("next_po_number") || "1");
+    const number = `${prefix}-${String(nextNum).padStart(4, "0")}`;
+    setSetting("next_po_number", String(nextNum + 1));
+
+    const subtotal = money.sum(items.map((item) => item.amount));
+    const taxAmount = money.sum(items.map((item) => item.tax_amount));
+    const total = money.add(subtotal, taxAmount);
+    const currencyCode = (data.currency_code || getBaseCurrency()).toUpperCase();
+
+    const result = db.prepare(`
+      INSERT INTO purchase_orders (number, vendor_id, date, expected_date, subtotal, tax_amount, total, currency_code, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(number, data.vendor_id, date, data.expected_date || null, subtotal, taxAmount, total, currencyCode, data.notes || null);
+
+    const orderId = result.lastInsertRowid as number;
+
+    const insertItem = db.prepare(`
+      INSERT INTO purchase_order_items (purchase_order_id, description, quantity, unit_price, amount, account_id, item_id, tax_code, tax_rate, tax_amount, sort_order)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    items.forEach((item, index) => {
+      insertItem.run(
+        orderId, item.description, item.quantity, item.unit_price, item.amount, item.account_id,
+        item.item_id, item.tax_code, item.tax_rate, item.tax_amount, index
+      );
+    });
+
+    const order = getPurchaseOrder(orderId)!;
+    logAudit("create", "purchase_order", order.id, null, order);
+
+    return order;
+  });
+}
+
+export function getPurchaseOrder(idOrNumber: number | string): PurchaseOrder | undefined {
+  const db = getDb();
+
+  const order = db.prepare(`
+    SELECT po.*, v.name as vendor_name
+    FROM purchase_orders po
+    JOIN vendors v ON po.vendor_id = v.id
+    WHERE ${typeof idOrNumber === "number" ? "po.id" : "po.number"} = ?
+  `).get(idOrNumber) as PurchaseOrder | undefined;
+
+  if (!order) return undefined;
+
+  const items = db.prepare(`
+    SELECT poi.*, a.code as account_code, i.sku, i.type as item_type,
+      COALESCE((
+        SELECT SUM(bi.quantity) FROM bill_items bi
+        JOIN bills b ON bi.bill_id = b.id
+        WHERE bi.po_item_id = poi.id AND b.status != 'cancelled'
+      ), 0) as quantity_billed
+    FROM purchase_order_items poi
+    LEFT JOIN accounts a ON poi.account_id = a.id
+    LEFT JOIN items i ON poi.item_id = i.id
+    WHERE poi.purchase_order_id = ?
+    ORDER BY poi.sort_order
+  `).all(order.id) as PurchaseOrderItem[];
+
+  order.items = items;
+  order.status = deriveStatus(order.status, items);
+  order.committed = order.status === "open" || order.status === "partial" ? committedValue(items) : 0;
+  order.bills = db.prepare(`
+    SELECT id, number, status, total FROM bills WHERE purchase_order_id = ? ORDER BY date, id
+  `).all(order.id) as PurchaseOrder["bills"];
+
+  return order;
+}
+
+export function listPurchaseOrders(filters?: {
+  status?: PurchaseOrderStatus;
+  vendor_id?: number;
+  from_date?: string;
+  to_date?: string;
+  limit?: number;
+}): PurchaseOrder[] {
+  const db = getDb();
+
+  let sql = "SELECT id FROM purchase_orders WHERE 1=1";
+  const params: unknown[] = [];
+
+  if (filters?.vendor_id) {
+    sql += " AND vendor_id = ?";
+    params.push(filters.vendor_id);
+  }
+  if (filters?.from_date) {
+    sql += " AND date >= ?";
+    params.push(filters.from_date);
+  }
+  if (filters?.to_date) {
+    sql += " AND date <= ?";
+    params.push(filters.to_date);
+  }
+
+  sql += " ORDER BY date DESC, id DESC";
+
+  // Status depends on what has been received and billed, so filter after loading
+  const orders = (db.prepare(sql).all(...params) as Array<{ id: number }>)
+    .map((row) => getPurchaseOrder(row.id)!)
+    .filter((order) => !filters?.status || order.status === filters.status);
+
+  return filters?.limit ? orders.slice(0, filters.limit) : orders;
+}
+
+function requireOrder(idOrNumber: number | string): PurchaseOrder {
+  const order = getPurchaseOrder(idOrNumber);
+  if (!order) {
+    throw new Error(`Purchase order not found: ${idOrNumber}`);
+  }
+  return order;
+}
+
+function requireOpenOrder(idOrNumber: number | string): PurchaseOrder {
+  const order = requireOrder(idOrNumber);
+  if (order.status === "cancelled" || order.status === "closed") {
+    throw new Error(`Purchase order ${order.number} is ${order.status}`);
+  }
+  return order;
+}
+
+function orderLine(order: PurchaseOrder, line: number): PurchaseOrderItem {
+  const item = order.items![line - 1];
+  if (!item) {
+    throw new Error(`Purchase order ${order.number} has no line ${line}`);
+  }
+  return item;
+}
+
+/**
+ * Record goods or services received against an order. Without lines,
+ * everything still outstanding is received. Receipts post nothing: stock
+ * reaches the books when the vendor's bill is approved.
+ */
+export function receivePurchaseOrder(
+  idOrNumber: number | string,
+  lines?: PurchaseOrderLineQuantity[]
+): PurchaseOrder {
+  return withTransaction(() => {
+    const db = getDb();
+    const order = requireOpenOrder(idOrNumber);
+
+    const receipts = lines
+      ? lines.map((entry) => ({ item: orderLine(order, entry.line), quantity: entry.quantity }))
+      : order.items!.map((item) => ({ item, quantity: money.subtract(item.quantity, item.quantity_received) }));
+
+    let received = 0;
+    for (const { item, quantity } of receipts) {
+      if (quantity < 0) {
+        throw new Error(`Invalid quantity for item "${item.description}": cannot be negative`);
+      }
+      const outstanding = money.subtract(item.quantity, item.quantity_received);
+      if (quantity > outstanding) {
+        throw new Error(`Cannot receive ${quantity} of "${item.description}": only ${outstanding} outstanding`);
+      }
+      if (quantity === 0) continue;
+      db.prepare(
+        "UPDATE purchase_order_items SET quantity_received = quantity_received + ? WHERE id = ?"
+      ).run(quantity, item.id);
+      received++;
+    }
+    if (received === 0) {
+      throw new Error(`Nothing left to receive on purchase order ${order.number}`);
+    }
+
+    db.prepare("UPDATE purchase_orders SET updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(order.id);
+    logAudit("receive", "purchase_order", order.id, null, receipts.map(({ item, quantity }) => ({ po_item_id: item.id, quantity })));
+
+    return getPurchaseOrder(order.id)!;
+  });
+}
+
+/**
+ * Turn an order into a draft bill linked line by line for matching. Without
+ * lines, each line is billed for what has been received but not billed, or
+ * for the whole open quantity when nothing has been received yet.
+ */
+export function convertPurchaseOrderToBill(
+  idOrNumber: number | string,
+  options: { date?: string; due_date?: string; vendor_reference?: string; lines?: PurchaseOrderLineQuantity[] } = {}
+): { purchase_order: PurchaseOrder; bill: Bill; match: BillMatch } {
+  return withTransaction(() => {
+    const order = requireOpenOrder(idOrNumber);
+    const anyReceived = order.items!.some((item) => item.quantity_received > 0);
+
+    const lines = options.lines
+      ? options.lines.map((entry) => ({ item: orderLine(order, entry.line), quantity: entry.quantity, unit_price: entry.unit_price }))
+      : order.items!.map((item) => ({
+          item,
+          quantity: Math.max(0, money.subtract(anyReceived ? item.quantity_received : item.quantity, item.quantity_billed)),
+          unit_price: undefined,
+        }));
+    const billed = lines.filter((line) => line.quantity > 0);
+    if (billed.length === 0) {
+      throw new Error(`Nothing left to bill on purchase order ${order.number}`);
+    }
+
+    const bill = createBill({
+      vendor_id: order.vendor_id,
+      vendor_reference: options.vendor_reference,
+      date: options.date,
+      due_date: options.due_date,
+      currency_code: order.currency_code,
+      purchase_order_id: order.id,
+      notes: `Purchase order ${order.number}`,
+      items: billed.map(({ item, quantity, unit_price }) => ({
+        description: item.description,
+        quantity,
+        unit_price: unit_price ?? item.unit_price,
+        account_id: item.account_id ?? undefined,
+        item: item.item_id ?? undefined,
+        tax_code: item.tax_code ?? undefined,
+        po_item_id: item.id,
+      })),
+    });
+    logAudit("convert", "purchase_order", order.id, null, { bill_id: bill.id });
+
+    return { purchase_order: getPurchaseOrder(order.id)!, bill, match: matchBill(bill.id) };
+  });
+}
+
+/**
+ * Pay for an order straight away instead of waiting for a bill: one expense
+ * per account and tax code, referenced to the order, which is then closed.
+ * Stock items need a bill so they can be received into inventory.
+ */
+export function convertPurchaseOrderToExpense(
+  idOrNumber: number | string,
+  options: { date?: string; bank_account?: number | string; method?: Payment["method"] } = {}
+): { purchase_order: PurchaseOrder; payments: Payment[] } {
+  return withTransaction(() => {
+    const db = getDb();
+    const order = requireOpenOrder(idOrNumber);
+    if (order.items!.some((item) => item.quantity_billed > 0)) {
+      throw new Error(`Purchase order ${order.number} has been billed; close it instead`);
+    }
+    if (order.items!.some((item) => item.item_type === "inventory")) {
+      throw new Error(`Purchase order ${order.number} has stock items and must be billed so they are received into inventory`);
+    }
+
+    const vendor = db.prepare(
+      "SELECT name, default_category FROM vendors WHERE id = ?"
+    ).get(order.vendor_id) as { name: string; default_category: string | null };
+
+    // Expenses are entered tax-inclusive, so group lines that share an account and tax code
+    const groups = new Map<string, { category: string; tax_code?: string; amount: number; descriptions: string[] }>();
+    for (const item of order.items!) {
+      const category = item.account_code || vendor.default_category || "";
+      const key = `${category}|${item.tax_code || ""}`;
+      const group = groups.get(key) || { category, tax_code: item.tax_code ?? undefined, amount: 0, descriptions: [] };
+      group.amount = money.add(group.amount, money.add(item.amount, item.tax_amount));
+      group.descriptions.push(item.description);
+      groups.set(key, group);
+    }
+
+    const payments = [...groups.values()].map((group) => recordExpense({
+      date: options.date,
+      amount: group.amount,
+      vendor_id: order.vendor_id,
+      vendor_name: vendor.name,
+      category: group.category,
+      description: group.descriptions.join(", "),
+      method: options.method,
+      reference: order.number,
+      bank_account: options.bank_account,
+      tax_code: group.tax_code,
+      purchase_order_id: order.id,
+    }));
+
+    db.prepare(`
+      UPDATE purchase_orders SET status = 'closed', closed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(order.id);
+    logAudit("convert", "purchase_order", order.id, { status: order.status }, { status: "closed", payment_ids: payments.map((p) => p.id) });
+
+    return { purchase_order: getPurchaseOrder(order.id)!, payments };
+  });
+}
+
+/**
+ * Three-way match a bill against its purchase order and the goods received.
+ * Flags prices that differ from the order by more than the price tolerance,
+ * quantities billed beyond what was received or ordered, and lines that are
+ * not on the order. Service items are not checked against receipts.
+ */
+export function matchBill(
+  idOrNumber: number | string,
+  tolerances: { price?: number; quantity?: number } = {}
+): BillMatch {
+  const bill = getBill(idOrNumber);
+  if (!bill) {
+    throw new Error(`Bill not found: ${idOrNumber}`);
+  }
+  if (!bill.purchase_order_id) {
+    throw new Error(`Bill ${bill.number} is not linked to a purchase order`);
+  }
+  const order = requireOrder(bill.purchase_order_id);
+  const limits = { ...matchTolerances(), ...tolerances };
+
+  const exceptions: MatchException[] = [];
+  for (const line of bill.items || []) {
+    const ordered = order.items!.find((item) => item.id === line.po_item_id);
+    if (!ordered) {
+      exceptions.push({ kind: "not_on_order", description: line.description, message: `"${line.description}" is not on ${order.number}` });
+      continue;
+    }
+
+    const deviation = ordered.unit_price === 0
+      ? (line.unit_price === 0 ? 0 : Infinity)
+      : Math.abs(line.unit_price - ordered.unit_price) / ordered.unit_price * 100;
+    if (deviation > limits.price) {
+      exceptions.push({
+        kind: "price",
+        description: line.description,
+        message: `"${line.description}" billed at ${line.unit_price.toFixed(2)}, ordered at ${ordered.unit_price.toFixed(2)}`,
+      });
+    }
+
+    // Quantities count this bill and the ones raised before it against the line
+    const { billed } = getDb().prepare(`
+      SELECT COALESCE(SUM(bi.quantity), 0) as billed FROM bill_items bi
+      JOIN bills b ON bi.bill_id = b.id
+      WHERE bi.po_item_id = ? AND b.id <= ? AND b.status != 'cancelled'
+    `).get(ordered.id, bill.id) as { billed: number };
+    const allowance = 1 + limits.quantity / 100;
+    if (billed > ordered.quantity * allowance) {
+      exceptions.push({
+        kind: "over_ordered",
+        description: line.description,
+        message: `${billed} of "${line.description}" billed, ${ordered.quantity} ordered`,
+      });
+    }
+    if (ordered.item_type !== "service" && billed > ordered.quantity_received * allowance) {
+      exceptions.push({
+        kind: "not_received",
+        description: line.description,
+        message: `${billed} of "${line.description}" billed, ${ordered.quantity_received} received`,
+      });
+    }
+  }
+
+  return {
+    bill_id: bill.id,
+    bill_number: bill.number,
+    purchase_order_id: order.id,
+    purchase_order_number: order.number,
+    exceptions,
+  };
+}
+
+// Bills raised against purchase orders that fail the three-way match
+export function listMatchExceptions(): BillMatch[] {
+  const bills = getDb().prepare(`
+    SELECT id FROM bills WHERE purchase_order_id IS NOT NULL AND status != 'cancelled' ORDER BY date, id
+  `).all() as Array<{ id: number }>;
+  return bills.map((bill) => matchBill(bill.id)).filter((match) => match.exceptions.length > 0);
+}
+
+// Close an order by hand, e.g. when the rest will not be delivered
+export function closePurchaseOrder(idOrNumber: number | string): PurchaseOrder {
+  const db = getDb();
+  const order = requireOpenOrder(idOrNumber);
+
+  db.prepare(`
+    UPDATE purchase_orders SET status = 'closed', closed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).run(order.id);
+  logAudit("close", "purchase_order", order.id, { status: order.status }, { status: "closed" });
+
+  return getPurchaseOrder(order.id)!;
+}
+
+export function cancelPurchaseOrder(idOrNumber: number | string): { success: boolean; error?: string } {
+  const db = getDb();
+  const order = getPurchaseOrder(idOrNumber);
+
+  if (!order) {
+    return { success: false, error: "Purchase order not found" };
+  }
+  if (order.status === "cancelled") {
+    return { success: false, error: `Purchase order ${order.number} is already cancelled` };
+  }
+  if (order.items!.some((item) => item.quantity_billed > 0)) {
+    return { success: false, error: `Purchase order ${order.number} has been billed; close it instead` };
+  }
+  const expensed = db.prepare("SELECT COUNT(*) as count FROM expenses WHERE purchase_order_id = ?").get(order.id) as { count: number };
+  if (expensed.count > 0) {
+    return { success: false, error: `Purchase order ${order.number} has been paid as an expense` };
+  }
+
+  db.prepare("UPDATE purchase_orders SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(order.id);
+  logAudit("cancel", "purchase_order", order.id, { status: order.status }, { status: "cancelled" });
+
+  return { success: true };
+}
+
+// Open and partly received orders with what is still to be billed
+export function getVendorCommitments(vendorId: number): { orders: PurchaseOrder[]; total: number } {
+  const orders = listPurchaseOrders({ vendor_id: vendorId })
+    .filter((order) => order.status === "open" || order.status === "partial");
+  return { orders, total: money.sum(orders.map((order) => order.committed || 0)) };
+}
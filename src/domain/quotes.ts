@@ -0,0 +1,316 @@
+import { getDb, getSetting, setSetting, logAudit, withTransaction } from "../db/index.js";
+import { createInvoice, type Invoice } from "./invoices.js";
+import { getBaseCurrency } from "./exchange-rates.js";
+import { money } from "../core/currency.js";
+import { today, addDays } from "../core/dates.js";
+
+export interface QuoteItem {
+  id?: number;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  // LHDN e-Invoice fields, carried onto the invoice on conversion
+  classification_code?: string;
+  tax_type?: string;
+  unit_code?: string;
+}
+
+export type QuoteStatus = "draft" | "sent" | "accepted" | "declined" | "expired";
+
+export interface Quote {
+  id: number;
+  number: string;
+  customer_id: number;
+  customer_name?: string;
+  date: string;
+  expiry_date: string;
+  status: QuoteStatus;
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  currency_code?: string;
+  payment_terms?: string;
+  notes?: string;
+  invoice_id?: number;       // Set once the quote has been converted
+  invoice_number?: string;
+  converted_at?: string;
+  items?: QuoteItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateQuoteData {
+  customer_id: number;
+  date?: string;
+  expiry_date?: string; // Defaults to the quote_validity_days setting (30 days)
+  items: Array<{
+    description: string;
+    quantity?: number;
+    unit_price: number;
+    classification_code?: string;
+    tax_type?: string;
+    unit_code?: string;
+  }>;
+  tax_rate?: number;
+  currency_code?: string;
+  payment_terms?: string;
+  notes?: string;
+}
+
+/**
+ * Create a quote. Quotes are not accounting documents: nothing is posted to
+ * the ledger until the quote is converted into an invoice.
+ */
+export function createQuote(data: CreateQuoteData): Quote {
+  return withTransaction(() => {
+    const db = getDb();
+
+    const customer = db.prepare("SELECT id FROM customers WHERE id = ?").get(data.customer_id);
+    if (!customer) {
+      throw new Error(`Customer with ID ${data.customer_id} not found`);
+    }
+
+    if (!data.items || data.items.length === 0) {
+      throw new Error("Quote must have at least one line item");
+    }
+    for (const item of data.items) {
+      if ((item.quantity || 1) <= 0) {
+        throw new Error(`Invalid quantity for item "${item.description}": must be greater than 0`);
+      }
+      if (item.unit_price < 0) {
+        throw new Error(`Invalid unit price for item "${item.description}": cannot be negative`);
+      }
+    }
+
+    const date = data.date || today();
+    const validityDays = parseInt(getSetting("quote_validity_days") || "30");
+    const expiryDate = data.expiry_date ||
+      addDays(date, validityDays);
+    if (expiryDate < date) {
+      throw new Error("Expiry date cannot be before quote date");
+    }
+
+    // Get next quote number
+    const prefix = getSetting("quote_prefix") || "QT";
+    const nextNum = parseInt(getSetting("next_quote_number") || "1");
+    const number = `${prefix}-${String(nextNum).padStart(4, "0")}`;
+    setSetting("next_quote_number", String(nextNum + 1));
+
+    let subtotal = 0;
+    const items = data.items.map((item) => {
+      const qty = item.quantity || 1;
+      const amount = money.multiply(qty, item.unit_price);
+      subtotal = money.add(subtotal, amount);
+      return { ...item, quantity: qty, amount };
+    });
+
+    const taxRate = data.tax_rate ?? parseFloat(getSetting("tax_rate") || "0");
+    const taxAmount = money.percent(subtotal, taxRate);
+    const total = money.add(subtotal, taxAmount);
+    const currencyCode = (data.currency_code || getBaseCurrency()).toUpperCase();
+
+    const result = db.prepare(`
+      INSERT INTO quotes (number, customer_id, date, expiry_date, subtotal, tax_rate, tax_amount, total, currency_code, payment_terms, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(number, data.customer_id, date, expiryDate, subtotal, taxRate, taxAmount, total, currencyCode, data.payment_terms || null, data.notes || null);
+
+    const quoteId = result.lastInsertRowid as number;
+
+    const insertItem = db.prepare(`
+      INSERT INTO quote_items (quote_id, description, quantity, unit_price, amount, sort_order, classification_code, tax_type, unit_code)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    items.forEach((item, index) => {
+      insertItem.run(
+        quoteId,
+        item.description,
+        item.quantity,
+        item.unit_price,
+        item.amount,
+        index,
+        item.classification_code || "002",
+        item.tax_type || "E",
+        item.unit_code || "EA"
+      );
+    });
+
+    const quote = getQuote(quoteId)!;
+    logAudit("create", "quote", quote.id, null, quote);
+
+    return quote;
+  });
+}
+
+export function getQuote(idOrNumber: number | string): Quote | undefined {
+  const db = getDb();
+
+  const quote = db.prepare(`
+    SELECT q.*, c.name as customer_name, i.number as invoice_number
+    FROM quotes q
+    JOIN customers c ON q.customer_id = c.id
+    LEFT JOIN invoices i ON q.invoice_id = i.id
+    WHERE ${typeof idOrNumber === "number" ? "q.id" : "q.number"} = ?
+  `).get(idOrNumber) as Quote | undefined;
+
+  if (quote) {
+    quote.items = db.prepare(`
+      SELECT * FROM quote_items WHERE quote_id = ? ORDER BY sort_order
+    `).all(quote.id) as QuoteItem[];
+  }
+
+  return quote;
+}
+
+/**
+ * Mark open quotes whose expiry date has passed as expired.
+ * Returns the number of quotes that changed status.
+ */
+export function expireQuotes(asOfDate: string = today()): number {
+  const db = getDb();
+  const result = db.prepare(`
+    UPDATE quotes SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+    WHERE status IN ('draft', 'sent') AND expiry_date < ?
+  `).run(asOfDate);
+  return result.changes;
+}
+
+export function listQuotes(filters?: {
+  status?: QuoteStatus;
+  customer_id?: number;
+  from_date?: string;
+  to_date?: string;
+  limit?: number;
+}): Quote[] {
+  const db = getDb();
+  expireQuotes();
+
+  let sql = `
+    SELECT q.*, c.name as customer_name, i.number as invoice_number
+    FROM quotes q
+    JOIN customers c ON q.customer_id = c.id
+    LEFT JOIN invoices i ON q.invoice_id = i.id
+    WHERE 1=1
+  `;
+  const params: unknown[] = [];
+
+  if (filters?.status) {
+    sql += " AND q.status = ?";
+    params.push(filters.status);
+  }
+  if (filters?.customer_id) {
+    sql += " AND q.customer_id = ?";
+    params.push(filters.customer_id);
+  }
+  if (filters?.from_date) {
+    sql += " AND q.date >= ?";
+    params.push(filters.from_date);
+  }
+  if (filters?.to_date) {
+    sql += " AND q.date <= ?";
+    params.push(filters.to_date);
+  }
+
+  sql += " ORDER BY q.date DESC, q.id DESC";
+
+  if (filters?.limit) {
+    sql += " LIMIT ?";
+    params.push(filters.limit);
+  }
+
+  return db.prepare(sql).all(...params) as Quote[];
+}
+
+export function updateQuoteStatus(idOrNumber: number | string, status: QuoteStatus): Quote {
+  const db = getDb();
+  const old = getQuote(idOrNumber);
+  if (!old) {
+    throw new Error(`Quote not found: ${idOrNumber}`);
+  }
+  if (old.invoice_id) {
+    throw new Error(`Quote ${old.number} has already been converted to invoice ${old.invoice_number}`);
+  }
+  if ((status === "sent" || status === "accepted") && old.expiry_date < today()) {
+    throw new Error(`Quote ${old.number} expired on ${old.expiry_date}`);
+  }
+
+  db.prepare("UPDATE quotes SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(status, old.id);
+  logAudit("update_status", "quote", old.id, { status: old.status }, { status });
+
+  return getQuote(old.id)!;
+}
+
+/**
+ * Turn a quote into an invoice in one step. Line items, LHDN classification
+ * codes and tax types are carried over into a draft invoice, and the quote is
+ * marked accepted and linked to it. Issuing the draft posts it.
+ */
+export function convertQuoteToInvoice(
+  idOrNumber: number | string,
+  options: { date?: string; due_date?: string } = {}
+): { quote: Quote; invoice: Invoice } {
+  return withTransaction(() => {
+    const db = getDb();
+    const quote = getQuote(idOrNumber);
+    if (!quote) {
+      throw new Error(`Quote not found: ${idOrNumber}`);
+    }
+    if (quote.invoice_id) {
+      throw new Error(`Quote ${quote.number} has already been converted to invoice ${quote.invoice_number}`);
+    }
+    if (quote.status === "declined") {
+      throw new Error(`Quote ${quote.number} was declined`);
+    }
+
+    const date = options.date || today();
+    if (quote.status === "expired" || (quote.status !== "accepted" && quote.expiry_date < date)) {
+      throw new Error(`Quote ${quote.number} expired on ${quote.expiry_date}`);
+    }
+
+    const invoice = createInvoice({
+      customer_id: quote.customer_id,
+      date,
+      due_date: options.due_date,
+      items: (quote.items || []).map((item) => ({
+        description: item.description,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        classification_code: item.classification_code,
+        tax_type: item.tax_type,
+        unit_code: item.unit_code,
+      })),
+      tax_rate: quote.tax_rate,
+      currency_code: quote.currency_code,
+      payment_terms: quote.payment_terms,
+      notes: quote.notes ? `${quote.notes}\nQuote ${quote.number}` : `Quote ${quote.number}`,
+    });
+
+    db.prepare(`
+      UPDATE quotes
+      SET status = 'accepted', invoice_id = ?, converted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(invoice.id, quote.id);
+    logAudit("convert", "quote", quote.id, { status: quote.status }, { status: "accepted", invoice_id: invoice.id });
+
+    return { quote: getQuote(quote.id)!, invoice };
+  });
+}
+
+export function deleteQuote(idOrNumber: number | string): { success: boolean; error?: string } {
+  const db = getDb();
+  const quote = getQuote(idOrNumber);
+
+  if (!quote) {
+    return { success: false, error: "Quote not found" };
+  }
+  if (quote.invoice_id) {
+    return { success: false, error: `Quote ${quote.number} has been converted to invoice ${quote.invoice_number} and cannot be deleted` };
+  }
+
+  db.prepare("DELETE FROM quote_items WHERE quote_id = ?").run(quote.id);
+  db.prepare("DELETE FROM quotes WHERE id = ?").run(quote.id);
+  logAudit("delete", "quote", quote.id, quote, null);
+
+  return { success: true };
+}
@@ -0,0 +1,435 @@
+import { getDb, logAudit, withTransaction } from "../db/index.js";
+import { createInvoice, getInvoice, itemInput, updateInvoiceStatus, type CreateInvoiceData } from "./invoices.js";
+import { recordExpense, type RecordExpenseData } from "./payments.js";
+import { logger } from "../core/logger.js";
+import { addDays, addMonths, assertIsoDate, today } from "../core/dates.js";
+
+const recurringLogger = logger.child({ module: "recurring" });
+
+export type RecurringFrequency = "weekly" | "monthly" | "quarterly" | "yearly";
+
+export type RecurringInvoiceTemplate = Omit<CreateInvoiceData, "date" | "due_date" | "exchange_rate"> & {
+  auto_send?: boolean; // Mark generated invoices as sent
+};
+
+export type RecurringExpenseTemplate = Omit<RecordExpenseData, "date" | "is_recurring">;
+
+interface RecurringScheduleBase {
+  id: number;
+  name: string;
+  frequency: RecurringFrequency;
+  interval_count: number;
+  anchor_date: string;
+  end_date?: string;
+  max_occurrences?: number;
+  occurrences_count: number;
+  next_run_date?: string;
+  status: "active" | "paused" | "completed";
+  last_run_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RecurringSchedule =
+  | (RecurringScheduleBase & { type: "invoice"; template: RecurringInvoiceTemplate })
+  | (RecurringScheduleBase & { type: "expense"; template: RecurringExpenseTemplate });
+
+export type CreateRecurringScheduleData = {
+  name: string;
+  frequency: RecurringFrequency;
+  interval_count?: number;
+  anchor_date: string;
+  end_date?: string;
+  max_occurrences?: number;
+} & (
+  | { type: "invoice"; template: RecurringInvoiceTemplate }
+  | { type: "expense"; template: RecurringExpenseTemplate }
+);
+
+export interface RecurringRun {
+  id: number;
+  schedule_id: number;
+  occurrence_date: string;
+  entity_type: "invoice" | "expense";
+  entity_id: number;
+  reference?: string;
+  created_at: string;
+}
+
+export interface RecurringRunSummary {
+  generated: Array<{
+    schedule_id: number;
+    schedule_name: string;
+    date: string;
+    entity_type: "invoice" | "expense";
+    entity_id: number;
+    reference?: string;
+  }>;
+  errors: Array<{ schedule_id: number; schedule_name: string; date: string; error: string }>;
+}
+
+const FREQUENCIES: RecurringFrequency[] = ["weekly", "monthly", "quarterly", "yearly"];
+
+/**
+ * Get the date of the nth occurrence (0-based) counted from the anchor date.
+ * Monthly-based frequencies keep the anchor's day of month, clamped to month end
+ * (an anchor of Jan 31 gives Feb 28/29, then Mar 31).
+ */
+export function getOccurrenceDate(
+  anchorDate: string,
+  frequency: RecurringFrequency,
+  intervalCount: number,
+  index: number
+): string {
+  const steps = index * intervalCount;
+
+  if (frequency === "weekly") {
+    return addDays(anchorDate, steps * 7);
+  }
+
+  const monthsPerStep = frequency === "monthly" ? 1 : frequency === "quarterly" ? 3 : 12;
+  return addMonths(anchorDate, steps * monthsPerStep);
+}
+
+// Next occurrence after `count` runs, or null once the end condition is reached
+function computeNextRunDate(
+  schedule: Pick<RecurringScheduleBase, "anchor_date" | "frequency" | "interval_count" | "end_date" | "max_occurrences">,
+  count: number
+): string | null {
+  if (schedule.max_occurrences && count >= schedule.max_occurrences) {
+    return null;
+  }
+  const next = getOccurrenceDate(schedule.anchor_date, schedule.frequency, schedule.interval_count, count);
+  if (schedule.end_date && next > schedule.end_date) {
+    return null;
+  }
+  return next;
+}
+
+function rowToSchedule(row: Record<string, unknown>): RecurringSchedule {
+  return { ...row, template: JSON.parse(row.template as string) } as RecurringSchedule;
+}
+
+export function createRecurringSchedule(data: CreateRecurringScheduleData): RecurringSchedule {
+  const db = getDb();
+
+  if (!FREQUENCIES.includes(data.frequency)) {
+    throw new Error(`Invalid frequency "${data.frequency}". Use: ${FREQUENCIES.join(", ")}`);
+  }
+  assertIsoDate(data.anchor_date, "anchor date");
+  if (data.end_date && data.end_date < data.anchor_date) {
+    throw new Error("End date cannot be before anchor date");
+  }
+  if (data.max_occurrences !== undefined && data.max_occurrences <= 0) {
+    throw new Error("Max occurrences must be greater than 0");
+  }
+
+  // Validate the template up front so the schedule doesn't fail on every run
+  if (data.type === "invoice") {
+    const customer = db.prepare("SELECT id FROM customers WHERE id = ?").get(data.template.customer_id);
+    if (!customer) {
+      throw new Error(`Customer with ID ${data.template.customer_id} not found`);
+    }
+    if (!data.template.items || data.template.items.length === 0) {
+      throw new Error("Recurring invoice must have at least one line item");
+    }
+  } else if (!(data.template.amount > 0)) {
+    throw new Error("Recurring expense amount must be greater than 0");
+  }
+
+  const intervalCount = data.interval_count || 1;
+  const nextRunDate = computeNextRunDate(
+    {
+      anchor_date: data.anchor_date,
+      frequency: data.frequency,
+      interval_count: intervalCount,
+      end_date: data.end_date,
+      max_occurrences: data.max_occurrences,
+    },
+    0
+  );
+
+  const result = db.prepare(`
+    INSERT INTO recurring_schedules (name, type, frequency, interval_count, anchor_date, end_date, max_occurrences, next_run_date, status, template)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    data.name,
+    data.type,
+    data.frequency,
+    intervalCount,
+    data.anchor_date,
+    data.end_date || null,
+    data.max_occurrences || null,
+    nextRunDate,
+    nextRunDate ? "active" : "completed",
+    JSON.stringify(data.template)
+  );
+
+  const schedule = getRecurringSchedule(result.lastInsertRowid as number)!;
+  logAudit("create", "recurring_schedule", schedule.id, null, schedule);
+
+  return schedule;
+}
+
+/**
+ * Create a monthly (or other frequency) schedule that repeats an existing invoice
+ */
+export function createRecurringScheduleFromInvoice(
+  invoiceIdOrNumber: number | string,
+  options: {
+    frequency: RecurringFrequency;
+    interval_count?: number;
+    anchor_date?: string;
+    end_date?: string;
+    max_occurrences?: number;
+    auto_send?: boolean;
+  }
+): RecurringSchedule {
+  const invoice = getInvoice(invoiceIdOrNumber);
+  if (!invoice) {
+    throw new Error("Invoice not found");
+  }
+
+  // Default to the next occurrence after the source invoice so it isn't duplicated
+  const anchorDate =
+    options.anchor_date ||
+    getOccurrenceDate(invoice.date, options.frequency, options.interval_count || 1, 1);
+
+  return createRecurringSchedule({
+    name: `${invoice.customer_name} - ${invoice.items?.[0]?.description || invoice.number}`,
+    type: "invoice",
+    frequency: options.frequency,
+    interval_count: options.interval_count,
+    anchor_date: anchorDate,
+    end_date: options.end_date,
+    max_occurrences: options.max_occurrences,
+    template: {
+      customer_id: invoice.customer_id,
+      items: (invoice.items || []).map(itemInput),
+      tax_rate: invoice.tax_rate,
+      discount: invoice.discount_amount || undefined,
+      payment_terms: invoice.payment_terms,
+      notes: invoice.notes,
+      // Each run converts at the rate for its own date
+      currency_code: invoice.exchange_rate ? invoice.currency_code : undefined,
+      payment_mode: invoice.payment_mode,
+      auto_send: options.auto_send,
+    },
+  });
+}
+
+export function getRecurringSchedule(id: number): RecurringSchedule | undefined {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM recurring_schedules WHERE id = ?").get(id) as Record<string, unknown> | undefined;
+  return row ? rowToSchedule(row) : undefined;
+}
+
+export function listRecurringSchedules(filters?: {
+  type?: "invoice" | "expense";
+  status?: RecurringSchedule["status"];
+  due_by?: string;
+}): RecurringSchedule[] {
+  const db = getDb();
+
+  let sql = "SELECT * FROM recurring_schedules WHERE 1=1";
+  const params: unknown[] = [];
+
+  if (filters?.type) {
+    sql += " AND type = ?";
+    params.push(filters.type);
+  }
+  if (filters?.status) {
+    sql += " AND status = ?";
+    params.push(filters.status);
+  }
+  if (filters?.due_by) {
+    sql += " AND next_run_date IS NOT NULL AND next_run_date <= ?";
+    params.push(filters.due_by);
+  }
+
+  sql += " ORDER BY next_run_date IS NULL, next_run_date, id";
+
+  return (db.prepare(sql).all(...params) as Array<Record<string, unknown>>).map(rowToSchedule);
+}
+
+export function getRecurringRuns(scheduleId: number): RecurringRun[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM recurring_runs WHERE schedule_id = ? ORDER BY occurrence_date DESC
+  `).all(scheduleId) as RecurringRun[];
+}
+
+export function pauseRecurringSchedule(id: number): RecurringSchedule {
+  const schedule = getRecurringSchedule(id);
+  if (!schedule) {
+    throw new Error("Recurring schedule not found");
+  }
+  if (schedule.status !== "active") {
+    throw new Error(`Cannot pause a ${schedule.status} schedule`);
+  }
+
+  getDb().prepare(
+    "UPDATE recurring_schedules SET status = 'paused', updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+  ).run(id);
+  logAudit("pause", "recurring_schedule", id, { status: schedule.status }, { status: "paused" });
+
+  return getRecurringSchedule(id)!;
+}
+
+/**
+ * Resume a paused schedule.
+ * Occurrences missed while paused are skipped unless `catchUp` is set.
+ */
+export function resumeRecurringSchedule(id: number, options?: { catchUp?: boolean; asOfDate?: string }): RecurringSchedule {
+  const schedule = getRecurringSchedule(id);
+  if (!schedule) {
+    throw new Error("Recurring schedule not found");
+  }
+  if (schedule.status !== "paused") {
+    throw new Error(`Cannot resume a ${schedule.status} schedule`);
+  }
+
+  const asOf = options?.asOfDate || today();
+  let count = schedule.occurrences_count;
+  let nextRunDate = computeNextRunDate(schedule, count);
+
+  // Skip the occurrences that fell inside the pause, keeping the anchor cadence
+  let skipped = 0;
+  while (!options?.catchUp && nextRunDate && nextRunDate < asOf) {
+    count++;
+    skipped++;
+    nextRunDate = computeNextRunDate(schedule, count);
+  }
+
+  getDb().prepare(`
+    UPDATE recurring_schedules
+    SET status = ?, next_run_date = ?, occurrences_count = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(nextRunDate ? "active" : "completed", nextRunDate, count, id);
+  logAudit("resume", "recurring_schedule", id, { status: schedule.status }, { status: "active", skipped });
+
+  return getRecurringSchedule(id)!;
+}
+
+export function deleteRecurringSchedule(id: number): boolean {
+  const db = getDb();
+  const schedule = getRecurringSchedule(id);
+  if (!schedule) return false;
+
+  db.prepare("DELETE FROM recurring_schedules WHERE id = ?").run(id);
+  logAudit("delete", "recurring_schedule", id, schedule, null);
+
+  return true;
+}
+
+/**
+ * Preview the next N occurrence dates without generating anything
+ */
+export function previewRecurringSchedule(id: number, count: number = 5): string[] {
+  const schedule = getRecurringSchedule(id);
+  if (!schedule) {
+    throw new Error("Recurring schedule not found");
+  }
+  if (schedule.status === "completed") {
+    return [];
+  }
+
+  const dates: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const date = computeNextRunDate(schedule, schedule.occurrences_count + i);
+    if (!date) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Generate the document for one occurrence and advance the schedule
+function generateOccurrence(schedule: RecurringSchedule, date: string): RecurringRunSummary["generated"][number] {
+  return withTransaction(() => {
+    const db = getDb();
+    let entityId: number;
+    let reference: string | undefined;
+
+    if (schedule.type === "invoice") {
+      const { auto_send, ...invoiceData } = schedule.template;
+      const draft = createInvoice({ ...invoiceData, date });
+      // Sending issues the draft, which assigns its invoice number
+      const invoice = auto_send ? updateInvoiceStatus(draft.id, "sent")! : draft;
+      entityId = invoice.id;
+      reference = invoice.number;
+    } else {
+      const payment = recordExpense({ ...schedule.template, date, is_recurring: true });
+      const expense = db.prepare("SELECT id FROM expenses WHERE payment_id = ?").get(payment.id) as { id: number };
+      entityId = expense.id;
+      reference = schedule.template.reference || schedule.template.description;
+    }
+
+    db.prepare(`
+      INSERT INTO recurring_runs (schedule_id, occurrence_date, entity_type, entity_id, reference)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(schedule.id, date, schedule.type, entityId, reference || null);
+
+    const count = schedule.occurrences_count + 1;
+    const nextRunDate = computeNextRunDate(schedule, count);
+
+    db.prepare(`
+      UPDATE recurring_schedules
+      SET occurrences_count = ?, next_run_date = ?, status = ?, last_run_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(count, nextRunDate, nextRunDate ? "active" : "completed", schedule.id);
+
+    return {
+      schedule_id: schedule.id,
+      schedule_name: schedule.name,
+      date,
+      entity_type: schedule.type,
+      entity_id: entityId,
+      reference,
+    };
+  });
+}
+
+/**
+ * Generate every occurrence that is due on or before `asOfDate` (default today).
+ * Missed occurrences are caught up one by one, so a schedule that hasn't run for
+ * three months produces three documents dated on their original occurrence dates.
+ */
+export function runRecurringSchedules(options?: { asOfDate?: string; scheduleId?: number }): RecurringRunSummary {
+  const asOfDate = options?.asOfDate || today();
+  const summary: RecurringRunSummary = { generated: [], errors: [] };
+
+  let schedules: RecurringSchedule[];
+  if (options?.scheduleId) {
+    const schedule = getRecurringSchedule(options.scheduleId);
+    if (!schedule) {
+      throw new Error("Recurring schedule not found");
+    }
+    if (schedule.status !== "active") {
+      throw new Error(`Recurring schedule is ${schedule.status}`);
+    }
+    schedules = [schedule];
+  } else {
+    schedules = listRecurringSchedules({ status: "active", due_by: asOfDate });
+  }
+
+  for (let schedule of schedules) {
+    while (schedule.status === "active" && schedule.next_run_date && schedule.next_run_date <= asOfDate) {
+      const date = schedule.next_run_date;
+      try {
+        summary.generated.push(generateOccurrence(schedule, date));
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        recurringLogger.error({ schedule: schedule.id, date, err }, "Recurring run failed");
+        summary.errors.push({ schedule_id: schedule.id, schedule_name: schedule.name, date, error });
+        break;
+      }
+      schedule = getRecurringSchedule(schedule.id)!;
+    }
+  }
+
+  if (summary.generated.length > 0) {
+    recurringLogger.info({ generated: summary.generated.length, asOfDate }, "Recurring schedules run");
+  }
+
+  return summary;
+}
@@ -1,4 +1,10 @@
 import { getDb } from "../db/index.js";
+import { money } from "../core/currency.js";
+import { today } from "../core/dates.js";
+import type { TrackingFilter } from "./tracking.js";
+import { getBadDebtReliefTotals } from "./bad-debts.js";
+import { getLoanPortions } from "./loans.js";
+import { getSSTCategory, splitStoredTax } from "./tax-codes.js";
 
 export interface BalanceSheetReport {
   date: string;
@@ -11,6 +17,7 @@ export interface BalanceSheetReport {
   };
   liabilities: {
     payables: number;
+    loans: { current: number; non_current: number }; // Loan and hire purchase accounts, split by when principal falls due
     other: number;
     total: number;
     items: Array<{ code: string; name: string; amount: number }>;
@@ -36,6 +43,39 @@ export interface ProfitLossReport {
     total: number;
   };
   net_income: number;
+  // Present when grouped by a tracking dimension; untagged activity is "Unassigned"
+  by_tracking?: Array<{
+    value_id: number | null;
+    value_name: string;
+    revenue: number;
+    expenses: number;
+    net_income: number;
+  }>;
+}
+
+export interface BudgetVariance {
+  budget: number;
+  actual: number;
+  variance: number;               // actual - budget
+  variance_percent: number | null; // null when nothing was budgeted
+  favorable: boolean;
+}
+
+export interface BudgetVsActualLine extends BudgetVariance {
+  account_id: number;
+  code: string;
+  name: string;
+  type: "income" | "expense";
+  months: Array<BudgetVariance & { month: string }>;
+}
+
+export interface BudgetVsActualReport {
+  from_date: string;
+  to_date: string;
+  months: string[];
+  revenue: { items: BudgetVsActualLine[]; total: BudgetVariance };
+  expenses: { items: BudgetVsActualLine[]; total: BudgetVariance };
+  net_income: BudgetVariance;
 }
 
 export interface ReceivablesAgingReport {
@@ -54,6 +94,22 @@ export interface ReceivablesAgingReport {
   };
 }
 
+export interface PayablesAgingReport {
+  current: Array<{ vendor: string; bill: string; amount: number; due_date: string }>;
+  days_1_30: Array<{ vendor: string; bill: string; amount: number; due_date: string; days_overdue: number }>;
+  days_31_60: Array<{ vendor: string; bill: string; amount: number; due_date: string; days_overdue: number }>;
+  days_61_90: Array<{ vendor: string; bill: string; amount: number; due_date: string; days_overdue: number }>;
+  days_90_plus: Array<{ vendor: string; bill: string; amount: number; due_date: string; days_overdue: number }>;
+  totals: {
+    current: number;
+    days_1_30: number;
+    days_31_60: number;
+    days_61_90: number;
+    days_90_plus: number;
+    total: number;
+  };
+}
+
 export interface CashFlowReport {
   from_date: string;
   to_date: string;
@@ -81,6 +137,7 @@ function getAccountBalancesByType(asOfDate: string): Array<{
   code: string;
   name: string;
   type: string;
+  is_bank: number;
   balance: number;
 }> {
   const db = getDb();
@@ -91,6 +148,7 @@ function getAccountBalancesByType(asOfDate: string): Array<{
       a.code,
       a.name,
       a.type,
+      a.is_bank,
       COALESCE(SUM(jl.debit), 0) as total_debits,
       COALESCE(SUM(jl.credit), 0) as total_credits
     FROM accounts a
@@ -104,6 +162,7 @@ function getAccountBalancesByType(asOfDate: string): Array<{
     code: string;
     name: string;
     type: string;
+    is_bank: number;
     total_debits: number;
     total_credits: number;
   }>;
@@ -124,13 +183,14 @@ function getAccountBalancesByType(asOfDate: string): Array<{
       code: row.code,
       name: row.name,
       type: row.type,
+      is_bank: row.is_bank,
       balance,
     };
   });
 }
 
 export function getBalanceSheet(asOfDate?: string): BalanceSheetReport {
-  const date = asOfDate || new Date().toISOString().split("T")[0];
+  const date = asOfDate || today();
 
   const accountBalances = getAccountBalancesByType(date);
 
@@ -156,12 +216,20 @@ export function getBalanceSheet(asOfDate?: string): BalanceSheetReport {
   const totalEquity = totalEquityAccounts + retainedEarnings;
 
   // Identify specific account categories
-  const cashAccounts = assets.filter((a) => a.code.startsWith("11")); // 1100-1199
-  const receivableAccounts = assets.filter((a) => a.code.startsWith("12")); // 1200-1299
-  const otherAssets = assets.filter((a) => !a.code.startsWith("11") && !a.code.startsWith("12"));
+  const cashAccounts = assets.filter((a) => a.is_bank); // Flagged bank and cash accounts
+  const receivableAccounts = assets.filter((a) => !a.is_bank && a.code.startsWith("12")); // 1200-1299
+  const otherAssets = assets.filter((a) => !a.is_bank && !a.code.startsWith("12"));
 
-  const payableAccounts = liabilities.filter((a) => a.code.startsWith("21")); // 2100-2199
-  const otherLiabilities = liabilities.filter((a) => !a.code.startsWith("21"));
+  const isPayable = (code: string) => code.startsWith("20") || code.startsWith("21"); // 2000-2199
+  const payableAccounts = liabilities.filter((a) => isPayable(a.code));
+
+  // Loan accounts carry what the ledger says; the schedules say how much is due within a year
+  const portions = getLoanPortions(date);
+  const loanAccountIds = new Set(portions.loans.map((l) => l.liability_account_id));
+  const loanAccounts = liabilities.filter((a) => loanAccountIds.has(a.account_id) && !isPayable(a.code));
+  const loanTotal = loanAccounts.reduce((sum, a) => sum + a.balance, 0);
+  const currentLoans = Math.max(0, Math.min(portions.current, loanTotal));
+  const otherLiabilities = liabilities.filter((a) => !isPayable(a.code) && !loanAccountIds.has(a.account_id));
 
   return {
     date,
@@ -174,6 +242,7 @@ export function getBalanceSheet(asOfDate?: string): BalanceSheetReport {
     },
     liabilities: {
       payables: payableAccounts.reduce((sum, a) => sum + a.balance, 0),
+      loans: { current: currentLoans, non_current: loanTotal - currentLoans },
       other: otherLiabilities.reduce((sum, a) => sum + a.balance, 0),
       total: totalLiabilities,
       items: liabilities.map((a) => ({ code: a.code, name: a.name, amount: a.balance })),
@@ -191,9 +260,18 @@ export function getBalanceSheet(asOfDate?: string): BalanceSheetReport {
   };
 }
 
-export function getProfitLoss(fromDate: string, toDate: string): ProfitLossReport {
+export function getProfitLoss(fromDate: string, toDate: string, tracking: TrackingFilter = {}): ProfitLossReport {
   const db = getDb();
 
+  const trackingJoin = tracking.tracking_value_id !== undefined
+    ? "AND jl.id IN (SELECT line_id FROM journal_line_tracking WHERE value_id = ?)"
+    : "";
+  const params: (string | number)[] = tracking.tracking_value_id !== undefined
+    ? [fromDate, toDate, tracking.tracking_value_id]
+    : [fromDate, toDate];
+
+  // Year-end closing entries are excluded so a closed year still shows its results
+
   // Revenue from income accounts (credit normal balance: credits - debits)
   const revenueItems = db.prepare(`
     SELECT
@@ -201,13 +279,16 @@ export function getProfitLoss(fromDate: string, toDate: string): ProfitLossRepor
       COALESCE(SUM(jl.credit), 0) - COALESCE(SUM(jl.debit), 0) as amount
     FROM accounts a
     LEFT JOIN journal_lines jl ON a.id = jl.account_id
-    LEFT JOIN journal_entries je ON jl.entry_id = je.id
-      AND je.date >= ? AND je.date <= ?
+      AND jl.entry_id IN (
+        SELECT id FROM journal_entries
+        WHERE date >= ? AND date <= ? AND entry_type != 'closing'
+      )
+      ${trackingJoin}
     WHERE a.type = 'income' AND a.is_active = 1
     GROUP BY a.id, a.name
     HAVING amount != 0
     ORDER BY amount DESC
-  `).all(fromDate, toDate) as Array<{ name: string; amount: number }>;
+  `).all(...params) as Array<{ name: string; amount: number }>;
 
   // Expenses from expense accounts (debit normal balance: debits - credits)
   const expenseItems = db.prepare(`
@@ -216,18 +297,21 @@ export function getProfitLoss(fromDate: string, toDate: string): ProfitLossRepor
       COALESCE(SUM(jl.debit), 0) - COALESCE(SUM(jl.credit), 0) as amount
     FROM accounts a
     LEFT JOIN journal_lines jl ON a.id = jl.account_id
-    LEFT JOIN journal_entries je ON jl.entry_id = je.id
-      AND je.date >= ? AND je.date <= ?
+      AND jl.entry_id IN (
+        SELECT id FROM journal_entries
+        WHERE date >= ? AND date <= ? AND entry_type != 'closing'
+      )
+      ${trackingJoin}
     WHERE a.type = 'expense' AND a.is_active = 1
     GROUP BY a.id, a.name
     HAVING amount != 0
     ORDER BY amount DESC
-  `).all(fromDate, toDate) as Array<{ name: string; amount: number }>;
+  `).all(...params) as Array<{ name: string; amount: number }>;
 
   const totalRevenue = revenueItems.reduce((sum, item) => sum + item.amount, 0);
   const totalExpenses = expenseItems.reduce((sum, item) => sum + item.amount, 0);
 
-  return {
+  const report: ProfitLossReport = {
     from_date: fromDate,
     to_date: toDate,
     revenue: {
@@ -240,6 +324,148 @@ export function getProfitLoss(fromDate: string, toDate: string): ProfitLossRepor
     },
     net_income: totalRevenue - totalExpenses,
   };
+
+  if (tracking.group_by_dimension_id !== undefined) {
+    const rows = db.prepare(`
+      SELECT
+        lt.value_id,
+        tv.name as value_name,
+        COALESCE(SUM(CASE WHEN a.type = 'income' THEN jl.credit - jl.debit ELSE 0 END), 0) as revenue,
+        COALESCE(SUM(CASE WHEN a.type = 'expense' THEN jl.debit - jl.credit ELSE 0 END), 0) as expenses
+      FROM journal_lines jl
+      JOIN journal_entries je ON je.id = jl.entry_id
+      JOIN accounts a ON a.id = jl.account_id
+      LEFT JOIN journal_line_tracking lt ON lt.line_id = jl.id AND lt.dimension_id = ?
+      LEFT JOIN tracking_values tv ON tv.id = lt.value_id
+      WHERE a.type IN ('income', 'expense') AND a.is_active = 1
+        AND je.date >= ? AND je.date <= ? AND je.entry_type != 'closing'
+        ${trackingJoin}
+      GROUP BY lt.value_id
+      ORDER BY tv.name IS NULL, tv.name
+    `).all(tracking.group_by_dimension_id, ...params) as Array<{
+      value_id: number | null;
+      value_name: string | null;
+      revenue: number;
+      expenses: number;
+    }>;
+
+    report.by_tracking = rows
+      .filter((row) => !money.isZero(row.revenue) || !money.isZero(row.expenses))
+      .map((row) => ({
+        value_id: row.value_id,
+        value_name: row.value_name || "Unassigned",
+        revenue: money.round2(row.revenue),
+        expenses: money.round2(row.expenses),
+        net_income: money.round2(row.revenue - row.expenses),
+      }));
+  }
+
+  return report;
+}
+
+function budgetVariance(budget: number, actual: number, type: "income" | "expense"): BudgetVariance {
+  const variance = money.round2(actual - budget);
+  return {
+    budget: money.round2(budget),
+    actual: money.round2(actual),
+    variance,
+    variance_percent: budget !== 0 ? money.round2((variance / Math.abs(budget)) * 100) : null,
+    // Earning more or spending less than planned is favorable
+    favorable: type === "income" ? variance >= 0 : variance <= 0,
+  };
+}
+
+/**
+ * Budget vs actual by account and month
+ * Budgets are whole-month amounts; actuals are journal activity in the date
+ * range (closing entries excluded, as in getProfitLoss).
+ */
+export function getBudgetVsActual(fromDate: string, toDate: string): BudgetVsActualReport {
+  const db = getDb();
+  const fromMonth = fromDate.slice(0, 7);
+  const toMonth = toDate.slice(0, 7);
+
+  const months: string[] = [];
+  for (let d = new Date(`${fromMonth}-01T00:00:00Z`); d.toISOString().slice(0, 7) <= toMonth; d.setUTCMonth(d.getUTCMonth() + 1)) {
+    months.push(d.toISOString().slice(0, 7));
+  }
+
+  const actualRows = db.prepare(`
+    SELECT
+      a.id as account_id,
+      substr(je.date, 1, 7) as month,
+      CASE WHEN a.type = 'income'
+        THEN COALESCE(SUM(jl.credit), 0) - COALESCE(SUM(jl.debit), 0)
+        ELSE COALESCE(SUM(jl.debit), 0) - COALESCE(SUM(jl.credit), 0)
+      END as amount
+    FROM journal_lines jl
+    JOIN journal_entries je ON je.id = jl.entry_id
+    JOIN accounts a ON a.id = jl.account_id
+    WHERE a.type IN ('income', 'expense')
+      AND je.date >= ? AND je.date <= ?
+      AND je.entry_type != 'closing'
+    GROUP BY a.id, month
+  `).all(fromDate, toDate) as Array<{ account_id: number; month: string; amount: number }>;
+
+  const budgetRows = db.prepare(`
+    SELECT account_id, month, amount FROM budgets
+    WHERE month >= ? AND month <= ?
+  `).all(fromMonth, toMonth) as Array<{ account_id: number; month: string; amount: number }>;
+
+  const accountIds = new Set([...actualRows, ...budgetRows].map((r) => r.account_id));
+  const accounts = accountIds.size > 0
+    ? db.prepare(`
+        SELECT id, code, name, type FROM accounts
+        WHERE id IN (${[...accountIds].map(() => "?").join(", ")}) AND type IN ('income', 'expense')
+        ORDER BY code
+      `).all(...accountIds) as Array<{ id: number; code: string; name: string; type: "income" | "expense" }>
+    : [];
+
+  const key = (accountId: number, month: string) => `${accountId}:${month}`;
+  const actuals = new Map(actualRows.map((r) => [key(r.account_id, r.month), r.amount]));
+  const budgets = new Map(budgetRows.map((r) => [key(r.account_id, r.month), r.amount]));
+
+  const lines: BudgetVsActualLine[] = accounts.map((account) => {
+    const byMonth = months.map((month) => ({
+      month,
+      ...budgetVariance(budgets.get(key(account.id, month)) || 0, actuals.get(key(account.id, month)) || 0, account.type),
+    }));
+    const budget = byMonth.reduce((sum, m) => sum + m.budget, 0);
+    const actual = byMonth.reduce((sum, m) => sum + m.actual, 0);
+
+    return {
+      account_id: account.id,
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      months: byMonth,
+      ...budgetVariance(budget, actual, account.type),
+    };
+  });
+
+  const totalFor = (items: BudgetVsActualLine[], type: "income" | "expense") => budgetVariance(
+    items.reduce((sum, l) => sum + l.budget, 0),
+    items.reduce((sum, l) => sum + l.actual, 0),
+    type
+  );
+
+  const revenueItems = lines.filter((l) => l.type === "income");
+  const expenseItems = lines.filter((l) => l.type === "expense");
+  const revenueTotal = totalFor(revenueItems, "income");
+  const expenseTotal = totalFor(expenseItems, "expense");
+
+  return {
+    from_date: fromDate,
+    to_date: toDate,
+    months,
+    revenue: { items: revenueItems, total: revenueTotal },
+    expenses: { items: expenseItems, total: expenseTotal },
+    net_income: budgetVariance(
+      revenueTotal.budget - expenseTotal.budget,
+      revenueTotal.actual - expenseTotal.actual,
+      "income"
+    ),
+  };
 }
 
 export function getReceivablesAging(): ReceivablesAgingReport {
@@ -250,11 +476,11 @@ export function getReceivablesAging(): ReceivablesAgingReport {
     SELECT
       i.number as invoice,
       c.name as customer,
-      (i.total - i.amount_paid) as amount,
+      ROUND((i.total - i.amount_paid) * COALESCE(i.exchange_rate, 1), 2) as amount,
       i.due_date
     FROM invoices i
     JOIN customers c ON i.customer_id = c.id
-    WHERE i.status NOT IN ('paid', 'cancelled')
+    WHERE i.status NOT IN ('draft', 'paid', 'cancelled')
     AND (i.total - i.amount_paid) > 0
     ORDER BY i.due_date
   `).all() as Array<{ invoice: string; customer: string; amount: number; due_date: string }>;
@@ -299,12 +525,69 @@ export function getReceivablesAging(): ReceivablesAgingReport {
   };
 }
 
+export function getPayablesAging(): PayablesAgingReport {
+  const db = getDb();
+  const today = new Date();
+
+  const bills = db.prepare(`
+    SELECT
+      b.number as bill,
+      v.name as vendor,
+      ROUND((b.total - b.amount_paid) * COALESCE(b.exchange_rate, 1), 2) as amount,
+      b.due_date
+    FROM bills b
+    JOIN vendors v ON b.vendor_id = v.id
+    WHERE b.status IN ('approved', 'partial')
+    AND (b.total - b.amount_paid) > 0
+    ORDER BY b.due_date
+  `).all() as Array<{ bill: string; vendor: string; amount: number; due_date: string }>;
+
+  const current: PayablesAgingReport["current"] = [];
+  const days_1_30: PayablesAgingReport["days_1_30"] = [];
+  const days_31_60: PayablesAgingReport["days_31_60"] = [];
+  const days_61_90: PayablesAgingReport["days_61_90"] = [];
+  const days_90_plus: PayablesAgingReport["days_90_plus"] = [];
+
+  for (const bill of bills) {
+    const dueDate = new Date(bill.due_date);
+    const daysOverdue = Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
+
+    if (daysOverdue <= 0) {
+      current.push(bill);
+    } else if (daysOverdue <= 30) {
+      days_1_30.push({ ...bill, days_overdue: daysOverdue });
+    } else if (daysOverdue <= 60) {
+      days_31_60.push({ ...bill, days_overdue: daysOverdue });
+    } else if (daysOverdue <= 90) {
+      days_61_90.push({ ...bill, days_overdue: daysOverdue });
+    } else {
+      days_90_plus.push({ ...bill, days_overdue: daysOverdue });
+    }
+  }
+
+  return {
+    current,
+    days_1_30,
+    days_31_60,
+    days_61_90,
+    days_90_plus,
+    totals: {
+      current: current.reduce((s, b) => s + b.amount, 0),
+      days_1_30: days_1_30.reduce((s, b) => s + b.amount, 0),
+      days_31_60: days_31_60.reduce((s, b) => s + b.amount, 0),
+      days_61_90: days_61_90.reduce((s, b) => s + b.amount, 0),
+      days_90_plus: days_90_plus.reduce((s, b) => s + b.amount, 0),
+      total: bills.reduce((s, b) => s + b.amount, 0),
+    },
+  };
+}
+
 export function getCashFlow(fromDate: string, toDate: string): CashFlowReport {
   const db = getDb();
 
-  // Get cash account (1100 series)
+  // Bank and cash accounts
   const cashAccountCodes = db.prepare(`
-    SELECT id FROM accounts WHERE code LIKE '11%' AND type = 'asset'
+    SELECT id FROM accounts WHERE is_bank = 1 AND type = 'asset'
   `).all() as Array<{ id: number }>;
   const cashAccountIds = cashAccountCodes.map((a) => a.id);
 
@@ -346,6 +629,7 @@ export function getCashFlow(fromDate: string, toDate: string): CashFlowReport {
     WHERE jl.account_id IN (${accountIdList})
     AND jl.debit > 0
     AND je.date >= ? AND je.date <= ?
+    AND je.id NOT IN (SELECT journal_entry_id FROM bank_transfers WHERE journal_entry_id IS NOT NULL)
     GROUP BY COALESCE(contra.name, je.description, 'Other')
     ORDER BY amount DESC
   `).all(fromDate, toDate) as Array<{ description: string; amount: number }>;
@@ -364,10 +648,19 @@ export function getCashFlow(fromDate: string, toDate: string): CashFlowReport {
     WHERE jl.account_id IN (${accountIdList})
     AND jl.credit > 0
     AND je.date >= ? AND je.date <= ?
+    AND je.id NOT IN (SELECT journal_entry_id FROM bank_transfers WHERE journal_entry_id IS NOT NULL)
     GROUP BY COALESCE(contra.name, je.description, 'Other')
     ORDER BY amount DESC
   `).all(fromDate, toDate) as Array<{ description: string; amount: number }>;
 
+  // Transfers between bank accounts only move cash around; their fees leave it
+  const transferFees = db.prepare(`
+    SELECT COALESCE(SUM(fee), 0) as amount FROM bank_transfers WHERE fee > 0 AND date >= ? AND date <= ?
+  `).get(fromDate, toDate) as { amount: number };
+  if (transferFees.amount > 0) {
+    outflows.push({ description: "Bank transfer fees", amount: transferFees.amount });
+  }
+
   const totalInflows = inflows.reduce((s, i) => s + i.amount, 0);
   const totalOutflows = outflows.reduce((s, i) => s + i.amount, 0);
   const netChange = totalInflows - totalOutflows;
@@ -399,8 +692,10 @@ export function getExpensesByCategory(fromDate: string, toDate: string): Array<{
       COALESCE(SUM(jl.debit), 0) - COALESCE(SUM(jl.credit), 0) as amount
     FROM accounts a
     LEFT JOIN journal_lines jl ON a.id = jl.account_id
-    LEFT JOIN journal_entries je ON jl.entry_id = je.id
-      AND je.date >= ? AND je.date <= ?
+      AND jl.entry_id IN (
+        SELECT id FROM journal_entries
+        WHERE date >= ? AND date <= ? AND entry_type != 'closing'
+      )
     WHERE a.type = 'expense' AND a.is_active = 1
     GROUP BY a.id, a.name
     HAVING amount > 0
@@ -425,6 +720,13 @@ export function getExpensesByCategory(fromDate: string, toDate: string): Array<{
  *
  * This report generates data needed for SST-02 return filing
  */
+// Taxable amount and tax at one rate, as charged on the documents' dates
+export interface SSTRateLine {
+  rate: number;
+  taxable: number;
+  tax: number;
+}
+
 export interface SSTReturnReport {
   period_start: string;
   period_end: string;
@@ -435,26 +737,25 @@ export interface SSTReturnReport {
   };
   // Part A: Sales Tax
   sales_tax: {
-    taxable_sales_5: number;       // Sales taxable at 5%
-    taxable_sales_10: number;      // Sales taxable at 10%
+    by_rate: SSTRateLine[];        // Taxable sales and tax output per rate
     exempt_sales: number;          // Exempt sales
     total_sales: number;
-    tax_output_5: number;          // 5% tax output
-    tax_output_10: number;         // 10% tax output
     total_sales_tax: number;
   };
   // Part B: Service Tax
   service_tax: {
-    taxable_services: number;      // Services taxable at 6%
+    by_rate: SSTRateLine[];        // e.g. 6% before March 2024 and 8% after
+    taxable_services: number;
     exempt_services: number;       // Exempt services
     total_services: number;
-    tax_output: number;            // 6% service tax
+    tax_output: number;
   };
   // Part C: Summary
   summary: {
     total_tax_payable: number;
     less_credit_brought_forward: number;
     less_bad_debt_relief: number;
+    add_bad_debt_recovered: number; // Relief paid back on debts recovered
     net_tax_payable: number;
   };
   // Supporting details
@@ -482,88 +783,96 @@ export function getSSTReturn(fromDate: string, toDate: string): SSTReturnReport
   const sstReg = getSetting("sst_registration") || "";
   const tin = getSetting("tax_id") || "";
 
-  // Get invoices with tax for the period
-  const invoicesWithTax = db.prepare(`
+  // Invoice lines for the period, classified by their tax codes. Lines
+  // without a code fall back to their LHDN tax type (02 = service tax).
+  const invoiceLines = db.prepare(`
     SELECT
       i.number as invoice_number,
       i.date,
+      i.document_type,
+      COALESCE(i.exchange_rate, 1) as exchange_rate,
       c.name as customer,
-      il.quantity * il.unit_price as line_total,
-      il.tax_amount,
+      COALESCE(ii.taxable_amount, ii.amount) as taxable_amount,
+      COALESCE(ii.tax_amount, 0) as tax_amount,
+      COALESCE(ii.tax_rate, 0) as tax_rate,
+      ii.tax_code,
       CASE
-        WHEN il.tax_rate = 5 THEN 'sales_5'
-        WHEN il.tax_rate = 10 THEN 'sales_10'
-        WHEN il.tax_rate = 6 THEN 'service'
-        ELSE 'exempt'
-      END as tax_type,
-      il.tax_rate
+        WHEN ii.tax_code IS NOT NULL THEN tc.sst_category
+        WHEN ii.tax_type = '02' THEN 'service'
+        WHEN ii.tax_type = '06' THEN NULL
+        ELSE 'sales'
+      END as category
     FROM invoices i
     JOIN customers c ON i.customer_id = c.id
-    JOIN invoice_lines il ON i.id = il.invoice_id
+    JOIN invoice_items ii ON i.id = ii.invoice_id
+    LEFT JOIN tax_codes tc ON tc.code = ii.tax_code
     WHERE i.date >= ? AND i.date <= ?
     AND i.status NOT IN ('cancelled', 'draft')
-    ORDER BY i.date
+    ORDER BY i.date, ii.sort_order
   `).all(fromDate, toDate) as Array<{
     invoice_number: string;
     date: string;
+    document_type: string | null;
+    exchange_rate: number;
     customer: string;
-    line_total: number;
+    taxable_amount: number;
     tax_amount: number;
-    tax_type: string;
     tax_rate: number;
+    tax_code: string | null;
+    category: 'sales' | 'service' | null;
   }>;
 
-  // Aggregate by tax type
-  let taxableSales5 = 0;
-  let taxableSales10 = 0;
+  // Combined codes ("SV8+LEVY") are reported per code at its own rate; the
+  // parts without an SST category are left off
+  const lines = invoiceLines.flatMap((row) => {
+    if (!row.tax_code?.includes('+')) return [row];
+    return splitStoredTax(row.taxable_amount, row.tax_code, row.tax_amount, row.date, 'sales').map((part) => ({
+      ...row,
+      tax_rate: part.rate,
+      tax_amount: part.amount,
+      category: getSSTCategory(part.code),
+    }));
+  });
+
+  // Aggregate by category and rate
+  const salesByRate = new Map<number, SSTRateLine>();
+  const servicesByRate = new Map<number, SSTRateLine>();
   let exemptSales = 0;
-  let taxOutput5 = 0;
-  let taxOutput10 = 0;
-  let taxableServices = 0;
   let exemptServices = 0;
-  let servicesTax = 0;
 
   const transactions: SSTReturnReport['transactions'] = [];
-  const seenInvoices = new Map<string, {
-    date: string;
-    invoice_number: string;
-    customer: string;
-    taxable_amount: number;
-    tax_rate: number;
-    tax_amount: number;
-    type: 'sales' | 'service';
-  }>();
-
-  for (const row of invoicesWithTax) {
-    const lineAmount = row.line_total || 0;
-    const taxAmount = row.tax_amount || 0;
-
-    switch (row.tax_type) {
-      case 'sales_5':
-        taxableSales5 += lineAmount;
-        taxOutput5 += taxAmount;
-        break;
-      case 'sales_10':
-        taxableSales10 += lineAmount;
-        taxOutput10 += taxAmount;
-        break;
-      case 'service':
-        taxableServices += lineAmount;
-        servicesTax += taxAmount;
-        break;
-      case 'exempt':
-      default:
-        // Classify as sales or service based on whether it looks like a service
-        // For now, assume it's sales unless specified
-        exemptSales += lineAmount;
+  const seenInvoices = new Map<string, SSTReturnReport['transactions'][number]>();
+
+  for (const row of lines) {
+    // Out of scope lines (not applicable) are left off the return
+    if (!row.category) continue;
+
+    // Credit notes reduce the period's figures; amounts are reported in base currency
+    const sign = row.document_type === '02' ? -1 : 1;
+    const lineAmount = money.multiply(sign * row.taxable_amount, row.exchange_rate);
+    const taxAmount = money.multiply(sign * row.tax_amount, row.exchange_rate);
+    const taxed = row.tax_rate > 0;
+
+    if (!taxed) {
+      if (row.category === 'service') {
+        exemptServices = money.add(exemptServices, lineAmount);
+      } else {
+        exemptSales = money.add(exemptSales, lineAmount);
+      }
+    } else {
+      const byRate = row.category === 'service' ? servicesByRate : salesByRate;
+      const line = byRate.get(row.tax_rate) || { rate: row.tax_rate, taxable: 0, tax: 0 };
+      line.taxable = money.add(line.taxable, lineAmount);
+      line.tax = money.add(line.tax, taxAmount);
+      byRate.set(row.tax_rate, line);
     }
 
-    // Aggregate transactions by invoice
-    const key = `${row.invoice_number}-${row.tax_rate}`;
+    // Aggregate transactions by invoice, rate and type
+    const key = `${row.invoice_number}-${row.tax_rate}-${row.category}`;
     const existing = seenInvoices.get(key);
     if (existing) {
-      existing.taxable_amount += lineAmount;
-      existing.tax_amount += taxAmount;
+      existing.taxable_amount = money.add(existing.taxable_amount, lineAmount);
+      existing.tax_amount = money.add(existing.tax_amount, taxAmount);
     } else {
       seenInvoices.set(key, {
         date: row.date,
@@ -572,7 +881,7 @@ export function getSSTReturn(fromDate: string, toDate: string): SSTReturnReport
         taxable_amount: lineAmount,
         tax_rate: row.tax_rate,
         tax_amount: taxAmount,
-        type: row.tax_type === 'service' ? 'service' : 'sales',
+        type: row.category,
       });
     }
   }
@@ -586,8 +895,14 @@ export function getSSTReturn(fromDate: string, toDate: string): SSTReturnReport
   const periodEnd = new Date(toDate);
   const filingDueDate = new Date(periodEnd.getFullYear(), periodEnd.getMonth() + 2, 0);
 
-  const totalSalesTax = taxOutput5 + taxOutput10;
-  const totalTaxPayable = totalSalesTax + servicesTax;
+  const salesRates = [...salesByRate.values()].sort((a, b) => a.rate - b.rate);
+  const serviceRates = [...servicesByRate.values()].sort((a, b) => a.rate - b.rate);
+  const taxableSales = money.sum(salesRates.map((r) => r.taxable));
+  const taxableServices = money.sum(serviceRates.map((r) => r.taxable));
+  const totalSalesTax = money.sum(salesRates.map((r) => r.tax));
+  const servicesTax = money.sum(serviceRates.map((r) => r.tax));
+  const totalTaxPayable = money.add(totalSalesTax, servicesTax);
+  const badDebts = getBadDebtReliefTotals(fromDate, toDate);
 
   return {
     period_start: fromDate,
@@ -598,28 +913,27 @@ export function getSSTReturn(fromDate: string, toDate: string): SSTReturnReport
       tin: tin || undefined,
     },
     sales_tax: {
-      taxable_sales_5: taxableSales5,
-      taxable_sales_10: taxableSales10,
+      by_rate: salesRates,
       exempt_sales: exemptSales,
-      total_sales: taxableSales5 + taxableSales10 + exemptSales,
-      tax_output_5: taxOutput5,
-      tax_output_10: taxOutput10,
+      total_sales: money.add(taxableSales, exemptSales),
       total_sales_tax: totalSalesTax,
     },
     service_tax: {
+      by_rate: serviceRates,
       taxable_services: taxableServices,
       exempt_services: exemptServices,
-      total_services: taxableServices + exemptServices,
+      total_services: money.add(taxableServices, exemptServices),
       tax_output: servicesTax,
     },
     summary: {
       total_tax_payable: totalTaxPayable,
       less_credit_brought_forward: 0, // Would need to track this from previous periods
-      less_bad_debt_relief: 0,        // Would need bad debt tracking
-      net_tax_payable: totalTaxPayable,
+      less_bad_debt_relief: badDebts.relief,
+      add_bad_debt_recovered: badDebts.repaid,
+      net_tax_payable: money.add(money.subtract(totalTaxPayable, badDebts.relief), badDebts.repaid),
     },
     transactions: transactions.sort((a, b) => a.date.localeCompare(b.date)),
     filing_due_date: filingDueDate.toISOString().split("T")[0],
-    is_nil_return: totalTaxPayable === 0 && taxableSales5 + taxableSales10 + taxableServices === 0,
+    is_nil_return: totalTaxPayable === 0 && taxableSales + taxableServices === 0 && badDebts.relief === 0 && badDebts.repaid === 0,
   };
 }
@@ -0,0 +1,224 @@
+// Customer statements of account: opening balance, activity with a running balance, and aging
+import { getDb } from "../db/index.js";
+import { getCustomer, type Customer } from "./customers.js";
+import { getBaseCurrency } from "./exchange-rates.js";
+import { money } from "../core/currency.js";
+import { daysBetween, today } from "../core/dates.js";
+
+export type StatementLineType =
+  | "invoice"
+  | "debit_note"
+  | "credit_note"
+  | "payment"
+  | "refund"
+  | "write_off"
+  | "write_off_reversal";
+
+export interface StatementLine {
+  date: string;
+  type: StatementLineType;
+  reference: string;
+  description: string;
+  due_date?: string;
+  debit: number;               // Increases what the customer owes
+  credit: number;
+  balance: number;             // Running balance after this line
+}
+
+export interface StatementAging {
+  current: number;
+  days_1_30: number;
+  days_31_60: number;
+  days_61_90: number;
+  days_90_plus: number;
+  unapplied_credits: number;   // Payments and credit notes not yet set against an invoice
+  total: number;               // Equals the closing balance
+}
+
+export interface CustomerStatement {
+  customer: Customer;
+  from_date: string;
+  to_date: string;
+  currency_code: string;
+  opening_balance: number;
+  lines: StatementLine[];
+  total_debits: number;
+  total_credits: number;
+  closing_balance: number;
+  aging: StatementAging;
+}
+
+export interface StatementOptions {
+  from_date?: string;          // Defaults to the start of the month two months before to_date
+  to_date?: string;            // Defaults to today
+  currency_code?: string;      // Documents in other currencies are left out; defaults to the base currency
+}
+
+interface StatementRow {
+  date: string;
+  type: StatementLineType;
+  reference: string;
+  description: string;
+  due_date: string | null;
+  debit: number;
+  credit: number;
+  sort: number;
+  id: number;
+}
+
+function defaultFromDate(toDate: string): string {
+  const d = new Date(`${toDate.slice(0, 7)}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() - 2);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * Everything that moved a customer's balance up to a date, in document currency.
+ * Same-day documents come before the payments and credits against them.
+ */
+function statementRows(customerId: number, currency: string, toDate: string): StatementRow[] {
+  const db = getDb();
+  const base = getBaseCurrency();
+
+  return db.prepare(`
+    SELECT * FROM (
+      SELECT i.date, CASE i.document_type WHEN '02' THEN 'credit_note' WHEN '03' THEN 'debit_note' ELSE 'invoice' END as type,
+        i.number as reference,
+        CASE i.document_type
+          WHEN '02' THEN 'Credit note' || COALESCE(' for ' || o.number, '')
+          WHEN '03' THEN 'Debit note' || COALESCE(' for ' || o.number, '')
+          ELSE 'Invoice'
+        END as description,
+        CASE WHEN i.document_type = '02' THEN NULL ELSE i.due_date END as due_date,
+        CASE WHEN i.document_type = '02' THEN 0 ELSE i.total END as debit,
+        CASE WHEN i.document_type = '02' THEN i.total ELSE 0 END as credit,
+        CASE WHEN i.document_type = '02' THEN 2 ELSE 1 END as sort, i.id
+      FROM invoices i
+      LEFT JOIN invoices o ON o.id = i.original_invoice_id
+      WHERE i.customer_id = ? AND i.status NOT IN ('draft', 'cancelled') AND COALESCE(i.currency_code, ?) = ?
+
+      UNION ALL
+      SELECT p.date, CASE p.type WHEN 'sent' THEN 'refund' ELSE 'payment' END,
+        COALESCE(p.reference, '#' || p.id),
+        CASE p.type WHEN 'sent' THEN 'Refund' ELSE 'Payment received' END,
+        NULL,
+        CASE p.type WHEN 'sent' THEN COALESCE(p.foreign_amount, p.amount) ELSE 0 END,
+        CASE p.type WHEN 'sent' THEN 0 ELSE COALESCE(p.foreign_amount, p.amount) END,
+        3, p.id
+      FROM payments p
+      WHERE p.customer_id = ? AND COALESCE(p.currency_code, ?) = ?
+
+      UNION ALL
+      SELECT bd.date, 'write_off', i.number, 'Bad debt written off', NULL, 0, bd.amount, 4, bd.id
+      FROM bad_debts bd
+      JOIN invoices i ON i.id = bd.invoice_id
+      WHERE i.customer_id = ? AND COALESCE(i.currency_code, ?) = ?
+
+      UNION ALL
+      SELECT r.date, 'write_off_reversal', i.number, 'Written-off balance recovered', NULL, r.amount, 0, 2, r.id
+      FROM bad_debt_recoveries r
+      JOIN bad_debts bd ON bd.id = r.bad_debt_id
+      JOIN invoices i ON i.id = bd.invoice_id
+      WHERE i.customer_id = ? AND COALESCE(i.currency_code, ?) = ?
+    )
+    WHERE date <= ?
+    ORDER BY date, sort, id
+  `).all(
+    customerId, base, currency,
+    customerId, base, currency,
+    customerId, base, currency,
+    customerId, base, currency,
+    toDate
+  ) as StatementRow[];
+}
+
+/**
+ * What was still open on each invoice at a date, bucketed by days past due.
+ * Money recovered on a written-off invoice offsets its own reversal line, so it
+ * does not reopen the invoice.
+ */
+function statementAging(customerId: number, currency: string, toDate: string, closingBalance: number): StatementAging {
+  const db = getDb();
+  const open = db.prepare(`
+    SELECT i.due_date,
+      i.total
+        - COALESCE((SELECT SUM(pa.amount) FROM payment_allocations pa WHERE pa.invoice_id = i.id AND pa.date <= ?), 0)
+        - COALESCE((SELECT SUM(bd.amount) FROM bad_debts bd WHERE bd.invoice_id = i.id AND bd.date <= ?), 0) as outstanding
+    FROM invoices i
+    WHERE i.customer_id = ? AND i.date <= ? AND i.status NOT IN ('draft', 'cancelled')
+      AND COALESCE(i.document_type, '01') != '02' AND COALESCE(i.currency_code, ?) = ?
+  `).all(toDate, toDate, customerId, toDate, getBaseCurrency(), currency) as Array<{ due_date: string; outstanding: number }>;
+
+  const aging: StatementAging = {
+    current: 0,
+    days_1_30: 0,
+    days_31_60: 0,
+    days_61_90: 0,
+    days_90_plus: 0,
+    unapplied_credits: 0,
+    total: closingBalance,
+  };
+  for (const row of open) {
+    const outstanding = money.round2(row.outstanding);
+    if (outstanding <= 0) continue;
+    const days = daysBetween(row.due_date, toDate);
+    const bucket = days <= 0 ? "current" : days <= 30 ? "days_1_30" : days <= 60 ? "days_31_60" : days <= 90 ? "days_61_90" : "days_90_plus";
+    aging[bucket] = money.add(aging[bucket], outstanding);
+  }
+
+  // Whatever the open invoices do not explain is credit waiting to be applied
+  const invoiced = money.sum([aging.current, aging.days_1_30, aging.days_31_60, aging.days_61_90, aging.days_90_plus]);
+  aging.unapplied_credits = money.subtract(invoiced, closingBalance);
+  return aging;
+}
+
+/**
+ * Statement of account for a customer over a date range
+ */
+export function getCustomerStatement(customerIdOrName: number | string, options: StatementOptions = {}): CustomerStatement {
+  const customer = getCustomer(customerIdOrName);
+  if (!customer) {
+    throw new Error(`Customer not found: ${customerIdOrName}`);
+  }
+
+  const toDate = options.to_date || today();
+  const fromDate = options.from_date || defaultFromDate(toDate);
+  if (fromDate > toDate) {
+    throw new Error("Statement start date must be on or before the end date");
+  }
+  const currency = (options.currency_code || getBaseCurrency()).toUpperCase();
+
+  let openingBalance = 0;
+  let balance = 0;
+  const lines: StatementLine[] = [];
+  for (const row of statementRows(customer.id, currency, toDate)) {
+    balance = money.add(balance, money.subtract(row.debit, row.credit));
+    if (row.date < fromDate) {
+      openingBalance = balance;
+      continue;
+    }
+    lines.push({
+      date: row.date,
+      type: row.type,
+      reference: row.reference,
+      description: row.description,
+      ...(row.due_date ? { due_date: row.due_date } : {}),
+      debit: money.round2(row.debit),
+      credit: money.round2(row.credit),
+      balance,
+    });
+  }
+
+  return {
+    customer,
+    from_date: fromDate,
+    to_date: toDate,
+    currency_code: currency,
+    opening_balance: openingBalance,
+    lines,
+    total_debits: money.sum(lines.map((l) => l.debit)),
+    total_credits: money.sum(lines.map((l) => l.credit)),
+    closing_balance: balance,
+    aging: statementAging(customer.id, currency, toDate, balance),
+  };
+}
@@ -0,0 +1,327 @@
+// Tax codes: the rate, accounts and LHDN tax type applied to a document line.
+// Shared by invoices (tax collected), bills and expenses (tax paid).
+import { getDb, getSetting, logAudit, withTransaction } from "../db/index.js";
+import { getAccountByCode } from "./accounts.js";
+import { TAX_TYPES } from "../services/myinvois/constants.js";
+import { money } from "../core/currency.js";
+import { today, assertIsoDate, addDays } from "../core/dates.js";
+
+export type SSTCategory = "sales" | "service";
+
+export interface TaxCode {
+  id: number;
+  code: string;
+  name: string;
+  rate: number;                       // Current rate; see tax_code_rates for history
+  tax_type: string;                   // LHDN tax type (01 sales, 02 service, E exempt...)
+  sst_category: SSTCategory | null;   // Which part of the SST-02 return the line belongs to
+  collected_account_id: number | null;
+  collected_account_code?: string;
+  paid_account_id: number | null;     // Where recoverable tax on purchases is held
+  paid_account_code?: string;
+  recoverable: number;                // Tax paid can be claimed back instead of being a cost
+  compound: number;                   // Charged on the amount plus the other taxes on the line
+  effective_from: string | null;      // Dates the code itself may be used
+  effective_to: string | null;
+  is_active: number;
+  created_at: string;
+}
+
+export interface TaxCodeRate {
+  id: number;
+  tax_code_id: number;
+  rate: number;
+  effective_from: string;
+  effective_to: string | null;
+}
+
+export interface CreateTaxCodeData {
+  code: string;
+  name: string;
+  rate: number;
+  tax_type?: string;
+  sst_category?: SSTCategory;
+  account_code?: string;      // Liability account tax collected is credited to, defaults to 2300
+  paid_account_code?: string; // Asset account for recoverable tax paid, defaults to 1450
+  recoverable?: boolean;
+  compound?: boolean;
+  effective_from?: string;
+  effective_to?: string;
+}
+
+// One code's share of the tax on a line
+export interface TaxPart {
+  code: string;
+  rate: number;
+  amount: number;
+  account_id: number | null; // null: not recoverable, the tax is part of the cost
+}
+
+export interface TaxCalculation {
+  code: string;     // Normalised code(s), e.g. "GST+PST"
+  tax_type: string; // LHDN tax type of the first code
+  net: number;
+  tax: number;
+  gross: number;
+  rate: number; // Effective combined rate
+  parts: TaxPart[];
+}
+
+export function getTaxCode(code: string): TaxCode | undefined {
+  const db = getDb();
+  return db.prepare(`
+    SELECT t.*, a.code as collected_account_code, p.code as paid_account_code
+    FROM tax_codes t
+    LEFT JOIN accounts a ON t.collected_account_id = a.id
+    LEFT JOIN accounts p ON t.paid_account_id = p.id
+    WHERE UPPER(t.code) = UPPER(?)
+  `).get(code.trim()) as TaxCode | undefined;
+}
+
+export function listTaxCodes(options: { include_inactive?: boolean } = {}): TaxCode[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT t.*, a.code as collected_account_code, p.code as paid_account_code
+    FROM tax_codes t
+    LEFT JOIN accounts a ON t.collected_account_id = a.id
+    LEFT JOIN accounts p ON t.paid_account_id = p.id
+    ${options.include_inactive ? "" : "WHERE t.is_active = 1"}
+    ORDER BY t.sst_category, t.rate, t.code
+  `).all() as TaxCode[];
+}
+
+export function createTaxCode(data: CreateTaxCodeData): TaxCode {
+  const code = data.code.trim().toUpperCase();
+  if (!code) {
+    throw new Error("Tax code is required");
+  }
+  if (code.includes("+")) {
+    throw new Error("Tax codes cannot contain \"+\"; it joins codes charged together");
+  }
+  if (getTaxCode(code)) {
+    throw new Error(`Tax code ${code} already exists`);
+  }
+  if (data.rate < 0) {
+    throw new Error("Tax rate cannot be negative");
+  }
+
+  const taxType = data.tax_type || (data.rate > 0 ? TAX_TYPES.SALES_TAX : TAX_TYPES.EXEMPT);
+  if (!(Object.values(TAX_TYPES) as string[]).includes(taxType)) {
+    throw new Error(`Unknown LHDN tax type "${taxType}". Use one of: ${Object.values(TAX_TYPES).join(", ")}`);
+  }
+  if (data.effective_from) assertIsoDate(data.effective_from);
+  if (data.effective_to) assertIsoDate(data.effective_to);
+
+  const collected = getAccountByCode(data.account_code || "2300");
+  if (!collected) {
+    throw new Error(`Account ${data.account_code || "2300"} not found`);
+  }
+  if (collected.type !== "liability") {
+    throw new Error(`Tax must be collected into a liability account, ${collected.code} is ${collected.type}`);
+  }
+
+  let paidAccountId: number | null = null;
+  if (data.recoverable) {
+    const paid = getAccountByCode(data.paid_account_code || "1450");
+    if (!paid) {
+      throw new Error(`Account ${data.paid_account_code || "1450"} not found`);
+    }
+    if (paid.type !== "asset" && paid.type !== "liability") {
+      throw new Error(`Recoverable tax must be held in an asset or liability account, ${paid.code} is ${paid.type}`);
+    }
+    paidAccountId = paid.id;
+  }
+
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO tax_codes (code, name, rate, tax_type, sst_category, collected_account_id, paid_account_id, recoverable, compound, effective_from, effective_to)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    code, data.name, data.rate, taxType, data.sst_category || null, collected.id, paidAccountId,
+    data.recoverable ? 1 : 0, data.compound ? 1 : 0, data.effective_from || null, data.effective_to || null
+  );
+
+  const taxCode = getTaxCode(code)!;
+  logAudit("create", "tax_code", taxCode.id, null, taxCode);
+  return taxCode;
+}
+
+export function deactivateTaxCode(code: string): TaxCode {
+  const taxCode = getTaxCode(code);
+  if (!taxCode) {
+    throw new Error(`Tax code not found: ${code}`);
+  }
+  getDb().prepare("UPDATE tax_codes SET is_active = 0 WHERE id = ?").run(taxCode.id);
+  logAudit("deactivate", "tax_code", taxCode.id, { is_active: 1 }, { is_active: 0 });
+  return getTaxCode(code)!;
+}
+
+export function getTaxCodeRates(code: string): TaxCodeRate[] {
+  const taxCode = getTaxCode(code);
+  if (!taxCode) {
+    throw new Error(`Tax code not found: ${code}`);
+  }
+  return getDb().prepare(`
+    SELECT * FROM tax_code_rates WHERE tax_code_id = ? ORDER BY effective_from
+  `).all(taxCode.id) as TaxCodeRate[];
+}
+
+/**
+ * Change a code's rate from a date. The rate in force until then is kept as
+ * history, so documents dated before the change still use it.
+ */
+export function setTaxRate(code: string, rate: number, effectiveFrom: string): TaxCode {
+  assertIsoDate(effectiveFrom);
+  if (rate < 0) {
+    throw new Error("Tax rate cannot be negative");
+  }
+
+  return withTransaction(() => {
+    const db = getDb();
+    const taxCode = getTaxCode(code);
+    if (!taxCode) {
+      throw new Error(`Tax code not found: ${code}`);
+    }
+
+    const history = getTaxCodeRates(taxCode.code);
+    if (history.some((r) => r.effective_from >= effectiveFrom)) {
+      throw new Error(`Tax code ${taxCode.code} already has a rate from ${effectiveFrom} or later`);
+    }
+    if (history.length === 0) {
+      // Keep the rate used so far for earlier documents
+      db.prepare(`
+        INSERT INTO tax_code_rates (tax_code_id, rate, effective_from) VALUES (?, ?, ?)
+      `).run(taxCode.id, taxCode.rate, taxCode.effective_from || "1900-01-01");
+    }
+
+    db.prepare(`
+      UPDATE tax_code_rates SET effective_to = ? WHERE tax_code_id = ? AND effective_to IS NULL
+    `).run(addDays(effectiveFrom, -1), taxCode.id);
+    db.prepare(`
+      INSERT INTO tax_code_rates (tax_code_id, rate, effective_from) VALUES (?, ?, ?)
+    `).run(taxCode.id, rate, effectiveFrom);
+    db.prepare("UPDATE tax_codes SET rate = ? WHERE id = ?").run(rate, taxCode.id);
+
+    logAudit("update_rate", "tax_code", taxCode.id, { rate: taxCode.rate }, { rate, effective_from: effectiveFrom });
+    return getTaxCode(taxCode.code)!;
+  });
+}
+
+/**
+ * Look up a tax code that can be used on a document dated `date`.
+ */
+export function requireTaxCode(code: string, date: string = today()): TaxCode {
+  const taxCode = getTaxCode(code);
+  if (!taxCode) {
+    throw new Error(`Tax code not found: ${code}`);
+  }
+  if (!taxCode.is_active) {
+    throw new Error(`Tax code ${taxCode.code} is no longer active`);
+  }
+  if ((taxCode.effective_from && date < taxCode.effective_from) || (taxCode.effective_to && date > taxCode.effective_to)) {
+    throw new Error(`Tax code ${taxCode.code} cannot be used on ${date}`);
+  }
+  return taxCode;
+}
+
+/**
+ * Rate in force for a code on a date
+ */
+export function getTaxRate(code: string | TaxCode, date: string = today()): number {
+  const taxCode = typeof code === "string" ? getTaxCode(code) : code;
+  if (!taxCode) {
+    throw new Error(`Tax code not found: ${code}`);
+  }
+  const row = getDb().prepare(`
+    SELECT rate FROM tax_code_rates
+    WHERE tax_code_id = ? AND effective_from <= ? AND (effective_to IS NULL OR effective_to >= ?)
+    ORDER BY effective_from DESC LIMIT 1
+  `).get(taxCode.id, date, date) as { rate: number } | undefined;
+  return row ? row.rate : taxCode.rate;
+}
+
+/**
+ * Code applied to lines that don't name one, from the default_tax_code setting
+ */
+export function getDefaultTaxCode(): TaxCode | undefined {
+  const code = getSetting("default_tax_code");
+  return code ? getTaxCode(code) : undefined;
+}
+
+/**
+ * Split a line's tax over one or more codes ("SV" or "GST+PST"). Simple codes
+ * are charged on the net amount, compound codes on the net plus the simple
+ * taxes. Sales tax goes to each code's collected account; tax on purchases
+ * goes to the paid account when recoverable and is otherwise left with the cost
+ * (account_id null). With `inclusive` the amount already contains the tax.
+ */
+export function calculateTax(
+  amount: number,
+  codes: string,
+  date: string,
+  options: { side: "sales" | "purchases"; inclusive?: boolean }
+): TaxCalculation {
+  const taxCodes = codes.split("+").map((c) => requireTaxCode(c, date));
+  const rated = taxCodes.map((code) => ({ code, rate: getTaxRate(code, date) }));
+
+  const simpleRate = rated.filter((r) => !r.code.compound).reduce((sum, r) => sum + r.rate, 0);
+  const compoundRate = rated.filter((r) => r.code.compound).reduce((sum, r) => sum + r.rate, 0);
+  const multiplier = (1 + simpleRate / 100) * (1 + compoundRate / 100);
+
+  const net = options.inclusive ? money.round2(amount / multiplier) : amount;
+  const simpleTax = money.percent(net, simpleRate);
+  const parts: TaxPart[] = rated.map(({ code, rate }) => ({
+    code: code.code,
+    rate,
+    amount: money.percent(code.compound ? money.add(net, simpleTax) : net, rate),
+    account_id: options.side === "sales"
+      ? code.collected_account_id
+      : code.recoverable ? code.paid_account_id : null,
+  }));
+
+  let tax = money.sum(parts.map((p) => p.amount));
+  if (options.inclusive && parts.length > 0) {
+    // The last code takes the rounding so net + tax is exactly the amount paid
+    const last = parts[parts.length - 1];
+    last.amount = money.add(last.amount, money.subtract(money.subtract(amount, net), tax));
+    tax = money.subtract(amount, net);
+  }
+
+  return {
+    code: taxCodes.map((c) => c.code).join("+"),
+    tax_type: taxCodes[0].tax_type,
+    net,
+    tax,
+    gross: money.add(net, tax),
+    rate: Math.round((multiplier - 1) * 1000000) / 10000,
+    parts,
+  };
+}
+
+/**
+ * Split the tax stored on a document line over its codes again, at the document
+ * date. The last code keeps any difference from the stored amount.
+ */
+export function splitStoredTax(
+  amount: number,
+  codes: string,
+  taxAmount: number,
+  date: string,
+  side: "sales" | "purchases"
+): TaxPart[] {
+  const parts = calculateTax(amount, codes, date, { side }).parts;
+  const last = parts[parts.length - 1];
+  last.amount = money.add(last.amount, money.subtract(taxAmount, money.sum(parts.map((p) => p.amount))));
+  return parts;
+}
+
+/**
+ * SST return category of a (possibly combined) code: the first code that has one
+ */
+export function getSSTCategory(codes: string): SSTCategory | null {
+  for (const code of codes.split("+")) {
+    const category = getTaxCode(code)?.sst_category;
+    if (category) return category;
+  }
+  return null;
+}
@@ -0,0 +1,281 @@
+// Time tracked against customers, and billing unbilled hours as invoice lines
+import { getDb, getSetting, logAudit, withTransaction } from "../db/index.js";
+import { createInvoice, type CreateInvoiceData, type Invoice } from "./invoices.js";
+import { resolveTrackingRefs, normalizeTracking } from "./tracking.js";
+import { money } from "../core/currency.js";
+import { today } from "../core/dates.js";
+
+export interface TimeEntry {
+  id: number;
+  date: string;
+  customer_id: number;
+  customer_name?: string;
+  tracking_value_id?: number | null; // Project
+  project_name?: string | null;
+  hours: number | null; // Null while the timer is running
+  rate: number;
+  amount: number;       // Hours x rate
+  description?: string | null;
+  is_billable: number;
+  started_at?: string | null;
+  invoice_id?: number | null;
+  invoice_number?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateTimeEntryData {
+  customer_id: number;
+  date?: string;
+  hours: number;
+  rate?: number;             // Defaults to the hourly_rate setting
+  description?: string;
+  project?: number | string; // Tracking value id, a Project name or "Dimension:Value"
+  billable?: boolean;        // Defaults to true
+}
+
+export interface UnbilledTime {
+  customer_id: number;
+  customer_name: string;
+  entries: number;
+  hours: number;
+  amount: number;
+  oldest_date: string;
+}
+
+const ENTRY_SELECT = `
+  SELECT t.*, c.name as customer_name, tv.name as project_name, i.number as invoice_number,
+    ROUND(COALESCE(t.hours, 0) * t.rate, 2) as amount
+  FROM time_entries t
+  JOIN customers c ON t.customer_id = c.id
+  LEFT JOIN tracking_values tv ON t.tracking_value_id = tv.id
+  LEFT JOIN invoices i ON t.invoice_id = i.id
+`;
+
+function roundHours(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function resolveProject(project: number | string | undefined): number | null {
+  if (project === undefined || project === "") return null;
+  const [valueId] = typeof project === "number"
+    ? [project]
+    : resolveTrackingRefs([/[:=]/.test(project) ? project : `Project:${project}`]);
+  normalizeTracking([valueId]);
+  return valueId;
+}
+
+function resolveRate(rate: number | undefined): number {
+  const value = rate ?? (getSetting("hourly_rate") ? parseFloat(getSetting("hourly_rate")!) : undefined);
+  if (value === undefined || isNaN(value)) {
+    throw new Error("No hourly rate: give a rate or set the hourly_rate setting");
+  }
+  if (value < 0) {
+    throw new Error("Hourly rate cannot be negative");
+  }
+  return value;
+}
+
+function requireCustomer(customerId: number): void {
+  const customer = getDb().prepare("SELECT id FROM customers WHERE id = ?").get(customerId);
+  if (!customer) {
+    throw new Error(`Customer with ID ${customerId} not found`);
+  }
+}
+
+function insertEntry(data: Omit<CreateTimeEntryData, "hours"> & { hours: number | null; started_at?: string }): TimeEntry {
+  requireCustomer(data.customer_id);
+  const result = getDb().prepare(`
+    INSERT INTO time_entries (date, customer_id, tracking_value_id, hours, rate, description, is_billable, started_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    data.date || today(),
+    data.customer_id,
+    resolveProject(data.project),
+    data.hours,
+    resolveRate(data.rate),
+    data.description || null,
+    data.billable === false ? 0 : 1,
+    data.started_at || null
+  );
+  return getTimeEntry(result.lastInsertRowid as number)!;
+}
+
+/**
+ * Record hours already worked.
+ */
+export function logTime(data: CreateTimeEntryData): TimeEntry {
+  if (!(data.hours > 0) || data.hours > 24) {
+    throw new Error("Hours must be more than 0 and at most 24");
+  }
+  const entry = insertEntry({ ...data, hours: roundHours(data.hours) });
+  logAudit("create", "time_entry", entry.id, null, entry);
+  return entry;
+}
+
+export function getRunningTimer(): TimeEntry | undefined {
+  return getDb().prepare(`${ENTRY_SELECT} WHERE t.hours IS NULL ORDER BY t.id LIMIT 1`).get() as TimeEntry | undefined;
+}
+
+/**
+ * Start a timer for a customer. One timer runs at a time; the entry gets
+ * its hours when the timer is stopped.
+ */
+export function startTimer(data: Omit<CreateTimeEntryData, "hours" | "date">, now: Date = new Date()): TimeEntry {
+  const running = getRunningTimer();
+  if (running) {
+    throw new Error(`A timer is already running for ${running.customer_name} since ${running.started_at!.slice(11, 16)}`);
+  }
+  const entry = insertEntry({
+    ...data,
+    date: now.toISOString().split("T")[0],
+    hours: null,
+    started_at: now.toISOString(),
+  });
+  logAudit("start", "time_entry", entry.id, null, entry);
+  return entry;
+}
+
+// Stop the running timer, recording at least a minute
+export function stopTimer(now: Date = new Date()): TimeEntry {
+  const running = getRunningTimer();
+  if (!running) {
+    throw new Error("No timer is running");
+  }
+  const elapsed = (now.getTime() - new Date(running.started_at!).getTime()) / 3600000;
+  const hours = Math.max(0.01, roundHours(elapsed));
+
+  getDb().prepare("UPDATE time_entries SET hours = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(hours, running.id);
+  logAudit("stop", "time_entry", running.id, { hours: null }, { hours });
+  return getTimeEntry(running.id)!;
+}
+
+export function getTimeEntry(id: number): TimeEntry | undefined {
+  return getDb().prepare(`${ENTRY_SELECT} WHERE t.id = ?`).get(id) as TimeEntry | undefined;
+}
+
+export function listTimeEntries(filters: {
+  customer_id?: number;
+  status?: "unbilled" | "billed" | "non_billable";
+  from_date?: string;
+  to_date?: string;
+  limit?: number;
+} = {}): TimeEntry[] {
+  let sql = `${ENTRY_SELECT} WHERE 1=1`;
+  const params: unknown[] = [];
+
+  if (filters.customer_id) {
+    sql += " AND t.customer_id = ?";
+    params.push(filters.customer_id);
+  }
+  if (filters.status === "unbilled") {
+    sql += " AND t.is_billable = 1 AND t.invoice_id IS NULL AND t.hours IS NOT NULL";
+  } else if (filters.status === "billed") {
+    sql += " AND t.invoice_id IS NOT NULL";
+  } else if (filters.status === "non_billable") {
+    sql += " AND t.is_billable = 0";
+  }
+  if (filters.from_date) {
+    sql += " AND t.date >= ?";
+    params.push(filters.from_date);
+  }
+  if (filters.to_date) {
+    sql += " AND t.date <= ?";
+    params.push(filters.to_date);
+  }
+
+  sql += " ORDER BY t.date DESC, t.id DESC";
+
+  if (filters.limit) {
+    sql += " LIMIT ?";
+    params.push(filters.limit);
+  }
+
+  return getDb().prepare(sql).all(...params) as TimeEntry[];
+}
+
+export function deleteTimeEntry(id: number): { success: boolean; error?: string } {
+  const entry = getTimeEntry(id);
+  if (!entry) {
+    return { success: false, error: "Time entry not found" };
+  }
+  if (entry.invoice_id) {
+    return { success: false, error: `Time entry ${id} has been billed on invoice ${entry.invoice_number}` };
+  }
+
+  getDb().prepare("DELETE FROM time_entries WHERE id = ?").run(id);
+  logAudit("delete", "time_entry", id, entry, null);
+  return { success: true };
+}
+
+/**
+ * Billable hours not yet invoiced (work in progress), per customer.
+ */
+export function getUnbilledTime(asOfDate?: string): { customers: UnbilledTime[]; hours: number; amount: number } {
+  const customers = getDb().prepare(`
+    SELECT t.customer_id, c.name as customer_name, COUNT(*) as entries,
+      ROUND(SUM(t.hours), 2) as hours, ROUND(SUM(ROUND(t.hours * t.rate, 2)), 2) as amount, MIN(t.date) as oldest_date
+    FROM time_entries t
+    JOIN customers c ON t.customer_id = c.id
+    WHERE t.is_billable = 1 AND t.invoice_id IS NULL AND t.hours IS NOT NULL AND t.date <= ?
+    GROUP BY t.customer_id
+    ORDER BY amount DESC
+  `).all(asOfDate || "9999-12-31") as UnbilledTime[];
+
+  return {
+    customers,
+    hours: roundHours(customers.reduce((sum, c) => sum + c.hours, 0)),
+    amount: money.sum(customers.map((c) => c.amount)),
+  };
+}
+
+/**
+ * Bill a customer's unbilled hours on a draft invoice. Entries are grouped
+ * into one line per project and rate (or one line per entry), tagged with
+ * the project so revenue is tracked by it, and marked billed. Deleting or
+ * cancelling the invoice makes them unbilled again.
+ */
+export function billUnbilledTime(
+  customerId: number,
+  options: { through?: string; date?: string; group_by?: "project" | "entry" } = {}
+): { invoice: Invoice; entries: TimeEntry[] } {
+  return withTransaction(() => {
+    const db = getDb();
+    const entries = listTimeEntries({ customer_id: customerId, status: "unbilled", to_date: options.through }).reverse();
+    if (entries.length === 0) {
+      throw new Error("No unbilled time for this customer");
+    }
+
+    const label = getSetting("time_invoice_description") || "Consulting hours";
+    const groups = new Map<string, TimeEntry[]>();
+    for (const entry of entries) {
+      const key = options.group_by === "entry" ? String(entry.id) : `${entry.tracking_value_id ?? ""}|${entry.rate}`;
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+
+    const items: CreateInvoiceData["items"] = [...groups.values()].map((group) => {
+      const [first] = group;
+      const last = group[group.length - 1];
+      const period = first.date === last.date ? first.date : `${first.date} to ${last.date}`;
+      return {
+        description: options.group_by === "entry"
+          ? `${first.date} ${first.description || label}${first.project_name ? ` (${first.project_name})` : ""}`
+          : `${[label, first.project_name].filter(Boolean).join(" - ")} (${period})`,
+        quantity: roundHours(group.reduce((sum, entry) => sum + entry.hours!, 0)),
+        unit_price: first.rate,
+        unit_code: "HUR",
+        tracking: first.tracking_value_id ? [first.tracking_value_id] : undefined,
+      };
+    });
+
+    const invoice = createInvoice({ customer_id: customerId, date: options.date, items });
+
+    const markBilled = db.prepare("UPDATE time_entries SET invoice_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?");
+    for (const entry of entries) {
+      markBilled.run(invoice.id, entry.id);
+    }
+    logAudit("bill", "time_entry", invoice.id, null, { invoice_id: invoice.id, entry_ids: entries.map((e) => e.id) });
+
+    return { invoice, entries: entries.map((entry) => getTimeEntry(entry.id)!) };
+  });
+}
@@ -0,0 +1,305 @@
+// Tracking dimensions (projects, departments, locations...) for journal lines
+import { getDb, logAudit } from "../db/index.js";
+
+export interface TrackingDimension {
+  id: number;
+  name: string;
+  is_active: number;
+  created_at: string;
+  values?: TrackingValue[];
+}
+
+export interface TrackingValue {
+  id: number;
+  dimension_id: number;
+  dimension_name?: string;
+  name: string;
+  is_active: number;
+  created_at: string;
+}
+
+// A dimension value as attached to a line, item or expense
+export interface TrackingTag {
+  dimension_id: number;
+  dimension_name: string;
+  value_id: number;
+  value_name: string;
+}
+
+// Report option: filter to one value and/or break results down by a dimension
+export interface TrackingFilter {
+  tracking_value_id?: number;
+  group_by_dimension_id?: number;
+}
+
+export type TrackedEntity = "invoice_item" | "expense";
+
+export function createTrackingDimension(name: string): TrackingDimension {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Dimension name is required");
+  }
+
+  const db = getDb();
+  if (db.prepare("SELECT 1 FROM tracking_dimensions WHERE LOWER(name) = LOWER(?)").get(trimmed)) {
+    throw new Error(`Tracking dimension "${trimmed}" already exists`);
+  }
+
+  const result = db.prepare("INSERT INTO tracking_dimensions (name) VALUES (?)").run(trimmed);
+  const dimension = getTrackingDimension(result.lastInsertRowid as number)!;
+  logAudit("create", "tracking_dimension", dimension.id, null, dimension);
+  return dimension;
+}
+
+export function getTrackingDimension(idOrName: number | string): TrackingDimension | undefined {
+  const db = getDb();
+  const dimension = typeof idOrName === "number"
+    ? db.prepare("SELECT * FROM tracking_dimensions WHERE id = ?").get(idOrName)
+    : db.prepare("SELECT * FROM tracking_dimensions WHERE LOWER(name) = LOWER(?)").get(idOrName.trim());
+  return dimension as TrackingDimension | undefined;
+}
+
+export function listTrackingDimensions(options: { include_inactive?: boolean; with_values?: boolean } = {}): TrackingDimension[] {
+  const db = getDb();
+  const dimensions = db.prepare(`
+    SELECT * FROM tracking_dimensions
+    ${options.include_inactive ? "" : "WHERE is_active = 1"}
+    ORDER BY name
+  `).all() as TrackingDimension[];
+
+  if (options.with_values) {
+    for (const dimension of dimensions) {
+      dimension.values = listTrackingValues(dimension.id, options);
+    }
+  }
+  return dimensions;
+}
+
+export function createTrackingValue(dimension: number | string, name: string): TrackingValue {
+  const dim = getTrackingDimension(dimension);
+  if (!dim) {
+    throw new Error(`Tracking dimension not found: ${dimension}`);
+  }
+
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Value name is required");
+  }
+
+  const db = getDb();
+  if (db.prepare("SELECT 1 FROM tracking_values WHERE dimension_id = ? AND LOWER(name) = LOWER(?)").get(dim.id, trimmed)) {
+    throw new Error(`${dim.name} "${trimmed}" already exists`);
+  }
+
+  const result = db.prepare("INSERT INTO tracking_values (dimension_id, name) VALUES (?, ?)").run(dim.id, trimmed);
+  const value = getTrackingValue(result.lastInsertRowid as number)!;
+  logAudit("create", "tracking_value", value.id, null, value);
+  return value;
+}
+
+export function getTrackingValue(id: number): TrackingValue | undefined {
+  const db = getDb();
+  return db.prepare(`
+    SELECT v.*, d.name as dimension_name
+    FROM tracking_values v
+    JOIN tracking_dimensions d ON d.id = v.dimension_id
+    WHERE v.id = ?
+  `).get(id) as TrackingValue | undefined;
+}
+
+export function listTrackingValues(
+  dimension?: number | string,
+  options: { include_inactive?: boolean } = {}
+): TrackingValue[] {
+  const db = getDb();
+  let sql = `
+    SELECT v.*, d.name as dimension_name
+    FROM tracking_values v
+    JOIN tracking_dimensions d ON d.id = v.dimension_id
+    WHERE 1=1
+  `;
+  const params: number[] = [];
+
+  if (dimension !== undefined) {
+    const dim = getTrackingDimension(dimension);
+    if (!dim) return [];
+    sql += " AND v.dimension_id = ?";
+    params.push(dim.id);
+  }
+  if (!options.include_inactive) {
+    sql += " AND v.is_active = 1 AND d.is_active = 1";
+  }
+
+  sql += " ORDER BY d.name, v.name";
+  return db.prepare(sql).all(...params) as TrackingValue[];
+}
+
+/**
+ * Archive a value so it can no longer be assigned; history keeps it
+ */
+export function archiveTrackingValue(id: number): { success: boolean; error?: string } {
+  const value = getTrackingValue(id);
+  if (!value) {
+    return { success: false, error: "Tracking value not found" };
+  }
+
+  getDb().prepare("UPDATE tracking_values SET is_active = 0 WHERE id = ?").run(id);
+  logAudit("update", "tracking_value", id, value, { ...value, is_active: 0 });
+  return { success: true };
+}
+
+/**
+ * Delete a value that has never been used
+ */
+export function deleteTrackingValue(id: number): { success: boolean; error?: string } {
+  const db = getDb();
+  const value = getTrackingValue(id);
+  if (!value) {
+    return { success: false, error: "Tracking value not found" };
+  }
+
+  const used = db.prepare("SELECT 1 FROM journal_line_tracking WHERE value_id = ? LIMIT 1").get(id)
+    || db.prepare("SELECT 1 FROM tracking_assignments WHERE value_id = ? LIMIT 1").get(id);
+  if (used) {
+    return { success: false, error: `${value.dimension_name} "${value.name}" is in use. Archive it instead.` };
+  }
+
+  db.prepare("UPDATE categorization_rules SET tracking_value_id = NULL WHERE tracking_value_id = ?").run(id);
+  db.prepare("DELETE FROM tracking_values WHERE id = ?").run(id);
+  logAudit("delete", "tracking_value", id, value, null);
+  return { success: true };
+}
+
+/**
+ * Resolve "Dimension:Value" (or "Dimension=Value") references to value ids
+ */
+export function resolveTrackingRefs(refs: string[]): number[] {
+  return refs.map((ref) => {
+    const match = ref.match(/^\s*([^:=]+?)\s*[:=]\s*(.+?)\s*$/);
+    if (!match) {
+      throw new Error(`Invalid tracking "${ref}": use Dimension:Value, e.g. Project:Website`);
+    }
+
+    const dimension = getTrackingDimension(match[1]);
+    if (!dimension) {
+      throw new Error(`Tracking dimension not found: ${match[1]}`);
+    }
+
+    const value = getDb().prepare(
+      "SELECT id FROM tracking_values WHERE dimension_id = ? AND LOWER(name) = LOWER(?)"
+    ).get(dimension.id, match[2]) as { id: number } | undefined;
+    if (!value) {
+      throw new Error(`${dimension.name} "${match[2]}" not found`);
+    }
+    return value.id;
+  });
+}
+
+/**
+ * Validate value ids and expand them to tags; at most one value per dimension.
+ * Archived values are refused unless allow_archived is set (e.g. when copying history).
+ */
+export function normalizeTracking(valueIds?: number[] | null, options: { allow_archived?: boolean } = {}): TrackingTag[] {
+  if (!valueIds || valueIds.length === 0) return [];
+
+  const tags: TrackingTag[] = [];
+  for (const id of new Set(valueIds)) {
+    const value = getTrackingValue(id);
+    if (!value) {
+      throw new Error(`Tracking value ${id} not found`);
+    }
+    if (!value.is_active && !options.allow_archived) {
+      throw new Error(`${value.dimension_name} "${value.name}" is archived`);
+    }
+    if (tags.some((t) => t.dimension_id === value.dimension_id)) {
+      throw new Error(`Only one ${value.dimension_name} value can be assigned at a time`);
+    }
+    tags.push({
+      dimension_id: value.dimension_id,
+      dimension_name: value.dimension_name || "",
+      value_id: value.id,
+      value_name: value.name,
+    });
+  }
+  return tags;
+}
+
+// Stable key for grouping lines by their tracking values
+export function trackingKey(valueIds?: number[] | null): string {
+  return [...new Set(valueIds || [])].sort((a, b) => a - b).join(",");
+}
+
+export function formatTrackingTags(tags?: TrackingTag[] | null): string {
+  return (tags || []).map((t) => `${t.dimension_name}: ${t.value_name}`).join(", ");
+}
+
+// Lines are checked in validateJournalEntry; archived values stay valid on postings (reversals, edits)
+export function saveLineTracking(lineId: number, valueIds?: number[] | null): void {
+  const tags = normalizeTracking(valueIds, { allow_archived: true });
+  if (tags.length === 0) return;
+
+  const insert = getDb().prepare(
+    "INSERT INTO journal_line_tracking (line_id, dimension_id, value_id) VALUES (?, ?, ?)"
+  );
+  for (const tag of tags) {
+    insert.run(lineId, tag.dimension_id, tag.value_id);
+  }
+}
+
+function loadTags(sql: string, ids: number[], params: string[] = []): Map<number, TrackingTag[]> {
+  const result = new Map<number, TrackingTag[]>();
+  if (ids.length === 0) return result;
+
+  const rows = getDb().prepare(sql.replace("IN (?)", `IN (${ids.map(() => "?").join(", ")})`)).all(...params, ...ids) as Array<
+    TrackingTag & { owner_id: number }
+  >;
+  for (const row of rows) {
+    const { owner_id, ...tag } = row;
+    result.set(owner_id, [...(result.get(owner_id) || []), tag]);
+  }
+  return result;
+}
+
+export function getLineTracking(lineIds: number[]): Map<number, TrackingTag[]> {
+  return loadTags(`
+    SELECT t.line_id as owner_id, t.dimension_id, d.name as dimension_name, t.value_id, v.name as value_name
+    FROM journal_line_tracking t
+    JOIN tracking_dimensions d ON d.id = t.dimension_id
+    JOIN tracking_values v ON v.id = t.value_id
+    WHERE t.line_id IN (?)
+    ORDER BY d.name
+  `, lineIds);
+}
+
+/**
+ * Tracking on source documents (invoice items, expenses); carried onto their postings
+ */
+export function setTrackingAssignments(
+  entityType: TrackedEntity,
+  entityId: number,
+  valueIds?: number[] | null,
+  options: { allow_archived?: boolean } = {}
+): TrackingTag[] {
+  const db = getDb();
+  const tags = normalizeTracking(valueIds, options);
+
+  db.prepare("DELETE FROM tracking_assignments WHERE entity_type = ? AND entity_id = ?").run(entityType, entityId);
+  const insert = db.prepare(
+    "INSERT INTO tracking_assignments (entity_type, entity_id, dimension_id, value_id) VALUES (?, ?, ?, ?)"
+  );
+  for (const tag of tags) {
+    insert.run(entityType, entityId, tag.dimension_id, tag.value_id);
+  }
+  return tags;
+}
+
+export function getTrackingAssignments(entityType: TrackedEntity, entityIds: number[]): Map<number, TrackingTag[]> {
+  return loadTags(`
+    SELECT t.entity_id as owner_id, t.dimension_id, d.name as dimension_name, t.value_id, v.name as value_name
+    FROM tracking_assignments t
+    JOIN tracking_dimensions d ON d.id = t.dimension_id
+    JOIN tracking_values v ON v.id = t.value_id
+    WHERE t.entity_type = ? AND t.entity_id IN (?)
+    ORDER BY d.name
+  `, entityIds, [entityType]);
+}
@@ -8,7 +8,11 @@ export interface Vendor {
   address?: string;
   tax_id?: string;
   default_category?: string;
+  payment_terms?: string;
   notes?: string;
+  is_non_resident?: number;
+  wht_category?: string | null; // Withholding tax category for non-residents
+  wht_rate?: number | null;     // Treaty rate, overriding the category rate
   created_at: string;
   updated_at: string;
 }
@@ -16,9 +20,18 @@ export interface Vendor {
 export interface VendorWithBalance extends Vendor {
   total_expenses: number;
   total_paid: number;
+  bills_outstanding: number;
   balance: number;
 }
 
+function requireWhtCategory(code: string): void {
+  const category = getDb().prepare("SELECT code FROM wht_categories WHERE code = ?").get(code);
+  if (!category) {
+    const codes = (getDb().prepare("SELECT code FROM wht_categories ORDER BY code").all() as Array<{ code: string }>).map((c) => c.code);
+    throw new Error(`Unknown withholding tax category: ${code}. Use one of: ${codes.join(", ")}`);
+  }
+}
+
 export function createVendor(data: {
   name: string;
   email?: string;
@@ -26,13 +39,20 @@ export function createVendor(data: {
   address?: string;
   tax_id?: string;
   default_category?: string;
+  payment_terms?: string;
   notes?: string;
+  is_non_resident?: boolean;
+  wht_category?: string;
+  wht_rate?: number;
 }): Vendor {
   const db = getDb();
+  if (data.wht_category) {
+    requireWhtCategory(data.wht_category);
+  }
 
   const result = db.prepare(`
-    INSERT INTO vendors (name, email, phone, address, tax_id, default_category, notes)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO vendors (name, email, phone, address, tax_id, default_category, payment_terms, notes, is_non_resident, wht_category, wht_rate)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     data.name,
     data.email || null,
@@ -40,7 +60,11 @@ export function createVendor(data: {
     data.address || null,
     data.tax_id || null,
     data.default_category || null,
-    data.notes || null
+    data.payment_terms || "net_30",
+    data.notes || null,
+    data.is_non_resident ? 1 : 0,
+    data.wht_category || null,
+    data.wht_rate ?? null
   );
 
   const vendor = getVendor(result.lastInsertRowid as number)!;
@@ -73,9 +97,16 @@ export function listVendors(): VendorWithBalance[] {
       v.*,
       COALESCE(SUM(e.amount), 0) as total_expenses,
       COALESCE(SUM(CASE WHEN e.payment_id IS NOT NULL THEN e.amount ELSE 0 END), 0) as total_paid,
-      COALESCE(SUM(CASE WHEN e.payment_id IS NULL THEN e.amount ELSE 0 END), 0) as balance
+      COALESCE(b.outstanding, 0) as bills_outstanding,
+      COALESCE(SUM(CASE WHEN e.payment_id IS NULL THEN e.amount ELSE 0 END), 0) + COALESCE(b.outstanding, 0) as balance
     FROM vendors v
     LEFT JOIN expenses e ON v.id = e.vendor_id
+    LEFT JOIN (
+      SELECT vendor_id, SUM(total - amount_paid) as outstanding
+      FROM bills
+      WHERE status IN ('approved', 'partial')
+      GROUP BY vendor_id
+    ) b ON v.id = b.vendor_id
     GROUP BY v.id
     ORDER BY v.name
   `).all() as VendorWithBalance[];
@@ -95,7 +126,15 @@ export function updateVendor(id: number, data: Partial<Vendor>): Vendor | undefi
   if (data.address !== undefined) { fields.push("address = ?"); values.push(data.address); }
   if (data.tax_id !== undefined) { fields.push("tax_id = ?"); values.push(data.tax_id); }
   if (data.default_category !== undefined) { fields.push("default_category = ?"); values.push(data.default_category); }
+  if (data.payment_terms !== undefined) { fields.push("payment_terms = ?"); values.push(data.payment_terms); }
   if (data.notes !== undefined) { fields.push("notes = ?"); values.push(data.notes); }
+  if (data.is_non_resident !== undefined) { fields.push("is_non_resident = ?"); values.push(data.is_non_resident ? 1 : 0); }
+  if (data.wht_category !== undefined) {
+    if (data.wht_category) requireWhtCategory(data.wht_category);
+    fields.push("wht_category = ?");
+    values.push(data.wht_category || null);
+  }
+  if (data.wht_rate !== undefined) { fields.push("wht_rate = ?"); values.push(data.wht_rate); }
 
   if (fields.length === 0) return old;
 
@@ -121,6 +160,12 @@ export function deleteVendor(id: number): boolean {
     throw new Error(`Cannot delete vendor with ${expenseCount.count} expense(s)`);
   }
 
+  // Check for bills
+  const billCount = db.prepare("SELECT COUNT(*) as count FROM bills WHERE vendor_id = ?").get(id) as { count: number };
+  if (billCount.count > 0) {
+    throw new Error(`Cannot delete vendor with ${billCount.count} bill(s)`);
+  }
+
   db.prepare("DELETE FROM vendors WHERE id = ?").run(id);
   logAudit("delete", "vendor", id, vendor, null);
 
@@ -0,0 +1,332 @@
+// Withholding tax on payments to non-resident vendors (Income Tax Act 1967
+// ss107A, 109, 109B, 109F), its remittance to LHDN and the CP37 summary
+import { getDb, logAudit, withTransaction } from "../db/index.js";
+import { createJournalEntry } from "./journal.js";
+import { requireAccount } from "./accounts.js";
+import { resolveBankAccount } from "./bank-accounts.js";
+import { money } from "../core/currency.js";
+import { today, addMonths, daysBetween } from "../core/dates.js";
+
+export interface WhtCategory {
+  code: string;
+  name: string;
+  section: string;
+  form: string;
+  rate: number;
+}
+
+export interface WhtDeduction {
+  id: number;
+  payment_id: number;
+  payment_reference?: string | null;
+  vendor_id: number;
+  vendor_name?: string;
+  vendor_tax_id?: string | null;
+  date: string;
+  due_date: string;
+  category: string;
+  category_name?: string;
+  section: string;
+  form: string;
+  rate: number;
+  gross_amount: number; // Base currency
+  wht_amount: number;
+  remittance_id?: number | null;
+  remitted_date?: string | null;
+  remittance_reference?: string | null;
+  created_at: string;
+}
+
+export interface WhtRemittance {
+  id: number;
+  date: string;
+  form: string;
+  amount: number;
+  reference?: string | null;
+  payment_id?: number | null;
+  journal_entry_id?: number | null;
+  deductions: number;
+  created_at: string;
+}
+
+export interface Withholding {
+  category: WhtCategory;
+  rate: number;   // Treaty rate when the vendor has one
+  amount: number; // In the currency of the gross amount
+}
+
+export interface WhtTracker {
+  as_of: string;
+  outstanding: Array<WhtDeduction & { days_left: number }>;
+  by_form: Array<{ form: string; amount: number; earliest_due: string; overdue: number }>;
+  total: number;
+  overdue: number;
+}
+
+export interface WhtSummary {
+  from_date: string;
+  to_date: string;
+  forms: Array<{ form: string; deductions: WhtDeduction[]; gross: number; wht: number; remitted: number }>;
+  gross: number;
+  wht: number;
+  remitted: number;
+  outstanding: number;
+}
+
+const DEDUCTION_SELECT = `
+  SELECT d.*, v.name as vendor_name, v.tax_id as vendor_tax_id, c.name as category_name,
+    p.reference as payment_reference, r.date as remitted_date, r.reference as remittance_reference
+  FROM wht_deductions d
+  JOIN vendors v ON d.vendor_id = v.id
+  JOIN wht_categories c ON d.category = c.code
+  LEFT JOIN payments p ON d.payment_id = p.id
+  LEFT JOIN wht_remittances r ON d.remittance_id = r.id
+`;
+
+export function whtPayableAccountId(): number {
+  return requireAccount("2360", "Withholding Tax Payable").id;
+}
+
+export function listWhtCategories(): WhtCategory[] {
+  return getDb().prepare("SELECT * FROM wht_categories ORDER BY section, code").all() as WhtCategory[];
+}
+
+/**
+ * Tax to withhold from a payment to a vendor: only non-resident vendors with
+ * a category have any, at their treaty rate when one is set.
+ */
+export function getWithholding(vendorId: number | null | undefined, gross: number): Withholding | undefined {
+  if (!vendorId) return undefined;
+  const vendor = getDb().prepare(
+    "SELECT is_non_resident, wht_category, wht_rate FROM vendors WHERE id = ?"
+  ).get(vendorId) as { is_non_resident: number; wht_category: string | null; wht_rate: number | null } | undefined;
+  if (!vendor?.is_non_resident || !vendor.wht_category) return undefined;
+
+  const category = getDb().prepare("SELECT * FROM wht_categories WHERE code = ?").get(vendor.wht_category) as WhtCategory;
+  const rate = vendor.wht_rate ?? category.rate;
+  if (rate <= 0) return undefined;
+  return { category, rate, amount: money.percent(gross, rate) };
+}
+
+/**
+ * Record tax withheld from a payment, due to LHDN within one month of
+ * paying or crediting the vendor. Called inside the payment's transaction.
+ */
+export function recordWhtDeduction(data: {
+  payment_id: number;
+  vendor_id: number;
+  date: string;
+  withholding: Withholding;
+  gross_amount: number;
+  wht_amount: number;
+}): WhtDeduction {
+  const { category, rate } = data.withholding;
+  const result = getDb().prepare(`
+    INSERT INTO wht_deductions (payment_id, vendor_id, date, due_date, category, section, form, rate, gross_amount, wht_amount)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    data.payment_id,
+    data.vendor_id,
+    data.date,
+    addMonths(data.date, 1),
+    category.code,
+    category.section,
+    category.form,
+    rate,
+    data.gross_amount,
+    data.wht_amount
+  );
+  const deduction = getWhtDeduction(result.lastInsertRowid as number)!;
+  logAudit("withhold", "wht_deduction", deduction.id, null, deduction);
+  return deduction;
+}
+
+export function getWhtDeduction(id: number): WhtDeduction | undefined {
+  return getDb().prepare(`${DEDUCTION_SELECT} WHERE d.id = ?`).get(id) as WhtDeduction | undefined;
+}
+
+export function listWhtDeductions(filters: {
+  status?: "outstanding" | "overdue" | "remitted";
+  vendor_id?: number;
+  form?: string;
+  from_date?: string;
+  to_date?: string;
+  as_of?: string; // For overdue; defaults to today
+} = {}): WhtDeduction[] {
+  let sql = `${DEDUCTION_SELECT} WHERE 1=1`;
+  const params: unknown[] = [];
+
+  if (filters.status === "outstanding") {
+    sql += " AND d.remittance_id IS NULL";
+  } else if (filters.status === "overdue") {
+    sql += " AND d.remittance_id IS NULL AND d.due_date < ?";
+    params.push(filters.as_of || today());
+  } else if (filters.status === "remitted") {
+    sql += " AND d.remittance_id IS NOT NULL";
+  }
+  if (filters.vendor_id) {
+    sql += " AND d.vendor_id = ?";
+    params.push(filters.vendor_id);
+  }
+  if (filters.form) {
+    sql += " AND d.form = ?";
+    params.push(filters.form.toUpperCase());
+  }
+  if (filters.from_date) {
+    sql += " AND d.date >= ?";
+    params.push(filters.from_date);
+  }
+  if (filters.to_date) {
+    sql += " AND d.date <= ?";
+    params.push(filters.to_date);
+  }
+
+  sql += " ORDER BY d.date, d.id";
+  return getDb().prepare(sql).all(...params) as WhtDeduction[];
+}
+
+/**
+ * Withholding tax not yet remitted, with the days left before each falls due.
+ */
+export function getWhtTracker(asOfDate?: string): WhtTracker {
+  const asOf = asOfDate || today();
+  const outstanding = listWhtDeductions({ status: "outstanding", to_date: asOf })
+    .map((d) => ({ ...d, days_left: daysBetween(asOf, d.due_date) }));
+
+  const forms = new Map<string, WhtTracker["by_form"][number]>();
+  for (const d of outstanding) {
+    const row = forms.get(d.form) || { form: d.form, amount: 0, earliest_due: d.due_date, overdue: 0 };
+    row.amount = money.add(row.amount, d.wht_amount);
+    if (d.due_date < row.earliest_due) row.earliest_due = d.due_date;
+    if (d.days_left < 0) row.overdue = money.add(row.overdue, d.wht_amount);
+    forms.set(d.form, row);
+  }
+
+  return {
+    as_of: asOf,
+    outstanding,
+    by_form: [...forms.values()].sort((a, b) => a.earliest_due.localeCompare(b.earliest_due)),
+    total: money.sum(outstanding.map((d) => d.wht_amount)),
+    overdue: money.sum(outstanding.filter((d) => d.days_left < 0).map((d) => d.wht_amount)),
+  };
+}
+
+/**
+ * Pay withheld tax over to LHDN: Dr Withholding Tax Payable / Cr Bank. Each
+ * form is paid separately, so the deductions remitted together share a form.
+ */
+export function remitWht(data: {
+  form?: string;
+  deduction_ids?: number[];
+  through?: string; // Deductions up to this date; defaults to all outstanding
+  date?: string;
+  bank_account?: number | string;
+  reference?: string;
+  method?: "cash" | "bank" | "card" | "check" | "other";
+} = {}): WhtRemittance {
+  return withTransaction(() => {
+    const db = getDb();
+    const date = data.date || today();
+
+    let deductions = listWhtDeductions({ status: "outstanding", form: data.form, to_date: data.through });
+    if (data.deduction_ids) {
+      const ids = new Set(data.deduction_ids);
+      deductions = deductions.filter((d) => ids.has(d.id));
+      if (deductions.length !== ids.size) {
+        throw new Error("Some deductions were not found or have already been remitted");
+      }
+    }
+    if (deductions.length === 0) {
+      throw new Error("No withholding tax outstanding to remit");
+    }
+    const forms = [...new Set(deductions.map((d) => d.form))];
+    if (forms.length > 1) {
+      throw new Error(`Remit one form at a time: ${forms.join(", ")}`);
+    }
+    const [form] = forms;
+    const earliest = deductions[0].date;
+    if (date < earliest) {
+      throw new Error(`Cannot remit before the tax was withheld on ${earliest}`);
+    }
+
+    const amount = money.sum(deductions.map((d) => d.wht_amount));
+    const payableId = whtPayableAccountId();
+    const bank = resolveBankAccount(data.bank_account);
+    const reference = data.reference || `${form} ${deductions[deductions.length - 1].date.slice(0, 7)}`;
+    const description = `Withholding tax remitted to LHDN - ${form}`;
+
+    const payment = db.prepare(`
+      INSERT INTO payments (date, type, amount, method, reference, account_id, notes, bank_account_id)
+      VALUES (?, 'sent', ?, ?, ?, ?, ?, ?)
+    `).run(date, amount, data.method || "bank", reference, payableId, description, bank.id);
+    const paymentId = payment.lastInsertRowid as number;
+
+    const entry = createJournalEntry({
+      date,
+      description,
+      reference,
+      entry_type: "standard",
+      lines: [
+        { account_id: payableId, debit: amount, credit: 0, description: `${form} withholding tax` },
+        { account_id: bank.id, debit: 0, credit: amount, description },
+      ],
+    });
+    db.prepare("UPDATE payments SET journal_entry_id = ? WHERE id = ?").run(entry.id, paymentId);
+
+    const result = db.prepare(`
+      INSERT INTO wht_remittances (date, form, amount, reference, payment_id, journal_entry_id)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(date, form, amount, reference, paymentId, entry.id);
+    const remittanceId = result.lastInsertRowid as number;
+
+    const markRemitted = db.prepare("UPDATE wht_deductions SET remittance_id = ? WHERE id = ?");
+    for (const d of deductions) {
+      markRemitted.run(remittanceId, d.id);
+    }
+
+    const remittance = listWhtRemittances().find((r) => r.id === remittanceId)!;
+    logAudit("remit", "wht_remittance", remittanceId, null, { ...remittance, deduction_ids: deductions.map((d) => d.id) });
+    return remittance;
+  });
+}
+
+export function listWhtRemittances(): WhtRemittance[] {
+  return getDb().prepare(`
+    SELECT r.*, COUNT(d.id) as deductions
+    FROM wht_remittances r
+    LEFT JOIN wht_deductions d ON d.remittance_id = r.id
+    GROUP BY r.id
+    ORDER BY r.date DESC, r.id DESC
+  `).all() as WhtRemittance[];
+}
+
+/**
+ * CP37-style summary for a period: tax withheld per remittance form with
+ * each payee, payment date, gross, rate and when it was remitted.
+ */
+export function getWhtSummary(fromDate: string, toDate: string): WhtSummary {
+  const deductions = listWhtDeductions({ from_date: fromDate, to_date: toDate });
+
+  const forms = new Map<string, WhtSummary["forms"][number]>();
+  for (const d of deductions) {
+    const row = forms.get(d.form) || { form: d.form, deductions: [], gross: 0, wht: 0, remitted: 0 };
+    row.deductions.push(d);
+    row.gross = money.add(row.gross, d.gross_amount);
+    row.wht = money.add(row.wht, d.wht_amount);
+    if (d.remittance_id) row.remitted = money.add(row.remitted, d.wht_amount);
+    forms.set(d.form, row);
+  }
+
+  const rows = [...forms.values()].sort((a, b) => a.form.localeCompare(b.form));
+  const wht = money.sum(rows.map((r) => r.wht));
+  const remitted = money.sum(rows.map((r) => r.remitted));
+  return {
+    from_date: fromDate,
+    to_date: toDate,
+    forms: rows,
+    gross: money.sum(rows.map((r) => r.gross)),
+    wht,
+    remitted,
+    outstanding: money.subtract(wht, remitted),
+  };
+}
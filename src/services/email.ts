@@ -108,6 +108,48 @@ export async function sendInvoiceEmail(
   });
 }
 
+export async function sendStatementEmail(
+  to: string,
+  customerName: string,
+  periodEnd: string,
+  balance: number,
+  pdfBuffer: Buffer
+): Promise<EmailResult> {
+  const businessName = getSetting("business_name") || "OpenAccounting";
+  const currency = getSetting("currency") || "USD";
+
+  const formattedBalance = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency,
+  }).format(balance);
+
+  const html = `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #1e1e2e;">Statement of Account</h2>
+      <p>Dear ${customerName},</p>
+      <p>Please find attached your statement of account to <strong>${periodEnd}</strong>.</p>
+      <p><strong>Balance:</strong> ${formattedBalance}</p>
+      <p>If anything on the statement doesn't match your records, please let us know.</p>
+      <p style="margin-top: 30px;">
+        Best regards,<br/>
+        <strong>${businessName}</strong>
+      </p>
+    </div>
+  `;
+
+  return sendEmail({
+    to,
+    subject: `Statement of account from ${businessName}`,
+    html,
+    attachments: [
+      {
+        filename: `statement-${periodEnd}.pdf`,
+        content: pdfBuffer,
+      },
+    ],
+  });
+}
+
 export async function sendPaymentReminder(
   to: string,
   invoiceNumber: string,
@@ -153,3 +195,30 @@ export async function sendPaymentReminder(
     html,
   });
 }
+
+export async function sendDunningEmail(
+  to: string,
+  customerName: string,
+  subject: string,
+  body: string
+): Promise<EmailResult> {
+  const businessName = getSetting("business_name") || "OpenAccounting";
+
+  const html = `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #1e1e2e;">Payment Reminder</h2>
+      <p>Dear ${customerName},</p>
+      ${body.split(/\n\s*\n/).map((paragraph) => `<p>${paragraph.trim()}</p>`).join("\n      ")}
+      <p style="margin-top: 30px;">
+        Best regards,<br/>
+        <strong>${businessName}</strong>
+      </p>
+    </div>
+  `;
+
+  return sendEmail({
+    to,
+    subject,
+    html,
+  });
+}
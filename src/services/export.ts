@@ -488,18 +488,14 @@ export async function exportSSTReturn(options: ExportOptions): Promise<ExportRes
     const rows: Record<string, unknown>[] = [];
 
     // Summary section
-    rows.push({
-      "Section": "Part A: Sales Tax",
-      "Item": "Taxable Sales @ 5%",
-      "Amount": report.sales_tax.taxable_sales_5,
-      "Tax": report.sales_tax.tax_output_5,
-    });
-    rows.push({
-      "Section": "Part A: Sales Tax",
-      "Item": "Taxable Sales @ 10%",
-      "Amount": report.sales_tax.taxable_sales_10,
-      "Tax": report.sales_tax.tax_output_10,
-    });
+    for (const line of report.sales_tax.by_rate) {
+      rows.push({
+        "Section": "Part A: Sales Tax",
+        "Item": `Taxable Sales @ ${line.rate}%`,
+        "Amount": line.taxable,
+        "Tax": line.tax,
+      });
+    }
     rows.push({
       "Section": "Part A: Sales Tax",
       "Item": "Exempt Sales",
@@ -513,12 +509,14 @@ export async function exportSSTReturn(options: ExportOptions): Promise<ExportRes
       "Tax": report.sales_tax.total_sales_tax,
     });
 
-    rows.push({
-      "Section": "Part B: Service Tax",
-      "Item": "Taxable Services @ 6%",
-      "Amount": report.service_tax.taxable_services,
-      "Tax": report.service_tax.tax_output,
-    });
+    for (const line of report.service_tax.by_rate) {
+      rows.push({
+        "Section": "Part B: Service Tax",
+        "Item": `Taxable Services @ ${line.rate}%`,
+        "Amount": line.taxable,
+        "Tax": line.tax,
+      });
+    }
     rows.push({
       "Section": "Part B: Service Tax",
       "Item": "Exempt Services",
@@ -538,6 +536,18 @@ export async function exportSSTReturn(options: ExportOptions): Promise<ExportRes
       "Amount": "",
       "Tax": -report.summary.less_credit_brought_forward,
     });
+    rows.push({
+      "Section": "Summary",
+      "Item": "Less: Bad Debt Relief",
+      "Amount": "",
+      "Tax": -report.summary.less_bad_debt_relief,
+    });
+    rows.push({
+      "Section": "Summary",
+      "Item": "Add: Bad Debt Recovered",
+      "Amount": "",
+      "Tax": report.summary.add_bad_debt_recovered,
+    });
     rows.push({
       "Section": "Summary",
       "Item": "NET TAX PAYABLE",
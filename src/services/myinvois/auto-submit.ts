@@ -21,21 +21,28 @@ function convertInvoiceToEInvoiceDocument(
   customer: Customer,
   settings: LHDNSettings
 ): EInvoiceDocument {
-  // Map invoice items to e-invoice line items
-  const items: LHDNLineItem[] = (invoice.items || []).map((item, index) => ({
-    id: index + 1,
-    classificationCode: item.classification_code || "002", // Default: Services
-    description: item.description || "Services",
-    unitPrice: Math.round(item.unit_price * 100), // Convert to smallest unit (sen)
-    quantity: item.quantity,
-    taxType: (item.tax_type as TaxType) || TAX_TYPES.EXEMPT,
-    taxRate: invoice.tax_rate || 0,
-    taxAmount: Math.round(item.quantity * item.unit_price * ((invoice.tax_rate || 0) / 100) * 100),
-    subtotal: Math.round(item.quantity * item.unit_price * 100),
-    totalExclTax: Math.round(item.quantity * item.unit_price * 100),
-    totalInclTax: Math.round(item.quantity * item.unit_price * (1 + (invoice.tax_rate || 0) / 100) * 100),
-    unitCode: item.unit_code || "EA",
-  }));
+  // Map invoice items to e-invoice line items; each line carries its own tax
+  // and its discount includes its share of any invoice-level discount
+  const items: LHDNLineItem[] = (invoice.items || []).map((item, index) => {
+    const gross = Math.round(item.quantity * item.unit_price * 100); // Convert to smallest unit (sen)
+    const taxable = Math.round((item.taxable_amount ?? item.amount) * 100);
+    const tax = Math.round((item.tax_amount ?? 0) * 100);
+    return {
+      id: index + 1,
+      classificationCode: item.classification_code || "002", // Default: Services
+      description: item.description || "Services",
+      unitPrice: Math.round(item.unit_price * 100),
+      quantity: item.quantity,
+      taxType: (item.tax_type as TaxType) || TAX_TYPES.EXEMPT,
+      taxRate: item.tax_rate ?? invoice.tax_rate ?? 0,
+      taxAmount: tax,
+      subtotal: gross,
+      discountAmount: gross - taxable,
+      totalExclTax: taxable,
+      totalInclTax: taxable + tax,
+      unitCode: item.unit_code || "EA",
+    };
+  });
 
   // Parse customer address (simple approach - can be enhanced)
   const addressParts = (customer.address || "").split(",").map(p => p.trim());
@@ -95,10 +102,11 @@ function convertInvoiceToEInvoiceDocument(
       },
     },
     items,
-    subtotal: Math.round(invoice.subtotal * 100),
+    // The invoice discount is already spread over the lines' allowances
+    subtotal: Math.round((invoice.subtotal - (invoice.discount_amount || 0)) * 100),
     totalDiscount: 0,
     totalTaxAmount: Math.round(invoice.tax_amount * 100),
-    totalExclTax: Math.round(invoice.subtotal * 100),
+    totalExclTax: Math.round((invoice.subtotal - (invoice.discount_amount || 0)) * 100),
     totalInclTax: Math.round(invoice.total * 100),
     totalPayableAmount: Math.round(invoice.total * 100),
     paymentMode,
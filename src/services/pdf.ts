@@ -1,5 +1,11 @@
 import PDFDocument from "pdfkit";
 import { getSetting, getDb } from "../db/index.js";
+import { getQuote } from "../domain/quotes.js";
+import { getPurchaseOrder } from "../domain/purchase-orders.js";
+import { getPayrollRun, type PayrollRun, type PayrollLine } from "../domain/payroll.js";
+import { getEmployee, type Employee } from "../domain/employees.js";
+import { getCustomerStatement, type CustomerStatement, type StatementOptions } from "../domain/statements.js";
+import { money } from "../core/currency.js";
 
 interface InvoiceItem {
   description: string;
@@ -12,17 +18,19 @@ interface InvoiceData {
   id: number;
   number: string;
   date: string;
-  due_date: string;
+  due_date: string; // Left off the document when empty
   customer_name: string;
   customer_email: string;
   customer_address: string;
   items: InvoiceItem[];
   subtotal: number;
-  tax_rate: number;
+  discount_amount: number;
+  tax_rate: number; // 0 when lines are taxed at different rates
   tax_amount: number;
   total: number;
   amount_paid: number;
   notes: string;
+  currency_code: string;
 }
 
 interface InvoiceRow {
@@ -34,11 +42,14 @@ interface InvoiceRow {
   customer_email: string | null;
   customer_address: string | null;
   subtotal: number;
+  discount_amount: number | null;
   tax_rate: number;
   tax_amount: number;
   total: number;
   amount_paid: number;
   notes: string | null;
+  currency_code: string | null;
+  exchange_rate: number | null;
 }
 
 export function getInvoiceData(invoiceId: number): InvoiceData | null {
@@ -64,6 +75,11 @@ export function getInvoiceData(invoiceId: number): InvoiceData | null {
     ORDER BY sort_order
   `).all(invoiceId) as InvoiceItem[];
 
+  // Show the rate next to the tax total only when every taxed line shares it
+  const rates = db.prepare(`
+    SELECT DISTINCT tax_rate FROM invoice_items WHERE invoice_id = ? AND tax_amount > 0
+  `).all(invoiceId) as Array<{ tax_rate: number }>;
+
   return {
     id: invoice.id,
     number: invoice.number,
@@ -74,11 +90,69 @@ export function getInvoiceData(invoiceId: number): InvoiceData | null {
     customer_address: invoice.customer_address || "",
     items,
     subtotal: invoice.subtotal,
-    tax_rate: invoice.tax_rate,
+    discount_amount: invoice.discount_amount || 0,
+    tax_rate: rates.length === 1 ? rates[0].tax_rate : 0,
     tax_amount: invoice.tax_amount,
     total: invoice.total,
     amount_paid: invoice.amount_paid,
     notes: invoice.notes || "",
+    // Invoices issued before multi-currency support are in the base currency
+    currency_code: (invoice.exchange_rate && invoice.currency_code) || getSetting("currency") || "USD",
+  };
+}
+
+export function getQuoteData(quoteId: number): InvoiceData | null {
+  const quote = getQuote(quoteId);
+  if (!quote) return null;
+
+  const customer = getDb().prepare("SELECT email, address FROM customers WHERE id = ?").get(quote.customer_id) as
+    { email: string | null; address: string | null } | undefined;
+
+  return {
+    id: quote.id,
+    number: quote.number,
+    date: quote.date,
+    due_date: quote.expiry_date,
+    customer_name: quote.customer_name || "",
+    customer_email: customer?.email || "",
+    customer_address: customer?.address || "",
+    items: (quote.items || []).map(({ description, quantity, unit_price, amount }) => ({ description, quantity, unit_price, amount })),
+    subtotal: quote.subtotal,
+    discount_amount: 0,
+    tax_rate: quote.tax_rate,
+    tax_amount: quote.tax_amount,
+    total: quote.total,
+    amount_paid: 0,
+    notes: quote.notes || "",
+    currency_code: quote.currency_code || getSetting("currency") || "USD",
+  };
+}
+
+export function getPurchaseOrderData(orderId: number): InvoiceData | null {
+  const order = getPurchaseOrder(orderId);
+  if (!order) return null;
+
+  const vendor = getDb().prepare("SELECT email, address FROM vendors WHERE id = ?").get(order.vendor_id) as
+    { email: string | null; address: string | null } | undefined;
+  const rates = [...new Set((order.items || []).filter((item) => item.tax_amount > 0).map((item) => item.tax_rate))];
+
+  return {
+    id: order.id,
+    number: order.number,
+    date: order.date,
+    due_date: order.expected_date || "",
+    customer_name: order.vendor_name || "",
+    customer_email: vendor?.email || "",
+    customer_address: vendor?.address || "",
+    items: (order.items || []).map(({ description, quantity, unit_price, amount }) => ({ description, quantity, unit_price, amount })),
+    subtotal: order.subtotal,
+    discount_amount: 0,
+    tax_rate: rates.length === 1 ? rates[0] : 0,
+    tax_amount: order.tax_amount,
+    total: order.total,
+    amount_paid: 0,
+    notes: order.notes || "",
+    currency_code: order.currency_code || getSetting("currency") || "USD",
   };
 }
 
@@ -88,6 +162,31 @@ export async function generateInvoicePDF(invoiceId: number): Promise<Buffer> {
     throw new Error(`Invoice ${invoiceId} not found`);
   }
 
+  return renderDocumentPDF(data, { title: "Invoice", dateLabel: "Due", partyLabel: "Bill To:" });
+}
+
+export async function generateQuotePDF(quoteId: number): Promise<Buffer> {
+  const data = getQuoteData(quoteId);
+  if (!data) {
+    throw new Error(`Quote ${quoteId} not found`);
+  }
+
+  return renderDocumentPDF(data, { title: "Quotation", dateLabel: "Valid until", partyLabel: "Prepared For:" });
+}
+
+export async function generatePurchaseOrderPDF(orderId: number): Promise<Buffer> {
+  const data = getPurchaseOrderData(orderId);
+  if (!data) {
+    throw new Error(`Purchase order ${orderId} not found`);
+  }
+
+  return renderDocumentPDF(data, { title: "Purchase Order", dateLabel: "Expected", partyLabel: "Vendor:" });
+}
+
+function renderDocumentPDF(
+  data: InvoiceData,
+  labels: { title: string; dateLabel: string; partyLabel: string }
+): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const doc = new PDFDocument({ margin: 50 });
     const chunks: Buffer[] = [];
@@ -97,21 +196,23 @@ export async function generateInvoicePDF(invoiceId: number): Promise<Buffer> {
     doc.on("error", reject);
 
     const businessName = getSetting("business_name") || "My Business";
-    const currency = getSetting("currency") || "USD";
+    const currency = data.currency_code;
 
     // Header
     doc.fontSize(24).text(businessName, { align: "left" });
     doc.moveDown(0.5);
 
-    // Invoice details box
+    // Document details box
     doc.fontSize(10).fillColor("#666666");
-    doc.text(`Invoice: ${data.number}`);
+    doc.text(`${labels.title}: ${data.number}`);
     doc.text(`Date: ${data.date}`);
-    doc.text(`Due: ${data.due_date}`);
+    if (data.due_date) {
+      doc.text(`${labels.dateLabel}: ${data.due_date}`);
+    }
     doc.moveDown(1);
 
     // Customer info
-    doc.fillColor("#000000").fontSize(12).text("Bill To:");
+    doc.fillColor("#000000").fontSize(12).text(labels.partyLabel);
     doc.fontSize(10).text(data.customer_name);
     if (data.customer_address) {
       const addressLines = data.customer_address.split("\n");
@@ -163,8 +264,14 @@ export async function generateInvoicePDF(invoiceId: number): Promise<Buffer> {
     doc.text(formatCurrency(data.subtotal, currency), amountX, y);
     y += 18;
 
-    if (data.tax_rate > 0) {
-      doc.text(`Tax (${data.tax_rate}%):`, 380, y);
+    if (data.discount_amount > 0) {
+      doc.text("Discount:", 380, y);
+      doc.text(`-${formatCurrency(data.discount_amount, currency)}`, amountX, y);
+      y += 18;
+    }
+
+    if (data.tax_amount > 0) {
+      doc.text(data.tax_rate > 0 ? `Tax (${data.tax_rate}%):` : "Tax:", 380, y);
       doc.text(formatCurrency(data.tax_amount, currency), amountX, y);
       y += 18;
     }
@@ -199,7 +306,246 @@ export async function generateInvoicePDF(invoiceId: number): Promise<Buffer> {
     // Footer
     doc.fontSize(8).fillColor("#999999");
     doc.text(
-      `Generated by ${businessName} • Invoice ${data.number}`,
+      `Generated by ${businessName} • ${labels.title} ${data.number}`,
+      50,
+      750,
+      { align: "center", width: 500 }
+    );
+
+    doc.end();
+  });
+}
+
+/**
+ * Statement of account for a customer: opening balance, each document and
+ * payment with a running balance, then the aging of what is still open
+ */
+export async function generateStatementPDF(
+  customerIdOrName: number | string,
+  options: StatementOptions = {}
+): Promise<Buffer> {
+  return renderStatementPDF(getCustomerStatement(customerIdOrName, options));
+}
+
+function renderStatementPDF(statement: CustomerStatement): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const businessName = getSetting("business_name") || "My Business";
+    const currency = statement.currency_code;
+    const customer = statement.customer;
+
+    // Header
+    doc.fontSize(24).text(businessName, { align: "left" });
+    doc.moveDown(0.5);
+    doc.fontSize(10).fillColor("#666666");
+    doc.text("Statement of Account");
+    doc.text(`Period: ${statement.from_date} to ${statement.to_date}`);
+    doc.moveDown(1);
+
+    // Customer info
+    doc.fillColor("#000000").fontSize(12).text("Statement For:");
+    doc.fontSize(10).text(customer.name);
+    if (customer.address) {
+      customer.address.split("\n").forEach((line) => doc.text(line));
+    }
+    if (customer.email) {
+      doc.text(customer.email);
+    }
+    doc.moveDown(2);
+
+    // Lines table
+    const columns = { date: 50, reference: 120, description: 200, debit: 340, credit: 410, balance: 480 };
+    const header = (top: number) => {
+      doc.fillColor("#333333").fontSize(9);
+      doc.text("Date", columns.date, top);
+      doc.text("Reference", columns.reference, top);
+      doc.text("Description", columns.description, top);
+      doc.text("Debit", columns.debit, top, { width: 65, align: "right" });
+      doc.text("Credit", columns.credit, top, { width: 65, align: "right" });
+      doc.text("Balance", columns.balance, top, { width: 70, align: "right" });
+      doc.moveTo(50, top + 13).lineTo(550, top + 13).stroke("#cccccc");
+      doc.fillColor("#000000");
+      return top + 20;
+    };
+    const row = (
+      y: number,
+      cells: { date?: string; reference?: string; description: string; debit?: number; credit?: number; balance: number }
+    ) => {
+      doc.text(cells.date || "", columns.date, y);
+      doc.text((cells.reference || "").slice(0, 14), columns.reference, y);
+      doc.text(cells.description.slice(0, 26), columns.description, y, { width: 135 });
+      if (cells.debit) doc.text(formatCurrency(cells.debit, currency), columns.debit, y, { width: 65, align: "right" });
+      if (cells.credit) doc.text(formatCurrency(cells.credit, currency), columns.credit, y, { width: 65, align: "right" });
+      doc.text(formatCurrency(cells.balance, currency), columns.balance, y, { width: 70, align: "right" });
+      return y + 16;
+    };
+
+    let y = header(doc.y);
+    y = row(y, { date: statement.from_date, description: "Opening balance", balance: statement.opening_balance });
+    for (const line of statement.lines) {
+      if (y > 680) {
+        doc.addPage();
+        y = header(50);
+      }
+      y = row(y, line);
+    }
+
+    // Closing balance
+    y += 6;
+    doc.moveTo(340, y).lineTo(550, y).stroke("#cccccc");
+    y += 10;
+    doc.font("Helvetica-Bold").fontSize(11);
+    doc.text("Balance Due:", 340, y);
+    doc.fillColor(statement.closing_balance > 0 ? "#d20f39" : "#40a02b");
+    doc.text(formatCurrency(statement.closing_balance, currency), columns.balance, y, { width: 70, align: "right" });
+    doc.font("Helvetica").fillColor("#000000").fontSize(9);
+    y += 30;
+
+    // Aging footer
+    if (y > 680) {
+      doc.addPage();
+      y = 50;
+    }
+    const aging = statement.aging;
+    const buckets: Array<[string, number]> = [
+      ["Current", aging.current],
+      ["1-30 days", aging.days_1_30],
+      ["31-60 days", aging.days_31_60],
+      ["61-90 days", aging.days_61_90],
+      ["Over 90 days", aging.days_90_plus],
+      ["Unapplied", -aging.unapplied_credits],
+    ];
+    const cellWidth = 500 / buckets.length;
+    buckets.forEach(([label, amount], i) => {
+      const x = 50 + i * cellWidth;
+      doc.rect(x, y, cellWidth, 34).stroke("#cccccc");
+      doc.fillColor("#666666").text(label, x, y + 5, { width: cellWidth, align: "center" });
+      doc.fillColor("#000000").text(formatCurrency(amount, currency), x, y + 19, { width: cellWidth, align: "center" });
+    });
+
+    // Footer
+    doc.fontSize(8).fillColor("#999999");
+    doc.text(
+      `Generated by ${businessName} • Statement ${statement.to_date}`,
+      50,
+      750,
+      { align: "center", width: 500 }
+    );
+
+    doc.end();
+  });
+}
+
+/**
+ * Payslip for one employee in a payroll run: earnings, statutory deductions,
+ * net pay and the employer's contributions
+ */
+export async function generatePayslipPDF(runRef: number | string, employeeRef: number | string): Promise<Buffer> {
+  const run = getPayrollRun(runRef);
+  if (!run) {
+    throw new Error(`Payroll run not found: ${runRef}`);
+  }
+  const employee = getEmployee(employeeRef);
+  const line = employee && run.lines!.find((l) => l.employee_id === employee.id);
+  if (!employee || !line) {
+    throw new Error(`No payslip for ${employeeRef} in ${run.period}`);
+  }
+
+  return renderPayslipPDF(run, employee, line);
+}
+
+function renderPayslipPDF(run: PayrollRun, employee: Employee, line: PayrollLine): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const businessName = getSetting("business_name") || "My Business";
+    const currency = getSetting("currency") || "USD";
+
+    // Header
+    doc.fontSize(24).text(businessName, { align: "left" });
+    doc.moveDown(0.5);
+    doc.fontSize(10).fillColor("#666666");
+    doc.text(`Payslip: ${run.period}`);
+    doc.text(`Pay date: ${run.date}`);
+    doc.moveDown(1);
+
+    // Employee details
+    doc.fillColor("#000000").fontSize(12).text("Employee:");
+    doc.fontSize(10).text(employee.name);
+    const details: Array<[string, string | undefined]> = [
+      ["Staff no", employee.employee_number],
+      ["IC no", employee.ic_number],
+      ["EPF no", employee.epf_number],
+      ["SOCSO no", employee.socso_number],
+      ["Tax no", employee.tax_number],
+    ];
+    details.filter(([, value]) => value).forEach(([label, value]) => doc.text(`${label}: ${value}`));
+    doc.moveDown(2);
+
+    // Earnings and deductions side by side
+    const top = doc.y;
+    const column = (x: number, title: string, rows: Array<[string, number]>, totalLabel: string, total: number) => {
+      doc.fillColor("#333333").fontSize(10).text(title, x, top);
+      doc.moveTo(x, top + 15).lineTo(x + 220, top + 15).stroke("#cccccc");
+      let y = top + 25;
+      doc.fillColor("#000000");
+      rows.filter(([, amount]) => amount > 0).forEach(([label, amount]) => {
+        doc.text(label, x, y);
+        doc.text(formatCurrency(amount, currency), x + 120, y, { width: 100, align: "right" });
+        y += 18;
+      });
+      doc.moveTo(x, y).lineTo(x + 220, y).stroke("#cccccc");
+      y += 8;
+      doc.font("Helvetica-Bold").text(totalLabel, x, y);
+      doc.text(formatCurrency(total, currency), x + 120, y, { width: 100, align: "right" });
+      doc.font("Helvetica");
+      return y + 18;
+    };
+
+    const deductions = money.sum([line.epf_employee, line.socso_employee, line.eis_employee, line.pcb]);
+    const earningsEnd = column(50, "Earnings", [["Basic salary", line.basic], ["Allowances", line.allowances]], "Gross pay", line.gross);
+    const deductionsEnd = column(
+      330,
+      "Deductions",
+      [["EPF", line.epf_employee], ["SOCSO", line.socso_employee], ["EIS", line.eis_employee], ["PCB (income tax)", line.pcb]],
+      "Total deductions",
+      deductions
+    );
+
+    // Net pay
+    let y = Math.max(earningsEnd, deductionsEnd) + 20;
+    doc.rect(50, y, 500, 30).stroke("#cccccc");
+    doc.fontSize(12).font("Helvetica-Bold");
+    doc.text("Net pay", 60, y + 9);
+    doc.text(formatCurrency(line.net, currency), 380, y + 9, { width: 160, align: "right" });
+    doc.font("Helvetica").fontSize(10);
+    y += 50;
+
+    // Employer contributions
+    doc.fillColor("#666666").text("Employer contributions", 50, y);
+    y += 16;
+    const employerRows: Array<[string, number]> = [["EPF", line.epf_employer], ["SOCSO", line.socso_employer], ["EIS", line.eis_employer]];
+    employerRows.forEach(([label, amount]) => {
+      doc.text(label, 50, y);
+      doc.text(formatCurrency(amount, currency), 170, y, { width: 100, align: "right" });
+      y += 16;
+    });
+
+    // Footer
+    doc.fontSize(8).fillColor("#999999");
+    doc.text(
+      `Generated by ${businessName} • Payslip ${run.period} • ${employee.name}`,
       50,
       750,
       { align: "center", width: 500 }
@@ -31,6 +31,7 @@ import { ReportView } from "./components/ReportView.js";
 import { ContactsView } from "./components/ContactsView.js";
 import { ExpensesView } from "./components/ExpensesView.js";
 import { DocumentsView } from "./components/DocumentsView.js";
+import { TimesheetView } from "./components/TimesheetView.js";
 import { SettingsView } from "./components/SettingsView.js";
 import { AccountingMenu } from "./components/AccountingMenu.js";
 import { LHDNSettingsView } from "./components/LHDNSettingsView.js";
@@ -59,6 +60,7 @@ type View =
   | "expenses"
   | "reports"
   | "contacts"
+  | "time"
   | "vault"
   | "accounting"
   | "help"
@@ -73,6 +75,7 @@ const VIEW_LABELS: Record<View, string> = {
   expenses: "Expenses",
   reports: "Reports",
   contacts: "Contacts",
+  time: "Timesheet",
   vault: "Vault",
   accounting: "Accounting",
   help: "Help",
@@ -95,6 +98,7 @@ interface DashboardData {
 export function DashboardApp() {
   const [currentView, setCurrentView] = useState<View>("dashboard");
   const [showHelp, setShowHelp] = useState(false);
+  const [reportEditing, setReportEditing] = useState(false);
   const { exit } = useApp();
   const { stdout } = useStdout();
   const theme = getEnhancedTheme();
@@ -168,8 +172,11 @@ export function DashboardApp() {
     if (showHelp) { setShowHelp(false); return; }
     if (input === "c" && key.ctrl) { exit(); return; }
 
+    // Budget entry in the reports view takes over the keyboard
+    if (currentView === "reports" && reportEditing) return;
+
     // Views that handle their own input - we just pass through
-    const inputHandlingViews: View[] = ["chat", "contacts", "invoices", "expenses", "vault", "settings", "lhdn", "spreadsheet"];
+    const inputHandlingViews: View[] = ["chat", "contacts", "invoices", "expenses", "time", "vault", "settings", "lhdn", "spreadsheet"];
     if (inputHandlingViews.includes(currentView)) {
       // Spreadsheet handles its own Escape with confirmation dialog
       // Don't intercept Escape for spreadsheet - let it handle exit confirmation
@@ -187,7 +194,7 @@ export function DashboardApp() {
     const viewMap: Record<string, View> = {
       d: "dashboard", c: "chat", i: "invoices", e: "expenses",
       r: "reports", p: "contacts", v: "vault", a: "accounting",
-      s: "settings", l: "lhdn", x: "spreadsheet",
+      s: "settings", l: "lhdn", x: "spreadsheet", h: "time",
     };
 
     if (viewMap[input]) {
@@ -246,8 +253,11 @@ export function DashboardApp() {
           {currentView === "chat" && <ChatView width={dimensions.width} height={contentHeight} />}
           {currentView === "invoices" && <InvoiceList width={dimensions.width} height={contentHeight} />}
           {currentView === "expenses" && <ExpensesView width={dimensions.width} height={contentHeight} />}
-          {currentView === "reports" && <ReportView width={dimensions.width} height={contentHeight} />}
+          {currentView === "reports" && (
+            <ReportView width={dimensions.width} height={contentHeight} onEditingChange={setReportEditing} />
+          )}
           {currentView === "contacts" && <ContactsView width={dimensions.width} height={contentHeight} />}
+          {currentView === "time" && <TimesheetView width={dimensions.width} height={contentHeight} />}
           {currentView === "vault" && <DocumentsView width={dimensions.width} height={contentHeight} />}
           {currentView === "accounting" && <AccountingMenu width={dimensions.width} height={contentHeight} onExit={() => setCurrentView("dashboard")} />}
           {currentView === "settings" && <SettingsView width={dimensions.width} height={contentHeight} />}
@@ -286,6 +296,7 @@ export function DashboardApp() {
             <NavItem k="e" label="Expenses" active={currentView === "expenses"} />
             <NavItem k="r" label="Reports" active={currentView === "reports"} />
             <NavItem k="p" label="People" active={currentView === "contacts"} />
+            <NavItem k="h" label="Time" active={currentView === "time"} />
             <NavItem k="v" label="Vault" active={currentView === "vault"} />
             <NavItem k="c" label="Chat" active={currentView === "chat"} />
             <NavItem k="x" label="Sheet" active={currentView === "spreadsheet"} />
@@ -371,6 +382,11 @@ function getContextualActions(view: View): Array<{ key: string; label: string; i
       { key: "Enter", label: "Send", icon: "→" },
       { key: "Esc", label: "Back", icon: "←" },
     ],
+    time: [
+      { key: "n", label: "Log Time", icon: "+" },
+      { key: "b", label: "Bill Customer", icon: "→" },
+      { key: "s", label: "Stop Timer", icon: "■" },
+    ],
     vault: [
       { key: "u", label: "Upload", icon: "↑" },
       { key: "Enter", label: "Open", icon: "→" },
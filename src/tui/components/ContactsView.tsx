@@ -14,6 +14,11 @@ import {
   type CustomerWithBalance,
 } from "../../domain/customers.js";
 import { listVendors, createVendor, type VendorWithBalance } from "../../domain/vendors.js";
+import { listBills, type Bill } from "../../domain/bills.js";
+import { getVendorCommitments, type PurchaseOrder } from "../../domain/purchase-orders.js";
+import { getCustomerStatement, type CustomerStatement } from "../../domain/statements.js";
+import { generateStatementPDF } from "../../services/pdf.js";
+import { isEmailConfigured, sendStatementEmail } from "../../services/email.js";
 import { getEnhancedTheme } from "../design/theme.js";
 import { indicators, borderStyles } from "../design/tokens.js";
 import { useBlinkingCursor } from "../animations.js";
@@ -27,6 +32,8 @@ interface ContactsViewProps {
 
 type FocusPanel = "customers" | "vendors";
 type Mode = "list" | "add" | "edit";
+type VendorDetailTab = "details" | "bills";
+type CustomerDetailTab = "details" | "statement";
 type FormTab = "basic" | "lhdn" | "address";
 type FormField =
   | "name"
@@ -182,6 +189,8 @@ export function ContactsView({ width, height }: ContactsViewProps) {
   // Selection state
   const [customerIndex, setCustomerIndex] = useState(0);
   const [vendorIndex, setVendorIndex] = useState(0);
+  const [vendorDetailTab, setVendorDetailTab] = useState<VendorDetailTab>("details");
+  const [customerDetailTab, setCustomerDetailTab] = useState<CustomerDetailTab>("details");
 
   // Form state
   const [activeTab, setActiveTab] = useState<FormTab>("basic");
@@ -233,6 +242,60 @@ export function ContactsView({ width, height }: ContactsViewProps) {
     loadData();
   }, []);
 
+  // Bills for the selected vendor (shown in the vendor detail Bills tab)
+  const selectedVendorBills = useMemo<Bill[]>(() => {
+    const vendor = vendors[vendorIndex];
+    return vendor ? listBills({ vendor_id: vendor.id, limit: 8 }) : [];
+  }, [vendors, vendorIndex]);
+
+  // Open purchase orders for the selected vendor (shown under the vendor details)
+  const selectedVendorCommitments = useMemo(() => {
+    const vendor = vendors[vendorIndex];
+    return vendor ? getVendorCommitments(vendor.id) : null;
+  }, [vendors, vendorIndex]);
+
+  // Statement for the selected customer (shown in the customer detail Statement tab)
+  const selectedCustomerStatement = useMemo<CustomerStatement | null>(() => {
+    const customer = customers[customerIndex];
+    if (!customer || customerDetailTab !== "statement") return null;
+    try {
+      return getCustomerStatement(customer.id);
+    } catch {
+      return null;
+    }
+  }, [customers, customerIndex, customerDetailTab]);
+
+  const emailStatement = async (statement: CustomerStatement) => {
+    if (!statement.customer.email) {
+      showMessage("error", `${statement.customer.name} has no email address`, 3000);
+      return;
+    }
+    if (!isEmailConfigured()) {
+      showMessage("error", "Email not configured (resend_api_key, from_email)", 3000);
+      return;
+    }
+    try {
+      const pdf = await generateStatementPDF(statement.customer.id, {
+        from_date: statement.from_date,
+        to_date: statement.to_date,
+      });
+      const result = await sendStatementEmail(
+        statement.customer.email,
+        statement.customer.name,
+        statement.to_date,
+        statement.closing_balance,
+        pdf
+      );
+      if (result.success) {
+        showMessage("success", `Statement emailed to ${statement.customer.email}`);
+      } else {
+        showMessage("error", result.error || "Email failed", 3000);
+      }
+    } catch (err) {
+      showMessage("error", (err as Error).message, 3000);
+    }
+  };
+
   const showMessage = (type: "success" | "error", text: string, duration = 2000) => {
     setMessage({ type, text });
     setTimeout(() => setMessage(null), duration);
@@ -427,6 +490,29 @@ export function ContactsView({ width, height }: ContactsViewProps) {
         setMode("add");
       }
 
+      // Toggle vendor detail between details and bills
+      if (input === "b" && focusPanel === "vendors") {
+        setVendorDetailTab((prev) => (prev === "details" ? "bills" : "details"));
+      }
+
+      // Toggle customer detail between details and statement
+      if (input === "s" && focusPanel === "customers") {
+        setCustomerDetailTab((prev) => (prev === "details" ? "statement" : "details"));
+      }
+
+      // Stop or resume payment reminders for the customer
+      if (input === "o" && focusPanel === "customers" && customers[customerIndex]) {
+        const customer = customers[customerIndex];
+        updateCustomer(customer.id, { dunning_opt_out: !customer.dunning_opt_out });
+        showMessage("success", customer.dunning_opt_out ? "Payment reminders resumed" : "Payment reminders stopped");
+        loadData();
+      }
+
+      // Email the statement being viewed
+      if (input === "m" && focusPanel === "customers" && selectedCustomerStatement) {
+        void emailStatement(selectedCustomerStatement);
+      }
+
       // Edit existing (customers only for LHDN fields)
       if (input === "e" && focusPanel === "customers" && customers[customerIndex]) {
         loadCustomerToForm(customers[customerIndex]);
@@ -573,7 +659,7 @@ export function ContactsView({ width, height }: ContactsViewProps) {
         {/* Hints */}
         <Box marginY={1}>
           <Text color={theme.semantic.textMuted}>
-            <Text color={theme.semantic.success}>n</Text> add • e edit • j/k ↕ • Tab →
+            <Text color={theme.semantic.success}>n</Text> add • e edit • o reminders • s statement{customerDetailTab === "statement" ? " • m email" : ""} • j/k ↕ • Tab →
           </Text>
         </Box>
 
@@ -609,6 +695,8 @@ export function ContactsView({ width, height }: ContactsViewProps) {
                 item={customers[customerIndex]}
                 type="customer"
                 theme={theme}
+                customerTab={customerDetailTab}
+                statement={selectedCustomerStatement}
               />
             )}
           </>
@@ -669,7 +757,7 @@ export function ContactsView({ width, height }: ContactsViewProps) {
         {/* Hints */}
         <Box marginY={1}>
           <Text color={theme.semantic.textMuted}>
-            <Text color={theme.semantic.success}>n</Text> add • j/k ↕ • Tab ←
+            <Text color={theme.semantic.success}>n</Text> add • b bills • j/k ↕ • Tab ←
           </Text>
         </Box>
 
@@ -705,6 +793,9 @@ export function ContactsView({ width, height }: ContactsViewProps) {
                 item={vendors[vendorIndex]}
                 type="vendor"
                 theme={theme}
+                detailTab={vendorDetailTab}
+                bills={selectedVendorBills}
+                commitments={selectedVendorCommitments}
               />
             )}
           </>
@@ -810,9 +901,23 @@ interface ContactDetailProps {
   item: CustomerWithBalance | VendorWithBalance | null;
   type: "customer" | "vendor";
   theme: ReturnType<typeof getEnhancedTheme>;
+  detailTab?: VendorDetailTab;
+  bills?: Bill[];
+  commitments?: { orders: PurchaseOrder[]; total: number } | null;
+  customerTab?: CustomerDetailTab;
+  statement?: CustomerStatement | null;
 }
 
-function ContactDetail({ item, type, theme }: ContactDetailProps) {
+function ContactDetail({
+  item,
+  type,
+  theme,
+  detailTab = "details",
+  bills = [],
+  commitments = null,
+  customerTab = "details",
+  statement = null,
+}: ContactDetailProps) {
   if (!item) return null;
 
   // Type guard for customer-specific properties
@@ -820,9 +925,52 @@ function ContactDetail({ item, type, theme }: ContactDetailProps) {
     return type === "customer";
   };
 
+  const header =
+    type === "vendor" ? (
+      <TabBar
+        tabs={[
+          { id: "details", label: "Details" },
+          { id: "bills", label: `Bills (${bills.length})` },
+        ]}
+        activeTab={detailTab}
+      />
+    ) : (
+      <TabBar
+        tabs={[
+          { id: "details", label: "Details" },
+          { id: "statement", label: "Statement" },
+        ]}
+        activeTab={customerTab}
+      />
+    );
+
+  if (type === "customer" && customerTab === "statement") {
+    return (
+      <Box flexDirection="column" marginTop={1} paddingX={1}>
+        {header}
+        {statement ? <StatementSummary statement={statement} theme={theme} /> : (
+          <Text color={theme.semantic.textMuted}>No statement available</Text>
+        )}
+      </Box>
+    );
+  }
+
+  if (type === "vendor" && detailTab === "bills") {
+    return (
+      <Box flexDirection="column" marginTop={1} paddingX={1}>
+        {header}
+        {bills.length === 0 ? (
+          <Text color={theme.semantic.textMuted}>No bills for this vendor</Text>
+        ) : (
+          bills.map((bill) => <BillRow key={bill.id} bill={bill} theme={theme} />)
+        )}
+      </Box>
+    );
+  }
+
   return (
     <Box flexDirection="column" marginTop={1} paddingX={1}>
-      <Text color={theme.semantic.border}>─────────────────</Text>
+      {header}
       {item.email && (
         <Text color={theme.semantic.textMuted}>Email: {item.email}</Text>
       )}
@@ -843,6 +991,9 @@ function ContactDetail({ item, type, theme }: ContactDetailProps) {
           {item.sst_registration && (
             <Text color={theme.semantic.textMuted}>SST: {item.sst_registration}</Text>
           )}
+          {!!item.dunning_opt_out && (
+            <Text color={theme.semantic.textMuted}>Payment reminders off</Text>
+          )}
           {!item.tin && (
             <Text color={theme.semantic.warning}>
               {indicators.warning} No TIN (required for e-Invoice)
@@ -850,6 +1001,118 @@ function ContactDetail({ item, type, theme }: ContactDetailProps) {
           )}
         </>
       )}
+      {!isCustomer(item) && (
+        <>
+          {item.payment_terms && (
+            <Text color={theme.semantic.textMuted}>Terms: {item.payment_terms.replace("_", " ")}</Text>
+          )}
+          {!!item.is_non_resident && (
+            <Text color={theme.semantic.warning}>
+              Non-resident: {item.wht_category ? `withhold ${item.wht_category}${item.wht_rate != null ? ` at ${item.wht_rate}%` : ""}` : "no WHT category"}
+            </Text>
+          )}
+          {item.bills_outstanding > 0 && (
+            <Text color={theme.semantic.expense}>Bills due: ${item.bills_outstanding.toFixed(2)}</Text>
+          )}
+          {commitments && commitments.orders.length > 0 && (
+            <>
+              <Text color={theme.semantic.warning}>
+                On order: ${commitments.total.toFixed(2)} ({commitments.orders.length} open PO{commitments.orders.length === 1 ? "" : "s"})
+              </Text>
+              {commitments.orders.slice(0, 3).map((order) => (
+                <Text key={order.id} color={theme.semantic.textMuted}>
+                  {"  "}{order.number} {order.expected_date ? `due ${order.expected_date} ` : ""}${(order.committed || 0).toFixed(2)}
+                </Text>
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
+
+// ============================================================================
+// Statement Summary Component
+// ============================================================================
+
+interface StatementSummaryProps {
+  statement: CustomerStatement;
+  theme: ReturnType<typeof getEnhancedTheme>;
+}
+
+function StatementSummary({ statement, theme }: StatementSummaryProps) {
+  const lines = statement.lines.slice(-6);
+  const { aging } = statement;
+
+  return (
+    <Box flexDirection="column">
+      <Text color={theme.semantic.textMuted}>
+        {statement.from_date} → {statement.to_date}
+      </Text>
+      <Box>
+        <Text color={theme.semantic.textMuted}>{"Opening".padEnd(21)}</Text>
+        <Text color={theme.semantic.textPrimary}>{statement.opening_balance.toFixed(2).padStart(10)}</Text>
+      </Box>
+      {lines.map((line, i) => (
+        <Box key={i}>
+          <Text color={theme.semantic.textMuted}>{line.date.slice(5)} </Text>
+          <Text color={theme.semantic.textPrimary}>{line.reference.slice(0, 9).padEnd(10)}</Text>
+          <Text color={line.debit > 0 ? theme.semantic.income : theme.semantic.success}>
+            {(line.debit > 0 ? line.debit : -line.credit).toFixed(2).padStart(10)}
+          </Text>
+          <Text color={theme.semantic.textMuted}>{line.balance.toFixed(2).padStart(10)}</Text>
+        </Box>
+      ))}
+      <Box>
+        <Text bold color={theme.semantic.textPrimary}>{"Balance due".padEnd(21)}</Text>
+        <Text bold color={statement.closing_balance > 0 ? theme.semantic.income : theme.semantic.success}>
+          {statement.closing_balance.toFixed(2).padStart(10)}
+        </Text>
+      </Box>
+      <Text color={theme.semantic.textMuted}>
+        Cur {aging.current.toFixed(0)} • 30 {aging.days_1_30.toFixed(0)} • 60 {aging.days_31_60.toFixed(0)} • 90 {aging.days_61_90.toFixed(0)} • 90+ {aging.days_90_plus.toFixed(0)}
+      </Text>
+      {aging.unapplied_credits > 0 && (
+        <Text color={theme.semantic.success}>Unapplied credit: {aging.unapplied_credits.toFixed(2)}</Text>
+      )}
+    </Box>
+  );
+}
+
+// ============================================================================
+// Bill Row Component
+// ============================================================================
+
+interface BillRowProps {
+  bill: Bill;
+  theme: ReturnType<typeof getEnhancedTheme>;
+}
+
+function BillRow({ bill, theme }: BillRowProps) {
+  const outstanding = bill.total - bill.amount_paid;
+  const today = new Date().toISOString().split("T")[0];
+  const isOverdue = (bill.status === "approved" || bill.status === "partial") && bill.due_date < today;
+
+  const statusColor =
+    bill.status === "paid"
+      ? theme.semantic.success
+      : bill.status === "cancelled"
+        ? theme.semantic.textMuted
+        : isOverdue
+          ? theme.semantic.error
+          : bill.status === "draft"
+            ? theme.semantic.textMuted
+            : theme.semantic.warning;
+
+  return (
+    <Box>
+      <Text color={theme.semantic.textPrimary}>{bill.number.padEnd(10)}</Text>
+      <Text color={theme.semantic.textMuted}> {bill.due_date} </Text>
+      <Text color={statusColor}>{(isOverdue ? "overdue" : bill.status).padEnd(9)}</Text>
+      <Text color={outstanding > 0 ? theme.semantic.expense : theme.semantic.textMuted}>
+        {" $"}{(bill.status === "draft" ? bill.total : outstanding).toFixed(2).padStart(9)}
+      </Text>
     </Box>
   );
 }
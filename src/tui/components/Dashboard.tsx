@@ -9,6 +9,7 @@ import {
   type ReceivablesAgingReport,
 } from "../../domain/reports.js";
 import { listInvoices, type Invoice } from "../../domain/invoices.js";
+import { listBankAccounts, type BankAccount } from "../../domain/bank-accounts.js";
 import { getEnhancedTheme } from "../design/theme.js";
 import { borderStyles } from "../design/tokens.js";
 
@@ -22,6 +23,7 @@ interface DashboardData {
   pl: ProfitLossReport;
   ar: ReceivablesAgingReport;
   recentInvoices: Invoice[];
+  bankAccounts: BankAccount[];
 }
 
 export function Dashboard({ width, height }: DashboardProps) {
@@ -37,8 +39,10 @@ export function Dashboard({ width, height }: DashboardProps) {
     const pl = getProfitLoss(monthStart, today);
     const ar = getReceivablesAging();
     const recentInvoices = listInvoices({}).slice(0, 5);
+    // Accounts with money in them, plus the default even when empty
+    const bankAccounts = listBankAccounts().filter((a) => a.balance !== 0 || a.is_default);
 
-    setData({ balance, pl, ar, recentInvoices });
+    setData({ balance, pl, ar, recentInvoices, bankAccounts });
   }, []);
 
   if (!data) {
@@ -49,7 +53,7 @@ export function Dashboard({ width, height }: DashboardProps) {
     );
   }
 
-  const { balance, pl, ar, recentInvoices } = data;
+  const { balance, pl, ar, recentInvoices, bankAccounts } = data;
   const panelWidth = Math.floor((width - 4) / 2);
 
   return (
@@ -65,6 +69,14 @@ export function Dashboard({ width, height }: DashboardProps) {
           paddingX={1}
         >
           <Text bold color={theme.semantic.info}>Cash Position</Text>
+          {bankAccounts.length > 1 && bankAccounts.map((account) => (
+            <Box key={account.id} justifyContent="space-between">
+              <Text color={theme.semantic.textMuted}>  {account.name.slice(0, panelWidth - 18)}</Text>
+              <Text color={account.balance >= 0 ? theme.semantic.textPrimary : theme.semantic.error}>
+                ${account.balance.toFixed(2)}
+              </Text>
+            </Box>
+          ))}
           <Box justifyContent="space-between">
             <Text color={theme.semantic.textPrimary}>Cash</Text>
             <Text color={balance.assets.cash >= 0 ? theme.semantic.success : theme.semantic.error}>
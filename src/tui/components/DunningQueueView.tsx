@@ -0,0 +1,180 @@
+/**
+ * Dunning Queue View
+ *
+ * Invoices due a payment reminder, the level each has reached and any late fee,
+ * with sending for one invoice or the whole queue.
+ */
+
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import { getEnhancedTheme } from "../design/theme.js";
+import { indicators, borderStyles } from "../design/tokens.js";
+import {
+  getDunningQueue,
+  listDunningHistory,
+  runDunning,
+  type DunningQueueItem,
+  type DunningNotice,
+  type DunningSender,
+} from "../../domain/dunning.js";
+import { isEmailConfigured, sendDunningEmail } from "../../services/email.js";
+
+interface DunningQueueViewProps {
+  width: number;
+  height: number;
+  onBack?: () => void;
+  onSent?: () => void;
+}
+
+const emailSender: DunningSender = (item, message) =>
+  sendDunningEmail(item.customer_email!, item.customer_name, message.subject, message.body);
+
+export function DunningQueueView({ width, height, onBack, onSent }: DunningQueueViewProps) {
+  const theme = getEnhancedTheme();
+  const [queue, setQueue] = useState<DunningQueueItem[]>([]);
+  const [recent, setRecent] = useState<DunningNotice[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const load = () => {
+    const items = getDunningQueue();
+    setQueue(items);
+    setRecent(listDunningHistory({ limit: 5 }));
+    setSelectedIndex((prev) => Math.max(0, Math.min(prev, items.length - 1)));
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Emails when configured, otherwise records the reminder so it can be sent by hand
+  const send = async (invoiceId?: number) => {
+    setIsSending(true);
+    try {
+      const summary = await runDunning({
+        invoice_id: invoiceId,
+        send: isEmailConfigured() ? emailSender : undefined,
+      });
+      const sent = summary.notices.filter((n) => n.status === "sent").length;
+      const logged = summary.notices.length - sent;
+      if (summary.errors.length > 0) {
+        setMessage({ type: "error", text: `${summary.errors[0].invoice_number}: ${summary.errors[0].error}` });
+      } else {
+        setMessage({ type: "success", text: `${sent} emailed, ${logged} recorded` });
+      }
+      onSent?.();
+    } catch (err) {
+      setMessage({ type: "error", text: (err as Error).message });
+    }
+    setIsSending(false);
+    load();
+  };
+
+  useInput((input, key) => {
+    if (isSending) return;
+
+    if (key.escape || input === "q") {
+      onBack?.();
+      return;
+    }
+    if (key.upArrow || input === "k") {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+    }
+    if (key.downArrow || input === "j") {
+      setSelectedIndex((prev) => Math.min(queue.length - 1, prev + 1));
+    }
+    if ((key.return || input === "s") && queue[selectedIndex]) {
+      void send(queue[selectedIndex].invoice_id);
+    }
+    if (input === "r" && queue.length > 0) {
+      void send();
+    }
+  });
+
+  const selected = queue[selectedIndex];
+  const feeTotal = queue.reduce((s, i) => s + i.fee, 0);
+
+  return (
+    <Box
+      flexDirection="column"
+      width={width}
+      height={height}
+      borderStyle={borderStyles.panel}
+      borderColor={theme.semantic.focusBorder}
+      paddingX={1}
+    >
+      <Box justifyContent="space-between" marginBottom={1}>
+        <Text bold color={theme.semantic.warning}>◆ Payment Reminders</Text>
+        <Text color={theme.semantic.textMuted}>{queue.length} due</Text>
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text color={theme.semantic.textMuted}>
+          <Text color={theme.semantic.success}>s</Text> send •{" "}
+          <Text color={theme.semantic.success}>r</Text> send all • j/k ↕ • q back
+          {!isEmailConfigured() && <Text color={theme.semantic.warning}> • email not configured, reminders are recorded only</Text>}
+        </Text>
+      </Box>
+
+      {queue.length === 0 ? (
+        <Text color={theme.semantic.textMuted}>No reminders due</Text>
+      ) : (
+        <Box flexDirection="column" overflowY="hidden">
+          {queue.slice(0, Math.max(1, height - 16)).map((item, i) => {
+            const isSelected = i === selectedIndex;
+            const days = item.days_overdue < 0 ? `in ${-item.days_overdue}d` : `${item.days_overdue}d late`;
+            return (
+              <Box key={item.invoice_id}>
+                <Text color={isSelected ? theme.semantic.focus : theme.semantic.textMuted}>
+                  {isSelected ? indicators.pointer : " "}{" "}
+                </Text>
+                <Text color={theme.semantic.textPrimary}>{item.invoice_number.padEnd(11)}</Text>
+                <Text color={theme.semantic.textSecondary}>{item.customer_name.slice(0, 16).padEnd(17)}</Text>
+                <Text color={item.days_overdue > 0 ? theme.semantic.error : theme.semantic.info}>{days.padStart(9)} </Text>
+                <Text color={theme.semantic.warning}>{item.level.name.slice(0, 16).padEnd(17)}</Text>
+                <Text color={theme.semantic.income}>{item.outstanding.toFixed(2).padStart(10)}</Text>
+                {item.fee > 0 && <Text color={theme.semantic.expense}> +{item.fee.toFixed(2)}</Text>}
+                {!item.customer_email && <Text color={theme.semantic.textMuted}> (no email)</Text>}
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+
+      {selected && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text color={theme.semantic.border}>{"─".repeat(Math.max(0, width - 4))}</Text>
+          <Text color={theme.semantic.textMuted}>
+            {selected.level.name} for {selected.invoice_number} → {selected.customer_email || "no email on file"}
+          </Text>
+          <Text color={theme.semantic.textMuted}>Due {selected.due_date}</Text>
+        </Box>
+      )}
+
+      <Box flexGrow={1} />
+
+      {recent.length > 0 && (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text color={theme.semantic.textMuted}>Recently sent</Text>
+          {recent.map((n) => (
+            <Text key={n.id} color={n.status === "failed" ? theme.semantic.error : theme.semantic.textMuted}>
+              {n.date} {n.invoice_number} {n.level_name} {n.status === "sent" ? indicators.check : n.status === "failed" ? indicators.cross : "·"}
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      <Box justifyContent="space-between">
+        <Text color={theme.semantic.textMuted}>Late fees if sent</Text>
+        <Text color={theme.semantic.expense}>${feeTotal.toFixed(2)}</Text>
+      </Box>
+
+      {(message || isSending) && (
+        <Text color={isSending ? theme.semantic.info : message?.type === "success" ? theme.semantic.success : theme.semantic.error}>
+          {isSending ? "Sending..." : `${message?.type === "success" ? indicators.check : indicators.warning} ${message?.text}`}
+        </Text>
+      )}
+    </Box>
+  );
+}
@@ -10,11 +10,18 @@ import { Box, Text, useInput, Key } from "ink";
 import {
   listInvoices,
   createInvoice,
+  updateDraftInvoice,
+  issueInvoice,
   getInvoice,
-  updateInvoiceStatus,
-  recordPaymentToInvoice,
   Invoice,
 } from "../../domain/invoices.js";
+import {
+  recordPayment,
+  applyCustomerCredits,
+  getCustomerCredits,
+  listAllocations,
+} from "../../domain/payments.js";
+import { writeOffInvoice, recoverBadDebt, listBadDebts } from "../../domain/bad-debts.js";
 import {
   listCustomers,
   createCustomer,
@@ -29,6 +36,9 @@ import {
   linkDocumentToInvoice,
   type Document,
 } from "../../domain/documents.js";
+import { getBaseCurrency } from "../../domain/exchange-rates.js";
+import { listItems, type Item } from "../../domain/items.js";
+import { getTaxCode } from "../../domain/tax-codes.js";
 import { isEmailConfigured, sendInvoiceEmail } from "../../services/email.js";
 import {
   generateInvoicePDF,
@@ -40,6 +50,7 @@ import { indicators, spacing, borderStyles } from "../design/tokens.js";
 import { useBlinkingCursor } from "../animations.js";
 import { Sparkline, Gauge, ChartProgressBar as ProgressBar } from "./ui/index.js";
 import { EInvoiceView } from "./EInvoiceView.js";
+import { DunningQueueView } from "./DunningQueueView.js";
 import {
   EINVOICE_STATUS_LABELS,
   CURRENCY_CODES,
@@ -52,6 +63,8 @@ import type { EInvoiceStatus } from "../../services/myinvois/types.js";
 
 // LHDN constants arrays for selectors
 const CURRENCY_KEYS = Object.keys(CURRENCY_CODES);
+// New invoices start in the business's base currency
+const baseCurrencyIndex = () => Math.max(0, CURRENCY_KEYS.indexOf(getBaseCurrency()));
 const PAYMENT_MODE_KEYS = Object.keys(PAYMENT_MODE_LABELS);
 const CLASSIFICATION_KEYS = Object.keys(CLASSIFICATION_CODES);
 const TAX_TYPE_KEYS = Object.keys(TAX_TYPE_LABELS);
@@ -69,9 +82,10 @@ interface LineItem {
   classificationCode: string;
   taxType: string;
   unitCode: string;
+  itemId?: number; // Picked from the catalog
 }
 
-type FocusArea = "list" | "form" | "detail" | "payment" | "attach" | "einvoice";
+type FocusArea = "list" | "form" | "detail" | "payment" | "writeoff" | "attach" | "einvoice" | "dunning";
 type FormField =
   | "customer"
   | "address"
@@ -340,11 +354,13 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
   // Detail view state
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [paymentAmount, setPaymentAmount] = useState("");
+  const [writeOffReason, setWriteOffReason] = useState("");
   const [unlinkedDocs, setUnlinkedDocs] = useState<any[]>([]);
   const [docIndex, setDocIndex] = useState(0);
   const [isSendingEmail, setIsSendingEmail] = useState(false);
 
-  // Form state
+  // Form state; editingInvoice is set while a draft is loaded into the form
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
   const [customerName, setCustomerName] = useState("");
   const [address, setAddress] = useState("");
   const [dueDate, setDueDate] = useState("");
@@ -352,7 +368,7 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
   const [notes, setNotes] = useState("");
 
   // LHDN invoice-level selectors
-  const [currencyIndex, setCurrencyIndex] = useState(0);
+  const [currencyIndex, setCurrencyIndex] = useState(baseCurrencyIndex);
   const [paymentModeIndex, setPaymentModeIndex] = useState(2);
 
   // Line items with LHDN fields
@@ -368,6 +384,7 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
   ]);
   const [currentItemIndex, setCurrentItemIndex] = useState(0);
   const [showItemLhdnFields, setShowItemLhdnFields] = useState(false);
+  const [catalog, setCatalog] = useState<Item[]>([]);
 
   const [message, setMessage] = useState<{
     type: "success" | "error";
@@ -417,6 +434,7 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
     });
     setInvoices(invs);
     setUnlinkedDocs(getUnlinkedDocuments());
+    setCatalog(listItems());
     if (selectedInvoice && invs.length > 0) {
       const updated = getInvoice(selectedInvoice.id);
       setSelectedInvoice(updated || null);
@@ -440,12 +458,13 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
   }, [selectedIndex, invoices]);
 
   const resetForm = () => {
+    setEditingInvoice(null);
     setCustomerName("");
     setAddress("");
     setDueDate("");
     setTaxRate("");
     setNotes("");
-    setCurrencyIndex(0);
+    setCurrencyIndex(baseCurrencyIndex());
     setPaymentModeIndex(2);
     setItems([
       {
@@ -461,6 +480,30 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
     setShowItemLhdnFields(false);
   };
 
+  // Load a draft into the form for editing
+  const editDraft = (invoice: Invoice) => {
+    setEditingInvoice(invoice);
+    setCustomerName(invoice.customer_name || "");
+    setAddress(getCustomer(invoice.customer_id)?.address || "");
+    setDueDate(invoice.due_date);
+    setTaxRate(String(invoice.tax_rate));
+    setNotes(invoice.notes || "");
+    setCurrencyIndex(Math.max(0, CURRENCY_KEYS.indexOf(invoice.currency_code || getBaseCurrency())));
+    setPaymentModeIndex(Math.max(0, PAYMENT_MODE_KEYS.indexOf(invoice.payment_mode || "03")));
+    setItems((invoice.items || []).map((item) => ({
+      description: item.description,
+      quantity: String(item.quantity),
+      unitPrice: String(item.unit_price),
+      classificationCode: item.classification_code || "002",
+      taxType: item.tax_type || "E",
+      unitCode: item.unit_code || "EA",
+      itemId: item.item_id ?? undefined,
+    })));
+    setCurrentItemIndex(0);
+    setFocusArea("form");
+    setActiveField("customer");
+  };
+
   const showMessage = (type: "success" | "error", text: string, duration = 2000) => {
     setMessage({ type, text });
     setTimeout(() => setMessage(null), duration);
@@ -488,6 +531,21 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
     setItems(newItems);
   };
 
+  // Fill the current line from a catalog item; its account and tax code are applied on save
+  const pickCatalogItem = (item: Item) => {
+    const newItems = [...items];
+    newItems[currentItemIndex] = {
+      ...newItems[currentItemIndex],
+      description: item.description || item.name,
+      unitPrice: String(item.unit_price),
+      classificationCode: item.classification_code || "002",
+      taxType: (item.tax_code && getTaxCode(item.tax_code.split("+")[0])?.tax_type) || "E",
+      unitCode: item.unit_code || "EA",
+      itemId: item.id,
+    };
+    setItems(newItems);
+  };
+
   const handleSubmit = () => {
     if (!customerName.trim()) {
       showMessage("error", "Customer name required");
@@ -531,11 +589,17 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
           classification_code: item.classificationCode || "002",
           tax_type: item.taxType || "E",
           unit_code: item.unitCode || "EA",
+          item_id: item.itemId,
         })),
       };
 
-      createInvoice(invoiceData);
-      showMessage("success", "Invoice created!");
+      if (editingInvoice) {
+        updateDraftInvoice(editingInvoice.id, invoiceData);
+        showMessage("success", `${editingInvoice.number} updated`);
+      } else {
+        createInvoice(invoiceData);
+        showMessage("success", "Draft invoice created!");
+      }
       resetForm();
       loadInvoices();
     } catch (err) {
@@ -547,9 +611,10 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
   useInput((input, key) => {
     // Escape to go back
     if (key.escape) {
-      if (focusArea === "payment" || focusArea === "attach" || focusArea === "einvoice") {
+      if (focusArea === "payment" || focusArea === "writeoff" || focusArea === "attach" || focusArea === "einvoice") {
         setFocusArea("detail");
         setPaymentAmount("");
+        setWriteOffReason("");
       } else if (focusArea === "form") {
         setFocusArea("list");
       } else if (focusArea === "detail") {
@@ -573,8 +638,23 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
       if (key.return && paymentAmount.trim()) {
         const amount = parseFloat(paymentAmount);
         if (!isNaN(amount) && amount > 0 && selectedInvoice) {
-          recordPaymentToInvoice(selectedInvoice.id, amount);
-          showMessage("success", `Payment of $${amount.toFixed(2)} recorded!`);
+          try {
+            if ((selectedInvoice.written_off_amount || 0) > 0) {
+              // Money in on a written-off invoice is a bad debt recovery
+              recoverBadDebt(selectedInvoice.id, { amount });
+              showMessage("success", `Recovered $${amount.toFixed(2)} of bad debt`);
+            } else {
+              const payment = recordPayment({ invoice_id: selectedInvoice.id, customer_id: selectedInvoice.customer_id, amount });
+              showMessage(
+                "success",
+                payment.unapplied_amount
+                  ? `Payment recorded, $${payment.unapplied_amount.toFixed(2)} held as credit`
+                  : `Payment of $${amount.toFixed(2)} recorded!`
+              );
+            }
+          } catch (err) {
+            showMessage("error", (err as Error).message, 3000);
+          }
           setPaymentAmount("");
           setFocusArea("detail");
           loadInvoices();
@@ -591,6 +671,36 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
       return;
     }
 
+    // Write-off mode: type the reason
+    if (focusArea === "writeoff") {
+      if (key.return && writeOffReason.trim() && selectedInvoice) {
+        try {
+          const badDebt = writeOffInvoice(selectedInvoice.id, { reason: writeOffReason, claim_relief: true });
+          showMessage(
+            "success",
+            badDebt.relief_date
+              ? `Wrote off $${badDebt.amount.toFixed(2)}, SST relief $${badDebt.relief_amount.toFixed(2)}`
+              : `Wrote off $${badDebt.amount.toFixed(2)}`,
+            3000
+          );
+        } catch (err) {
+          showMessage("error", (err as Error).message, 3000);
+        }
+        setWriteOffReason("");
+        setFocusArea("detail");
+        loadInvoices();
+        return;
+      }
+      if (key.backspace || key.delete) {
+        setWriteOffReason((prev) => prev.slice(0, -1));
+        return;
+      }
+      if (input && !key.ctrl && !key.meta) {
+        setWriteOffReason((prev) => prev + input);
+      }
+      return;
+    }
+
     // Attach mode
     if (focusArea === "attach") {
       if (key.leftArrow || input === "h") {
@@ -627,6 +737,7 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
         setSelectedIndex(0);
       }
       if (input === "n") {
+        if (editingInvoice) resetForm();
         setFocusArea("form");
         setActiveField("customer");
       }
@@ -634,19 +745,54 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
         setFocusArea("detail");
       }
       if (input === "s" && selectedInvoice && selectedInvoice.status === "draft") {
-        updateInvoiceStatus(selectedInvoice.id, "sent");
-        showMessage("success", "Invoice marked as sent!");
+        try {
+          const issued = issueInvoice(selectedInvoice.id);
+          showMessage("success", `Issued ${issued.number}`);
+        } catch (err) {
+          showMessage("error", (err as Error).message, 3000);
+        }
         loadInvoices();
       }
+      if (input === "u" && selectedInvoice) {
+        if (selectedInvoice.status === "draft") {
+          editDraft(selectedInvoice);
+        } else {
+          showMessage("error", "Only drafts can be edited. Issue a credit note instead.", 3000);
+        }
+      }
       if (
         input === "p" &&
         selectedInvoice &&
-        selectedInvoice.status !== "paid" &&
+        (selectedInvoice.status !== "paid" || (selectedInvoice.written_off_amount || 0) > 0) &&
         selectedInvoice.status !== "cancelled"
       ) {
         setFocusArea("payment");
         setPaymentAmount("");
       }
+      if (
+        input === "w" &&
+        selectedInvoice &&
+        selectedInvoice.document_type !== "02" &&
+        ["sent", "partial", "overdue"].includes(selectedInvoice.status)
+      ) {
+        setFocusArea("writeoff");
+        setWriteOffReason("");
+      }
+      if (
+        input === "c" &&
+        selectedInvoice &&
+        selectedInvoice.document_type !== "02" &&
+        ["sent", "partial", "overdue"].includes(selectedInvoice.status)
+      ) {
+        try {
+          const applied = applyCustomerCredits(selectedInvoice.id);
+          const total = applied.reduce((sum, a) => sum + a.amount, 0);
+          showMessage(applied.length > 0 ? "success" : "error", applied.length > 0 ? `Applied $${total.toFixed(2)} of credit` : "No credit to apply", 3000);
+        } catch (err) {
+          showMessage("error", (err as Error).message, 3000);
+        }
+        loadInvoices();
+      }
       if (input === "a" && selectedInvoice && unlinkedDocs.length > 0) {
         setFocusArea("attach");
         setDocIndex(0);
@@ -657,6 +803,9 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
       if (input === "m" && selectedInvoice && !isSendingEmail) {
         handleEmailInvoice();
       }
+      if (input === "d") {
+        setFocusArea("dunning");
+      }
     } else if (focusArea === "einvoice") {
       if (key.escape || input === "q") {
         setFocusArea("detail");
@@ -683,26 +832,25 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
     showMessage("success", "Generating PDF and sending...");
 
     try {
-      const pdfBuffer = await generateInvoicePDF(selectedInvoice.id);
+      // Issue drafts first so the emailed PDF carries the final invoice number
+      const invoice = selectedInvoice.status === "draft" ? issueInvoice(selectedInvoice.id) : selectedInvoice;
+      const pdfBuffer = await generateInvoicePDF(invoice.id);
       const result = await sendInvoiceEmail(
         customer.email!,
-        selectedInvoice.number,
+        invoice.number,
         customer.name,
-        selectedInvoice.total - selectedInvoice.amount_paid,
-        selectedInvoice.due_date,
+        invoice.total - invoice.amount_paid,
+        invoice.due_date,
         pdfBuffer
       );
 
       if (result.success) {
-        updateInvoiceEmailStatus(selectedInvoice.id, "email_sent_at");
-        if (selectedInvoice.status === "draft") {
-          updateInvoiceStatus(selectedInvoice.id, "sent");
-        }
+        updateInvoiceEmailStatus(invoice.id, "email_sent_at");
         showMessage("success", "Invoice emailed!", 3000);
-        loadInvoices();
       } else {
         showMessage("error", `Email failed: ${result.error}`, 3000);
       }
+      loadInvoices();
     } catch (err) {
       showMessage("error", `Error: ${(err as Error).message}`, 3000);
     } finally {
@@ -779,6 +927,14 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
       }
     }
 
+    // Pick the line from the catalog
+    if (field === "itemDesc" && catalog.length > 0) {
+      const currentIdx = catalog.findIndex((item) => item.id === items[currentItemIndex].itemId);
+      const nextIdx = key.leftArrow ? Math.max(0, currentIdx - 1) : Math.min(catalog.length - 1, currentIdx + 1);
+      pickCatalogItem(catalog[nextIdx]);
+      return true;
+    }
+
     // Item LHDN fields
     if (field === "itemClassification") {
       const currentIdx = CLASSIFICATION_KEYS.indexOf(items[currentItemIndex].classificationCode);
@@ -926,7 +1082,7 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
           <Text color={theme.semantic.textMuted}>
             <Text color={theme.semantic.success}>n</Text> new
             <Text color={theme.semantic.textMuted}> • </Text>
-            <Text color={theme.semantic.info}>f</Text> filter • j/k ↕ • s send
+            <Text color={theme.semantic.info}>f</Text> filter • j/k ↕ • s issue • d reminders
           </Text>
         </Box>
 
@@ -1004,6 +1160,8 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
           taxRate={taxRate}
           notes={notes}
           formTotal={formTotal}
+          editingNumber={editingInvoice?.number}
+          catalogCount={catalog.length}
           message={message}
         />
       ) : focusArea === "einvoice" && selectedInvoice ? (
@@ -1023,6 +1181,13 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
           errorMessage={selectedInvoice.einvoice_error}
           onBack={() => setFocusArea("detail")}
         />
+      ) : focusArea === "dunning" ? (
+        <DunningQueueView
+          width={detailWidth}
+          height={height}
+          onBack={() => setFocusArea("list")}
+          onSent={loadInvoices}
+        />
       ) : (
         <InvoiceDetail
           width={detailWidth}
@@ -1031,6 +1196,7 @@ export function InvoiceList({ width, height }: InvoiceListProps) {
           focusArea={focusArea}
           selectedInvoice={selectedInvoice}
           paymentAmount={paymentAmount}
+          writeOffReason={writeOffReason}
           unlinkedDocs={unlinkedDocs}
           docIndex={docIndex}
           message={message}
@@ -1060,6 +1226,8 @@ interface InvoiceFormProps {
   taxRate: string;
   notes: string;
   formTotal: number;
+  editingNumber?: string;
+  catalogCount: number;
   message: { type: "success" | "error"; text: string } | null;
 }
 
@@ -1079,6 +1247,8 @@ function InvoiceForm({
   taxRate,
   notes,
   formTotal,
+  editingNumber,
+  catalogCount,
   message,
 }: InvoiceFormProps) {
   const cursorVisible = useBlinkingCursor(500);
@@ -1095,7 +1265,7 @@ function InvoiceForm({
       {/* Header */}
       <Box marginBottom={1}>
         <Text bold color={theme.semantic.primary}>
-          {indicators.bullet} New Invoice
+          {indicators.bullet} {editingNumber ? `Edit ${editingNumber}` : "New Invoice"}
         </Text>
       </Box>
       <Text color={theme.semantic.textMuted}>
@@ -1156,6 +1326,9 @@ function InvoiceForm({
         {showItemLhdnFields && (
           <Text color={theme.semantic.success}> (LHDN)</Text>
         )}
+        {activeField === "itemDesc" && catalogCount > 0 && (
+          <Text color={theme.semantic.textMuted}> ←→ pick from {catalogCount} catalog items</Text>
+        )}
       </Box>
       <Box>
         <Text color={theme.semantic.textMuted}>
@@ -1315,6 +1488,7 @@ interface InvoiceDetailProps {
   focusArea: FocusArea;
   selectedInvoice: Invoice | null;
   paymentAmount: string;
+  writeOffReason: string;
   unlinkedDocs: Document[];
   docIndex: number;
   message: { type: "success" | "error"; text: string } | null;
@@ -1327,12 +1501,13 @@ function InvoiceDetail({
   focusArea,
   selectedInvoice,
   paymentAmount,
+  writeOffReason,
   unlinkedDocs,
   docIndex,
   message,
 }: InvoiceDetailProps) {
   const cursorVisible = useBlinkingCursor(500);
-  const isFocused = focusArea === "detail" || focusArea === "payment" || focusArea === "attach";
+  const isFocused = focusArea === "detail" || focusArea === "payment" || focusArea === "writeoff" || focusArea === "attach";
 
   if (!selectedInvoice) {
     return (
@@ -1358,6 +1533,14 @@ function InvoiceDetail({
 
   const customer = getCustomer(selectedInvoice.customer_id);
   const docs = getDocumentsForInvoice(selectedInvoice.id);
+  // Credit notes show where their credit went; invoices show what settled them
+  const isCreditNote = selectedInvoice.document_type === "02";
+  const allocations = listAllocations(isCreditNote ? { credit_note_id: selectedInvoice.id } : { invoice_id: selectedInvoice.id });
+  const availableCredit = isCreditNote ? 0 : getCustomerCredits(selectedInvoice.customer_id)
+    .reduce((sum, c) => sum + c.available, 0);
+  const badDebts = isCreditNote ? [] : listBadDebts({ invoice_id: selectedInvoice.id });
+  const writtenOff = (selectedInvoice.written_off_amount || 0) > 0;
+  const canWriteOff = !isCreditNote && ["sent", "partial", "overdue"].includes(selectedInvoice.status);
   const einvoiceStatus = selectedInvoice?.einvoice_status as EInvoiceStatus | undefined;
   const balance = selectedInvoice.total - selectedInvoice.amount_paid;
   const paidPercent = selectedInvoice.total > 0 ? (selectedInvoice.amount_paid / selectedInvoice.total) * 100 : 0;
@@ -1380,7 +1563,7 @@ function InvoiceDetail({
           <Text bold color={theme.semantic.textPrimary}>{selectedInvoice.number}</Text>
         </Box>
         <Box>
-          <Text color={statusColor} bold>{statusIcon} {selectedInvoice.status.toUpperCase()}</Text>
+          <Text color={statusColor} bold>{statusIcon} {writtenOff ? "WRITTEN OFF" : selectedInvoice.status.toUpperCase()}</Text>
         </Box>
       </Box>
 
@@ -1419,9 +1602,11 @@ function InvoiceDetail({
         <Text color={theme.semantic.textMuted}>
           {focusArea === "payment"
             ? "Enter amount • ↵ confirm • Esc cancel"
+            : focusArea === "writeoff"
+            ? "Type the reason • ↵ write off • Esc cancel"
             : focusArea === "attach"
             ? "←/→ select • ↵ attach • Esc cancel"
-            : <><Text color={theme.semantic.success}>n</Text> new • s send • p pay • <Text color={theme.semantic.info}>e</Text> e-inv • m mail</>}
+            : <><Text color={theme.semantic.success}>n</Text> new • u edit • s issue • p pay{availableCredit > 0 ? " • c credit" : ""}{canWriteOff ? " • w write off" : ""} • <Text color={theme.semantic.info}>e</Text> e-inv • m mail</>}
         </Text>
       </Box>
 
@@ -1433,12 +1618,26 @@ function InvoiceDetail({
           borderColor={theme.semantic.focus}
           paddingX={1}
         >
-          <Text color={theme.semantic.focus}>Payment amount: $</Text>
+          <Text color={theme.semantic.focus}>{writtenOff ? "Amount recovered: $" : "Payment amount: $"}</Text>
           <Text>{paymentAmount}</Text>
           {cursorVisible && <Text color={theme.semantic.focus}>│</Text>}
         </Box>
       )}
 
+      {/* Write-off Input */}
+      {focusArea === "writeoff" && (
+        <Box
+          marginTop={1}
+          borderStyle={borderStyles.input}
+          borderColor={theme.semantic.warning}
+          paddingX={1}
+        >
+          <Text color={theme.semantic.warning}>Write off ${balance.toFixed(2)} because: </Text>
+          <Text>{writeOffReason}</Text>
+          {cursorVisible && <Text color={theme.semantic.warning}>│</Text>}
+        </Box>
+      )}
+
       {/* Attach Mode */}
       {focusArea === "attach" && unlinkedDocs.length > 0 && (
         <Box
@@ -1587,6 +1786,55 @@ function InvoiceDetail({
         )}
       </Box>
 
+      {/* Allocations */}
+      {allocations.length > 0 && (
+        <>
+          <Box marginTop={1}>
+            <Text bold color={theme.semantic.primary}>
+              {isCreditNote ? "Credit Used" : "Payments & Credits"}
+            </Text>
+          </Box>
+          {allocations.map((allocation) => (
+            <Box key={allocation.id} justifyContent="space-between">
+              <Text color={theme.semantic.textMuted}>
+                {allocation.date}{" "}
+                {isCreditNote
+                  ? allocation.invoice_number || "Refund"
+                  : allocation.credit_note_number || `Payment ${allocation.payment_reference || `#${allocation.payment_id}`}`}
+              </Text>
+              <Text color={theme.semantic.success}>${allocation.amount.toFixed(2)}</Text>
+            </Box>
+          ))}
+        </>
+      )}
+      {/* Bad debt write-offs */}
+      {badDebts.length > 0 && (
+        <>
+          <Box marginTop={1}>
+            <Text bold color={theme.semantic.warning}>Bad Debt</Text>
+          </Box>
+          {badDebts.map((badDebt) => (
+            <Box key={badDebt.id} flexDirection="column">
+              <Box justifyContent="space-between">
+                <Text color={theme.semantic.textMuted}>{badDebt.date} {badDebt.reason}</Text>
+                <Text color={theme.semantic.warning}>${badDebt.amount.toFixed(2)}</Text>
+              </Box>
+              <Text color={theme.semantic.textMuted}>
+                {badDebt.relief_date
+                  ? `SST relief $${badDebt.relief_amount.toFixed(2)} claimed ${badDebt.relief_date}`
+                  : `SST relief from ${badDebt.relief_eligible_from}`}
+                {badDebt.recovered_amount > 0 ? ` • recovered $${badDebt.recovered_amount.toFixed(2)}` : ""}
+              </Text>
+            </Box>
+          ))}
+        </>
+      )}
+      {availableCredit > 0 && selectedInvoice.status !== "paid" && (
+        <Text color={theme.semantic.info}>
+          {indicators.info} Customer has ${availableCredit.toFixed(2)} credit • press c to apply
+        </Text>
+      )}
+
       {/* Documents */}
       {docs.length > 0 && (
         <>
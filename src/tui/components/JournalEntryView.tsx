@@ -15,6 +15,12 @@ import {
   type CreateJournalLineData,
 } from "../../domain/journal.js";
 import { listAccounts, type Account } from "../../domain/accounts.js";
+import {
+  listTrackingValues,
+  formatTrackingTags,
+  type TrackingValue,
+  type TrackingTag,
+} from "../../domain/tracking.js";
 
 interface JournalEntryViewProps {
   width: number;
@@ -24,7 +30,7 @@ interface JournalEntryViewProps {
 type FocusArea = "list" | "form";
 type FormMode = "add" | "edit" | "view" | null;
 type FormField = "date" | "description" | "reference" | "lines";
-type LineField = "account" | "debit" | "credit" | "description";
+type LineField = "account" | "debit" | "credit" | "description" | "tracking";
 
 export function JournalEntryView({ width, height }: JournalEntryViewProps) {
   const theme = getEnhancedTheme();
@@ -51,14 +57,19 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
     debit: string;
     credit: string;
     description: string;
+    tracking: TrackingTag[];
   }>>([
-    { accountId: null, accountDisplay: "", debit: "0", credit: "0", description: "" },
-    { accountId: null, accountDisplay: "", debit: "0", credit: "0", description: "" },
+    { accountId: null, accountDisplay: "", debit: "0", credit: "0", description: "", tracking: [] },
+    { accountId: null, accountDisplay: "", debit: "0", credit: "0", description: "", tracking: [] },
   ]);
 
   // Account search for line items
   const [accountSearchQuery, setAccountSearchQuery] = useState("");
 
+  // Tracking value search for line items (e.g. "proj web" or "website")
+  const [trackingValues, setTrackingValues] = useState<TrackingValue[]>([]);
+  const [trackingSearchQuery, setTrackingSearchQuery] = useState("");
+
   const listWidth = Math.floor(width * 0.60);
   const detailWidth = width - listWidth - 3;
 
@@ -75,6 +86,7 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
 
       setEntries(filteredEntries);
       setAccounts(listAccounts({ is_active: true }));
+      setTrackingValues(listTrackingValues());
 
       if (selectedEntry && formMode !== "add") {
         const updated = getJournalEntry(selectedEntry.id);
@@ -102,13 +114,14 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
     setFormDescription("");
     setFormReference("");
     setFormLines([
-      { accountId: null, accountDisplay: "", debit: "0", credit: "0", description: "" },
-      { accountId: null, accountDisplay: "", debit: "0", credit: "0", description: "" },
+      { accountId: null, accountDisplay: "", debit: "0", credit: "0", description: "", tracking: [] },
+      { accountId: null, accountDisplay: "", debit: "0", credit: "0", description: "", tracking: [] },
     ]);
     setActiveLine(0);
     setActiveField("date");
     setActiveLineField("account");
     setAccountSearchQuery("");
+    setTrackingSearchQuery("");
   };
 
   const loadEntryIntoForm = (entry: JournalEntry) => {
@@ -122,6 +135,7 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
         debit: line.debit.toString(),
         credit: line.credit.toString(),
         description: line.description || "",
+        tracking: line.tracking || [],
       }))
     );
   };
@@ -145,6 +159,7 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
           debit: parseFloat(line.debit) || 0,
           credit: parseFloat(line.credit) || 0,
           description: line.description || null,
+          tracking: line.tracking.map((tag) => tag.value_id),
         }));
 
       if (lines.length < 2) {
@@ -214,7 +229,7 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
   const addLine = () => {
     setFormLines([
       ...formLines,
-      { accountId: null, accountDisplay: "", debit: "0", credit: "0", description: "" },
+      { accountId: null, accountDisplay: "", debit: "0", credit: "0", description: "", tracking: [] },
     ]);
     setActiveLine(formLines.length);
   };
@@ -319,7 +334,7 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
         // Cycle through fields
         if (activeField === "lines") {
           // In lines, tab cycles through line fields
-          const lineFields: LineField[] = ["account", "debit", "credit", "description"];
+          const lineFields: LineField[] = ["account", "debit", "credit", "description", "tracking"];
           const currentIdx = lineFields.indexOf(activeLineField);
           const nextIdx = (currentIdx + 1) % lineFields.length;
           setActiveLineField(lineFields[nextIdx]);
@@ -401,6 +416,8 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
             const newLines = [...formLines];
             newLines[activeLine].description = currentLine.description + char;
             setFormLines(newLines);
+          } else if (activeLineField === "tracking") {
+            setTrackingSearchQuery((prev) => prev + char);
           }
         }
       }
@@ -428,10 +445,39 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
             const newLines = [...formLines];
             newLines[activeLine].description = newLines[activeLine].description.slice(0, -1);
             setFormLines(newLines);
+          } else if (activeLineField === "tracking") {
+            if (trackingSearchQuery) {
+              setTrackingSearchQuery((prev) => prev.slice(0, -1));
+            } else {
+              // Empty search: remove the last tag
+              const newLines = [...formLines];
+              newLines[activeLine].tracking = newLines[activeLine].tracking.slice(0, -1);
+              setFormLines(newLines);
+            }
           }
         }
       }
 
+      // Tag the line with the first matching value (one value per dimension)
+      if (activeField === "lines" && activeLineField === "tracking" && key.return && trackingSearchQuery) {
+        const words = trackingSearchQuery.toLowerCase().split(/\s+/).filter(Boolean);
+        const value = trackingValues.find((v) => {
+          const label = `${v.dimension_name} ${v.name}`.toLowerCase();
+          return words.every((word) => label.includes(word));
+        });
+        if (value) {
+          const newLines = [...formLines];
+          newLines[activeLine].tracking = [
+            ...newLines[activeLine].tracking.filter((tag) => tag.dimension_id !== value.dimension_id),
+            { dimension_id: value.dimension_id, dimension_name: value.dimension_name || "", value_id: value.id, value_name: value.name },
+          ];
+          setFormLines(newLines);
+          setTrackingSearchQuery("");
+        } else {
+          showMessage("error", `No tracking value matches "${trackingSearchQuery}"`);
+        }
+      }
+
       // Select account from search
       if (activeField === "lines" && activeLineField === "account" && key.return) {
         const matchingAccounts = accounts.filter(
@@ -645,6 +691,11 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
                     </Text>
                     {line.description && <Text color={theme.semantic.textMuted}> • {line.description}</Text>}
                   </Box>
+                  {line.tracking && line.tracking.length > 0 && (
+                    <Box paddingLeft={2}>
+                      <Text color={theme.semantic.info}>{formatTrackingTags(line.tracking)}</Text>
+                    </Box>
+                  )}
                 </Box>
               ))}
               <Box flexGrow={1} />
@@ -756,6 +807,17 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
                           <Text color={theme.semantic.textMuted}>{line.description}</Text>
                         </Box>
                       )}
+                      {(line.tracking.length > 0 || (isActiveLine && activeLineField === "tracking")) && (
+                        <Box paddingLeft={3}>
+                          <Text color={theme.semantic.textMuted}>Tags: </Text>
+                          <Text color={theme.semantic.info}>{formatTrackingTags(line.tracking)}</Text>
+                          {isActiveLine && activeLineField === "tracking" && (
+                            <Text backgroundColor={theme.semantic.focusBorder} color={theme.base}>
+                              {line.tracking.length > 0 ? " + " : ""}{trackingSearchQuery || "(search)"}
+                            </Text>
+                          )}
+                        </Box>
+                      )}
                     </Box>
                   );
                 })}
@@ -780,7 +842,7 @@ export function JournalEntryView({ width, height }: JournalEntryViewProps) {
               </Box>
 
               <Box marginTop={1}>
-                <Text color={theme.semantic.textMuted}>Ctrl+S save • Esc cancel</Text>
+                <Text color={theme.semantic.textMuted}>Tab line field • Ctrl+S save • Esc cancel</Text>
               </Box>
             </Box>
           )}
@@ -14,11 +14,15 @@ import {
   getCashFlow,
   getExpensesByCategory,
   getSSTReturn,
+  getBudgetVsActual,
   type ProfitLossReport,
   type CashFlowReport,
   type SSTReturnReport,
 } from "../../domain/reports.js";
-import { formatCurrency, formatDate, isMalaysianLocale, getTaxName } from "../../core/localization.js";
+import { formatCurrency, formatDate, isMalaysianLocale, getTaxName, getFiscalYearRange } from "../../core/localization.js";
+import { setBudget } from "../../domain/budgets.js";
+import { getFiscalYearForDate } from "../../domain/periods.js";
+import { listAccounts } from "../../domain/accounts.js";
 import { getEnhancedTheme } from "../design/theme.js";
 import { indicators, borderStyles } from "../design/tokens.js";
 import {
@@ -32,9 +36,10 @@ import {
 interface ReportViewProps {
   width: number;
   height: number;
+  onEditingChange?: (editing: boolean) => void;
 }
 
-type ReportType = "balance" | "pl" | "ar" | "cashflow" | "expenses" | "sst";
+type ReportType = "balance" | "pl" | "ar" | "cashflow" | "expenses" | "sst" | "budget";
 
 const reportLabels: Record<ReportType, string> = {
   balance: "Balance Sheet",
@@ -43,18 +48,20 @@ const reportLabels: Record<ReportType, string> = {
   cashflow: "Cash Flow",
   expenses: "Expenses",
   sst: "SST Return",
+  budget: "Budget vs Actual",
 };
 
-export function ReportView({ width, height }: ReportViewProps) {
+export function ReportView({ width, height, onEditingChange }: ReportViewProps) {
   const [selectedReport, setSelectedReport] = useState<ReportType>("balance");
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [budgetEditing, setBudgetEditing] = useState(false);
   const theme = getEnhancedTheme();
 
   // Show SST only for Malaysian locale
   const showSST = isMalaysianLocale();
   const reports: ReportType[] = showSST
-    ? ["balance", "pl", "ar", "cashflow", "expenses", "sst"]
-    : ["balance", "pl", "ar", "cashflow", "expenses"];
+    ? ["balance", "pl", "ar", "cashflow", "expenses", "sst", "budget"]
+    : ["balance", "pl", "ar", "cashflow", "expenses", "budget"];
   const listWidth = Math.floor(width * 0.22);
   const detailWidth = width - listWidth - 3;
 
@@ -66,16 +73,21 @@ export function ReportView({ width, height }: ReportViewProps) {
     cashflow: "◪",
     expenses: "◫",
     sst: "◬",
+    budget: "◭",
+  };
+
+  const setEditing = (editing: boolean) => {
+    setBudgetEditing(editing);
+    onEditingChange?.(editing);
   };
 
   useInput((input, key) => {
     // Number keys for quick select
-    if (input === "1") { setSelectedReport("balance"); setSelectedIndex(0); }
-    if (input === "2") { setSelectedReport("pl"); setSelectedIndex(1); }
-    if (input === "3") { setSelectedReport("ar"); setSelectedIndex(2); }
-    if (input === "4") { setSelectedReport("cashflow"); setSelectedIndex(3); }
-    if (input === "5") { setSelectedReport("expenses"); setSelectedIndex(4); }
-    if (input === "6" && showSST) { setSelectedReport("sst"); setSelectedIndex(5); }
+    const quick = parseInt(input, 10);
+    if (quick >= 1 && quick <= reports.length) {
+      setSelectedReport(reports[quick - 1]);
+      setSelectedIndex(quick - 1);
+    }
 
     // Arrow navigation
     if (key.upArrow || input === "k") {
@@ -88,7 +100,7 @@ export function ReportView({ width, height }: ReportViewProps) {
       setSelectedIndex(newIndex);
       setSelectedReport(reports[newIndex]);
     }
-  });
+  }, { isActive: !budgetEditing });
 
   return (
     <Box flexDirection="row" width={width} height={height}>
@@ -111,7 +123,7 @@ export function ReportView({ width, height }: ReportViewProps) {
 
         {/* Hints */}
         <Box marginY={1}>
-          <Text color={theme.semantic.textMuted}>j/k ↕ • 1-5 quick</Text>
+          <Text color={theme.semantic.textMuted}>j/k ↕ • 1-{reports.length} quick</Text>
         </Box>
 
         {/* Report List */}
@@ -156,6 +168,9 @@ export function ReportView({ width, height }: ReportViewProps) {
         {selectedReport === "cashflow" && <CashFlowReport width={detailWidth - 4} />}
         {selectedReport === "expenses" && <ExpensesReport width={detailWidth - 4} />}
         {selectedReport === "sst" && <SSTReport width={detailWidth - 4} />}
+        {selectedReport === "budget" && (
+          <BudgetReport width={detailWidth - 4} height={height - 4} editing={budgetEditing} onEditingChange={setEditing} />
+        )}
       </Box>
     </Box>
   );
@@ -570,6 +585,27 @@ function ExpensesReport({ width }: { width: number }) {
   );
 }
 
+// Taxable amount and tax output for each rate charged in the period
+function SSTRateRows({ lines }: { lines: SSTReturnReport["sales_tax"]["by_rate"] }) {
+  const theme = getEnhancedTheme();
+  return (
+    <>
+      {lines.map((line) => (
+        <Box key={line.rate} flexDirection="column">
+          <Box justifyContent="space-between" paddingLeft={1}>
+            <Text color={theme.semantic.textSecondary}>Taxable @ {line.rate}%</Text>
+            <Text color={theme.semantic.textPrimary}>{formatCurrency(line.taxable)}</Text>
+          </Box>
+          <Box justifyContent="space-between" paddingLeft={1}>
+            <Text color={theme.semantic.textSecondary}>Tax Output @ {line.rate}%</Text>
+            <Text color={theme.semantic.expense}>{formatCurrency(line.tax)}</Text>
+          </Box>
+        </Box>
+      ))}
+    </>
+  );
+}
+
 /**
  * SST Return Report - Malaysian Sales and Service Tax
  */
@@ -640,22 +676,7 @@ function SSTReport({ width }: { width: number }) {
       {/* Part A: Sales Tax */}
       <Box marginTop={1} flexDirection="column">
         <Text bold color={theme.semantic.warning}>Part A: Sales Tax</Text>
-        <Box justifyContent="space-between" paddingLeft={1}>
-          <Text color={theme.semantic.textSecondary}>Taxable @ 5%</Text>
-          <Text color={theme.semantic.textPrimary}>{formatCurrency(report.sales_tax.taxable_sales_5)}</Text>
-        </Box>
-        <Box justifyContent="space-between" paddingLeft={1}>
-          <Text color={theme.semantic.textSecondary}>Tax Output @ 5%</Text>
-          <Text color={theme.semantic.expense}>{formatCurrency(report.sales_tax.tax_output_5)}</Text>
-        </Box>
-        <Box justifyContent="space-between" paddingLeft={1}>
-          <Text color={theme.semantic.textSecondary}>Taxable @ 10%</Text>
-          <Text color={theme.semantic.textPrimary}>{formatCurrency(report.sales_tax.taxable_sales_10)}</Text>
-        </Box>
-        <Box justifyContent="space-between" paddingLeft={1}>
-          <Text color={theme.semantic.textSecondary}>Tax Output @ 10%</Text>
-          <Text color={theme.semantic.expense}>{formatCurrency(report.sales_tax.tax_output_10)}</Text>
-        </Box>
+        <SSTRateRows lines={report.sales_tax.by_rate} />
         <Box justifyContent="space-between" paddingLeft={1}>
           <Text color={theme.semantic.textSecondary}>Exempt Sales</Text>
           <Text color={theme.semantic.textMuted}>{formatCurrency(report.sales_tax.exempt_sales)}</Text>
@@ -673,15 +694,8 @@ function SSTReport({ width }: { width: number }) {
 
       {/* Part B: Service Tax */}
       <Box flexDirection="column">
-        <Text bold color={theme.semantic.warning}>Part B: Service Tax (6%)</Text>
-        <Box justifyContent="space-between" paddingLeft={1}>
-          <Text color={theme.semantic.textSecondary}>Taxable Services</Text>
-          <Text color={theme.semantic.textPrimary}>{formatCurrency(report.service_tax.taxable_services)}</Text>
-        </Box>
-        <Box justifyContent="space-between" paddingLeft={1}>
-          <Text color={theme.semantic.textSecondary}>Tax Output @ 6%</Text>
-          <Text color={theme.semantic.expense}>{formatCurrency(report.service_tax.tax_output)}</Text>
-        </Box>
+        <Text bold color={theme.semantic.warning}>Part B: Service Tax</Text>
+        <SSTRateRows lines={report.service_tax.by_rate} />
         <Box justifyContent="space-between" paddingLeft={1}>
           <Text color={theme.semantic.textSecondary}>Exempt Services</Text>
           <Text color={theme.semantic.textMuted}>{formatCurrency(report.service_tax.exempt_services)}</Text>
@@ -704,6 +718,16 @@ function SSTReport({ width }: { width: number }) {
           <Text color={theme.semantic.textSecondary}>Less: Credit B/F</Text>
           <Text color={theme.semantic.success}>{formatCurrency(report.summary.less_credit_brought_forward)}</Text>
         </Box>
+        <Box justifyContent="space-between" paddingLeft={1}>
+          <Text color={theme.semantic.textSecondary}>Less: Bad Debt Relief</Text>
+          <Text color={theme.semantic.success}>{formatCurrency(report.summary.less_bad_debt_relief)}</Text>
+        </Box>
+        {report.summary.add_bad_debt_recovered > 0 && (
+          <Box justifyContent="space-between" paddingLeft={1}>
+            <Text color={theme.semantic.textSecondary}>Add: Bad Debt Recovered</Text>
+            <Text color={theme.semantic.expense}>{formatCurrency(report.summary.add_bad_debt_recovered)}</Text>
+          </Box>
+        )}
         <Box justifyContent="space-between" paddingLeft={1} marginTop={1}>
           <Text bold color={theme.semantic.textPrimary}>Net Tax Payable</Text>
           <Text bold color={report.summary.net_tax_payable > 0 ? theme.semantic.error : theme.semantic.success}>
@@ -721,3 +745,172 @@ function SSTReport({ width }: { width: number }) {
     </Box>
   );
 }
+
+/**
+ * Budget vs Actual - one month at a time, with inline budget entry
+ */
+function BudgetReport({
+  width,
+  height,
+  editing,
+  onEditingChange,
+}: {
+  width: number;
+  height: number;
+  editing: boolean;
+  onEditingChange: (editing: boolean) => void;
+}) {
+  const theme = getEnhancedTheme();
+  const today = new Date().toISOString().split("T")[0];
+  const range = getFiscalYearRange(getFiscalYearForDate(today));
+  const [version, setVersion] = useState(0);
+  const [monthIndex, setMonthIndex] = useState(-1);
+  const [row, setRow] = useState(0);
+  const [input, setInput] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const report = useMemo(() => getBudgetVsActual(range.start, range.end), [range.start, range.end, version]);
+  const accounts = useMemo(
+    () => listAccounts({ is_active: true }).filter((a) => a.type === "income" || a.type === "expense"),
+    []
+  );
+
+  // Default to the current month when it's inside the fiscal year
+  const month = report.months[monthIndex >= 0 ? monthIndex : Math.max(0, report.months.indexOf(today.slice(0, 7)))];
+  const currentMonthIndex = report.months.indexOf(month);
+  const lines = [...report.revenue.items, ...report.expenses.items];
+  const rows = accounts.map((account) => {
+    const line = lines.find((l) => l.account_id === account.id);
+    const cell = line?.months.find((m) => m.month === month);
+    return { account, line, cell };
+  });
+
+  useInput((char, key) => {
+    if (key.leftArrow) {
+      setMonthIndex(Math.max(0, currentMonthIndex - 1));
+      setInput("");
+      return;
+    }
+    if (key.rightArrow) {
+      setMonthIndex(Math.min(report.months.length - 1, currentMonthIndex + 1));
+      setInput("");
+      return;
+    }
+
+    if (!editing) {
+      if (char === "b" && rows.length > 0) {
+        setMessage(null);
+        onEditingChange(true);
+      }
+      return;
+    }
+
+    if (key.escape || char === "b") {
+      setInput("");
+      onEditingChange(false);
+      return;
+    }
+    if (key.upArrow) { setRow(Math.max(0, row - 1)); setInput(""); return; }
+    if (key.downArrow) { setRow(Math.min(rows.length - 1, row + 1)); setInput(""); return; }
+    if (key.backspace || key.delete) { setInput(input.slice(0, -1)); return; }
+    if (key.return) {
+      if (input === "") return;
+      const amount = parseFloat(input);
+      try {
+        if (isNaN(amount)) throw new Error(`Invalid amount "${input}"`);
+        const saved = setBudget(rows[row].account.id, month, amount);
+        setMessage(`${indicators.check} ${saved.account_code} ${saved.month} budget set`);
+        setVersion(version + 1);
+      } catch (err) {
+        setMessage(`${indicators.cross} ${(err as Error).message}`);
+      }
+      setInput("");
+      return;
+    }
+    if (/^[0-9.-]$/.test(char)) setInput(input + char);
+  });
+
+  const pct = (p: number | null | undefined) => (p === null || p === undefined ? "—" : `${p > 0 ? "+" : ""}${p.toFixed(0)}%`);
+  const numWidth = 11;
+  const nameWidth = Math.max(12, width - numWidth * 3 - 7);
+  const visibleRows = Math.max(3, height - 12);
+  const start = Math.min(Math.max(0, row - visibleRows + 1), Math.max(0, rows.length - visibleRows));
+
+  return (
+    <Box flexDirection="column">
+      {/* Header */}
+      <Box justifyContent="space-between" marginBottom={1}>
+        <Text bold color={theme.semantic.info}>◭ Budget vs Actual</Text>
+        <Text color={theme.semantic.textMuted}>← {month} → • FY {range.start} → {range.end}</Text>
+      </Box>
+
+      {/* Key Metrics Row */}
+      <Box marginBottom={1}>
+        <Box width={Math.floor(width / 3)}>
+          <BigNumber value={report.net_income.budget} label="Budgeted Net" color={theme.semantic.textSecondary} />
+        </Box>
+        <Box width={Math.floor(width / 3)}>
+          <BigNumber
+            value={report.net_income.actual}
+            label="Actual Net"
+            color={report.net_income.actual >= 0 ? theme.semantic.success : theme.semantic.error}
+          />
+        </Box>
+        <Box width={Math.floor(width / 3)}>
+          <BigNumber
+            value={report.net_income.variance}
+            label="Variance (FY)"
+            color={report.net_income.favorable ? theme.semantic.success : theme.semantic.error}
+            prefix={report.net_income.variance >= 0 ? "+" : ""}
+          />
+        </Box>
+      </Box>
+
+      {/* Divider */}
+      <Text color={theme.semantic.border}>{"─".repeat(width)}</Text>
+
+      {/* Column headings */}
+      <Box>
+        <Text bold color={theme.semantic.textSecondary}>{"Account".padEnd(nameWidth)}</Text>
+        <Text bold color={theme.semantic.textSecondary}>{"Budget".padStart(numWidth)}</Text>
+        <Text bold color={theme.semantic.textSecondary}>{"Actual".padStart(numWidth)}</Text>
+        <Text bold color={theme.semantic.textSecondary}>{"Variance".padStart(numWidth)}</Text>
+        <Text bold color={theme.semantic.textSecondary}>{"%".padStart(6)}</Text>
+      </Box>
+
+      {rows.slice(start, start + visibleRows).map(({ account, cell }, i) => {
+        const isSelected = editing && start + i === row;
+        const budgetText = isSelected && input !== "" ? `${input}▏` : formatCurrency(cell?.budget || 0, { decimals: 0 });
+        return (
+          <Box key={account.id}>
+            <Text
+              color={isSelected ? theme.base : theme.semantic.textSecondary}
+              backgroundColor={isSelected ? theme.semantic.focusBorder : undefined}
+            >
+              {`${account.code} ${account.name}`.slice(0, nameWidth - 1).padEnd(nameWidth)}
+            </Text>
+            <Text color={isSelected ? theme.semantic.warning : theme.semantic.textPrimary}>{budgetText.padStart(numWidth)}</Text>
+            <Text color={theme.semantic.textPrimary}>{formatCurrency(cell?.actual || 0, { decimals: 0 }).padStart(numWidth)}</Text>
+            <Text color={!cell || cell.favorable ? theme.semantic.success : theme.semantic.error}>
+              {formatCurrency(cell?.variance || 0, { decimals: 0 }).padStart(numWidth)}
+            </Text>
+            <Text color={theme.semantic.textMuted}>{pct(cell?.variance_percent).padStart(6)}</Text>
+          </Box>
+        );
+      })}
+
+      {/* Footer */}
+      <Box marginTop={1}>
+        {message ? (
+          <Text color={theme.semantic.info}>{message}</Text>
+        ) : (
+          <Text color={theme.semantic.textMuted}>
+            {editing
+              ? "↑↓ account • ←→ month • type amount, Enter save • b/Esc done"
+              : "←→ month • b edit budgets • oa budget seed copies last year"}
+          </Text>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -32,6 +32,7 @@ type SettingKey =
   | "currency"
   | "fiscal_year_end"
   | "tax_rate"
+  | "default_tax_code"
   | "default_payment_terms"
   | "invoice_prefix"
   | "invoice_notes"
@@ -164,6 +165,13 @@ const settingFields: SettingField[] = [
     category: "financial",
     helpText: "Default tax rate for new invoices (0-100)",
   },
+  {
+    key: "default_tax_code",
+    label: "Default Tax Code",
+    placeholder: "SV",
+    category: "financial",
+    helpText: "Tax code for invoice lines without one; its rate follows the invoice date",
+  },
   {
     key: "default_payment_terms",
     label: "Payment Terms",
@@ -0,0 +1,285 @@
+/**
+ * Timesheet View
+ *
+ * Time logged against customers with the running timer, unbilled hours per
+ * customer, and billing a customer's unbilled hours onto a draft invoice.
+ */
+
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import { getEnhancedTheme } from "../design/theme.js";
+import { indicators, borderStyles } from "../design/tokens.js";
+import { useBlinkingCursor } from "../animations.js";
+import {
+  listTimeEntries,
+  getRunningTimer,
+  stopTimer,
+  logTime,
+  deleteTimeEntry,
+  getUnbilledTime,
+  billUnbilledTime,
+  type TimeEntry,
+  type UnbilledTime,
+} from "../../domain/time-entries.js";
+import { listCustomers, type CustomerWithBalance } from "../../domain/customers.js";
+
+interface TimesheetViewProps {
+  width: number;
+  height: number;
+}
+
+type FormField = "customer" | "hours" | "rate" | "description";
+const FORM_FIELDS: FormField[] = ["customer", "hours", "rate", "description"];
+
+function elapsed(startedAt: string): string {
+  const minutes = Math.max(0, Math.floor((Date.now() - new Date(startedAt).getTime()) / 60000));
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+export function TimesheetView({ width, height }: TimesheetViewProps) {
+  const theme = getEnhancedTheme();
+  const cursorVisible = useBlinkingCursor(500);
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [running, setRunning] = useState<TimeEntry | undefined>();
+  const [wip, setWip] = useState<{ customers: UnbilledTime[]; hours: number; amount: number }>({ customers: [], hours: 0, amount: 0 });
+  const [customers, setCustomers] = useState<CustomerWithBalance[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [, setTick] = useState(0);
+
+  // Quick log form
+  const [logging, setLogging] = useState(false);
+  const [activeField, setActiveField] = useState<FormField>("customer");
+  const [customerIndex, setCustomerIndex] = useState(0);
+  const [hours, setHours] = useState("");
+  const [rate, setRate] = useState("");
+  const [description, setDescription] = useState("");
+
+  const load = () => {
+    const items = listTimeEntries({ limit: 100 });
+    setEntries(items);
+    setRunning(getRunningTimer());
+    setWip(getUnbilledTime());
+    setCustomers(listCustomers());
+    setSelectedIndex((prev) => Math.max(0, Math.min(prev, items.length - 1)));
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Keep the running timer's elapsed time current
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setTick((t) => t + 1), 30000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const run = (action: () => string) => {
+    try {
+      setMessage({ type: "success", text: action() });
+    } catch (err) {
+      setMessage({ type: "error", text: (err as Error).message });
+    }
+    load();
+  };
+
+  const resetForm = () => {
+    setLogging(false);
+    setActiveField("customer");
+    setHours("");
+    setRate("");
+    setDescription("");
+  };
+
+  const submitLog = () => {
+    const customer = customers[customerIndex];
+    if (!customer) {
+      setMessage({ type: "error", text: "Add a customer first" });
+      return;
+    }
+    run(() => {
+      const entry = logTime({
+        customer_id: customer.id,
+        hours: parseFloat(hours),
+        rate: rate.trim() ? parseFloat(rate) : undefined,
+        description: description.trim() || undefined,
+      });
+      resetForm();
+      return `Logged ${entry.hours!.toFixed(2)}h for ${customer.name}`;
+    });
+  };
+
+  const setters: Record<Exclude<FormField, "customer">, React.Dispatch<React.SetStateAction<string>>> = {
+    hours: setHours,
+    rate: setRate,
+    description: setDescription,
+  };
+
+  useInput((input, key) => {
+    if (logging) {
+      if (key.escape) {
+        resetForm();
+        return;
+      }
+      if (key.return) {
+        submitLog();
+        return;
+      }
+      if (key.tab || key.downArrow || key.upArrow) {
+        const index = FORM_FIELDS.indexOf(activeField);
+        const next = key.upArrow || key.shift ? index - 1 : index + 1;
+        setActiveField(FORM_FIELDS[(next + FORM_FIELDS.length) % FORM_FIELDS.length]);
+        return;
+      }
+      if (activeField === "customer") {
+        if (key.leftArrow) setCustomerIndex((prev) => (prev - 1 + customers.length) % Math.max(1, customers.length));
+        if (key.rightArrow) setCustomerIndex((prev) => (prev + 1) % Math.max(1, customers.length));
+        return;
+      }
+      const setter = setters[activeField];
+      if (key.backspace || key.delete) {
+        setter((prev) => prev.slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta) {
+        if (activeField !== "description" && !/^[\d.]+$/.test(input)) return;
+        setter((prev) => prev + input);
+      }
+      return;
+    }
+
+    if (key.upArrow || input === "k") {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+    }
+    if (key.downArrow || input === "j") {
+      setSelectedIndex((prev) => Math.min(entries.length - 1, prev + 1));
+    }
+    if (input === "n") {
+      setLogging(true);
+      setMessage(null);
+    }
+    if (input === "s" && running) {
+      run(() => {
+        const entry = stopTimer();
+        return `Stopped: ${entry.hours!.toFixed(2)}h for ${entry.customer_name}`;
+      });
+    }
+    const selected = entries[selectedIndex];
+    if (input === "b" && selected) {
+      run(() => {
+        const { invoice, entries: billed } = billUnbilledTime(selected.customer_id);
+        return `Billed ${billed.length} entries to draft ${invoice.number} (${invoice.total.toFixed(2)})`;
+      });
+    }
+    if (input === "x" && selected) {
+      const result = deleteTimeEntry(selected.id);
+      setMessage(result.success ? { type: "success", text: "Entry deleted" } : { type: "error", text: result.error || "Could not delete" });
+      load();
+    }
+  });
+
+  const listHeight = Math.max(1, height - 14 - Math.min(wip.customers.length, 5) - (logging ? 5 : 0));
+  const start = Math.max(0, Math.min(selectedIndex - Math.floor(listHeight / 2), entries.length - listHeight));
+
+  const field = (name: FormField, label: string, value: string) => {
+    const active = activeField === name;
+    return (
+      <Box key={name}>
+        <Text color={active ? theme.semantic.focus : theme.semantic.textMuted}>{active ? indicators.pointer : " "} {label.padEnd(12)}</Text>
+        <Text color={theme.semantic.textPrimary}>{value}</Text>
+        {active && name !== "customer" && <Text color={theme.semantic.focus}>{cursorVisible ? "█" : " "}</Text>}
+      </Box>
+    );
+  };
+
+  return (
+    <Box
+      flexDirection="column"
+      width={width}
+      height={height}
+      borderStyle={borderStyles.panel}
+      borderColor={theme.semantic.focusBorder}
+      paddingX={1}
+    >
+      <Box justifyContent="space-between" marginBottom={1}>
+        <Text bold color={theme.semantic.primary}>◆ Timesheet</Text>
+        {running ? (
+          <Text color={theme.semantic.success}>
+            {indicators.pending} {running.customer_name}{running.description ? ` · ${running.description}` : ""} · {elapsed(running.started_at!)}
+          </Text>
+        ) : (
+          <Text color={theme.semantic.textMuted}>No timer running</Text>
+        )}
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text color={theme.semantic.textMuted}>
+          <Text color={theme.semantic.success}>n</Text> log time •{" "}
+          {running && <><Text color={theme.semantic.success}>s</Text> stop timer • </>}
+          <Text color={theme.semantic.success}>b</Text> bill customer •{" "}
+          <Text color={theme.semantic.success}>x</Text> delete • j/k ↕ • start timers with oa time start
+        </Text>
+      </Box>
+
+      {logging && (
+        <Box flexDirection="column" marginBottom={1}>
+          {field("customer", "Customer", customers[customerIndex] ? `◀ ${customers[customerIndex].name} ▶` : "No customers")}
+          {field("hours", "Hours", hours)}
+          {field("rate", "Rate", rate || "(default)")}
+          {field("description", "Description", description)}
+        </Box>
+      )}
+
+      {entries.length === 0 ? (
+        <Text color={theme.semantic.textMuted}>No time logged yet</Text>
+      ) : (
+        <Box flexDirection="column" overflowY="hidden">
+          {entries.slice(start, start + listHeight).map((entry, i) => {
+            const isSelected = start + i === selectedIndex;
+            const status = entry.invoice_number || (entry.is_billable ? (entry.hours === null ? "running" : "unbilled") : "non-billable");
+            return (
+              <Box key={entry.id}>
+                <Text color={isSelected ? theme.semantic.focus : theme.semantic.textMuted}>
+                  {isSelected ? indicators.pointer : " "}{" "}
+                </Text>
+                <Text color={theme.semantic.textMuted}>{entry.date} </Text>
+                <Text color={theme.semantic.textPrimary}>{(entry.customer_name || "").slice(0, 16).padEnd(17)}</Text>
+                <Text color={theme.semantic.textSecondary}>{(entry.description || entry.project_name || "").slice(0, 24).padEnd(25)}</Text>
+                <Text color={theme.semantic.info}>{(entry.hours === null ? "…" : entry.hours.toFixed(2)).padStart(6)}h </Text>
+                <Text color={theme.semantic.income}>{entry.amount.toFixed(2).padStart(10)} </Text>
+                <Text color={entry.invoice_id ? theme.semantic.success : theme.semantic.warning}>{status}</Text>
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+
+      <Box flexGrow={1} />
+
+      {wip.customers.length > 0 && (
+        <Box flexDirection="column" marginBottom={1}>
+          <Text color={theme.semantic.border}>{"─".repeat(Math.max(0, width - 4))}</Text>
+          <Text color={theme.semantic.textMuted}>Unbilled by customer</Text>
+          {wip.customers.slice(0, 5).map((row) => (
+            <Box key={row.customer_id}>
+              <Text color={theme.semantic.textPrimary}>{row.customer_name.slice(0, 24).padEnd(25)}</Text>
+              <Text color={theme.semantic.info}>{row.hours.toFixed(2).padStart(8)}h </Text>
+              <Text color={theme.semantic.income}>{row.amount.toFixed(2).padStart(12)}</Text>
+              <Text color={theme.semantic.textMuted}>  since {row.oldest_date}</Text>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      <Box justifyContent="space-between">
+        <Text color={theme.semantic.textMuted}>Unbilled time</Text>
+        <Text color={theme.semantic.income}>{wip.hours.toFixed(2)}h · ${wip.amount.toFixed(2)}</Text>
+      </Box>
+
+      {message && (
+        <Text color={message.type === "success" ? theme.semantic.success : theme.semantic.error}>
+          {message.type === "success" ? indicators.check : indicators.warning} {message.text}
+        </Text>
+      )}
+    </Box>
+  );
+}
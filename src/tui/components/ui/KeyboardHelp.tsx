@@ -231,6 +231,7 @@ export const dashboardShortcuts: KeyboardShortcut[] = [
   { key: "i", description: "Invoices", category: "Views" },
   { key: "e", description: "Expenses", category: "Views" },
   { key: "p", description: "Contacts", category: "Views" },
+  { key: "h", description: "Timesheet", category: "Views" },
   { key: "v", description: "Vault", category: "Views" },
   { key: "r", description: "Reports", category: "Views" },
   { key: "a", description: "Accounting", category: "Views" },
@@ -15,6 +15,30 @@ import { existsSync } from "fs";
 import { createInterface } from "readline";
 import { getDb, setSetting } from "../db/index.js";
 import { init } from "../cli/commands/init.js";
+import { recurringCommand, printRecurringRunSummary } from "../cli/commands/recurring.js";
+import { fxCommand } from "../cli/commands/fx.js";
+import { periodCommand } from "../cli/commands/period.js";
+import { budgetCommand } from "../cli/commands/budget.js";
+import { trackingCommand } from "../cli/commands/tracking.js";
+import { assetCommand } from "../cli/commands/asset.js";
+import { quoteCommand } from "../cli/commands/quote.js";
+import { creditCommand } from "../cli/commands/credit.js";
+import { badDebtCommand } from "../cli/commands/baddebt.js";
+import { statementCommand } from "../cli/commands/statement.js";
+import { dunningCommand } from "../cli/commands/dunning.js";
+import { employeeCommand } from "../cli/commands/employee.js";
+import { claimCommand } from "../cli/commands/claim.js";
+import { amortizeCommand, printAmortizationRun } from "../cli/commands/amortize.js";
+import { openingCommand } from "../cli/commands/opening.js";
+import { bankCommand } from "../cli/commands/bank.js";
+import { loanCommand } from "../cli/commands/loan.js";
+import { itemCommand } from "../cli/commands/item.js";
+import { poCommand } from "../cli/commands/po.js";
+import { timeCommand } from "../cli/commands/time.js";
+import { whtCommand } from "../cli/commands/wht.js";
+import { payrollCommand } from "../cli/commands/payroll.js";
+import { runRecurringSchedules } from "../domain/recurring.js";
+import { runDueAmortization } from "../domain/amortization.js";
 
 // Load environment variables from current working directory
 config();
@@ -189,6 +213,138 @@ function handleArgs(): boolean {
     return true;
   }
 
+  if (args[0] === "recurring") {
+    getDb();
+    recurringCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "fx") {
+    getDb();
+    fxCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "period") {
+    getDb();
+    periodCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "budget") {
+    getDb();
+    budgetCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "tracking") {
+    getDb();
+    trackingCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "asset") {
+    getDb();
+    assetCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "quote") {
+    getDb();
+    void quoteCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "credit") {
+    getDb();
+    creditCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "baddebt") {
+    getDb();
+    badDebtCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "statement") {
+    getDb();
+    void statementCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "dunning") {
+    getDb();
+    void dunningCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "employee") {
+    getDb();
+    employeeCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "claim") {
+    getDb();
+    claimCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "amortize") {
+    getDb();
+    amortizeCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "opening") {
+    getDb();
+    void openingCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "bank") {
+    getDb();
+    bankCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "loan") {
+    getDb();
+    loanCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "item") {
+    getDb();
+    itemCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "po") {
+    getDb();
+    void poCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "time") {
+    getDb();
+    timeCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "wht") {
+    getDb();
+    whtCommand(args.slice(1));
+    return true;
+  }
+
+  if (args[0] === "payroll") {
+    getDb();
+    void payrollCommand(args.slice(1));
+    return true;
+  }
+
   if (args[0] === "version" || args[0] === "-v" || args[0] === "--version") {
     console.log("OpenAccounting v0.2.0");
     return true;
@@ -203,6 +359,28 @@ function handleArgs(): boolean {
     console.log();
     console.log("    " + cyan("oa") + "              Open your books");
     console.log("    " + cyan("oa fresh") + "        Start fresh (clears all data)");
+    console.log("    " + cyan("oa recurring") + "    List, run, preview or pause recurring schedules");
+    console.log("    " + cyan("oa fx") + "           Exchange rates and FX revaluation");
+    console.log("    " + cyan("oa period") + "       Close periods, lock dates and year-end");
+    console.log("    " + cyan("oa budget") + "       Enter, import or seed monthly budgets");
+    console.log("    " + cyan("oa tracking") + "     Projects, departments and other dimensions");
+    console.log("    " + cyan("oa asset") + "        Fixed assets, depreciation and capital allowances");
+    console.log("    " + cyan("oa quote") + "        Quotations and converting them into invoices");
+    console.log("    " + cyan("oa credit") + "       Customer credit: list, apply to invoices, refund");
+    console.log("    " + cyan("oa baddebt") + "      Bad debt write-offs, SST relief and recoveries");
+    console.log("    " + cyan("oa statement") + "    Customer statements with PDF and email");
+    console.log("    " + cyan("oa dunning") + "      Payment reminder queue, levels and late fees");
+    console.log("    " + cyan("oa employee") + "     Employees who claim expenses");
+    console.log("    " + cyan("oa claim") + "        Expense claims, mileage and reimbursements");
+    console.log("    " + cyan("oa amortize") + "     Prepayments, deferred revenue and accruals");
+    console.log("    " + cyan("oa opening") + "      Opening balances from another system");
+    console.log("    " + cyan("oa bank") + "         Bank and cash accounts and transfers between them");
+    console.log("    " + cyan("oa loan") + "         Loans and hire purchase with amortization tables");
+    console.log("    " + cyan("oa item") + "         Products and services catalog and stock on hand");
+    console.log("    " + cyan("oa po") + "           Purchase orders, goods received and bill matching");
+    console.log("    " + cyan("oa time") + "         Timers, timesheets and billing unbilled hours");
+    console.log("    " + cyan("oa wht") + "          Withholding tax on non-resident payments and CP37 remittance");
+    console.log("    " + cyan("oa payroll") + "      Monthly payroll with EPF, SOCSO, EIS and PCB, payslips and remittances");
     console.log("    " + cyan("oa help") + "         Show this guide");
     console.log("    " + cyan("oa version") + "      Show version");
     console.log();
@@ -235,6 +413,28 @@ async function main() {
   // Initialize database
   getDb();
 
+  // Catch up on recurring invoices/expenses that fell due while the app was closed
+  const recurring = runRecurringSchedules();
+  if (recurring.generated.length > 0 || recurring.errors.length > 0) {
+    console.log();
+    console.log(bold("   Recurring schedules"));
+    printRecurringRunSummary(recurring);
+    await new Promise(resolve => setTimeout(resolve, 1500));
+  }
+
+  // Post amortization for months that ended while the app was closed
+  try {
+    const amortization = runDueAmortization();
+    if (amortization.entries.length > 0) {
+      console.log();
+      console.log(bold("   Amortization"));
+      printAmortizationRun(amortization);
+      await new Promise(resolve => setTimeout(resolve, 1500));
+    }
+  } catch (err) {
+    console.error(`   Amortization: ${(err as Error).message}`);
+  }
+
   // Enter full-screen mode
   enterAlternateScreen();
   setupCleanup();
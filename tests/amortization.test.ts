@@ -0,0 +1,141 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-amortization-test-" + Date.now();
+
+describe("Amortization", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const balance = async (code: string, asOf?: string) => {
+    const { getAccountBalance, getAccountByCode } = await import("../dist/domain/accounts.js");
+    return getAccountBalance(getAccountByCode(code)!.id, asOf);
+  };
+
+  describe("prepayments", () => {
+    it("should move an expense onto Prepaid Expenses and release it monthly", async () => {
+      const { recordExpense } = await import("../dist/domain/payments.js");
+      const { listExpenses, deleteExpense } = await import("../dist/domain/expenses.js");
+      const { createAmortizationSchedule, runAmortization, getAmortizationSchedule } = await import("../dist/domain/amortization.js");
+
+      recordExpense({ amount: 1000, category: "6100", description: "Annual design software licence", date: "2025-01-05" });
+      const expense = listExpenses()[0];
+
+      const schedule = createAmortizationSchedule({ expense_id: expense.id, start_date: "2025-01-05", months: 3 });
+      assert.strictEqual(schedule.type, "prepayment");
+      assert.strictEqual(schedule.target_account_code, "6100");
+      assert.ok(schedule.setup_journal_entry_id);
+      assert.strictEqual(await balance("1300"), 1000);
+      assert.strictEqual(await balance("6100"), 0);
+
+      const preview = runAmortization("2025-02", { dry_run: true });
+      assert.strictEqual(preview.total, 666.66);
+      assert.strictEqual(getAmortizationSchedule(schedule.id)?.recognized, 0, "Dry run posts nothing");
+
+      const result = runAmortization("2025-06");
+      assert.deepStrictEqual(result.entries.map((e: { month: string; total: number }) => [e.month, e.total]), [
+        ["2025-01", 333.33],
+        ["2025-02", 333.33],
+        ["2025-03", 333.34],
+      ]);
+      assert.strictEqual(await balance("1300"), 0);
+      assert.strictEqual(await balance("6100"), 1000);
+      assert.strictEqual(getAmortizationSchedule(schedule.id)?.status, "completed");
+      assert.strictEqual(runAmortization("2025-06").entries.length, 0, "Months are posted once");
+
+      assert.throws(
+        () => createAmortizationSchedule({ expense_id: expense.id, start_date: "2025-01-01", months: 12 }),
+        /Already spread by schedule/
+      );
+      assert.throws(() => deleteExpense(expense.id), new RegExp(`spread by amortization schedule #${schedule.id}`));
+    });
+  });
+
+  describe("deferred revenue", () => {
+    it("should defer an invoice line and cancel partway with a catch-up entry", async () => {
+      const { createInvoice, issueInvoice, cancelInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { createAmortizationSchedule, runAmortization, cancelAmortizationSchedule, getAmortizationLines } = await import("../dist/domain/amortization.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+
+      const customer = createCustomer({ name: "Support Client Sdn Bhd" });
+      const invoice = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2025-01-01",
+        items: [{ description: "Annual support", unit_price: 1200 }],
+      }).id);
+
+      const schedule = createAmortizationSchedule({ invoice_item_id: invoice.items![0].id, start_date: "2025-01-01", months: 12 });
+      assert.strictEqual(schedule.type, "deferred_revenue");
+      assert.strictEqual(await balance("2450"), 1200);
+      assert.strictEqual(await balance("4000"), 0);
+
+      runAmortization("2025-04");
+      assert.strictEqual(await balance("4000"), 400);
+      assert.strictEqual(getAmortizationLines(schedule.id).filter((l: { posted: boolean }) => l.posted).length, 4);
+
+      const blocked = cancelInvoice(invoice.id);
+      assert.strictEqual(blocked.success, false);
+      assert.match(blocked.error!, new RegExp(`deferred by amortization schedule #${schedule.id}`));
+
+      const early = cancelAmortizationSchedule(schedule.id, { date: "2025-03-31" });
+      assert.strictEqual(early.success, false);
+      assert.match(early.error!, /posted through 2025-04/);
+
+      const result = cancelAmortizationSchedule(schedule.id, { date: "2025-05-15", reason: "Contract terminated" });
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.catch_up, 800);
+      assert.strictEqual(await balance("2450"), 0);
+      assert.strictEqual(await balance("4000"), 1200);
+
+      const { getAmortizationSchedule } = await import("../dist/domain/amortization.js");
+      const cancelled = getAmortizationSchedule(schedule.id)!;
+      assert.strictEqual(getJournalEntry(cancelled.cancel_journal_entry_id!)?.entry_type, "adjusting");
+      assert.strictEqual(runAmortization("2025-12").entries.length, 0, "Nothing is posted after cancellation");
+
+      assert.strictEqual(cancelInvoice(invoice.id).success, true);
+      assert.strictEqual(await balance("4000"), 0);
+      assert.strictEqual(await balance("2450"), 0);
+    });
+  });
+
+  describe("accruals", () => {
+    it("should build up accrued expenses and only catch up to the cancellation month", async () => {
+      const { createAmortizationSchedule, runAmortization, cancelAmortizationSchedule, deleteAmortizationSchedule } = await import("../dist/domain/amortization.js");
+
+      assert.throws(
+        () => createAmortizationSchedule({ amount: 600, start_date: "2025-01-01", months: 6 }),
+        /Target account is required/
+      );
+      assert.throws(
+        () => createAmortizationSchedule({ amount: 600, start_date: "2025-01-01", months: 6, target_account: "4000" }),
+        /not an expense account/
+      );
+
+      const audit = createAmortizationSchedule({ name: "Audit fee", amount: 600, start_date: "2025-01-01", months: 6, target_account: "6100" });
+      assert.strictEqual(audit.type, "accrual");
+      assert.strictEqual(audit.setup_journal_entry_id, null);
+
+      runAmortization("2025-02", { schedule_id: audit.id });
+      assert.strictEqual(await balance("2350"), 200);
+
+      // Through April is 400; 200 is already accrued
+      const result = cancelAmortizationSchedule(audit.id, { date: "2025-04-30" });
+      assert.strictEqual(result.catch_up, 200);
+      assert.strictEqual(await balance("2350"), 400);
+
+      const mistake = createAmortizationSchedule({ amount: 100, start_date: "2025-01-01", months: 2, target_account: "6100" });
+      assert.deepStrictEqual(deleteAmortizationSchedule(mistake.id), { success: true });
+      assert.strictEqual(deleteAmortizationSchedule(audit.id).success, false);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-bad-debts-test-" + Date.now();
+
+function lineFor(entry: { lines: Array<{ account_id: number; debit: number; credit: number }> }, accountId: number) {
+  return entry.lines.find((l) => l.account_id === accountId);
+}
+
+describe("Bad debts", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("writeOffInvoice", () => {
+    it("should write off the outstanding balance and settle the invoice", async () => {
+      const { createInvoice, issueInvoice, getInvoice } = await import("../dist/domain/invoices.js");
+      const { recordPayment } = await import("../dist/domain/payments.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { writeOffInvoice } = await import("../dist/domain/bad-debts.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const customer = createCustomer({ name: "Wound Up Sdn Bhd" });
+      const invoice = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2024-03-05",
+        items: [{ description: "Support", unit_price: 1000, tax_code: "SV8" }],
+      }).id);
+      assert.strictEqual(invoice.total, 1080);
+      recordPayment({ invoice_id: invoice.id, amount: 80, date: "2024-04-01" });
+
+      // Relief is asked for but the twelve months have not passed
+      const badDebt = writeOffInvoice(invoice.number, { reason: "Customer in liquidation", date: "2024-09-30", claim_relief: true });
+      assert.strictEqual(badDebt.amount, 1000);
+      assert.strictEqual(badDebt.relief_date, null);
+      assert.strictEqual(badDebt.relief_eligible_from, "2025-03-05");
+
+      const settled = getInvoice(invoice.id)!;
+      assert.strictEqual(settled.status, "paid");
+      assert.strictEqual(settled.written_off_amount, 1000);
+
+      const entry = getJournalEntry(badDebt.journal_entry_id)!;
+      assert.strictEqual(lineFor(entry, getAccountByCode("5830")!.id)?.debit, 1000);
+      assert.strictEqual(lineFor(entry, getAccountByCode("1200")!.id)?.credit, 1000);
+    });
+
+    it("should reject write-offs without a reason or balance", async () => {
+      const { getInvoice } = await import("../dist/domain/invoices.js");
+      const { listBadDebts, writeOffInvoice } = await import("../dist/domain/bad-debts.js");
+
+      const written = getInvoice(listBadDebts()[0].invoice_id)!;
+      assert.throws(() => writeOffInvoice(written.id, { reason: " " }), /reason is required/);
+      assert.throws(() => writeOffInvoice(written.id, { reason: "Again" }), /only unpaid issued invoices/);
+    });
+  });
+
+  describe("SST bad debt relief", () => {
+    it("should reclaim output tax after the qualifying period", async () => {
+      const { listBadDebts, claimBadDebtRelief } = await import("../dist/domain/bad-debts.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+      const { getSSTReturn } = await import("../dist/domain/reports.js");
+
+      const [badDebt] = listBadDebts();
+      assert.strictEqual(listBadDebts({ relief_due: "2025-03-04" }).length, 0);
+      assert.strictEqual(listBadDebts({ relief_due: "2025-03-05" }).length, 1);
+      assert.throws(() => claimBadDebtRelief(badDebt.id, "2025-01-31"), /can be claimed from 2025-03-05/);
+
+      // Tax share of the amount written off: 80 x 1000 / 1080
+      const claimed = claimBadDebtRelief(badDebt.id, "2025-03-31");
+      assert.strictEqual(claimed.relief_amount, 74.07);
+      assert.throws(() => claimBadDebtRelief(badDebt.id, "2025-04-30"), /already claimed/);
+
+      const entry = getJournalEntry(claimed.relief_journal_entry_id)!;
+      assert.strictEqual(lineFor(entry, getAccountByCode("2300")!.id)?.debit, 74.07);
+      assert.strictEqual(lineFor(entry, getAccountByCode("5830")!.id)?.credit, 74.07);
+
+      const report = getSSTReturn("2025-03-01", "2025-03-31");
+      assert.strictEqual(report.summary.less_bad_debt_relief, 74.07);
+      assert.strictEqual(report.summary.net_tax_payable, -74.07);
+      assert.strictEqual(report.is_nil_return, false);
+    });
+
+    it("should reclaim only the SST part of a combined tax code", async () => {
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { createTaxCode } = await import("../dist/domain/tax-codes.js");
+      const { writeOffInvoice, claimBadDebtRelief } = await import("../dist/domain/bad-debts.js");
+
+      createTaxCode({ code: "TOUR", name: "Tourism levy", rate: 2, effective_from: "2024-01-01" });
+      const customer = createCustomer({ name: "Closed Resort Sdn Bhd" });
+      const invoice = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2024-06-03",
+        items: [{ description: "Hotel stay", unit_price: 1000, tax_code: "SV8+TOUR" }],
+      }).id);
+      assert.strictEqual(invoice.total, 1100);
+
+      const badDebt = writeOffInvoice(invoice.number, { reason: "Customer ceased trading", date: "2025-06-30" });
+      const claimed = claimBadDebtRelief(badDebt.id, "2025-07-31");
+      assert.strictEqual(claimed.relief_amount, 80, "The levy is not reclaimed as SST");
+    });
+  });
+
+  describe("recoverBadDebt", () => {
+    it("should book a recovery and repay the relief share", async () => {
+      const { listBadDebts, recoverBadDebt } = await import("../dist/domain/bad-debts.js");
+      const { getInvoice } = await import("../dist/domain/invoices.js");
+      const { getPayment } = await import("../dist/domain/payments.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+      const { getSSTReturn } = await import("../dist/domain/reports.js");
+
+      const [badDebt] = listBadDebts();
+      assert.throws(() => recoverBadDebt(badDebt.invoice_id, { amount: 1500 }), /Only/);
+
+      const recovery = recoverBadDebt(badDebt.invoice_id, { amount: 540, date: "2025-05-10", reference: "Liquidator" });
+      assert.strictEqual(recovery.tax_repaid, 40);
+      assert.strictEqual(getPayment(recovery.payment_id)?.amount, 540);
+      assert.strictEqual(getInvoice(badDebt.invoice_id)?.written_off_amount, 460);
+      assert.strictEqual(listBadDebts()[0].recovered_amount, 540);
+
+      const entry = getJournalEntry(recovery.journal_entry_id)!;
+      assert.strictEqual(lineFor(entry, getAccountByCode("1100")!.id)?.debit, 540);
+      assert.strictEqual(lineFor(entry, getAccountByCode("5830")!.id)?.credit, 500);
+      assert.strictEqual(lineFor(entry, getAccountByCode("2300")!.id)?.credit, 40);
+
+      const report = getSSTReturn("2025-05-01", "2025-05-31");
+      assert.strictEqual(report.summary.add_bad_debt_recovered, 40);
+      assert.strictEqual(report.summary.net_tax_payable, 40);
+    });
+  });
+});
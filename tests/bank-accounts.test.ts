@@ -0,0 +1,125 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-bank-accounts-test-" + Date.now();
+
+describe("Bank accounts", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    const { createAccount } = await import("../dist/domain/accounts.js");
+    const { createCustomer } = await import("../dist/domain/customers.js");
+    createAccount({ code: "1110", name: "Savings Account", type: "asset", is_bank: true });
+    createCustomer({ name: "Syarikat Maju" });
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const balance = async (code: string) => {
+    const { getAccountBalance, getAccountByCode } = await import("../dist/domain/accounts.js");
+    return getAccountBalance(getAccountByCode(code)!.id);
+  };
+
+  describe("choosing an account", () => {
+    it("should only accept asset accounts flagged as bank or cash", async () => {
+      const { createAccount, getAccountByCode } = await import("../dist/domain/accounts.js");
+      const { resolveBankAccount, listBankAccounts } = await import("../dist/domain/bank-accounts.js");
+
+      assert.strictEqual(getAccountByCode("1100")!.is_bank, 1);
+      assert.strictEqual(resolveBankAccount().code, "1100");
+      assert.strictEqual(resolveBankAccount("Savings Account").code, "1110");
+      assert.throws(() => resolveBankAccount("1200"), /1200 Accounts Receivable is not a bank or cash account/);
+      assert.throws(
+        () => createAccount({ code: "2190", name: "Card Clearing", type: "liability", is_bank: true }),
+        /Only asset accounts can be bank or cash accounts/
+      );
+      assert.deepStrictEqual(listBankAccounts().map((a: { code: string }) => a.code), ["1000", "1100", "1110"]);
+    });
+
+    it("should post receipts and expenses to the chosen account", async () => {
+      const { recordPayment, recordExpense, getPayment, listPayments } = await import("../dist/domain/payments.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const invoice = issueInvoice(createInvoice({
+        customer_id: getCustomer("Syarikat Maju")!.id,
+        date: "2025-03-01",
+        items: [{ description: "Consulting", unit_price: 1200 }],
+      }).id);
+      const payment = recordPayment({ invoice_id: invoice.id, amount: 1200, date: "2025-03-10", bank_account: "1110" });
+      recordExpense({ amount: 200, category: "Office Supplies", date: "2025-03-12", bank_account: "Savings Account" });
+      recordExpense({ amount: 50, category: "Office Supplies", date: "2025-03-12" });
+
+      assert.strictEqual(getPayment(payment.id)!.bank_account_name, "Savings Account");
+      assert.strictEqual(await balance("1110"), 1000);
+      assert.strictEqual(await balance("1100"), -50);
+      assert.strictEqual(listPayments({ bank_account_id: getAccountByCode("1110")!.id }).length, 2);
+    });
+  });
+
+  describe("transfers", () => {
+    it("should move money between accounts with the fee on top", async () => {
+      const { createTransfer, listTransfers } = await import("../dist/domain/bank-accounts.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getCashFlow, getBalanceSheet } = await import("../dist/domain/reports.js");
+
+      assert.throws(() => createTransfer({ from_account: "1110", to_account: "1110", amount: 10 }), /two different accounts/);
+      assert.throws(() => createTransfer({ from_account: "1110", to_account: "1200", amount: 10 }), /not a bank or cash account/);
+
+      const cashBefore = getBalanceSheet("2025-12-31").assets.cash;
+      const transfer = createTransfer({ from_account: "1110", to_account: "1100", amount: 300, fee: 1.5, date: "2025-03-15", reference: "TRF-88" });
+      assert.strictEqual(transfer.from_account_name, "Savings Account");
+      assert.strictEqual(getJournalEntry(transfer.journal_entry_id!)!.lines.length, 3);
+
+      assert.strictEqual(await balance("1110"), 698.5);
+      assert.strictEqual(await balance("1100"), 250);
+      assert.strictEqual(await balance("5200"), 1.5);
+      assert.strictEqual(listTransfers({ account_id: transfer.to_account_id }).length, 1);
+
+      // Only the fee leaves cash
+      assert.strictEqual(getBalanceSheet("2025-12-31").assets.cash, cashBefore - 1.5);
+      const cashFlow = getCashFlow("2025-03-15", "2025-03-15");
+      assert.strictEqual(cashFlow.net_change, -1.5);
+      assert.deepStrictEqual(cashFlow.outflows.items, [{ description: "Bank transfer fees", amount: 1.5 }]);
+    });
+
+    it("should reconcile each side against its own account's statement", async () => {
+      const { listTransfers, deleteTransfer } = await import("../dist/domain/bank-accounts.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+      const { createStatement, createTransaction, findMatches, matchToTransfer, unmatchTransaction } =
+        await import("../dist/domain/bank-reconciliation.js");
+
+      const savings = getAccountByCode("1110")!;
+      const statement = createStatement({ account_id: savings.id, statement_date: "2025-03-31", opening_balance: 0, closing_balance: 698.5 });
+      const receipt = createTransaction({ statement_id: statement.id, date: "2025-03-10", description: "IBG Syarikat Maju", amount: 1200, type: "credit" });
+      const outgoing = createTransaction({ statement_id: statement.id, date: "2025-03-15", description: "Transfer to current TRF-88", amount: 301.5, type: "debit" });
+
+      assert.deepStrictEqual(findMatches(receipt.id).map((m: { type: string }) => m.type), ["payment"]);
+      const [match] = findMatches(outgoing.id);
+      assert.strictEqual(match.type, "transfer");
+
+      // The savings statement can only clear the side leaving savings
+      const otherStatement = createStatement({ account_id: getAccountByCode("1100")!.id, statement_date: "2025-03-31", opening_balance: 0, closing_balance: 250 });
+      const wrongSide = createTransaction({ statement_id: otherStatement.id, date: "2025-03-15", description: "Transfer", amount: 301.5, type: "debit" });
+      assert.strictEqual(matchToTransfer(wrongSide.id, match.id), false);
+
+      assert.strictEqual(matchToTransfer(outgoing.id, match.id), true);
+      let [transfer] = listTransfers();
+      assert.deepStrictEqual([transfer.from_reconciled, transfer.to_reconciled], [1, 0]);
+      assert.strictEqual(deleteTransfer(transfer.id).success, false);
+
+      unmatchTransaction(outgoing.id);
+      [transfer] = listTransfers();
+      assert.strictEqual(transfer.from_reconciled, 0);
+      assert.deepStrictEqual(deleteTransfer(transfer.id), { success: true });
+      assert.strictEqual(await balance("1110"), 1000);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-bill-test-" + Date.now();
+
+describe("Bills Domain", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("createBill", () => {
+    it("should create a draft bill with due date from vendor terms", async () => {
+      const { createBill } = await import("../dist/domain/bills.js");
+      const { createVendor } = await import("../dist/domain/vendors.js");
+
+      const vendor = createVendor({ name: "Terms Vendor", payment_terms: "net_14" });
+
+      const bill = createBill({
+        vendor_id: vendor.id,
+        date: "2024-03-01",
+        items: [
+          { description: "Office chairs", quantity: 2, unit_price: 150, account: "5400" },
+          { description: "Consulting", unit_price: 500, account: "Professional Services" },
+        ],
+      });
+
+      assert.ok(bill.number.startsWith("BILL-"), "Bill number should start with BILL-");
+      assert.strictEqual(bill.status, "draft");
+      assert.strictEqual(bill.total, 800);
+      assert.strictEqual(bill.due_date, "2024-03-15", "Due date should follow vendor net_14 terms");
+      assert.strictEqual(bill.items?.length, 2);
+      assert.strictEqual(bill.items?.[0].account_code, "5400");
+      assert.strictEqual(bill.journal_entry_id, null, "Draft bill should not be posted");
+    });
+
+    it("should reject unknown vendor", async () => {
+      const { createBill } = await import("../dist/domain/bills.js");
+
+      assert.throws(
+        () => createBill({ vendor_id: 99999, items: [{ description: "X", unit_price: 1 }] }),
+        /Vendor with ID 99999 not found/
+      );
+    });
+  });
+
+  describe("approveBill", () => {
+    it("should post Dr expense / Cr Accounts Payable", async () => {
+      const { createBill, approveBill } = await import("../dist/domain/bills.js");
+      const { createVendor } = await import("../dist/domain/vendors.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const vendor = createVendor({ name: "Approval Vendor" });
+      const bill = createBill({
+        vendor_id: vendor.id,
+        date: "2024-03-05",
+        items: [{ description: "Rent March", unit_price: 1200, account: "5600" }],
+      });
+
+      const approved = approveBill(bill.id);
+      assert.strictEqual(approved.status, "approved");
+      assert.ok(approved.journal_entry_id, "Approved bill should link a journal entry");
+
+      const entry = getJournalEntry(approved.journal_entry_id!);
+      const ap = getAccountByCode("2000")!;
+      const rent = getAccountByCode("5600")!;
+      const apLine = entry!.lines.find((l: { account_id: number }) => l.account_id === ap.id);
+      const rentLine = entry!.lines.find((l: { account_id: number }) => l.account_id === rent.id);
+      assert.strictEqual(apLine?.credit, 1200);
+      assert.strictEqual(rentLine?.debit, 1200);
+
+      assert.throws(() => approveBill(bill.id), /Only draft bills can be approved/);
+    });
+  });
+
+  describe("recordBillPayment", () => {
+    it("should move bill through partial to paid", async () => {
+      const { createBill, approveBill, recordBillPayment, getBill } = await import("../dist/domain/bills.js");
+      const { createVendor } = await import("../dist/domain/vendors.js");
+
+      const vendor = createVendor({ name: "Payment Vendor" });
+      const bill = createBill({
+        vendor_id: vendor.id,
+        date: "2024-03-10",
+        items: [{ description: "Hosting", unit_price: 300, account: "5700" }],
+      });
+
+      assert.throws(
+        () => recordBillPayment({ bill_id: bill.id, amount: 100 }),
+        /draft bill/
+      );
+
+      approveBill(bill.id);
+
+      const payment = recordBillPayment({ bill_id: bill.id, amount: 100, date: "2024-03-20" });
+      assert.strictEqual(payment.type, "sent");
+      assert.strictEqual(payment.bill_id, bill.id);
+      assert.strictEqual(payment.bill_number, bill.number);
+      assert.strictEqual(getBill(bill.id)?.status, "partial");
+
+      assert.throws(
+        () => recordBillPayment({ bill_id: bill.id, amount: 500 }),
+        /exceeds remaining balance/
+      );
+
+      recordBillPayment({ bill_id: bill.id, amount: 200, date: "2024-03-25" });
+      const paid = getBill(bill.id);
+      assert.strictEqual(paid?.status, "paid");
+      assert.strictEqual(paid?.amount_paid, 300);
+    });
+  });
+
+  describe("cancelBill", () => {
+    it("should reverse the AP posting of an approved bill", async () => {
+      const { createBill, approveBill, cancelBill, getBill } = await import("../dist/domain/bills.js");
+      const { createVendor } = await import("../dist/domain/vendors.js");
+      const { getAccountBalance, getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const vendor = createVendor({ name: "Cancel Vendor" });
+      const ap = getAccountByCode("2000")!;
+      const before = getAccountBalance(ap.id);
+
+      const bill = createBill({
+        vendor_id: vendor.id,
+        items: [{ description: "Mistake", unit_price: 75 }],
+      });
+      approveBill(bill.id);
+
+      const result = cancelBill(bill.id, "Duplicate");
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(getBill(bill.id)?.status, "cancelled");
+      assert.strictEqual(getAccountBalance(ap.id), before, "AP balance should be restored");
+    });
+  });
+
+  describe("payables reporting", () => {
+    it("should include open bills in AP aging and balance sheet payables", async () => {
+      const { createBill, approveBill } = await import("../dist/domain/bills.js");
+      const { createVendor } = await import("../dist/domain/vendors.js");
+      const { getPayablesAging, getBalanceSheet } = await import("../dist/domain/reports.js");
+
+      const vendor = createVendor({ name: "Aging Vendor" });
+      const bill = createBill({
+        vendor_id: vendor.id,
+        date: "2020-01-01",
+        due_date: "2020-01-31",
+        items: [{ description: "Old supplies", unit_price: 50, account: "5400" }],
+      });
+      approveBill(bill.id);
+
+      const aging = getPayablesAging();
+      const overdue = aging.days_90_plus.find((b: { bill: string }) => b.bill === bill.number);
+      assert.ok(overdue, "Old bill should be in the 90+ bucket");
+      assert.strictEqual(overdue?.vendor, "Aging Vendor");
+      assert.ok(aging.totals.total >= 50);
+
+      const balance = getBalanceSheet();
+      assert.ok(
+        Math.abs(balance.liabilities.payables - aging.totals.total) < 0.01,
+        "Balance sheet payables should match open bills"
+      );
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-budgets-test-" + Date.now();
+
+describe("Budgets", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("setBudget", () => {
+    it("should upsert one amount per account and month", async () => {
+      const { setBudget, getBudgets } = await import("../dist/domain/budgets.js");
+
+      setBudget("5600", "2024-01", 1000);
+      const updated = setBudget("5600", "2024-01", 1200);
+
+      assert.strictEqual(updated.amount, 1200);
+      assert.strictEqual(updated.account_code, "5600");
+      assert.strictEqual(getBudgets({ from_month: "2024-01", to_month: "2024-01" }).length, 1);
+      assert.throws(() => setBudget("5600", "2024-13", 10), /Invalid month/);
+      assert.throws(() => setBudget("1000", "2024-01", 10), /Budgets are for income and expense accounts/);
+    });
+
+    it("should import long and wide CSV layouts", async () => {
+      const { importBudgetsCsv, getBudgets } = await import("../dist/domain/budgets.js");
+
+      const long = importBudgetsCsv("account,month,amount\n4000,2024-02,5000\n9999,2024-02,10\n");
+      assert.strictEqual(long.imported, 1);
+      assert.match(long.errors[0], /Line 3: Account not found/);
+
+      const wide = importBudgetsCsv("account,2024-03,2024-04\n4000,5100,5200\n");
+      assert.strictEqual(wide.imported, 2);
+      assert.strictEqual(getBudgets({ from_month: "2024-04", to_month: "2024-04" })[0].amount, 5200);
+    });
+  });
+
+  describe("getBudgetVsActual", () => {
+    it("should report variance per account and month", async () => {
+      const { setBudget } = await import("../dist/domain/budgets.js");
+      const { getBudgetVsActual } = await import("../dist/domain/reports.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { recordExpense } = await import("../dist/domain/payments.js");
+
+      const customer = createCustomer({ name: "Budget Client" });
+      const invoice = createInvoice({
+        customer_id: customer.id,
+        date: "2024-06-10",
+        tax_rate: 0,
+        items: [{ description: "June work", unit_price: 1100 }],
+      });
+      issueInvoice(invoice.id);
+      recordExpense({ date: "2024-06-15", amount: 500, category: "Rent", description: "June rent" });
+
+      setBudget("4000", "2024-06", 1000);
+      setBudget("5600", "2024-06", 400);
+      setBudget("5600", "2024-07", 400);
+
+      const report = getBudgetVsActual("2024-06-01", "2024-07-31");
+      assert.deepStrictEqual(report.months, ["2024-06", "2024-07"]);
+
+      const revenue = report.revenue.items.find((l: { code: string }) => l.code === "4000");
+      assert.strictEqual(revenue?.actual, 1100);
+      assert.strictEqual(revenue?.variance, 100);
+      assert.strictEqual(revenue?.variance_percent, 10);
+      assert.strictEqual(revenue?.favorable, true);
+
+      const rent = report.expenses.items.find((l: { code: string }) => l.code === "5600");
+      const june = rent?.months.find((m: { month: string }) => m.month === "2024-06");
+      const july = rent?.months.find((m: { month: string }) => m.month === "2024-07");
+      assert.strictEqual(june?.variance, 100);
+      assert.strictEqual(june?.favorable, false, "Overspending is unfavorable");
+      assert.strictEqual(july?.variance, -400);
+      assert.strictEqual(july?.favorable, true);
+      assert.strictEqual(rent?.budget, 800);
+
+      assert.strictEqual(report.net_income.budget, 200);
+      assert.strictEqual(report.net_income.actual, 600);
+    });
+  });
+
+  describe("seedBudgetsFromActuals", () => {
+    it("should copy last year's monthly actuals with growth", async () => {
+      const { seedBudgetsFromActuals, getBudgets } = await import("../dist/domain/budgets.js");
+
+      const result = seedBudgetsFromActuals(2025, { growth_percent: 10 });
+      assert.ok(result.created >= 2);
+
+      const june = getBudgets({ from_month: "2025-06", to_month: "2025-06" });
+      const revenue = june.find((b: { account_code: string }) => b.account_code === "4000");
+      const rent = june.find((b: { account_code: string }) => b.account_code === "5600");
+      assert.strictEqual(revenue?.amount, 1210);
+      assert.strictEqual(rent?.amount, 550);
+
+      const again = seedBudgetsFromActuals(2025);
+      assert.strictEqual(again.created, 0, "Existing budgets are kept without overwrite");
+      assert.strictEqual(again.skipped, result.created);
+    });
+  });
+});
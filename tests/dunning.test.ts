@@ -0,0 +1,229 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-dunning-test-" + Date.now();
+
+describe("Dunning", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+    const { createCustomer } = await import("../dist/domain/customers.js");
+
+    const slow = createCustomer({ name: "Slow Payer Sdn Bhd", email: "accounts@slowpayer.test" });
+    issueInvoice(createInvoice({
+      customer_id: slow.id,
+      date: "2025-01-01",
+      due_date: "2025-01-31",
+      items: [{ description: "Consulting", unit_price: 1000 }],
+    }).id);
+
+    const bouncing = createCustomer({ name: "Bouncing Mail Trading", email: "nobody@bouncing.test" });
+    issueInvoice(createInvoice({
+      customer_id: bouncing.id,
+      date: "2025-01-10",
+      due_date: "2025-02-09",
+      items: [{ description: "Design", unit_price: 400 }],
+    }).id);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("getDunningQueue", () => {
+    it("should queue invoices at the highest level they have reached", async () => {
+      const { getDunningQueue, renderDunningMessage } = await import("../dist/domain/dunning.js");
+
+      assert.strictEqual(getDunningQueue("2025-01-20").length, 0);
+
+      const upcoming = getDunningQueue("2025-01-28");
+      assert.strictEqual(upcoming.length, 1);
+      assert.strictEqual(upcoming[0].level.name, "Upcoming");
+      assert.strictEqual(upcoming[0].days_overdue, -3);
+      assert.strictEqual(upcoming[0].fee, 0);
+
+      // Twenty days late goes straight to the second reminder
+      const late = getDunningQueue("2025-02-20").find((q) => q.customer_name === "Slow Payer Sdn Bhd")!;
+      assert.strictEqual(late.level.name, "Second reminder");
+
+      const message = renderDunningMessage(late);
+      assert.match(message.subject, /is 20 days overdue/);
+      assert.match(message.body, /\$1,000\.00 for invoice INV-0001, which was due on 2025-01-31/);
+    });
+  });
+
+  describe("runDunning", () => {
+    it("should send each level once", async () => {
+      const { runDunning, getDunningQueue } = await import("../dist/domain/dunning.js");
+      const { getInvoice } = await import("../dist/domain/invoices.js");
+
+      const sent: string[] = [];
+      const send = async (item: { customer_email?: string }, message: { subject: string }) => {
+        sent.push(`${item.customer_email}: ${message.subject}`);
+        return { success: true };
+      };
+
+      const summary = await runDunning({ as_of: "2025-01-28", send });
+      assert.strictEqual(summary.notices.length, 1);
+      assert.strictEqual(summary.notices[0].status, "sent");
+      assert.deepStrictEqual(sent, ["accounts@slowpayer.test: Invoice INV-0001 is due on 2025-01-31"]);
+      assert.ok(getInvoice("INV-0001")?.reminder_sent_at);
+
+      assert.strictEqual((await runDunning({ as_of: "2025-01-28", send })).notices.length, 0);
+      assert.strictEqual(getDunningQueue("2025-02-10")[0].level.name, "First reminder");
+    });
+
+    it("should keep failed reminders in the queue", async () => {
+      const { runDunning, getDunningQueue, listDunningHistory } = await import("../dist/domain/dunning.js");
+
+      const summary = await runDunning({
+        as_of: "2025-02-20",
+        send: async (item) => (item.customer_email?.includes("bouncing") ? { success: false, error: "Mailbox does not exist" } : { success: true }),
+      });
+      assert.strictEqual(summary.notices.length, 1);
+      assert.deepStrictEqual(summary.errors.map((e) => [e.invoice_number, e.error]), [["INV-0002", "Mailbox does not exist"]]);
+
+      const [failed] = listDunningHistory({ invoice_id: summary.errors[0].invoice_id });
+      assert.strictEqual(failed.status, "failed");
+      assert.deepStrictEqual(getDunningQueue("2025-02-20").map((q) => q.invoice_number), ["INV-0002"]);
+    });
+
+    it("should charge late fees and interest by debit note", async () => {
+      const { runDunning, getDunningQueue, listDunningLevels, updateDunningLevel } = await import("../dist/domain/dunning.js");
+      const { getInvoice } = await import("../dist/domain/invoices.js");
+      const { getCustomer, updateCustomer } = await import("../dist/domain/customers.js");
+
+      const final = listDunningLevels().find((l) => l.name === "Final notice")!;
+      updateDunningLevel(final.id, { late_fee: 50, interest_rate: 12 });
+      updateCustomer(getCustomer("Bouncing Mail Trading")!.id, { dunning_opt_out: true });
+
+      // 50 + 1000 x 12% x 32 / 365
+      const summary = await runDunning({ as_of: "2025-03-04" });
+      assert.strictEqual(summary.notices.length, 1);
+      const [notice] = summary.notices;
+      assert.strictEqual(notice.status, "logged");
+      assert.strictEqual(notice.fee_amount, 60.52);
+
+      const debitNote = getInvoice(notice.debit_note_id!)!;
+      assert.strictEqual(debitNote.document_type, "03");
+      assert.strictEqual(debitNote.total, 60.52);
+
+      // Neither the fee's own debit note nor the opted-out customer are chased
+      assert.deepStrictEqual(getDunningQueue("2025-06-30").map((q) => q.invoice_number), []);
+    });
+
+    it("should remind without a fee once a validated e-invoice can take no debit note", async () => {
+      const { runDunning, getDunningQueue, listDunningHistory } = await import("../dist/domain/dunning.js");
+      const { createInvoice, issueInvoice, updateEInvoiceStatus, getInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { getDb } = await import("../dist/db/index.js");
+
+      const buyer = createCustomer({ name: "Registered Buyer Bhd", email: "ap@registered.test" });
+      const invoice = issueInvoice(createInvoice({
+        customer_id: buyer.id,
+        date: "2025-01-15",
+        due_date: "2025-02-14",
+        items: [{ description: "Audit support", unit_price: 800 }],
+      }).id);
+      updateEInvoiceStatus(invoice.id, { status: "valid", uuid: "LHDN-UUID-1" });
+      getDb().prepare("UPDATE invoices SET einvoice_validated_at = '2025-01-15T10:00:00Z' WHERE id = ?").run(invoice.id);
+
+      const [queued] = getDunningQueue("2025-03-20", { invoice_id: invoice.id });
+      assert.strictEqual(queued.level.name, "Final notice");
+      assert.strictEqual(queued.fee, 0);
+      assert.match(queued.fee_waived!, /72 hours/);
+
+      const sent: string[] = [];
+      const send = async (item: { invoice_number: string }) => {
+        sent.push(item.invoice_number);
+        return { success: true };
+      };
+      const summary = await runDunning({ as_of: "2025-03-20", invoice_id: invoice.id, send });
+      assert.deepStrictEqual(summary.errors, []);
+      assert.deepStrictEqual(summary.notices.map((n: { status: string; fee_amount: number; debit_note_id?: number }) =>
+        [n.status, n.fee_amount, n.debit_note_id ?? null]), [["sent", 0, null]]);
+
+      assert.strictEqual((await runDunning({ as_of: "2025-03-25", invoice_id: invoice.id, send })).notices.length, 0);
+      assert.deepStrictEqual(sent, [invoice.number]);
+      assert.strictEqual(listDunningHistory({ invoice_id: invoice.id }).length, 1);
+      assert.strictEqual(getInvoice(invoice.id)!.total, 800);
+    });
+
+    it("should take back the late fee when the reminder does not go out", async () => {
+      const { runDunning, listDunningHistory } = await import("../dist/domain/dunning.js");
+      const { createInvoice, issueInvoice, getInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+
+      const customer = createCustomer({ name: "Full Inbox Enterprise", email: "full@inbox.test" });
+      const invoice = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2025-01-15",
+        due_date: "2025-02-14",
+        items: [{ description: "Training", unit_price: 500 }],
+      }).id);
+
+      let mailboxFull = true;
+      const send = async () => (mailboxFull ? { success: false, error: "Mailbox full" } : { success: true });
+
+      const bounced = await runDunning({ as_of: "2025-03-20", invoice_id: invoice.id, send });
+      assert.deepStrictEqual(bounced.errors.map((e: { error: string }) => e.error), ["Mailbox full"]);
+      const [failed] = listDunningHistory({ invoice_id: invoice.id });
+      assert.deepStrictEqual([failed.status, failed.fee_amount, failed.debit_note_id ?? null], ["failed", 0, null]);
+      assert.strictEqual(getInvoice("DN-0002")!.status, "cancelled");
+      assert.ok(!getInvoice(invoice.id)!.reminder_sent_at);
+
+      mailboxFull = false;
+      const [notice] = (await runDunning({ as_of: "2025-03-20", invoice_id: invoice.id, send })).notices;
+      assert.strictEqual(notice.status, "sent");
+      assert.strictEqual(notice.debit_note_number, "DN-0003");
+      assert.strictEqual(notice.fee_amount, getInvoice("DN-0003")!.total);
+    });
+
+    it("should charge interest only for the days since the last charge", async () => {
+      const { runDunning, listDunningLevels, updateDunningLevel } = await import("../dist/domain/dunning.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+
+      const second = listDunningLevels().find((l) => l.name === "Second reminder")!;
+      updateDunningLevel(second.id, { interest_rate: 12 });
+      const customer = createCustomer({ name: "Serial Late Payer" });
+      const invoice = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2025-03-02",
+        due_date: "2025-04-01",
+        items: [{ description: "Retainer", unit_price: 1000 }],
+      }).id);
+
+      // 1000 x 12% x 14 / 365
+      const [reminder] = (await runDunning({ as_of: "2025-04-15", invoice_id: invoice.id })).notices;
+      assert.strictEqual(reminder.fee_amount, 4.6);
+
+      // 50 + 1000 x 12% x 16 / 365, the 14 days already charged left out
+      const [final] = (await runDunning({ as_of: "2025-05-01", invoice_id: invoice.id })).notices;
+      assert.strictEqual(final.fee_amount, 55.26);
+    });
+  });
+
+  describe("dunning levels", () => {
+    it("should validate and protect levels in use", async () => {
+      const { createDunningLevel, deleteDunningLevel, listDunningLevels } = await import("../dist/domain/dunning.js");
+
+      assert.throws(
+        () => createDunningLevel({ name: "Duplicate", days_overdue: 7, subject: "x", body: "y" }),
+        /already runs at 7 days/
+      );
+      const extra = createDunningLevel({ name: "Collections", days_overdue: 60, subject: "{invoice} referred", body: "Referred to collections." });
+      assert.deepStrictEqual(deleteDunningLevel(extra.id), { success: true });
+
+      const upcoming = listDunningLevels().find((l) => l.name === "Upcoming")!;
+      const result = deleteDunningLevel(upcoming.id);
+      assert.strictEqual(result.success, false);
+      assert.match(result.error!, /Deactivate it instead/);
+    });
+  });
+});
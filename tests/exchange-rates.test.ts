@@ -0,0 +1,178 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-fx-test-" + Date.now();
+
+describe("Multi-currency", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("exchange rates", () => {
+    it("should return the latest rate on or before a date", async () => {
+      const { setExchangeRate, getExchangeRate, getBaseCurrency } = await import("../dist/domain/exchange-rates.js");
+
+      setExchangeRate("gbp", "2024-01-01", 1.25);
+      setExchangeRate("GBP", "2024-02-01", 1.3);
+
+      assert.strictEqual(getExchangeRate("GBP", "2024-01-15"), 1.25);
+      assert.strictEqual(getExchangeRate("GBP", "2024-03-01"), 1.3);
+      assert.strictEqual(getExchangeRate(getBaseCurrency(), "2024-03-01"), 1);
+      assert.throws(() => getExchangeRate("GBP", "2023-12-31"), /No exchange rate for GBP/);
+    });
+
+    it("should import rates from CSV and report bad rows", async () => {
+      const { importExchangeRatesCsv, listExchangeRates } = await import("../dist/domain/exchange-rates.js");
+
+      const result = importExchangeRatesCsv(
+        "date,currency,rate\n2024-01-31,SGD,0.74\n2024-02-29,SGD,0.75\n2024-03-31,SGD,-1\n"
+      );
+
+      assert.strictEqual(result.imported, 2);
+      assert.strictEqual(result.errors.length, 1);
+      assert.match(result.errors[0], /Line 4/);
+      assert.strictEqual(listExchangeRates({ currency_code: "SGD" })[0].source, "csv");
+    });
+  });
+
+  describe("foreign invoices", () => {
+    it("should post base amounts and book a realized gain on payment", async () => {
+      const { setExchangeRate } = await import("../dist/domain/exchange-rates.js");
+      const { createInvoice, updateInvoiceStatus, getInvoice } = await import("../dist/domain/invoices.js");
+      const { recordPayment } = await import("../dist/domain/payments.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      setExchangeRate("EUR", "2024-04-01", 1.1);
+      setExchangeRate("EUR", "2024-05-01", 1.15);
+
+      const customer = createCustomer({ name: "Euro Client" });
+      const draft = createInvoice({
+        customer_id: customer.id,
+        date: "2024-04-10",
+        tax_rate: 0,
+        currency_code: "EUR",
+        items: [{ description: "Consulting", unit_price: 1000 }],
+      });
+      const invoice = updateInvoiceStatus(draft.id, "sent")!;
+      assert.strictEqual(invoice.exchange_rate, 1.1);
+      assert.strictEqual(invoice.total, 1000, "Invoice total stays in document currency");
+
+      const ar = getAccountByCode("1200")!;
+      const entry = getJournalEntry(invoice.journal_entry_id);
+      const arLine = entry!.lines.find((l: { account_id: number }) => l.account_id === ar.id);
+      assert.strictEqual(arLine?.debit, 1100);
+      assert.strictEqual(arLine?.foreign_debit, 1000);
+      assert.strictEqual(arLine?.currency_code, "EUR");
+
+      const payment = recordPayment({ invoice_id: invoice.id, amount: 1000, date: "2024-05-05" });
+      assert.strictEqual(payment.amount, 1150, "Payment amount is stored in base currency");
+      assert.strictEqual(payment.foreign_amount, 1000);
+
+      const paymentEntry = getJournalEntry(payment.journal_entry_id);
+      const gain = getAccountByCode("4500")!;
+      const gainLine = paymentEntry!.lines.find((l: { account_id: number }) => l.account_id === gain.id);
+      const arRelief = paymentEntry!.lines.find((l: { account_id: number }) => l.account_id === ar.id);
+      assert.strictEqual(gainLine?.credit, 50);
+      assert.strictEqual(arRelief?.credit, 1100);
+      assert.strictEqual(getInvoice(invoice.id)?.status, "paid");
+    });
+  });
+
+  describe("foreign bills", () => {
+    it("should book a realized loss when the currency strengthens before payment", async () => {
+      const { createBill, approveBill, recordBillPayment } = await import("../dist/domain/bills.js");
+      const { createVendor } = await import("../dist/domain/vendors.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const vendor = createVendor({ name: "Euro Supplier" });
+      const bill = createBill({
+        vendor_id: vendor.id,
+        date: "2024-04-15",
+        currency_code: "EUR",
+        items: [{ description: "Hosting", unit_price: 500, account: "5700" }],
+      });
+      const approved = approveBill(bill.id);
+
+      const ap = getAccountByCode("2000")!;
+      const apLine = getJournalEntry(approved.journal_entry_id!)!.lines.find(
+        (l: { account_id: number }) => l.account_id === ap.id
+      );
+      assert.strictEqual(apLine?.credit, 550);
+
+      const payment = recordBillPayment({ bill_id: bill.id, amount: 500, date: "2024-05-10" });
+      const loss = getAccountByCode("5820")!;
+      const lossLine = getJournalEntry(payment.journal_entry_id)!.lines.find(
+        (l: { account_id: number }) => l.account_id === loss.id
+      );
+      assert.strictEqual(payment.amount, 575);
+      assert.strictEqual(lossLine?.debit, 25);
+    });
+  });
+
+  describe("revalueOpenBalances", () => {
+    it("should post and reverse unrealized FX on open receivables", async () => {
+      const { setExchangeRate, revalueOpenBalances } = await import("../dist/domain/exchange-rates.js");
+      const { createInvoice, updateInvoiceStatus } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+
+      const customer = createCustomer({ name: "Open Euro Client" });
+      const draft = createInvoice({
+        customer_id: customer.id,
+        date: "2024-05-20",
+        tax_rate: 0,
+        currency_code: "EUR",
+        exchange_rate: 1.1,
+        items: [{ description: "Retainer", unit_price: 200 }],
+      });
+      const invoice = updateInvoiceStatus(draft.id, "sent")!;
+      setExchangeRate("EUR", "2024-06-30", 1.2);
+
+      const preview = revalueOpenBalances("2024-06-30");
+      const line = preview.lines.find((l: { document: string }) => l.document === invoice.number);
+      assert.strictEqual(line?.booked_base, 220);
+      assert.strictEqual(line?.revalued_base, 240);
+      assert.strictEqual(line?.gain_loss, 20);
+      assert.strictEqual(preview.journal_entry_id, undefined, "Preview should not post");
+
+      const posted = revalueOpenBalances("2024-06-30", { post: true });
+      assert.ok(posted.journal_entry_id);
+      const reversal = getJournalEntry(posted.reversal_entry_id);
+      assert.strictEqual(reversal?.date, "2024-07-01");
+      assert.strictEqual(reversal?.entry_type, "reversing");
+
+      assert.throws(
+        () => revalueOpenBalances("2024-06-30", { post: true }),
+        /already been revalued/
+      );
+    });
+
+    it("should revalue what was open on the date, not what is open now", async () => {
+      const { revalueOpenBalances } = await import("../dist/domain/exchange-rates.js");
+      const find = (report: { lines: Array<{ party: string; type: string; open_amount: number; gain_loss: number }> }, party: string) =>
+        report.lines.find((l) => l.party === party);
+
+      // The euro invoice was paid on 2024-05-05 and the euro bill on 2024-05-10
+      const before = revalueOpenBalances("2024-05-03");
+      assert.strictEqual(find(before, "Euro Client")?.open_amount, 1000);
+      assert.strictEqual(find(before, "Euro Supplier")?.open_amount, 500);
+
+      const between = revalueOpenBalances("2024-05-07");
+      assert.strictEqual(find(between, "Euro Client"), undefined);
+      const bill = find(between, "Euro Supplier");
+      assert.strictEqual(bill?.type, "payable");
+      assert.strictEqual(bill?.gain_loss, -25);
+    });
+  });
+});
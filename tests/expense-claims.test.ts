@@ -0,0 +1,129 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-expense-claims-test-" + Date.now();
+
+describe("Expense claims", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    const { createEmployee } = await import("../dist/domain/employees.js");
+    const { createTaxCode } = await import("../dist/domain/tax-codes.js");
+    createEmployee({ name: "Siti Aminah", employee_number: "E001", email: "siti@example.test" });
+    createTaxCode({ code: "TX8", name: "Input Tax 8%", rate: 8, recoverable: true });
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("createExpenseClaim", () => {
+    it("should total receipts and price mileage at the configured rate", async () => {
+      const { createExpenseClaim, addExpenseClaimItem, setMileageRate } = await import("../dist/domain/expense-claims.js");
+      const { getEmployee } = await import("../dist/domain/employees.js");
+
+      setMileageRate(0.6);
+      const claim = createExpenseClaim({
+        employee_id: getEmployee("E001")!.id,
+        date: "2025-03-31",
+        items: [{ description: "Client lunch", amount: 108, tax_code: "TX8", date: "2025-03-12", account: "6100" }],
+      });
+      assert.strictEqual(claim.number, "EC-0001");
+      assert.strictEqual(claim.status, "draft");
+      assert.strictEqual(claim.items![0].tax_amount, 8);
+
+      const updated = addExpenseClaimItem(claim.number, { description: "Penang site visit", distance_km: 120 });
+      const trip = updated.items![1];
+      assert.strictEqual(trip.amount, 72);
+      assert.strictEqual(trip.rate_per_km, 0.6);
+      assert.strictEqual(trip.account_code, "5800");
+      assert.strictEqual(updated.total, 180);
+    });
+
+    it("should reject unknown receipts and mileage without a rate", async () => {
+      const { createExpenseClaim } = await import("../dist/domain/expense-claims.js");
+      const { getEmployee } = await import("../dist/domain/employees.js");
+      const employee_id = getEmployee("Siti Aminah")!.id;
+
+      assert.throws(
+        () => createExpenseClaim({ employee_id, items: [{ description: "Taxi", amount: 20, document_id: 999 }] }),
+        /Document #999 not found/
+      );
+      assert.throws(
+        () => createExpenseClaim({ employee_id, items: [{ description: "Trip", distance_km: 0 }] }),
+        /must be greater than 0/
+      );
+    });
+  });
+
+  describe("approval", () => {
+    it("should only approve submitted claims and allow rejected ones to be reopened", async () => {
+      const {
+        createExpenseClaim, submitExpenseClaim, approveExpenseClaim, rejectExpenseClaim, reopenExpenseClaim, deleteExpenseClaim,
+      } = await import("../dist/domain/expense-claims.js");
+      const { getEmployee } = await import("../dist/domain/employees.js");
+
+      const claim = createExpenseClaim({ employee_id: getEmployee("Siti Aminah")!.id, date: "2025-04-02" });
+      assert.throws(() => submitExpenseClaim(claim.id), /at least one item/);
+      assert.throws(() => approveExpenseClaim(claim.id), /Only submitted claims can be approved/);
+
+      const withItem = createExpenseClaim({
+        employee_id: getEmployee("Siti Aminah")!.id,
+        items: [{ description: "Parking", amount: 15 }],
+      });
+      submitExpenseClaim(withItem.id);
+      assert.strictEqual(rejectExpenseClaim(withItem.id, "").success, false);
+      assert.deepStrictEqual(rejectExpenseClaim(withItem.id, "No receipt"), { success: true });
+      assert.strictEqual(reopenExpenseClaim(withItem.id).status, "draft");
+
+      assert.deepStrictEqual(deleteExpenseClaim(claim.id), { success: true });
+      assert.deepStrictEqual(deleteExpenseClaim(withItem.id), { success: true });
+    });
+
+    it("should post to reimbursements payable and record each line as an expense", async () => {
+      const { submitExpenseClaim, approveExpenseClaim } = await import("../dist/domain/expense-claims.js");
+      const { getAccountBalance, getAccountByCode } = await import("../dist/domain/accounts.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getExpense } = await import("../dist/domain/expenses.js");
+
+      submitExpenseClaim("EC-0001");
+      const claim = approveExpenseClaim("EC-0001");
+      assert.strictEqual(claim.status, "approved");
+
+      const entry = getJournalEntry(claim.journal_entry_id!)!;
+      const line = (code: string) => entry.lines!.find((l) => l.account?.code === code);
+      assert.strictEqual(line("6100")?.debit, 100);
+      assert.strictEqual(line("1450")?.debit, 8);
+      assert.strictEqual(line("5800")?.debit, 72);
+      assert.strictEqual(line("2150")?.credit, 180);
+
+      assert.strictEqual(getAccountBalance(getAccountByCode("2150")!.id), 180);
+      assert.strictEqual(getExpense(claim.items![0].expense_id!)?.reference, "EC-0001");
+    });
+  });
+
+  describe("reimburseExpenseClaim", () => {
+    it("should clear the liability as the employee is paid", async () => {
+      const { reimburseExpenseClaim, getExpenseClaim } = await import("../dist/domain/expense-claims.js");
+      const { getAccountBalance, getAccountByCode } = await import("../dist/domain/accounts.js");
+      const { listEmployees } = await import("../dist/domain/employees.js");
+
+      const claim = getExpenseClaim("EC-0001")!;
+      reimburseExpenseClaim({ claim_id: claim.id, amount: 80, date: "2025-04-05" });
+      assert.strictEqual(getExpenseClaim(claim.id)!.status, "partial");
+      assert.strictEqual(listEmployees()[0].claims_outstanding, 100);
+
+      assert.throws(() => reimburseExpenseClaim({ claim_id: claim.id, amount: 150 }), /exceeds remaining balance/);
+
+      const payment = reimburseExpenseClaim({ claim_id: claim.id, date: "2025-04-30" });
+      assert.strictEqual(payment.amount, 100);
+      assert.strictEqual(payment.expense_claim_id, claim.id);
+      assert.strictEqual(getExpenseClaim(claim.id)!.status, "paid");
+      assert.strictEqual(getAccountBalance(getAccountByCode("2150")!.id), 0);
+    });
+  });
+});
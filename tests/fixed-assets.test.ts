@@ -0,0 +1,166 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-fixed-assets-test-" + Date.now();
+
+describe("Fixed Assets", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("runDepreciation", () => {
+    it("should post monthly straight-line depreciation once per month", async () => {
+      const { createFixedAsset, runDepreciation, getFixedAsset } = await import("../dist/domain/fixed-assets.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+
+      const laptop = createFixedAsset({
+        name: "Laptop",
+        cost: 3600,
+        acquisition_date: "2024-01-15",
+        useful_life_months: 36,
+        ca_class: "computer",
+        paid_from_account: "1100",
+      });
+      assert.ok(laptop.acquisition_journal_entry_id, "Purchase should be posted when paid_from_account is given");
+
+      const preview = runDepreciation("2024-03", { dry_run: true });
+      assert.strictEqual(preview.total, 300);
+      assert.strictEqual(getFixedAsset(laptop.id)?.accumulated_depreciation, 0, "Dry run posts nothing");
+
+      const result = runDepreciation("2024-03");
+      assert.deepStrictEqual(result.entries.map((e: { month: string }) => e.month), ["2024-01", "2024-02", "2024-03"]);
+      assert.strictEqual(result.total, 300);
+
+      const entry = getJournalEntry(result.entries[0].journal_entry_id);
+      assert.strictEqual(entry?.entry_type, "adjusting");
+      assert.strictEqual(entry?.date, "2024-01-31");
+
+      assert.strictEqual(runDepreciation("2024-03").entries.length, 0, "Already posted months are skipped");
+      assert.strictEqual(getFixedAsset(laptop.id)?.net_book_value, 3300);
+    });
+
+    it("should use double the straight-line rate for declining balance by default", async () => {
+      const { createFixedAsset, runDepreciation } = await import("../dist/domain/fixed-assets.js");
+
+      const van = createFixedAsset({
+        name: "Delivery van",
+        cost: 10000,
+        acquisition_date: "2024-03-01",
+        useful_life_years: 5,
+        method: "declining_balance",
+      });
+
+      const result = runDepreciation("2024-03", { dry_run: true });
+      const charge = result.entries[0].assets.find((a: { asset_id: number }) => a.asset_id === van.id);
+      assert.strictEqual(charge?.amount, 333.33);
+    });
+  });
+
+  describe("capital allowances", () => {
+    it("should schedule initial and annual allowances on qualifying expenditure", async () => {
+      const { listFixedAssets, getCapitalAllowanceSchedule } = await import("../dist/domain/fixed-assets.js");
+
+      const laptop = listFixedAssets().find((a: { name: string }) => a.name === "Laptop");
+      const schedule = getCapitalAllowanceSchedule(laptop.id);
+
+      assert.strictEqual(schedule.length, 4);
+      assert.strictEqual(schedule[0].initial_allowance, 720);
+      assert.strictEqual(schedule[0].annual_allowance, 720);
+      assert.strictEqual(schedule[0].residual_expenditure, 2160);
+      assert.strictEqual(schedule[3].residual_expenditure, 0);
+    });
+
+    it("should compare allowances with book depreciation for the year", async () => {
+      const { createFixedAsset, runDepreciation, getCapitalAllowanceSummary } = await import("../dist/domain/fixed-assets.js");
+
+      createFixedAsset({
+        name: "Office chairs",
+        cost: 2000,
+        acquisition_date: "2024-03-01",
+        useful_life_months: 60,
+        ca_class: "office_equipment",
+      });
+      runDepreciation("2024-12");
+
+      const summary = getCapitalAllowanceSummary(2024);
+      const chairs = summary.items.find((i: { name: string }) => i.name === "Office chairs");
+      assert.strictEqual(chairs?.initial_allowance, 400);
+      assert.strictEqual(chairs?.annual_allowance, 200);
+      assert.strictEqual(chairs?.book_depreciation, 333.3);
+
+      const van = summary.items.find((i: { name: string }) => i.name === "Delivery van");
+      assert.strictEqual(van?.initial_allowance, 0, "Assets without a class get no allowances");
+      assert.ok((van?.book_depreciation || 0) > 0);
+      assert.strictEqual(
+        summary.totals.tax_adjustment,
+        Math.round((summary.totals.book_depreciation - summary.totals.total_allowances) * 100) / 100
+      );
+    });
+  });
+
+  describe("disposeAsset", () => {
+    it("should clear cost and accumulated depreciation and post the gain", async () => {
+      const { listFixedAssets, disposeAsset, getCapitalAllowanceSchedule, getAssetSchedule } =
+        await import("../dist/domain/fixed-assets.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+
+      const laptop = listFixedAssets().find((a: { name: string }) => a.name === "Laptop");
+      const result = disposeAsset(laptop.id, { date: "2025-02-10", proceeds: 2200 });
+
+      // Depreciated through February 2025: 14 months at 100
+      assert.strictEqual(result.net_book_value, 2200);
+      assert.strictEqual(result.gain_loss, 0);
+      assert.strictEqual(result.asset.status, "disposed");
+
+      const entry = getJournalEntry(result.journal_entry_id)!;
+      const accumulated = entry.lines.find((l: { account?: { code: string } }) => l.account?.code === "1650");
+      assert.strictEqual(accumulated?.debit, 1400);
+      assert.throws(() => disposeAsset(laptop.id, { date: "2025-03-01" }), /already disposed/);
+
+      // Residual expenditure 2160 at the end of 2024, sold for 2200: balancing charge of 40
+      const ca = getCapitalAllowanceSchedule(laptop.id);
+      const year2025 = ca.find((r: { fiscal_year: number }) => r.fiscal_year === 2025);
+      assert.strictEqual(year2025?.annual_allowance, 0, "No annual allowance in the year of disposal");
+      assert.strictEqual(year2025?.balancing_charge, 40);
+
+      const schedule = getAssetSchedule("2025-01-01", "2025-12-31");
+      const line = schedule.items.find((i: { asset_id: number }) => i.asset_id === laptop.id);
+      assert.strictEqual(line?.cost_opening, 3600);
+      assert.strictEqual(line?.disposals, 3600);
+      assert.strictEqual(line?.depreciation_opening, 1200);
+      assert.strictEqual(line?.depreciation_charge, 200);
+      assert.strictEqual(line?.net_book_value, 0);
+    });
+
+    it("should post a loss when proceeds are below net book value", async () => {
+      const { createFixedAsset, disposeAsset } = await import("../dist/domain/fixed-assets.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+
+      const printer = createFixedAsset({ name: "Printer", cost: 1200, acquisition_date: "2025-01-01", useful_life_months: 12 });
+      const result = disposeAsset(printer.id, { date: "2025-03-20" });
+
+      assert.strictEqual(result.gain_loss, -900);
+      const loss = getJournalEntry(result.journal_entry_id)!.lines.find(
+        (l: { account?: { code: string } }) => l.account?.code === "6320"
+      );
+      assert.strictEqual(loss?.debit, 900);
+    });
+
+    it("should reject a disposal dated before depreciation already posted", async () => {
+      const { listFixedAssets, disposeAsset, getFixedAsset } = await import("../dist/domain/fixed-assets.js");
+
+      const chairs = listFixedAssets().find((a: { name: string }) => a.name === "Office chairs");
+      assert.strictEqual(chairs.last_depreciated_month, "2024-12");
+      assert.throws(() => disposeAsset(chairs.id, { date: "2024-11-30" }), /Depreciation is posted through 2024-12/);
+      assert.strictEqual(getFixedAsset(chairs.id)?.status, "active");
+    });
+  });
+});
@@ -41,7 +41,7 @@ describe("Invoices Domain", () => {
       });
 
       assert.ok(invoice.id > 0, "Should return invoice with ID");
-      assert.ok(invoice.number.startsWith("INV-"), "Invoice number should start with INV-");
+      assert.ok(invoice.number.startsWith("DRAFT-"), "Drafts carry a placeholder number until issued");
       assert.strictEqual(invoice.subtotal, 200.0, "Subtotal should be 200");
       assert.strictEqual(invoice.status, "draft", "Default status should be draft");
     });
@@ -129,6 +129,140 @@ describe("Invoices Domain", () => {
       const retrieved = getInvoice(invoice.id);
       assert.strictEqual(retrieved?.status, "sent", "Status should persist");
     });
+
+    it("should not let an issued invoice go back to draft", async () => {
+      const { createInvoice, updateInvoiceStatus } = await import("../dist/domain/invoices.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+
+      const customer = getCustomer("Status Test Customer")!;
+      const invoice = createInvoice({
+        customer_id: customer.id,
+        date: "2024-01-20",
+        items: [{ description: "Test", quantity: 1, unit_price: 100 }],
+      });
+      updateInvoiceStatus(invoice.id, "sent");
+
+      assert.throws(() => updateInvoiceStatus(invoice.id, "draft"), /cannot return to draft/);
+    });
+  });
+
+  describe("draft invoices", () => {
+    it("should post nothing until the draft is issued", async () => {
+      const { createInvoice, updateDraftInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getProfitLoss } = await import("../dist/domain/reports.js");
+
+      const customer = createCustomer({ name: "Draft Customer" });
+      const draft = createInvoice({
+        customer_id: customer.id,
+        date: "2024-03-05",
+        tax_rate: 0,
+        items: [{ description: "Estimate", quantity: 1, unit_price: 300 }],
+      });
+
+      assert.ok(draft.number.startsWith("DRAFT-"));
+      assert.ok(!draft.journal_entry_id, "Drafts are not posted");
+      assert.strictEqual(getProfitLoss("2024-03-01", "2024-03-31").revenue.total, 0);
+
+      const edited = updateDraftInvoice(draft.id, {
+        items: [
+          { description: "Design", quantity: 2, unit_price: 250 },
+          { description: "Hosting", quantity: 1, unit_price: 100 },
+        ],
+      });
+      assert.strictEqual(edited.items?.length, 2);
+      assert.strictEqual(edited.total, 600);
+
+      const issued = issueInvoice(draft.id);
+      assert.match(issued.number, /^INV-\d{4}$/);
+      assert.strictEqual(issued.status, "sent");
+      assert.strictEqual(getJournalEntry(issued.journal_entry_id)?.total_debits, 600);
+      assert.strictEqual(getProfitLoss("2024-03-01", "2024-03-31").revenue.total, 600);
+
+      assert.throws(() => issueInvoice(draft.id), /already been issued/);
+      assert.throws(() => updateDraftInvoice(draft.id, { notes: "Too late" }), /credit or debit note/);
+    });
+
+    it("should not post again a draft that was posted when it was created", async () => {
+      const { createInvoice, issueInvoice, getInvoice } = await import("../dist/domain/invoices.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+      const { getDb, closeDb } = await import("../dist/db/index.js");
+      const { getProfitLoss } = await import("../dist/domain/reports.js");
+
+      // Before issuing was a separate step, drafts were numbered and posted straight away
+      const customer = getCustomer("Draft Customer")!;
+      const legacy = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2024-04-02",
+        tax_rate: 0,
+        items: [{ description: "Retainer", quantity: 1, unit_price: 400 }],
+      }).id);
+      getDb().prepare("UPDATE invoices SET status = 'draft' WHERE id = ?").run(legacy.id);
+
+      assert.throws(() => issueInvoice(legacy.id), /already posted to the ledger/);
+      assert.strictEqual(getInvoice(legacy.id)?.number, legacy.number);
+      assert.strictEqual(getProfitLoss("2024-04-01", "2024-04-30").revenue.total, 400);
+
+      closeDb();
+      assert.strictEqual(getInvoice(legacy.id)?.status, "sent", "Reopening the database migrates it to sent");
+    });
+
+    it("should issue drafts when bulk marking them as sent", async () => {
+      const { createInvoice, bulkMarkAsSent, getInvoice } = await import("../dist/domain/invoices.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+
+      const customer = getCustomer("Draft Customer")!;
+      const drafts = [1, 2].map((n) =>
+        createInvoice({
+          customer_id: customer.id,
+          date: "2024-03-10",
+          items: [{ description: `Batch ${n}`, quantity: 1, unit_price: 50 }],
+        })
+      );
+
+      const result = bulkMarkAsSent(drafts.map((d: { id: number }) => d.id));
+      assert.strictEqual(result.success, 2);
+      for (const draft of drafts) {
+        const invoice = getInvoice(draft.id);
+        assert.ok(invoice?.number.startsWith("INV-"));
+        assert.ok(invoice?.journal_entry_id);
+      }
+    });
+  });
+
+  describe("cancelInvoice", () => {
+    it("should reverse the posting of an issued invoice", async () => {
+      const { createInvoice, issueInvoice, cancelInvoice, getInvoice, recordPaymentToInvoice } = await import("../dist/domain/invoices.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+      const { getAccountByCode, getAccountBalance } = await import("../dist/domain/accounts.js");
+      const { listJournalEntries } = await import("../dist/domain/journal.js");
+
+      const ar = getAccountByCode("1200")!;
+      const before = getAccountBalance(ar.id);
+      const customer = getCustomer("Draft Customer")!;
+      const invoice = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2024-05-06",
+        tax_rate: 0,
+        items: [{ description: "Workshop", quantity: 1, unit_price: 750 }],
+      }).id);
+      assert.strictEqual(getAccountBalance(ar.id), before + 750);
+
+      assert.deepStrictEqual(cancelInvoice(invoice.id, "Workshop called off"), { success: true });
+      assert.strictEqual(getInvoice(invoice.id)?.status, "cancelled");
+      assert.strictEqual(getAccountBalance(ar.id), before);
+      assert.strictEqual(listJournalEntries({ reference: `REV-${invoice.number}` }).length, 1);
+
+      const paid = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2024-05-07",
+        tax_rate: 0,
+        items: [{ description: "Deposit taken", quantity: 1, unit_price: 200 }],
+      }).id);
+      recordPaymentToInvoice(paid.id, 50);
+      assert.match(cancelInvoice(paid.id).error!, /payments recorded against it/);
+    });
   });
 
   describe("recordPaymentToInvoice", () => {
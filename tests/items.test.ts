@@ -0,0 +1,156 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-items-test-" + Date.now();
+
+describe("Items", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    const { createCustomer } = await import("../dist/domain/customers.js");
+    const { createVendor } = await import("../dist/domain/vendors.js");
+    createCustomer({ name: "Kedai Runcit Ali" });
+    createVendor({ name: "Pembekal Jaya" });
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const balance = async (code: string) => {
+    const { getAccountBalance, getAccountByCode } = await import("../dist/domain/accounts.js");
+    return getAccountBalance(getAccountByCode(code)!.id);
+  };
+
+  const customerId = async () => {
+    const { getCustomer } = await import("../dist/domain/customers.js");
+    return getCustomer("Kedai Runcit Ali")!.id;
+  };
+
+  const receive = async (quantity: number, unitPrice: number, date: string) => {
+    const { createBill, approveBill } = await import("../dist/domain/bills.js");
+    const { getVendor } = await import("../dist/domain/vendors.js");
+    const bill = createBill({
+      vendor_id: getVendor("Pembekal Jaya")!.id,
+      date,
+      items: [{ description: "Rice 10kg", quantity, unit_price: unitPrice, item: "RICE10" }],
+    });
+    return approveBill(bill.id);
+  };
+
+  describe("catalog", () => {
+    it("should fill invoice lines from the item", async () => {
+      const { createItem, itemLine } = await import("../dist/domain/items.js");
+      const { createInvoice } = await import("../dist/domain/invoices.js");
+
+      const item = createItem({
+        sku: "DELIVERY",
+        name: "Delivery",
+        unit_price: 30,
+        income_account: "4100",
+        tax_code: "SV8",
+        classification_code: "030",
+        unit_code: "C62",
+      });
+      assert.throws(() => createItem({ sku: "delivery", name: "Again" }), /Item delivery already exists/);
+      assert.throws(() => createItem({ sku: "X", name: "X", income_account: "5000" }), /is not an income account/);
+
+      const invoice = createInvoice({ customer_id: await customerId(), items: [itemLine("delivery", { quantity: 2 })] });
+      const [line] = invoice.items!;
+      assert.strictEqual(line.item_id, item.id);
+      assert.strictEqual(line.description, "Delivery");
+      assert.strictEqual(line.amount, 60);
+      assert.strictEqual(line.account_code, "4100");
+      assert.strictEqual(line.tax_code, "SV8");
+      assert.strictEqual(line.tax_amount, 4.8);
+      assert.strictEqual(line.classification_code, "030");
+      assert.strictEqual(line.unit_code, "C62");
+    });
+  });
+
+  describe("stock", () => {
+    it("should receive stock from bills at weighted-average cost", async () => {
+      const { createItem, getItem } = await import("../dist/domain/items.js");
+
+      createItem({ sku: "RICE10", name: "Beras 10kg", type: "inventory", unit_price: 45, classification_code: "022" });
+      await receive(10, 20, "2025-04-01");
+      await receive(10, 26, "2025-04-05");
+
+      const rice = getItem("RICE10")!;
+      assert.strictEqual(rice.quantity_on_hand, 20);
+      assert.strictEqual(rice.stock_value, 460);
+      assert.strictEqual(rice.average_cost, 23);
+      assert.strictEqual(await balance("1400"), 460);
+    });
+
+    it("should post cost of goods sold when an invoice is issued", async () => {
+      const { itemLine, getItem, listStockMovements } = await import("../dist/domain/items.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+
+      const tooMany = createInvoice({ customer_id: await customerId(), date: "2025-04-10", items: [itemLine("RICE10", { quantity: 21 })] });
+      assert.throws(() => issueInvoice(tooMany.id), /Not enough stock of RICE10: 20 on hand, 21 needed/);
+
+      const draft = createInvoice({ customer_id: await customerId(), date: "2025-04-10", tax_rate: 0, items: [itemLine("RICE10", { quantity: 5 })] });
+      const invoice = issueInvoice(draft.id);
+
+      assert.strictEqual(await balance("4000"), 225);
+      assert.strictEqual(await balance("5000"), 115);
+      assert.strictEqual(await balance("1400"), 345);
+      assert.strictEqual(getJournalEntry(invoice.journal_entry_id!)!.lines.length, 4);
+
+      const rice = getItem("RICE10")!;
+      assert.strictEqual(rice.quantity_on_hand, 15);
+      assert.strictEqual(rice.average_cost, 23);
+      const [sale] = listStockMovements({ item_id: rice.id, source_type: "invoice" });
+      assert.deepStrictEqual([sale.quantity, sale.value, sale.source_id], [-5, -115, invoice.id]);
+    });
+
+    it("should put stock back when an issued invoice is cancelled", async () => {
+      const { itemLine, getItem } = await import("../dist/domain/items.js");
+      const { createInvoice, issueInvoice, cancelInvoice } = await import("../dist/domain/invoices.js");
+
+      const receivable = await balance("1200");
+      const draft = createInvoice({ customer_id: await customerId(), date: "2025-04-12", tax_rate: 0, items: [itemLine("RICE10", { quantity: 4 })] });
+      issueInvoice(draft.id);
+      assert.strictEqual(getItem("RICE10")!.quantity_on_hand, 11);
+      assert.strictEqual(await balance("5000"), 207);
+
+      assert.deepStrictEqual(cancelInvoice(draft.id), { success: true });
+      const rice = getItem("RICE10")!;
+      assert.deepStrictEqual([rice.quantity_on_hand, rice.stock_value, rice.average_cost], [15, 345, 23]);
+      assert.strictEqual(await balance("5000"), 115);
+      assert.strictEqual(await balance("1400"), 345);
+      assert.strictEqual(await balance("1200"), receivable);
+    });
+
+    it("should adjust stock and refuse to undo receipts already sold", async () => {
+      const { adjustStock, getItem, deleteItem } = await import("../dist/domain/items.js");
+      const { cancelBill, listBills, getBill } = await import("../dist/domain/bills.js");
+
+      const writeOff = adjustStock("RICE10", { quantity: -3, date: "2025-04-20", description: "Damaged sacks" });
+      assert.strictEqual(writeOff.value, -69);
+      assert.strictEqual(await balance("5000"), 184);
+
+      adjustStock("RICE10", { quantity: -11, date: "2025-04-21" });
+      assert.strictEqual(getItem("RICE10")!.quantity_on_hand, 1);
+
+      const [latest] = listBills();
+      const refused = cancelBill(latest.id);
+      assert.strictEqual(refused.success, false);
+      assert.match(refused.error!, /Not enough stock of RICE10 left to reverse/);
+      assert.strictEqual(getBill(latest.id)!.status, "approved");
+      assert.strictEqual(deleteItem("RICE10").success, false);
+
+      // The last unit carries whatever value is left
+      adjustStock("RICE10", { quantity: -1, date: "2025-04-22" });
+      const rice = getItem("RICE10")!;
+      assert.deepStrictEqual([rice.quantity_on_hand, rice.stock_value], [0, 0]);
+      assert.strictEqual(await balance("1400"), 0);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-loans-test-" + Date.now();
+
+describe("Loans", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const balance = async (code: string) => {
+    const { getAccountBalance, getAccountByCode } = await import("../dist/domain/accounts.js");
+    return getAccountBalance(getAccountByCode(code)!.id);
+  };
+
+  const sum = (values: number[]) => Math.round(values.reduce((a, b) => a + b, 0) * 100) / 100;
+
+  describe("buildLoanSchedule", () => {
+    it("should level the payment on a reducing balance for an annuity", async () => {
+      const { buildLoanSchedule } = await import("../dist/domain/loans.js");
+
+      const rows = buildLoanSchedule({ principal: 10000, annual_rate: 6, term_months: 12, method: "annuity", first_payment_date: "2025-01-31" });
+      assert.strictEqual(rows.length, 12);
+      assert.strictEqual(rows[0].payment, 860.66);
+      assert.strictEqual(rows[0].interest, 50);
+      assert.strictEqual(rows[1].due_date, "2025-02-28", "Short months fall back to the month end");
+      assert.strictEqual(rows[11].balance, 0);
+      assert.strictEqual(sum(rows.map((r: { principal: number }) => r.principal)), 10000);
+    });
+
+    it("should front-load flat-rate interest by the Rule of 78", async () => {
+      const { buildLoanSchedule } = await import("../dist/domain/loans.js");
+
+      const rows = buildLoanSchedule({ principal: 12000, annual_rate: 3, term_months: 12, method: "rule_of_78", first_payment_date: "2025-02-15" });
+      assert.strictEqual(rows[0].payment, 1030);
+      assert.strictEqual(rows[0].interest, 55.38, "12/78 of 360");
+      assert.ok(rows[11].interest < 5, "The last installment carries 1/78");
+      assert.strictEqual(sum(rows.map((r: { interest: number }) => r.interest)), 360);
+      assert.strictEqual(sum(rows.map((r: { principal: number }) => r.principal)), 12000);
+      assert.strictEqual(rows[11].balance, 0);
+    });
+  });
+
+  describe("repayments", () => {
+    it("should post the drawdown and split each repayment into principal and interest", async () => {
+      const { createLoan, recordLoanRepayment, getLoan, deleteLoan } = await import("../dist/domain/loans.js");
+
+      const hp = createLoan({ name: "Hilux", type: "hire_purchase", principal: 12000, annual_rate: 3, term_months: 12, start_date: "2025-01-15" });
+      assert.strictEqual(hp.method, "rule_of_78");
+      assert.strictEqual(hp.first_payment_date, "2025-02-15");
+      assert.strictEqual(hp.liability_account_code, "2800");
+      assert.strictEqual(await balance("1600"), 12000);
+      assert.strictEqual(await balance("2800"), 12000);
+
+      const first = recordLoanRepayment("Hilux", { date: "2025-02-15" });
+      const second = recordLoanRepayment(hp.id, { date: "2025-03-15" });
+      assert.strictEqual(first.principal + first.interest, 1030);
+      assert.strictEqual(await balance("2800"), 12000 - first.principal - second.principal);
+      assert.strictEqual(await balance("5810"), sum([first.interest, second.interest]));
+      assert.strictEqual(await balance("1100"), -2060);
+
+      const loan = getLoan("Hilux")!;
+      assert.strictEqual(loan.installments_paid, 2);
+      assert.strictEqual(loan.next_due_date, "2025-04-15");
+      assert.deepStrictEqual(deleteLoan(loan.id), { success: false, error: "Hilux has 2 repayment(s) recorded" });
+    });
+
+    it("should pay everything due through a date", async () => {
+      const { recordDueRepayments, getLoan } = await import("../dist/domain/loans.js");
+
+      const paid = recordDueRepayments("2025-06-30");
+      assert.deepStrictEqual(paid.map((i: { due_date: string }) => i.due_date), ["2025-04-15", "2025-05-15", "2025-06-15"]);
+      assert.strictEqual(getLoan("Hilux")!.installments_paid, 5);
+    });
+  });
+
+  describe("getBalanceSheet", () => {
+    it("should split loans into current and non-current portions", async () => {
+      const { createLoan, getLoanSchedule, getLoanPortions, deleteLoan } = await import("../dist/domain/loans.js");
+      const { getBalanceSheet } = await import("../dist/domain/reports.js");
+
+      const loan = createLoan({ name: "Term loan", principal: 36000, annual_rate: 5, term_months: 36, start_date: "2025-07-01" });
+      assert.strictEqual(loan.liability_account_code, "2700");
+
+      const report = getBalanceSheet("2025-07-31");
+      const schedule = getLoanSchedule(loan.id);
+      const dueWithinYear = sum(schedule.slice(0, 12).map((i: { principal: number }) => i.principal));
+      const hire = getLoanPortions("2025-07-31").loans.find((l: { name: string }) => l.name === "Hilux")!;
+
+      assert.strictEqual(report.liabilities.loans.current, sum([dueWithinYear, hire.current]));
+      assert.strictEqual(sum([report.liabilities.loans.current, report.liabilities.loans.non_current]), sum([36000, hire.outstanding]));
+      assert.strictEqual(report.liabilities.other, 0, "Loan accounts are not counted twice");
+      assert.ok(report.is_balanced);
+
+      assert.deepStrictEqual(deleteLoan(loan.id), { success: true });
+      assert.strictEqual(await balance("2700"), 0);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-opening-balances-test-" + Date.now();
+
+describe("Opening balances", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    const { createCustomer } = await import("../dist/domain/customers.js");
+    const { createVendor } = await import("../dist/domain/vendors.js");
+    createCustomer({ name: "Kedai Runcit Sdn Bhd" });
+    createVendor({ name: "Office Landlord" });
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const balance = async (code: string) => {
+    const { getAccountBalance, getAccountByCode } = await import("../dist/domain/accounts.js");
+    return getAccountBalance(getAccountByCode(code)!.id);
+  };
+
+  describe("open invoices and bills", () => {
+    it("should need a conversion date and keep documents on or before it", async () => {
+      const { addOpeningInvoice, setConversionDate } = await import("../dist/domain/opening-balances.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+      const customer_id = getCustomer("Kedai Runcit Sdn Bhd")!.id;
+
+      assert.throws(
+        () => addOpeningInvoice({ customer_id, number: "INV-0041", date: "2024-11-01", amount: 500 }),
+        /Set the conversion date first/
+      );
+      assert.throws(() => setConversionDate("31/12/2024"), /Invalid conversion date/);
+      setConversionDate("2024-12-31");
+      assert.throws(
+        () => addOpeningInvoice({ customer_id, number: "INV-0041", date: "2025-01-02", amount: 500 }),
+        /after the conversion date/
+      );
+    });
+
+    it("should post each item against Opening Balance Equity so aging sees it", async () => {
+      const { addOpeningInvoice, addOpeningBill, setConversionDate } = await import("../dist/domain/opening-balances.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+      const { getVendor } = await import("../dist/domain/vendors.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getReceivablesAging, getPayablesAging } = await import("../dist/domain/reports.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+
+      const invoice = addOpeningInvoice({
+        customer_id: getCustomer("Kedai Runcit Sdn Bhd")!.id,
+        number: "INV-0041",
+        date: "2024-11-01",
+        due_date: "2024-12-01",
+        amount: 1500,
+      });
+      assert.strictEqual(invoice.status, "sent");
+      assert.strictEqual(invoice.is_opening, 1);
+      const entry = getJournalEntry(invoice.journal_entry_id!)!;
+      assert.strictEqual(entry.date, "2024-12-31");
+      assert.strictEqual(entry.is_locked, 1);
+
+      const bill = addOpeningBill({ vendor_id: getVendor("Office Landlord")!.id, reference: "R-889", date: "2024-12-20", amount: 400 });
+      assert.strictEqual(bill.status, "approved");
+      assert.strictEqual(bill.vendor_reference, "R-889");
+
+      assert.strictEqual(await balance("1200"), 1500);
+      assert.strictEqual(await balance("2000"), 400);
+      assert.strictEqual(await balance("3900"), 1100);
+      assert.deepStrictEqual(getReceivablesAging().days_90_plus.map((i: { invoice: string }) => i.invoice), ["INV-0041"]);
+      assert.strictEqual(getPayablesAging().totals.total, 400);
+
+      assert.throws(() => setConversionDate("2025-03-31"), /already posted on 2024-12-31/);
+
+      // New invoices continue after the numbers brought over
+      const next = issueInvoice(createInvoice({ customer_id: invoice.customer_id, date: "2025-01-10", items: [{ description: "Goods", unit_price: 100 }] }).id);
+      assert.strictEqual(next.number, "INV-0042");
+    });
+  });
+
+  describe("enterOpeningBalances", () => {
+    it("should reject a trial balance that does not balance or disagrees with the documents", async () => {
+      const { enterOpeningBalances } = await import("../dist/domain/opening-balances.js");
+
+      assert.throws(
+        () => enterOpeningBalances([{ account: "1100", debit: 1000 }, { account: "3000", credit: 900 }]),
+        /does not balance/
+      );
+      assert.throws(
+        () => enterOpeningBalances([
+          { account: "1100", debit: 9000 },
+          { account: "1200", debit: 1000 },
+          { account: "2000", credit: 400 },
+          { account: "3000", credit: 9600 },
+        ]),
+        /Accounts Receivable in the trial balance \(1000.00\) does not match the open invoices brought over \(1500.00\)/
+      );
+    });
+
+    it("should post the rest in one locked entry and clear Opening Balance Equity", async () => {
+      const { enterOpeningBalances, getOpeningBalanceStatus } = await import("../dist/domain/opening-balances.js");
+      const { deleteJournalEntry } = await import("../dist/domain/journal.js");
+
+      const trialBalance = [
+        { account: "Bank Account", debit: 8000 },
+        { account: "1200", debit: 1500 },
+        { account: "2000", credit: 400 },
+        { account: "3000", credit: 5000 },
+        { account: "4000", credit: 6100 },
+        { account: "5100", debit: 2000 },
+      ];
+      const first = enterOpeningBalances(trialBalance);
+      assert.strictEqual(first.is_locked, 1);
+      assert.throws(() => deleteJournalEntry(first.id), /locked/);
+
+      // Entering it again replaces the earlier entry
+      trialBalance[0].debit = 8100;
+      trialBalance[4].credit = 6200;
+      const second = enterOpeningBalances(trialBalance);
+      assert.notStrictEqual(second.id, first.id);
+
+      assert.strictEqual(await balance("1100"), 8100);
+      assert.strictEqual(await balance("4000"), 6200 + 100, "Includes the invoice issued after conversion");
+      assert.strictEqual(await balance("1200"), 1600);
+
+      const status = getOpeningBalanceStatus();
+      assert.strictEqual(status.journal_entry_id, second.id);
+      assert.strictEqual(status.equity_balance, 0);
+    });
+  });
+});
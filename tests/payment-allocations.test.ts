@@ -0,0 +1,203 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-allocations-test-" + Date.now();
+
+async function issued(customerId: number, date: string, amount: number) {
+  const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+  return issueInvoice(createInvoice({
+    customer_id: customerId,
+    date,
+    tax_rate: 0,
+    items: [{ description: "Services", unit_price: amount }],
+  }).id);
+}
+
+function lineFor(entry: { lines: Array<{ account_id: number; debit: number; credit: number }> }, accountId: number) {
+  return entry.lines.find((l) => l.account_id === accountId);
+}
+
+describe("Payment allocation and customer credit", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("recordPayment", () => {
+    it("should split one receipt over several invoices and hold the rest as credit", async () => {
+      const { recordPayment, listAllocations, getCustomerCredits } = await import("../dist/domain/payments.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { getInvoice } = await import("../dist/domain/invoices.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const customer = createCustomer({ name: "Split Payer" });
+      const first = await issued(customer.id, "2024-01-05", 300);
+      const second = await issued(customer.id, "2024-01-20", 500);
+
+      const payment = recordPayment({
+        customer_id: customer.id,
+        amount: 1000,
+        date: "2024-02-01",
+        allocations: [
+          { invoice_id: first.id, amount: 300 },
+          { invoice_id: second.id, amount: 500 },
+        ],
+      });
+
+      assert.strictEqual(payment.unapplied_amount, 200);
+      assert.strictEqual(getInvoice(first.id)?.status, "paid");
+      assert.strictEqual(getInvoice(second.id)?.status, "paid");
+      assert.strictEqual(listAllocations({ payment_id: payment.id }).length, 2);
+
+      const entry = getJournalEntry(payment.journal_entry_id)!;
+      assert.strictEqual(lineFor(entry, getAccountByCode("1100")!.id)?.debit, 1000);
+      assert.strictEqual(lineFor(entry, getAccountByCode("2400")!.id)?.credit, 200);
+
+      const credits = getCustomerCredits(customer.id);
+      assert.strictEqual(credits.length, 1);
+      assert.strictEqual(credits[0].type, "payment");
+      assert.strictEqual(credits[0].available, 200);
+    });
+
+    it("should hold an overpayment of a single invoice as credit", async () => {
+      const { recordPayment } = await import("../dist/domain/payments.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { getInvoice } = await import("../dist/domain/invoices.js");
+
+      const customer = createCustomer({ name: "Generous Payer" });
+      const invoice = await issued(customer.id, "2024-03-01", 400);
+
+      const payment = recordPayment({ invoice_id: invoice.id, amount: 450, date: "2024-03-10" });
+      assert.strictEqual(payment.unapplied_amount, 50);
+      assert.strictEqual(getInvoice(invoice.id)?.amount_paid, 400);
+    });
+
+    it("should reject allocations that do not fit the payment", async () => {
+      const { recordPayment } = await import("../dist/domain/payments.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+
+      const customer = createCustomer({ name: "Careless Payer" });
+      const other = createCustomer({ name: "Someone Else" });
+      const invoice = await issued(customer.id, "2024-03-01", 100);
+      const foreign = await issued(other.id, "2024-03-01", 100);
+
+      assert.throws(
+        () => recordPayment({ customer_id: customer.id, amount: 50, allocations: [{ invoice_id: invoice.id, amount: 80 }] }),
+        /more than/i
+      );
+      assert.throws(
+        () => recordPayment({
+          customer_id: customer.id,
+          amount: 200,
+          allocations: [{ invoice_id: invoice.id, amount: 100 }, { invoice_id: foreign.id, amount: 100 }],
+        }),
+        /customer/i
+      );
+      assert.throws(() => recordPayment({ amount: 75 }), /needs a customer/);
+    });
+  });
+
+  describe("applying credit", () => {
+    it("should move receipt credit from Customer Deposits to a later invoice", async () => {
+      const { applyCustomerCredits, getCustomerCredits, getPayment } = await import("../dist/domain/payments.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+      const { getInvoice } = await import("../dist/domain/invoices.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const customer = getCustomer("Split Payer")!;
+      const later = await issued(customer.id, "2024-02-15", 150);
+
+      const allocations = applyCustomerCredits(later.id, { date: "2024-02-20" });
+      assert.strictEqual(allocations.length, 1);
+      assert.strictEqual(allocations[0].amount, 150);
+      assert.strictEqual(getInvoice(later.id)?.status, "paid");
+      assert.strictEqual(getPayment(allocations[0].payment_id)?.unapplied_amount, 50);
+      assert.strictEqual(getCustomerCredits(customer.id)[0].available, 50);
+
+      const entry = getJournalEntry(allocations[0].journal_entry_id)!;
+      assert.strictEqual(lineFor(entry, getAccountByCode("2400")!.id)?.debit, 150);
+      assert.strictEqual(lineFor(entry, getAccountByCode("1200")!.id)?.credit, 150);
+    });
+
+    it("should apply a credit note to another invoice without a new entry", async () => {
+      const { applyCredit, recordPayment, listAllocations } = await import("../dist/domain/payments.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { createCreditNote, getInvoice } = await import("../dist/domain/invoices.js");
+
+      const customer = createCustomer({ name: "Credit Note Client" });
+      const original = await issued(customer.id, "2024-04-01", 600);
+      recordPayment({ invoice_id: original.id, amount: 600, date: "2024-04-10" });
+      const note = createCreditNote({
+        original_invoice_id: original.id,
+        date: "2024-04-15",
+        reason: "Returned goods",
+        items: [{ description: "Services", unit_price: 100 }],
+      });
+      const next = await issued(customer.id, "2024-05-01", 250);
+
+      const allocation = applyCredit({ invoice_id: next.id, credit_note_id: note.id, date: "2024-05-02" });
+      assert.strictEqual(allocation.amount, 100);
+      assert.strictEqual(allocation.journal_entry_id, null);
+      assert.strictEqual(getInvoice(note.id)?.status, "paid");
+      assert.strictEqual(getInvoice(next.id)?.amount_paid, 100);
+      assert.strictEqual(listAllocations({ invoice_id: next.id })[0].credit_note_number, note.number);
+
+      assert.throws(
+        () => applyCredit({ invoice_id: next.id, credit_note_id: note.id }),
+        /Nothing to apply/
+      );
+    });
+  });
+
+  describe("refunds", () => {
+    it("should refund receipt credit from Customer Deposits", async () => {
+      const { refundCredit, getCustomerCredits, listAllocations } = await import("../dist/domain/payments.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const customer = getCustomer("Generous Payer")!;
+      const credit = getCustomerCredits(customer.id)[0];
+
+      assert.throws(() => refundCredit({ payment_id: credit.id, amount: 80 }), /only has/);
+      const refund = refundCredit({ payment_id: credit.id, date: "2024-03-20" });
+      assert.strictEqual(refund.type, "sent");
+      assert.strictEqual(refund.amount, 50);
+      assert.strictEqual(getCustomerCredits(customer.id).length, 0);
+      assert.strictEqual(listAllocations({ payment_id: credit.id })[1].refund_payment_id, refund.id);
+
+      const entry = getJournalEntry(refund.journal_entry_id)!;
+      assert.strictEqual(lineFor(entry, getAccountByCode("2400")!.id)?.debit, 50);
+      assert.strictEqual(lineFor(entry, getAccountByCode("1100")!.id)?.credit, 50);
+    });
+
+    it("should refund a credit note through the receivable", async () => {
+      const { refundCredit, recordPayment } = await import("../dist/domain/payments.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { createCreditNote, getInvoice } = await import("../dist/domain/invoices.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const customer = createCustomer({ name: "Refunded Client" });
+      const original = await issued(customer.id, "2024-06-01", 300);
+      recordPayment({ invoice_id: original.id, amount: 300, date: "2024-06-05" });
+      const note = createCreditNote({ original_invoice_id: original.id, date: "2024-06-10", reason: "Cancelled", full_credit: true });
+
+      const refund = refundCredit({ credit_note_id: note.id, date: "2024-06-12", reference: "TRF-88" });
+      assert.strictEqual(refund.amount, 300);
+      assert.strictEqual(getInvoice(note.id)?.status, "paid");
+
+      const entry = getJournalEntry(refund.journal_entry_id)!;
+      assert.strictEqual(lineFor(entry, getAccountByCode("1200")!.id)?.debit, 300);
+    });
+  });
+});
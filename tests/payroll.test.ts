@@ -0,0 +1,114 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync, mkdirSync, writeFileSync, readFileSync } from "fs";
+
+const testDir = "/tmp/oa-payroll-test-" + Date.now();
+
+describe("Payroll", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    const { createEmployee } = await import("../dist/domain/employees.js");
+    createEmployee({ name: "Siti Aminah", monthly_salary: 5000, date_of_birth: "1990-04-02", pcb_category: 2, children: 2 });
+    createEmployee({ name: "Ahmad Razak", monthly_salary: 3000, date_of_birth: "1962-01-15" });
+    createEmployee({ name: "Claims Only" });
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("contribution tables", () => {
+    it("should work out EPF, SOCSO, EIS and PCB from the bundled tables", async () => {
+      const { getPayrollTables, calculateContribution, calculatePcb } = await import("../dist/domain/payroll-tables.js");
+      const tables = getPayrollTables("2025-05-31");
+
+      const amounts = (scheme: "epf" | "socso" | "eis", wage: number, age?: number) => {
+        const { employee, employer } = calculateContribution(tables[scheme], wage, age);
+        return [employee, employer];
+      };
+      assert.deepStrictEqual(amounts("epf", 5000), [550, 650]);
+      assert.deepStrictEqual(amounts("epf", 5010), [561, 612], "12% employer above RM5,000 on the RM100 bracket");
+      assert.deepStrictEqual(amounts("epf", 3000, 63), [0, 120]);
+      assert.deepStrictEqual(amounts("socso", 3000), [14.75, 51.65]);
+      assert.deepStrictEqual(amounts("socso", 8000), [29.75, 104.15], "capped at the RM6,000 ceiling");
+      assert.deepStrictEqual(amounts("eis", 8000), [11.9, 11.9]);
+      assert.deepStrictEqual(amounts("eis", 3000, 63), [0, 0]);
+
+      assert.strictEqual(calculatePcb(tables.pcb, { monthly_wage: 5000, epf_employee: 550, category: 1, children: 0 }), 110);
+      assert.strictEqual(calculatePcb(tables.pcb, { monthly_wage: 5000, epf_employee: 550, category: 2, children: 2 }), 70);
+      assert.strictEqual(calculatePcb(tables.pcb, { monthly_wage: 3000, epf_employee: 330, category: 1, children: 0 }), 0);
+    });
+
+    it("should use a workspace tables file from its effective date", async () => {
+      const { getPayrollTables, calculateContribution } = await import("../dist/domain/payroll-tables.js");
+      const bundled = JSON.parse(readFileSync(new URL("../dist/data/payroll/2025.json", import.meta.url), "utf-8"));
+
+      mkdirSync("payroll-tables");
+      bundled.name = "Malaysia 2027";
+      bundled.effective_from = "2027-01-01";
+      bundled.epf.categories[0].bands[0].employee = 9;
+      writeFileSync("payroll-tables/2027.json", JSON.stringify(bundled));
+
+      assert.strictEqual(getPayrollTables("2026-12-31").name, "Malaysia 2025");
+      const tables = getPayrollTables("2027-01-31");
+      assert.strictEqual(tables.file, "payroll-tables/2027.json");
+      assert.strictEqual(calculateContribution(tables.epf, 5000).employee, 450);
+
+      writeFileSync("payroll-tables/broken.json", JSON.stringify({ name: "Broken", effective_from: "2028-01-01" }));
+      assert.throws(() => getPayrollTables("2027-01-31"), /Invalid payroll tables in payroll-tables\/broken.json: epf needs at least one category/);
+      rmSync("payroll-tables", { recursive: true });
+    });
+  });
+
+  describe("payroll runs", () => {
+    it("should post one balanced entry with the statutory liabilities", async () => {
+      const { createPayrollRun, postPayrollRun, deletePayrollRun } = await import("../dist/domain/payroll.js");
+      const { getAccountByCode, getAccountBalance } = await import("../dist/domain/accounts.js");
+      const balance = (code: string) => getAccountBalance(getAccountByCode(code)!.id);
+
+      const run = createPayrollRun("2025-05", { employees: [{ employee: "Ahmad Razak", allowances: 200 }] });
+      assert.strictEqual(run.status, "draft");
+      assert.strictEqual(run.date, "2025-05-31");
+      assert.deepStrictEqual(
+        run.lines!.map((l: { employee_name: string; gross: number; epf_employee: number; pcb: number; net: number }) =>
+          [l.employee_name, l.gross, l.epf_employee, l.pcb, l.net]),
+        [["Ahmad Razak", 3200, 0, 0, 3200], ["Siti Aminah", 5000, 550, 70, 4345.35]]
+      );
+      assert.throws(() => createPayrollRun("2025-05"), /Payroll for 2025-05 already exists/);
+
+      const posted = postPayrollRun("2025-05");
+      assert.strictEqual(posted.status, "posted");
+      assert.strictEqual(balance("6400"), 8200);
+      assert.strictEqual(balance("2210"), 7545.35);
+      assert.strictEqual(balance("2220"), 1328);
+      assert.strictEqual(balance("2250"), 70);
+      assert.deepStrictEqual(
+        posted.remittances!.map((r: { scheme: string; amount: number; due_date: string }) => [r.scheme, r.amount, r.due_date]),
+        [["epf", 1328, "2025-06-15"], ["socso", 150.8, "2025-06-15"], ["eis", 19.8, "2025-06-15"], ["pcb", 70, "2025-06-15"]]
+      );
+      assert.match(deletePayrollRun("2025-05").error!, /has been posted and cannot be deleted/);
+    });
+
+    it("should pay salaries and track each statutory remittance", async () => {
+      const { payPayrollRun, remitStatutory, listStatutoryRemittances } = await import("../dist/domain/payroll.js");
+      const { getAccountByCode, getAccountBalance } = await import("../dist/domain/accounts.js");
+
+      const paid = payPayrollRun("2025-05", { date: "2025-05-31" });
+      assert.strictEqual(paid.status, "paid");
+      assert.strictEqual(getAccountBalance(getAccountByCode("2210")!.id), 0);
+      assert.throws(() => payPayrollRun("2025-05"), /already been paid/);
+
+      const epf = remitStatutory("2025-05", "epf", { date: "2025-06-10", reference: "KWSP-0525" });
+      assert.strictEqual(epf.paid_date, "2025-06-10");
+      assert.strictEqual(getAccountBalance(getAccountByCode("2220")!.id), 0);
+      assert.throws(() => remitStatutory("2025-05", "epf"), /EPF for 2025-05 was remitted on 2025-06-10/);
+
+      const overdue = listStatutoryRemittances({ status: "overdue", as_of: "2025-06-20" });
+      assert.deepStrictEqual(overdue.map((r: { scheme: string; days_left: number }) => [r.scheme, r.days_left]), [["socso", -5], ["eis", -5], ["pcb", -5]]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-periods-test-" + Date.now();
+
+describe("Fiscal Periods", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("ensureFiscalPeriods", () => {
+    it("should create twelve monthly periods", async () => {
+      const { ensureFiscalPeriods } = await import("../dist/domain/periods.js");
+
+      const periods = ensureFiscalPeriods(2023);
+      assert.strictEqual(periods.length, 12);
+      assert.strictEqual(periods[0].start_date, "2023-01-01");
+      assert.strictEqual(periods[1].end_date, "2023-02-28");
+      assert.strictEqual(periods[11].end_date, "2023-12-31");
+      assert.ok(periods.every((p: { status: string }) => p.status === "open"));
+    });
+  });
+
+  describe("closeFiscalYear", () => {
+    it("should zero income and expenses into retained earnings", async () => {
+      const { closeFiscalYear } = await import("../dist/domain/periods.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { recordExpense } = await import("../dist/domain/payments.js");
+      const { getJournalEntry, getTrialBalance } = await import("../dist/domain/journal.js");
+      const { getProfitLoss } = await import("../dist/domain/reports.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const customer = createCustomer({ name: "Year End Client" });
+      const june = createInvoice({
+        customer_id: customer.id,
+        date: "2022-06-15",
+        tax_rate: 0,
+        items: [{ description: "Project", unit_price: 1000 }],
+      });
+      issueInvoice(june.id);
+      recordExpense({ date: "2022-07-01", amount: 300, category: "Rent", description: "July rent" });
+
+      const result = closeFiscalYear(2022);
+      assert.strictEqual(result.net_income, 700);
+      assert.strictEqual(result.lock_date, "2022-12-31");
+
+      const entry = getJournalEntry(result.journal_entry_id);
+      assert.strictEqual(entry?.entry_type, "closing");
+      assert.strictEqual(entry?.date, "2022-12-31");
+
+      const retained = getAccountByCode("3100")!;
+      const reLine = entry!.lines.find((l: { account_id: number }) => l.account_id === retained.id);
+      assert.strictEqual(reLine?.credit, 700);
+
+      const balances = getTrialBalance("2022-12-31");
+      const pnlAccounts = balances.filter(
+        (b: { account_type: string }) => b.account_type === "income" || b.account_type === "expense"
+      );
+      assert.ok(
+        pnlAccounts.every((b: { debit_balance: number; credit_balance: number }) => b.debit_balance === 0 && b.credit_balance === 0),
+        "Income and expense accounts should be zero after closing"
+      );
+
+      const pl = getProfitLoss("2022-01-01", "2022-12-31");
+      assert.strictEqual(pl.net_income, 700, "P&L should still show the closed year's results");
+
+      assert.throws(() => closeFiscalYear(2022), /already has a closing entry/);
+    });
+  });
+
+  describe("closePeriod", () => {
+    it("should refuse postings and changes on or before the lock date", async () => {
+      const { closePeriod, listFiscalPeriods } = await import("../dist/domain/periods.js");
+      const { createInvoice, issueInvoice, deleteInvoice, getInvoice, updateDraftInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { recordPayment } = await import("../dist/domain/payments.js");
+      const { getJournalEntry, unlockJournalEntry } = await import("../dist/domain/journal.js");
+
+      const customer = createCustomer({ name: "Locked Client" });
+      const march = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2023-03-10",
+        items: [{ description: "March work", unit_price: 400 }],
+      }).id);
+      const draft = createInvoice({
+        customer_id: customer.id,
+        date: "2023-04-20",
+        items: [{ description: "Not yet issued", unit_price: 40 }],
+      });
+
+      const result = closePeriod("2023-03-31");
+      assert.strictEqual(result.lock_date, "2023-03-31");
+      assert.ok(result.entries_locked >= 1);
+      assert.strictEqual(getJournalEntry(march.journal_entry_id)?.is_locked, 1);
+      assert.ok(
+        listFiscalPeriods(2023)
+          .filter((p: { end_date: string }) => p.end_date <= "2023-03-31")
+          .every((p: { status: string }) => p.status === "closed")
+      );
+
+      assert.throws(
+        () => createInvoice({ customer_id: customer.id, date: "2023-03-15", items: [{ description: "Late", unit_price: 10 }] }),
+        /locked through 2023-03-31/
+      );
+      assert.throws(
+        () => recordPayment({ amount: 50, date: "2023-03-20", customer_id: customer.id }),
+        /locked through 2023-03-31/
+      );
+      assert.throws(() => unlockJournalEntry(march.journal_entry_id), /locked through/);
+      assert.throws(() => updateDraftInvoice(draft.id, { date: "2023-03-31" }), /locked through 2023-03-31/);
+
+      const deleted = deleteInvoice(march.id);
+      assert.strictEqual(deleted.success, false);
+      assert.ok(getInvoice(march.id), "Invoice in a closed period should not be deleted");
+
+      const april = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2023-04-02",
+        items: [{ description: "April work", unit_price: 100 }],
+      }).id);
+      assert.ok(april.journal_entry_id, "Postings after the lock date are allowed");
+
+      assert.throws(() => closePeriod("2023-02-28"), /already locked through 2023-03-31/);
+    });
+
+    it("should require a reason to reopen", async () => {
+      const { reopenPeriod, listFiscalPeriods } = await import("../dist/domain/periods.js");
+      const { getLockDate } = await import("../dist/domain/journal.js");
+
+      assert.throws(() => reopenPeriod("2023-03-01", ""), /reason is required/);
+
+      const result = reopenPeriod("2023-03-01", "Missed supplier invoice");
+      assert.strictEqual(result.lock_date, "2023-02-28");
+      assert.strictEqual(getLockDate(), "2023-02-28");
+
+      const march = listFiscalPeriods(2023).find((p: { name: string }) => p.name === "2023-03");
+      assert.strictEqual(march?.status, "open");
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-purchase-orders-test-" + Date.now();
+
+describe("Purchase Orders", () => {
+  let vendorId: number;
+
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    const { createVendor } = await import("../dist/domain/vendors.js");
+    const { createItem } = await import("../dist/domain/items.js");
+    vendorId = createVendor({ name: "Pembekal Jaya" }).id;
+    createItem({ sku: "RICE10", name: "Beras 10kg", type: "inventory", unit_price: 45, purchase_price: 20 });
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const balance = async (code: string) => {
+    const { getAccountBalance, getAccountByCode } = await import("../dist/domain/accounts.js");
+    return getAccountBalance(getAccountByCode(code)!.id);
+  };
+
+  describe("createPurchaseOrder", () => {
+    it("should number orders, fill lines from the catalog and post nothing", async () => {
+      const { createPurchaseOrder, getVendorCommitments } = await import("../dist/domain/purchase-orders.js");
+
+      const order = createPurchaseOrder({
+        vendor_id: vendorId,
+        date: "2025-05-01",
+        expected_date: "2025-05-10",
+        items: [
+          { item: "RICE10", quantity: 50 },
+          { description: "Delivery", unit_price: 100, account: "5000", tax_code: "SV8" },
+        ],
+      });
+
+      assert.strictEqual(order.number, "PO-0001");
+      assert.strictEqual(order.status, "open");
+      assert.strictEqual(order.items![0].description, "Beras 10kg");
+      assert.strictEqual(order.items![0].amount, 1000);
+      assert.strictEqual(order.tax_amount, 8);
+      assert.strictEqual(order.total, 1108);
+      assert.strictEqual(await balance("2000"), 0);
+      assert.deepStrictEqual(getVendorCommitments(vendorId).total, 1108);
+
+      assert.throws(
+        () => createPurchaseOrder({ vendor_id: vendorId, date: "2025-05-01", expected_date: "2025-04-30", items: [{ item: "RICE10" }] }),
+        /Expected date cannot be before order date/
+      );
+    });
+  });
+
+  describe("three-way matching", () => {
+    it("should bill what was received and match it against the order", async () => {
+      const { receivePurchaseOrder, convertPurchaseOrderToBill, getPurchaseOrder } = await import("../dist/domain/purchase-orders.js");
+      const { approveBill } = await import("../dist/domain/bills.js");
+      const { getItem } = await import("../dist/domain/items.js");
+
+      const received = receivePurchaseOrder("PO-0001", [{ line: 1, quantity: 30 }, { line: 2, quantity: 1 }]);
+      assert.strictEqual(received.status, "partial");
+      assert.throws(() => receivePurchaseOrder("PO-0001", [{ line: 1, quantity: 21 }]), /only 20 outstanding/);
+
+      const { bill, match, purchase_order } = convertPurchaseOrderToBill("PO-0001", { date: "2025-05-12" });
+      assert.deepStrictEqual(bill.items!.map((i: { quantity: number }) => i.quantity), [30, 1]);
+      assert.strictEqual(bill.purchase_order_number, "PO-0001");
+      assert.deepStrictEqual(match.exceptions, []);
+      assert.strictEqual(purchase_order.committed, 400);
+
+      approveBill(bill.id);
+      assert.strictEqual(getItem("RICE10")!.quantity_on_hand, 30);
+      assert.strictEqual(await balance("1400"), 600);
+      assert.strictEqual(getPurchaseOrder("PO-0001")!.status, "partial");
+    });
+
+    it("should flag prices and quantities beyond the tolerance", async () => {
+      const { convertPurchaseOrderToBill, matchBill, listMatchExceptions, cancelPurchaseOrder, getPurchaseOrder } =
+        await import("../dist/domain/purchase-orders.js");
+      const { setSetting } = await import("../dist/db/index.js");
+
+      // 20 outstanding, none of it received yet, billed at 22 against 20 ordered
+      const { bill, match } = convertPurchaseOrderToBill("PO-0001", { date: "2025-05-20", lines: [{ line: 1, quantity: 20, unit_price: 22 }] });
+      assert.deepStrictEqual(match.exceptions.map((e: { kind: string }) => e.kind), ["price", "not_received"]);
+      assert.match(match.exceptions[0].message, /billed at 22\.00, ordered at 20\.00/);
+
+      setSetting("po_price_tolerance", "10");
+      assert.deepStrictEqual(matchBill(bill.id).exceptions.map((e: { kind: string }) => e.kind), ["not_received"]);
+      assert.deepStrictEqual(listMatchExceptions().map((m: { bill_id: number }) => m.bill_id), [bill.id]);
+
+      assert.strictEqual(getPurchaseOrder("PO-0001")!.status, "closed", "Every line is fully billed");
+      assert.deepStrictEqual(cancelPurchaseOrder("PO-0001"), { success: false, error: "Purchase order PO-0001 has been billed; close it instead" });
+    });
+  });
+
+  describe("convertPurchaseOrderToExpense", () => {
+    it("should pay an order as expenses and close it", async () => {
+      const { createPurchaseOrder, convertPurchaseOrderToExpense, getVendorCommitments } = await import("../dist/domain/purchase-orders.js");
+      const { getPurchaseOrderData } = await import("../dist/services/pdf.js");
+
+      const stock = createPurchaseOrder({ vendor_id: vendorId, items: [{ item: "RICE10", quantity: 5 }] });
+      assert.throws(() => convertPurchaseOrderToExpense(stock.number), /must be billed/);
+
+      const order = createPurchaseOrder({
+        vendor_id: vendorId,
+        date: "2025-06-01",
+        items: [
+          { description: "Printer toner", quantity: 2, unit_price: 150, account: "5000" },
+          { description: "Paper", quantity: 10, unit_price: 12, account: "5000" },
+        ],
+      });
+      assert.strictEqual(getPurchaseOrderData(order.id)!.due_date, "", "No expected date is left off the PDF");
+
+      const { purchase_order, payments } = convertPurchaseOrderToExpense(order.number, { date: "2025-06-02" });
+      assert.strictEqual(payments.length, 1);
+      assert.strictEqual(payments[0].amount, 420);
+      assert.strictEqual(purchase_order.status, "closed");
+      assert.ok(!getVendorCommitments(vendorId).orders.some((o: { id: number }) => o.id === order.id));
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-quotes-test-" + Date.now();
+
+describe("Quotes", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("createQuote", () => {
+    it("should number quotes separately and not post to the ledger", async () => {
+      const { createQuote } = await import("../dist/domain/quotes.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { getDb } = await import("../dist/db/index.js");
+
+      const customer = createCustomer({ name: "Quote Client" });
+      const entriesBefore = (getDb().prepare("SELECT COUNT(*) as count FROM journal_entries").get() as { count: number }).count;
+
+      const quote = createQuote({
+        customer_id: customer.id,
+        date: "2099-01-10",
+        tax_rate: 6,
+        items: [
+          { description: "Design", quantity: 2, unit_price: 500, classification_code: "022", tax_type: "02" },
+          { description: "Hosting", unit_price: 120 },
+        ],
+      });
+
+      assert.strictEqual(quote.number, "QT-0001");
+      assert.strictEqual(quote.status, "draft");
+      assert.strictEqual(quote.expiry_date, "2099-02-09", "Valid for 30 days by default");
+      assert.strictEqual(quote.subtotal, 1120);
+      assert.strictEqual(quote.total, 1187.2);
+
+      const entriesAfter = (getDb().prepare("SELECT COUNT(*) as count FROM journal_entries").get() as { count: number }).count;
+      assert.strictEqual(entriesAfter, entriesBefore);
+    });
+  });
+
+  describe("convertQuoteToInvoice", () => {
+    it("should carry items, classification codes and tax types onto the invoice", async () => {
+      const { getQuote, updateQuoteStatus, convertQuoteToInvoice, deleteQuote } = await import("../dist/domain/quotes.js");
+
+      updateQuoteStatus("QT-0001", "sent");
+      const { quote, invoice } = convertQuoteToInvoice("QT-0001", { date: "2099-01-20" });
+
+      assert.strictEqual(quote.status, "accepted");
+      assert.strictEqual(quote.invoice_id, invoice.id);
+      assert.strictEqual(invoice.status, "draft");
+      assert.ok(!invoice.journal_entry_id, "The invoice is a draft until issued");
+      assert.strictEqual(invoice.total, 1187.2);
+      assert.strictEqual(invoice.items?.[0].classification_code, "022");
+      assert.strictEqual(invoice.items?.[0].tax_type, "02");
+      assert.strictEqual(invoice.items?.[1].classification_code, "002");
+
+      assert.throws(() => convertQuoteToInvoice("QT-0001"), /already been converted/);
+      assert.strictEqual(deleteQuote("QT-0001").success, false);
+      assert.strictEqual(getQuote("QT-0001")?.invoice_number, invoice.number);
+    });
+
+    it("should expire old quotes and refuse to convert them", async () => {
+      const { createQuote, listQuotes, convertQuoteToInvoice, updateQuoteStatus } = await import("../dist/domain/quotes.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+
+      const customer = getCustomer("Quote Client")!;
+      const stale = createQuote({ customer_id: customer.id, date: "2020-01-01", items: [{ description: "Old offer", unit_price: 50 }] });
+      const declined = createQuote({ customer_id: customer.id, date: "2099-03-01", items: [{ description: "Rejected", unit_price: 75 }] });
+
+      const expired = listQuotes({ status: "expired" });
+      assert.deepStrictEqual(expired.map((q: { id: number }) => q.id), [stale.id]);
+      assert.throws(() => convertQuoteToInvoice(stale.id), /expired on 2020-01-31/);
+
+      updateQuoteStatus(declined.id, "declined");
+      assert.throws(() => convertQuoteToInvoice(declined.id, { date: "2099-03-02" }), /declined/);
+    });
+  });
+
+  describe("generateQuotePDF", () => {
+    it("should render a quotation PDF", async () => {
+      const { generateQuotePDF } = await import("../dist/services/pdf.js");
+      const { getQuote } = await import("../dist/domain/quotes.js");
+
+      const pdf = await generateQuotePDF(getQuote("QT-0001")!.id);
+      assert.strictEqual(pdf.subarray(0, 4).toString(), "%PDF");
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-recurring-test-" + Date.now();
+
+describe("Recurring Schedules", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("getOccurrenceDate", () => {
+    it("should clamp month-end anchors without drifting", async () => {
+      const { getOccurrenceDate } = await import("../dist/domain/recurring.js");
+
+      assert.strictEqual(getOccurrenceDate("2024-01-31", "monthly", 1, 1), "2024-02-29");
+      assert.strictEqual(getOccurrenceDate("2024-01-31", "monthly", 1, 2), "2024-03-31");
+      assert.strictEqual(getOccurrenceDate("2024-11-15", "quarterly", 1, 1), "2025-02-15");
+      assert.strictEqual(getOccurrenceDate("2024-12-30", "weekly", 2, 1), "2025-01-13");
+      assert.strictEqual(getOccurrenceDate("2024-02-29", "yearly", 1, 1), "2025-02-28");
+    });
+  });
+
+  describe("runRecurringSchedules", () => {
+    it("should catch up missed monthly invoices", async () => {
+      const { createRecurringSchedule, runRecurringSchedules, getRecurringSchedule, getRecurringRuns } =
+        await import("../dist/domain/recurring.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { getInvoice } = await import("../dist/domain/invoices.js");
+
+      const customer = createCustomer({ name: "Retainer Client" });
+      const schedule = createRecurringSchedule({
+        name: "Monthly retainer",
+        type: "invoice",
+        frequency: "monthly",
+        anchor_date: "2024-01-05",
+        template: {
+          customer_id: customer.id,
+          items: [{ description: "Retainer", unit_price: 2000 }],
+          auto_send: true,
+        },
+      });
+      assert.strictEqual(schedule.next_run_date, "2024-01-05");
+
+      const summary = runRecurringSchedules({ asOfDate: "2024-03-10" });
+      const mine = summary.generated.filter((g: { schedule_id: number }) => g.schedule_id === schedule.id);
+      assert.deepStrictEqual(
+        mine.map((g: { date: string }) => g.date),
+        ["2024-01-05", "2024-02-05", "2024-03-05"]
+      );
+      assert.strictEqual(summary.errors.length, 0);
+
+      const invoice = getInvoice(mine[1].entity_id);
+      assert.strictEqual(invoice?.date, "2024-02-05");
+      assert.strictEqual(invoice?.total, 2000);
+      assert.strictEqual(invoice?.status, "sent");
+
+      const updated = getRecurringSchedule(schedule.id);
+      assert.strictEqual(updated?.occurrences_count, 3);
+      assert.strictEqual(updated?.next_run_date, "2024-04-05");
+      assert.strictEqual(getRecurringRuns(schedule.id).length, 3);
+
+      // Running again for the same date generates nothing new
+      const again = runRecurringSchedules({ asOfDate: "2024-03-10" });
+      assert.strictEqual(
+        again.generated.filter((g: { schedule_id: number }) => g.schedule_id === schedule.id).length,
+        0
+      );
+    });
+
+    it("should repeat an invoice with its line accounts, tax codes, discounts and tracking", async () => {
+      const { createRecurringScheduleFromInvoice, runRecurringSchedules } = await import("../dist/domain/recurring.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { createInvoice, issueInvoice, getInvoice } = await import("../dist/domain/invoices.js");
+      const { createTrackingDimension, createTrackingValue } = await import("../dist/domain/tracking.js");
+
+      createTrackingDimension("Project");
+      const project = createTrackingValue("Project", "Website");
+      const customer = createCustomer({ name: "Hosting Client" });
+      const source = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2024-05-15",
+        items: [{ description: "Hosting", unit_price: 1000, account_code: "4100", tax_code: "SV8", discount: 10, tracking: [project.id] }],
+      }).id);
+      assert.strictEqual(source.total, 1069.2);
+
+      const schedule = createRecurringScheduleFromInvoice(source.id, { frequency: "monthly", max_occurrences: 1 });
+      const [generated] = runRecurringSchedules({ asOfDate: "2024-06-30" }).generated
+        .filter((g: { schedule_id: number }) => g.schedule_id === schedule.id);
+      const invoice = getInvoice(generated.entity_id)!;
+      assert.strictEqual(invoice.date, "2024-06-15");
+      assert.strictEqual(invoice.total, source.total);
+      const line = invoice.items![0];
+      assert.strictEqual(line.account_code, "4100");
+      assert.strictEqual(line.tax_code, "SV8");
+      assert.strictEqual(line.tax_amount, 79.2);
+      assert.strictEqual(line.discount_amount, 10);
+      assert.deepStrictEqual(line.tracking?.map((t: { value_id: number }) => t.value_id), [project.id]);
+    });
+
+    it("should generate recurring expenses and stop at max occurrences", async () => {
+      const { createRecurringSchedule, runRecurringSchedules, getRecurringSchedule } =
+        await import("../dist/domain/recurring.js");
+      const { getExpense } = await import("../dist/domain/expenses.js");
+
+      const schedule = createRecurringSchedule({
+        name: "Office rent",
+        type: "expense",
+        frequency: "monthly",
+        anchor_date: "2024-01-01",
+        max_occurrences: 2,
+        template: { amount: 900, category: "Rent", description: "Office rent" },
+      });
+
+      const summary = runRecurringSchedules({ asOfDate: "2024-06-30", scheduleId: schedule.id });
+      assert.strictEqual(summary.generated.length, 2);
+
+      const expense = getExpense(summary.generated[0].entity_id);
+      assert.strictEqual(expense?.amount, 900);
+      assert.strictEqual(expense?.is_recurring, 1);
+
+      const updated = getRecurringSchedule(schedule.id);
+      assert.strictEqual(updated?.status, "completed");
+      assert.strictEqual(updated?.next_run_date, null);
+    });
+  });
+
+  describe("pause and preview", () => {
+    it("should skip paused schedules and preview upcoming dates", async () => {
+      const {
+        createRecurringSchedule,
+        pauseRecurringSchedule,
+        resumeRecurringSchedule,
+        previewRecurringSchedule,
+        runRecurringSchedules,
+      } = await import("../dist/domain/recurring.js");
+
+      const schedule = createRecurringSchedule({
+        name: "Software",
+        type: "expense",
+        frequency: "quarterly",
+        anchor_date: "2024-01-15",
+        end_date: "2024-12-31",
+        template: { amount: 120, category: "5700", description: "SaaS licence" },
+      });
+
+      assert.deepStrictEqual(previewRecurringSchedule(schedule.id, 6), [
+        "2024-01-15",
+        "2024-04-15",
+        "2024-07-15",
+        "2024-10-15",
+      ]);
+
+      pauseRecurringSchedule(schedule.id);
+      const summary = runRecurringSchedules({ asOfDate: "2024-05-01" });
+      assert.strictEqual(
+        summary.generated.filter((g: { schedule_id: number }) => g.schedule_id === schedule.id).length,
+        0,
+        "Paused schedule should not run"
+      );
+
+      const resumed = resumeRecurringSchedule(schedule.id, { asOfDate: "2024-05-01" });
+      assert.strictEqual(resumed.status, "active");
+      assert.strictEqual(resumed.next_run_date, "2024-07-15", "Missed occurrences are skipped on resume");
+    });
+  });
+});
@@ -99,7 +99,7 @@ describe("Reports Domain", () => {
 
     it("should filter by date range", async () => {
       const { getProfitLoss } = await import("../dist/domain/reports.js");
-      const { createInvoice } = await import("../dist/domain/invoices.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
       const { createCustomer } = await import("../dist/domain/customers.js");
 
       // Get baseline revenue before adding new invoice
@@ -111,13 +111,14 @@ describe("Reports Domain", () => {
         email: `pltest${Date.now()}@example.com`,
       });
 
-      // Create invoice in specific date range (revenue is recognized when invoice is created)
-      createInvoice({
+      // Create invoice in specific date range (revenue is recognized when invoice is issued)
+      const invoice = createInvoice({
         customer_id: customer.id,
         date: "2025-06-15",
         due_date: "2025-07-15",
         items: [{ description: "Test Service", quantity: 1, unit_price: 1000, amount: 1000 }],
       });
+      issueInvoice(invoice.id);
 
       const reportAfterInvoice = getProfitLoss("2025-06-01", "2025-06-30");
 
@@ -172,7 +173,7 @@ describe("Reports Domain", () => {
 
     it("should include days_overdue for overdue invoices", async () => {
       const { getReceivablesAging } = await import("../dist/domain/reports.js");
-      const { createInvoice } = await import("../dist/domain/invoices.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
       const { createCustomer } = await import("../dist/domain/customers.js");
 
       const customer = createCustomer({
@@ -184,12 +185,13 @@ describe("Reports Domain", () => {
       const pastDate = new Date();
       pastDate.setDate(pastDate.getDate() - 15);
 
-      createInvoice({
+      const invoice = createInvoice({
         customer_id: customer.id,
         date: "2024-01-01",
         due_date: pastDate.toISOString().split("T")[0],
         items: [{ description: "Overdue item", quantity: 1, unit_price: 500 }],
       });
+      issueInvoice(invoice.id);
 
       const report = getReceivablesAging();
 
@@ -0,0 +1,91 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-statements-test-" + Date.now();
+
+describe("Customer statements", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    const { createInvoice, issueInvoice, createCreditNote } = await import("../dist/domain/invoices.js");
+    const { recordPayment } = await import("../dist/domain/payments.js");
+    const { createCustomer } = await import("../dist/domain/customers.js");
+    const { writeOffInvoice } = await import("../dist/domain/bad-debts.js");
+
+    const customer = createCustomer({ name: "Statement Trading", email: "ap@statement.test" });
+    const invoice = (date: string, due_date: string, unit_price: number) =>
+      issueInvoice(createInvoice({ customer_id: customer.id, date, due_date, items: [{ description: "Work", unit_price }] }).id);
+
+    // Before the period
+    const first = invoice("2025-01-10", "2025-02-09", 1000);
+    recordPayment({ invoice_id: first.id, amount: 400, date: "2025-01-20" });
+    const doubtful = invoice("2025-02-01", "2025-02-01", 300);
+
+    // During the period
+    const second = invoice("2025-03-05", "2025-04-04", 500);
+    createCreditNote({ original_invoice_id: second.id, date: "2025-03-10", reason: "Short delivery", items: [{ description: "Short delivery", unit_price: 100 }] });
+    writeOffInvoice(doubtful.id, { reason: "Customer disappeared", date: "2025-04-15" });
+    recordPayment({ customer_id: customer.id, amount: 50, date: "2025-04-20", reference: "TT-0420" });
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("getCustomerStatement", () => {
+    it("should carry an opening balance and run the balance through each line", async () => {
+      const { getCustomerStatement } = await import("../dist/domain/statements.js");
+
+      const statement = getCustomerStatement("Statement Trading", { from_date: "2025-03-01", to_date: "2025-04-30" });
+      assert.strictEqual(statement.opening_balance, 900);
+      assert.deepStrictEqual(
+        statement.lines.map((l) => [l.type, l.debit, l.credit, l.balance]),
+        [
+          ["invoice", 500, 0, 1400],
+          ["credit_note", 0, 100, 1300],
+          ["write_off", 0, 300, 1000],
+          ["payment", 0, 50, 950],
+        ]
+      );
+      assert.strictEqual(statement.lines[3].reference, "TT-0420");
+      assert.strictEqual(statement.total_debits, 500);
+      assert.strictEqual(statement.total_credits, 450);
+      assert.strictEqual(statement.closing_balance, 950);
+    });
+
+    it("should age open invoices and show unapplied credit", async () => {
+      const { getCustomerStatement } = await import("../dist/domain/statements.js");
+
+      const { aging } = getCustomerStatement("Statement Trading", { from_date: "2025-03-01", to_date: "2025-04-30" });
+      assert.strictEqual(aging.days_61_90, 600);
+      assert.strictEqual(aging.days_1_30, 500);
+      assert.strictEqual(aging.current, 0);
+      // Credit note and payment on account not yet set against an invoice
+      assert.strictEqual(aging.unapplied_credits, 150);
+      assert.strictEqual(aging.total, 950);
+    });
+
+    it("should reject unknown customers and reversed date ranges", async () => {
+      const { getCustomerStatement } = await import("../dist/domain/statements.js");
+
+      assert.throws(() => getCustomerStatement("Nobody Ltd"), /Customer not found/);
+      assert.throws(
+        () => getCustomerStatement("Statement Trading", { from_date: "2025-05-01", to_date: "2025-04-30" }),
+        /start date must be on or before/
+      );
+    });
+  });
+
+  describe("generateStatementPDF", () => {
+    it("should render a statement PDF", async () => {
+      const { generateStatementPDF } = await import("../dist/services/pdf.js");
+
+      const pdf = await generateStatementPDF("Statement Trading", { from_date: "2025-03-01", to_date: "2025-04-30" });
+      assert.strictEqual(pdf.subarray(0, 4).toString(), "%PDF");
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-tax-codes-test-" + Date.now();
+
+describe("Tax Codes", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("invoice lines", () => {
+    it("should post each line to its income account and tax code account", async () => {
+      const { createTaxCode, getTaxCode } = await import("../dist/domain/tax-codes.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { createAccount } = await import("../dist/domain/accounts.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+
+      assert.strictEqual(getTaxCode("sv8")?.rate, 8);
+      createAccount({ code: "2310", name: "Service Tax Payable", type: "liability" });
+      createTaxCode({ code: "SVX", name: "Service Tax 8% (separate)", rate: 8, tax_type: "02", sst_category: "service", account_code: "2310" });
+
+      const customer = createCustomer({ name: "Line Tax Client" });
+      const draft = createInvoice({
+        customer_id: customer.id,
+        date: "2024-07-10",
+        items: [
+          { description: "Widgets", quantity: 10, unit_price: 50, tax_code: "ST10" },
+          { description: "Installation", unit_price: 300, account_code: "4100", tax_code: "SVX" },
+          { description: "Delivery", unit_price: 20, tax_code: "STE" },
+        ],
+      });
+
+      assert.strictEqual(draft.subtotal, 820);
+      assert.strictEqual(draft.tax_amount, 74);
+      assert.strictEqual(draft.total, 894);
+      assert.strictEqual(draft.items?.[1].account_code, "4100");
+      assert.strictEqual(draft.items?.[0].tax_type, "01", "LHDN tax type comes from the tax code");
+      assert.strictEqual(draft.items?.[1].tax_type, "02");
+
+      const invoice = issueInvoice(draft.id);
+      const entry = getJournalEntry(invoice.journal_entry_id)!;
+      const credit = (code: string) =>
+        entry.lines
+          .filter((l: { account?: { code: string } }) => l.account?.code === code)
+          .reduce((sum: number, l: { credit: number }) => sum + l.credit, 0);
+
+      assert.strictEqual(credit("4000"), 520);
+      assert.strictEqual(credit("4100"), 300);
+      assert.strictEqual(credit("2300"), 50);
+      assert.strictEqual(credit("2310"), 24);
+    });
+
+    it("should apply line and invoice discounts before tax", async () => {
+      const { createInvoice, updateDraftInvoice } = await import("../dist/domain/invoices.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+
+      const customer = getCustomer("Line Tax Client")!;
+      const invoice = createInvoice({
+        customer_id: customer.id,
+        date: "2024-07-12",
+        discount: 100,
+        items: [
+          { description: "Consulting", quantity: 4, unit_price: 200, discount_percent: 25, tax_code: "SV8" },
+          { description: "Licence", unit_price: 400, tax_code: "NT" },
+        ],
+      });
+
+      assert.strictEqual(invoice.items?.[0].discount_amount, 200);
+      assert.strictEqual(invoice.items?.[0].amount, 600);
+      assert.strictEqual(invoice.subtotal, 1000);
+      assert.strictEqual(invoice.discount_amount, 100);
+      // The invoice discount is spread 60/40 over the lines
+      assert.strictEqual(invoice.items?.[0].taxable_amount, 540);
+      assert.strictEqual(invoice.items?.[1].taxable_amount, 360);
+      assert.strictEqual(invoice.tax_amount, 43.2);
+      assert.strictEqual(invoice.total, 943.2);
+
+      const edited = updateDraftInvoice(invoice.id, { discount_percent: 0 });
+      assert.strictEqual(edited.total, 1048);
+      assert.strictEqual(edited.items?.[0].discount_amount, 200, "Line discounts are kept");
+
+      assert.throws(
+        () => createInvoice({ customer_id: customer.id, items: [{ description: "Free", unit_price: 10, discount: 20 }] }),
+        /more than its amount/
+      );
+      assert.throws(
+        () => createInvoice({ customer_id: customer.id, items: [{ description: "Bad", unit_price: 10, account_code: "1100" }] }),
+        /not an income account/
+      );
+    });
+  });
+
+  describe("getSSTReturn", () => {
+    it("should split sales and service tax by the lines' tax codes", async () => {
+      const { getSSTReturn } = await import("../dist/domain/reports.js");
+      const { listInvoices, createCreditNote } = await import("../dist/domain/invoices.js");
+
+      const issued = listInvoices({ status: "sent" }).find((i: { date: string }) => i.date === "2024-07-10")!;
+      createCreditNote({
+        original_invoice_id: issued.id,
+        date: "2024-07-20",
+        reason: "Returned widgets",
+        items: [{ description: "Widgets", quantity: 2, unit_price: 50, tax_code: "ST10" }],
+      });
+
+      const report = getSSTReturn("2024-07-01", "2024-07-31");
+      assert.deepStrictEqual(report.sales_tax.by_rate, [{ rate: 10, taxable: 400, tax: 40 }], "Credit notes reduce taxable sales");
+      assert.strictEqual(report.sales_tax.exempt_sales, 20);
+      assert.strictEqual(report.service_tax.taxable_services, 300);
+      assert.strictEqual(report.service_tax.tax_output, 24);
+      assert.strictEqual(report.summary.total_tax_payable, 64);
+      assert.ok(!report.transactions.some((t: { invoice_number: string }) => t.invoice_number.startsWith("DRAFT-")));
+    });
+
+    it("should report each service tax rate charged in the period", async () => {
+      const { getSSTReturn } = await import("../dist/domain/reports.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+
+      const customer = getCustomer("Line Tax Client")!;
+      for (const date of ["2024-02-20", "2024-03-05"]) {
+        const draft = createInvoice({ customer_id: customer.id, date, items: [{ description: "Support", unit_price: 1000, tax_code: "SV" }] });
+        issueInvoice(draft.id);
+      }
+
+      const report = getSSTReturn("2024-02-01", "2024-03-31");
+      assert.deepStrictEqual(report.service_tax.by_rate, [
+        { rate: 6, taxable: 1000, tax: 60 },
+        { rate: 8, taxable: 1000, tax: 80 },
+      ]);
+      assert.strictEqual(report.service_tax.tax_output, 140);
+    });
+
+    it("should report the SST part of a combined tax code", async () => {
+      const { getSSTReturn } = await import("../dist/domain/reports.js");
+      const { createTaxCode } = await import("../dist/domain/tax-codes.js");
+      const { createInvoice, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+
+      createTaxCode({ code: "TOUR", name: "Tourism levy", rate: 2, effective_from: "2024-01-01" });
+      const customer = getCustomer("Line Tax Client")!;
+      const invoice = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2024-11-12",
+        items: [{ description: "Hotel stay", unit_price: 1000, tax_code: "SV8+TOUR" }],
+      }).id);
+      assert.strictEqual(invoice.tax_amount, 100);
+
+      const report = getSSTReturn("2024-11-01", "2024-11-30");
+      assert.deepStrictEqual(report.service_tax.by_rate, [{ rate: 8, taxable: 1000, tax: 80 }]);
+      assert.strictEqual(report.summary.total_tax_payable, 80, "The levy is not SST");
+    });
+  });
+
+  describe("rates and dates", () => {
+    it("should tax each document at the rate in force on its date", async () => {
+      const { getTaxRate, getTaxCodeRates } = await import("../dist/domain/tax-codes.js");
+      const { createInvoice, createCreditNote, issueInvoice } = await import("../dist/domain/invoices.js");
+      const { getCustomer } = await import("../dist/domain/customers.js");
+
+      assert.strictEqual(getTaxRate("SV", "2024-02-29"), 6);
+      assert.strictEqual(getTaxRate("SV", "2024-03-01"), 8);
+      assert.strictEqual(getTaxCodeRates("SV").length, 2);
+
+      const customer = getCustomer("Line Tax Client")!;
+      const february = issueInvoice(createInvoice({
+        customer_id: customer.id,
+        date: "2024-02-10",
+        items: [{ description: "Maintenance", unit_price: 500, tax_code: "SV" }],
+      }).id);
+      assert.strictEqual(february.items?.[0].tax_rate, 6);
+      assert.strictEqual(february.tax_amount, 30);
+
+      // A credit raised after the change still reverses the original rate
+      const credit = createCreditNote({
+        original_invoice_id: february.id,
+        date: "2024-03-15",
+        reason: "Partial refund",
+        items: [{ description: "Maintenance", unit_price: 100, tax_code: "SV" }],
+      });
+      assert.strictEqual(credit.tax_amount, 6);
+    });
+
+    it("should keep rate history when a rate changes", async () => {
+      const { createTaxCode, setTaxRate, getTaxRate, getTaxCodeRates, requireTaxCode } = await import("../dist/domain/tax-codes.js");
+
+      createTaxCode({ code: "LVY", name: "Levy", rate: 4, tax_type: "06", effective_from: "2023-01-01" });
+      const updated = setTaxRate("LVY", 5, "2025-01-01");
+
+      assert.strictEqual(updated.rate, 5);
+      assert.strictEqual(getTaxRate("LVY", "2024-12-31"), 4);
+      assert.strictEqual(getTaxRate("LVY", "2025-01-01"), 5);
+      const history = getTaxCodeRates("LVY");
+      assert.deepStrictEqual(
+        history.map((r: { rate: number; effective_from: string; effective_to: string | null }) => [r.rate, r.effective_from, r.effective_to]),
+        [[4, "2023-01-01", "2024-12-31"], [5, "2025-01-01", null]]
+      );
+
+      assert.throws(() => setTaxRate("LVY", 6, "2024-06-01"), /already has a rate/);
+      assert.throws(() => requireTaxCode("LVY", "2022-12-31"), /cannot be used on 2022-12-31/);
+    });
+
+    it("should charge compound codes on top of the other taxes", async () => {
+      const { createTaxCode, calculateTax } = await import("../dist/domain/tax-codes.js");
+
+      createTaxCode({ code: "GST", name: "Goods and Services Tax", rate: 5 });
+      createTaxCode({ code: "PST", name: "Provincial Sales Tax", rate: 7, compound: true });
+
+      const exclusive = calculateTax(100, "gst+pst", "2024-07-01", { side: "sales" });
+      assert.strictEqual(exclusive.code, "GST+PST");
+      assert.deepStrictEqual(exclusive.parts.map((p: { amount: number }) => p.amount), [5, 7.35]);
+      assert.strictEqual(exclusive.tax, 12.35);
+
+      const inclusive = calculateTax(112.35, "GST+PST", "2024-07-01", { side: "sales", inclusive: true });
+      assert.strictEqual(inclusive.net, 100);
+      assert.strictEqual(inclusive.tax, 12.35);
+    });
+  });
+
+  describe("purchases", () => {
+    it("should hold recoverable tax on bills apart from the expense", async () => {
+      const { createTaxCode } = await import("../dist/domain/tax-codes.js");
+      const { createBill, approveBill } = await import("../dist/domain/bills.js");
+      const { createVendor } = await import("../dist/domain/vendors.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+
+      createTaxCode({ code: "TX6", name: "Input Tax 6%", rate: 6, recoverable: true });
+      const vendor = createVendor({ name: "Tax Supplier" });
+      const bill = createBill({
+        vendor_id: vendor.id,
+        date: "2024-07-05",
+        items: [
+          { description: "Stationery", unit_price: 100, account: "6100", tax_code: "TX6" },
+          { description: "Repairs", unit_price: 200, account: "6100", tax_code: "SV" },
+        ],
+      });
+
+      assert.strictEqual(bill.tax_amount, 22);
+      assert.strictEqual(bill.total, 322);
+      assert.strictEqual(bill.items?.[1].tax_rate, 8);
+
+      const approved = approveBill(bill.id);
+      const entry = getJournalEntry(approved.journal_entry_id!)!;
+      const debit = (code: string) =>
+        entry.lines
+          .filter((l: { account?: { code: string } }) => l.account?.code === code)
+          .reduce((sum: number, l: { debit: number }) => sum + l.debit, 0);
+
+      assert.strictEqual(debit("1450"), 6, "Recoverable tax goes to Input Tax Recoverable");
+      assert.strictEqual(debit("6100"), 316, "Service tax that can't be claimed is part of the cost");
+    });
+
+    it("should split recoverable tax out of a tax-inclusive expense", async () => {
+      const { recordExpense } = await import("../dist/domain/payments.js");
+      const { listExpenses } = await import("../dist/domain/expenses.js");
+      const { getJournalEntry } = await import("../dist/domain/journal.js");
+
+      const payment = recordExpense({ date: "2024-07-08", amount: 106, category: "6100", description: "Printer ink", tax_code: "TX6" });
+      const entry = getJournalEntry(payment.journal_entry_id!)!;
+      const debit = (code: string) =>
+        entry.lines.find((l: { account?: { code: string } }) => l.account?.code === code)?.debit;
+
+      assert.strictEqual(debit("6100"), 100);
+      assert.strictEqual(debit("1450"), 6);
+      const expense = listExpenses({ start_date: "2024-07-08", end_date: "2024-07-08" })[0];
+      assert.strictEqual(expense.tax_code, "TX6");
+      assert.strictEqual(expense.tax_amount, 6);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-time-entries-test-" + Date.now();
+
+describe("Time Entries", () => {
+  let customerId: number;
+
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    const { createCustomer } = await import("../dist/domain/customers.js");
+    const { createTrackingDimension, createTrackingValue } = await import("../dist/domain/tracking.js");
+    customerId = createCustomer({ name: "Syarikat Maju" }).id;
+    createCustomer({ name: "Kedai Runcit Ali" });
+    createTrackingDimension("Project");
+    createTrackingValue("Project", "Website");
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("timers", () => {
+    it("should run one timer at a time and record its hours when stopped", async () => {
+      const { startTimer, stopTimer, getRunningTimer } = await import("../dist/domain/time-entries.js");
+
+      startTimer({ customer_id: customerId, rate: 350, description: "Design review" }, new Date("2025-05-05T09:00:00Z"));
+      assert.throws(() => startTimer({ customer_id: customerId, rate: 350 }), /A timer is already running for Syarikat Maju since 09:00/);
+      assert.strictEqual(getRunningTimer()!.hours, null);
+
+      const entry = stopTimer(new Date("2025-05-05T10:45:00Z"));
+      assert.strictEqual(entry.hours, 1.75);
+      assert.strictEqual(entry.amount, 612.5);
+      assert.strictEqual(entry.date, "2025-05-05");
+      assert.throws(() => stopTimer(), /No timer is running/);
+    });
+  });
+
+  describe("billUnbilledTime", () => {
+    it("should group unbilled hours into invoice lines by project and rate", async () => {
+      const { logTime, billUnbilledTime, getUnbilledTime, listTimeEntries } = await import("../dist/domain/time-entries.js");
+      const { setSetting } = await import("../dist/db/index.js");
+
+      assert.throws(() => logTime({ customer_id: customerId, hours: 2 }), /No hourly rate/);
+      setSetting("hourly_rate", "350");
+
+      logTime({ customer_id: customerId, date: "2025-05-06", hours: 3, project: "Website" });
+      logTime({ customer_id: customerId, date: "2025-05-08", hours: 2.25, project: "Website" });
+      logTime({ customer_id: customerId, date: "2025-05-09", hours: 4, description: "Internal call", billable: false });
+      logTime({ customer_id: customerId, date: "2025-06-02", hours: 1 });
+
+      const wip = getUnbilledTime();
+      assert.deepStrictEqual(
+        wip.customers.map((c: { customer_name: string; hours: number; amount: number }) => [c.customer_name, c.hours, c.amount]),
+        [["Syarikat Maju", 8, 2800]]
+      );
+
+      const { invoice, entries } = billUnbilledTime(customerId, { through: "2025-05-31", date: "2025-05-31" });
+      assert.strictEqual(entries.length, 3);
+      assert.strictEqual(invoice.status, "draft");
+      const lines = invoice.items!.map((i: { description: string; quantity: number; unit_price: number; unit_code: string }) =>
+        [i.description, i.quantity, i.unit_price, i.unit_code]);
+      assert.deepStrictEqual(lines, [
+        ["Consulting hours (2025-05-05)", 1.75, 350, "HUR"],
+        ["Consulting hours - Website (2025-05-06 to 2025-05-08)", 5.25, 350, "HUR"],
+      ]);
+      assert.strictEqual(invoice.items![1].tracking[0].value_name, "Website");
+      assert.strictEqual(invoice.subtotal, 2450);
+
+      assert.strictEqual(getUnbilledTime().amount, 350, "June stays unbilled");
+      assert.strictEqual(listTimeEntries({ status: "billed" }).length, 3);
+    });
+
+    it("should release billed time when the draft invoice is deleted", async () => {
+      const { getUnbilledTime, listTimeEntries, deleteTimeEntry } = await import("../dist/domain/time-entries.js");
+      const { deleteInvoice } = await import("../dist/domain/invoices.js");
+
+      const [billed] = listTimeEntries({ status: "billed" });
+      assert.match(deleteTimeEntry(billed.id).error!, /has been billed on invoice DRAFT-0001/);
+
+      assert.ok(deleteInvoice(billed.invoice_id!).success);
+      assert.strictEqual(getUnbilledTime().amount, 2800);
+      assert.strictEqual(listTimeEntries({ status: "billed" }).length, 0);
+    });
+
+    it("should count revenue once when time from a cancelled invoice is billed again", async () => {
+      const { billUnbilledTime, getUnbilledTime } = await import("../dist/domain/time-entries.js");
+      const { issueInvoice, cancelInvoice } = await import("../dist/domain/invoices.js");
+      const { getProfitLoss } = await import("../dist/domain/reports.js");
+      const revenue = () => getProfitLoss("2025-01-01", "2099-12-31").revenue.total;
+
+      const first = issueInvoice(billUnbilledTime(customerId, { through: "2025-05-31", date: "2025-05-31" }).invoice.id);
+      assert.strictEqual(revenue(), first.subtotal);
+      assert.ok(cancelInvoice(first.id).success);
+      assert.strictEqual(revenue(), 0);
+      assert.strictEqual(getUnbilledTime().amount, 2800);
+
+      const second = issueInvoice(billUnbilledTime(customerId, { through: "2025-05-31", date: "2025-05-31" }).invoice.id);
+      assert.strictEqual(second.subtotal, 2450);
+      assert.strictEqual(revenue(), 2450);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-tracking-test-" + Date.now();
+
+describe("Tracking Dimensions", () => {
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("values", () => {
+    it("should create dimensions and values and resolve references", async () => {
+      const { createTrackingDimension, createTrackingValue, resolveTrackingRefs, normalizeTracking } =
+        await import("../dist/domain/tracking.js");
+
+      createTrackingDimension("Project");
+      createTrackingDimension("Department");
+      const website = createTrackingValue("Project", "Website");
+      createTrackingValue("Project", "Mobile App");
+      const sales = createTrackingValue("department", "Sales");
+
+      assert.throws(() => createTrackingValue("Project", "website"), /already exists/);
+      assert.deepStrictEqual(resolveTrackingRefs(["project:website", "Department=Sales"]), [website.id, sales.id]);
+      assert.throws(() => resolveTrackingRefs(["Project:Nope"]), /not found/);
+
+      const mobile = resolveTrackingRefs(["Project:Mobile App"])[0];
+      assert.throws(() => normalizeTracking([website.id, mobile]), /Only one Project value/);
+    });
+  });
+
+  describe("journal lines", () => {
+    it("should tag manual journal lines and carry tags onto reversals", async () => {
+      const { resolveTrackingRefs } = await import("../dist/domain/tracking.js");
+      const { createJournalEntry, getJournalEntry, reverseJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const [website] = resolveTrackingRefs(["Project:Website"]);
+      const entry = createJournalEntry({
+        date: "2024-03-05",
+        description: "Hosting accrual",
+        lines: [
+          { account_id: getAccountByCode("5700")!.id, debit: 120, credit: 0, tracking: [website] },
+          { account_id: getAccountByCode("1100")!.id, debit: 0, credit: 120 },
+        ],
+      });
+
+      const saved = getJournalEntry(entry.id)!;
+      assert.strictEqual(saved.lines[0].tracking?.[0].value_name, "Website");
+      assert.deepStrictEqual(saved.lines[1].tracking, []);
+
+      const reversal = reverseJournalEntry(entry.id, "2024-03-06");
+      const reversed = getJournalEntry(reversal.id)!;
+      assert.strictEqual(reversed.lines.find((l: { credit: number }) => l.credit === 120)?.tracking?.[0].value_id, website);
+    });
+  });
+
+  describe("reports", () => {
+    it("should filter and group P&L, trial balance and ledger by dimension", async () => {
+      const { resolveTrackingRefs, getTrackingDimension } = await import("../dist/domain/tracking.js");
+      const { createInvoice, issueInvoice, getInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+      const { recordExpense } = await import("../dist/domain/payments.js");
+      const { getProfitLoss } = await import("../dist/domain/reports.js");
+      const { getTrialBalance, getGeneralLedger, getJournalEntry } = await import("../dist/domain/journal.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+
+      const [website, mobile] = resolveTrackingRefs(["Project:Website", "Project:Mobile App"]);
+      const project = getTrackingDimension("Project")!;
+      const customer = createCustomer({ name: "Tracked Client" });
+
+      const draft = createInvoice({
+        customer_id: customer.id,
+        date: "2024-05-10",
+        tax_rate: 0,
+        items: [
+          { description: "Site build", unit_price: 1000, tracking: [website] },
+          { description: "App build", unit_price: 600, tracking: [mobile] },
+          { description: "Support", unit_price: 100 },
+        ],
+      });
+      const invoice = issueInvoice(draft.id);
+      assert.strictEqual(getInvoice(invoice.id)?.items?.[0].tracking?.[0].value_name, "Website");
+
+      const entry = getJournalEntry(invoice.journal_entry_id)!;
+      const revenueLines = entry.lines.filter((l: { account?: { code: string } }) => l.account?.code === "4000");
+      assert.strictEqual(revenueLines.length, 3, "Revenue is split per tracking value");
+
+      recordExpense({ date: "2024-05-12", amount: 250, category: "Rent", description: "Site office", tracking: [website] });
+
+      const filtered = getProfitLoss("2024-05-01", "2024-05-31", { tracking_value_id: website });
+      assert.strictEqual(filtered.revenue.total, 1000);
+      assert.strictEqual(filtered.expenses.total, 250);
+      assert.strictEqual(filtered.net_income, 750);
+
+      const grouped = getProfitLoss("2024-05-01", "2024-05-31", { group_by_dimension_id: project.id });
+      assert.strictEqual(grouped.net_income, 1450, "Totals are unchanged when grouping");
+      const byName = new Map(grouped.by_tracking!.map((r: { value_name: string; net_income: number }) => [r.value_name, r.net_income]));
+      assert.strictEqual(byName.get("Website"), 750);
+      assert.strictEqual(byName.get("Mobile App"), 600);
+      assert.strictEqual(byName.get("Unassigned"), 100);
+
+      const trial = getTrialBalance("2024-05-31", { group_by_dimension_id: project.id });
+      const revenueRows = trial.filter((r: { account_code: string }) => r.account_code === "4000");
+      assert.strictEqual(revenueRows.find((r: { tracking_value_name?: string }) => r.tracking_value_name === "Mobile App")?.credit_balance, 600);
+
+      const rentLedger = getGeneralLedger(getAccountByCode("5600")!.id, "2024-05-01", "2024-05-31", 100, { tracking_value_id: mobile });
+      assert.strictEqual(rentLedger.length, 0);
+      const revenueLedger = getGeneralLedger(getAccountByCode("4000")!.id, "2024-05-01", "2024-05-31", 100, { group_by_dimension_id: project.id });
+      assert.strictEqual(revenueLedger[0].tracking_value_name, "Mobile App");
+      assert.strictEqual(revenueLedger[1].balance, 1000, "Running balance restarts per value");
+    });
+
+    it("should apply a categorization rule's default tracking value", async () => {
+      const { resolveTrackingRefs, getTrackingAssignments } = await import("../dist/domain/tracking.js");
+      const { createRule } = await import("../dist/domain/categorization-rules.js");
+      const { recordExpense } = await import("../dist/domain/payments.js");
+      const { getProfitLoss } = await import("../dist/domain/reports.js");
+      const { getAccountByCode } = await import("../dist/domain/accounts.js");
+      const { getDb } = await import("../dist/db/index.js");
+
+      const [sales] = resolveTrackingRefs(["Department:Sales"]);
+      const rule = createRule({ pattern: "linkedin", account_id: getAccountByCode("5100")!.id, tracking_value_id: sales });
+      assert.strictEqual(rule.tracking_value_name, "Sales");
+
+      recordExpense({ date: "2024-06-03", amount: 80, category: "", description: "LinkedIn ads" });
+
+      const expense = getDb().prepare("SELECT id FROM expenses WHERE description = 'LinkedIn ads'").get() as { id: number };
+      assert.strictEqual(getTrackingAssignments("expense", [expense.id]).get(expense.id)?.[0].value_id, sales);
+      assert.strictEqual(getProfitLoss("2024-06-01", "2024-06-30", { tracking_value_id: sales }).expenses.total, 80);
+    });
+
+    it("should refuse to delete values in use", async () => {
+      const { resolveTrackingRefs, deleteTrackingValue, archiveTrackingValue, createTrackingValue } =
+        await import("../dist/domain/tracking.js");
+      const { createInvoice } = await import("../dist/domain/invoices.js");
+      const { createCustomer } = await import("../dist/domain/customers.js");
+
+      const [website] = resolveTrackingRefs(["Project:Website"]);
+      const deleted = deleteTrackingValue(website);
+      assert.strictEqual(deleted.success, false);
+      assert.match(deleted.error!, /Archive it instead/);
+
+      assert.strictEqual(archiveTrackingValue(website).success, true);
+      const customer = createCustomer({ name: "Archived Project Client" });
+      assert.throws(
+        () => createInvoice({
+          customer_id: customer.id,
+          date: "2024-07-01",
+          items: [{ description: "More site work", unit_price: 10, tracking: [website] }],
+        }),
+        /archived/
+      );
+
+      const unused = createTrackingValue("Project", "Scrapped");
+      assert.strictEqual(deleteTrackingValue(unused.id).success, true);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { rmSync } from "fs";
+
+const testDir = "/tmp/oa-withholding-tax-test-" + Date.now();
+
+describe("Withholding Tax", () => {
+  let vendorId: number;
+
+  before(async () => {
+    const { mkdir } = await import("fs/promises");
+    await mkdir(testDir, { recursive: true });
+    process.chdir(testDir);
+
+    const { createVendor } = await import("../dist/domain/vendors.js");
+    vendorId = createVendor({ name: "Nordic Software AB", is_non_resident: true, wht_category: "royalty" }).id;
+  });
+
+  after(() => {
+    process.chdir("/tmp");
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("payments", () => {
+    it("should pay a non-resident bill net and hold the tax on Withholding Tax Payable", async () => {
+      const { createBill, approveBill, recordBillPayment, getBill } = await import("../dist/domain/bills.js");
+      const { getAccountByCode, getAccountBalance } = await import("../dist/domain/accounts.js");
+      const { listWhtDeductions } = await import("../dist/domain/withholding-tax.js");
+
+      const bill = createBill({ vendor_id: vendorId, date: "2025-03-03", items: [{ description: "Licence fee", unit_price: 10000 }] });
+      approveBill(bill.id);
+
+      const payment = recordBillPayment({ bill_id: bill.id, amount: 10000, date: "2025-03-15" });
+      assert.strictEqual(payment.amount, 9000);
+      assert.strictEqual(payment.wht_amount, 1000);
+      assert.strictEqual(getBill(bill.id)!.status, "paid");
+      assert.strictEqual(getAccountBalance(getAccountByCode("2360")!.id), 1000);
+
+      const [deduction] = listWhtDeductions();
+      assert.strictEqual(deduction.form, "CP37");
+      assert.strictEqual(deduction.section, "109");
+      assert.strictEqual(deduction.gross_amount, 10000);
+      assert.strictEqual(deduction.due_date, "2025-04-15");
+    });
+
+    it("should withhold from expenses at the vendor's treaty rate unless told not to", async () => {
+      const { recordExpense } = await import("../dist/domain/payments.js");
+      const { createVendor } = await import("../dist/domain/vendors.js");
+      const { listWhtDeductions } = await import("../dist/domain/withholding-tax.js");
+
+      const consultant = createVendor({ name: "Tokyo Engineering KK", is_non_resident: true, wht_category: "technical", wht_rate: 5 });
+      const withheld = recordExpense({ vendor_id: consultant.id, amount: 2000, category: "Other Expenses", date: "2025-03-31" });
+      assert.strictEqual(withheld.amount, 1900);
+      assert.strictEqual(withheld.wht_amount, 100);
+
+      const goods = recordExpense({ vendor_id: consultant.id, amount: 500, category: "Other Expenses", withhold: false });
+      assert.strictEqual(goods.amount, 500);
+      assert.strictEqual(goods.wht_amount, 0);
+
+      const deduction = listWhtDeductions({ form: "CP37D" });
+      assert.deepStrictEqual(deduction.map((d: { rate: number; wht_amount: number; due_date: string }) => [d.rate, d.wht_amount, d.due_date]), [[5, 100, "2025-04-30"]]);
+    });
+  });
+
+  describe("remittance", () => {
+    it("should track deadlines, remit one form at a time and summarise the period", async () => {
+      const { getWhtTracker, remitWht, getWhtSummary } = await import("../dist/domain/withholding-tax.js");
+      const { getAccountByCode, getAccountBalance } = await import("../dist/domain/accounts.js");
+
+      const tracker = getWhtTracker("2025-04-20");
+      assert.strictEqual(tracker.total, 1100);
+      assert.strictEqual(tracker.overdue, 1000);
+      assert.deepStrictEqual(tracker.by_form.map((f: { form: string; overdue: number }) => [f.form, f.overdue]), [["CP37", 1000], ["CP37D", 0]]);
+
+      assert.throws(() => remitWht({ date: "2025-04-20" }), /Remit one form at a time: CP37, CP37D/);
+      const remittance = remitWht({ form: "CP37", date: "2025-04-20", reference: "LHDN-123" });
+      assert.strictEqual(remittance.amount, 1000);
+      assert.strictEqual(remittance.deductions, 1);
+      assert.strictEqual(getAccountBalance(getAccountByCode("2360")!.id), 100);
+      assert.throws(() => remitWht({ form: "CP37" }), /No withholding tax outstanding/);
+
+      const summary = getWhtSummary("2025-03-01", "2025-03-31");
+      assert.deepStrictEqual(
+        summary.forms.map((f: { form: string; gross: number; wht: number; remitted: number }) => [f.form, f.gross, f.wht, f.remitted]),
+        [["CP37", 10000, 1000, 1000], ["CP37D", 2000, 100, 0]]
+      );
+      assert.strictEqual(summary.forms[0].deductions[0].remittance_reference, "LHDN-123");
+      assert.strictEqual(summary.outstanding, 100);
+    });
+  });
+});